@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from "vitest";
+import { describe, it, expect, beforeEach, vi } from "vitest";
 import fc from "fast-check";
 import {
   calculateDaysSinceJ2000,
@@ -205,7 +205,7 @@ describe("Astronomy Calculations", () => {
       });
 
       it("should return 0 for unknown planet", () => {
-        const longitude = calculateEclipticLongitude("Pluto", new Date());
+        const longitude = calculateEclipticLongitude("Vulcan", new Date());
         expect(longitude).toBe(0);
       });
 
@@ -338,6 +338,37 @@ describe("Astronomy Calculations", () => {
         expect(Object.keys(PLANET_BODY_MAP)).toHaveLength(8);
       });
     });
+
+    describe("dwarf planets without orbital elements", () => {
+      it("should log and leave out a body missing its elements", async () => {
+        vi.resetModules();
+        vi.doMock("@/data/dwarf-planet-data", async (importOriginal) => {
+          const { dwarfPlanetData } =
+            await importOriginal<typeof import("@/data/dwarf-planet-data")>();
+          return {
+            dwarfPlanetData: dwarfPlanetData.map((body) =>
+              body.name === "Eris"
+                ? { ...body, orbitalElements: undefined }
+                : body,
+            ),
+          };
+        });
+        const consoleError = vi
+          .spyOn(console, "error")
+          .mockImplementation(() => {});
+
+        const calculations = await import("@/utils/astronomy-calculations");
+        expect(consoleError).toHaveBeenCalledWith(
+          "Missing orbital elements for Eris",
+        );
+        expect(calculations.getSupportedDwarfPlanets()).not.toContain("Eris");
+        expect(calculations.getSupportedDwarfPlanets()).toContain("Haumea");
+
+        consoleError.mockRestore();
+        vi.doUnmock("@/data/dwarf-planet-data");
+        vi.resetModules();
+      });
+    });
   });
 });
 
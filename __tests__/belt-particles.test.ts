@@ -0,0 +1,252 @@
+import { describe, it, expect } from "vitest";
+import fc from "fast-check";
+import {
+  BELT_DATA,
+  getBeltRegionById,
+  type ResonanceLock,
+} from "@/features/belt-regions/data/belt-data";
+import {
+  RADIAL_SCALE_MAX_AU,
+  createRadialScaleTable,
+  getBeltParticlePosition,
+  getDaysSinceJ2000,
+  getResonanceSemiMajorAxis,
+  lookupRadialScale,
+  sampleBeltParticles,
+  type BeltParticles,
+} from "@/features/belt-regions/domain/belt-particles";
+import { planetData } from "@/data/planet-data";
+import { getPlanetOrbitalElements } from "@/features/planet-rendering/domain/kepler-orbit";
+import {
+  SCALE_MODES,
+  SCALE_STRATEGIES,
+  blendScaleStrategies,
+} from "@/features/view-scale/domain/scale-strategy";
+import { getMeanMotion } from "@/utils/orbital-elements";
+
+const DEG_TO_RAD = Math.PI / 180;
+const MS_PER_DAY = 86_400_000;
+
+/**
+ * Small seeded generator so every run samples the same belts
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const asteroidBelt = getBeltRegionById("asteroid-belt")!;
+const kuiperBelt = getBeltRegionById("kuiper-belt")!;
+const asteroids = sampleBeltParticles(asteroidBelt, seededRandom(1));
+const kuiperObjects = sampleBeltParticles(kuiperBelt, seededRandom(2));
+const sampledBelts = [
+  { belt: asteroidBelt, particles: asteroids },
+  { belt: kuiperBelt, particles: kuiperObjects },
+];
+
+const wrapRadians = (angle: number) =>
+  Math.atan2(Math.sin(angle), Math.cos(angle));
+
+const indicesOf = (particles: BeltParticles, populationIndex: number) =>
+  Array.from({ length: particles.count }, (_, i) => i).filter(
+    (i) => particles.populations[i] === populationIndex,
+  );
+
+/**
+ * Resonant angle planetOrbits·λ − orbits·λp + (orbits − planetOrbits)·ϖ of
+ * a particle a number of days after J2000
+ */
+function getResonantAngle(
+  particles: BeltParticles,
+  index: number,
+  resonance: ResonanceLock,
+  days: number,
+) {
+  const planet = getPlanetOrbitalElements(
+    planetData.find((body) => body.name === resonance.planet)!,
+  );
+  const planetLongitude =
+    (planet.longitudeOfAscendingNodeDeg +
+      planet.argumentOfPeriapsisDeg +
+      planet.meanAnomalyDeg) *
+      DEG_TO_RAD +
+    getMeanMotion(planet) * days;
+  const [node, peri, meanAnomaly] = particles.phases.slice(
+    index * 3,
+    index * 3 + 3,
+  );
+  const perihelionLongitude = node + peri;
+  const longitude =
+    perihelionLongitude + meanAnomaly + particles.shapes[index * 4 + 3] * days;
+  return wrapRadians(
+    resonance.planetOrbits * longitude -
+      resonance.orbits * planetLongitude +
+      (resonance.orbits - resonance.planetOrbits) * perihelionLongitude,
+  );
+}
+
+describe("Belt Populations", () => {
+  it("should split every belt's particles between its populations", () => {
+    expect(sampledBelts).toHaveLength(BELT_DATA.length);
+    sampledBelts.forEach(({ belt, particles }) => {
+      expect(particles.count).toBe(belt.particleCount);
+      const totalShare = belt.populations.reduce((s, p) => s + p.share, 0);
+      expect(totalShare).toBeCloseTo(1, 6);
+      belt.populations.forEach((population, index) => {
+        const fraction = indicesOf(particles, index).length / particles.count;
+        expect(fraction).toBeCloseTo(population.share, 2);
+      });
+    });
+  });
+
+  it("should keep main-belt orbits out of the Kirkwood gaps", () => {
+    const mainBelt = asteroidBelt.populations[0];
+    if (mainBelt.kind !== "band") throw new Error("Expected a band");
+    const gaps = mainBelt.gaps!.map((gap) => ({
+      center: getResonanceSemiMajorAxis(gap),
+      halfWidth: gap.halfWidthAU,
+    }));
+    // The 3:1 gap sits at 2.50 AU, the 2:1 at 3.28 AU
+    expect(gaps[1].center).toBeCloseTo(2.5, 1);
+    expect(gaps[4].center).toBeCloseTo(3.28, 1);
+
+    indicesOf(asteroids, 0).forEach((i) => {
+      const a = asteroids.shapes[i * 4];
+      expect(a).toBeGreaterThanOrEqual(mainBelt.minSemiMajorAxisAU - 1e-6);
+      expect(a).toBeLessThanOrEqual(mainBelt.maxSemiMajorAxisAU + 1e-6);
+      gaps.forEach(({ center, halfWidth }) =>
+        expect(Math.abs(a - center)).toBeGreaterThan(halfWidth - 1e-6),
+      );
+    });
+  });
+
+  it("should keep eccentricities and inclinations within their limits", () => {
+    sampledBelts.forEach(({ belt, particles }) => {
+      belt.populations.forEach((population, index) => {
+        const ids = indicesOf(particles, index);
+        const e = ids.map((i) => particles.shapes[i * 4 + 1]);
+        const inc = ids.map((i) => particles.shapes[i * 4 + 2]);
+        expect(Math.max(...e)).toBeLessThanOrEqual(
+          population.maxEccentricity + 1e-6,
+        );
+        expect(Math.min(...e)).toBeGreaterThanOrEqual(0);
+        expect(Math.max(...inc)).toBeLessThanOrEqual(Math.PI / 2 + 1e-6);
+        // Rayleigh mean is √(π/2) times the scale
+        const meanInclination =
+          inc.reduce((s, v) => s + v, 0) / inc.length / DEG_TO_RAD;
+        expect(meanInclination).toBeCloseTo(
+          population.inclinationScaleDeg * Math.sqrt(Math.PI / 2),
+          -1,
+        );
+      });
+    });
+  });
+
+  it("should hold resonant populations at their resonant angles", () => {
+    const resonant = sampledBelts.flatMap(({ belt, particles }) =>
+      belt.populations.flatMap((population, index) =>
+        population.kind === "resonant"
+          ? indicesOf(particles, index).map((i) => ({
+              particles,
+              index: i,
+              resonance: population.resonance,
+            }))
+          : [],
+      ),
+    );
+    expect(resonant.length).toBeGreaterThan(0);
+
+    fc.assert(
+      fc.property(
+        fc.constantFrom(...resonant),
+        fc.integer({ min: -73000, max: 73000 }),
+        ({ particles, index, resonance }, days) => {
+          const angle = getResonantAngle(particles, index, resonance, days);
+          return resonance.centersDeg.some(
+            (center) =>
+              Math.abs(wrapRadians(angle - center * DEG_TO_RAD)) <=
+              resonance.librationAmplitudeDeg * DEG_TO_RAD + 1e-3,
+          );
+        },
+      ),
+    );
+  });
+
+  it("should put trojans in Jupiter's orbit and plutinos at 39.4 AU", () => {
+    const trojan = asteroidBelt.populations.find((p) => p.id === "trojans")!;
+    const plutino = kuiperBelt.populations.find((p) => p.id === "plutinos")!;
+    if (trojan.kind !== "resonant" || plutino.kind !== "resonant") {
+      throw new Error("Expected resonant populations");
+    }
+    expect(getResonanceSemiMajorAxis(trojan.resonance)).toBeCloseTo(5.2, 1);
+    expect(getResonanceSemiMajorAxis(plutino.resonance)).toBeCloseTo(39.4, 0);
+  });
+});
+
+describe("Belt Particle Motion", () => {
+  it("should stay between perihelion and aphelion", () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom(asteroids, kuiperObjects),
+        fc.nat(),
+        fc.integer({ min: -73000, max: 73000 }),
+        (particles, seed, days) => {
+          const index = seed % particles.count;
+          const a = particles.shapes[index * 4];
+          const e = particles.shapes[index * 4 + 1];
+          const date = new Date(Date.UTC(2000, 0, 1, 12) + days * MS_PER_DAY);
+          const { x, y, z } = getBeltParticlePosition(particles, index, date);
+          const r = Math.hypot(x, y, z);
+          return r >= a * (1 - e) - 1e-6 && r <= a * (1 + e) + 1e-6;
+        },
+      ),
+    );
+  });
+
+  it("should move each particle along its orbit with time", () => {
+    const start = new Date("2024-01-01T00:00:00Z");
+    const later = new Date("2025-01-01T00:00:00Z");
+    expect(getDaysSinceJ2000(later) - getDaysSinceJ2000(start)).toBe(366);
+    const from = getBeltParticlePosition(asteroids, 0, start);
+    const to = getBeltParticlePosition(asteroids, 0, later);
+    // A main-belt asteroid covers a quarter or more of its orbit in a year
+    const moved = Math.hypot(to.x - from.x, to.y - from.y, to.z - from.z);
+    expect(moved).toBeGreaterThan(0.5);
+  });
+
+  it("should stay inside the radial scale table", () => {
+    [asteroids, kuiperObjects].forEach((particles) => {
+      for (let i = 0; i < particles.count; i++) {
+        const a = particles.shapes[i * 4];
+        const e = particles.shapes[i * 4 + 1];
+        expect(a * (1 + e)).toBeLessThan(RADIAL_SCALE_MAX_AU);
+      }
+    });
+  });
+});
+
+describe("Radial Scale Table", () => {
+  it("should match every scale strategy's distances", () => {
+    const strategies = [
+      ...SCALE_MODES.map((mode) => SCALE_STRATEGIES[mode]),
+      blendScaleStrategies(SCALE_STRATEGIES.true, SCALE_STRATEGIES.log, 0.5),
+    ];
+    fc.assert(
+      fc.property(
+        fc.constantFrom(...strategies),
+        fc.double({ min: 1, max: RADIAL_SCALE_MAX_AU, noNaN: true }),
+        (strategy, distanceAU) => {
+          const table = createRadialScaleTable(strategy);
+          const expected = strategy.distanceToUnits(distanceAU);
+          const actual = lookupRadialScale(table, distanceAU);
+          return Math.abs(actual - expected) <= 1e-3 * expected;
+        },
+      ),
+    );
+  });
+});
@@ -0,0 +1,276 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import fc from "fast-check";
+import {
+  render,
+  renderHook,
+  act,
+  screen,
+  fireEvent,
+  cleanup,
+} from "@testing-library/react";
+import { Vector3 } from "three";
+import {
+  FREE_ORBIT_MIN_DISTANCE,
+  getBodyRadius,
+  getFlightDestination,
+  getFlightDuration,
+  getFlightProgress,
+  getFocusMinDistance,
+  getViewDistance,
+  interpolateCameraView,
+  type CameraView,
+} from "@/features/camera-control/domain/camera-flight";
+import {
+  BODY_SHORTCUTS,
+  getBodyShortcut,
+} from "@/features/camera-control/domain/body-shortcuts";
+import { useCameraFocus } from "@/features/camera-control/application/useCameraFocus";
+import { useBodyShortcuts } from "@/features/camera-control/application/useBodyShortcuts";
+import { BodyList } from "@/features/camera-control/ui/body-list";
+import { planetData, sunData } from "@/data/planet-data";
+import { dwarfPlanetData } from "@/data/dwarf-planet-data";
+import { MOON_DATA } from "@/features/moons/data/moon-data";
+
+const coordinate = fc.double({ min: -60_000, max: 60_000, noNaN: true });
+const point = fc
+  .tuple(coordinate, coordinate, coordinate)
+  .map(([x, y, z]) => new Vector3(x, y, z));
+
+const createView = (): CameraView => ({
+  position: new Vector3(),
+  target: new Vector3(),
+});
+
+const mercury = planetData.find((planet) => planet.name === "Mercury")!;
+const jupiter = planetData.find((planet) => planet.name === "Jupiter")!;
+
+describe("Camera Flight", () => {
+  it("should end on the body at its view distance", () => {
+    fc.assert(
+      fc.property(
+        point,
+        point,
+        fc.constantFrom(sunData, ...planetData, ...dwarfPlanetData),
+        (body, from, planet) => {
+          const distance = getViewDistance(planet);
+          const destination = getFlightDestination(
+            body,
+            from,
+            distance,
+            createView(),
+          );
+          return (
+            destination.target.equals(body) &&
+            Math.abs(destination.position.distanceTo(body) - distance) <
+              distance * 1e-6
+          );
+        },
+      ),
+      { numRuns: 200 },
+    );
+  });
+
+  it("should approach from the side the camera starts on", () => {
+    const destination = getFlightDestination(
+      new Vector3(1000, 0, 0),
+      new Vector3(1000, 0, 4000),
+      10,
+      createView(),
+    );
+    expect(destination.position.toArray()).toEqual([1000, 0, 10]);
+  });
+
+  it("should still end at the view distance when starting on the body", () => {
+    const body = new Vector3(5, 5, 5);
+    const destination = getFlightDestination(body, body, 20, createView());
+    expect(destination.position.distanceTo(body)).toBeCloseTo(20, 9);
+  });
+
+  it("should approach from the default side when at the centre within rounding", () => {
+    const body = new Vector3(50_000, 0, 0);
+    const from = body.clone().add(new Vector3(1e-7, 0, 0));
+
+    const destination = getFlightDestination(body, from, 20, createView());
+    const direction = destination.position.sub(body).normalize();
+
+    expect(direction.x).toBeCloseTo(0, 9);
+    expect(direction.z / direction.y).toBeCloseTo(2, 9);
+  });
+
+  it("should start where the camera was and end at the destination", () => {
+    const from = {
+      position: new Vector3(0, 2000, 4000),
+      target: new Vector3(0, 0, 0),
+    };
+    const to = {
+      position: new Vector3(5000, 0, 10),
+      target: new Vector3(5000, 0, 0),
+    };
+
+    expect(interpolateCameraView(from, to, 0, createView())).toEqual(from);
+    expect(interpolateCameraView(from, to, 1, createView())).toEqual(to);
+  });
+
+  it("should ease progress from 0 to 1 without going backwards", () => {
+    fc.assert(
+      fc.property(
+        fc.double({ min: 100, max: 5000, noNaN: true }),
+        fc.double({ min: -1000, max: 6000, noNaN: true }),
+        fc.double({ min: 0, max: 1000, noNaN: true }),
+        (duration, elapsed, later) => {
+          const progress = getFlightProgress(elapsed, duration);
+          return (
+            progress >= 0 &&
+            progress <= 1 &&
+            getFlightProgress(elapsed + later, duration) >= progress
+          );
+        },
+      ),
+      { numRuns: 200 },
+    );
+    expect(getFlightProgress(0, 2000)).toBe(0);
+    expect(getFlightProgress(2000, 2000)).toBe(1);
+  });
+
+  it("should take longer for longer trips within the limits", () => {
+    const short = getFlightDuration(10);
+    const long = getFlightDuration(40_000);
+    expect(long).toBeGreaterThan(short);
+    expect(short).toBeGreaterThanOrEqual(800);
+    expect(getFlightDuration(1e12)).toBe(3000);
+    expect(getFlightDuration(NaN)).toBe(800);
+  });
+
+  it("should let the camera get close to small bodies without entering them", () => {
+    expect(getFocusMinDistance(mercury)).toBeLessThan(1);
+    expect(getFocusMinDistance(mercury)).toBeGreaterThan(getBodyRadius(mercury));
+    expect(getFocusMinDistance(sunData)).toBeGreaterThan(getBodyRadius(sunData));
+    expect(getViewDistance(mercury)).toBeLessThan(FREE_ORBIT_MIN_DISTANCE);
+  });
+});
+
+describe("Body Shortcuts", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("should map 1-8 to the planets in order from the Sun", () => {
+    planetData.forEach((planet, index) => {
+      expect(BODY_SHORTCUTS[String(index + 1)]).toBe(planet.name);
+      expect(getBodyShortcut(planet.name)).toBe(String(index + 1));
+    });
+    expect(getBodyShortcut("Sun")).toBe("0");
+    expect(getBodyShortcut("Europa")).toBeUndefined();
+  });
+
+  it("should fly to a body on its key and release on Escape", () => {
+    const onFlyTo = vi.fn();
+    const onRelease = vi.fn();
+    renderHook(() => useBodyShortcuts({ onFlyTo, onRelease }));
+
+    fireEvent.keyDown(document, { key: "5" });
+    expect(onFlyTo).toHaveBeenCalledWith(jupiter);
+
+    fireEvent.keyDown(document, { key: "Escape" });
+    expect(onRelease).toHaveBeenCalledTimes(1);
+
+    fireEvent.keyDown(document, { key: "x" });
+    fireEvent.keyDown(document, { key: "constructor" });
+    fireEvent.keyDown(document, { key: "3", ctrlKey: true });
+    expect(onFlyTo).toHaveBeenCalledTimes(1);
+  });
+
+  it("should ignore keys typed into inputs or while disabled", () => {
+    const onFlyTo = vi.fn();
+    const { rerender } = renderHook(
+      ({ enabled }) =>
+        useBodyShortcuts({ onFlyTo, onRelease: () => {}, enabled }),
+      { initialProps: { enabled: true } },
+    );
+
+    const input = document.createElement("input");
+    document.body.appendChild(input);
+    fireEvent.keyDown(input, { key: "3" });
+    input.remove();
+    expect(onFlyTo).not.toHaveBeenCalled();
+
+    rerender({ enabled: false });
+    fireEvent.keyDown(document, { key: "3" });
+    expect(onFlyTo).not.toHaveBeenCalled();
+  });
+});
+
+describe("Camera Focus", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("should follow a body after flying to it and release to free orbit", () => {
+    const { result } = renderHook(() => useCameraFocus());
+    expect(result.current.cameraFocus).toBeNull();
+
+    act(() => {
+      result.current.flyTo(mercury);
+    });
+    expect(result.current.cameraFocus).toMatchObject({
+      body: mercury,
+      following: true,
+    });
+
+    act(() => {
+      result.current.release();
+    });
+    expect(result.current.cameraFocus).toMatchObject({
+      body: mercury,
+      following: false,
+    });
+  });
+
+  it("should start a new flight when flying to the same body again", () => {
+    const { result } = renderHook(() => useCameraFocus());
+
+    act(() => {
+      result.current.flyTo(mercury);
+    });
+    const firstFlight = result.current.cameraFocus!.flightId;
+    act(() => {
+      result.current.release();
+      result.current.flyTo(mercury);
+    });
+
+    expect(result.current.cameraFocus!.flightId).not.toBe(firstFlight);
+    expect(result.current.cameraFocus!.following).toBe(true);
+  });
+
+  it("should list every body and fly to the one clicked", () => {
+    const onFlyTo = vi.fn();
+    render(<BodyList focus={null} onFlyTo={onFlyTo} onRelease={() => {}} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Fly to" }));
+    [sunData, ...planetData, ...dwarfPlanetData, ...MOON_DATA].forEach(
+      (body) => {
+        expect(
+          screen.getByRole("button", { name: `Fly to ${body.name}` }),
+        ).toBeTruthy();
+      },
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "Fly to Mercury" }));
+    expect(onFlyTo).toHaveBeenCalledWith(mercury);
+  });
+
+  it("should offer to release the followed body", () => {
+    const onRelease = vi.fn();
+    render(
+      <BodyList
+        focus={{ body: jupiter, following: true, flightId: 1 }}
+        onFlyTo={() => {}}
+        onRelease={onRelease}
+      />,
+    );
+
+    expect(screen.getByText("Following Jupiter")).toBeTruthy();
+    fireEvent.click(screen.getByRole("button", { name: "Free orbit" }));
+    expect(onRelease).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,378 @@
+/**
+ * Catalog Store Tests
+ * Per-body versioning, stale-while-revalidate refresh, freshness labels and
+ * the service worker's caching, run against fake Cache Storage
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { runInNewContext } from "node:vm";
+import { fetchWithCache } from "@/features/planet-catalog/infrastructure/fetch-with-fallback";
+import {
+  CATALOG_SCHEMA_VERSION,
+  getCatalogStore,
+  readCatalogRecord,
+  subscribeToCatalogUpdates,
+  writeCatalogRecord,
+  type CatalogRecord,
+} from "@/features/planet-catalog/infrastructure/catalog-store";
+import { formatCatalogFreshness } from "@/features/planet-catalog/domain/catalog-freshness";
+import { planetDataService } from "@/features/planet-catalog/infrastructure/planet-data-service";
+import { APIResponse } from "@/features/planet-catalog/domain/planet-api-types";
+import { combinePlanetFacts } from "@/features/planet-catalog/domain/planet-data-provider";
+import { planetData } from "@/data/planet-data";
+import { getTextureUrls } from "@/features/offline/application/useServiceWorker";
+import { PLANET_TEXTURES } from "@/lib/planet-textures/texture-config";
+
+vi.mock("@/features/planet-catalog/infrastructure/planet-data-service", () => ({
+  planetDataService: {
+    fetchPlanetData: vi.fn(),
+  },
+}));
+
+const mockPlanetDataService = vi.mocked(planetDataService);
+
+const HOUR_MS = 3600000;
+const DAY_MS = 24 * HOUR_MS;
+
+const mars = planetData.find((planet) => planet.name === "Mars")!;
+
+function marsResponse(avgTemp: number): APIResponse {
+  return {
+    id: "mars",
+    name: "mars",
+    englishName: "Mars",
+    isPlanet: true,
+    avgTemp,
+  } as APIResponse;
+}
+
+function marsFacts(meanTemperatureK: number) {
+  return combinePlanetFacts([
+    { providerId: "le-systeme-solaire", facts: { meanTemperatureK } },
+  ]);
+}
+
+describe("Catalog Store", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await getCatalogStore().clear();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("Versioning", () => {
+    it("should bump a body's version only when its data changes", async () => {
+      const first = await writeCatalogRecord("mars", marsFacts(210), 1);
+      const same = await writeCatalogRecord("mars", marsFacts(210), 2);
+      const changed = await writeCatalogRecord("mars", marsFacts(212), 3);
+
+      expect(first.version).toBe(1);
+      expect(same.version).toBe(1);
+      expect(changed.version).toBe(2);
+      expect((await readCatalogRecord("mars"))?.fetchedAt).toBe(3);
+      // Other bodies keep their own versions
+      expect(
+        (await writeCatalogRecord("venus", marsFacts(737), 4)).version
+      ).toBe(1);
+    });
+
+    it("should ignore records from another schema version", async () => {
+      await getCatalogStore().put({
+        id: "mars",
+        version: 4,
+        schemaVersion: CATALOG_SCHEMA_VERSION + 1,
+        data: marsFacts(210),
+        fetchedAt: 1,
+      });
+
+      expect(await readCatalogRecord("mars")).toBeUndefined();
+    });
+  });
+
+  describe("Stale-while-revalidate", () => {
+    it("should mark fetched data live and stored data cached", async () => {
+      mockPlanetDataService.fetchPlanetData.mockResolvedValue(
+        marsResponse(210)
+      );
+
+      const live = await fetchWithCache("Mars", mars);
+      const cached = await fetchWithCache("Mars", mars);
+
+      expect(live.freshness?.source).toBe("live");
+      expect(cached.freshness?.source).toBe("cached");
+      expect(cached.apiTemperature).toBe(live.apiTemperature);
+      expect(mockPlanetDataService.fetchPlanetData).toHaveBeenCalledTimes(1);
+    });
+
+    it("should mark local fallback data bundled", async () => {
+      mockPlanetDataService.fetchPlanetData.mockRejectedValue(
+        new Error("Offline")
+      );
+
+      const result = await fetchWithCache("Mars", mars);
+
+      expect(result.freshness).toEqual({ source: "bundled" });
+      expect(result.apiError).toBe(true);
+    });
+
+    it("should return stale data at once and refresh it in the background", async () => {
+      const fetchedAt = Date.now() - 3 * DAY_MS;
+      await writeCatalogRecord("mars", marsFacts(210), fetchedAt);
+      mockPlanetDataService.fetchPlanetData.mockResolvedValue(
+        marsResponse(212)
+      );
+
+      const updated = new Promise<CatalogRecord>((resolve) => {
+        const unsubscribe = subscribeToCatalogUpdates((record) => {
+          unsubscribe();
+          resolve(record);
+        });
+      });
+      const [first, second] = await Promise.all([
+        fetchWithCache("Mars", mars),
+        fetchWithCache("Mars", mars),
+      ]);
+
+      expect(first.freshness).toEqual({ source: "cached", fetchedAt });
+      expect(first.apiTemperature).toBe(second.apiTemperature);
+
+      const record = await updated;
+      expect(record.id).toBe("mars");
+      expect(record.version).toBe(2);
+      expect(record.data.facts.meanTemperatureK).toBe(212);
+      // Both calls share one refresh
+      expect(mockPlanetDataService.fetchPlanetData).toHaveBeenCalledTimes(1);
+      expect(await readCatalogRecord("mars")).toEqual(record);
+    });
+
+    it("should keep stale data when the background refresh fails", async () => {
+      const fetchedAt = Date.now() - 2 * HOUR_MS;
+      await writeCatalogRecord("mars", marsFacts(210), fetchedAt);
+      mockPlanetDataService.fetchPlanetData.mockRejectedValue(
+        new Error("Offline")
+      );
+      const listener = vi.fn();
+      const unsubscribe = subscribeToCatalogUpdates(listener);
+
+      const result = await fetchWithCache("Mars", mars);
+      await vi.waitFor(() =>
+        expect(mockPlanetDataService.fetchPlanetData).toHaveBeenCalled()
+      );
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      unsubscribe();
+
+      expect(result.freshness).toEqual({ source: "cached", fetchedAt });
+      expect(listener).not.toHaveBeenCalled();
+      expect((await readCatalogRecord("mars"))?.fetchedAt).toBe(fetchedAt);
+    });
+
+    it("should not reject reads waiting on a background refresh that throws", async () => {
+      const fetchedAt = Date.now() - 2 * HOUR_MS;
+      await writeCatalogRecord("mars", marsFacts(210), fetchedAt);
+      let respond: (response: APIResponse) => void = () => {};
+      mockPlanetDataService.fetchPlanetData.mockReturnValue(
+        new Promise((resolve) => {
+          respond = resolve;
+        })
+      );
+      const unsubscribe = subscribeToCatalogUpdates(() => {
+        throw new Error("Listener failed");
+      });
+
+      await fetchWithCache("Mars", mars);
+      // Without a record, the next read waits for the refresh in flight
+      await getCatalogStore().delete("mars");
+      const waiting = fetchWithCache("Mars", mars);
+      respond(marsResponse(212));
+      const result = await waiting;
+      unsubscribe();
+
+      expect(result.freshness?.source).toBe("cached");
+      const record = await readCatalogRecord("mars");
+      expect(record?.data.facts.meanTemperatureK).toBe(212);
+      expect(console.error).toHaveBeenCalledWith(
+        "Failed to refresh Mars in the background:",
+        expect.any(Error)
+      );
+    });
+  });
+
+  describe("Freshness labels", () => {
+    const now = Date.UTC(2024, 5, 1);
+
+    it("should label live and bundled data", () => {
+      expect(formatCatalogFreshness({ source: "live", fetchedAt: now }, now)).toBe(
+        "live"
+      );
+      expect(formatCatalogFreshness({ source: "bundled" }, now)).toBe(
+        "bundled"
+      );
+    });
+
+    it("should give the age of cached data", () => {
+      const cachedAt = (age: number) =>
+        formatCatalogFreshness({ source: "cached", fetchedAt: now - age }, now);
+
+      expect(cachedAt(20000)).toBe("cached just now");
+      expect(cachedAt(60000)).toBe("cached 1 minute ago");
+      expect(cachedAt(5 * HOUR_MS)).toBe("cached 5 hours ago");
+      expect(cachedAt(3 * DAY_MS + HOUR_MS)).toBe("cached 3 days ago");
+    });
+  });
+
+  describe("Service worker", () => {
+    // The page's origin under jsdom
+    const ORIGIN = window.location.origin;
+
+    type Listener = (event: Record<string, unknown>) => void;
+
+    /**
+     * Run public/sw.js with fake Cache Storage and fetch; cache keys are
+     * kept in insertion order like the real thing
+     */
+    function loadWorker(cacheNames: string[] = []) {
+      const stores = new Map<string, Map<string, Response>>(
+        cacheNames.map((name) => [name, new Map()])
+      );
+      const keyOf = (key: string | { url: string }) =>
+        new URL(typeof key === "string" ? key : key.url, ORIGIN).href;
+      const fetchMock = vi.fn(
+        async (request: string | { url: string }) =>
+          new Response(keyOf(request))
+      );
+      const openStore = (name: string) => {
+        if (!stores.has(name)) stores.set(name, new Map());
+        const store = stores.get(name)!;
+        return {
+          match: async (key: string | { url: string }) =>
+            store.get(keyOf(key)),
+          put: async (key: string | { url: string }, response: Response) => {
+            store.delete(keyOf(key));
+            store.set(keyOf(key), response);
+          },
+          add: async (url: string) => {
+            const response = await fetchMock(url);
+            store.set(keyOf(url), response);
+          },
+          addAll: async (urls: string[]) => {
+            for (const url of urls) store.set(keyOf(url), new Response(url));
+          },
+          keys: async () => [...store.keys()].map((url) => ({ url })),
+          delete: async (key: string | { url: string }) =>
+            store.delete(keyOf(key)),
+        };
+      };
+      const caches = {
+        open: async (name: string) => openStore(name),
+        keys: async () => [...stores.keys()],
+        delete: async (name: string) => stores.delete(name),
+        match: async (key: string | { url: string }) => {
+          for (const store of stores.values()) {
+            const hit = store.get(keyOf(key));
+            if (hit) return hit;
+          }
+          return undefined;
+        },
+      };
+
+      const listeners = new Map<string, Listener>();
+      runInNewContext(
+        readFileSync(join(process.cwd(), "public", "sw.js"), "utf8"),
+        {
+          self: {
+            location: { origin: ORIGIN },
+            addEventListener: (type: string, listener: Listener) =>
+              listeners.set(type, listener),
+            skipWaiting: async () => {},
+            clients: { claim: async () => {} },
+          },
+          caches,
+          fetch: fetchMock,
+          URL,
+          Response,
+        }
+      );
+
+      /**
+       * Dispatch an event; resolves with what it waited on or responded with
+       */
+      const dispatch = async (type: string, init: Record<string, unknown>) => {
+        let pending: Promise<unknown> | undefined;
+        listeners.get(type)!({
+          ...init,
+          waitUntil: (promise: Promise<unknown>) => (pending = promise),
+          respondWith: (promise: Promise<unknown>) => (pending = promise),
+        });
+        await pending;
+        return pending !== undefined;
+      };
+      const fetchEvent = (path: string, mode = "no-cors") =>
+        dispatch("fetch", {
+          request: { url: `${ORIGIN}${path}`, method: "GET", mode },
+        });
+      const currentCache = () =>
+        [...stores.entries()].find(([name]) =>
+          name.startsWith("solar-system-")
+        )?.[1];
+
+      return { stores, dispatch, fetchEvent, currentCache };
+    }
+
+    it("should only delete its own old caches", async () => {
+      const worker = loadWorker(["solar-system-v1", "another-app"]);
+
+      await worker.dispatch("install", {});
+      await worker.dispatch("activate", {});
+
+      const names = [...worker.stores.keys()];
+      expect(names).toContain("another-app");
+      expect(names).not.toContain("solar-system-v1");
+      expect(
+        names.filter((name) => name.startsWith("solar-system-"))
+      ).toHaveLength(1);
+    });
+
+    it("should keep one copy of a page whatever its query string", async () => {
+      const worker = loadWorker();
+      await worker.dispatch("install", {});
+
+      await worker.fetchEvent("/?date=2024-01-01", "navigate");
+      await worker.fetchEvent("/?date=1986-02-09&focus=halley", "navigate");
+
+      expect([...worker.currentCache()!.keys()]).toEqual([
+        `${ORIGIN}/favicon.svg`,
+        `${ORIGIN}/`,
+      ]);
+    });
+
+    it("should leave other requests to the network", async () => {
+      const worker = loadWorker();
+
+      expect(await worker.fetchEvent("/robots.txt")).toBe(false);
+      expect(await worker.fetchEvent("/api/planets/mars")).toBe(false);
+      expect(await worker.fetchEvent("/textures/earth.jpg")).toBe(true);
+    });
+
+    it("should cache the textures the page posts, from the texture config", async () => {
+      const worker = loadWorker();
+      const urls = getTextureUrls();
+
+      expect(urls).toEqual(
+        Object.values(PLANET_TEXTURES).map(
+          (texture) => `${ORIGIN}${texture.texturePath}`
+        )
+      );
+      await worker.dispatch("message", {
+        data: { type: "CACHE_URLS", urls: [...urls, `${ORIGIN}/other.json`] },
+      });
+
+      expect([...worker.currentCache()!.keys()]).toEqual(urls);
+    });
+  });
+});
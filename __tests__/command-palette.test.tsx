@@ -0,0 +1,237 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import fc from "fast-check";
+import {
+  render,
+  renderHook,
+  act,
+  screen,
+  fireEvent,
+  cleanup,
+} from "@testing-library/react";
+import { fuzzyMatch } from "@/features/command-palette/domain/fuzzy-match";
+import {
+  buildPaletteItems,
+  searchPaletteItems,
+  type PaletteItem,
+} from "@/features/command-palette/domain/palette-items";
+import { useCommandPalette } from "@/features/command-palette/application/useCommandPalette";
+import { CommandPalette } from "@/features/command-palette/ui/command-palette";
+import { SolarSystemProviders } from "@/features/solar-system/application/solar-system-providers";
+import { useSolarSystemController } from "@/features/solar-system/application/useSolarSystemController";
+import { planetData, sunData } from "@/data/planet-data";
+import { dwarfPlanetData } from "@/data/dwarf-planet-data";
+import { MOON_DATA } from "@/features/moons/data/moon-data";
+import { BELT_DATA } from "@/features/belt-regions/data/belt-data";
+import { HISTORICAL_EVENTS } from "@/features/historical-events/data/historical-events";
+
+const ITEMS = buildPaletteItems();
+
+const topLabel = (query: string) =>
+  searchPaletteItems(ITEMS, query)[0]?.item.label;
+
+describe("Fuzzy Match", () => {
+  it("should match characters in order and report where they are", () => {
+    fc.assert(
+      fc.property(
+        fc.string({ minLength: 1, maxLength: 30 }),
+        fc.string({ maxLength: 8 }),
+        (text, query) => {
+          const match = fuzzyMatch(query, text);
+          if (!match) return true;
+          const needle = query.toLowerCase().replace(/\s+/g, "");
+          return (
+            match.indices.length === needle.length &&
+            match.indices.every(
+              (index, i) =>
+                text[index].toLowerCase() === needle[i] &&
+                (i === 0 || index > match.indices[i - 1]),
+            )
+          );
+        },
+      ),
+      { numRuns: 300 },
+    );
+  });
+
+  it("should always match a substring of the text", () => {
+    fc.assert(
+      fc.property(
+        fc.string({ minLength: 1, maxLength: 30 }),
+        fc.nat(),
+        fc.nat(),
+        (text, a, b) => {
+          const start = a % text.length;
+          const end = start + 1 + (b % (text.length - start));
+          return fuzzyMatch(text.slice(start, end), text) !== null;
+        },
+      ),
+      { numRuns: 300 },
+    );
+  });
+
+  it("should match abbreviations and reject missing characters", () => {
+    expect(fuzzyMatch("jptr", "Jupiter")).not.toBeNull();
+    expect(fuzzyMatch("JUP", "Jupiter")?.indices).toEqual([0, 1, 2]);
+    expect(fuzzyMatch("ab", "xab a")).not.toBeNull();
+    expect(fuzzyMatch("jupz", "Jupiter")).toBeNull();
+  });
+
+  it("should prefer word starts and runs of characters", () => {
+    expect(fuzzyMatch("ne", "Neptune")!.score).toBeGreaterThan(
+      fuzzyMatch("ne", "Ganymede")?.score ?? -Infinity,
+    );
+    expect(fuzzyMatch("nf", "Neptune Flyby")?.indices).toEqual([0, 8]);
+  });
+});
+
+describe("Palette Items", () => {
+  it("should list every body, belt and event", () => {
+    const ids = new Set(ITEMS.map((item) => item.id));
+    [sunData, ...planetData, ...dwarfPlanetData, ...MOON_DATA].forEach(
+      (body) => expect(ids.has(`body:${body.name}`)).toBe(true),
+    );
+    BELT_DATA.forEach((belt) => expect(ids.has(`belt:${belt.id}`)).toBe(true));
+    HISTORICAL_EVENTS.forEach((event) =>
+      expect(ids.has(`event:${event.id}`)).toBe(true),
+    );
+    expect(ids.size).toBe(ITEMS.length);
+  });
+
+  it("should rank the closest label first", () => {
+    expect(topLabel("jup")).toBe("Jupiter");
+    expect(topLabel("jptr")).toBe("Jupiter");
+    expect(topLabel("kuiper")).toBe("Kuiper Belt");
+    expect(topLabel("apollo 11")).toBe("Apollo 11 Moon Landing");
+    expect(topLabel("sun")).toBe("Sun");
+  });
+
+  it("should find items by their category and description words", () => {
+    const results = searchPaletteItems(ITEMS, "galilean moon");
+    expect(results.map(({ item }) => item.label)).toEqual(
+      expect.arrayContaining(["Io", "Europa"]),
+    );
+    expect(
+      searchPaletteItems(ITEMS, "dwarf planet").map(({ item }) => item.label),
+    ).toEqual(expect.arrayContaining(dwarfPlanetData.map((body) => body.name)));
+  });
+
+  it("should return nothing for an unmatched query and cap results", () => {
+    expect(searchPaletteItems(ITEMS, "zzzzqqq")).toEqual([]);
+    expect(searchPaletteItems(ITEMS, "", 10)).toHaveLength(10);
+  });
+});
+
+describe("Command Palette", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("should open with Ctrl+K or / and toggle closed with Ctrl+K", () => {
+    const { result } = renderHook(() => useCommandPalette());
+
+    fireEvent.keyDown(document, { key: "k", ctrlKey: true });
+    expect(result.current.isOpen).toBe(true);
+    fireEvent.keyDown(document, { key: "K", metaKey: true });
+    expect(result.current.isOpen).toBe(false);
+    fireEvent.keyDown(document, { key: "/" });
+    expect(result.current.isOpen).toBe(true);
+  });
+
+  it("should choose results with the keyboard", () => {
+    const onSelect = vi.fn();
+    const onClose = vi.fn();
+    render(<CommandPalette isOpen onClose={onClose} onSelect={onSelect} />);
+
+    const input = screen.getByRole("combobox");
+    fireEvent.change(input, { target: { value: "mars" } });
+    const options = screen.getAllByRole("option");
+    expect(options[0].textContent).toContain("Mars");
+
+    fireEvent.keyDown(input, { key: "ArrowDown" });
+    expect(screen.getAllByRole("option")[1].getAttribute("aria-selected")).toBe(
+      "true",
+    );
+    fireEvent.keyDown(input, { key: "ArrowUp" });
+    fireEvent.keyDown(input, { key: "Enter" });
+
+    expect(onSelect).toHaveBeenCalledWith(
+      expect.objectContaining({ kind: "body", label: "Mars" }),
+    );
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it("should close on Escape without choosing", () => {
+    const onSelect = vi.fn();
+    const onClose = vi.fn();
+    render(<CommandPalette isOpen onClose={onClose} onSelect={onSelect} />);
+
+    fireEvent.keyDown(screen.getByRole("combobox"), { key: "Escape" });
+    expect(onClose).toHaveBeenCalledTimes(1);
+    expect(onSelect).not.toHaveBeenCalled();
+  });
+
+  it("should show when nothing matches", () => {
+    render(<CommandPalette isOpen onClose={() => {}} onSelect={() => {}} />);
+    fireEvent.change(screen.getByRole("combobox"), {
+      target: { value: "zzzzqqq" },
+    });
+    expect(screen.queryAllByRole("option")).toHaveLength(0);
+    expect(screen.getByText(/No matches/)).toBeTruthy();
+  });
+});
+
+describe("Choosing a palette result", () => {
+  const find = (id: string) =>
+    ITEMS.find((item) => item.id === id) as PaletteItem;
+
+  const renderController = () =>
+    renderHook(() => useSolarSystemController(), {
+      wrapper: SolarSystemProviders,
+    });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("should select a body and fly the camera to it", () => {
+    const { result } = renderController();
+    act(() => {
+      result.current.handlePaletteSelect(find("body:Saturn"));
+    });
+
+    expect(result.current.selectedPlanet?.name).toBe("Saturn");
+    expect(result.current.cameraFocus).toMatchObject({
+      body: { name: "Saturn" },
+      following: true,
+    });
+  });
+
+  it("should show a belt and frame it around the Sun", () => {
+    const { result } = renderController();
+    act(() => {
+      result.current.setShowBeltRegions(false);
+    });
+    act(() => {
+      result.current.handlePaletteSelect(find("belt:asteroid-belt"));
+    });
+
+    expect(result.current.showBeltRegions).toBe(true);
+    expect(result.current.cameraFocus?.body).toBe(sunData);
+    expect(result.current.cameraFocus?.viewDistance).toBeGreaterThan(3200);
+  });
+
+  it("should jump Date Mode to an event's date", () => {
+    const apollo = ITEMS.find(
+      (item) => item.label === "Apollo 11 Moon Landing",
+    )!;
+    const { result } = renderController();
+    act(() => {
+      result.current.handlePaletteSelect(apollo);
+    });
+
+    expect(result.current.mode).toBe("date");
+    expect(result.current.selectedDate.getTime()).toBe(
+      apollo.kind === "event" ? apollo.event.date.getTime() : NaN,
+    );
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import fc from "fast-check";
+import {
+  render,
+  renderHook,
+  act,
+  screen,
+  fireEvent,
+  cleanup,
+} from "@testing-library/react";
+import {
+  DISTANCE_SPANS,
+  MEASURABLE_BODY_NAMES,
+  formatLightTime,
+  getBodyDistance,
+  getDistanceSeries,
+} from "@/features/distance-measurement/domain/body-distance";
+import { useDistanceMeasurement } from "@/features/distance-measurement/application/useDistanceMeasurement";
+import { DistancePanel } from "@/features/distance-measurement/ui/distance-panel";
+
+// Mars's closest approach of 2020
+const MARS_APPROACH = new Date("2020-10-06T14:18:00Z");
+
+const body = fc.constantFrom(...MEASURABLE_BODY_NAMES);
+const date = fc
+  .integer({
+    min: Date.UTC(1900, 0, 1),
+    max: Date.UTC(2100, 0, 1),
+  })
+  .map((ms) => new Date(ms));
+
+describe("Body Distance", () => {
+  it("should measure Mars at its 2020 closest approach", () => {
+    const distance = getBodyDistance("Earth", "Mars", MARS_APPROACH)!;
+    // 62.07 million km, as published for the approach
+    expect(distance.distanceKm / 1e6).toBeCloseTo(62.07, 1);
+    expect(distance.distanceAU).toBeCloseTo(0.415, 3);
+    expect(distance.lightTimeSeconds).toBeCloseTo(207, 0);
+  });
+
+  it("should put Earth about eight light-minutes from the Sun", () => {
+    const perihelion = getBodyDistance(
+      "Sun",
+      "Earth",
+      new Date("2024-01-03T00:00:00Z"),
+    )!;
+    const aphelion = getBodyDistance(
+      "Sun",
+      "Earth",
+      new Date("2024-07-05T00:00:00Z"),
+    )!;
+    expect(perihelion.distanceAU).toBeCloseTo(0.9833, 3);
+    expect(aphelion.distanceAU).toBeCloseTo(1.0167, 3);
+    expect(formatLightTime(perihelion.lightTimeSeconds)).toBe("8 min 11 s");
+  });
+
+  it("should be symmetric and obey the triangle inequality", () => {
+    fc.assert(
+      fc.property(body, body, date, (a, b, when) => {
+        const there = getBodyDistance(a, b, when)!;
+        const back = getBodyDistance(b, a, when)!;
+        const viaSun =
+          getBodyDistance("Sun", a, when)!.distanceAU +
+          getBodyDistance("Sun", b, when)!.distanceAU;
+        return (
+          there.distanceAU === back.distanceAU &&
+          there.distanceAU <= viaSun + 1e-12
+        );
+      }),
+      { numRuns: 100 },
+    );
+  });
+
+  it("should return null for an unknown body", () => {
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    expect(getBodyDistance("Earth", "Vulcan", MARS_APPROACH)).toBeNull();
+    consoleError.mockRestore();
+  });
+
+  it("should sample a span centred on the date", () => {
+    const samples = getDistanceSeries("Earth", "Mars", MARS_APPROACH, 730, 61);
+    expect(samples).toHaveLength(61);
+    expect(samples[30].timeMs).toBe(MARS_APPROACH.getTime());
+    expect(samples[60].timeMs - samples[0].timeMs).toBe(730 * 86_400_000);
+
+    // The approach is the nearest point of the span
+    const nearest = samples.reduce((best, sample) =>
+      sample.distanceAU < best.distanceAU ? sample : best,
+    );
+    expect(nearest).toBe(samples[30]);
+  });
+
+  it("should format light times", () => {
+    expect(formatLightTime(1.28)).toBe("1 s");
+    expect(formatLightTime(207)).toBe("3 min 27 s");
+    expect(formatLightTime(4 * 3600 + 10 * 60 + 20)).toBe("4 h 10 min");
+    expect(formatLightTime(Number.NaN)).toBe("—");
+  });
+});
+
+describe("Distance Measurement", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("should open, swap and refuse unknown bodies", () => {
+    const consoleWarn = vi
+      .spyOn(console, "warn")
+      .mockImplementation(() => {});
+    const { result } = renderHook(() => useDistanceMeasurement());
+    expect(result.current.isMeasuring).toBe(false);
+
+    act(() => {
+      result.current.toggleMeasuring();
+      result.current.swapPair();
+    });
+    expect(result.current.isMeasuring).toBe(true);
+    expect(result.current.pair).toEqual({ from: "Mars", to: "Earth" });
+
+    act(() => {
+      result.current.setPair({ from: "Earth", to: "Vulcan" });
+    });
+    expect(result.current.pair).toEqual({ from: "Mars", to: "Earth" });
+    expect(consoleWarn).toHaveBeenCalled();
+    consoleWarn.mockRestore();
+  });
+
+  it("should show distance, light time and a plot for the date", () => {
+    const onPairChange = vi.fn();
+    const onSpanChange = vi.fn();
+    render(
+      <DistancePanel
+        selectedDate={MARS_APPROACH}
+        pair={{ from: "Earth", to: "Mars" }}
+        spanDays={730}
+        onPairChange={onPairChange}
+        onSwap={() => {}}
+        onSpanChange={onSpanChange}
+        onClose={() => {}}
+      />,
+    );
+
+    expect(screen.getByText("0.4149 AU")).toBeTruthy();
+    expect(screen.getByText("3 min 27 s")).toBeTruthy();
+    expect(
+      screen.getByRole("img", {
+        name: "Distance from Earth to Mars over 2 years",
+      }),
+    ).toBeTruthy();
+
+    fireEvent.change(screen.getByLabelText("Measure to"), {
+      target: { value: "Jupiter" },
+    });
+    expect(onPairChange).toHaveBeenCalledWith({ from: "Earth", to: "Jupiter" });
+
+    fireEvent.click(screen.getByText(DISTANCE_SPANS[0].label));
+    expect(onSpanChange).toHaveBeenCalledWith(DISTANCE_SPANS[0].days);
+  });
+});
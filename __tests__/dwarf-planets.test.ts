@@ -0,0 +1,219 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import fc from "fast-check";
+import * as AE from "astronomy-engine";
+import { planetData } from "@/data/planet-data";
+import {
+  dwarfPlanetData,
+  isDwarfPlanetData,
+} from "@/data/dwarf-planet-data";
+import {
+  BELT_DATA,
+  findBeltRegionForDistance,
+  getBeltRegionById,
+} from "@/features/belt-regions/data/belt-data";
+import {
+  calculateEclipticLongitude,
+  getSupportedDwarfPlanets,
+  getSupportedPlanets,
+} from "@/utils/astronomy-calculations";
+import {
+  calculateHeliocentricPosition,
+  calculateOrbitalPeriodDays,
+  solveKeplerEquation,
+} from "@/utils/orbital-elements";
+import { validatePlanetData } from "@/utils/validate-planet-data";
+import { GET } from "@/features/planet-catalog/server/route";
+
+const DWARF_NAMES = ["Ceres", "Pluto", "Haumea", "Makemake", "Eris"];
+
+describe("Dwarf Planet Data", () => {
+  it("should include Ceres, Pluto, Haumea, Makemake and Eris", () => {
+    expect(dwarfPlanetData.map((d) => d.name).sort()).toEqual(
+      [...DWARF_NAMES].sort(),
+    );
+  });
+
+  it("should pass the shared planet data validation", () => {
+    dwarfPlanetData.forEach((dwarf) => {
+      expect(validatePlanetData(dwarf)).toEqual([]);
+    });
+  });
+
+  it("should keep the planet list at eight planets", () => {
+    expect(planetData).toHaveLength(8);
+    expect(getSupportedPlanets()).toHaveLength(8);
+    planetData.forEach((planet) => {
+      expect(isDwarfPlanetData(planet)).toBe(false);
+    });
+  });
+
+  it("should have a colour fallback for every dwarf planet", () => {
+    dwarfPlanetData.forEach((dwarf) => {
+      expect(dwarf.color).toMatch(/^#[0-9a-f]{6}$/i);
+    });
+  });
+
+  it("should agree with the semi-major axis of its orbital elements", () => {
+    dwarfPlanetData
+      .filter((dwarf) => dwarf.orbitalElements)
+      .forEach((dwarf) => {
+        const elements = dwarf.orbitalElements!;
+        expect(elements.semiMajorAxisAU).toBeCloseTo(dwarf.distanceInAU, 1);
+        expect(elements.eccentricity).toBeCloseTo(dwarf.eccentricity, 3);
+        // Kepler's third law within 1% of the catalogued period
+        const period = calculateOrbitalPeriodDays(elements.semiMajorAxisAU);
+        expect(Math.abs(period / dwarf.orbitalPeriodDays - 1)).toBeLessThan(
+          0.01,
+        );
+      });
+  });
+});
+
+describe("Belt Region Placement", () => {
+  it("should reference existing belt regions", () => {
+    const beltIds = BELT_DATA.map((belt) => belt.id);
+    dwarfPlanetData
+      .filter((dwarf) => dwarf.beltRegionId)
+      .forEach((dwarf) => {
+        expect(beltIds).toContain(dwarf.beltRegionId);
+      });
+  });
+
+  it("should place each dwarf planet inside its belt region", () => {
+    dwarfPlanetData.forEach((dwarf) => {
+      expect(findBeltRegionForDistance(dwarf.distanceInAU)?.id).toBe(
+        dwarf.beltRegionId,
+      );
+    });
+  });
+
+  it("should put Ceres in the Asteroid Belt and Pluto in the Kuiper Belt", () => {
+    const ceres = dwarfPlanetData.find((d) => d.name === "Ceres")!;
+    const pluto = dwarfPlanetData.find((d) => d.name === "Pluto")!;
+    expect(getBeltRegionById(ceres.beltRegionId!)?.name).toBe("Asteroid Belt");
+    expect(getBeltRegionById(pluto.beltRegionId!)?.name).toBe("Kuiper Belt");
+  });
+
+  it("should return undefined outside every belt", () => {
+    expect(findBeltRegionForDistance(1)).toBeUndefined();
+    expect(getBeltRegionById("oort-cloud")).toBeUndefined();
+  });
+});
+
+describe("Kepler's Equation", () => {
+  it("should satisfy M = E - e·sin(E)", () => {
+    fc.assert(
+      fc.property(
+        fc.double({ min: 0, max: 2 * Math.PI, maxExcluded: true, noNaN: true }),
+        fc.double({ min: 0, max: 0.95, noNaN: true }),
+        (M, e) => {
+          const E = solveKeplerEquation(M, e);
+          return Math.abs(E - e * Math.sin(E) - M) < 1e-9;
+        },
+      ),
+      { numRuns: 200 },
+    );
+  });
+
+  it("should fall back for non-elliptical eccentricities", () => {
+    const spy = vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(solveKeplerEquation(1, 1.2)).toBe(1);
+    expect(solveKeplerEquation(NaN, 0.1)).toBe(0);
+    spy.mockRestore();
+  });
+});
+
+describe("Dwarf Planet Positions", () => {
+  const dateArb = fc
+    .integer({
+      min: new Date("1700-01-01").getTime(),
+      max: new Date("2300-12-31").getTime(),
+    })
+    .map((ts) => new Date(ts));
+
+  it("should list every dwarf planet as supported", () => {
+    expect(getSupportedDwarfPlanets().sort()).toEqual(
+      [...DWARF_NAMES].sort(),
+    );
+  });
+
+  it("should keep Keplerian distances between perihelion and aphelion", () => {
+    const keplerian = dwarfPlanetData.filter((d) => d.orbitalElements);
+    fc.assert(
+      fc.property(fc.constantFrom(...keplerian), dateArb, (dwarf, date) => {
+        const { semiMajorAxisAU: a, eccentricity: e } = dwarf.orbitalElements!;
+        const p = calculateHeliocentricPosition(dwarf.orbitalElements!, date);
+        const r = Math.hypot(p.x, p.y, p.z);
+        return r >= a * (1 - e) - 1e-9 && r <= a * (1 + e) + 1e-9;
+      }),
+      { numRuns: 100 },
+    );
+  });
+
+  it("should return longitudes in range for every dwarf planet", () => {
+    fc.assert(
+      fc.property(fc.constantFrom(...DWARF_NAMES), dateArb, (name, date) => {
+        const longitude = calculateEclipticLongitude(name, date);
+        return longitude >= 0 && longitude < 360;
+      }),
+      { numRuns: 100 },
+    );
+  });
+
+  it("should use Astronomy Engine for Pluto", () => {
+    const date = new Date("2015-07-14T11:49:00Z");
+    expect(calculateEclipticLongitude("Pluto", date)).toBeCloseTo(
+      AE.EclipticLongitude(AE.Body.Pluto, AE.MakeTime(date)),
+      6,
+    );
+  });
+
+  it("should place Ceres near its 2024 opposition longitude", () => {
+    // Ceres reached opposition in early July 2024, opposite the Sun from Earth
+    const date = new Date("2024-07-08T00:00:00Z");
+    const earth = AE.EclipticLongitude(AE.Body.Earth, AE.MakeTime(date));
+    const ceres = calculateEclipticLongitude("Ceres", date);
+    const separation = Math.abs(((ceres - earth + 540) % 360) - 180);
+    expect(separation).toBeLessThan(5);
+  });
+});
+
+describe("Planet API route", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it("should proxy Pluto to the upstream 'pluton' body", async () => {
+    vi.stubEnv("SOLAR_SYSTEM_API_KEY", "test-key");
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValue(new Response(JSON.stringify({ id: "pluton" })));
+    vi.stubGlobal("fetch", mockFetch);
+
+    const response = await GET(new Request("http://localhost"), {
+      params: Promise.resolve({ name: "Pluto" }),
+    });
+
+    expect(response.status).toBe(200);
+    expect(mockFetch.mock.calls[0][0]).toMatch(/\/bodies\/pluton$/);
+  });
+
+  it("should accept every dwarf planet name", async () => {
+    vi.stubEnv("SOLAR_SYSTEM_API_KEY", "");
+    for (const name of DWARF_NAMES) {
+      const response = await GET(new Request("http://localhost"), {
+        params: Promise.resolve({ name }),
+      });
+      // Passes name validation and fails on the missing secret instead
+      expect(response.status).toBe(500);
+    }
+  });
+
+  it("should still reject unknown bodies", async () => {
+    const response = await GET(new Request("http://localhost"), {
+      params: Promise.resolve({ name: "vulcan" }),
+    });
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,304 @@
+/**
+ * Ephemeris Tests
+ * Query validation, agreement with the app's own position calculations,
+ * and the JSON and CSV output of the ephemeris API routes
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fc from "fast-check";
+import {
+  EPHEMERIS_BODY_NAMES,
+  formatEphemerisCsv,
+  getEphemeris,
+  getEphemerisEntry,
+} from "@/features/ephemeris/domain/ephemeris";
+import {
+  MAX_RANGE_STEPS,
+  parseEphemerisQuery,
+  parseEphemerisRangeQuery,
+} from "@/features/ephemeris/domain/ephemeris-query";
+import { GET } from "@/features/ephemeris/server/route";
+import {
+  GET as GET_RANGE,
+  POSITIONS_PER_REQUEST,
+} from "@/features/ephemeris/server/range-route";
+import {
+  resetRateLimiter,
+  setRateLimitStore,
+} from "@/features/planet-catalog/server/request-guard";
+import { createMemoryRateLimitStore } from "@/features/planet-catalog/server/rate-limiter";
+import { getBodyDistance } from "@/features/distance-measurement/domain/body-distance";
+import {
+  calculateEclipticLongitude,
+  getHeliocentricPosition,
+} from "@/utils/astronomy-calculations";
+
+const dateArb = fc
+  .integer({
+    min: new Date("1700-01-01").getTime(),
+    max: new Date("2300-12-31").getTime(),
+  })
+  .map((ts) => new Date(ts));
+
+function params(query: string) {
+  return new URLSearchParams(query);
+}
+
+describe("Ephemeris", () => {
+  beforeEach(() => {
+    resetRateLimiter();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  describe("Positions", () => {
+    it("should match the app's heliocentric positions", () => {
+      fc.assert(
+        fc.property(
+          dateArb,
+          fc.constantFrom("Mars", "Neptune", "Eris"),
+          (date, body) => {
+            const entry = getEphemerisEntry(body, date, "heliocentric")!;
+            const position = getHeliocentricPosition(body, date);
+
+            expect(entry.x).toBe(position.x);
+            expect(entry.y).toBe(position.y);
+            expect(entry.z).toBe(position.z);
+            expect(entry.distanceAU).toBeCloseTo(position.distanceAU, 12);
+          }
+        ),
+        { numRuns: 25 }
+      );
+    });
+
+    it("should give the ecliptic longitude Date Mode uses for Keplerian bodies", () => {
+      const date = new Date("2024-06-01T00:00:00Z");
+      const entry = getEphemerisEntry("Eris", date, "heliocentric")!;
+
+      expect(entry.longitudeDegrees).toBeCloseTo(
+        calculateEclipticLongitude("Eris", date),
+        9
+      );
+    });
+
+    it("should measure geocentric distances like the distance tool", () => {
+      const date = new Date("2024-06-01T00:00:00Z");
+
+      for (const body of ["Sun", "Mars", "Pluto"]) {
+        const entry = getEphemerisEntry(body, date, "geocentric")!;
+        const distance = getBodyDistance("Earth", body, date)!;
+        expect(entry.distanceAU).toBeCloseTo(distance.distanceAU, 12);
+        expect(entry.lightTimeSeconds).toBeCloseTo(
+          distance.lightTimeSeconds,
+          6
+        );
+      }
+      expect(getEphemerisEntry("Earth", date, "geocentric")!.distanceAU).toBe(
+        0
+      );
+      expect(getEphemerisEntry("Sun", date, "heliocentric")!.distanceAU).toBe(
+        0
+      );
+    });
+
+    it("should order entries by date, then body", () => {
+      const dates = [new Date("2024-01-01"), new Date("2024-01-02")];
+      const entries = getEphemeris(["Venus", "Mars"], dates, "heliocentric");
+
+      expect(
+        entries.map((entry) => `${entry.date.slice(0, 10)} ${entry.body}`)
+      ).toEqual([
+        "2024-01-01 Venus",
+        "2024-01-01 Mars",
+        "2024-01-02 Venus",
+        "2024-01-02 Mars",
+      ]);
+    });
+
+    it("should write one CSV row per entry under a header", () => {
+      const entries = getEphemeris(
+        ["Mars"],
+        [new Date("2024-01-01")],
+        "heliocentric"
+      );
+      const [header, row, end] = formatEphemerisCsv(entries).split("\n");
+
+      expect(header).toBe(
+        "date,body,x,y,z,distanceAU,distanceKm,longitudeDegrees,latitudeDegrees,lightTimeSeconds"
+      );
+      expect(row.split(",")).toHaveLength(10);
+      expect(row.startsWith("2024-01-01T00:00:00.000Z,Mars,")).toBe(true);
+      expect(end).toBe("");
+    });
+  });
+
+  describe("Query validation", () => {
+    it("should default to every body, heliocentric, as JSON", () => {
+      const validation = parseEphemerisQuery(params("date=2024-06-01"));
+
+      expect(validation).toEqual({
+        valid: true,
+        query: {
+          date: new Date("2024-06-01T00:00:00Z"),
+          bodies: EPHEMERIS_BODY_NAMES,
+          frame: "heliocentric",
+          format: "json",
+        },
+      });
+    });
+
+    it("should match body names regardless of case, once each", () => {
+      const validation = parseEphemerisQuery(
+        params("date=2024-06-01&bodies=mars,SUN, Mars")
+      );
+      expect(validation.valid && validation.query.bodies).toEqual([
+        "Mars",
+        "Sun",
+      ]);
+    });
+
+    it("should reject what validateDate rejects", () => {
+      const error = (query: string) => {
+        const validation = parseEphemerisQuery(params(query));
+        return validation.valid ? undefined : validation.error;
+      };
+
+      expect(error("")).toBe("Missing date");
+      expect(error("date=soon")).toBe("Invalid date: Invalid date format");
+      expect(error("date=1650-01-01")).toBe(
+        "Invalid date: Date must be after 1700"
+      );
+      expect(error("date=2400-01-01")).toBe(
+        "Invalid date: Date must be before 2300"
+      );
+      expect(error("date=2024-06-01&bodies=vulcan")).toBe(
+        "Unknown body: vulcan"
+      );
+      expect(error("date=2024-06-01&frame=barycentric")).toMatch(/^Frame/);
+      expect(error("date=2024-06-01&format=xml")).toMatch(/^Format/);
+    });
+
+    it("should step through a range including both ends", () => {
+      const validation = parseEphemerisRangeQuery(
+        params("start=2024-01-01&end=2024-01-02&step=6h")
+      );
+
+      expect(validation.valid).toBe(true);
+      if (!validation.valid) return;
+      expect(validation.query.dates.map((date) => date.toISOString())).toEqual([
+        "2024-01-01T00:00:00.000Z",
+        "2024-01-01T06:00:00.000Z",
+        "2024-01-01T12:00:00.000Z",
+        "2024-01-01T18:00:00.000Z",
+        "2024-01-02T00:00:00.000Z",
+      ]);
+    });
+
+    it("should reject bad ranges", () => {
+      const error = (query: string) => {
+        const validation = parseEphemerisRangeQuery(params(query));
+        return validation.valid ? undefined : validation.error;
+      };
+
+      expect(error("start=2024-01-02&end=2024-01-01")).toBe(
+        "End must not be before start"
+      );
+      expect(error("start=2024-01-01&end=2024-02-01&step=0d")).toMatch(/^Step/);
+      expect(error("start=2024-01-01&end=2024-02-01&step=1w")).toMatch(/^Step/);
+      const days = (Date.UTC(2300, 11, 31) - Date.UTC(2024, 0, 1)) / 86400000;
+      expect(error("start=2024-01-01&end=2300-12-31")).toBe(
+        `Range has ${days + 1} steps; at most ${MAX_RANGE_STEPS} are allowed`
+      );
+      expect(error("start=2024-01-01")).toBe("Missing end");
+    });
+  });
+
+  describe("Routes", () => {
+    it("should return positions as JSON", async () => {
+      const response = await GET(
+        new Request(
+          "http://localhost/api/ephemeris?date=2024-06-01&bodies=mars,venus&frame=geocentric"
+        )
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("ETag")).toBeTruthy();
+      expect(body.frame).toBe("geocentric");
+      expect(body.date).toBe("2024-06-01T00:00:00.000Z");
+      expect(
+        body.positions.map((entry: { body: string }) => entry.body)
+      ).toEqual(["Mars", "Venus"]);
+      expect(body.positions[0].distanceKm).toBeCloseTo(
+        getBodyDistance("Earth", "Mars", new Date("2024-06-01"))!.distanceKm,
+        3
+      );
+    });
+
+    it("should return a range as CSV", async () => {
+      const response = await GET_RANGE(
+        new Request(
+          "http://localhost/api/ephemeris/range?start=2024-01-01&end=2024-01-03&step=1d&bodies=earth,mars&format=csv"
+        )
+      );
+      const lines = (await response.text()).trim().split("\n");
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("Content-Type")).toContain("text/csv");
+      // Header plus 3 days x 2 bodies
+      expect(lines).toHaveLength(7);
+    });
+
+    it("should answer 400 with the validation error", async () => {
+      const response = await GET_RANGE(
+        new Request(
+          "http://localhost/api/ephemeris/range?start=1500-01-01&end=2024-01-01"
+        )
+      );
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: "Invalid start: Date must be after 1700",
+        code: "INVALID_REQUEST",
+      });
+    });
+
+    it("should count long ranges against the rate limit", async () => {
+      vi.stubEnv("API_CLIENT_IP_HEADER", "CF-Connecting-IP");
+      const headers = { "CF-Connecting-IP": "203.0.113.7" };
+      setRateLimitStore(createMemoryRateLimitStore(), {
+        capacity: 20,
+        refillPerSecond: 0.001,
+      });
+      const year = () =>
+        GET_RANGE(
+          new Request(
+            "http://localhost/api/ephemeris/range?start=2024-01-01&end=2024-12-31&format=csv",
+            { headers }
+          )
+        );
+      const cost = Math.ceil(
+        (366 * EPHEMERIS_BODY_NAMES.length) / POSITIONS_PER_REQUEST
+      );
+
+      const first = await year();
+      const limited = await year();
+
+      expect(first.status).toBe(200);
+      expect(cost).toBeGreaterThan(10);
+      expect(limited.status).toBe(429);
+      expect(await limited.json()).toMatchObject({ code: "RATE_LIMITED" });
+
+      const single = await GET(
+        new Request("http://localhost/api/ephemeris?date=2024-06-01", {
+          headers,
+        })
+      );
+      expect(single.status).toBe(200);
+    });
+  });
+});
@@ -0,0 +1,248 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import fc from "fast-check";
+import {
+  render,
+  renderHook,
+  act,
+  screen,
+  fireEvent,
+  cleanup,
+} from "@testing-library/react";
+import {
+  clampEventYear,
+  findEventsInYear,
+  findGreatestElongations,
+  findLunarEclipses,
+  findOppositions,
+  findPerihelionPassages,
+  findPlanetaryConjunctions,
+  findRetrogradeStations,
+  findSolarEclipses,
+} from "@/features/historical-events/domain/event-finder";
+import {
+  getEventPlanets,
+  mergeComputedEvents,
+} from "@/features/historical-events/domain/historical-events-utils";
+import { HISTORICAL_EVENTS } from "@/features/historical-events/data/historical-events";
+import { EVENT_CATEGORY_LABELS } from "@/features/historical-events/data/historical-events-types";
+import { HistoricalEventsPanel } from "@/features/historical-events/ui/historical-events-panel";
+import { CategoryTabs } from "@/features/historical-events/ui/category-tabs";
+import { SolarSystemProviders } from "@/features/solar-system/application/solar-system-providers";
+import { useSolarSystemController } from "@/features/solar-system/application/useSolarSystemController";
+
+const yearRange = (year: number) =>
+  [new Date(Date.UTC(year, 0, 1)), new Date(Date.UTC(year + 1, 0, 1))] as const;
+
+const day = (date: Date) => date.toISOString().slice(0, 10);
+
+describe("Event Finder", () => {
+  it("should find the 2024 eclipses on their dates", () => {
+    const solar = findSolarEclipses(...yearRange(2024));
+    expect(solar.map((e) => [day(e.date), e.eclipseType])).toEqual([
+      ["2024-04-08", "total"],
+      ["2024-10-02", "annular"],
+    ]);
+
+    const lunar = findLunarEclipses(...yearRange(2024));
+    expect(lunar.map((e) => [day(e.date), e.eclipseType])).toEqual([
+      ["2024-03-25", "penumbral"],
+      ["2024-09-18", "partial"],
+    ]);
+    expect(lunar[0].duration).toMatch(/^\d+h \d+m$/);
+  });
+
+  it("should find hybrid solar eclipses from their tracks", () => {
+    const solar = findSolarEclipses(...yearRange(2023));
+    expect(solar.map((e) => [day(e.date), e.eclipseType])).toEqual([
+      ["2023-04-20", "hybrid"],
+      ["2023-10-14", "annular"],
+    ]);
+    expect(solar[0].name).toBe("Hybrid Solar Eclipse April 2023");
+  });
+
+  it("should find the Great Conjunction of 2020 at its real separation", () => {
+    const greatConjunction = findPlanetaryConjunctions(
+      ...yearRange(2020),
+    ).find((e) => e.planets.join() === "Jupiter,Saturn");
+
+    expect(greatConjunction && day(greatConjunction.date)).toBe("2020-12-21");
+    expect(greatConjunction?.angularSeparation).toBeCloseTo(0.1, 1);
+  });
+
+  it("should find oppositions, elongations and perihelion passages", () => {
+    const [start, end] = yearRange(2020);
+    const mars = findOppositions(start, end).find((e) => e.planet === "Mars");
+    expect(mars && day(mars.date)).toBe("2020-10-13");
+    expect(mars?.distanceAU).toBeCloseTo(0.42, 1);
+    expect(mars?.magnitude).toBeLessThan(-2);
+
+    const venus = findGreatestElongations(start, end).filter(
+      (e) => e.planet === "Venus",
+    );
+    expect(venus.map((e) => [day(e.date), e.visibility])).toEqual([
+      ["2020-03-24", "evening"],
+      ["2020-08-13", "morning"],
+    ]);
+    venus.forEach((e) => {
+      expect(e.elongation).toBeGreaterThan(45);
+      expect(e.elongation).toBeLessThan(48);
+    });
+
+    const mercuryPerihelia = findPerihelionPassages(start, end).filter(
+      (e) => e.planet === "Mercury",
+    );
+    // Mercury's 88-day orbit brings it to perihelion four times a year
+    expect(mercuryPerihelia).toHaveLength(4);
+    mercuryPerihelia.forEach((e) => {
+      expect(e.category).toBe("perihelion");
+      expect(e.distanceAU).toBeCloseTo(0.31, 2);
+    });
+  });
+
+  it("should find the start and end of Mars's 2020 retrograde loop", () => {
+    const mars = findRetrogradeStations(...yearRange(2020)).filter(
+      (e) => e.planet === "Mars",
+    );
+    expect(mars.map((e) => [day(e.date), e.phase])).toEqual([
+      ["2020-09-09", "start"],
+      ["2020-11-14", "end"],
+    ]);
+    expect(mars[0].name).toBe("Mars Retrograde Begins September 2020");
+  });
+
+  it("should alternate retrograde starts and ends for each planet", () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1700, max: 2299 }), (year) => {
+        const stations = findRetrogradeStations(...yearRange(year));
+        return ["Mercury", "Mars", "Jupiter", "Neptune"].every((planet) => {
+          const phases = stations
+            .filter((e) => e.planet === planet)
+            .map((e) => e.phase);
+          return phases.every((phase, i) => i === 0 || phase !== phases[i - 1]);
+        });
+      }),
+      { numRuns: 3 },
+    );
+  });
+
+  it("should return valid, sorted events within the year", () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1700, max: 2300 }), (year) => {
+        const [start, end] = yearRange(year);
+        const events = findEventsInYear(year);
+        return (
+          events.length > 0 &&
+          events.every(
+            (event, i) =>
+              event.date >= start &&
+              event.date < end &&
+              event.category in EVENT_CATEGORY_LABELS &&
+              (i === 0 || events[i - 1].date <= event.date),
+          ) &&
+          new Set(events.map((event) => event.id)).size === events.length
+        );
+      }),
+      { numRuns: 5 },
+    );
+  });
+
+  it("should only report conjunctions within the separation limit", () => {
+    findPlanetaryConjunctions(...yearRange(1987), 1).forEach((event) => {
+      expect(event.angularSeparation).toBeLessThanOrEqual(1);
+    });
+  });
+
+  it("should refuse years outside 1700-2300", () => {
+    const consoleWarn = vi
+      .spyOn(console, "warn")
+      .mockImplementation(() => {});
+    expect(findEventsInYear(1650)).toEqual([]);
+    expect(findEventsInYear(2301)).toEqual([]);
+    expect(consoleWarn).toHaveBeenCalledTimes(2);
+    consoleWarn.mockRestore();
+
+    expect(clampEventYear(1500)).toBe(1700);
+    expect(clampEventYear(2024.4)).toBe(2024);
+    expect(clampEventYear(9999)).toBe(2300);
+  });
+});
+
+describe("Event categories", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("should offer tabs for the computed categories", () => {
+    const onSelect = vi.fn();
+    render(<CategoryTabs selected="all" onSelect={onSelect} />);
+
+    fireEvent.click(screen.getByRole("tab", { name: "Retrograde Motion" }));
+    expect(onSelect).toHaveBeenCalledWith("retrograde");
+    expect(screen.getByRole("tab", { name: "Oppositions" })).toBeTruthy();
+    expect(
+      screen.getByRole("tab", { name: "Greatest Elongations" }),
+    ).toBeTruthy();
+  });
+
+  it("should highlight an event's planets until Date Mode is left", () => {
+    const [opposition] = findOppositions(...yearRange(2020));
+    expect(getEventPlanets(opposition)).toEqual([opposition.planet]);
+
+    const { result } = renderHook(() => useSolarSystemController(), {
+      wrapper: SolarSystemProviders,
+    });
+    act(() => {
+      result.current.setMode("date");
+      result.current.handleEventSelect(opposition);
+    });
+    expect(result.current.highlightedPlanets).toEqual([opposition.planet]);
+
+    act(() => {
+      result.current.handleModeToggle();
+    });
+    expect(result.current.highlightedPlanets).toEqual([]);
+  });
+});
+
+describe("Merging computed events", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("should keep curated events and drop computed duplicates", () => {
+    const computed = findEventsInYear(2024);
+    const merged = mergeComputedEvents(HISTORICAL_EVENTS, computed);
+
+    HISTORICAL_EVENTS.forEach((event) => expect(merged).toContain(event));
+    expect(merged.filter((e) => day(e.date) === "2024-04-08")).toHaveLength(1);
+    expect(
+      merged.filter(
+        (e) =>
+          e.category === "planetary-conjunction" &&
+          day(e.date) === "2024-04-10",
+      ),
+    ).toHaveLength(1);
+    expect(merged.length).toBeGreaterThan(HISTORICAL_EVENTS.length);
+  });
+
+  it("should list computed events for the chosen year", () => {
+    render(
+      <HistoricalEventsPanel
+        isOpen
+        onClose={() => {}}
+        onSelectEvent={() => {}}
+        currentDate={new Date("2024-06-01")}
+      />,
+    );
+    expect(screen.getByText("Penumbral Lunar Eclipse March 2024")).toBeTruthy();
+
+    const yearInput = screen.getByLabelText(/Computed events year/);
+    fireEvent.change(yearInput, { target: { value: "2020" } });
+    fireEvent.blur(yearInput);
+
+    expect(screen.getByText("Mars at Opposition October 2020")).toBeTruthy();
+    expect(
+      screen.queryByText("Penumbral Lunar Eclipse March 2024"),
+    ).toBeNull();
+  });
+});
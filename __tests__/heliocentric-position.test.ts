@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import fc from "fast-check";
+import * as AE from "astronomy-engine";
+import { planetData } from "@/data/planet-data";
+import { dwarfPlanetData } from "@/data/dwarf-planet-data";
+import {
+  calculateHeliocentricVector,
+  clearHeliocentricCache,
+  getCachedHeliocentricPosition,
+  getCachedPlanetPosition,
+  getHeliocentricCacheSize,
+  getHeliocentricPosition,
+  getSupportedPlanets,
+} from "@/utils/astronomy-calculations";
+import {
+  calculateHeliocentricScenePosition,
+  getPlanetOrbitalElements,
+} from "@/features/planet-rendering/domain/kepler-orbit";
+
+// Same scale the Planet component uses: 1 AU = 1000 units
+const AU_TO_UNITS = 1000;
+
+const dateArb = fc
+  .integer({
+    min: new Date("1700-01-01").getTime(),
+    max: new Date("2300-12-31").getTime(),
+  })
+  .map((ts) => new Date(ts));
+
+/**
+ * Astronomy Engine heliocentric vector in the J2000 ecliptic frame
+ */
+function expectedEcliptic(name: string, date: Date) {
+  return AE.RotateVector(
+    AE.Rotation_EQJ_ECL(),
+    AE.HelioVector(name as AE.Body, AE.MakeTime(date)),
+  );
+}
+
+describe("Heliocentric Position API", () => {
+  beforeEach(() => {
+    clearHeliocentricCache();
+  });
+
+  it("should match Astronomy Engine's HelioVector in the ecliptic frame", () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom(...getSupportedPlanets(), "Pluto"),
+        dateArb,
+        (name, date) => {
+          const position = getHeliocentricPosition(name, date);
+          const expected = expectedEcliptic(name, date);
+          return (
+            Math.abs(position.x - expected.x) < 1e-9 &&
+            Math.abs(position.y - expected.y) < 1e-9 &&
+            Math.abs(position.z - expected.z) < 1e-9 &&
+            Math.abs(position.distanceAU - expected.Length()) < 1e-9
+          );
+        },
+      ),
+      { numRuns: 100 },
+    );
+  });
+
+  it("should agree with the ecliptic longitude API", () => {
+    const date = new Date("2024-03-20T03:06:00Z");
+    getSupportedPlanets().forEach((name) => {
+      const position = getHeliocentricPosition(name, date);
+      const longitude =
+        ((Math.atan2(position.y, position.x) * 180) / Math.PI + 360) % 360;
+      // Longitude API uses the ecliptic of date, vectors use J2000 (~0.34° precession)
+      const difference = Math.abs(
+        ((longitude - getCachedPlanetPosition(name, date).longitudeDegrees + 540) %
+          360) -
+          180,
+      );
+      expect(difference).toBeLessThan(0.5);
+    });
+  });
+
+  it("should cover dwarf planets without an Astronomy Engine model", () => {
+    dwarfPlanetData.forEach((dwarf) => {
+      const position = getHeliocentricPosition(dwarf.name, new Date("2024-01-01"));
+      const { semiMajorAxisAU: a, eccentricity: e } =
+        getPlanetOrbitalElements(dwarf);
+      expect(position.distanceAU).toBeGreaterThanOrEqual(a * (1 - e) - 0.5);
+      expect(position.distanceAU).toBeLessThanOrEqual(a * (1 + e) + 0.5);
+    });
+  });
+
+  it("should return zeros for unknown bodies and invalid dates", () => {
+    const spy = vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(calculateHeliocentricVector("Vulcan", new Date())).toBeNull();
+    expect(calculateHeliocentricVector("Earth", new Date("invalid"))).toBeNull();
+
+    const fallback = getCachedHeliocentricPosition("Earth", new Date("invalid"));
+    expect(fallback).toMatchObject({ x: 0, y: 0, z: 0, distanceAU: 0 });
+    spy.mockRestore();
+  });
+
+  it("should cache by planet and hour bucket", () => {
+    const date = new Date("2024-01-01T10:05:00Z");
+    getCachedHeliocentricPosition("Mars", date);
+    getCachedHeliocentricPosition("Mars", new Date("2024-01-01T10:55:00Z"));
+    expect(getHeliocentricCacheSize()).toBe(1);
+
+    getCachedHeliocentricPosition("Mars", new Date("2024-01-01T11:05:00Z"));
+    getCachedHeliocentricPosition("Venus", date);
+    expect(getHeliocentricCacheSize()).toBe(3);
+
+    clearHeliocentricCache();
+    expect(getHeliocentricCacheSize()).toBe(0);
+  });
+
+  it("should return the same values from the cache as without it", () => {
+    const date = new Date("1969-07-20T20:17:00Z");
+    const direct = getHeliocentricPosition("Jupiter", date);
+    getCachedHeliocentricPosition("Jupiter", date);
+    expect(getCachedHeliocentricPosition("Jupiter", date)).toEqual(direct);
+  });
+});
+
+describe("Date Mode Rendered Positions", () => {
+  it("should render every planet at Astronomy Engine's heliocentric vector", () => {
+    fc.assert(
+      fc.property(fc.constantFrom(...planetData), dateArb, (planet, date) => {
+        const elements = getPlanetOrbitalElements(planet);
+        const scaledDistance = planet.distanceInAU * AU_TO_UNITS;
+        const rendered = calculateHeliocentricScenePosition(
+          planet.name,
+          elements,
+          date,
+          scaledDistance,
+        );
+
+        // Scene axes: ecliptic x → x, ecliptic y → z, ecliptic north → -y
+        const unitsPerAU = scaledDistance / elements.semiMajorAxisAU;
+        const expected = expectedEcliptic(planet.name, date);
+        const tolerance = 1e-6 * scaledDistance;
+        return (
+          Math.abs(rendered.x - expected.x * unitsPerAU) < tolerance &&
+          Math.abs(rendered.z - expected.y * unitsPerAU) < tolerance &&
+          Math.abs(rendered.y + expected.z * unitsPerAU) < tolerance
+        );
+      }),
+      { numRuns: 100 },
+    );
+  });
+
+  it("should keep rendered distances proportional to true distances", () => {
+    const date = new Date("2024-01-03T00:00:00Z"); // Earth near perihelion
+    const earth = planetData.find((p) => p.name === "Earth")!;
+    const elements = getPlanetOrbitalElements(earth);
+    const rendered = calculateHeliocentricScenePosition(
+      "Earth",
+      elements,
+      date,
+      earth.distanceInAU * AU_TO_UNITS,
+    );
+    const renderedAU =
+      Math.hypot(rendered.x, rendered.y, rendered.z) /
+      ((earth.distanceInAU * AU_TO_UNITS) / elements.semiMajorAxisAU);
+
+    expect(renderedAU).toBeCloseTo(AE.HelioDistance(AE.Body.Earth, AE.MakeTime(date)), 9);
+    expect(renderedAU).toBeLessThan(0.984);
+  });
+
+  it("should show Pluto below the ecliptic in the 2020s", () => {
+    // Pluto crossed its descending node in 2018 and is now south of the ecliptic
+    const pluto = dwarfPlanetData.find((d) => d.name === "Pluto")!;
+    const rendered = calculateHeliocentricScenePosition(
+      "Pluto",
+      getPlanetOrbitalElements(pluto),
+      new Date("2026-01-01"),
+      pluto.distanceInAU * AU_TO_UNITS,
+    );
+    // Ecliptic north maps to scene -Y, so south of the ecliptic is +Y
+    expect(expectedEcliptic("Pluto", new Date("2026-01-01")).z).toBeLessThan(0);
+    expect(rendered.y).toBeGreaterThan(0);
+  });
+});
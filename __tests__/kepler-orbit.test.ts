@@ -0,0 +1,203 @@
+import { describe, it, expect } from "vitest";
+import fc from "fast-check";
+import * as AE from "astronomy-engine";
+import { planetData } from "@/data/planet-data";
+import { dwarfPlanetData } from "@/data/dwarf-planet-data";
+import {
+  calculateOrbitScenePosition,
+  createOrbitPathPoints,
+  eclipticToScenePosition,
+  getPlanetOrbitalElements,
+} from "@/features/planet-rendering/domain/kepler-orbit";
+import { applyInclinationToPosition } from "@/features/planet-rendering/domain/orbital-inclination";
+import {
+  calculateHeliocentricPosition,
+  calculatePositionAtTrueAnomaly,
+  calculateTrueAnomaly,
+  positionToEclipticLongitude,
+  solveKeplerEquation,
+} from "@/utils/orbital-elements";
+
+const DAY_MS = 86_400_000;
+const SCALED_DISTANCE = 1000;
+
+const distance = (p: { x: number; y: number; z: number }) =>
+  Math.hypot(p.x, p.y, p.z);
+
+const angleDifference = (a: number, b: number) =>
+  Math.abs(((a - b + 540) % 360) - 180);
+
+describe("Planet Orbital Elements", () => {
+  it("should define orbital elements for every planet", () => {
+    planetData.forEach((planet) => {
+      expect(planet.orbitalElements).toBeDefined();
+    });
+  });
+
+  it("should match the planet's catalogued orbit shape", () => {
+    planetData.forEach((planet) => {
+      const elements = planet.orbitalElements!;
+      expect(elements.semiMajorAxisAU).toBeCloseTo(planet.distanceInAU, 1);
+      expect(elements.eccentricity).toBeCloseTo(planet.eccentricity, 2);
+      expect(
+        Math.abs(elements.inclinationDeg - planet.orbitalInclination),
+      ).toBeLessThan(0.05);
+    });
+  });
+
+  it("should derive elements for bodies without explicit ones", () => {
+    const mars = { ...planetData[3], orbitalElements: undefined };
+    const derived = getPlanetOrbitalElements(mars);
+    expect(derived.semiMajorAxisAU).toBe(mars.distanceInAU);
+    expect(derived.eccentricity).toBe(mars.eccentricity);
+    expect(derived.inclinationDeg).toBe(mars.orbitalInclination);
+    expect(derived.orbitalPeriodDays).toBe(mars.orbitalPeriodDays);
+  });
+
+  it("should agree with Astronomy Engine longitudes within a degree", () => {
+    const date = new Date("2024-06-01T00:00:00Z");
+    const pluto = dwarfPlanetData.find((d) => d.name === "Pluto")!;
+    [...planetData, pluto].forEach((body) => {
+      const kepler = positionToEclipticLongitude(
+        calculateHeliocentricPosition(body.orbitalElements!, date),
+      );
+      const ae = AE.EclipticLongitude(body.name as AE.Body, AE.MakeTime(date));
+      expect(angleDifference(kepler, ae)).toBeLessThan(1);
+    });
+  });
+});
+
+describe("Keplerian Orbit Geometry", () => {
+  it("should put the Sun at a focus, not the centre", () => {
+    planetData.forEach((planet) => {
+      const elements = planet.orbitalElements!;
+      const e = elements.eccentricity;
+      const perihelion = calculatePositionAtTrueAnomaly(elements, 0);
+      const aphelion = calculatePositionAtTrueAnomaly(elements, Math.PI);
+      const a = elements.semiMajorAxisAU;
+
+      expect(distance(perihelion)).toBeCloseTo(a * (1 - e), 9);
+      expect(distance(aphelion)).toBeCloseTo(a * (1 + e), 9);
+    });
+  });
+
+  it("should use the correct semi-minor axis b = a√(1 - e²)", () => {
+    const mercury = planetData.find((p) => p.name === "Mercury")!;
+    const elements = { ...mercury.orbitalElements!, inclinationDeg: 0 };
+    const a = elements.semiMajorAxisAU;
+    const e = elements.eccentricity;
+
+    // Points where the eccentric anomaly is ±90° lie on the minor axis
+    const E = Math.PI / 2;
+    const top = calculatePositionAtTrueAnomaly(elements, calculateTrueAnomaly(E, e));
+    const bottom = calculatePositionAtTrueAnomaly(elements, calculateTrueAnomaly(-E, e));
+
+    expect(distance({ x: top.x - bottom.x, y: top.y - bottom.y, z: 0 })).toBeCloseTo(
+      2 * a * Math.sqrt(1 - e * e),
+      9,
+    );
+  });
+
+  it("should keep every orbit path point on the conic r = a(1 - e²)/(1 + e·cos ν)", () => {
+    [...planetData, ...dwarfPlanetData].forEach((body) => {
+      const elements = getPlanetOrbitalElements(body);
+      const points = createOrbitPathPoints(elements, SCALED_DISTANCE, 64);
+      const e = elements.eccentricity;
+      points.forEach((point, index) => {
+        const nu = (index / 64) * 2 * Math.PI;
+        const expected = (SCALED_DISTANCE * (1 - e * e)) / (1 + e * Math.cos(nu));
+        expect(distance(point)).toBeCloseTo(expected, 6);
+      });
+    });
+  });
+
+  it("should lay out ecliptic longitudes the same way as the inclined orbit curve", () => {
+    fc.assert(
+      fc.property(
+        fc.double({ min: 0, max: 2 * Math.PI, noNaN: true }),
+        fc.double({ min: 0, max: 30, noNaN: true }),
+        (theta, inclination) => {
+          // Node at 0°: ecliptic z = y·sin i, matching applyInclinationToPosition
+          const scene = eclipticToScenePosition(
+            calculatePositionAtTrueAnomaly(
+              {
+                semiMajorAxisAU: 1,
+                eccentricity: 0,
+                inclinationDeg: inclination,
+                longitudeOfAscendingNodeDeg: 0,
+                argumentOfPeriapsisDeg: 0,
+                meanAnomalyDeg: 0,
+                epoch: new Date(),
+              },
+              theta,
+            ),
+            100,
+          );
+          const expected = applyInclinationToPosition(
+            100 * Math.cos(theta),
+            100 * Math.sin(theta),
+            inclination,
+          );
+          return (
+            Math.abs(scene.x - expected.x) < 1e-6 &&
+            Math.abs(scene.y - expected.y) < 1e-6 &&
+            Math.abs(scene.z - expected.z) < 1e-6
+          );
+        },
+      ),
+      { numRuns: 100 },
+    );
+  });
+});
+
+describe("Keplerian Motion", () => {
+  it("should satisfy Kepler's equation through the true anomaly", () => {
+    fc.assert(
+      fc.property(
+        fc.double({ min: 0, max: 2 * Math.PI, maxExcluded: true, noNaN: true }),
+        fc.double({ min: 0, max: 0.9, noNaN: true }),
+        (M, e) => {
+          const E = solveKeplerEquation(M, e);
+          const nu = calculateTrueAnomaly(E, e);
+          // Round trip: cos ν = (cos E - e) / (1 - e cos E)
+          return (
+            Math.abs(Math.cos(nu) - (Math.cos(E) - e) / (1 - e * Math.cos(E))) <
+            1e-9
+          );
+        },
+      ),
+      { numRuns: 200 },
+    );
+  });
+
+  it("should move Mercury faster at perihelion than at aphelion", () => {
+    const mercury = planetData.find((p) => p.name === "Mercury")!;
+    const elements = mercury.orbitalElements!;
+    const e = elements.eccentricity;
+
+    // Find the dates of perihelion and aphelion from the mean anomaly at epoch
+    const period = mercury.orbitalPeriodDays;
+    const perihelionDate = new Date(
+      elements.epoch.getTime() +
+        ((360 - elements.meanAnomalyDeg) / 360) * period * DAY_MS,
+    );
+    const aphelionDate = new Date(perihelionDate.getTime() + (period / 2) * DAY_MS);
+
+    const angularStep = (date: Date) => {
+      const a = calculateOrbitScenePosition(elements, date, SCALED_DISTANCE);
+      const b = calculateOrbitScenePosition(
+        elements,
+        new Date(date.getTime() + DAY_MS),
+        SCALED_DISTANCE,
+      );
+      return Math.acos(
+        (a.x * b.x + a.y * b.y + a.z * b.z) / (distance(a) * distance(b)),
+      );
+    };
+
+    const ratio = angularStep(perihelionDate) / angularStep(aphelionDate);
+    // Kepler's second law: ω ∝ 1/r², so the ratio is ((1 + e)/(1 - e))²
+    expect(ratio).toBeCloseTo(((1 + e) / (1 - e)) ** 2, 1);
+    expect(ratio).toBeGreaterThan(2);
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import fc from "fast-check";
+import { render, screen, fireEvent, cleanup } from "@testing-library/react";
+import { MISSIONS } from "@/features/missions/data/missions";
+import {
+  MISSION_VIEW_DISTANCE,
+  findMissionForEvent,
+  findMissionsIn,
+  getEventJumpDate,
+  getLastMilestone,
+  getMissionFocus,
+  getMissionLaunch,
+  getMissionPath,
+  getMissionPosition,
+  getMissionStatus,
+  getMissionWaypoints,
+} from "@/features/missions/domain/mission-trajectory";
+import { MissionPanel } from "@/features/missions/ui/mission-panel";
+import {
+  getFocusMinDistance,
+  getViewDistance,
+} from "@/features/camera-control/domain/camera-flight";
+import { HISTORICAL_EVENTS } from "@/features/historical-events/data/historical-events";
+import { ExplorationHistory } from "@/features/planet-modal/ui/exploration-history";
+
+const MS_PER_DAY = 86_400_000;
+
+const distance = (
+  a: { x: number; y: number; z: number },
+  b: { x: number; y: number; z: number },
+) => Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+
+const getMission = (id: string) => MISSIONS.find((m) => m.id === id)!;
+
+describe("Mission Data", () => {
+  it("should list waypoints in date order with unique ids", () => {
+    expect(new Set(MISSIONS.map((m) => m.id)).size).toBe(MISSIONS.length);
+    MISSIONS.forEach((mission) => {
+      const times = getMissionWaypoints(mission).map((w) => w.date.getTime());
+      expect(times.every(Number.isFinite)).toBe(true);
+      times
+        .slice(1)
+        .forEach((time, i) => expect(time).toBeGreaterThan(times[i]));
+    });
+  });
+});
+
+describe("Mission Trajectories", () => {
+  it("should pass through every waypoint", () => {
+    MISSIONS.forEach((mission) => {
+      getMissionWaypoints(mission).forEach((waypoint) => {
+        const position = getMissionPosition(mission, waypoint.date)!;
+        expect(distance(position, waypoint.position)).toBeLessThan(1e-6);
+      });
+    });
+  });
+
+  it("should move the craft smoothly from day to day", () => {
+    const mission = fc.constantFrom(...MISSIONS);
+    fc.assert(
+      fc.property(
+        mission,
+        fc.double({ min: 0, max: 1, noNaN: true }),
+        (m, t) => {
+          const waypoints = getMissionWaypoints(m);
+          const start = waypoints[0].date.getTime();
+          const end = waypoints[waypoints.length - 1].date.getTime();
+          const time = start + t * (end - start - MS_PER_DAY);
+          const today = getMissionPosition(m, new Date(time))!;
+          const tomorrow = getMissionPosition(m, new Date(time + MS_PER_DAY))!;
+          // No craft here moves 0.2 AU a day, not even Parker at perihelion
+          return distance(today, tomorrow) < 0.2;
+        },
+      ),
+      { numRuns: 200 },
+    );
+  });
+
+  it("should have no position before launch or after the data ends", () => {
+    const voyager = getMission("voyager-1");
+    const launch = getMissionLaunch(voyager);
+    expect(
+      getMissionPosition(voyager, new Date(launch.getTime() - MS_PER_DAY)),
+    ).toBeNull();
+    expect(
+      getMissionPosition(voyager, new Date("2031-01-01T00:00:00Z")),
+    ).toBeNull();
+    expect(getMissionStatus(voyager, new Date("1970-01-01"))).toBe(
+      "upcoming",
+    );
+    expect(getMissionStatus(voyager, new Date("2000-01-01"))).toBe(
+      "in-flight",
+    );
+    expect(getMissionStatus(voyager, new Date("2040-01-01"))).toBe("ended");
+  });
+
+  it("should keep Voyager 1 heading out of the Solar System", () => {
+    const voyager = getMission("voyager-1");
+    const radii = getMissionPath(voyager)
+      .slice(48)
+      .map((point) => Math.hypot(point.x, point.y, point.z));
+    radii
+      .slice(1)
+      .forEach((radius, i) => expect(radius).toBeGreaterThan(radii[i]));
+  });
+
+  it("should name the latest milestone passed", () => {
+    const voyager = getMission("voyager-2");
+    expect(
+      getLastMilestone(voyager, new Date("1990-01-01T00:00:00Z"))?.label,
+    ).toBe("Neptune and Triton flyby");
+    expect(getLastMilestone(voyager, new Date("1970-01-01"))).toBeNull();
+  });
+});
+
+describe("Mission Lookup", () => {
+  it("should find every craft in a notable-missions entry", () => {
+    expect(findMissionsIn("Voyager 1 & 2").map((m) => m.id)).toEqual([
+      "voyager-1",
+      "voyager-2",
+    ]);
+    expect(findMissionsIn("Cassini-Huygens").map((m) => m.id)).toEqual([
+      "cassini",
+    ]);
+    expect(findMissionsIn("Juno (ongoing)").map((m) => m.id)).toEqual([
+      "juno",
+    ]);
+    expect(findMissionsIn("Galileo")).toEqual([]);
+  });
+
+  it("should jump mission events to their launch", () => {
+    const neptune = HISTORICAL_EVENTS.find(
+      (event) => event.name === "Voyager 2 Neptune Flyby",
+    )!;
+    expect(findMissionForEvent(neptune)?.id).toBe("voyager-2");
+    expect(getEventJumpDate(neptune).toISOString().slice(0, 10)).toBe(
+      "1977-08-20",
+    );
+
+    const other = HISTORICAL_EVENTS.find(
+      (event) => event.category !== "space-mission",
+    )!;
+    expect(findMissionForEvent(other)).toBeNull();
+    expect(getEventJumpDate(other)).toBe(other.date);
+  });
+
+  it("should follow a craft from its own view distance", () => {
+    const focus = getMissionFocus(getMission("juno"));
+    expect(focus.name).toBe("Juno");
+    expect(getViewDistance(focus)).toBe(MISSION_VIEW_DISTANCE);
+    expect(getFocusMinDistance(focus)).toBeLessThan(MISSION_VIEW_DISTANCE);
+  });
+});
+
+describe("Mission UI", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("should follow missions picked in an exploration history", () => {
+    const onMissionSelect = vi.fn();
+    render(
+      <ExplorationHistory
+        explorationHistory={{
+          notableMissions: ["Voyager 1 & 2", "Galileo", "Juno (ongoing)"],
+        }}
+        onMissionSelect={onMissionSelect}
+      />,
+    );
+
+    expect(screen.getByText("Galileo").closest("button")).toBeNull();
+    fireEvent.click(screen.getByText("Voyager 2"));
+    expect(onMissionSelect).toHaveBeenCalledWith(getMission("voyager-2"));
+    fireEvent.click(screen.getByText("Juno (ongoing)"));
+    expect(onMissionSelect).toHaveBeenLastCalledWith(getMission("juno"));
+  });
+
+  it("should list each mission's status on the selected date", () => {
+    const onFollowFromLaunch = vi.fn();
+    const onFollow = vi.fn();
+    render(
+      <MissionPanel
+        selectedDate={new Date("2005-01-01T00:00:00Z")}
+        onFollowFromLaunch={onFollowFromLaunch}
+        onFollow={onFollow}
+        onClose={() => {}}
+      />,
+    );
+
+    // Parker had not launched in 2005
+    const parker = screen.getByRole("button", {
+      name: "Follow Parker Solar Probe",
+    }) as HTMLButtonElement;
+    expect(parker.disabled).toBe(true);
+
+    fireEvent.click(screen.getByRole("button", { name: "Follow Cassini" }));
+    expect(onFollow).toHaveBeenCalledWith(getMission("cassini"));
+    fireEvent.click(
+      screen.getByRole("button", { name: "Follow New Horizons from launch" }),
+    );
+    expect(onFollowFromLaunch).toHaveBeenCalledWith(
+      getMission("new-horizons"),
+    );
+  });
+});
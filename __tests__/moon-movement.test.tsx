@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { act } from "@testing-library/react";
+import { advance, createRoot, extend } from "@react-three/fiber";
+import {
+  Group,
+  Mesh,
+  MeshBasicMaterial,
+  SphereGeometry,
+  Vector3,
+  type Scene,
+} from "three";
+import { MOON_DATA, type MoonData } from "@/features/moons/data/moon-data";
+import { EPHEMERIS_MOONS } from "@/features/moons/domain/moon-orbit";
+import { Moon } from "@/features/moons/ui/moon";
+import { createSimulationClock } from "@/features/simulation-control/domain/simulation-clock";
+import type { SimulationMode } from "@/features/simulation-control/state/simulation-mode-context";
+
+extend({ Group, Mesh, MeshBasicMaterial, SphereGeometry });
+
+/**
+ * Offset of a moon from its parent after one frame in a simulation mode.
+ * Renders without WebGL: the renderer only has to exist.
+ */
+async function getMoonSceneOffset(
+  moon: MoonData,
+  date: Date,
+  simulationMode: SimulationMode,
+): Promise<Vector3> {
+  const root = createRoot(document.createElement("canvas"));
+  const renderer = { render() {}, setSize() {}, setPixelRatio() {} };
+  let scene: Scene | undefined;
+  await act(async () => {
+    await root.configure({
+      gl: renderer,
+      frameloop: "never",
+      size: { width: 100, height: 100, top: 0, left: 0 },
+      onCreated: (state) => {
+        scene = state.scene;
+      },
+    });
+    root.render(
+      <Moon
+        moon={moon}
+        simulationSpeed={0}
+        onClick={() => {}}
+        showOrbitPath={false}
+        clock={createSimulationClock(date, 0)}
+        simulationMode={simulationMode}
+      />,
+    );
+  });
+  act(() => {
+    advance(performance.now());
+  });
+  const offset = scene!.getObjectByName(moon.name)!.position.clone();
+  await act(async () => root.unmount());
+  return offset;
+}
+
+describe("Moon Movement", () => {
+  it("should place moons at the same offset in Speed and Date Mode", async () => {
+    const date = new Date("2024-04-08T18:00:00Z");
+    const moons = MOON_DATA.filter(
+      (moon) =>
+        (EPHEMERIS_MOONS as readonly string[]).includes(moon.name) ||
+        moon.name === "Titan",
+    );
+
+    for (const moon of moons) {
+      const speed = await getMoonSceneOffset(moon, date, "speed");
+      const dated = await getMoonSceneOffset(moon, date, "date");
+      expect(speed.length()).toBeGreaterThan(0);
+      expect(speed.distanceTo(dated)).toBeLessThan(1e-9);
+    }
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect } from "vitest";
+import fc from "fast-check";
+import * as AE from "astronomy-engine";
+import { planetData } from "@/data/planet-data";
+import {
+  MOON_DATA,
+  getMoonsForPlanet,
+  isMoonData,
+} from "@/features/moons/data/moon-data";
+import {
+  EPHEMERIS_MOONS,
+  KM_PER_SIZE_UNIT,
+  getMoonEphemerisOffset,
+  scaleMoonDistance,
+} from "@/features/moons/domain/moon-orbit";
+import { validatePlanetData } from "@/utils/validate-planet-data";
+import {
+  calculateOrbitScenePosition,
+  getPlanetOrbitalElements,
+} from "@/features/planet-rendering/domain/kepler-orbit";
+
+describe("Moon Data", () => {
+  it("should pass the shared planet data validation", () => {
+    MOON_DATA.forEach((moon) => {
+      expect(validatePlanetData(moon)).toEqual([]);
+    });
+  });
+
+  it("should reference an existing parent planet", () => {
+    const planetNames = planetData.map((planet) => planet.name);
+    MOON_DATA.forEach((moon) => {
+      expect(planetNames).toContain(moon.parentName);
+    });
+  });
+
+  it("should include the Moon and all Galilean moons", () => {
+    expect(getMoonsForPlanet("Earth").map((m) => m.name)).toEqual(["Moon"]);
+    expect(getMoonsForPlanet("Jupiter").map((m) => m.name)).toEqual([
+      "Io",
+      "Europa",
+      "Ganymede",
+      "Callisto",
+    ]);
+    expect(getMoonsForPlanet("Mercury")).toEqual([]);
+  });
+
+  it("should model Triton's retrograde orbit with inclination above 90°", () => {
+    const triton = MOON_DATA.find((moon) => moon.name === "Triton")!;
+    expect(triton.orbitalInclination).toBeGreaterThan(90);
+  });
+
+  it("should tell moons apart from planets", () => {
+    expect(isMoonData(MOON_DATA[0])).toBe(true);
+    expect(isMoonData(planetData[0])).toBe(false);
+  });
+});
+
+describe("Moon Orbit Scaling", () => {
+  it("should place every moon outside its parent's sphere", () => {
+    MOON_DATA.forEach((moon) => {
+      const parent = planetData.find((p) => p.name === moon.parentName)!;
+      expect(scaleMoonDistance(moon.semiMajorAxisKm)).toBeGreaterThan(
+        parent.diameterRelativeEarth,
+      );
+    });
+  });
+
+  it("should place the Moon about 60 Earth radii from Earth", () => {
+    expect(scaleMoonDistance(384_400)).toBeCloseTo(60.3, 1);
+  });
+
+  it("should return 0 for invalid distances", () => {
+    expect(scaleMoonDistance(NaN)).toBe(0);
+    expect(scaleMoonDistance(-1)).toBe(0);
+  });
+});
+
+describe("Moon Positions", () => {
+  const dateArb = fc
+    .integer({
+      min: new Date("1900-01-01").getTime(),
+      max: new Date("2100-12-31").getTime(),
+    })
+    .map((ts) => new Date(ts));
+
+  it("should keep Keplerian moons between periapsis and apoapsis", () => {
+    fc.assert(
+      fc.property(fc.constantFrom(...MOON_DATA), dateArb, (moon, date) => {
+        const a = scaleMoonDistance(moon.semiMajorAxisKm);
+        const position = calculateOrbitScenePosition(
+          getPlanetOrbitalElements(moon),
+          date,
+          a,
+        );
+        const r = Math.hypot(position.x, position.y, position.z);
+        return (
+          r >= a * (1 - moon.eccentricity) - 1e-9 &&
+          r <= a * (1 + moon.eccentricity) + 1e-9
+        );
+      }),
+      { numRuns: 100 },
+    );
+  });
+
+  it("should complete one Keplerian orbit per orbital period", () => {
+    const moon = MOON_DATA.find((m) => m.name === "Titan")!;
+    const elements = getPlanetOrbitalElements(moon);
+    const start = new Date("2024-01-01T00:00:00Z");
+    const end = new Date(
+      start.getTime() + moon.orbitalPeriodDays * 86_400_000,
+    );
+    const a = calculateOrbitScenePosition(elements, start, 100);
+    const b = calculateOrbitScenePosition(elements, end, 100);
+    expect(b.x).toBeCloseTo(a.x, 6);
+    expect(b.y).toBeCloseTo(a.y, 6);
+    expect(b.z).toBeCloseTo(a.z, 6);
+  });
+
+  it("should match Astronomy Engine's geocentric Moon distance", () => {
+    const date = new Date("2024-04-08T18:00:00Z");
+    const offset = getMoonEphemerisOffset("Moon", date)!;
+    const expectedKm = AE.GeoMoon(AE.MakeTime(date)).Length() * AE.KM_PER_AU;
+
+    const distanceUnits = Math.hypot(offset.x, offset.y, offset.z);
+    expect(distanceUnits * KM_PER_SIZE_UNIT).toBeCloseTo(expectedKm, 0);
+  });
+
+  it("should keep ephemeris moons near their modelled orbits", () => {
+    fc.assert(
+      fc.property(fc.constantFrom(...EPHEMERIS_MOONS), dateArb, (name, date) => {
+        const moon = MOON_DATA.find((m) => m.name === name)!;
+        const offset = getMoonEphemerisOffset(name, date)!;
+        const distance = Math.hypot(offset.x, offset.y, offset.z);
+        const semiMajorAxis = scaleMoonDistance(moon.semiMajorAxisKm);
+
+        // Within eccentricity plus perturbations of the mean orbit
+        return Math.abs(distance / semiMajorAxis - 1) < 0.1;
+      }),
+      { numRuns: 50 },
+    );
+  });
+
+  it("should keep the Moon close to the ecliptic plane", () => {
+    const offset = getMoonEphemerisOffset("Moon", new Date("2020-01-01"))!;
+    const distance = Math.hypot(offset.x, offset.y, offset.z);
+    // Lunar orbit is inclined ~5.1° to the ecliptic
+    expect(Math.abs(offset.y) / distance).toBeLessThan(Math.sin((5.3 * Math.PI) / 180));
+  });
+
+  it("should return null for moons without an ephemeris", () => {
+    expect(getMoonEphemerisOffset("Titan", new Date())).toBeNull();
+    expect(getMoonEphemerisOffset("Moon", new Date("invalid"))).toBeNull();
+  });
+});
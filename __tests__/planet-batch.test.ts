@@ -0,0 +1,292 @@
+/**
+ * Planet Batch Tests
+ * The list and batch API route, the client's batch requests with ETag
+ * revalidation, and warming the catalog at startup; upstreams are stubbed
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  GET,
+  UPSTREAM_CONCURRENCY,
+} from "@/features/planet-catalog/server/list-route";
+import { resetUpstreamState } from "@/features/planet-catalog/server/upstream-providers";
+import { resetRateLimiter } from "@/features/planet-catalog/server/request-guard";
+import type { PlanetBatchResponse } from "@/features/planet-catalog/domain/planet-api-types";
+import { LE_SYSTEME_SOLAIRE_BODY_IDS } from "@/features/planet-catalog/domain/provider-formats";
+import {
+  PlanetDataService,
+  planetDataService,
+} from "@/features/planet-catalog/infrastructure/planet-data-service";
+import { warmPlanetCatalog } from "@/features/planet-catalog/infrastructure/fetch-with-fallback";
+import {
+  getCatalogStore,
+  readCatalogRecord,
+  writeCatalogRecord,
+} from "@/features/planet-catalog/infrastructure/catalog-store";
+
+const { mockUpstream } = vi.hoisted(() => ({ mockUpstream: vi.fn() }));
+
+vi.mock("@/features/planet-catalog/server/upstream-client", () => ({
+  fetchPlanetFromUpstream: mockUpstream,
+}));
+
+// Upstream body IDs back to local names
+const LOCAL_NAMES = Object.fromEntries(
+  Object.entries(LE_SYSTEME_SOLAIRE_BODY_IDS).map(([name, id]) => [id, name])
+);
+
+function bodyResponse(name: string) {
+  return {
+    id: LE_SYSTEME_SOLAIRE_BODY_IDS[name],
+    name,
+    englishName: name,
+    isPlanet: true,
+    avgTemp: 200,
+  };
+}
+
+/**
+ * Answer upstream requests with a body per name, failing the given upstream
+ * IDs with a status
+ */
+function stubUpstream(failures: Record<string, number> = {}) {
+  mockUpstream.mockImplementation(async (url: string) => {
+    const id = url.split("/").pop() ?? "";
+    if (failures[id]) {
+      return new Response("{}", { status: failures[id] });
+    }
+    return new Response(JSON.stringify(bodyResponse(LOCAL_NAMES[id])));
+  });
+}
+
+function listRequest(query = "", headers?: HeadersInit) {
+  return GET(new Request(`http://localhost/api/planets${query}`, { headers }));
+}
+
+describe("Planet Batch", () => {
+  beforeEach(async () => {
+    await resetUpstreamState();
+    resetRateLimiter();
+    vi.stubEnv("SOLAR_SYSTEM_API_KEY", "test-key");
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    stubUpstream();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    mockUpstream.mockReset();
+  });
+
+  describe("List route", () => {
+    it("should list every body the provider covers", async () => {
+      const response = await listRequest();
+      const body: PlanetBatchResponse = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.provider).toBe("le-systeme-solaire");
+      expect(body.items.map((item) => item.name)).toEqual(
+        Object.keys(LE_SYSTEME_SOLAIRE_BODY_IDS)
+      );
+      expect(response.headers.get("Cache-Control")).toContain("s-maxage");
+    });
+
+    it("should fetch named bodies once each, in order", async () => {
+      const response = await listRequest("?names=Mars,%20earth,mars");
+      const body: PlanetBatchResponse = await response.json();
+
+      expect(body.items.map((item) => item.name)).toEqual(["mars", "earth"]);
+      expect(body.items[0].data).toEqual(bodyResponse("mars"));
+      expect(mockUpstream).toHaveBeenCalledTimes(2);
+    });
+
+    it("should return partial results with per-item errors", async () => {
+      stubUpstream({ [LE_SYSTEME_SOLAIRE_BODY_IDS.venus]: 503 });
+
+      const response = await listRequest("?names=mars,venus,vulcan");
+      const body: PlanetBatchResponse = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.items).toEqual([
+        { name: "mars", status: 200, data: bodyResponse("mars") },
+        {
+          name: "venus",
+          status: 503,
+          error: "API returned status 503",
+          code: "UPSTREAM_ERROR",
+        },
+        {
+          name: "vulcan",
+          status: 400,
+          error: "Unsupported planet name",
+          code: "UNSUPPORTED_BODY",
+        },
+      ]);
+      // Partial results must not be cached in place of complete ones
+      expect(response.headers.get("Cache-Control")).toBe("no-store");
+    });
+
+    it("should answer 502 when every body fails", async () => {
+      vi.stubEnv("SOLAR_SYSTEM_API_KEY", "");
+
+      const response = await listRequest("?names=mars,earth");
+      const body: PlanetBatchResponse = await response.json();
+
+      expect(response.status).toBe(502);
+      expect(body.items.every((item) => item.status === 500)).toBe(true);
+      expect(mockUpstream).not.toHaveBeenCalled();
+    });
+
+    it("should reject bad requests", async () => {
+      expect((await listRequest("?names=,")).status).toBe(400);
+      expect((await listRequest("?provider=horizons")).status).toBe(400);
+      const tooMany = Array.from({ length: 51 }, (_, i) => `b${i}`).join(",");
+      expect((await listRequest(`?names=${tooMany}`)).status).toBe(400);
+    });
+
+    it("should limit upstream requests in flight", async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      mockUpstream.mockImplementation(async (url: string) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight--;
+        const id = url.split("/").pop() ?? "";
+        return new Response(JSON.stringify(bodyResponse(LOCAL_NAMES[id])));
+      });
+
+      const response = await listRequest();
+
+      expect(response.status).toBe(200);
+      expect(mockUpstream.mock.calls.length).toBeGreaterThan(
+        UPSTREAM_CONCURRENCY
+      );
+      expect(maxInFlight).toBe(UPSTREAM_CONCURRENCY);
+    });
+
+    it("should answer 304 when If-None-Match names the ETag", async () => {
+      const first = await listRequest("?names=mars");
+      const etag = first.headers.get("ETag");
+      expect(etag).toMatch(/^"[0-9a-f]{32}"$/);
+
+      const revalidated = await listRequest("?names=mars", {
+        "If-None-Match": `"stale", W/${etag}`,
+      });
+      expect(revalidated.status).toBe(304);
+      expect(revalidated.headers.get("ETag")).toBe(etag);
+      expect(await revalidated.text()).toBe("");
+
+      const changed = await listRequest("?names=mars,earth", {
+        "If-None-Match": etag!,
+      });
+      expect(changed.status).toBe(200);
+    });
+  });
+
+  describe("Client", () => {
+    let server: Server;
+    let service: PlanetDataService;
+    let statuses: number[] = [];
+
+    beforeAll(async () => {
+      // Serves /api/planets through the list route
+      server = createServer(async (request, response) => {
+        const routed = await GET(
+          new Request(`http://localhost${request.url}`, {
+            headers: request.headers as Record<string, string>,
+          })
+        );
+        statuses.push(routed.status);
+        response.writeHead(routed.status, Object.fromEntries(routed.headers));
+        response.end(await routed.text());
+      });
+      await new Promise<void>((resolve) =>
+        server.listen(0, "127.0.0.1", resolve)
+      );
+      const { port } = server.address() as AddressInfo;
+      service = new PlanetDataService(`http://127.0.0.1:${port}/api/planets`);
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(async () => {
+      statuses = [];
+      await getCatalogStore().clear();
+    });
+
+    it("should build batch URLs", () => {
+      const local = new PlanetDataService();
+      expect(local.buildBatchUrl()).toBe("/api/planets");
+      expect(local.buildBatchUrl(["Mars", "Earth"])).toBe(
+        "/api/planets?names=mars%2Cearth"
+      );
+      expect(local.buildBatchUrl(["Ceres"], "jpl-sbdb")).toBe(
+        "/api/planets?names=ceres&provider=jpl-sbdb"
+      );
+    });
+
+    it("should split a batch into data and per-body errors", async () => {
+      stubUpstream({ [LE_SYSTEME_SOLAIRE_BODY_IDS.venus]: 503 });
+
+      const result = await service.fetchManyPlanetData(["Mars", "Venus"]);
+
+      expect(Object.keys(result.data)).toEqual(["mars"]);
+      expect(result.data.mars.englishName).toBe("mars");
+      expect(result.errors).toEqual({ venus: "API returned status 503" });
+    });
+
+    it("should reuse the last batch when the server answers 304", async () => {
+      const first = await service.fetchManyPlanetData(["mars", "earth"]);
+      const second = await service.fetchManyPlanetData(["mars", "earth"]);
+
+      expect(statuses).toEqual([200, 304]);
+      expect(second).toEqual(first);
+    });
+
+    it("should report every body when the whole batch fails", async () => {
+      vi.stubEnv("SOLAR_SYSTEM_API_KEY", "");
+
+      const result = await service.fetchManyPlanetData(["mars"]);
+
+      expect(statuses).toEqual([502]);
+      expect(result.data).toEqual({});
+      expect(Object.keys(result.errors)).toEqual(["mars"]);
+    });
+
+    it("should warm missing and stale catalog records in one batch", async () => {
+      await writeCatalogRecord(
+        "earth",
+        { facts: { meanTemperatureK: 288 }, provenance: {} },
+        Date.now()
+      );
+      await writeCatalogRecord(
+        "venus",
+        { facts: { meanTemperatureK: 737 }, provenance: {} },
+        0
+      );
+      const fetchMany = vi
+        .spyOn(planetDataService, "fetchManyPlanetData")
+        .mockImplementation((names) => service.fetchManyPlanetData(names));
+      const fetchOne = vi.spyOn(planetDataService, "fetchPlanetData");
+
+      await warmPlanetCatalog(["Mars", "Earth", "Venus"]);
+
+      expect(fetchMany).toHaveBeenCalledTimes(1);
+      expect(fetchMany).toHaveBeenCalledWith(["mars", "venus"]);
+      expect(fetchOne).not.toHaveBeenCalled();
+      expect((await readCatalogRecord("mars"))?.data.facts.meanTemperatureK).toBe(
+        200
+      );
+      expect((await readCatalogRecord("venus"))?.fetchedAt).toBeGreaterThan(0);
+      expect((await readCatalogRecord("earth"))?.data.facts.meanTemperatureK).toBe(
+        288
+      );
+    });
+  });
+});
@@ -0,0 +1,450 @@
+/**
+ * Planet Data Provider Tests
+ * Adapters, priority order and per-field provenance, run against a local
+ * stub server so no network is needed
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from "vitest";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { PlanetDataService } from "@/features/planet-catalog/infrastructure/planet-data-service";
+import {
+  DEFAULT_PROVIDER_PRIORITY,
+  createBundledSnapshotProvider,
+  createJplSbdbProvider,
+  createLeSystemeSolaireProvider,
+  fetchFromProviders,
+  fetchManyFromProviders,
+  getPlanetDataProviderPriority,
+  getPlanetDataProviders,
+  setPlanetDataProviderPriority,
+} from "@/features/planet-catalog/infrastructure/planet-data-providers";
+import {
+  PLANET_FACT_FIELDS,
+  type PlanetDataProvider,
+  type PlanetDataProviderId,
+  type PlanetFacts,
+} from "@/features/planet-catalog/domain/planet-data-provider";
+import {
+  isValidSbdbResponse,
+  sbdbToFacts,
+} from "@/features/planet-catalog/domain/provider-formats";
+import { PLANET_SNAPSHOT } from "@/features/planet-catalog/data/planet-snapshot";
+import { GET } from "@/features/planet-catalog/server/route";
+import { mergePlanetFacts } from "@/utils/data-merger";
+import { planetData } from "@/data/planet-data";
+import { dwarfPlanetData } from "@/data/dwarf-planet-data";
+
+// Solar System OpenData responses; 0 stands for unknown upstream
+const LE_SYSTEME_SOLAIRE_BODIES: Record<string, object> = {
+  earth: {
+    id: "terre",
+    name: "La Terre",
+    englishName: "Earth",
+    isPlanet: true,
+    moons: [{ moon: "La Lune", rel: "" }],
+    mass: { massValue: 5.97237, massExponent: 24 },
+    density: 5.5136,
+    gravity: 9.8,
+    sideralOrbit: 365.256,
+    sideralRotation: 23.9345,
+    avgTemp: 288,
+  },
+  ceres: {
+    id: "ceres",
+    name: "1 Cérès",
+    englishName: "1 Ceres",
+    isPlanet: false,
+    moons: null,
+    mass: { massValue: 9.393, massExponent: 20 },
+    density: 2.16,
+    gravity: 0.28,
+    sideralOrbit: 1680.5,
+    sideralRotation: 9.07417,
+    avgTemp: 168,
+  },
+  haumea: {
+    id: "haumea",
+    name: "Hauméa",
+    englishName: "Haumea",
+    isPlanet: false,
+    moons: [
+      { moon: "Hiʻiaka", rel: "" },
+      { moon: "Namaka", rel: "" },
+    ],
+    mass: { massValue: 4.006, massExponent: 21 },
+    density: 0,
+    gravity: 0,
+    sideralOrbit: 103774,
+    sideralRotation: 3.9155,
+    avgTemp: 0,
+  },
+};
+
+// JPL SBDB responses, trimmed to the fields the adapter reads
+const SBDB_BODIES: Record<string, object> = {
+  ceres: {
+    object: { fullname: "1 Ceres (A801 AA)", shortname: "1 Ceres" },
+    orbit: { elements: [{ name: "per", value: "1681.63", units: "d" }] },
+    phys_par: [
+      { name: "GM", value: "62.6284", units: "km^3/s^2" },
+      { name: "diameter", value: "939.4", units: "km" },
+      { name: "rot_per", value: "9.07417", units: "h" },
+      { name: "density", value: "2.16", units: "g/cm^3" },
+    ],
+  },
+  haumea: {
+    object: { fullname: "136108 Haumea (2003 EL61)" },
+    orbit: { elements: [{ name: "per", value: "284.12", units: "y" }] },
+    phys_par: [
+      { name: "GM", value: "267.4", units: "km^3/s^2" },
+      { name: "diameter", value: "1632", units: "km" },
+      { name: "density", value: "2.018", units: "g/cm^3" },
+    ],
+  },
+};
+
+describe("Planet Data Providers", () => {
+  let server: Server;
+  let service: PlanetDataService;
+  let requests: string[] = [];
+  let failing = new Set<string>();
+
+  beforeAll(async () => {
+    // Serves /api/planets/[name] the way the edge route does
+    server = createServer((request, response) => {
+      const url = new URL(request.url ?? "/", "http://localhost");
+      const name = url.pathname.split("/").pop() ?? "";
+      const provider = url.searchParams.get("provider") ?? "le-systeme-solaire";
+      requests.push(`${provider}:${name}`);
+
+      const bodies =
+        provider === "jpl-sbdb" ? SBDB_BODIES : LE_SYSTEME_SOLAIRE_BODIES;
+      const body = failing.has(provider) ? undefined : bodies[name];
+      response.writeHead(body ? 200 : 500, {
+        "Content-Type": "application/json",
+      });
+      response.end(JSON.stringify(body ?? { error: "Upstream failed" }));
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    const { port } = server.address() as AddressInfo;
+    service = new PlanetDataService(`http://127.0.0.1:${port}/api/planets`);
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  afterEach(() => {
+    requests = [];
+    failing = new Set();
+    setPlanetDataProviderPriority(DEFAULT_PROVIDER_PRIORITY);
+    vi.restoreAllMocks();
+  });
+
+  describe("Adapters", () => {
+    it("should read Solar System OpenData responses", async () => {
+      const facts = await createLeSystemeSolaireProvider(service).fetchFacts(
+        "Earth"
+      );
+
+      expect(facts).toEqual({
+        mass: { massValue: 5.97237, massExponent: 24 },
+        meanTemperatureK: 288,
+        siderealOrbitDays: 365.256,
+        siderealRotationHours: 23.9345,
+        moonCount: 1,
+        surfaceGravity: 9.8,
+        density: 5.5136,
+      });
+      expect(requests).toEqual(["le-systeme-solaire:earth"]);
+    });
+
+    it("should drop the zeros Solar System OpenData uses for unknowns", async () => {
+      const facts = await createLeSystemeSolaireProvider(service).fetchFacts(
+        "Haumea"
+      );
+
+      expect(facts.meanTemperatureK).toBeUndefined();
+      expect(facts.surfaceGravity).toBeUndefined();
+      expect(facts.density).toBeUndefined();
+      expect(facts.moonCount).toBe(2);
+    });
+
+    it("should derive mass and gravity from JPL SBDB GM and diameter", async () => {
+      const facts = await createJplSbdbProvider(service).fetchFacts("Ceres");
+
+      expect(facts.mass!.massExponent).toBe(20);
+      expect(facts.mass!.massValue).toBeCloseTo(9.38, 2);
+      expect(facts.surfaceGravity).toBeCloseTo(0.284, 3);
+      expect(facts.siderealOrbitDays).toBe(1681.63);
+      expect(facts.siderealRotationHours).toBe(9.07417);
+      expect(facts.density).toBe(2.16);
+      expect(facts.meanTemperatureK).toBeUndefined();
+      expect(requests).toEqual(["jpl-sbdb:ceres"]);
+
+      // Periods given in years are converted to days
+      const haumea = await createJplSbdbProvider(service).fetchFacts("Haumea");
+      expect(haumea.siderealOrbitDays).toBeCloseTo(284.12 * 365.25, 6);
+    });
+
+    it("should reject malformed JPL SBDB responses", () => {
+      expect(isValidSbdbResponse(SBDB_BODIES.ceres)).toBe(true);
+      expect(isValidSbdbResponse({ phys_par: [] })).toBe(false);
+      expect(
+        isValidSbdbResponse({
+          object: { fullname: "1 Ceres" },
+          phys_par: [{ name: "GM", value: 62.6 }],
+        })
+      ).toBe(false);
+      expect(
+        sbdbToFacts({ object: { fullname: "Unknown" }, phys_par: [] })
+      ).toEqual({
+        mass: undefined,
+        siderealOrbitDays: undefined,
+        siderealRotationHours: undefined,
+        surfaceGravity: undefined,
+        density: undefined,
+      });
+    });
+
+    it("should cover the major planets only through Solar System OpenData", () => {
+      const [lss, sbdb, bundled] = getPlanetDataProviders(
+        DEFAULT_PROVIDER_PRIORITY,
+        service
+      );
+
+      planetData
+        .filter((body) => body.name !== "Sun")
+        .forEach((body) => {
+          expect(lss.supports(body.name)).toBe(true);
+          expect(sbdb.supports(body.name)).toBe(false);
+          expect(bundled.supports(body.name)).toBe(true);
+        });
+      dwarfPlanetData.forEach((body) => {
+        expect(lss.supports(body.name)).toBe(true);
+        expect(sbdb.supports(body.name)).toBe(true);
+        expect(bundled.supports(body.name)).toBe(true);
+      });
+    });
+
+    it("should not count prototype keys as bodies", () => {
+      getPlanetDataProviders(DEFAULT_PROVIDER_PRIORITY, service).forEach(
+        (provider) => {
+          expect(provider.supports("constructor")).toBe(false);
+          expect(provider.supports("toString")).toBe(false);
+          expect(provider.supports("__proto__")).toBe(false);
+        }
+      );
+    });
+
+    it("should have every fact in the bundled snapshot", async () => {
+      const bundled = createBundledSnapshotProvider();
+      for (const name of Object.keys(PLANET_SNAPSHOT)) {
+        const facts = await bundled.fetchFacts(name);
+        PLANET_FACT_FIELDS.forEach((field) =>
+          expect(facts[field]).toBeDefined()
+        );
+      }
+      expect(requests).toEqual([]);
+    });
+  });
+
+  describe("Priority and provenance", () => {
+    it("should fill each field from the first provider that has it", async () => {
+      const sourced = await fetchFromProviders(
+        "Haumea",
+        getPlanetDataProviders(DEFAULT_PROVIDER_PRIORITY, service)
+      );
+
+      expect(sourced!.provenance).toEqual({
+        mass: "le-systeme-solaire",
+        siderealOrbitDays: "le-systeme-solaire",
+        siderealRotationHours: "le-systeme-solaire",
+        moonCount: "le-systeme-solaire",
+        surfaceGravity: "jpl-sbdb",
+        density: "jpl-sbdb",
+        meanTemperatureK: "bundled",
+      });
+      expect(sourced!.facts.surfaceGravity).toBeCloseTo(0.4, 1);
+      expect(sourced!.facts.meanTemperatureK).toBe(
+        PLANET_SNAPSHOT.haumea.meanTemperatureK
+      );
+    });
+
+    it("should stop once every fact is known", async () => {
+      const sourced = await fetchFromProviders(
+        "Ceres",
+        getPlanetDataProviders(DEFAULT_PROVIDER_PRIORITY, service)
+      );
+
+      expect(requests).toEqual(["le-systeme-solaire:ceres"]);
+      expect(new Set(Object.values(sourced!.provenance))).toEqual(
+        new Set(["le-systeme-solaire"])
+      );
+    });
+
+    it("should follow a configured priority order", async () => {
+      setPlanetDataProviderPriority(["jpl-sbdb", "le-systeme-solaire"]);
+      const sourced = await fetchFromProviders(
+        "Ceres",
+        getPlanetDataProviders(getPlanetDataProviderPriority(), service)
+      );
+
+      expect(requests).toEqual([
+        "jpl-sbdb:ceres",
+        "le-systeme-solaire:ceres",
+      ]);
+      expect(sourced!.provenance.mass).toBe("jpl-sbdb");
+      expect(sourced!.provenance.meanTemperatureK).toBe("le-systeme-solaire");
+      expect(sourced!.facts.siderealOrbitDays).toBe(1681.63);
+    });
+
+    it("should drop unknown and repeated providers from the priority", () => {
+      setPlanetDataProviderPriority([
+        "bundled",
+        "bundled",
+        "horizons" as never,
+        "le-systeme-solaire",
+      ]);
+
+      expect(getPlanetDataProviderPriority()).toEqual([
+        "bundled",
+        "le-systeme-solaire",
+      ]);
+    });
+
+    it("should skip a failing provider and keep the others", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      failing.add("le-systeme-solaire");
+
+      const sourced = await fetchFromProviders(
+        "Ceres",
+        getPlanetDataProviders(DEFAULT_PROVIDER_PRIORITY, service)
+      );
+
+      expect(sourced!.provenance.mass).toBe("jpl-sbdb");
+      expect(sourced!.provenance.moonCount).toBe("bundled");
+      expect(console.error).toHaveBeenCalled();
+    });
+
+    it("should not answer from bundled data alone when live data fails", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      failing.add("le-systeme-solaire");
+
+      const sourced = await fetchFromProviders(
+        "Earth",
+        getPlanetDataProviders(DEFAULT_PROVIDER_PRIORITY, service)
+      );
+
+      expect(sourced).toBeNull();
+      // Unless bundled data is all that is configured
+      const bundledOnly = await fetchFromProviders(
+        "Earth",
+        getPlanetDataProviders(["bundled"], service)
+      );
+      expect(bundledOnly!.facts).toEqual(PLANET_SNAPSHOT.earth);
+    });
+
+    it("should batch in priority order, asking only for missing facts", async () => {
+      // Remote provider answering batches from fixed facts
+      const batchProvider = (
+        id: PlanetDataProviderId,
+        facts: Record<string, PlanetFacts>
+      ) =>
+        ({
+          id,
+          remote: true,
+          supports: (name: string) => Object.hasOwn(facts, name.toLowerCase()),
+          fetchFacts: vi.fn(),
+          fetchManyFacts: vi.fn(
+            async (names: string[]) =>
+              new Map(names.map((name) => [name, facts[name]]))
+          ),
+        }) satisfies PlanetDataProvider;
+      const lss = batchProvider("le-systeme-solaire", {
+        ceres: { ...PLANET_SNAPSHOT.ceres },
+        haumea: { mass: PLANET_SNAPSHOT.haumea.mass },
+      });
+      const sbdb = batchProvider("jpl-sbdb", {
+        ceres: { ...PLANET_SNAPSHOT.ceres },
+        haumea: { ...PLANET_SNAPSHOT.haumea },
+      });
+
+      const results = await fetchManyFromProviders(
+        ["Ceres", "Haumea", "ceres"],
+        [lss, sbdb, createBundledSnapshotProvider()]
+      );
+
+      expect(lss.fetchManyFacts).toHaveBeenCalledWith(["ceres", "haumea"]);
+      expect(sbdb.fetchManyFacts).toHaveBeenCalledWith(["haumea"]);
+      expect(lss.fetchManyFacts.mock.invocationCallOrder[0]).toBeLessThan(
+        sbdb.fetchManyFacts.mock.invocationCallOrder[0]
+      );
+      expect(
+        new Set(Object.values(results.get("ceres")!.provenance))
+      ).toEqual(new Set(["le-systeme-solaire"]));
+      expect(results.get("haumea")!.provenance.mass).toBe(
+        "le-systeme-solaire"
+      );
+      expect(results.get("haumea")!.provenance.density).toBe("jpl-sbdb");
+    });
+
+    it("should record each merged field's provider", async () => {
+      const earth = planetData.find((body) => body.name === "Earth")!;
+      const facts: PlanetFacts = { ...PLANET_SNAPSHOT.earth };
+      delete facts.density;
+      const merged = mergePlanetFacts(
+        {
+          facts: { ...facts, density: 5.5136 },
+          provenance: {
+            ...Object.fromEntries(
+              PLANET_FACT_FIELDS.map((field) => [field, "bundled"])
+            ),
+            density: "le-systeme-solaire",
+          },
+        },
+        earth
+      );
+
+      expect(merged.apiDensity).toBe("5.51 g/cm³");
+      expect(merged.apiMoonCount).toBe("1");
+      expect(merged.provenance).toEqual({
+        apiMass: "bundled",
+        apiTemperature: "bundled",
+        apiOrbitalPeriod: "bundled",
+        apiRotationPeriod: "bundled",
+        apiMoonCount: "bundled",
+        apiGravity: "bundled",
+        apiDensity: "le-systeme-solaire",
+      });
+    });
+  });
+
+  describe("Edge route", () => {
+    const call = (name: string, query = "") =>
+      GET(new Request(`http://localhost/api/planets/${name}${query}`), {
+        params: Promise.resolve({ name }),
+      });
+
+    it("should reject unknown providers", async () => {
+      const response = await call("ceres", "?provider=horizons");
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: "Unsupported provider",
+        code: "UNSUPPORTED_PROVIDER",
+      });
+    });
+
+    it("should reject bodies a provider does not cover", async () => {
+      const response = await call("earth", "?provider=jpl-sbdb");
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: "Unsupported planet name",
+        code: "UNSUPPORTED_BODY",
+      });
+    });
+  });
+});
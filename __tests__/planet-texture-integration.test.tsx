@@ -19,6 +19,9 @@ import { sunData, planetData } from "@/data/planet-data";
 import { PlanetData } from "@/data/planet-types";
 import { textureCache } from "@/utils/texture-cache";
 import { PLANET_TEXTURES } from "@/lib/planet-textures/texture-config";
+import { createSimulationClock } from "@/features/simulation-control/domain/simulation-clock";
+
+const clock = createSimulationClock(new Date(), 1);
 
 describe("Planet Component - Texture Integration", () => {
   beforeEach(() => {
@@ -39,6 +42,7 @@ describe("Planet Component - Texture Integration", () => {
           <Planet
             planet={planet}
             simulationSpeed={1}
+            clock={clock}
             onClick={mockOnClick}
             showLabels={false}
             showOrbitPath={false}
@@ -72,6 +76,7 @@ describe("Planet Component - Texture Integration", () => {
         <Planet
           planet={sunData}
           simulationSpeed={1}
+          clock={clock}
           onClick={mockOnClick}
           showLabels={false}
           showOrbitPath={false}
@@ -106,6 +111,7 @@ describe("Planet Component - Texture Integration", () => {
           <Planet
             planet={planet}
             simulationSpeed={1}
+            clock={clock}
             onClick={mockOnClick}
             showLabels={true}
             showOrbitPath={true}
@@ -139,6 +145,7 @@ describe("Planet Component - Texture Integration", () => {
         <Planet
           planet={earth}
           simulationSpeed={1}
+          clock={clock}
           onClick={mockOnClick}
           showLabels={false}
           showOrbitPath={false}
@@ -210,6 +217,7 @@ describe("Planet Component - Texture Integration", () => {
         <Planet
           planet={fakePlanet}
           simulationSpeed={1}
+          clock={clock}
           onClick={mockOnClick}
           showLabels={false}
           showOrbitPath={false}
@@ -243,6 +251,7 @@ describe("Planet Component - Texture Integration", () => {
         <Planet
           planet={earth}
           simulationSpeed={1}
+          clock={clock}
           onClick={mockOnClick}
           showLabels={false}
           showOrbitPath={false}
@@ -255,6 +264,7 @@ describe("Planet Component - Texture Integration", () => {
         <Planet
           planet={earth}
           simulationSpeed={1}
+          clock={clock}
           onClick={mockOnClick}
           showLabels={false}
           showOrbitPath={false}
@@ -288,6 +298,7 @@ describe("Planet Component - Texture Integration", () => {
         <Planet
           planet={mars}
           simulationSpeed={1}
+          clock={clock}
           onClick={mockOnClick}
           showLabels={false}
           showOrbitPath={false}
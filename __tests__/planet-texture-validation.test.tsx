@@ -21,6 +21,9 @@ import { Planet } from "@/features/planet-rendering/ui/planet/index";
 import { sunData, planetData } from "@/data/planet-data";
 import { textureCache } from "@/utils/texture-cache";
 import { PLANET_TEXTURES } from "@/lib/planet-textures/texture-config";
+import { createSimulationClock } from "@/features/simulation-control/domain/simulation-clock";
+
+const clock = createSimulationClock(new Date(), 1);
 
 describe("Task 9.1: Visual Validation Tests", () => {
   beforeEach(() => {
@@ -138,6 +141,7 @@ describe("Task 9.1: Visual Validation Tests", () => {
           <Planet
             planet={body}
             simulationSpeed={1}
+            clock={clock}
             onClick={mockOnClick}
             showLabels={false}
             showOrbitPath={false}
@@ -230,6 +234,7 @@ describe("Task 9.4: Performance Testing", () => {
         <Planet
           planet={earth}
           simulationSpeed={1}
+          clock={clock}
           onClick={mockOnClick}
           showLabels={false}
           showOrbitPath={false}
@@ -266,6 +271,7 @@ describe("Task 9.4: Performance Testing", () => {
           <Planet
             planet={body}
             simulationSpeed={1}
+            clock={clock}
             onClick={mockOnClick}
             showLabels={false}
             showOrbitPath={false}
@@ -306,6 +312,7 @@ describe("Task 9.4: Performance Testing", () => {
           <Planet
             planet={mars}
             simulationSpeed={1}
+            clock={clock}
             onClick={mockOnClick}
             showLabels={false}
             showOrbitPath={false}
@@ -336,6 +343,7 @@ describe("Task 9.4: Performance Testing", () => {
         <Planet
           planet={jupiter}
           simulationSpeed={1}
+          clock={clock}
           onClick={mockOnClick}
           showLabels={false}
           showOrbitPath={false}
@@ -354,6 +362,7 @@ describe("Task 9.4: Performance Testing", () => {
         <Planet
           planet={jupiter}
           simulationSpeed={1}
+          clock={clock}
           onClick={mockOnClick}
           showLabels={false}
           showOrbitPath={false}
@@ -387,6 +396,7 @@ describe("Task 9.4: Performance Testing", () => {
           <Planet
             planet={planet}
             simulationSpeed={1}
+            clock={clock}
             onClick={mockOnClick}
             showLabels={false}
             showOrbitPath={false}
@@ -440,6 +450,7 @@ describe("Task 9.4: Performance Testing", () => {
           <Planet
             planet={body}
             simulationSpeed={1}
+            clock={clock}
             onClick={mockOnClick}
             showLabels={false}
             showOrbitPath={false}
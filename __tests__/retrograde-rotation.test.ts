@@ -5,6 +5,7 @@ import {
   SECONDS_PER_DAY,
   FULL_CIRCLE_RADIANS,
 } from "@/utils/physics-constants";
+import { calculateRotationAngleDelta } from "@/features/planet-rendering/domain/rotation-calculations";
 
 describe("Retrograde Rotation", () => {
   /**
@@ -182,4 +183,76 @@ describe("Retrograde Rotation", () => {
       );
     });
   });
+
+  /**
+   * Signed simulation speeds: reversing time reverses every rotation
+   */
+  describe("Reversed and paused time", () => {
+    it("should turn the opposite way when time runs backwards", () => {
+      fc.assert(
+        fc.property(
+          fc.double({ min: -1000, max: 1000, noNaN: true }),
+          fc.double({ min: 0.001, max: 1, noNaN: true }),
+          fc.double({ min: 1, max: 10_000_000, noNaN: true }),
+          (rotationSpeedByDays, deltaTime, speed) => {
+            fc.pre(Math.abs(rotationSpeedByDays) > 0.001);
+
+            const forward = calculateRotationAngleDelta(
+              rotationSpeedByDays,
+              deltaTime,
+              speed
+            );
+            const backward = calculateRotationAngleDelta(
+              rotationSpeedByDays,
+              deltaTime,
+              -speed
+            );
+
+            return (
+              Math.sign(forward) === Math.sign(rotationSpeedByDays) &&
+              Math.abs(forward + backward) <= Math.abs(forward) * 1e-12
+            );
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    it("should keep Venus turning against Earth when time runs backwards", () => {
+      const venus = planetData.find((p) => p.name === "Venus")!;
+      const earth = planetData.find((p) => p.name === "Earth")!;
+
+      const venusStep = calculateRotationAngleDelta(
+        venus.rotationSpeedByDays,
+        1,
+        -1000
+      );
+      const earthStep = calculateRotationAngleDelta(
+        earth.rotationSpeedByDays,
+        1,
+        -1000
+      );
+
+      // Backwards in time Earth turns clockwise, Venus counter-clockwise
+      expect(earthStep).toBeLessThan(0);
+      expect(venusStep).toBeGreaterThan(0);
+    });
+
+    it("should not rotate while paused", () => {
+      planetData.forEach((planet) => {
+        expect(
+          calculateRotationAngleDelta(planet.rotationSpeedByDays, 0.016, 0)
+        ).toBeCloseTo(0, 12);
+      });
+    });
+
+    it("should match one full turn per sidereal day", () => {
+      const earth = planetData.find((p) => p.name === "Earth")!;
+      const oneDay =
+        Math.abs(earth.rotationSpeedByDays) * SECONDS_PER_DAY;
+      expect(
+        calculateRotationAngleDelta(earth.rotationSpeedByDays, oneDay, 1)
+      ).toBeCloseTo(FULL_CIRCLE_RADIANS, 9);
+    });
+  });
 });
@@ -0,0 +1,281 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import fc from "fast-check";
+import {
+  render,
+  renderHook,
+  screen,
+  fireEvent,
+  waitFor,
+  cleanup,
+} from "@testing-library/react";
+import { Vector3 } from "three";
+import type { Camera, Vector3Tuple } from "three";
+import {
+  MAX_CAMERA_COORDINATE,
+  decodeViewState,
+  encodeViewState,
+  findSelectableBody,
+  type ViewState,
+} from "@/features/share-link/domain/view-state-codec";
+import {
+  useShareableViewState,
+  type ShareableViewController,
+} from "@/features/share-link/application/useShareableViewState";
+import { CopyLinkButton } from "@/features/share-link/ui/copy-link-button";
+import { createSimulationClock } from "@/features/simulation-control/domain/simulation-clock";
+import {
+  DEFAULT_SPEED,
+  MAX_SPEED,
+  MIN_SPEED,
+} from "@/features/simulation-control/state/rotation-speed-context";
+import { planetData, sunData } from "@/data/planet-data";
+import { dwarfPlanetData } from "@/data/dwarf-planet-data";
+
+const DEFAULT_VIEW: ViewState = {
+  mode: "speed",
+  date: new Date("2024-06-01T12:34:56.789Z"),
+  planetName: null,
+  speed: DEFAULT_SPEED,
+  paused: false,
+  showLabels: true,
+  showOrbits: true,
+  showBelts: true,
+  camera: null,
+};
+
+const coordinate = fc
+  .integer({
+    min: -MAX_CAMERA_COORDINATE * 100,
+    max: MAX_CAMERA_COORDINATE * 100,
+  })
+  .map((value) => value / 100);
+const vector = fc.tuple(coordinate, coordinate, coordinate) as fc.Arbitrary<
+  Vector3Tuple
+>;
+// Speeds as normalizeSimulationSpeed leaves them
+const speed = fc
+  .oneof(
+    fc.integer({ min: MIN_SPEED, max: 100 }),
+    fc.integer({ min: 2, max: MAX_SPEED / 100 }).map((n) => n * 100),
+  )
+  .chain((magnitude) => fc.constantFrom(magnitude, -magnitude));
+
+const viewState: fc.Arbitrary<ViewState> = fc.record({
+  mode: fc.constantFrom("speed" as const, "date" as const),
+  date: fc
+    .integer({
+      min: new Date("1700-01-01").getTime(),
+      max: new Date("2300-12-31").getTime(),
+    })
+    .map((ts) => new Date(ts)),
+  planetName: fc.option(
+    fc.constantFrom(
+      ...[sunData, ...planetData, ...dwarfPlanetData].map((body) => body.name),
+    ),
+  ),
+  speed,
+  paused: fc.boolean(),
+  showLabels: fc.boolean(),
+  showOrbits: fc.boolean(),
+  showBelts: fc.boolean(),
+  camera: fc.option(
+    fc
+      .tuple(vector, vector)
+      .filter(([position, target]) =>
+        position.some((value, index) => value !== target[index]),
+      )
+      .map(([position, target]) => ({ position, target })),
+  ),
+});
+
+describe("View State Codec", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should restore every view state it encodes", () => {
+    fc.assert(
+      fc.property(viewState, (state) => {
+        const decoded = decodeViewState(encodeViewState(state));
+        expect({ ...DEFAULT_VIEW, ...decoded }).toEqual(state);
+      }),
+      { numRuns: 200 },
+    );
+  });
+
+  it("should share Jupiter on 1979-03-05 with orbits hidden", () => {
+    const query = encodeViewState({
+      ...DEFAULT_VIEW,
+      mode: "date",
+      date: new Date("1979-03-05T00:00:00Z"),
+      planetName: "Jupiter",
+      showOrbits: false,
+    });
+
+    expect(query).toBe("mode=date&date=1979-03-05&planet=Jupiter&orbits=0");
+    expect(decodeViewState(`?${query}`)).toEqual({
+      mode: "date",
+      date: new Date("1979-03-05T00:00:00Z"),
+      planetName: "Jupiter",
+      showOrbits: false,
+    });
+  });
+
+  it("should match body names case-insensitively", () => {
+    expect(findSelectableBody("jUPITER")?.name).toBe("Jupiter");
+    expect(findSelectableBody(" pluto ")?.name).toBe("Pluto");
+    expect(findSelectableBody("sun")).toBe(sunData);
+    expect(findSelectableBody("europa")?.name).toBe("Europa");
+    expect(decodeViewState("planet=SATURN").planetName).toBe("Saturn");
+  });
+
+  it("should drop invalid parameters and keep the rest", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const decoded = decodeViewState(
+      "mode=warp&date=not-a-date&planet=Vulcan&speed=abc&paused=maybe" +
+        "&labels=0&cam=1,2&target=0,0,0",
+    );
+
+    expect(decoded).toEqual({ showLabels: false });
+    expect(warn).toHaveBeenCalledTimes(6);
+  });
+
+  it("should reject dates outside the supported range", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(decodeViewState("date=1500-01-01").date).toBeUndefined();
+    expect(decodeViewState("date=2400-01-01").date).toBeUndefined();
+  });
+
+  it("should clamp and normalize speeds", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(decodeViewState("speed=1e12").speed).toBe(MAX_SPEED);
+    expect(decodeViewState("speed=-12345").speed).toBe(-12_300);
+    expect(decodeViewState("speed=0").speed).toBeUndefined();
+  });
+
+  it("should only accept cameras inside the scene", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const outside = MAX_CAMERA_COORDINATE + 1;
+
+    expect(decodeViewState(`cam=0,${outside},0`).camera).toBeUndefined();
+    expect(decodeViewState("cam=0,NaN,0").camera).toBeUndefined();
+    expect(decodeViewState("cam=5,5,5&target=5,5,5").camera).toBeUndefined();
+    expect(decodeViewState("cam=0,2000,4000").camera).toEqual({
+      position: [0, 2000, 4000],
+      target: [0, 0, 0],
+    });
+  });
+});
+
+describe("useShareableViewState", () => {
+  const createController = (): ShareableViewController => ({
+    mode: "speed",
+    clock: createSimulationClock(new Date("2024-01-01T00:00:00Z"), 0),
+    selectedPlanet: null,
+    simulationSpeed: DEFAULT_SPEED,
+    isPaused: false,
+    showPlanetLabels: true,
+    showOrbitPath: true,
+    showBeltRegions: true,
+    setMode: vi.fn(),
+    setSelectedDate: vi.fn(),
+    handlePlanetClick: vi.fn(),
+    setSimulationSpeed: vi.fn(),
+    setPaused: vi.fn(),
+    setShowPlanetLabels: vi.fn(),
+    setShowOrbitPath: vi.fn(),
+    setShowBeltRegions: vi.fn(),
+  });
+
+  afterEach(() => {
+    window.history.replaceState(null, "", "/");
+  });
+
+  it("should apply the link in the URL once on load", () => {
+    window.history.replaceState(
+      null,
+      "",
+      "/?mode=date&date=1979-03-05&planet=jupiter&orbits=0&cam=0,100,200",
+    );
+    const controller = createController();
+
+    const { result, rerender } = renderHook(() =>
+      useShareableViewState(controller),
+    );
+    rerender();
+
+    expect(controller.setMode).toHaveBeenCalledWith("date");
+    expect(controller.setSelectedDate).toHaveBeenCalledWith(
+      new Date("1979-03-05T00:00:00Z"),
+    );
+    expect(controller.handlePlanetClick).toHaveBeenCalledWith(
+      planetData.find((planet) => planet.name === "Jupiter"),
+    );
+    expect(controller.setShowOrbitPath).toHaveBeenCalledWith(false);
+    expect(controller.setShowPlanetLabels).not.toHaveBeenCalled();
+    expect(controller.setMode).toHaveBeenCalledTimes(1);
+    expect(result.current.initialCamera).toEqual({
+      position: [0, 100, 200],
+      target: [0, 0, 0],
+    });
+  });
+
+  it("should build a link from the current view and camera", () => {
+    const controller = createController();
+    const { result } = renderHook(() => useShareableViewState(controller));
+    result.current.controlsRef.current = {
+      object: { position: new Vector3(1, 2, 3) } as Camera,
+      target: new Vector3(0, 0, 0),
+    };
+
+    const url = new URL(result.current.getShareUrl());
+    expect(url.origin + url.pathname).toBe(
+      window.location.origin + window.location.pathname,
+    );
+    expect(decodeViewState(url.search)).toEqual({
+      date: new Date("2024-01-01T00:00:00Z"),
+      camera: { position: [1, 2, 3], target: [0, 0, 0] },
+    });
+  });
+});
+
+describe("CopyLinkButton", () => {
+  afterEach(() => {
+    cleanup();
+    vi.restoreAllMocks();
+  });
+
+  const mockClipboard = (writeText: (text: string) => Promise<void>) => {
+    Object.defineProperty(navigator, "clipboard", {
+      value: { writeText },
+      configurable: true,
+    });
+  };
+
+  it("should copy the link and confirm", async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined);
+    mockClipboard(writeText);
+
+    render(<CopyLinkButton getUrl={() => "https://example.com/?planet=Mars"} />);
+    fireEvent.click(
+      screen.getByRole("button", { name: "Copy link to this view" }),
+    );
+
+    expect(writeText).toHaveBeenCalledWith("https://example.com/?planet=Mars");
+    await waitFor(() => expect(screen.getByText("Copied")).toBeTruthy());
+  });
+
+  it("should report a failed copy", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    mockClipboard(() => Promise.reject(new Error("denied")));
+
+    render(<CopyLinkButton getUrl={() => "https://example.com/"} />);
+    fireEvent.click(
+      screen.getByRole("button", { name: "Copy link to this view" }),
+    );
+
+    await waitFor(() => expect(screen.getByText("Copy failed")).toBeTruthy());
+    expect(error).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from "vitest";
+import fc from "fast-check";
+import {
+  MAX_SIMULATED_TIME_MS,
+  MIN_SIMULATED_TIME_MS,
+  createSimulationClock,
+  getSimulatedDate,
+  getSimulatedTimeMs,
+  setSimulationClockDate,
+  setSimulationClockRate,
+} from "@/features/simulation-control/domain/simulation-clock";
+
+const START = new Date("2024-01-01T00:00:00Z");
+
+describe("Simulation Clock", () => {
+  it("should show its epoch at the anchor", () => {
+    const clock = createSimulationClock(START, 1000, 500);
+    expect(getSimulatedDate(clock, 500).getTime()).toBe(START.getTime());
+  });
+
+  it("should advance by elapsed real time × rate", () => {
+    fc.assert(
+      fc.property(
+        fc.double({ min: -10_000_000, max: 10_000_000, noNaN: true }),
+        fc.double({ min: 0, max: 60_000, noNaN: true }),
+        (rate, elapsedMs) => {
+          const clock = createSimulationClock(START, rate, 0);
+          const expected = START.getTime() + elapsedMs * rate;
+          return Math.abs(getSimulatedTimeMs(clock, elapsedMs) - expected) < 1e-3;
+        },
+      ),
+      { numRuns: 100 },
+    );
+  });
+
+  it("should stand still when paused", () => {
+    const clock = createSimulationClock(START, 0, 0);
+    expect(getSimulatedTimeMs(clock, 1_000_000)).toBe(START.getTime());
+  });
+
+  it("should keep the simulated date when the rate changes", () => {
+    fc.assert(
+      fc.property(
+        fc.double({ min: 0, max: 10_000_000, noNaN: true }),
+        fc.double({ min: 0, max: 10_000_000, noNaN: true }),
+        fc.double({ min: 0, max: 60_000, noNaN: true }),
+        (rate, newRate, changeAtMs) => {
+          const clock = createSimulationClock(START, rate, 0);
+          const before = getSimulatedTimeMs(clock, changeAtMs);
+          const changed = setSimulationClockRate(clock, newRate, changeAtMs);
+          return (
+            Math.abs(getSimulatedTimeMs(changed, changeAtMs) - before) < 1e-3 &&
+            Math.abs(
+              getSimulatedTimeMs(changed, changeAtMs + 1000) -
+                (before + 1000 * newRate),
+            ) < 1e-3
+          );
+        },
+      ),
+      { numRuns: 100 },
+    );
+  });
+
+  it("should return the same clock when the rate does not change", () => {
+    const clock = createSimulationClock(START, 60, 0);
+    expect(setSimulationClockRate(clock, 60, 5000)).toBe(clock);
+  });
+
+  it("should jump to a new date and keep running at the same rate", () => {
+    const clock = createSimulationClock(START, 3600, 0);
+    const target = new Date("1969-07-20T20:17:00Z");
+    const moved = setSimulationClockDate(clock, target, 2000);
+
+    expect(getSimulatedTimeMs(moved, 2000)).toBe(target.getTime());
+    expect(getSimulatedTimeMs(moved, 3000)).toBe(target.getTime() + 3_600_000);
+  });
+
+  it("should ignore invalid rates and dates", () => {
+    const spy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const clock = createSimulationClock(START, 1, 0);
+
+    expect(setSimulationClockRate(clock, NaN)).toBe(clock);
+    expect(setSimulationClockRate(clock, Infinity)).toBe(clock);
+    expect(setSimulationClockDate(clock, new Date("invalid"))).toBe(clock);
+    expect(spy).toHaveBeenCalledTimes(3);
+    spy.mockRestore();
+  });
+
+  it("should stop at the ends of the accurate range", () => {
+    const fastest = 1e12;
+    const forward = createSimulationClock(START, fastest, 0);
+    const backward = createSimulationClock(START, -fastest, 0);
+
+    expect(getSimulatedTimeMs(forward, 60_000)).toBe(MAX_SIMULATED_TIME_MS);
+    expect(getSimulatedDate(forward, 60_000).getFullYear()).toBe(2300);
+    expect(getSimulatedTimeMs(backward, 60_000)).toBe(MIN_SIMULATED_TIME_MS);
+    expect(getSimulatedDate(backward, 60_000).getFullYear()).toBe(1700);
+  });
+
+  it("should move dates outside the accurate range to its nearest end", () => {
+    const clock = createSimulationClock(new Date(1500, 0, 1), 0, 0);
+    const moved = setSimulationClockDate(clock, new Date(2500, 0, 1), 0);
+
+    expect(clock.epochMs).toBe(MIN_SIMULATED_TIME_MS);
+    expect(moved.epochMs).toBe(MAX_SIMULATED_TIME_MS);
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi, afterEach } from "vitest";
 import { renderHook, act } from "@testing-library/react";
 import fc from "fast-check";
 import {
@@ -6,6 +6,7 @@ import {
   useSimulationMode,
   type SimulationMode,
 } from "@/features/simulation-control/state/simulation-mode-context";
+import { getSimulatedTimeMs } from "@/features/simulation-control/domain/simulation-clock";
 
 // Wrapper component for testing hooks
 const wrapper = ({ children }: { children: React.ReactNode }) => (
@@ -145,4 +146,139 @@ describe("Simulation Mode Context", () => {
       );
     });
   });
+
+  /**
+   * Speed Mode and Date Mode share one simulation clock
+   */
+  describe("Simulation clock continuity", () => {
+    const DAY_MS = 86_400_000;
+    let realTimeMs = 0;
+
+    // One simulated day per real second
+    const renderClock = (rate = DAY_MS / 1000) => {
+      realTimeMs = 0;
+      vi.spyOn(performance, "now").mockImplementation(() => realTimeMs);
+      let currentRate = rate;
+      const view = renderHook(() => useSimulationMode(), {
+        wrapper: ({ children }: { children: React.ReactNode }) => (
+          <SimulationModeProvider rate={currentRate}>
+            {children}
+          </SimulationModeProvider>
+        ),
+      });
+      const setRate = (newRate: number) => {
+        currentRate = newRate;
+        view.rerender();
+      };
+      return { ...view, setRate };
+    };
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("should run the clock at the given rate in Speed Mode", () => {
+      const { result } = renderClock();
+      const start = result.current.selectedDate.getTime();
+
+      realTimeMs = 10_000;
+      expect(getSimulatedTimeMs(result.current.clock)).toBe(start + 10 * DAY_MS);
+    });
+
+    it("should freeze Date Mode at the simulated date reached in Speed Mode", () => {
+      const { result } = renderClock();
+      const start = result.current.selectedDate.getTime();
+
+      realTimeMs = 30_000;
+      act(() => {
+        result.current.toggleMode();
+      });
+
+      expect(result.current.selectedDate.getTime()).toBe(start + 30 * DAY_MS);
+      expect(result.current.clock.rate).toBe(0);
+
+      realTimeMs = 60_000;
+      expect(getSimulatedTimeMs(result.current.clock)).toBe(start + 30 * DAY_MS);
+    });
+
+    it("should resume Speed Mode from the Date Mode date", () => {
+      const { result } = renderClock();
+      const picked = new Date("1986-02-09T00:00:00Z");
+
+      act(() => {
+        result.current.setMode("date");
+      });
+      act(() => {
+        result.current.setSelectedDate(picked);
+      });
+
+      realTimeMs = 5_000;
+      act(() => {
+        result.current.setMode("speed");
+      });
+
+      expect(getSimulatedTimeMs(result.current.clock)).toBe(picked.getTime());
+      realTimeMs = 7_000;
+      expect(getSimulatedTimeMs(result.current.clock)).toBe(
+        picked.getTime() + 2 * DAY_MS,
+      );
+    });
+
+    it("should land exactly on a date set together with the switch to Date Mode", () => {
+      const { result } = renderClock();
+      const picked = new Date("1979-03-05T00:00:00Z");
+      // Real time moves on between the update and the render
+      vi.spyOn(performance, "now").mockImplementation(() => ++realTimeMs);
+
+      act(() => {
+        result.current.setMode("date");
+        result.current.setSelectedDate(picked);
+      });
+
+      expect(result.current.selectedDate.getTime()).toBe(picked.getTime());
+      expect(getSimulatedTimeMs(result.current.clock)).toBe(picked.getTime());
+    });
+
+    it("should not jump when the speed changes", () => {
+      const { result, setRate } = renderClock();
+      const start = result.current.selectedDate.getTime();
+
+      realTimeMs = 4_000;
+      setRate(1);
+
+      expect(getSimulatedTimeMs(result.current.clock)).toBe(start + 4 * DAY_MS);
+      realTimeMs = 5_000;
+      expect(getSimulatedTimeMs(result.current.clock)).toBe(
+        start + 4 * DAY_MS + 1000,
+      );
+    });
+
+    it("should keep selectedDate in step with the running clock", () => {
+      vi.useFakeTimers({ toFake: ["setInterval", "clearInterval"] });
+      try {
+        const { result } = renderClock();
+        const start = result.current.selectedDate.getTime();
+
+        realTimeMs = 3_000;
+        act(() => {
+          vi.advanceTimersByTime(3_000);
+        });
+        expect(result.current.selectedDate.getTime()).toBe(start + 3 * DAY_MS);
+
+        // Near the end of the range the date stops at the last moment
+        act(() => {
+          result.current.setSelectedDate(new Date(2300, 11, 31));
+        });
+        realTimeMs = 10_000;
+        act(() => {
+          vi.advanceTimersByTime(7_000);
+        });
+        expect(result.current.selectedDate.getFullYear()).toBe(2300);
+        expect(result.current.selectedDate.getMonth()).toBe(11);
+        expect(result.current.selectedDate.getDate()).toBe(31);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
 });
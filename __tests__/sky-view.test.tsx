@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import fc from "fast-check";
+import {
+  render,
+  renderHook,
+  act,
+  screen,
+  fireEvent,
+  cleanup,
+} from "@testing-library/react";
+import {
+  DEFAULT_OBSERVER,
+  SKY_BODY_NAMES,
+  getHorizontalPosition,
+  getRiseSetTimes,
+  horizontalToScene,
+  isValidObserver,
+  normalizeObserver,
+} from "@/features/sky-view/domain/sky-coordinates";
+import { useSkyView } from "@/features/sky-view/application/useSkyView";
+import { SkyViewPanel } from "@/features/sky-view/ui/sky-view-panel";
+import { createSimulationClock } from "@/features/simulation-control/domain/simulation-clock";
+
+const TROMSO = { latitude: 69.65, longitude: 18.96 };
+
+// Nearest minute, as almanacs give it
+const time = (date: Date | null) =>
+  date &&
+  new Date(Math.round(date.getTime() / 60_000) * 60_000)
+    .toISOString()
+    .slice(11, 16);
+
+describe("Sky Coordinates", () => {
+  it("should put the equinox Sun due south at noon in Greenwich", () => {
+    const sun = getHorizontalPosition(
+      "Sun",
+      new Date("2024-03-20T12:07:00Z"),
+      DEFAULT_OBSERVER,
+    )!;
+    // Altitude at the equinox is 90° minus the latitude
+    expect(sun.altitude).toBeCloseTo(90 - DEFAULT_OBSERVER.latitude, 0);
+    expect(sun.azimuth).toBeGreaterThan(179);
+    expect(sun.azimuth).toBeLessThan(181);
+  });
+
+  it("should give midsummer sunrise and sunset in Greenwich", () => {
+    const { rise, set } = getRiseSetTimes(
+      "Sun",
+      new Date("2024-06-21T12:00:00Z"),
+      DEFAULT_OBSERVER,
+    );
+    expect(time(rise)).toBe("03:43");
+    expect(time(set)).toBe("20:21");
+  });
+
+  it("should report no sunrise or sunset under the midnight sun", () => {
+    expect(
+      getRiseSetTimes("Sun", new Date("2024-06-21T12:00:00Z"), TROMSO),
+    ).toEqual({ rise: null, set: null });
+  });
+
+  it("should place directions on a sphere with north at -z and east at +x", () => {
+    fc.assert(
+      fc.property(
+        fc.double({ min: -90, max: 90, noNaN: true }),
+        fc.double({ min: 0, max: 360, noNaN: true }),
+        (altitude, azimuth) => {
+          fc.pre(Math.abs(altitude) > 1e-9);
+          const point = horizontalToScene({ altitude, azimuth }, 100);
+          return (
+            Math.abs(Math.hypot(point.x, point.y, point.z) - 100) < 1e-9 &&
+            Math.sign(point.y) === Math.sign(altitude)
+          );
+        },
+      ),
+      { numRuns: 300 },
+    );
+    const north = horizontalToScene({ altitude: 0, azimuth: 0 }, 1);
+    const east = horizontalToScene({ altitude: 0, azimuth: 90 }, 1);
+    expect(north.z).toBeCloseTo(-1, 9);
+    expect(east.x).toBeCloseTo(1, 9);
+  });
+
+  it("should bring any finite location onto Earth's surface", () => {
+    fc.assert(
+      fc.property(
+        fc.double({ min: -1e6, max: 1e6, noNaN: true }),
+        fc.double({ min: -1e6, max: 1e6, noNaN: true }),
+        (latitude, longitude) =>
+          isValidObserver(normalizeObserver({ latitude, longitude })),
+      ),
+      { numRuns: 300 },
+    );
+    expect(normalizeObserver({ latitude: 95, longitude: 190 })).toEqual({
+      latitude: 90,
+      longitude: -170,
+    });
+  });
+
+  it("should refuse unknown bodies and locations", () => {
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    const date = new Date("2024-01-01T00:00:00Z");
+    expect(getHorizontalPosition("Earth", date, DEFAULT_OBSERVER)).toBeNull();
+    expect(
+      getHorizontalPosition("Mars", date, { latitude: 100, longitude: 0 }),
+    ).toBeNull();
+    expect(consoleError).toHaveBeenCalledTimes(2);
+    consoleError.mockRestore();
+  });
+});
+
+describe("Sky View", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("should switch views and keep the observer on Earth", () => {
+    const { result } = renderHook(() => useSkyView());
+    expect(result.current.viewMode).toBe("space");
+
+    act(() => {
+      result.current.toggleSkyView();
+      result.current.setObserver({ latitude: -33.9, longitude: 200 });
+    });
+    expect(result.current.isSkyView).toBe(true);
+    expect(result.current.observer.latitude).toBe(-33.9);
+    expect(result.current.observer.longitude).toBeCloseTo(-160, 9);
+  });
+
+  it("should list each body's rise and set and change location", () => {
+    const onObserverChange = vi.fn();
+    render(
+      <SkyViewPanel
+        clock={createSimulationClock(new Date("2024-06-21T12:00:00Z"), 0)}
+        observer={DEFAULT_OBSERVER}
+        onObserverChange={onObserverChange}
+      />,
+    );
+
+    const rows = screen.getAllByRole("row").slice(1);
+    expect(rows.map((row) => row.firstChild?.textContent)).toEqual(
+      SKY_BODY_NAMES,
+    );
+    expect(rows[0].textContent).toContain("03:43");
+
+    const latitude = screen.getByLabelText("Latitude (degrees)");
+    fireEvent.change(latitude, { target: { value: "40.7" } });
+    fireEvent.keyDown(latitude, { key: "Enter" });
+    expect(onObserverChange).toHaveBeenCalledWith({
+      ...DEFAULT_OBSERVER,
+      latitude: 40.7,
+    });
+  });
+});
@@ -0,0 +1,462 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import fc from "fast-check";
+import {
+  render,
+  renderHook,
+  screen,
+  fireEvent,
+  cleanup,
+  act,
+} from "@testing-library/react";
+import { SMALL_BODIES } from "@/features/small-bodies/data/small-bodies";
+import type { CometaryElements } from "@/features/small-bodies/data/small-body-types";
+import {
+  SMALL_BODY_PATH_MAX_AU,
+  SMALL_BODY_VIEW_DISTANCE,
+  TAIL_ONSET_AU,
+  getCometTailEnd,
+  getCometTailLengthAU,
+  getSmallBodyFocus,
+  getSmallBodyPathPoints,
+  getSmallBodyPeriodDays,
+  getSmallBodyPosition,
+  getSmallBodyTrueAnomaly,
+} from "@/features/small-bodies/domain/small-body-orbit";
+import {
+  parseMpcElements,
+  parseSbdbCsv,
+  parseSmallBodyElements,
+  unpackMpcEpoch,
+} from "@/features/small-bodies/domain/element-import";
+import {
+  MAX_IMPORTED_BODIES,
+  useSmallBodies,
+} from "@/features/small-bodies/application/useSmallBodies";
+import { SmallBodyPanel } from "@/features/small-bodies/ui/small-body-panel";
+import { calculateHeliocentricVector } from "@/utils/astronomy-calculations";
+import { GAUSSIAN_GRAVITATIONAL_CONSTANT } from "@/utils/orbital-elements";
+
+const MS_PER_DAY = 86_400_000;
+const k = GAUSSIAN_GRAVITATIONAL_CONSTANT;
+
+type Vector = { x: number; y: number; z: number };
+const distance = (a: Vector, b: Vector) =>
+  Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+const radius = (a: Vector) => Math.hypot(a.x, a.y, a.z);
+
+const getBody = (id: string) => SMALL_BODIES.find((b) => b.id === id)!;
+
+const distanceFromEarth = (id: string, date: Date) =>
+  distance(
+    getSmallBodyPosition(getBody(id).elements, date),
+    calculateHeliocentricVector("Earth", date)!,
+  );
+
+/**
+ * Fixed-width line with each text starting at its 1-based column
+ */
+const fixedWidth = (fields: [number, string][]) =>
+  fields.reduce((line, [col, text]) => line.padEnd(col - 1) + text, "");
+
+const HALLEY_MPC_LINE = fixedWidth([
+  [1, "0001P"],
+  [15, "1986"],
+  [20, "02"],
+  [23, "9.4589"],
+  [31, "0.585978"],
+  [42, "0.967143"],
+  [52, "111.3325"],
+  [62, "58.4201"],
+  [72, "162.2627"],
+  [82, "20230722"],
+  [103, "1P/Halley"],
+]);
+
+const EROS_MPCORB_LINE = fixedWidth([
+  [1, "00433"],
+  [21, "K24AH"],
+  [27, " 84.15432"],
+  [38, "178.92688"],
+  [49, "304.28008"],
+  [60, "10.82835"],
+  [71, "0.2228359"],
+  [81, "0.55991517"],
+  [93, "1.4581245"],
+  [167, "(433) Eros"],
+]);
+
+const makeElements = (e: number, q = 1): CometaryElements => ({
+  eccentricity: e,
+  perihelionDistanceAU: q,
+  inclinationDeg: 20,
+  longitudeOfAscendingNodeDeg: 40,
+  argumentOfPeriapsisDeg: 60,
+  perihelionTime: new Date("2000-01-01T00:00:00Z"),
+});
+
+describe("Small-Body Orbits", () => {
+  it("should bring Halley close to Earth in April 1986", () => {
+    // Closest approach was 0.42 AU on 11 April 1986
+    const date = new Date("1986-04-11T00:00:00Z");
+    expect(distanceFromEarth("1P", date)).toBeCloseTo(0.42, 1);
+  });
+
+  it("should bring Apophis past Earth on 13 April 2029", () => {
+    const date = new Date("2029-04-13T21:46:00Z");
+    expect(distanceFromEarth("99942", date)).toBeLessThan(0.002);
+  });
+
+  it("should be at perihelion at the perihelion time", () => {
+    SMALL_BODIES.forEach(({ elements }) => {
+      const position = getSmallBodyPosition(
+        elements,
+        elements.perihelionTime,
+      );
+      expect(radius(position)).toBeCloseTo(elements.perihelionDistanceAU, 9);
+    });
+  });
+
+  it("should keep bundled bodies between perihelion and aphelion", () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom(...SMALL_BODIES),
+        fc.integer({ min: -36500, max: 36500 }),
+        (body, days) => {
+          const { eccentricity: e, perihelionDistanceAU: q } = body.elements;
+          const date = new Date(
+            body.elements.perihelionTime.getTime() + days * MS_PER_DAY,
+          );
+          const r = radius(getSmallBodyPosition(body.elements, date));
+          return r >= q - 1e-9 && r <= (q * (1 + e)) / (1 - e) + 1e-9;
+        },
+      ),
+    );
+  });
+
+  it("should move no faster than its perihelion speed", () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom(...SMALL_BODIES),
+        fc.integer({ min: -36500, max: 36500 }),
+        (body, days) => {
+          const { eccentricity: e, perihelionDistanceAU: q } = body.elements;
+          const start = body.elements.perihelionTime.getTime();
+          const from = getSmallBodyPosition(
+            body.elements,
+            new Date(start + days * MS_PER_DAY),
+          );
+          const to = getSmallBodyPosition(
+            body.elements,
+            new Date(start + (days + 1) * MS_PER_DAY),
+          );
+          return distance(from, to) <= k * Math.sqrt((1 + e) / q) + 1e-9;
+        },
+      ),
+    );
+  });
+
+  it("should solve Kepler's equation for every kind of conic", () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom(0.2, 0.9, 1, 1.2, 3),
+        fc.double({ min: 0.1, max: 5, noNaN: true }),
+        fc.integer({ min: -20000, max: 20000 }),
+        (e, q, days) => {
+          const elements = makeElements(e, q);
+          const date = new Date(
+            elements.perihelionTime.getTime() + days * MS_PER_DAY,
+          );
+          const nu = getSmallBodyTrueAnomaly(elements, date);
+          const half = Math.tan(nu / 2);
+
+          if (e === 1) {
+            // Barker's equation
+            const D = (k * days) / Math.sqrt(2 * q * q * q);
+            const residual = half + half ** 3 / 3 - D;
+            return Math.abs(residual) < 1e-8 * (1 + Math.abs(D));
+          }
+          const a = Math.abs(q / (1 - e));
+          const M = (k * days) / Math.pow(a, 1.5);
+          if (e > 1) {
+            const H = 2 * Math.atanh(Math.sqrt((e - 1) / (e + 1)) * half);
+            const residual = e * Math.sinh(H) - H - M;
+            return Math.abs(residual) < 1e-8 * (1 + Math.abs(M));
+          }
+          const E = 2 * Math.atan(Math.sqrt((1 - e) / (1 + e)) * half);
+          const wrapped = Math.atan2(Math.sin(M), Math.cos(M));
+          const residual = E - e * Math.sin(E) - wrapped;
+          return (
+            Math.abs(Math.atan2(Math.sin(residual), Math.cos(residual))) <
+            1e-8
+          );
+        },
+      ),
+      // Long before perihelion on a tight parabola
+      { examples: [[1, 0.1, -12143]] },
+    );
+  });
+
+  it("should give periods only for closed orbits", () => {
+    // Halley returns every 75-76 years
+    const halley = getSmallBodyPeriodDays(getBody("1P").elements)!;
+    expect(halley / 365.25).toBeGreaterThan(74);
+    expect(halley / 365.25).toBeLessThan(77);
+    expect(getSmallBodyPeriodDays(makeElements(1))).toBeNull();
+    expect(getSmallBodyPeriodDays(makeElements(1.5))).toBeNull();
+  });
+
+  it("should close elliptic paths and cut open ones at the edge", () => {
+    const eros = getSmallBodyPathPoints(getBody("433").elements, 64);
+    expect(eros).toHaveLength(65);
+    expect(distance(eros[0], eros[64])).toBeLessThan(1e-9);
+
+    const hyperbola = getSmallBodyPathPoints(makeElements(1.5), 64);
+    const radii = hyperbola.map(radius);
+    expect(Math.max(...radii)).toBeCloseTo(SMALL_BODY_PATH_MAX_AU, 6);
+    expect(Math.min(...radii)).toBeGreaterThanOrEqual(1 - 1e-9);
+    expect(distance(hyperbola[0], hyperbola[64])).toBeGreaterThan(1);
+  });
+
+  it("should follow a small body from its own view distance", () => {
+    expect(getSmallBodyFocus(getBody("2P"))).toEqual({
+      name: "2P/Encke",
+      viewDistance: SMALL_BODY_VIEW_DISTANCE,
+    });
+  });
+});
+
+describe("Comet Tails", () => {
+  it("should shorten the tail with distance and drop it far out", () => {
+    fc.assert(
+      fc.property(
+        fc.double({ min: 0.05, max: 10, noNaN: true }),
+        fc.double({ min: 0.01, max: 2, noNaN: true }),
+        (r, step) =>
+          getCometTailLengthAU(r + step) <= getCometTailLengthAU(r),
+      ),
+    );
+    expect(getCometTailLengthAU(1)).toBeGreaterThan(0);
+    expect(getCometTailLengthAU(TAIL_ONSET_AU)).toBe(0);
+  });
+
+  it("should point the tail away from the Sun", () => {
+    const head = { x: 0.3, y: -0.4, z: 0.1 };
+    const end = getCometTailEnd(head)!;
+    const length = getCometTailLengthAU(radius(head));
+    expect(distance(head, end)).toBeCloseTo(length, 9);
+    expect(radius(end)).toBeCloseTo(radius(head) + length, 9);
+    expect(getCometTailEnd({ x: 6, y: 0, z: 0 })).toBeNull();
+  });
+});
+
+describe("Element Import", () => {
+  it("should unpack MPC epochs", () => {
+    expect(unpackMpcEpoch("K24AH")?.toISOString()).toBe(
+      "2024-10-17T00:00:00.000Z",
+    );
+    expect(unpackMpcEpoch("J9611")?.toISOString()).toBe(
+      "1996-01-01T00:00:00.000Z",
+    );
+    expect(unpackMpcEpoch("2024")).toBeNull();
+  });
+
+  it("should read MPC comet and asteroid lines", () => {
+    const result = parseMpcElements(
+      [HALLEY_MPC_LINE, EROS_MPCORB_LINE, "not an orbit"].join("\n"),
+    );
+    expect(result.format).toBe("mpc");
+    expect(result.errors).toEqual([
+      "Line 3: not an MPC comet or asteroid orbit",
+    ]);
+
+    const [halley, eros] = result.bodies;
+    expect(halley).toMatchObject({ id: "1P", name: "1P/Halley" });
+    expect(halley.kind).toBe("comet");
+    expect(halley.elements.perihelionDistanceAU).toBeCloseTo(0.585978, 6);
+    expect(
+      Math.abs(
+        halley.elements.perihelionTime.getTime() -
+          getBody("1P").elements.perihelionTime.getTime(),
+      ),
+    ).toBeLessThan(MS_PER_DAY);
+
+    expect(eros).toMatchObject({ id: "433", name: "433 Eros" });
+    expect(eros.kind).toBe("asteroid");
+    expect(eros.elements.perihelionDistanceAU).toBeCloseTo(
+      1.4581245 * (1 - 0.2228359),
+      6,
+    );
+    // Eros passes perihelion every 643 days; one fell in January 2012
+    const sincePerihelion =
+      (eros.elements.perihelionTime.getTime() -
+        new Date("2012-01-23T00:00:00Z").getTime()) /
+      MS_PER_DAY;
+    const period = 360 / 0.55991517;
+    const offset =
+      sincePerihelion - Math.round(sincePerihelion / period) * period;
+    expect(Math.abs(offset)).toBeLessThan(10);
+  });
+
+  it("should skip an MPCORB header", () => {
+    const text = [
+      "MINOR PLANET CENTER ORBIT DATABASE (MPCORB)",
+      "Des'n     H     G   Epoch     M        Peri.      Node       Incl.",
+      "-".repeat(160),
+      EROS_MPCORB_LINE,
+    ].join("\n");
+    const result = parseMpcElements(text);
+    expect(result.errors).toEqual([]);
+    expect(result.bodies.map((b) => b.name)).toEqual(["433 Eros"]);
+  });
+
+  it("should read SBDB CSV exports", () => {
+    const csv = [
+      "full_name,pdes,e,q,i,om,w,tp",
+      '"   433 Eros (A898 PA)",433,0.2228,1.1332,10.828,304.29,178.93,2455949.9583',
+      '"C/2020 F3 (NEOWISE)",,0.99918,0.29455,128.94,61.01,37.28,2459034.18',
+      "Nowhere,,,,,,,",
+    ].join("\n");
+    const result = parseSmallBodyElements(csv);
+    expect(result.format).toBe("sbdb");
+    expect(result.errors).toEqual(["Line 4: missing or invalid elements"]);
+
+    const [eros, neowise] = result.bodies;
+    expect(eros).toMatchObject({
+      id: "433",
+      name: "433 Eros",
+      kind: "asteroid",
+    });
+    expect(
+      Math.abs(
+        eros.elements.perihelionTime.getTime() -
+          Date.parse("2012-01-23T11:00:00Z"),
+      ),
+    ).toBeLessThan(10_000);
+    expect(neowise).toMatchObject({
+      id: "C/2020 F3",
+      name: "C/2020 F3 (NEOWISE)",
+      kind: "comet",
+    });
+  });
+
+  it("should derive the perihelion time from a mean anomaly", () => {
+    const csv = [
+      "full_name,e,a,i,om,w,ma,epoch",
+      "101955 Bennu (1999 RQ36),0.2037,1.126,6.035,2.061,66.223,101.7039,2455562.5",
+    ].join("\n");
+    const [bennu] = parseSbdbCsv(csv).bodies;
+    expect(bennu.elements.perihelionDistanceAU).toBeCloseTo(1.126 * 0.7963, 6);
+    expect(
+      Math.abs(
+        bennu.elements.perihelionTime.getTime() -
+          getBody("101955").elements.perihelionTime.getTime(),
+      ),
+    ).toBeLessThan(2 * MS_PER_DAY);
+  });
+
+  it("should report missing SBDB columns", () => {
+    const result = parseSbdbCsv("full_name,e,q\nEros,0.2,1.1");
+    expect(result.bodies).toEqual([]);
+    expect(result.errors).toEqual(["Missing columns: i, om, w"]);
+  });
+});
+
+describe("Small-Body Import", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // jsdom's File has no text()
+  const makeFile = (text: string, name: string) =>
+    Object.assign(new File([text], name), { text: async () => text });
+
+  const makeCsv = (count: number) =>
+    [
+      "full_name,pdes,e,q,i,om,w,tp",
+      ...Array.from(
+        { length: count },
+        (_, i) => `Rock ${i},${i},0.1,2,5,10,20,2451545`,
+      ),
+    ].join("\n");
+
+  it("should replace bodies with the same id on import", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const { result } = renderHook(() => useSmallBodies());
+    expect(result.current.bodies).toHaveLength(SMALL_BODIES.length);
+
+    await act(() =>
+      result.current.importFile(
+        makeFile(`${HALLEY_MPC_LINE}\nnonsense`, "CometEls.txt"),
+      ),
+    );
+    expect(result.current.bodies).toHaveLength(SMALL_BODIES.length);
+    expect(result.current.bodies.find((b) => b.id === "1P")?.source).toBe(
+      "mpc",
+    );
+    expect(result.current.importedCount).toBe(1);
+    expect(result.current.lastImport).toMatchObject({
+      fileName: "CometEls.txt",
+      imported: 1,
+    });
+    expect(result.current.lastImport?.errors).toHaveLength(1);
+
+    act(() => result.current.clearImported());
+    expect(result.current.importedCount).toBe(0);
+    expect(result.current.bodies.find((b) => b.id === "1P")?.source).toBe(
+      "bundled",
+    );
+  });
+
+  it("should cap the number of imported bodies", async () => {
+    const { result } = renderHook(() => useSmallBodies());
+    await act(() =>
+      result.current.importFile(
+        makeFile(makeCsv(MAX_IMPORTED_BODIES + 5), "sbdb.csv"),
+      ),
+    );
+    expect(result.current.importedCount).toBe(MAX_IMPORTED_BODIES);
+    expect(result.current.lastImport?.errors).toEqual([
+      `Only the first ${MAX_IMPORTED_BODIES} of ${MAX_IMPORTED_BODIES + 5} bodies were imported`,
+    ]);
+  });
+});
+
+describe("Small-Body Panel", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("should fly to a listed body and import a picked file", () => {
+    const onFlyTo = vi.fn();
+    const onImport = vi.fn();
+    render(
+      <SmallBodyPanel
+        bodies={SMALL_BODIES}
+        followedName="433 Eros"
+        onFlyTo={onFlyTo}
+        onImport={onImport}
+        onClearImported={vi.fn()}
+        importedCount={0}
+        lastImport={{ fileName: "sbdb.csv", imported: 3, errors: ["x"] }}
+      />,
+    );
+    fireEvent.click(screen.getByText("Comets & asteroids"));
+
+    fireEvent.click(screen.getByLabelText("Fly to 1P/Halley"));
+    expect(onFlyTo).toHaveBeenCalledWith(getBody("1P"));
+    expect(screen.getByLabelText("Fly to 433 Eros")).toHaveAttribute(
+      "aria-current",
+      "true",
+    );
+    expect(screen.getByRole("status")).toHaveTextContent(
+      "3 from sbdb.csv, 1 skipped",
+    );
+    expect(screen.queryByText("Remove imported")).not.toBeInTheDocument();
+
+    const file = new File([HALLEY_MPC_LINE], "CometEls.txt");
+    fireEvent.change(screen.getByLabelText("Element file"), {
+      target: { files: [file] },
+    });
+    expect(onImport).toHaveBeenCalledWith(file);
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import fc from "fast-check";
+import { render, screen, fireEvent, cleanup } from "@testing-library/react";
+import { CONSTELLATIONS } from "@/features/star-catalog/data/constellations";
+import {
+  BRIGHT_STARS,
+  MAGNITUDE_LIMIT,
+  OBLIQUITY_J2000_DEG,
+  equatorialToEcliptic,
+  getConstellationSegments,
+  getStarById,
+  getStarColor,
+  getStarPointSize,
+  getStarScenePosition,
+  parseSexagesimal,
+  parseStarRow,
+} from "@/features/star-catalog/domain/star-coordinates";
+import { getSkyBasis } from "@/features/sky-view/domain/sky-coordinates";
+import { ControlModal } from "@/features/planet-modal/ui/control";
+
+const star = (id: string) => getStarById(id)!;
+
+describe("Star Coordinates", () => {
+  it("should read sexagesimal right ascension and declination", () => {
+    expect(parseSexagesimal("06 45 08.9")).toBeCloseTo(6.752472, 6);
+    expect(parseSexagesimal("-16 42 58")).toBeCloseTo(-16.716111, 6);
+    expect(parseSexagesimal("-00 30 00")).toBeCloseTo(-0.5, 9);
+    expect(parseSexagesimal("12 30")).toBeNaN();
+  });
+
+  it("should put the equinoxes and solstices on the ecliptic", () => {
+    const solstice = equatorialToEcliptic(6, OBLIQUITY_J2000_DEG);
+    expect(solstice.longitude).toBeCloseTo(90, 9);
+    expect(solstice.latitude).toBeCloseTo(0, 9);
+    expect(equatorialToEcliptic(0, 0).longitude).toBeCloseTo(0, 9);
+    // The north ecliptic pole lies in Draco at RA 18h
+    expect(
+      equatorialToEcliptic(18, 90 - OBLIQUITY_J2000_DEG).latitude,
+    ).toBeCloseTo(90, 6);
+  });
+
+  it("should place zodiac stars near the ecliptic", () => {
+    const regulus = equatorialToEcliptic(
+      star("α Leo").rightAscension,
+      star("α Leo").declination,
+    );
+    const spica = equatorialToEcliptic(
+      star("α Vir").rightAscension,
+      star("α Vir").declination,
+    );
+    const aldebaran = equatorialToEcliptic(
+      star("α Tau").rightAscension,
+      star("α Tau").declination,
+    );
+    expect(regulus.latitude).toBeCloseTo(0.46, 1);
+    expect(spica.latitude).toBeCloseTo(-2.05, 1);
+    expect(aldebaran.longitude).toBeCloseTo(69.8, 0);
+  });
+
+  it("should keep every star on the sphere and within the magnitude limit", () => {
+    BRIGHT_STARS.forEach((entry) => {
+      const { x, y, z } = getStarScenePosition(entry, 500);
+      expect(Math.hypot(x, y, z)).toBeCloseTo(500, 6);
+      expect(entry.magnitude).toBeLessThanOrEqual(MAGNITUDE_LIMIT);
+    });
+  });
+
+  it("should draw every constellation line between catalogue stars", () => {
+    CONSTELLATIONS.forEach((figure) => {
+      figure.lines.flat().forEach((id) => {
+        expect(getStarById(id), `${figure.name}: ${id}`).toBeDefined();
+      });
+      const segments = figure.lines.reduce(
+        (count, line) => count + line.length - 1,
+        0,
+      );
+      expect(getConstellationSegments(figure, 1)).toHaveLength(segments);
+    });
+  });
+
+  it("should draw brighter stars larger", () => {
+    fc.assert(
+      fc.property(
+        fc.double({ min: -2, max: MAGNITUDE_LIMIT, noNaN: true }),
+        fc.double({ min: -2, max: MAGNITUDE_LIMIT, noNaN: true }),
+        (a, b) =>
+          a <= b ? getStarPointSize(a) >= getStarPointSize(b) : true,
+      ),
+      { numRuns: 300 },
+    );
+    expect(getStarPointSize(star("α CMa").magnitude)).toBeGreaterThan(
+      getStarPointSize(star("α UMi").magnitude),
+    );
+  });
+
+  it("should tint hot stars blue and cool stars orange", () => {
+    const [rigelRed, , rigelBlue] = getStarColor(star("β Ori").colorIndex);
+    const [betelgeuseRed, , betelgeuseBlue] = getStarColor(
+      star("α Ori").colorIndex,
+    );
+    expect(rigelBlue).toBeGreaterThan(rigelRed);
+    expect(betelgeuseRed).toBeGreaterThan(betelgeuseBlue);
+    getStarColor(-5)
+      .concat(getStarColor(5))
+      .forEach((channel) => {
+        expect(channel).toBeGreaterThanOrEqual(0);
+        expect(channel).toBeLessThanOrEqual(1);
+      });
+  });
+
+  it("should skip malformed catalogue rows", () => {
+    const consoleWarn = vi
+      .spyOn(console, "warn")
+      .mockImplementation(() => {});
+    expect(
+      parseStarRow(["α Xyz", "", "25 00 00.0", "+10 00 00", 1, 0]),
+    ).toBeNull();
+    expect(parseStarRow(["Nowhere", "", "01 00 00.0", "+10 00 00", 1, 0]))
+      .toBeNull();
+    expect(consoleWarn).toHaveBeenCalledTimes(2);
+    consoleWarn.mockRestore();
+  });
+
+  it("should raise Polaris to the observer's latitude", () => {
+    const polaris = getStarScenePosition(star("α UMi"), 1);
+    [51.48, 19.8, -10].forEach((latitude) => {
+      const [xAxis, yAxis, zAxis] = getSkyBasis(
+        new Date("2024-01-15T22:00:00Z"),
+        { latitude, longitude: -0.5 },
+      );
+      const up =
+        polaris.x * xAxis.y + polaris.y * yAxis.y + polaris.z * zAxis.y;
+      expect((Math.asin(up) * 180) / Math.PI).toBeCloseTo(latitude, 0);
+    });
+  });
+});
+
+describe("Constellation Toggle", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("should switch constellation figures from the control panel", () => {
+    const onToggleConstellations = vi.fn();
+    render(
+      <ControlModal
+        simulationSpeed={1}
+        onSpeedChange={() => {}}
+        showConstellations={false}
+        onToggleConstellations={onToggleConstellations}
+      />,
+    );
+
+    const toggle = screen.getByRole("switch", {
+      name: "Toggle constellations",
+    });
+    expect(toggle.getAttribute("aria-pressed")).toBe("false");
+    fireEvent.click(toggle);
+    expect(onToggleConstellations).toHaveBeenCalledWith(true);
+  });
+});
@@ -0,0 +1,330 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import fc from "fast-check";
+import {
+  render,
+  renderHook,
+  act,
+  screen,
+  fireEvent,
+  cleanup,
+} from "@testing-library/react";
+import { ControlModal } from "@/features/planet-modal/ui/control";
+import {
+  MAX_SPEED,
+  MIN_SPEED,
+  SimulationSpeedProvider,
+  normalizeSimulationSpeed,
+  useSimulationSpeed,
+} from "@/features/simulation-control/state/rotation-speed-context";
+import {
+  canStepSimulationDate,
+  stepSimulationDate,
+} from "@/features/simulation-control/domain/time-step";
+import { calculateOrbitScenePosition } from "@/features/planet-rendering/domain/kepler-orbit";
+import { planetData } from "@/data/planet-data";
+
+const speedWrapper = ({ children }: { children: React.ReactNode }) => (
+  <SimulationSpeedProvider>{children}</SimulationSpeedProvider>
+);
+
+describe("Signed Simulation Speed", () => {
+  it("should keep the sign and clamp the magnitude", () => {
+    fc.assert(
+      fc.property(
+        fc.double({ min: -1e9, max: 1e9, noNaN: true }),
+        (speed) => {
+          const normalized = normalizeSimulationSpeed(speed);
+          const magnitude = Math.abs(normalized);
+          return (
+            (speed < 0 ? normalized < 0 : normalized > 0) &&
+            magnitude >= MIN_SPEED &&
+            magnitude <= MAX_SPEED
+          );
+        },
+      ),
+      { numRuns: 200 },
+    );
+  });
+
+  it("should round like positive speeds", () => {
+    expect(normalizeSimulationSpeed(-12_345)).toBe(-12_300);
+    expect(normalizeSimulationSpeed(12_345)).toBe(12_300);
+    expect(normalizeSimulationSpeed(-42.4)).toBe(-42);
+  });
+
+  it("should treat zero and invalid speeds as the minimum speed", () => {
+    expect(normalizeSimulationSpeed(0)).toBe(MIN_SPEED);
+    expect(normalizeSimulationSpeed(NaN)).toBe(MIN_SPEED);
+  });
+
+  it("should pause without losing the speed", () => {
+    const { result } = renderHook(() => useSimulationSpeed(), {
+      wrapper: speedWrapper,
+    });
+
+    act(() => {
+      result.current.setSimulationSpeed(-5000);
+    });
+    act(() => {
+      result.current.togglePause();
+    });
+
+    expect(result.current.isPaused).toBe(true);
+    expect(result.current.effectiveSpeed).toBe(0);
+    expect(result.current.simulationSpeed).toBe(-5000);
+
+    act(() => {
+      result.current.setPaused(false);
+    });
+    expect(result.current.effectiveSpeed).toBe(-5000);
+  });
+});
+
+describe("Time Steps", () => {
+  const start = new Date("2024-01-31T12:00:00Z");
+
+  it("should step by an hour and a day in both directions", () => {
+    expect(
+      stepSimulationDate(start, { interval: "hour" }, "forward").toISOString(),
+    ).toBe("2024-01-31T13:00:00.000Z");
+    expect(
+      stepSimulationDate(start, { interval: "day" }, "backward").toISOString(),
+    ).toBe("2024-01-30T12:00:00.000Z");
+  });
+
+  it("should step by calendar months, clamping to the month's last day", () => {
+    expect(
+      stepSimulationDate(start, { interval: "month" }, "forward").toISOString(),
+    ).toBe("2024-02-29T12:00:00.000Z");
+    expect(
+      stepSimulationDate(
+        new Date("2024-03-15T00:00:00Z"),
+        { interval: "month" },
+        "backward",
+      ).toISOString(),
+    ).toBe("2024-02-15T00:00:00.000Z");
+  });
+
+  it("should return to the starting date after stepping forward then back", () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom("hour" as const, "day" as const, "orbit" as const),
+        fc.constantFrom(...planetData),
+        fc
+          .integer({
+            min: new Date("1700-01-01").getTime(),
+            max: new Date("2300-12-31").getTime(),
+          })
+          .map((ts) => new Date(ts)),
+        (interval, planet, date) => {
+          const step = {
+            interval,
+            orbitalPeriodDays: planet.orbitalPeriodDays,
+          };
+          const there = stepSimulationDate(date, step, "forward");
+          const back = stepSimulationDate(there, step, "backward");
+          return back.getTime() === date.getTime();
+        },
+      ),
+      { numRuns: 100 },
+    );
+  });
+
+  it("should bring a planet back to the same place after one orbit step", () => {
+    planetData.forEach((planet) => {
+      const elements = planet.orbitalElements!;
+      const stepped = stepSimulationDate(
+        start,
+        { interval: "orbit", orbitalPeriodDays: planet.orbitalPeriodDays },
+        "backward",
+      );
+      const before = calculateOrbitScenePosition(elements, start, 1000);
+      const after = calculateOrbitScenePosition(elements, stepped, 1000);
+      // Catalogued periods differ from the elements' Kepler period by < 0.1%
+      expect(
+        Math.hypot(before.x - after.x, before.y - after.y, before.z - after.z),
+      ).toBeLessThan(5);
+    });
+  });
+
+  it("should refuse steps that leave 1700-2300", () => {
+    const neptune = planetData.find((p) => p.name === "Neptune")!;
+    const orbit = {
+      interval: "orbit" as const,
+      orbitalPeriodDays: neptune.orbitalPeriodDays,
+    };
+
+    expect(canStepSimulationDate(start, orbit, "forward")).toBe(true);
+    expect(canStepSimulationDate(start, orbit, "backward")).toBe(true);
+    expect(
+      canStepSimulationDate(new Date(2200, 0, 1), orbit, "forward"),
+    ).toBe(false);
+    expect(
+      canStepSimulationDate(
+        new Date(1700, 0, 1),
+        { interval: "day" },
+        "backward",
+      ),
+    ).toBe(false);
+  });
+
+  it("should not step an orbit without a valid period", () => {
+    const spy = vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(
+      stepSimulationDate(start, { interval: "orbit" }, "forward").getTime(),
+    ).toBe(start.getTime());
+    expect(
+      stepSimulationDate(
+        start,
+        { interval: "orbit", orbitalPeriodDays: -1 },
+        "forward",
+      ).getTime(),
+    ).toBe(start.getTime());
+    spy.mockRestore();
+  });
+});
+
+describe("ControlModal time controls", () => {
+  beforeEach(() => {
+    cleanup();
+  });
+
+  it("should flip the sign of the speed with the reverse button", () => {
+    const onSpeedChange = vi.fn();
+    render(
+      <ControlModal
+        simulationSpeed={1000}
+        onSpeedChange={onSpeedChange}
+        onTogglePause={() => {}}
+      />,
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "Reverse time" }));
+    expect(onSpeedChange).toHaveBeenCalledWith(-1000);
+  });
+
+  it("should keep the reversed sign when the slider moves", () => {
+    const onSpeedChange = vi.fn();
+    render(
+      <ControlModal
+        simulationSpeed={-1000}
+        onSpeedChange={onSpeedChange}
+        onTogglePause={() => {}}
+      />,
+    );
+
+    fireEvent.change(screen.getByRole("slider"), { target: { value: "5000" } });
+    expect(onSpeedChange).toHaveBeenCalledWith(-5000);
+    expect(
+      screen.getByRole("button", { name: "Run time forward" }),
+    ).toBeTruthy();
+  });
+
+  it("should accept a negative speed typed into the input", () => {
+    const onSpeedChange = vi.fn();
+    render(<ControlModal simulationSpeed={1} onSpeedChange={onSpeedChange} />);
+
+    const input = screen.getByLabelText("Speed input");
+    fireEvent.change(input, { target: { value: "-86,400" } });
+    fireEvent.blur(input);
+    expect(onSpeedChange).toHaveBeenCalledWith(-86_400);
+  });
+
+  it("should toggle pause", () => {
+    const onTogglePause = vi.fn();
+    const { rerender } = render(
+      <ControlModal
+        simulationSpeed={1}
+        onSpeedChange={() => {}}
+        onTogglePause={onTogglePause}
+      />,
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "Pause" }));
+    expect(onTogglePause).toHaveBeenCalledTimes(1);
+
+    rerender(
+      <ControlModal
+        simulationSpeed={1}
+        onSpeedChange={() => {}}
+        isPaused
+        onTogglePause={onTogglePause}
+      />,
+    );
+    expect(screen.getByRole("button", { name: "Resume" })).toBeTruthy();
+    expect(screen.getByText("(Paused)")).toBeTruthy();
+  });
+
+  it("should step by the chosen interval and planet orbit", () => {
+    const onStep = vi.fn();
+    render(
+      <ControlModal
+        simulationSpeed={1}
+        onSpeedChange={() => {}}
+        onStep={onStep}
+      />,
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "Step forward" }));
+    expect(onStep).toHaveBeenLastCalledWith(
+      "forward",
+      expect.objectContaining({ interval: "day" }),
+    );
+
+    fireEvent.change(screen.getByLabelText("Step interval"), {
+      target: { value: "orbit" },
+    });
+    fireEvent.change(screen.getByLabelText("Orbit step body"), {
+      target: { value: "Mars" },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Step back" }));
+
+    const mars = planetData.find((p) => p.name === "Mars")!;
+    expect(onStep).toHaveBeenLastCalledWith("backward", {
+      interval: "orbit",
+      orbitalPeriodDays: mars.orbitalPeriodDays,
+    });
+  });
+
+  it("should keep stepping available in Date Mode", () => {
+    const onStep = vi.fn();
+    render(
+      <ControlModal
+        simulationSpeed={1}
+        onSpeedChange={() => {}}
+        onTogglePause={() => {}}
+        onStep={onStep}
+        disabled
+      />,
+    );
+
+    expect(
+      (screen.getByRole("button", { name: "Pause" }) as HTMLButtonElement)
+        .disabled,
+    ).toBe(true);
+    fireEvent.click(screen.getByRole("button", { name: "Step forward" }));
+    expect(onStep).toHaveBeenCalledTimes(1);
+  });
+
+  it("should disable step buttons that would leave the accurate range", () => {
+    const onStep = vi.fn();
+    render(
+      <ControlModal
+        simulationSpeed={1}
+        onSpeedChange={() => {}}
+        onStep={onStep}
+        canStep={(direction) => direction === "backward"}
+      />,
+    );
+
+    const forward = screen.getByRole("button", {
+      name: "Step forward",
+    }) as HTMLButtonElement;
+    expect(forward.disabled).toBe(true);
+    fireEvent.click(forward);
+    expect(onStep).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole("button", { name: "Step back" }));
+    expect(onStep).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,290 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import fc from "fast-check";
+import {
+  render,
+  renderHook,
+  act,
+  screen,
+  fireEvent,
+  cleanup,
+  within,
+} from "@testing-library/react";
+import {
+  propagateKepler,
+  solveLambert,
+} from "@/features/transfer-planner/domain/lambert";
+import {
+  TRANSFER_PLANET_NAMES,
+  findLaunchWindows,
+  getHohmannTransfer,
+  getPlanetState,
+  getPorkchopGrid,
+  getTransferArcPoints,
+  getTransferPosition,
+  searchPorkchopGrid,
+  solveTransfer,
+} from "@/features/transfer-planner/domain/transfer-orbit";
+import { useTransferPlanner } from "@/features/transfer-planner/application/useTransferPlanner";
+import { TransferPanel } from "@/features/transfer-planner/ui/transfer-panel";
+
+const MS_PER_DAY = 86_400_000;
+// Perseverance left Earth on 30 July 2020 and reached Mars on 18 February 2021
+const PERSEVERANCE_LAUNCH = new Date("2020-07-30T12:00:00Z");
+const PERSEVERANCE_FLIGHT_DAYS = 203;
+
+const distance = (
+  a: { x: number; y: number; z: number },
+  b: { x: number; y: number; z: number },
+) => Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+
+const planetPair = fc
+  .tuple(
+    fc.constantFrom(...TRANSFER_PLANET_NAMES),
+    fc.constantFrom(...TRANSFER_PLANET_NAMES),
+  )
+  .filter(([from, to]) => from !== to);
+
+describe("Lambert Solver", () => {
+  it("should find a quarter of a circular orbit", () => {
+    const arc = solveLambert(
+      { x: 1, y: 0, z: 0 },
+      { x: 0, y: 1, z: 0 },
+      Math.PI / 2,
+      1,
+    )!;
+    expect(arc.departureVelocity.x).toBeCloseTo(0, 6);
+    expect(arc.departureVelocity.y).toBeCloseTo(1, 6);
+    expect(arc.arrivalVelocity.x).toBeCloseTo(-1, 6);
+    expect(arc.arrivalVelocity.y).toBeCloseTo(0, 6);
+  });
+
+  it("should reach the arrival point when its orbit is propagated", () => {
+    const point = fc.record({
+      radius: fc.double({ min: 0.3, max: 30, noNaN: true }),
+      angle: fc.double({ min: 0.1, max: 2 * Math.PI - 0.1, noNaN: true }),
+      height: fc.double({ min: -0.05, max: 0.05, noNaN: true }),
+    });
+    fc.assert(
+      fc.property(
+        point,
+        fc.double({ min: 0.3, max: 30, noNaN: true }),
+        fc.double({ min: 0.05, max: 3, noNaN: true }),
+        ({ radius, angle, height }, r1, flight) => {
+          fc.pre(Math.abs(angle - Math.PI) > 0.05);
+          const start = { x: r1, y: 0, z: 0 };
+          const end = {
+            x: radius * Math.cos(angle),
+            y: radius * Math.sin(angle),
+            z: radius * height,
+          };
+          // Flight time scaled to the orbit size, from fast hyperbolic arcs
+          // to slow, nearly radial ellipses
+          const tof = flight * Math.pow((r1 + radius) / 2, 1.5);
+          const arc = solveLambert(start, end, tof, 1);
+          if (!arc) return false;
+          const reached = propagateKepler(start, arc.departureVelocity, tof, 1);
+          return distance(reached, end) < 1e-6 * Math.max(r1, radius);
+        },
+      ),
+      { numRuns: 200 },
+    );
+  });
+
+  it("should refuse impossible transfers", () => {
+    expect(
+      solveLambert({ x: 1, y: 0, z: 0 }, { x: -2, y: 0, z: 0 }, 1, 1),
+    ).toBeNull();
+    expect(
+      solveLambert({ x: 1, y: 0, z: 0 }, { x: 0, y: 1, z: 0 }, 0, 1),
+    ).toBeNull();
+  });
+});
+
+describe("Transfer Orbits", () => {
+  it("should give the textbook Hohmann transfer to Mars", () => {
+    const hohmann = getHohmannTransfer("Earth", "Mars")!;
+    expect(hohmann.timeOfFlightDays).toBeCloseTo(259, 0);
+    expect(hohmann.departureDeltaV).toBeCloseTo(2.94, 2);
+    expect(hohmann.arrivalDeltaV).toBeCloseTo(2.65, 2);
+    expect(hohmann.phaseAngle).toBeCloseTo(44.3, 1);
+    expect(hohmann.synodicPeriodDays).toBeCloseTo(780, 0);
+  });
+
+  it("should give the same Hohmann flight in both directions", () => {
+    fc.assert(
+      fc.property(planetPair, ([from, to]) => {
+        const there = getHohmannTransfer(from, to)!;
+        const back = getHohmannTransfer(to, from)!;
+        return (
+          Math.abs(there.timeOfFlightDays - back.timeOfFlightDays) < 1e-9 &&
+          Math.abs(there.departureDeltaV - back.arrivalDeltaV) < 1e-9
+        );
+      }),
+    );
+  });
+
+  it("should match Perseverance's departure energy", () => {
+    const transfer = solveTransfer(
+      "Earth",
+      "Mars",
+      PERSEVERANCE_LAUNCH,
+      PERSEVERANCE_FLIGHT_DAYS,
+    )!;
+    // Launch C3 was 14.5 km²/s²
+    expect(transfer.c3).toBeGreaterThan(14);
+    expect(transfer.c3).toBeLessThan(15);
+
+    const mars = getPlanetState("Mars", transfer.arrival)!.position;
+    expect(
+      distance(getTransferPosition(transfer, transfer.arrival)!, mars),
+    ).toBeLessThan(1e-8);
+    expect(getTransferArcPoints(transfer, 16)).toHaveLength(17);
+    expect(
+      getTransferPosition(
+        transfer,
+        new Date(transfer.departure.getTime() - MS_PER_DAY),
+      ),
+    ).toBeNull();
+  });
+
+  it("should find the Mars launch windows of the 2020s", () => {
+    const windows = findLaunchWindows(
+      "Earth",
+      "Mars",
+      new Date("2020-01-01T00:00:00Z"),
+      new Date("2030-01-01T00:00:00Z"),
+    );
+    expect(windows.map((w) => w.departure.getUTCFullYear())).toEqual([
+      2020, 2022, 2024, 2026, 2028,
+    ]);
+    expect(windows[0].departure.getUTCMonth()).toBe(6);
+    windows.forEach((window) => expect(window.c3).toBeLessThan(20));
+  });
+
+  it("should lay out a porkchop grid around the lowest C3", () => {
+    const grid = getPorkchopGrid(
+      "Earth",
+      "Mars",
+      new Date("2020-05-01T00:00:00Z"),
+      new Date("2020-10-01T00:00:00Z"),
+      12,
+      10,
+    )!;
+    expect(grid.departures).toHaveLength(12);
+    expect(grid.timesOfFlight).toHaveLength(10);
+    expect(grid.c3).toHaveLength(12);
+    grid.c3.forEach((row) => expect(row).toHaveLength(10));
+    const lowest = Math.min(
+      ...grid.c3.flat().filter((value): value is number => value !== null),
+    );
+    expect(grid.best?.c3).toBe(lowest);
+  });
+
+  it("should search a porkchop grid one departure at a time", () => {
+    const start = new Date("2020-05-01T00:00:00Z");
+    const end = new Date("2020-10-01T00:00:00Z");
+    const search = searchPorkchopGrid("Earth", "Mars", start, end, 5, 4);
+
+    let rows = 0;
+    let step = search.next();
+    while (!step.done) {
+      rows++;
+      step = search.next();
+    }
+
+    expect(rows).toBe(5);
+    expect(step.value).toEqual(
+      getPorkchopGrid("Earth", "Mars", start, end, 5, 4),
+    );
+  });
+
+  it("should refuse unknown and identical planets", () => {
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    expect(getHohmannTransfer("Earth", "Earth")).toBeNull();
+    expect(getHohmannTransfer("Earth", "Pluto")).toBeNull();
+    expect(
+      solveTransfer("Earth", "Vulcan", PERSEVERANCE_LAUNCH, 200),
+    ).toBeNull();
+    consoleError.mockRestore();
+  });
+});
+
+describe("Transfer Planner", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("should clear the chosen transfer when the route changes", () => {
+    const consoleWarn = vi
+      .spyOn(console, "warn")
+      .mockImplementation(() => {});
+    const { result } = renderHook(() => useTransferPlanner());
+    const transfer = solveTransfer(
+      "Earth",
+      "Mars",
+      PERSEVERANCE_LAUNCH,
+      PERSEVERANCE_FLIGHT_DAYS,
+    );
+
+    act(() => {
+      result.current.setTransfer(transfer);
+      result.current.setRoute({ from: "Mars", to: "Mars" });
+    });
+    expect(result.current.transfer).toBe(transfer);
+    expect(consoleWarn).toHaveBeenCalled();
+
+    act(() => {
+      result.current.setRoute({ from: "Earth", to: "Venus" });
+    });
+    expect(result.current.route).toEqual({ from: "Earth", to: "Venus" });
+    expect(result.current.transfer).toBeNull();
+    consoleWarn.mockRestore();
+  });
+
+  it("should list launch windows and jump to the chosen launch", async () => {
+    const onTransferSelect = vi.fn();
+    const onDateChange = vi.fn();
+    render(
+      <TransferPanel
+        selectedDate={new Date("2020-01-01T00:00:00Z")}
+        route={{ from: "Earth", to: "Mars" }}
+        transfer={null}
+        onRouteChange={() => {}}
+        onTransferSelect={onTransferSelect}
+        onDateChange={onDateChange}
+        onClose={() => {}}
+      />,
+    );
+
+    expect(
+      within(screen.getByLabelText("Hohmann transfer")).getByText("259 days"),
+    ).toBeTruthy();
+
+    fireEvent.click(screen.getByText("Find launch windows from 2020-01-01"));
+    // The search runs between frames rather than in the click
+    const pending = screen.getByRole("button", {
+      name: "Searching launch windows…",
+    });
+    expect((pending as HTMLButtonElement).disabled).toBe(true);
+    expect(screen.queryByLabelText("Launch windows")).toBeNull();
+
+    expect(
+      await screen.findByRole(
+        "img",
+        { name: /Porkchop plot/ },
+        { timeout: 20_000 },
+      ),
+    ).toBeTruthy();
+    const windows = within(
+      screen.getByLabelText("Launch windows"),
+    ).getAllByRole("button");
+    expect(windows[0].textContent).toContain("2020-07");
+
+    fireEvent.click(windows[0]);
+    const chosen = onTransferSelect.mock.calls[0][0];
+    expect(chosen.to).toBe("Mars");
+    expect(onDateChange).toHaveBeenCalledWith(chosen.departure);
+  }, 30_000);
+});
@@ -1,5 +1,35 @@
-import { describe, expect, it, vi } from "vitest";
-import { fetchPlanetFromUpstream } from "@/features/planet-catalog/server/upstream-client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  fetchPlanetFromUpstream,
+  type UpstreamFetch,
+} from "@/features/planet-catalog/server/upstream-client";
+import {
+  createUpstreamFetcher,
+  resetUpstreamState,
+  type UpstreamFetcherOptions,
+} from "@/features/planet-catalog/server/upstream-providers";
+import {
+  DEFAULT_RETRY_OPTIONS,
+  getRetryDelay,
+} from "@/features/planet-catalog/server/upstream-resilience";
+import {
+  UPSTREAM_FRESH_MS,
+  UPSTREAM_STALE_MS,
+  type UpstreamCache,
+} from "@/features/planet-catalog/server/upstream-cache";
+import {
+  createKVRateLimitStore,
+  createMemoryRateLimitStore,
+  createRateLimiter,
+  type KVNamespaceLike,
+} from "@/features/planet-catalog/server/rate-limiter";
+import {
+  getClientIp,
+  isOriginAllowed,
+  resetRateLimiter,
+  setRateLimitStore,
+} from "@/features/planet-catalog/server/request-guard";
+import { GET } from "@/features/planet-catalog/server/route";
 
 describe("fetchPlanetFromUpstream", () => {
   it("sends Authorization header when apiKey exists", async () => {
@@ -44,3 +74,553 @@ describe("fetchPlanetFromUpstream", () => {
     expect(mockFetch).toHaveBeenCalledTimes(1);
   });
 });
+
+const CERES_URL = "https://ssd-api.jpl.nasa.gov/sbdb.api?sstr=1&phys-par=1";
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), { status });
+}
+
+/**
+ * Fetcher with a fake upstream, clock and sleep; retry delays are recorded
+ */
+function createTestFetcher(
+  fetchImpl: UpstreamFetch,
+  options: Partial<UpstreamFetcherOptions> = {},
+) {
+  const clock = { time: 1_000_000 };
+  const delays: number[] = [];
+  const fetcher = createUpstreamFetcher({
+    fetchImpl,
+    now: () => clock.time,
+    sleep: async (ms) => {
+      delays.push(ms);
+    },
+    random: () => 1,
+    ...options,
+  });
+  return { fetcher, clock, delays };
+}
+
+describe("createUpstreamFetcher", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("Retries", () => {
+    it("retries server errors with exponential backoff", async () => {
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValueOnce(jsonResponse({}, 503))
+        .mockResolvedValueOnce(jsonResponse({}, 500))
+        .mockResolvedValueOnce(
+          jsonResponse({ object: { fullname: "1 Ceres" } }),
+        );
+      const { fetcher, delays } = createTestFetcher(mockFetch);
+
+      const result = await fetcher.fetchBody("jpl-sbdb", "ceres");
+
+      expect(result).toEqual({
+        ok: true,
+        data: { object: { fullname: "1 Ceres" } },
+        cache: "miss",
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(mockFetch.mock.calls[0][0]).toBe(CERES_URL);
+      expect(delays).toEqual([
+        DEFAULT_RETRY_OPTIONS.baseDelayMs,
+        DEFAULT_RETRY_OPTIONS.baseDelayMs * 2,
+      ]);
+    });
+
+    it("gives up with a coded error once retries run out", async () => {
+      const mockFetch = vi.fn().mockResolvedValue(jsonResponse({}, 503));
+      const { fetcher } = createTestFetcher(mockFetch);
+
+      const result = await fetcher.fetchBody("jpl-sbdb", "ceres");
+
+      expect(result).toEqual({
+        ok: false,
+        status: 503,
+        code: "UPSTREAM_ERROR",
+        error: "API returned status 503",
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(
+        DEFAULT_RETRY_OPTIONS.retries + 1,
+      );
+    });
+
+    it("does not retry client errors", async () => {
+      const notFound = vi.fn().mockResolvedValue(jsonResponse({}, 404));
+      const unauthorized = vi.fn().mockResolvedValue(jsonResponse({}, 401));
+
+      const missing = await createTestFetcher(notFound).fetcher.fetchBody(
+        "jpl-sbdb",
+        "ceres",
+      );
+      const denied = await createTestFetcher(unauthorized).fetcher.fetchBody(
+        "jpl-sbdb",
+        "ceres",
+      );
+
+      expect(missing).toMatchObject({ status: 404, code: "UPSTREAM_ERROR" });
+      expect(denied).toMatchObject({
+        status: 502,
+        code: "UPSTREAM_AUTH_FAILED",
+      });
+      expect(notFound).toHaveBeenCalledTimes(1);
+      expect(unauthorized).toHaveBeenCalledTimes(1);
+    });
+
+    it("aborts and retries attempts that time out", async () => {
+      // Never answers; rejects when the attempt is aborted
+      const hangingFetch = vi.fn(
+        (_url: RequestInfo | URL, init?: RequestInit) =>
+          new Promise<Response>((_resolve, reject) => {
+            init?.signal?.addEventListener("abort", () =>
+              reject(
+                Object.assign(new Error("Aborted"), { name: "AbortError" }),
+              ),
+            );
+          }),
+      );
+      const { fetcher } = createTestFetcher(hangingFetch, {
+        attemptTimeoutMs: 5,
+      });
+
+      const result = await fetcher.fetchBody("jpl-sbdb", "ceres");
+
+      expect(result).toMatchObject({ status: 504, code: "UPSTREAM_TIMEOUT" });
+      expect(hangingFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("reports network errors as unreachable", async () => {
+      const mockFetch = vi.fn().mockRejectedValue(new TypeError("fetch failed"));
+      const { fetcher } = createTestFetcher(mockFetch, {
+        retry: { ...DEFAULT_RETRY_OPTIONS, retries: 0 },
+      });
+
+      expect(await fetcher.fetchBody("jpl-sbdb", "ceres")).toMatchObject({
+        status: 500,
+        code: "UPSTREAM_UNREACHABLE",
+      });
+    });
+
+    it("stops retrying when the time budget is spent", async () => {
+      const mockFetch = vi.fn().mockResolvedValue(jsonResponse({}, 503));
+      const { fetcher, delays } = createTestFetcher(mockFetch, {
+        totalTimeoutMs: DEFAULT_RETRY_OPTIONS.baseDelayMs * 2,
+      });
+
+      await fetcher.fetchBody("jpl-sbdb", "ceres");
+
+      // The second retry's 500 ms delay would pass the deadline
+      expect(delays).toEqual([DEFAULT_RETRY_OPTIONS.baseDelayMs]);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("Server cache", () => {
+    it("serves fresh copies without calling upstream", async () => {
+      const mockFetch = vi.fn().mockImplementation(async () =>
+        jsonResponse({ object: { fullname: "1 Ceres" } }),
+      );
+      const { fetcher, clock } = createTestFetcher(mockFetch);
+
+      await fetcher.fetchBody("jpl-sbdb", "ceres");
+      const cached = await fetcher.fetchBody("jpl-sbdb", "ceres");
+      clock.time += UPSTREAM_FRESH_MS;
+      const refetched = await fetcher.fetchBody("jpl-sbdb", "ceres");
+
+      expect(cached).toMatchObject({ ok: true, cache: "hit" });
+      expect(refetched).toMatchObject({ ok: true, cache: "miss" });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("serves stale copies when the upstream fails", async () => {
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValueOnce(
+          jsonResponse({ object: { fullname: "1 Ceres" } }),
+        )
+        .mockResolvedValue(jsonResponse({}, 502));
+      const { fetcher, clock } = createTestFetcher(mockFetch);
+
+      const storedAt = clock.time;
+      await fetcher.fetchBody("jpl-sbdb", "ceres");
+      clock.time += UPSTREAM_FRESH_MS * 2;
+      const stale = await fetcher.fetchBody("jpl-sbdb", "ceres");
+      clock.time = storedAt + UPSTREAM_STALE_MS;
+      const expired = await fetcher.fetchBody("jpl-sbdb", "ceres");
+
+      expect(stale).toMatchObject({
+        ok: true,
+        cache: "stale",
+        storedAt,
+        data: { object: { fullname: "1 Ceres" } },
+        failure: { status: 502, code: "UPSTREAM_ERROR" },
+      });
+      expect(expired).toMatchObject({ ok: false, code: "UPSTREAM_ERROR" });
+    });
+
+    it("keeps serving when the cache itself fails", async () => {
+      const brokenCache: UpstreamCache = {
+        get: () => Promise.reject(new Error("Cache unavailable")),
+        put: () => Promise.reject(new Error("Cache unavailable")),
+        clear: () => Promise.resolve(),
+      };
+      const mockFetch = vi.fn().mockResolvedValue(jsonResponse({ id: "ceres" }));
+      const { fetcher } = createTestFetcher(mockFetch, { cache: brokenCache });
+
+      expect(await fetcher.fetchBody("jpl-sbdb", "ceres")).toMatchObject({
+        ok: true,
+        cache: "miss",
+      });
+    });
+  });
+
+  describe("Circuit breaker", () => {
+    const breakerOptions = {
+      retry: { ...DEFAULT_RETRY_OPTIONS, retries: 0 },
+      circuitBreaker: { failureThreshold: 2, cooldownMs: 30000 },
+    };
+
+    it("short-circuits while the upstream is down, then tries again", async () => {
+      const mockFetch = vi.fn().mockResolvedValue(jsonResponse({}, 500));
+      const { fetcher, clock } = createTestFetcher(mockFetch, breakerOptions);
+
+      await fetcher.fetchBody("jpl-sbdb", "ceres");
+      await fetcher.fetchBody("jpl-sbdb", "pluto");
+      expect(fetcher.getCircuitState("jpl-sbdb")).toBe("open");
+      // Each upstream has its own circuit
+      expect(fetcher.getCircuitState("le-systeme-solaire")).toBe("closed");
+
+      clock.time += 10000;
+      const shortCircuited = await fetcher.fetchBody("jpl-sbdb", "eris");
+      expect(shortCircuited).toEqual({
+        ok: false,
+        status: 503,
+        code: "CIRCUIT_OPEN",
+        error: "Upstream is unavailable; requests are paused",
+        retryAfterSeconds: 20,
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      clock.time += 20000;
+      expect(fetcher.getCircuitState("jpl-sbdb")).toBe("half-open");
+      mockFetch.mockResolvedValue(jsonResponse({ id: "eris" }));
+      expect(await fetcher.fetchBody("jpl-sbdb", "eris")).toMatchObject({
+        ok: true,
+      });
+      expect(fetcher.getCircuitState("jpl-sbdb")).toBe("closed");
+    });
+
+    it("reopens when the trial request fails", async () => {
+      const mockFetch = vi.fn().mockResolvedValue(jsonResponse({}, 500));
+      const { fetcher, clock } = createTestFetcher(mockFetch, breakerOptions);
+
+      await fetcher.fetchBody("jpl-sbdb", "ceres");
+      await fetcher.fetchBody("jpl-sbdb", "ceres");
+      clock.time += 30000;
+      await fetcher.fetchBody("jpl-sbdb", "ceres");
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(fetcher.getCircuitState("jpl-sbdb")).toBe("open");
+    });
+
+    it("does not count client errors as an outage", async () => {
+      const mockFetch = vi.fn().mockResolvedValue(jsonResponse({}, 404));
+      const { fetcher } = createTestFetcher(mockFetch, breakerOptions);
+
+      for (let i = 0; i < 4; i++) {
+        await fetcher.fetchBody("jpl-sbdb", "ceres");
+      }
+
+      expect(fetcher.getCircuitState("jpl-sbdb")).toBe("closed");
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe("Coalescing", () => {
+    it("shares one upstream request between concurrent lookups", async () => {
+      let respond: ((response: Response) => void) | undefined;
+      const mockFetch = vi.fn().mockImplementation(
+        () => new Promise<Response>((resolve) => (respond = resolve)),
+      );
+      const { fetcher } = createTestFetcher(mockFetch);
+
+      const first = fetcher.fetchBody("jpl-sbdb", "ceres");
+      const second = fetcher.fetchBody("jpl-sbdb", "ceres");
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1));
+      respond?.(jsonResponse({ object: { fullname: "1 Ceres" } }));
+
+      expect(await first).toEqual(await second);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("fetches again once the shared request has settled", async () => {
+      const mockFetch = vi.fn().mockResolvedValue(jsonResponse({}, 404));
+      const { fetcher } = createTestFetcher(mockFetch);
+
+      await Promise.all([
+        fetcher.fetchBody("jpl-sbdb", "ceres"),
+        fetcher.fetchBody("jpl-sbdb", "ceres"),
+      ]);
+      await fetcher.fetchBody("jpl-sbdb", "ceres");
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("Backoff", () => {
+    it("doubles each retry up to the cap, with jitter down to half", () => {
+      const options = { retries: 5, baseDelayMs: 100, maxDelayMs: 350 };
+
+      expect(getRetryDelay(0, options, () => 1)).toBe(100);
+      expect(getRetryDelay(1, options, () => 1)).toBe(200);
+      expect(getRetryDelay(2, options, () => 1)).toBe(350);
+      expect(getRetryDelay(1, options, () => 0)).toBe(100);
+    });
+  });
+
+  describe("Route", () => {
+    beforeEach(async () => {
+      await resetUpstreamState();
+      resetRateLimiter();
+      vi.stubEnv("SOLAR_SYSTEM_API_KEY", "test-key");
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      vi.unstubAllEnvs();
+    });
+
+    const call = (name: string, headers?: HeadersInit) =>
+      GET(new Request(`http://localhost/api/planets/${name}`, { headers }), {
+        params: Promise.resolve({ name }),
+      });
+
+    it("answers repeat requests from the server cache", async () => {
+      const mockFetch = vi.fn().mockImplementation(async () =>
+        jsonResponse({ id: "mars" }),
+      );
+      vi.stubGlobal("fetch", mockFetch);
+
+      const first = await call("mars");
+      const second = await call("mars");
+
+      expect(first.headers.get("X-Cache")).toBe("MISS");
+      expect(second.headers.get("X-Cache")).toBe("HIT");
+      expect(await second.json()).toEqual({ id: "mars" });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("sends error codes in the body", async () => {
+      vi.stubEnv("SOLAR_SYSTEM_API_KEY", "");
+
+      const response = await call("mars");
+
+      expect(response.status).toBe(500);
+      expect(await response.json()).toEqual({
+        error: "Server secret SOLAR_SYSTEM_API_KEY is not configured",
+        code: "MISSING_API_KEY",
+      });
+    });
+
+    it("limits each client to its own token bucket", async () => {
+      vi.stubGlobal(
+        "fetch",
+        vi.fn().mockImplementation(async () => jsonResponse({ id: "mars" })),
+      );
+      vi.stubEnv("API_CLIENT_IP_HEADER", "CF-Connecting-IP");
+      setRateLimitStore(createMemoryRateLimitStore(), {
+        capacity: 2,
+        refillPerSecond: 0.5,
+      });
+      const client = { "CF-Connecting-IP": "203.0.113.7" };
+
+      const first = await call("mars", client);
+      await call("mars", client);
+      const limited = await call("mars", client);
+      const other = await call("mars", { "CF-Connecting-IP": "203.0.113.8" });
+
+      // Shared caches keep successes, so they carry no per-client headers
+      expect(first.headers.get("Cache-Control")).toContain("public");
+      expect(first.headers.get("X-RateLimit-Limit")).toBeNull();
+      expect(limited.status).toBe(429);
+      expect(limited.headers.get("Retry-After")).toBe("2");
+      expect(limited.headers.get("X-RateLimit-Remaining")).toBe("0");
+      expect(limited.headers.get("Cache-Control")).toBe("no-store");
+      expect(await limited.json()).toEqual({
+        error: "Too many requests",
+        code: "RATE_LIMITED",
+        retryAfterSeconds: 2,
+      });
+      expect(other.status).toBe(200);
+    });
+
+    it("puts clients it cannot identify in one shared bucket", async () => {
+      vi.stubGlobal(
+        "fetch",
+        vi.fn().mockImplementation(async () => jsonResponse({ id: "mars" })),
+      );
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      setRateLimitStore(createMemoryRateLimitStore(), {
+        capacity: 1,
+        refillPerSecond: 0.01,
+      });
+
+      // No trusted header is configured, so spoofed ones do not count
+      const first = await call("mars", { "CF-Connecting-IP": "203.0.113.7" });
+      const second = await call("mars", { "CF-Connecting-IP": "203.0.113.8" });
+
+      expect(first.status).toBe(200);
+      expect(second.status).toBe(429);
+    });
+
+    it("refuses origins that are not allowed once a list is set", async () => {
+      vi.stubGlobal(
+        "fetch",
+        vi.fn().mockImplementation(async () => jsonResponse({ id: "mars" })),
+      );
+      vi.stubEnv("API_ALLOWED_ORIGINS", "https://solar.example");
+
+      const refused = await call("mars", { Origin: "https://evil.example" });
+      const allowed = await call("mars", { Origin: "https://solar.example" });
+
+      expect(refused.status).toBe(403);
+      expect(await refused.json()).toMatchObject({
+        code: "ORIGIN_NOT_ALLOWED",
+      });
+      expect(allowed.status).toBe(200);
+    });
+  });
+});
+
+describe("Request guard", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const request = (headers: HeadersInit) =>
+    new Request("https://solar.example/api/planets/mars", { headers });
+
+  it("reads the client IP only from the trusted header", () => {
+    const spoofed = request({
+      "CF-Connecting-IP": "203.0.113.7",
+      "X-Forwarded-For": "198.51.100.9, 198.51.100.1",
+      "X-Real-IP": "192.0.2.4",
+    });
+
+    expect(getClientIp(spoofed)).toBeNull();
+    expect(getClientIp(spoofed, "CF-Connecting-IP")).toBe("203.0.113.7");
+    // The nearest proxy appends the address it saw
+    expect(getClientIp(spoofed, "X-Forwarded-For")).toBe("198.51.100.1");
+    expect(getClientIp(request({}), "X-Real-IP")).toBeNull();
+
+    vi.stubEnv("API_CLIENT_IP_HEADER", "X-Real-IP");
+    expect(getClientIp(spoofed)).toBe("192.0.2.4");
+    vi.stubEnv("API_CLIENT_IP_HEADER", "");
+    vi.stubEnv("VERCEL", "1");
+    expect(getClientIp(spoofed)).toBe("192.0.2.4");
+  });
+
+  it("allows only listed origins", () => {
+    const allowed = ["https://solar.example", "https://partner.example"];
+
+    expect(isOriginAllowed(request({ Origin: "https://evil.example" }), null))
+      .toBe(true);
+    expect(
+      isOriginAllowed(request({ Origin: "https://solar.example" }), allowed),
+    ).toBe(true);
+    expect(
+      isOriginAllowed(
+        request({ Referer: "https://partner.example/page" }),
+        allowed,
+      ),
+    ).toBe(true);
+    expect(
+      isOriginAllowed(request({ "Sec-Fetch-Site": "same-origin" }), allowed),
+    ).toBe(false);
+    expect(
+      isOriginAllowed(request({ Origin: "https://evil.example" }), allowed),
+    ).toBe(false);
+    expect(isOriginAllowed(request({}), allowed)).toBe(false);
+  });
+});
+
+describe("createRateLimiter", () => {
+  const options = { capacity: 3, refillPerSecond: 1 };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("refills tokens over time", async () => {
+    const clock = { time: 0 };
+    const limiter = createRateLimiter(
+      createMemoryRateLimitStore(() => clock.time),
+      options,
+      () => clock.time,
+    );
+
+    expect((await limiter.consume("a", 3)).remaining).toBe(0);
+    expect(await limiter.consume("a")).toMatchObject({
+      allowed: false,
+      retryAfterSeconds: 1,
+    });
+    clock.time += 1500;
+    expect(await limiter.consume("a")).toMatchObject({
+      allowed: true,
+      remaining: 0,
+    });
+    expect((await limiter.consume("b")).remaining).toBe(2);
+  });
+
+  it("keeps buckets in a KV namespace", async () => {
+    const values = new Map<string, string>();
+    const namespace: KVNamespaceLike = {
+      get: async (key) => {
+        const value = values.get(key);
+        return value === undefined ? null : JSON.parse(value);
+      },
+      put: vi.fn(async (key: string, value: string) => {
+        values.set(key, value);
+      }),
+    };
+    const limiter = createRateLimiter(
+      createKVRateLimitStore(namespace),
+      options,
+      () => 0,
+    );
+
+    await limiter.consume("203.0.113.7", 2);
+    const decision = await limiter.consume("203.0.113.7", 2);
+
+    expect(decision).toMatchObject({ allowed: false, remaining: 1 });
+    expect(namespace.put).toHaveBeenCalledWith(
+      "rate-limit:203.0.113.7",
+      JSON.stringify({ tokens: 1, updatedAt: 0 }),
+      { expirationTtl: 60 },
+    );
+  });
+
+  it("lets requests through when the store fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const limiter = createRateLimiter(
+      {
+        get: async () => {
+          throw new Error("KV unavailable");
+        },
+        put: async () => {},
+      },
+      options,
+    );
+
+    expect(await limiter.consume("a", 3)).toMatchObject({ allowed: true });
+  });
+});
@@ -0,0 +1,363 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import fc from "fast-check";
+import type { ReactNode } from "react";
+import {
+  render,
+  renderHook,
+  act,
+  screen,
+  fireEvent,
+  cleanup,
+} from "@testing-library/react";
+import { createRoot, extend } from "@react-three/fiber";
+import {
+  Group,
+  LineLoop,
+  Mesh,
+  MeshBasicMaterial,
+  RingGeometry,
+  SphereGeometry,
+  Vector3,
+  type BufferGeometry,
+  type Scene,
+} from "three";
+import {
+  SCALE_MODES,
+  SCALE_STRATEGIES,
+  blendScaleStrategies,
+  getScaleStrategy,
+  getScaleTransition,
+  getScaledBodyRadius,
+  scaleHeliocentricPosition,
+  type ScaleMode,
+  type ScaleStrategy,
+} from "@/features/view-scale/domain/scale-strategy";
+import {
+  addScaleMorph,
+  getScaleMorphInfluences,
+} from "@/features/view-scale/domain/scale-morph";
+import {
+  SCALE_TRANSITION_MS,
+  useScaleTransition,
+} from "@/features/view-scale/application/useScaleTransition";
+import {
+  getBeltViewDistance,
+  getViewDistance,
+} from "@/features/camera-control/domain/camera-flight";
+import { ControlModal } from "@/features/planet-modal/ui/control";
+import { Planet } from "@/features/planet-rendering/ui/planet/index";
+import { OrbitPath } from "@/features/planet-rendering/ui/planet/orbit-path";
+import { createSimulationClock } from "@/features/simulation-control/domain/simulation-clock";
+import { planetData, sunData } from "@/data/planet-data";
+import { dwarfPlanetData } from "@/data/dwarf-planet-data";
+import { BELT_DATA } from "@/features/belt-regions/data/belt-data";
+import { MOON_DATA } from "@/features/moons/data/moon-data";
+
+const strategy = fc.constantFrom(
+  ...SCALE_MODES.map((mode) => SCALE_STRATEGIES[mode]),
+);
+const distanceAU = fc.double({ min: 0.01, max: 100, noNaN: true });
+
+const mercury = planetData.find((planet) => planet.name === "Mercury")!;
+const neptune = planetData.find((planet) => planet.name === "Neptune")!;
+const earth = planetData.find((planet) => planet.name === "Earth")!;
+
+extend({ Group, LineLoop, Mesh, MeshBasicMaterial, SphereGeometry });
+
+/**
+ * Render into a scene without WebGL: the renderer only has to exist
+ */
+async function renderScene(element: ReactNode) {
+  const root = createRoot(document.createElement("canvas"));
+  const renderer = { render() {}, setSize() {}, setPixelRatio() {} };
+  let scene: Scene | undefined;
+  await act(async () => {
+    await root.configure({
+      gl: renderer,
+      frameloop: "never",
+      size: { width: 100, height: 100, top: 0, left: 0 },
+      onCreated: (state) => {
+        scene = state.scene;
+      },
+    });
+    root.render(element);
+  });
+  return { root, scene: scene! };
+}
+
+/**
+ * Distance from Earth to the Moon in the scene, with Earth drawn under a
+ * scale
+ */
+async function getMoonSceneDistance(scale: ScaleStrategy): Promise<number> {
+  const { root, scene } = await renderScene(
+    <Planet
+      planet={earth}
+      simulationSpeed={0}
+      onClick={() => {}}
+      showLabels={false}
+      showOrbitPath={false}
+      clock={createSimulationClock(new Date("2024-03-01T00:00:00Z"), 0)}
+      simulationMode="date"
+      scale={scale}
+    />,
+  );
+  const earthPosition = new Vector3();
+  const moonPosition = new Vector3();
+  scene.updateMatrixWorld(true);
+  scene.getObjectByName("Earth")!.getWorldPosition(earthPosition);
+  scene.getObjectByName("Moon")!.getWorldPosition(moonPosition);
+  await act(async () => root.unmount());
+  return moonPosition.distanceTo(earthPosition);
+}
+
+describe("Scale Strategies", () => {
+  it("should keep bodies in their order from the Sun", () => {
+    fc.assert(
+      fc.property(strategy, distanceAU, distanceAU, (scale, a, b) => {
+        const [near, far] = a < b ? [a, b] : [b, a];
+        return scale.distanceToUnits(near) <= scale.distanceToUnits(far);
+      }),
+      { numRuns: 300 },
+    );
+  });
+
+  it("should draw 1 AU as 1000 units at true scale", () => {
+    expect(SCALE_STRATEGIES.true.distanceToUnits(1)).toBe(1000);
+    expect(getScaledBodyRadius(sunData, SCALE_STRATEGIES.true)).toBe(109.2);
+  });
+
+  it("should keep Mercury's perihelion outside the Sun under every scale", () => {
+    const perihelionAU = mercury.distanceInAU * (1 - mercury.eccentricity);
+    SCALE_MODES.forEach((mode) => {
+      const scale = SCALE_STRATEGIES[mode];
+      expect(scale.distanceToUnits(perihelionAU)).toBeGreaterThan(
+        getScaledBodyRadius(sunData, scale) +
+          getScaledBodyRadius(mercury, scale),
+      );
+    });
+  });
+
+  it("should bring Neptune closer than true scale in the compressed scales", () => {
+    const trueDistance = SCALE_STRATEGIES.true.distanceToUnits(
+      neptune.distanceInAU,
+    );
+    expect(
+      SCALE_STRATEGIES.log.distanceToUnits(neptune.distanceInAU),
+    ).toBeLessThan(trueDistance);
+    expect(
+      SCALE_STRATEGIES["fit-screen"].distanceToUnits(neptune.distanceInAU),
+    ).toBeLessThan(trueDistance / 5);
+  });
+
+  it("should move positions along their direction from the Sun", () => {
+    const coordinate = fc.double({ min: -50, max: 50, noNaN: true });
+    fc.assert(
+      fc.property(
+        strategy,
+        coordinate,
+        coordinate,
+        coordinate,
+        (scale, x, y, z) => {
+          const r = Math.hypot(x, y, z);
+          fc.pre(r > 0.01);
+          const scaled = scaleHeliocentricPosition({ x, y, z }, scale);
+          const scaledR = Math.hypot(scaled.x, scaled.y, scaled.z);
+          return (
+            Math.abs(scaledR - scale.distanceToUnits(r)) < scaledR * 1e-9 &&
+            Math.abs(scaled.x / scaledR - x / r) < 1e-9 &&
+            Math.abs(scaled.y / scaledR - y / r) < 1e-9 &&
+            Math.abs(scaled.z / scaledR - z / r) < 1e-9
+          );
+        },
+      ),
+      { numRuns: 300 },
+    );
+    expect(
+      scaleHeliocentricPosition({ x: 0, y: 0, z: 0 }, SCALE_STRATEGIES.log),
+    ).toEqual({ x: 0, y: 0, z: 0 });
+  });
+
+  it("should blend from one scale to the other", () => {
+    fc.assert(
+      fc.property(strategy, strategy, distanceAU, (from, to, r) => {
+        const start = blendScaleStrategies(from, to, 0);
+        const middle = blendScaleStrategies(from, to, 0.5);
+        const low = Math.min(from.distanceToUnits(r), to.distanceToUnits(r));
+        const high = Math.max(from.distanceToUnits(r), to.distanceToUnits(r));
+        return (
+          Math.abs(start.distanceToUnits(r) - from.distanceToUnits(r)) <
+            1e-9 &&
+          start.bodySizeScale === from.bodySizeScale &&
+          middle.distanceToUnits(r) >= low - 1e-9 &&
+          middle.distanceToUnits(r) <= high + 1e-9 &&
+          blendScaleStrategies(from, to, 1) === to
+        );
+      }),
+      { numRuns: 200 },
+    );
+  });
+
+  it("should fall back to true scale for an unknown mode", () => {
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    expect(getScaleStrategy("wide" as ScaleMode)).toBe(SCALE_STRATEGIES.true);
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  it("should frame bodies and belts as drawn", () => {
+    [...planetData, ...dwarfPlanetData].forEach((body) => {
+      expect(getViewDistance(body, SCALE_STRATEGIES.exaggerated)).toBeCloseTo(
+        getViewDistance(body) * 50,
+        9,
+      );
+    });
+    const moon = MOON_DATA[0];
+    expect(getScaledBodyRadius(moon, SCALE_STRATEGIES.exaggerated)).toBe(
+      moon.diameterRelativeEarth,
+    );
+    BELT_DATA.forEach((belt) => {
+      expect(
+        getBeltViewDistance(belt, SCALE_STRATEGIES["fit-screen"]),
+      ).toBeLessThanOrEqual(getBeltViewDistance(belt));
+    });
+  });
+});
+
+describe("Moons under a view scale", () => {
+  it("should keep a moon's distance from its planet under every scale", async () => {
+    const trueDistance = await getMoonSceneDistance(SCALE_STRATEGIES.true);
+    expect(trueDistance).toBeGreaterThan(50);
+
+    for (const mode of SCALE_MODES) {
+      expect(await getMoonSceneDistance(SCALE_STRATEGIES[mode])).toBeCloseTo(
+        trueDistance,
+        6,
+      );
+    }
+  });
+});
+
+describe("Scale Transition", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    cleanup();
+  });
+
+  it("should animate to the new scale and settle on it", () => {
+    vi.useFakeTimers({
+      toFake: ["requestAnimationFrame", "cancelAnimationFrame", "performance"],
+    });
+    const { result } = renderHook(() => useScaleTransition());
+    expect(result.current.scale).toBe(SCALE_STRATEGIES.true);
+
+    act(() => {
+      result.current.setScaleMode("exaggerated");
+    });
+    expect(result.current.scaleMode).toBe("exaggerated");
+
+    act(() => {
+      vi.advanceTimersByTime(SCALE_TRANSITION_MS / 2);
+    });
+    const midway = result.current.scale.bodySizeScale;
+    expect(midway).toBeGreaterThan(1);
+    expect(midway).toBeLessThan(50);
+
+    act(() => {
+      vi.advanceTimersByTime(SCALE_TRANSITION_MS);
+    });
+    expect(result.current.scale).toBe(SCALE_STRATEGIES.exaggerated);
+  });
+
+  it("should blend two ring shapes to the shape part way through", () => {
+    const belt = BELT_DATA[0];
+    const from = SCALE_STRATEGIES.true;
+    const to = SCALE_STRATEGIES.log;
+    const createRing = (scale: ScaleStrategy) =>
+      new RingGeometry(
+        scale.distanceToUnits(belt.innerRadiusAU),
+        scale.distanceToUnits(belt.outerRadiusAU),
+        16,
+      );
+    const morph = addScaleMorph(createRing(to), createRing(from));
+
+    [0, 0.3, 1].forEach((progress) => {
+      const blended = blendScaleStrategies(from, to, progress);
+      const [influence] = getScaleMorphInfluences(blended);
+      const base = morph.getAttribute("position");
+      const target = morph.morphAttributes.position[0];
+      const expected = createRing(blended).getAttribute("position");
+      for (let i = 0; i < base.count; i++) {
+        const x = base.getX(i) * (1 - influence) + target.getX(i) * influence;
+        expect(x).toBeCloseTo(expected.getX(i), 2);
+      }
+    });
+    expect(getScaleTransition(from)).toEqual({ from, to: from, progress: 1 });
+  });
+
+  it("should build an orbit's geometry once per switch, not per frame", async () => {
+    const from = SCALE_STRATEGIES.true;
+    const to = SCALE_STRATEGIES["fit-screen"];
+    const { root, scene } = await renderScene(
+      <OrbitPath planet={neptune} scale={from} />,
+    );
+    const line = () => scene.children[0] as LineLoop;
+    const settled = line().geometry;
+    expect(settled.morphAttributes.position).toBeUndefined();
+
+    const frames: { geometry: BufferGeometry; influences?: number[] }[] = [];
+    for (const progress of [0.1, 0.5, 0.9]) {
+      await act(async () => {
+        root.render(
+          <OrbitPath
+            planet={neptune}
+            scale={blendScaleStrategies(from, to, progress)}
+          />,
+        );
+      });
+      frames.push({
+        geometry: line().geometry,
+        influences: line().morphTargetInfluences,
+      });
+    }
+    await act(async () => {
+      root.render(<OrbitPath planet={neptune} scale={to} />);
+    });
+
+    expect(frames[0].geometry).not.toBe(settled);
+    frames.forEach((frame) => {
+      expect(frame.geometry).toBe(frames[0].geometry);
+    });
+    expect(frames.map((frame) => frame.influences![0])).toEqual([
+      expect.closeTo(0.9),
+      expect.closeTo(0.5),
+      expect.closeTo(0.1),
+    ]);
+    expect(line().geometry).not.toBe(frames[0].geometry);
+    expect(line().geometry.morphAttributes.position).toBeUndefined();
+    await act(async () => root.unmount());
+  });
+
+  it("should pick a scale from the control panel", () => {
+    const onScaleModeChange = vi.fn();
+    render(
+      <ControlModal
+        simulationSpeed={1}
+        onSpeedChange={() => {}}
+        scaleMode="true"
+        onScaleModeChange={onScaleModeChange}
+      />,
+    );
+
+    const select = screen.getByRole("combobox", { name: "View scale" });
+    expect(screen.getAllByRole("option").map((o) => o.textContent)).toEqual(
+      expect.arrayContaining(
+        SCALE_MODES.map((mode) => SCALE_STRATEGIES[mode].label),
+      ),
+    );
+    fireEvent.change(select, { target: { value: "log" } });
+    expect(onScaleModeChange).toHaveBeenCalledWith("log");
+  });
+});
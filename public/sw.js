@@ -0,0 +1,137 @@
+/**
+ * Service worker
+ * Precaches the app shell so the simulator works offline. Built scripts and
+ * styles have hashed names, so they are cached as the page loads them; the
+ * page posts those it loaded before the worker took over, along with the
+ * planet textures from its texture config. Planet data has its own offline
+ * store, so /api is left alone.
+ */
+
+const CACHE_VERSION = 2;
+// Caches of other apps on the origin do not share the prefix
+const CACHE_PREFIX = "solar-system-";
+const CACHE_NAME = `${CACHE_PREFIX}v${CACHE_VERSION}`;
+
+// Most cached responses; the oldest go first once old builds' assets pile up
+const MAX_ENTRIES = 200;
+
+const APP_SHELL = ["/", "/favicon.svg"];
+
+// Built assets have hashed names and textures never change in place
+function isStaticPath(pathname) {
+  return (
+    pathname.startsWith("/assets/") ||
+    pathname.startsWith("/textures/") ||
+    APP_SHELL.includes(pathname)
+  );
+}
+
+async function trimCache(cache) {
+  const keys = (await cache.keys()).filter(
+    (key) => !APP_SHELL.includes(new URL(key.url).pathname),
+  );
+  // Keys come back oldest first
+  await Promise.all(
+    keys
+      .slice(0, Math.max(0, keys.length - MAX_ENTRIES))
+      .map((key) => cache.delete(key)),
+  );
+}
+
+async function putInCache(key, response) {
+  const cache = await caches.open(CACHE_NAME);
+  await cache.put(key, response);
+  await trimCache(cache);
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE_NAME)
+      .then((cache) => cache.addAll(APP_SHELL))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) =>
+        Promise.all(
+          names
+            .filter(
+              (name) => name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME,
+            )
+            .map((name) => caches.delete(name)),
+        ),
+      )
+      .then(() => self.clients.claim()),
+  );
+});
+
+// Assets loaded before the worker took control, and the planet textures
+self.addEventListener("message", (event) => {
+  if (event.data?.type !== "CACHE_URLS") return;
+  const urls = event.data.urls.filter((url) => {
+    const { origin, pathname } = new URL(url);
+    return origin === self.location.origin && isStaticPath(pathname);
+  });
+  event.waitUntil(
+    caches.open(CACHE_NAME).then((cache) =>
+      Promise.all(
+        urls.map((url) =>
+          cache
+            .match(url)
+            // A missing file should not keep the others out
+            .then((hit) => hit || cache.add(url).catch(() => undefined)),
+        ),
+      ).then(() => trimCache(cache)),
+    ),
+  );
+});
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    await putInCache(request, response.clone());
+  }
+  return response;
+}
+
+/**
+ * Pages, stored under their path: share links differ only in the query
+ * string, and each would otherwise be cached on its own
+ */
+async function networkFirstPage(request, key) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await putInCache(key, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = (await caches.match(key)) || (await caches.match("/"));
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin || url.pathname.startsWith("/api/")) {
+    return;
+  }
+
+  // Everything else goes to the network uncached
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirstPage(request, url.origin + url.pathname));
+  } else if (isStaticPath(url.pathname)) {
+    event.respondWith(cacheFirst(request));
+  }
+});
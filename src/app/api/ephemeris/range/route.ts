@@ -0,0 +1 @@
+export { GET, runtime } from "@/features/ephemeris/server/range-route";
@@ -0,0 +1 @@
+export { GET, runtime } from "@/features/planet-catalog/server/list-route";
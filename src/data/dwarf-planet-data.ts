@@ -0,0 +1,260 @@
+import { DwarfPlanetData, PlanetData } from "@/data/planet-types";
+import { validateAllPlanets } from "@/utils/validate-planet-data";
+import { J2000_EPOCH } from "@/utils/orbital-elements";
+
+// NASA JPL Small-Body Database orbital and physical parameters
+// https://ssd.jpl.nasa.gov/tools/sbdb_lookup.html
+
+export const dwarfPlanetData: DwarfPlanetData[] = [
+  {
+    name: "Ceres",
+    diameterRelativeEarth: 0.0737, // 939.4 / 12,742
+    color: "#8c8a86",
+    diameterInKm: 939.4,
+    distanceInKm: 413_690_000,
+    distanceInAU: 2.77,
+    orbitSpeedByEarth: 17.9,
+    orbitSpeedByKmH: 64_440,
+    orbitalPeriodDays: 1681.6, // NASA JPL (4.60 years)
+    rotationSpeedByDays: 0.3781,
+    rotationSpeedByKmH: 333,
+    hasRings: false,
+    ringColor: "",
+    ringTilt: 0,
+    texture: "",
+    description: "The largest object in the Asteroid Belt and the only dwarf planet in the inner Solar System",
+    orbitalPeriod: "4.6 Earth years",
+    dayLength: "9.07 hours",
+    funFact: "Ceres was counted as a planet for about 50 years after its discovery",
+    temperature: "-105°C",
+    gravity: "0.28 m/s²",
+    atmosphere: "Transient water vapor",
+    moons: "0",
+    yearDiscovered: "1801",
+    eccentricity: 0.0760, // NASA JPL
+    axialTilt: 4,
+    orbitalInclination: 10.59,
+    beltRegionId: "asteroid-belt",
+    orbitalElements: {
+      semiMajorAxisAU: 2.7691651,
+      eccentricity: 0.07600902,
+      inclinationDeg: 10.59406704,
+      longitudeOfAscendingNodeDeg: 80.3055316,
+      argumentOfPeriapsisDeg: 73.5976941,
+      meanAnomalyDeg: 77.37209589,
+      epoch: new Date("2019-04-27T00:00:00Z"),
+    },
+    notableFeatures: [
+      "Holds about a third of the Asteroid Belt's total mass",
+      "Bright salt deposits in Occator Crater",
+      "Likely has a subsurface layer of brine",
+      "Ahuna Mons is an isolated cryovolcano",
+    ],
+    explorationHistory: {
+      firstOrbiter: "Dawn (2015)",
+      notableMissions: ["Dawn (2015-2018, orbited Vesta then Ceres)"],
+    },
+  },
+  {
+    name: "Pluto",
+    diameterRelativeEarth: 0.1865, // 2,376.6 / 12,742
+    color: "#c8b49b",
+    diameterInKm: 2_376.6,
+    distanceInKm: 5_906_380_000,
+    distanceInAU: 39.48,
+    orbitSpeedByEarth: 4.74,
+    orbitSpeedByKmH: 17_064,
+    orbitalPeriodDays: 90560, // NASA JPL (247.94 years)
+    rotationSpeedByDays: -6.387, // Negative = retrograde rotation
+    rotationSpeedByKmH: 47.18,
+    hasRings: false,
+    ringColor: "",
+    ringTilt: 0,
+    texture: "",
+    description: "The best-known Kuiper Belt object, reclassified as a dwarf planet in 2006",
+    orbitalPeriod: "248 Earth years",
+    dayLength: "6.39 Earth days",
+    funFact: "Pluto and its moon Charon are tidally locked to each other",
+    temperature: "-229°C",
+    gravity: "0.62 m/s²",
+    atmosphere: "Thin N2, CH4, CO",
+    moons: "5",
+    yearDiscovered: "1930",
+    eccentricity: 0.2488, // NASA JPL
+    axialTilt: 122.53,
+    orbitalInclination: 17.16,
+    beltRegionId: "kuiper-belt",
+    orbitalElements: {
+      semiMajorAxisAU: 39.48211675,
+      eccentricity: 0.2488273,
+      inclinationDeg: 17.14001206,
+      longitudeOfAscendingNodeDeg: 110.30393684,
+      argumentOfPeriapsisDeg: 113.76497945,
+      meanAnomalyDeg: 14.86012204,
+      epoch: J2000_EPOCH,
+    },
+    notableFeatures: [
+      "Heart-shaped nitrogen ice plain Sputnik Planitia",
+      "Comes closer to the Sun than Neptune for 20 years of each orbit",
+      "In a 3:2 orbital resonance with Neptune",
+      "Blue atmospheric haze layers",
+    ],
+    explorationHistory: {
+      firstFlyby: "New Horizons (2015)",
+      notableMissions: ["New Horizons (only spacecraft to visit)"],
+    },
+  },
+  {
+    name: "Haumea",
+    diameterRelativeEarth: 0.1224, // 1,560 / 12,742 (mean of an elongated ellipsoid)
+    color: "#e6e2dc",
+    diameterInKm: 1_560,
+    distanceInKm: 6_450_100_000,
+    distanceInAU: 43.12,
+    orbitSpeedByEarth: 4.53,
+    orbitSpeedByKmH: 16_308,
+    orbitalPeriodDays: 103_468, // NASA JPL (283.3 years)
+    rotationSpeedByDays: 0.1631,
+    rotationSpeedByKmH: 1_863,
+    hasRings: true,
+    ringColor: "#8f8a84",
+    ringTilt: 0,
+    texture: "",
+    description: "A fast-spinning, egg-shaped dwarf planet in the Kuiper Belt",
+    orbitalPeriod: "283 Earth years",
+    dayLength: "3.9 hours",
+    funFact: "Haumea spins so fast it has been stretched into an elongated ellipsoid",
+    temperature: "-241°C",
+    gravity: "0.40 m/s²",
+    atmosphere: "None detected",
+    moons: "2",
+    yearDiscovered: "2004",
+    eccentricity: 0.1964,
+    axialTilt: 0, // Not well constrained
+    orbitalInclination: 28.21,
+    beltRegionId: "kuiper-belt",
+    orbitalElements: {
+      semiMajorAxisAU: 43.116,
+      eccentricity: 0.19642,
+      inclinationDeg: 28.2137,
+      longitudeOfAscendingNodeDeg: 122.167,
+      argumentOfPeriapsisDeg: 239.041,
+      meanAnomalyDeg: 218.205,
+      epoch: new Date("2020-12-17T00:00:00Z"),
+    },
+    notableFeatures: [
+      "Fastest rotation of any known large body (3.9 hours)",
+      "First trans-Neptunian object found to have a ring",
+      "Surface covered in crystalline water ice",
+      "Parent of a collisional family of icy fragments",
+    ],
+  },
+  {
+    name: "Makemake",
+    diameterRelativeEarth: 0.1122, // 1,430 / 12,742
+    color: "#c9855b",
+    diameterInKm: 1_430,
+    distanceInKm: 6_796_200_000,
+    distanceInAU: 45.43,
+    orbitSpeedByEarth: 4.42,
+    orbitSpeedByKmH: 15_908,
+    orbitalPeriodDays: 111_845, // NASA JPL (306.2 years)
+    rotationSpeedByDays: 0.9511,
+    rotationSpeedByKmH: 197,
+    hasRings: false,
+    ringColor: "",
+    ringTilt: 0,
+    texture: "",
+    description: "A reddish-brown dwarf planet in the Kuiper Belt",
+    orbitalPeriod: "306 Earth years",
+    dayLength: "22.8 hours",
+    funFact: "Makemake was discovered shortly after Easter and nicknamed Easterbunny",
+    temperature: "-239°C",
+    gravity: "0.50 m/s²",
+    atmosphere: "None detected",
+    moons: "1",
+    yearDiscovered: "2005",
+    eccentricity: 0.1613,
+    axialTilt: 0, // Not well constrained
+    orbitalInclination: 29.01,
+    beltRegionId: "kuiper-belt",
+    orbitalElements: {
+      semiMajorAxisAU: 45.43,
+      eccentricity: 0.16126,
+      inclinationDeg: 29.00685,
+      longitudeOfAscendingNodeDeg: 79.62,
+      argumentOfPeriapsisDeg: 294.834,
+      meanAnomalyDeg: 165.514,
+      epoch: new Date("2020-05-31T00:00:00Z"),
+    },
+    notableFeatures: [
+      "Surface coated in frozen methane and ethane",
+      "Has a small, dark moon nicknamed MK2",
+      "Second-brightest Kuiper Belt object after Pluto",
+    ],
+  },
+  {
+    name: "Eris",
+    diameterRelativeEarth: 0.1826, // 2,326 / 12,742
+    color: "#ecebe8",
+    diameterInKm: 2_326,
+    distanceInKm: 10_152_300_000,
+    distanceInAU: 67.86,
+    orbitSpeedByEarth: 3.43,
+    orbitSpeedByKmH: 12_348,
+    orbitalPeriodDays: 204_199, // NASA JPL (559 years)
+    rotationSpeedByDays: 15.786,
+    rotationSpeedByKmH: 19.3,
+    hasRings: false,
+    ringColor: "",
+    ringTilt: 0,
+    texture: "",
+    description: "The most massive dwarf planet, orbiting in the scattered disc beyond the Kuiper Belt",
+    orbitalPeriod: "559 Earth years",
+    dayLength: "15.8 Earth days",
+    funFact: "Eris's discovery led directly to Pluto's reclassification as a dwarf planet",
+    temperature: "-243°C to -217°C",
+    gravity: "0.82 m/s²",
+    atmosphere: "Frozen N2 and CH4 surface frost",
+    moons: "1",
+    yearDiscovered: "2005",
+    eccentricity: 0.4361,
+    axialTilt: 78, // Inferred from Dysnomia's orbit
+    orbitalInclination: 44.04,
+    orbitalElements: {
+      semiMajorAxisAU: 67.864,
+      eccentricity: 0.43607,
+      inclinationDeg: 44.04,
+      longitudeOfAscendingNodeDeg: 35.951,
+      argumentOfPeriapsisDeg: 151.639,
+      meanAnomalyDeg: 205.989,
+      epoch: new Date("2019-04-27T00:00:00Z"),
+    },
+    notableFeatures: [
+      "About 27% more massive than Pluto",
+      "Highly inclined, eccentric orbit reaching 97 AU from the Sun",
+      "One of the most reflective surfaces in the Solar System",
+      "Tidally locked to its moon Dysnomia",
+    ],
+  },
+];
+
+/**
+ * Type guard to tell dwarf planets apart from planets and moons
+ */
+export function isDwarfPlanetData(body: PlanetData): body is DwarfPlanetData {
+  return dwarfPlanetData.some((dwarf) => dwarf.name === body.name);
+}
+
+// Validate dwarf planet data on module load (client-side only)
+if (typeof window !== "undefined") {
+  try {
+    validateAllPlanets(dwarfPlanetData);
+  } catch (error) {
+    console.error("Failed to load dwarf planet data:", error);
+    // Only throw in development mode
+    if (process.env.NODE_ENV === "development") {
+      throw error;
+    }
+  }
+}
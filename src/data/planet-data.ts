@@ -1,8 +1,11 @@
 import { PlanetData } from "@/data/planet-types";
 import { validateAllPlanets } from "@/utils/validate-planet-data";
+import { J2000_EPOCH } from "@/utils/orbital-elements";
 
 // NASA JPL Horizons System data source
 // https://ssd.jpl.nasa.gov/planets/phys_par.html
+// Orbital elements: JPL "Approximate Positions of the Planets" (J2000, 1800-2050)
+// https://ssd.jpl.nasa.gov/planets/approx_pos.html
 
 export const sunData: PlanetData = {
   name: "Sun",
@@ -70,6 +73,15 @@ export const planetData: PlanetData[] = [
     eccentricity: 0.2056, // NASA JPL (4 decimal places)
     axialTilt: 0.034,
     orbitalInclination: 7.005,
+    orbitalElements: {
+      semiMajorAxisAU: 0.38709927,
+      eccentricity: 0.20563593,
+      inclinationDeg: 7.00497902,
+      longitudeOfAscendingNodeDeg: 48.33076593,
+      argumentOfPeriapsisDeg: 29.12703035,
+      meanAnomalyDeg: 174.79252722,
+      epoch: J2000_EPOCH,
+    },
     notableFeatures: [
       "Smallest planet in the Solar System",
       "Has ice in permanently shadowed craters despite extreme heat",
@@ -110,6 +122,15 @@ export const planetData: PlanetData[] = [
     eccentricity: 0.0068, // NASA JPL (4 decimal places)
     axialTilt: 177.4,
     orbitalInclination: 3.395,
+    orbitalElements: {
+      semiMajorAxisAU: 0.72333566,
+      eccentricity: 0.00677672,
+      inclinationDeg: 3.39467605,
+      longitudeOfAscendingNodeDeg: 76.67984255,
+      argumentOfPeriapsisDeg: 54.92262463,
+      meanAnomalyDeg: 50.37663232,
+      epoch: J2000_EPOCH,
+    },
     notableFeatures: [
       "Rotates backwards (retrograde rotation)",
       "Hottest planet despite not being closest to Sun",
@@ -158,6 +179,15 @@ export const planetData: PlanetData[] = [
     eccentricity: 0.0167, // NASA JPL (4 decimal places)
     axialTilt: 23.5,
     orbitalInclination: 0.0,
+    orbitalElements: {
+      semiMajorAxisAU: 1.00000261,
+      eccentricity: 0.01671123,
+      inclinationDeg: 0,
+      longitudeOfAscendingNodeDeg: 0,
+      argumentOfPeriapsisDeg: 102.93768193,
+      meanAnomalyDeg: 357.52688973,
+      epoch: J2000_EPOCH,
+    },
     notableFeatures: [
       "Only known planet with liquid water on its surface",
       "Has a protective magnetic field",
@@ -198,6 +228,15 @@ export const planetData: PlanetData[] = [
     eccentricity: 0.0934, // NASA JPL (4 decimal places)
     axialTilt: 25.2,
     orbitalInclination: 1.85,
+    orbitalElements: {
+      semiMajorAxisAU: 1.52371034,
+      eccentricity: 0.0933941,
+      inclinationDeg: 1.84969142,
+      longitudeOfAscendingNodeDeg: 49.55953891,
+      argumentOfPeriapsisDeg: 286.4968315,
+      meanAnomalyDeg: 19.39019754,
+      epoch: J2000_EPOCH,
+    },
     notableFeatures: [
       "Home to Olympus Mons - largest volcano in Solar System",
       "Has the largest canyon system (Valles Marineris)",
@@ -247,6 +286,15 @@ export const planetData: PlanetData[] = [
     eccentricity: 0.0484, // NASA JPL (4 decimal places)
     axialTilt: 3.13,
     orbitalInclination: 1.303,
+    orbitalElements: {
+      semiMajorAxisAU: 5.202887,
+      eccentricity: 0.04838624,
+      inclinationDeg: 1.30439695,
+      longitudeOfAscendingNodeDeg: 100.47390909,
+      argumentOfPeriapsisDeg: 274.25457074,
+      meanAnomalyDeg: 19.66796068,
+      epoch: J2000_EPOCH,
+    },
     notableFeatures: [
       "Largest planet in the Solar System",
       "Great Red Spot - storm larger than Earth lasting 400+ years",
@@ -293,6 +341,15 @@ export const planetData: PlanetData[] = [
     eccentricity: 0.0539, // NASA JPL (4 decimal places)
     axialTilt: 26.7,
     orbitalInclination: 2.485,
+    orbitalElements: {
+      semiMajorAxisAU: 9.53667594,
+      eccentricity: 0.05386179,
+      inclinationDeg: 2.48599187,
+      longitudeOfAscendingNodeDeg: 113.66242448,
+      argumentOfPeriapsisDeg: 338.93645383,
+      meanAnomalyDeg: 317.35536592,
+      epoch: J2000_EPOCH,
+    },
     notableFeatures: [
       "Most spectacular ring system in the Solar System",
       "Least dense planet - would float on water",
@@ -334,6 +391,15 @@ export const planetData: PlanetData[] = [
     eccentricity: 0.0463, // NASA JPL (4 decimal places)
     axialTilt: 97.8,
     orbitalInclination: 0.773,
+    orbitalElements: {
+      semiMajorAxisAU: 19.18916464,
+      eccentricity: 0.04725744,
+      inclinationDeg: 0.77263783,
+      longitudeOfAscendingNodeDeg: 74.01692503,
+      argumentOfPeriapsisDeg: 96.93735127,
+      meanAnomalyDeg: 142.28382821,
+      epoch: J2000_EPOCH,
+    },
     notableFeatures: [
       "Rotates on its side with 98° axial tilt",
       "Coldest planetary atmosphere in Solar System (-224°C)",
@@ -374,6 +440,15 @@ export const planetData: PlanetData[] = [
     eccentricity: 0.0086, // NASA JPL (4 decimal places)
     axialTilt: 28.3,
     orbitalInclination: 1.77,
+    orbitalElements: {
+      semiMajorAxisAU: 30.06992276,
+      eccentricity: 0.00859048,
+      inclinationDeg: 1.77004347,
+      longitudeOfAscendingNodeDeg: 131.78422574,
+      argumentOfPeriapsisDeg: 273.18053653,
+      meanAnomalyDeg: 259.91520804,
+      epoch: J2000_EPOCH,
+    },
     notableFeatures: [
       "Strongest winds in Solar System (2,100 km/h)",
       "Has a Great Dark Spot similar to Jupiter's storm",
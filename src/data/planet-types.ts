@@ -1,3 +1,5 @@
+import type { OrbitalElements } from "@/utils/orbital-elements";
+
 /** Exploration history - missions sent to the planet */
 export interface ExplorationHistory {
   /** First flyby mission (e.g., "Mariner 4 (1965)") */
@@ -105,4 +107,19 @@ export interface PlanetData {
 
   /** Exploration history - missions sent to the planet (optional as some planets have limited exploration) */
   explorationHistory?: ExplorationHistory;
+
+  /**
+   * Keplerian orbital elements (J2000 ecliptic) defining the orbit's shape,
+   * orientation and phase. Without them the orbit is derived from
+   * distanceInAU, eccentricity and orbitalInclination.
+   */
+  orbitalElements?: OrbitalElements;
+}
+
+/**
+ * Dwarf planet data: same shape as a planet, plus where it sits in the system.
+ */
+export interface DwarfPlanetData extends PlanetData {
+  /** ID of the belt region (from BELT_DATA) the orbit lies in, if any */
+  beltRegionId?: string;
 }
@@ -2,6 +2,72 @@
  * Belt region data structure for Asteroid Belt and Kuiper Belt visualization
  */
 
+export type GiantPlanetName = "Jupiter" | "Saturn" | "Uranus" | "Neptune";
+
+/**
+ * Orbit period ratio with a planet: the body completes `orbits` revolutions
+ * while the planet completes `planetOrbits` (Hildas 3:2 with Jupiter,
+ * plutinos 2:3 with Neptune)
+ */
+export interface MeanMotionRatio {
+  planet: GiantPlanetName;
+  orbits: number;
+  planetOrbits: number;
+}
+
+/**
+ * Semi-major axes around a resonance that a planet has cleared (a Kirkwood
+ * gap)
+ */
+export interface ResonanceGap extends MeanMotionRatio {
+  halfWidthAU: number;
+}
+
+/**
+ * Resonance a population is locked in. The resonant angle
+ * planetOrbits·λ − orbits·λp + (orbits − planetOrbits)·ϖ stays near one of
+ * the centres: 0° for Hildas, ±60° for Trojans (L4 and L5), 180° for
+ * plutinos.
+ */
+export interface ResonanceLock extends MeanMotionRatio {
+  /** Centres the resonant angle librates about, in degrees */
+  centersDeg: number[];
+  /** Largest offset of the resonant angle from its centre, in degrees */
+  librationAmplitudeDeg: number;
+}
+
+interface BeltPopulationBase {
+  id: string;
+  name: string;
+  /** Share of the belt's particles */
+  share: number;
+  /** Rayleigh scale and upper limit of the eccentricities */
+  eccentricityScale: number;
+  maxEccentricity: number;
+  /** Rayleigh scale of the inclinations in degrees */
+  inclinationScaleDeg: number;
+}
+
+/**
+ * Population spread over a range of semi-major axes
+ */
+export interface BandPopulation extends BeltPopulationBase {
+  kind: "band";
+  minSemiMajorAxisAU: number;
+  maxSemiMajorAxisAU: number;
+  gaps?: ResonanceGap[];
+}
+
+/**
+ * Population held in a mean-motion resonance with a planet
+ */
+export interface ResonantPopulation extends BeltPopulationBase {
+  kind: "resonant";
+  resonance: ResonanceLock;
+}
+
+export type BeltPopulation = BandPopulation | ResonantPopulation;
+
 export interface BeltData {
   id: string;
   name: string;
@@ -12,6 +78,8 @@ export interface BeltData {
   description: string;
   particleCount: number; // Number of particles to render in the belt
   particleSize: number; // Size of each particle
+  /** Orbit distributions the particles are drawn from */
+  populations: BeltPopulation[];
 }
 
 export const BELT_DATA: BeltData[] = [
@@ -23,8 +91,86 @@ export const BELT_DATA: BeltData[] = [
     color: "#8B7355",
     opacity: 0.15,
     description: "Region between Mars and Jupiter containing rocky asteroids",
-    particleCount: 2000,
+    particleCount: 20000,
     particleSize: 3,
+    populations: [
+      {
+        id: "main-belt",
+        name: "Main belt",
+        kind: "band",
+        share: 0.86,
+        minSemiMajorAxisAU: 2.1,
+        maxSemiMajorAxisAU: 3.3,
+        // Kirkwood gaps at Jupiter's 4:1, 3:1, 5:2, 7:3 and 2:1 resonances
+        gaps: [
+          {
+            planet: "Jupiter",
+            orbits: 4,
+            planetOrbits: 1,
+            halfWidthAU: 0.02,
+          },
+          {
+            planet: "Jupiter",
+            orbits: 3,
+            planetOrbits: 1,
+            halfWidthAU: 0.025,
+          },
+          {
+            planet: "Jupiter",
+            orbits: 5,
+            planetOrbits: 2,
+            halfWidthAU: 0.02,
+          },
+          {
+            planet: "Jupiter",
+            orbits: 7,
+            planetOrbits: 3,
+            halfWidthAU: 0.012,
+          },
+          {
+            planet: "Jupiter",
+            orbits: 2,
+            planetOrbits: 1,
+            halfWidthAU: 0.03,
+          },
+        ],
+        eccentricityScale: 0.1,
+        maxEccentricity: 0.35,
+        inclinationScaleDeg: 7,
+      },
+      {
+        id: "hildas",
+        name: "Hildas",
+        kind: "resonant",
+        share: 0.04,
+        resonance: {
+          planet: "Jupiter",
+          orbits: 3,
+          planetOrbits: 2,
+          centersDeg: [0],
+          librationAmplitudeDeg: 40,
+        },
+        eccentricityScale: 0.15,
+        maxEccentricity: 0.3,
+        inclinationScaleDeg: 6,
+      },
+      {
+        id: "trojans",
+        name: "Jupiter trojans",
+        kind: "resonant",
+        share: 0.1,
+        resonance: {
+          planet: "Jupiter",
+          orbits: 1,
+          planetOrbits: 1,
+          centersDeg: [60, -60],
+          librationAmplitudeDeg: 25,
+        },
+        eccentricityScale: 0.06,
+        maxEccentricity: 0.2,
+        inclinationScaleDeg: 10,
+      },
+    ],
   },
   {
     id: "kuiper-belt",
@@ -34,7 +180,70 @@ export const BELT_DATA: BeltData[] = [
     color: "#4A6B8A",
     opacity: 0.1,
     description: "Region beyond Neptune containing icy bodies",
-    particleCount: 3000,
+    particleCount: 15000,
     particleSize: 5,
+    populations: [
+      {
+        id: "cold-classical",
+        name: "Cold classical",
+        kind: "band",
+        share: 0.45,
+        minSemiMajorAxisAU: 42,
+        maxSemiMajorAxisAU: 47,
+        eccentricityScale: 0.04,
+        maxEccentricity: 0.1,
+        inclinationScaleDeg: 2,
+      },
+      {
+        id: "hot-classical",
+        name: "Hot classical",
+        kind: "band",
+        share: 0.3,
+        minSemiMajorAxisAU: 38,
+        maxSemiMajorAxisAU: 48,
+        eccentricityScale: 0.08,
+        maxEccentricity: 0.2,
+        inclinationScaleDeg: 12,
+      },
+      {
+        id: "plutinos",
+        name: "Plutinos",
+        kind: "resonant",
+        share: 0.25,
+        resonance: {
+          planet: "Neptune",
+          orbits: 2,
+          planetOrbits: 3,
+          centersDeg: [180],
+          librationAmplitudeDeg: 80,
+        },
+        eccentricityScale: 0.15,
+        maxEccentricity: 0.3,
+        inclinationScaleDeg: 10,
+      },
+    ],
   },
 ];
+
+/**
+ * Look up a belt region by its ID
+ * @param id - Belt region ID (e.g. "asteroid-belt")
+ * @returns Belt data, or undefined when no region has that ID
+ */
+export function getBeltRegionById(id: string): BeltData | undefined {
+  return BELT_DATA.find((belt) => belt.id === id);
+}
+
+/**
+ * Find the belt region containing a heliocentric distance
+ * @param distanceAU - Distance from the Sun in AU
+ * @returns Belt data, or undefined when the distance lies outside every belt
+ */
+export function findBeltRegionForDistance(
+  distanceAU: number,
+): BeltData | undefined {
+  return BELT_DATA.find(
+    (belt) =>
+      distanceAU >= belt.innerRadiusAU && distanceAU <= belt.outerRadiusAU,
+  );
+}
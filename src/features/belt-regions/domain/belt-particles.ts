@@ -0,0 +1,340 @@
+/**
+ * Belt particles
+ * Samples each belt particle's Keplerian orbit from its population's
+ * distributions: semi-major axes across a band with Kirkwood gaps removed,
+ * or locked in a resonance with a planet, and Rayleigh-distributed
+ * eccentricities and inclinations. The orbits are propagated on the GPU;
+ * getBeltParticlePosition is the same calculation on the CPU.
+ */
+
+import { planetData } from "@/data/planet-data";
+import type {
+  BandPopulation,
+  BeltData,
+  GiantPlanetName,
+  MeanMotionRatio,
+  ResonanceGap,
+  ResonantPopulation,
+} from "@/features/belt-regions/data/belt-data";
+import { getPlanetOrbitalElements } from "@/features/planet-rendering/domain/kepler-orbit";
+import type { ScaleStrategy } from "@/features/view-scale/domain/scale-strategy";
+import {
+  J2000_EPOCH,
+  calculateMeanMotion,
+  calculateTrueAnomaly,
+  getMeanMotion,
+  normalizeRadians,
+  orbitalPlaneToEcliptic,
+  solveKeplerEquation,
+  type EclipticPosition,
+  type OrbitalElements,
+} from "@/utils/orbital-elements";
+import { FULL_CIRCLE_RADIANS } from "@/utils/physics-constants";
+
+const DEG_TO_RAD = Math.PI / 180;
+const RAD_TO_DEG = 180 / Math.PI;
+const MS_PER_DAY = 86_400_000;
+
+// Attempts at a semi-major axis outside every gap before taking the last one
+const MAX_GAP_REDRAWS = 50;
+
+/**
+ * Distances from the Sun covered by the radial scale table, in AU; every
+ * belt particle stays inside
+ */
+export const RADIAL_SCALE_MAX_AU = 64;
+
+/**
+ * Number of samples in the radial scale table
+ */
+export const RADIAL_SCALE_SAMPLES = 128;
+
+/**
+ * Orbits of a belt's particles, packed for upload as vertex attributes.
+ * Angles are in radians, mean anomalies at J2000.
+ */
+export interface BeltParticles {
+  count: number;
+  /**
+   * Per particle: semi-major axis (AU), eccentricity, inclination and mean
+   * motion (per day)
+   */
+  shapes: Float32Array;
+  /** Per particle: ascending node, argument of perihelion, mean anomaly */
+  phases: Float32Array;
+  /** Per particle: brightness multiplier of the belt colour */
+  brightness: Float32Array;
+  /** Per particle: index of its population in the belt's list */
+  populations: Uint8Array;
+}
+
+/**
+ * Elements of the planet a resonance or gap refers to
+ */
+function getResonancePlanet(name: GiantPlanetName): OrbitalElements {
+  return getPlanetOrbitalElements(
+    planetData.find((body) => body.name === name)!,
+  );
+}
+
+/**
+ * Mean longitude (Ω + ω + M) at the elements' epoch, in radians
+ */
+function getMeanLongitude(elements: OrbitalElements): number {
+  return (
+    (elements.longitudeOfAscendingNodeDeg +
+      elements.argumentOfPeriapsisDeg +
+      elements.meanAnomalyDeg) *
+    DEG_TO_RAD
+  );
+}
+
+/**
+ * Semi-major axis of an orbit in a mean-motion ratio with a planet
+ * (Kepler's third law)
+ * @returns Semi-major axis in AU
+ */
+export function getResonanceSemiMajorAxis(ratio: MeanMotionRatio): number {
+  const planet = getResonancePlanet(ratio.planet);
+  return (
+    planet.semiMajorAxisAU * Math.pow(ratio.planetOrbits / ratio.orbits, 2 / 3)
+  );
+}
+
+function isInGap(semiMajorAxisAU: number, gaps: ResonanceGap[]): boolean {
+  return gaps.some(
+    (gap) =>
+      Math.abs(semiMajorAxisAU - getResonanceSemiMajorAxis(gap)) <
+      gap.halfWidthAU,
+  );
+}
+
+/**
+ * Rayleigh-distributed value cut off at a maximum, drawn by inverting the
+ * truncated distribution so no values pile up at the limit
+ */
+function sampleRayleigh(scale: number, max: number, random: () => number) {
+  const tail = 1 - Math.exp(-(max * max) / (2 * scale * scale));
+  return scale * Math.sqrt(-2 * Math.log(1 - random() * tail));
+}
+
+interface SampledOrbit {
+  semiMajorAxisAU: number;
+  meanMotion: number;
+  /** Longitude of perihelion ϖ = Ω + ω */
+  perihelionLongitude: number;
+  /** Mean longitude at J2000 */
+  meanLongitude: number;
+}
+
+/**
+ * Semi-major axis and phase of a particle in a band population
+ */
+function sampleBandOrbit(
+  population: BandPopulation,
+  random: () => number,
+): SampledOrbit {
+  const { minSemiMajorAxisAU: min, maxSemiMajorAxisAU: max } = population;
+  const gaps = population.gaps ?? [];
+  let semiMajorAxisAU = min + random() * (max - min);
+  for (
+    let attempt = 0;
+    attempt < MAX_GAP_REDRAWS && isInGap(semiMajorAxisAU, gaps);
+    attempt++
+  ) {
+    semiMajorAxisAU = min + random() * (max - min);
+  }
+  return {
+    semiMajorAxisAU,
+    meanMotion: calculateMeanMotion(semiMajorAxisAU),
+    perihelionLongitude: random() * FULL_CIRCLE_RADIANS,
+    meanLongitude: random() * FULL_CIRCLE_RADIANS,
+  };
+}
+
+/**
+ * Semi-major axis and phase of a particle locked in a resonance: its mean
+ * motion is the planet's times orbits/planetOrbits, and its perihelion (or
+ * for co-orbitals its mean longitude) is placed so the resonant angle sits
+ * within the libration amplitude of a centre
+ */
+function sampleResonantOrbit(
+  population: ResonantPopulation,
+  random: () => number,
+): SampledOrbit {
+  const { resonance } = population;
+  const planet = getResonancePlanet(resonance.planet);
+  const planetLongitude = getMeanLongitude(planet);
+  const center =
+    resonance.centersDeg[Math.floor(random() * resonance.centersDeg.length)];
+  const angle =
+    (center + (2 * random() - 1) * resonance.librationAmplitudeDeg) *
+    DEG_TO_RAD;
+
+  const { orbits, planetOrbits } = resonance;
+  const difference = orbits - planetOrbits;
+  let meanLongitude: number;
+  let perihelionLongitude: number;
+  if (difference === 0) {
+    perihelionLongitude = random() * FULL_CIRCLE_RADIANS;
+    meanLongitude = (angle + orbits * planetLongitude) / planetOrbits;
+  } else {
+    // Any of the |difference| perihelia that satisfy the angle will do
+    meanLongitude = random() * FULL_CIRCLE_RADIANS;
+    const branch = Math.floor(random() * Math.abs(difference));
+    perihelionLongitude =
+      (angle -
+        planetOrbits * meanLongitude +
+        orbits * planetLongitude +
+        branch * FULL_CIRCLE_RADIANS) /
+      difference;
+  }
+
+  return {
+    semiMajorAxisAU: getResonanceSemiMajorAxis(resonance),
+    meanMotion: (getMeanMotion(planet) * orbits) / planetOrbits,
+    perihelionLongitude,
+    meanLongitude,
+  };
+}
+
+/**
+ * Draw the orbits of a belt's particles, split between its populations by
+ * share
+ * @param belt - Belt data
+ * @param random - Source of uniform numbers in [0, 1)
+ * @returns Packed particle orbits
+ */
+export function sampleBeltParticles(
+  belt: BeltData,
+  random: () => number = Math.random,
+): BeltParticles {
+  const count = belt.particleCount;
+  const shapes = new Float32Array(count * 4);
+  const phases = new Float32Array(count * 3);
+  const brightness = new Float32Array(count);
+  const populations = new Uint8Array(count);
+
+  const totalShare = belt.populations.reduce((sum, p) => sum + p.share, 0);
+  let index = 0;
+  belt.populations.forEach((population, populationIndex) => {
+    const isLast = populationIndex === belt.populations.length - 1;
+    const end = isLast
+      ? count
+      : Math.min(
+          count,
+          index + Math.round((count * population.share) / totalShare),
+        );
+
+    for (; index < end; index++) {
+      const orbit =
+        population.kind === "band"
+          ? sampleBandOrbit(population, random)
+          : sampleResonantOrbit(population, random);
+      const node = random() * FULL_CIRCLE_RADIANS;
+
+      shapes[index * 4] = orbit.semiMajorAxisAU;
+      shapes[index * 4 + 1] = sampleRayleigh(
+        population.eccentricityScale,
+        population.maxEccentricity,
+        random,
+      );
+      shapes[index * 4 + 2] = sampleRayleigh(
+        population.inclinationScaleDeg * DEG_TO_RAD,
+        Math.PI / 2,
+        random,
+      );
+      shapes[index * 4 + 3] = orbit.meanMotion;
+      phases[index * 3] = node;
+      phases[index * 3 + 1] = normalizeRadians(
+        orbit.perihelionLongitude - node,
+      );
+      phases[index * 3 + 2] = normalizeRadians(
+        orbit.meanLongitude - orbit.perihelionLongitude,
+      );
+      brightness[index] = 0.8 + random() * 0.4;
+      populations[index] = populationIndex;
+    }
+  });
+
+  return { count, shapes, phases, brightness, populations };
+}
+
+/**
+ * Days since J2000, the time the particles' mean anomalies refer to
+ */
+export function getDaysSinceJ2000(date: Date): number {
+  return (date.getTime() - J2000_EPOCH.getTime()) / MS_PER_DAY;
+}
+
+/**
+ * Heliocentric position of one particle at a date; the shader computes the
+ * same in scene axes
+ * @param particles - Packed particle orbits
+ * @param index - Particle index
+ * @param date - Target date
+ * @returns Position in AU (J2000 ecliptic)
+ */
+export function getBeltParticlePosition(
+  particles: BeltParticles,
+  index: number,
+  date: Date,
+): EclipticPosition {
+  const { shapes, phases } = particles;
+  const a = shapes[index * 4];
+  const e = shapes[index * 4 + 1];
+  const meanAnomaly =
+    phases[index * 3 + 2] + shapes[index * 4 + 3] * getDaysSinceJ2000(date);
+  const trueAnomaly = calculateTrueAnomaly(
+    solveKeplerEquation(meanAnomaly, e),
+    e,
+  );
+  const r = (a * (1 - e * e)) / (1 + e * Math.cos(trueAnomaly));
+  return orbitalPlaneToEcliptic(
+    r * Math.cos(trueAnomaly),
+    r * Math.sin(trueAnomaly),
+    {
+      inclinationDeg: shapes[index * 4 + 2] * RAD_TO_DEG,
+      longitudeOfAscendingNodeDeg: phases[index * 3] * RAD_TO_DEG,
+      argumentOfPeriapsisDeg: phases[index * 3 + 1] * RAD_TO_DEG,
+    },
+  );
+}
+
+/**
+ * Scene distances of a scale strategy sampled for the shader, at distances
+ * RADIAL_SCALE_MAX_AU·(k / (samples − 1))² so the samples crowd in close to
+ * the Sun, where the log and square-root scales bend most
+ * @param strategy - Scale strategy (blended ones included)
+ * @returns Scene distance at each sample
+ */
+export function createRadialScaleTable(strategy: ScaleStrategy): Float32Array {
+  return Float32Array.from({ length: RADIAL_SCALE_SAMPLES }, (_, k) => {
+    const fraction = k / (RADIAL_SCALE_SAMPLES - 1);
+    return strategy.distanceToUnits(RADIAL_SCALE_MAX_AU * fraction * fraction);
+  });
+}
+
+/**
+ * Scene distance for a heliocentric distance, interpolated from a radial
+ * scale table as the shader does
+ * @param table - Table from createRadialScaleTable
+ * @param distanceAU - Distance from the Sun in AU
+ * @returns Scene distance
+ */
+export function lookupRadialScale(
+  table: Float32Array,
+  distanceAU: number,
+): number {
+  const distance = Math.min(Math.max(distanceAU, 0), RADIAL_SCALE_MAX_AU);
+  const last = RADIAL_SCALE_SAMPLES - 1;
+  const lower = Math.min(
+    Math.floor(last * Math.sqrt(distance / RADIAL_SCALE_MAX_AU)),
+    last - 1,
+  );
+  const from = RADIAL_SCALE_MAX_AU * (lower / last) ** 2;
+  const to = RADIAL_SCALE_MAX_AU * ((lower + 1) / last) ** 2;
+  // Linear in distance between the two samples
+  const t = (distance - from) / (to - from);
+  return table[lower] + (table[lower + 1] - table[lower]) * t;
+}
@@ -1,2 +1,3 @@
 export * from "@/features/belt-regions/data/belt-data";
+export * from "@/features/belt-regions/domain/belt-particles";
 export * from "@/features/belt-regions/ui/index";
@@ -2,15 +2,117 @@
 
 import * as THREE from "three";
 import { useMemo, useRef, useEffect } from "react";
+import { useFrame } from "@react-three/fiber";
 import { Text } from "@react-three/drei";
 import { BeltData } from "@/features/belt-regions/data/belt-data";
+import {
+  RADIAL_SCALE_MAX_AU,
+  RADIAL_SCALE_SAMPLES,
+  createRadialScaleTable,
+  getDaysSinceJ2000,
+  sampleBeltParticles,
+} from "@/features/belt-regions/domain/belt-particles";
+import {
+  getSimulatedDate,
+  type SimulationClock,
+} from "@/features/simulation-control/domain/simulation-clock";
+import {
+  SCALE_STRATEGIES,
+  getScaleTransition,
+  type ScaleStrategy,
+} from "@/features/view-scale/domain/scale-strategy";
+import {
+  addScaleMorph,
+  getScaleMorphInfluences,
+} from "@/features/view-scale/domain/scale-morph";
 
 // Scale factor: 1 AU = 1000 units (consistent with planet scaling)
-export const AU_TO_UNITS = 1000;
+export { AU_TO_UNITS } from "@/features/view-scale/domain/scale-strategy";
+
+// Each particle follows its own Kepler orbit: the mean anomaly advances
+// with the simulated days, a few Newton steps solve Kepler's equation (belt
+// eccentricities stay below 0.35), and the heliocentric distance goes
+// through the view scale's sampled distances as in lookupRadialScale
+const PARTICLE_VERTEX_SHADER = `
+  #define RADIAL_SCALE_SAMPLES ${RADIAL_SCALE_SAMPLES}
+  attribute vec4 orbitShape;
+  attribute vec3 orbitPhase;
+  attribute float brightness;
+  uniform float days;
+  uniform float radialScale[RADIAL_SCALE_SAMPLES];
+  uniform float radialScaleMaxAU;
+  uniform float pointSize;
+  uniform float viewportHalfHeight;
+  varying float vBrightness;
+
+  float sceneDistance(float distanceAU) {
+    float d = clamp(distanceAU, 0.0, radialScaleMaxAU);
+    float last = float(RADIAL_SCALE_SAMPLES - 1);
+    float lower = min(floor(last * sqrt(d / radialScaleMaxAU)), last - 1.0);
+    float lo = radialScaleMaxAU * pow(lower / last, 2.0);
+    float hi = radialScaleMaxAU * pow((lower + 1.0) / last, 2.0);
+    int k = int(lower);
+    return mix(radialScale[k], radialScale[k + 1], (d - lo) / (hi - lo));
+  }
+
+  void main() {
+    float a = orbitShape.x;
+    float e = orbitShape.y;
+    float inclination = orbitShape.z;
+    float M = mod(orbitPhase.z + orbitShape.w * days, 6.28318530718);
+    float E = M;
+    for (int step = 0; step < 6; step++) {
+      E -= (E - e * sin(E) - M) / (1.0 - e * cos(E));
+    }
+    float xOrbit = a * (cos(E) - e);
+    float yOrbit = a * sqrt(1.0 - e * e) * sin(E);
+
+    float cosNode = cos(orbitPhase.x);
+    float sinNode = sin(orbitPhase.x);
+    float cosPeri = cos(orbitPhase.y);
+    float sinPeri = sin(orbitPhase.y);
+    float cosI = cos(inclination);
+    float sinI = sin(inclination);
+    vec3 ecliptic = vec3(
+      (cosNode * cosPeri - sinNode * sinPeri * cosI) * xOrbit +
+        (-cosNode * sinPeri - sinNode * cosPeri * cosI) * yOrbit,
+      (sinNode * cosPeri + cosNode * sinPeri * cosI) * xOrbit +
+        (-sinNode * sinPeri + cosNode * cosPeri * cosI) * yOrbit,
+      sinPeri * sinI * xOrbit + cosPeri * sinI * yOrbit
+    );
+
+    // Ecliptic to scene axes as in eclipticToScenePosition
+    vec3 scene = vec3(ecliptic.x, -ecliptic.z, ecliptic.y);
+    float distanceAU = length(scene);
+    vec3 scaled = scene * (sceneDistance(distanceAU) / max(distanceAU, 1e-6));
+
+    vBrightness = brightness;
+    vec4 mvPosition = modelViewMatrix * vec4(scaled, 1.0);
+    gl_Position = projectionMatrix * mvPosition;
+    // Attenuated with distance like PointsMaterial
+    gl_PointSize = pointSize * viewportHalfHeight / -mvPosition.z;
+  }
+`;
+
+const PARTICLE_FRAGMENT_SHADER = `
+  uniform vec3 color;
+  uniform float opacity;
+  varying float vBrightness;
+
+  void main() {
+    float distance = length(gl_PointCoord - vec2(0.5));
+    if (distance > 0.5) discard;
+    gl_FragColor = vec4(color * vBrightness, opacity);
+  }
+`;
 
 interface BeltRegionProps {
   belt: BeltData;
+  /** Simulation clock the particles' orbits follow */
+  clock: SimulationClock;
   showLabel?: boolean;
+  /** View scale for the belt radii (defaults to true scale) */
+  scale?: ScaleStrategy;
 }
 
 /**
@@ -52,21 +154,39 @@ function BeltLabel({
 /**
  * BeltRegion component renders a belt region with:
  * 1. Filled ring (RingGeometry) showing the belt area
- * 2. Particle field with randomly distributed points
+ * 2. Particles on their own Keplerian orbits, drawn from the belt's
+ *    populations and moved by a shader so tens of thousands stay cheap
  * 3. Curved label text showing belt name
+ *
+ * Radii follow the view scale; the particles' orbits are drawn once per
+ * belt, so rescaling doesn't reshuffle them, and a scale switch blends two
+ * rings rather than building one per frame.
  */
-export function BeltRegion({ belt, showLabel = true }: BeltRegionProps) {
+export function BeltRegion({
+  belt,
+  clock,
+  showLabel = true,
+  scale = SCALE_STRATEGIES.true,
+}: BeltRegionProps) {
   const ringRef = useRef<THREE.Mesh>(null);
   const particlesRef = useRef<THREE.Points>(null);
 
   // Scale radii from AU to visualization units
-  const scaledInnerRadius = belt.innerRadiusAU * AU_TO_UNITS;
-  const scaledOuterRadius = belt.outerRadiusAU * AU_TO_UNITS;
+  const scaledInnerRadius = scale.distanceToUnits(belt.innerRadiusAU);
+  const scaledOuterRadius = scale.distanceToUnits(belt.outerRadiusAU);
 
-  // Create filled ring geometry
+  // Create filled ring geometry, once for each end of a scale switch
+  const { from, to } = getScaleTransition(scale);
   const ringGeometry = useMemo(() => {
-    return new THREE.RingGeometry(scaledInnerRadius, scaledOuterRadius, 128);
-  }, [scaledInnerRadius, scaledOuterRadius]);
+    const createRing = (strategy: ScaleStrategy) =>
+      new THREE.RingGeometry(
+        strategy.distanceToUnits(belt.innerRadiusAU),
+        strategy.distanceToUnits(belt.outerRadiusAU),
+        128,
+      );
+    const geometry = createRing(to);
+    return from === to ? geometry : addScaleMorph(geometry, createRing(from));
+  }, [belt.innerRadiusAU, belt.outerRadiusAU, from, to]);
 
   // Create ring material
   const ringMaterial = useMemo(() => {
@@ -79,55 +199,61 @@ export function BeltRegion({ belt, showLabel = true }: BeltRegionProps) {
     });
   }, [belt.color, belt.opacity]);
 
-  // Create particle positions randomly distributed in the belt region
+  // Orbits go to the GPU as attributes; the positions are computed there
   const particleGeometry = useMemo(() => {
-    const positions = new Float32Array(belt.particleCount * 3);
-    const colors = new Float32Array(belt.particleCount * 3);
-    const baseColor = new THREE.Color(belt.color);
-
-    // Generate random values inside useMemo
-    const randomValues = Array.from({ length: belt.particleCount * 4 }, () =>
-      Math.random(),
-    );
-
-    for (let i = 0; i < belt.particleCount; i++) {
-      const randomIndex = i * 4;
-      const angle = randomValues[randomIndex] * Math.PI * 2;
-      const radiusRange = scaledOuterRadius - scaledInnerRadius;
-      const radius =
-        scaledInnerRadius + randomValues[randomIndex + 1] * radiusRange;
-
-      const x = Math.cos(angle) * radius;
-      const y = (randomValues[randomIndex + 2] - 0.5) * radiusRange * 0.05;
-      const z = Math.sin(angle) * radius;
-
-      positions[i * 3] = x;
-      positions[i * 3 + 1] = y;
-      positions[i * 3 + 2] = z;
-
-      const colorVariation = 0.8 + randomValues[randomIndex + 3] * 0.4;
-      colors[i * 3] = baseColor.r * colorVariation;
-      colors[i * 3 + 1] = baseColor.g * colorVariation;
-      colors[i * 3 + 2] = baseColor.b * colorVariation;
-    }
-
+    const particles = sampleBeltParticles(belt);
     const geometry = new THREE.BufferGeometry();
-    geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3));
-    geometry.setAttribute("color", new THREE.BufferAttribute(colors, 3));
+    geometry.setAttribute(
+      "position",
+      new THREE.BufferAttribute(new Float32Array(particles.count * 3), 3),
+    );
+    geometry.setAttribute(
+      "orbitShape",
+      new THREE.BufferAttribute(particles.shapes, 4),
+    );
+    geometry.setAttribute(
+      "orbitPhase",
+      new THREE.BufferAttribute(particles.phases, 3),
+    );
+    geometry.setAttribute(
+      "brightness",
+      new THREE.BufferAttribute(particles.brightness, 1),
+    );
     return geometry;
-  }, [belt.particleCount, belt.color, scaledInnerRadius, scaledOuterRadius]);
+  }, [belt]);
+
+  const radialScale = useMemo(() => createRadialScaleTable(scale), [scale]);
 
   // Create particle material
   const particleMaterial = useMemo(() => {
-    return new THREE.PointsMaterial({
-      size: belt.particleSize,
-      vertexColors: true,
+    return new THREE.ShaderMaterial({
+      uniforms: {
+        days: { value: 0 },
+        radialScale: { value: new Float32Array(RADIAL_SCALE_SAMPLES) },
+        radialScaleMaxAU: { value: RADIAL_SCALE_MAX_AU },
+        pointSize: { value: belt.particleSize },
+        viewportHalfHeight: { value: 1 },
+        color: { value: new THREE.Color(belt.color) },
+        opacity: { value: 0.6 },
+      },
+      vertexShader: PARTICLE_VERTEX_SHADER,
+      fragmentShader: PARTICLE_FRAGMENT_SHADER,
       transparent: true,
-      opacity: 0.6,
-      sizeAttenuation: true,
       depthWrite: false,
     });
-  }, [belt.particleSize]);
+  }, [belt.color, belt.particleSize]);
+
+  // Read the clock every frame so the belts turn in Speed Mode as well as
+  // Date Mode
+  useFrame(({ gl, size }) => {
+    const material = particlesRef.current?.material;
+    if (!(material instanceof THREE.ShaderMaterial)) return;
+    const { uniforms } = material;
+    uniforms.days.value = getDaysSinceJ2000(getSimulatedDate(clock));
+    uniforms.radialScale.value = radialScale;
+    uniforms.pointSize.value = belt.particleSize * gl.getPixelRatio();
+    uniforms.viewportHalfHeight.value = size.height / 2;
+  });
 
   // Set render order and rotate ring to lie on ecliptic plane
   useEffect(() => {
@@ -150,28 +276,41 @@ export function BeltRegion({ belt, showLabel = true }: BeltRegionProps) {
     };
   }, [ringGeometry, ringMaterial, particleGeometry, particleMaterial]);
 
-  // Calculate label parameters
-  const labelRadius = (scaledInnerRadius + scaledOuterRadius) / 2;
-  const labelFontSize = (scaledOuterRadius - scaledInnerRadius) * 0.25;
+  // Calculate label parameters where a scale switch ends, so the text is
+  // laid out once; a group transform carries it there
+  const toInnerRadius = to.distanceToUnits(belt.innerRadiusAU);
+  const toOuterRadius = to.distanceToUnits(belt.outerRadiusAU);
+  const labelRadius = (toInnerRadius + toOuterRadius) / 2;
+  const labelFontSize = (toOuterRadius - toInnerRadius) * 0.25;
+  const labelScale = (scaledInnerRadius + scaledOuterRadius) / 2 / labelRadius;
 
   return (
     <group name={`belt-${belt.id}`}>
       {/* Filled ring showing belt area */}
-      <mesh ref={ringRef} geometry={ringGeometry} material={ringMaterial} />
-      {/* Particle field */}
+      <mesh
+        ref={ringRef}
+        geometry={ringGeometry}
+        material={ringMaterial}
+        morphTargetInfluences={getScaleMorphInfluences(scale)}
+      />
+      {/* Particles; their positions only exist in the shader, so the
+          geometry's bounds say nothing about where they are */}
       <points
         ref={particlesRef}
         geometry={particleGeometry}
         material={particleMaterial}
+        frustumCulled={false}
       />
       {/* Belt name label */}
       {showLabel && (
-        <BeltLabel
-          text={belt.name}
-          radius={labelRadius}
-          fontSize={labelFontSize}
-          color={belt.color}
-        />
+        <group scale={labelScale}>
+          <BeltLabel
+            text={belt.name}
+            radius={labelRadius}
+            fontSize={labelFontSize}
+            color={belt.color}
+          />
+        </group>
       )}
     </group>
   );
@@ -1,10 +1,16 @@
 "use client";
 
 import { BELT_DATA } from "@/features/belt-regions/data/belt-data";
+import type { SimulationClock } from "@/features/simulation-control/domain/simulation-clock";
+import type { ScaleStrategy } from "@/features/view-scale/domain/scale-strategy";
 import { BeltRegion } from "./belt-region";
 
 interface BeltRegionsProps {
   visible: boolean;
+  /** Simulation clock the particles' orbits follow */
+  clock: SimulationClock;
+  /** View scale for the belt radii (defaults to true scale) */
+  scale?: ScaleStrategy;
 }
 
 /**
@@ -12,7 +18,7 @@ interface BeltRegionsProps {
  * Maps over BELT_DATA and renders a BeltRegion for each belt.
  * Conditionally renders based on visible prop.
  */
-export function BeltRegions({ visible }: BeltRegionsProps) {
+export function BeltRegions({ visible, clock, scale }: BeltRegionsProps) {
   if (!visible) {
     return null;
   }
@@ -20,7 +26,7 @@ export function BeltRegions({ visible }: BeltRegionsProps) {
   return (
     <group name="belt-regions">
       {BELT_DATA.map((belt) => (
-        <BeltRegion key={belt.id} belt={belt} />
+        <BeltRegion key={belt.id} belt={belt} clock={clock} scale={scale} />
       ))}
     </group>
   );
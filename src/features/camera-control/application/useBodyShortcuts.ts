@@ -0,0 +1,55 @@
+"use client";
+
+import { useEffect } from "react";
+import type { PlanetData } from "@/data/planet-types";
+import { findSelectableBody } from "@/features/share-link/domain/view-state-codec";
+import {
+  BODY_SHORTCUTS,
+  RELEASE_CAMERA_KEY,
+} from "@/features/camera-control/domain/body-shortcuts";
+
+interface UseBodyShortcutsParams {
+  onFlyTo: (body: PlanetData) => void;
+  onRelease: () => void;
+  enabled?: boolean;
+}
+
+// Keys typed into form fields are not shortcuts
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+  );
+}
+
+/**
+ * Fly to bodies with the number keys and release the camera with Escape
+ */
+export function useBodyShortcuts({
+  onFlyTo,
+  onRelease,
+  enabled = true,
+}: UseBodyShortcutsParams) {
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.altKey || e.ctrlKey || e.metaKey || isEditableTarget(e.target)) {
+        return;
+      }
+
+      if (e.key === RELEASE_CAMERA_KEY) {
+        onRelease();
+        return;
+      }
+
+      if (!Object.hasOwn(BODY_SHORTCUTS, e.key)) return;
+      const body = findSelectableBody(BODY_SHORTCUTS[e.key]);
+      if (body) onFlyTo(body);
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [enabled, onFlyTo, onRelease]);
+}
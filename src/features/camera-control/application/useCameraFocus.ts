@@ -0,0 +1,42 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import type { FocusTarget } from "@/features/camera-control/domain/camera-flight";
+
+export interface CameraFocus {
+  /** Body (or point, such as a spacecraft) the camera flew to */
+  body: FocusTarget;
+  /** Distance to end the flight at (defaults to the body's view distance) */
+  viewDistance?: number;
+  /** Whether the camera keeps the body centred as it moves */
+  following: boolean;
+  /** Changes on every fly-to, so flying to the same body again restarts */
+  flightId: number;
+}
+
+/**
+ * Which body the camera is focused on
+ *
+ * flyTo starts a flight that ends following the body; release keeps the
+ * camera where it is and returns to free orbit.
+ */
+export function useCameraFocus() {
+  const [cameraFocus, setCameraFocus] = useState<CameraFocus | null>(null);
+
+  const flyTo = useCallback((body: FocusTarget, viewDistance?: number) => {
+    setCameraFocus((current) => ({
+      body,
+      viewDistance,
+      following: true,
+      flightId: (current?.flightId ?? 0) + 1,
+    }));
+  }, []);
+
+  const release = useCallback(() => {
+    setCameraFocus((current) =>
+      current?.following ? { ...current, following: false } : current,
+    );
+  }, []);
+
+  return { cameraFocus, flyTo, release };
+}
@@ -0,0 +1,34 @@
+/**
+ * Keyboard shortcuts for flying the camera to bodies
+ */
+
+/**
+ * Keys that fly to a body: 0 for the Sun, 1-8 for the planets outwards and
+ * 9 for Pluto
+ */
+export const BODY_SHORTCUTS: Readonly<Record<string, string>> = {
+  "0": "Sun",
+  "1": "Mercury",
+  "2": "Venus",
+  "3": "Earth",
+  "4": "Mars",
+  "5": "Jupiter",
+  "6": "Saturn",
+  "7": "Uranus",
+  "8": "Neptune",
+  "9": "Pluto",
+};
+
+/**
+ * Key that stops following a body and returns to free orbit
+ */
+export const RELEASE_CAMERA_KEY = "Escape";
+
+/**
+ * Shortcut key for a body, if it has one
+ */
+export function getBodyShortcut(bodyName: string): string | undefined {
+  return Object.keys(BODY_SHORTCUTS).find(
+    (key) => BODY_SHORTCUTS[key] === bodyName,
+  );
+}
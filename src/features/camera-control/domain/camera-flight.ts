@@ -0,0 +1,199 @@
+/**
+ * Camera flights
+ * Moves the camera and its orbit target from where they are to a body,
+ * ending at a distance where the body fills a comfortable part of the view.
+ */
+
+import { Vector3 } from "three";
+import type { PlanetData } from "@/data/planet-types";
+import type { BeltData } from "@/features/belt-regions/data/belt-data";
+import { easeInOutCubic, type EasingFunction } from "@/utils/easing-functions";
+import {
+  SCALE_STRATEGIES,
+  getScaledBodyRadius,
+  type ScaleStrategy,
+} from "@/features/view-scale/domain/scale-strategy";
+
+export interface CameraView {
+  /** Camera position in scene units */
+  position: Vector3;
+  /** Point the camera looks at and orbits around */
+  target: Vector3;
+}
+
+/**
+ * Something too small to draw to scale, such as a spacecraft, that the camera
+ * can fly to and follow; found in the scene by name and framed from a fixed
+ * distance
+ */
+export interface FocusPoint {
+  name: string;
+  /** Distance from the point at which a flight ends, in scene units */
+  viewDistance: number;
+}
+
+/**
+ * What the camera can focus on: a body or a point
+ */
+export type FocusTarget = PlanetData | FocusPoint;
+
+export interface FlightDurationConfig {
+  minDuration: number;
+  maxDuration: number;
+}
+
+/**
+ * OrbitControls minimum distance when no body is focused
+ */
+export const FREE_ORBIT_MIN_DISTANCE = 100;
+
+/**
+ * OrbitControls maximum distance
+ */
+export const MAX_VIEW_DISTANCE = 60_000;
+
+// Distance to the Sun, in belt radii, that frames a whole belt
+const BELT_VIEW_RADII = 1.2;
+
+// A body this many radii away fills about a sixth of a 60° view
+const VIEW_DISTANCE_RADII = 6;
+// Stop zooming before the camera enters the body
+const MIN_DISTANCE_RADII = 1.5;
+
+// Closest the camera may zoom to a focus point
+const FOCUS_POINT_MIN_DISTANCE = 5;
+
+// Direction to approach from when the camera is already at the body
+const DEFAULT_APPROACH = new Vector3(0, 1, 2).normalize();
+// Closer than this (squared, in scene units) counts as at the body; tinier
+// offsets have no reliable direction
+const MIN_APPROACH_LENGTH_SQ = 1e-12;
+
+const DEFAULT_DURATION: FlightDurationConfig = {
+  minDuration: 800,
+  maxDuration: 3000,
+};
+
+/**
+ * Radius of a body's sphere in scene units (Earth radius = 1 unit at true
+ * scale), as drawn under the view scale
+ */
+export function getBodyRadius(
+  body: PlanetData,
+  scale: ScaleStrategy = SCALE_STRATEGIES.true,
+): number {
+  return getScaledBodyRadius(body, scale);
+}
+
+function isFocusPoint(target: FocusTarget): target is FocusPoint {
+  return !("diameterRelativeEarth" in target);
+}
+
+/**
+ * Distance from a body's centre (or a point) at which a flight ends
+ */
+export function getViewDistance(
+  body: FocusTarget,
+  scale?: ScaleStrategy,
+): number {
+  if (isFocusPoint(body)) return body.viewDistance;
+  return getBodyRadius(body, scale) * VIEW_DISTANCE_RADII;
+}
+
+/**
+ * Closest the camera may zoom to a focused body or point
+ */
+export function getFocusMinDistance(
+  body: FocusTarget,
+  scale?: ScaleStrategy,
+): number {
+  if (isFocusPoint(body)) return FOCUS_POINT_MIN_DISTANCE;
+  return getBodyRadius(body, scale) * MIN_DISTANCE_RADII;
+}
+
+/**
+ * Distance from the Sun at which a whole belt fits in view
+ */
+export function getBeltViewDistance(
+  belt: BeltData,
+  scale: ScaleStrategy = SCALE_STRATEGIES.true,
+): number {
+  return Math.min(
+    scale.distanceToUnits(belt.outerRadiusAU) * BELT_VIEW_RADII,
+    MAX_VIEW_DISTANCE,
+  );
+}
+
+/**
+ * Flight duration for a distance: longer trips take longer, on a log scale so
+ * crossing the Kuiper belt does not take minutes
+ * @param distance - Distance the camera travels in scene units
+ * @returns Duration in milliseconds
+ */
+export function getFlightDuration(
+  distance: number,
+  config: FlightDurationConfig = DEFAULT_DURATION,
+): number {
+  if (!Number.isFinite(distance) || distance <= 0) return config.minDuration;
+  const duration = config.minDuration + Math.log10(1 + distance) * 500;
+  return Math.min(config.maxDuration, duration);
+}
+
+/**
+ * Eased progress of a flight
+ * @param elapsedMs - Time since the flight started
+ * @param durationMs - Flight duration
+ * @returns Progress from 0 to 1
+ */
+export function getFlightProgress(
+  elapsedMs: number,
+  durationMs: number,
+  easing: EasingFunction = easeInOutCubic,
+): number {
+  if (durationMs <= 0) return 1;
+  const t = Math.min(Math.max(elapsedMs / durationMs, 0), 1);
+  return easing(t);
+}
+
+/**
+ * Where a flight to a body ends: the target on the body and the camera
+ * viewDistance away, on the side it approaches from
+ * @param bodyPosition - Body's world position
+ * @param fromPosition - Camera position when the flight started
+ * @param viewDistance - Distance to end at
+ * @param out - View to write into
+ * @returns out
+ */
+export function getFlightDestination(
+  bodyPosition: Vector3,
+  fromPosition: Vector3,
+  viewDistance: number,
+  out: CameraView,
+): CameraView {
+  out.position.subVectors(fromPosition, bodyPosition);
+  if (out.position.lengthSq() < MIN_APPROACH_LENGTH_SQ) {
+    out.position.copy(DEFAULT_APPROACH);
+  }
+  out.position.setLength(viewDistance).add(bodyPosition);
+  out.target.copy(bodyPosition);
+  return out;
+}
+
+/**
+ * Camera view part way through a flight
+ * @param from - View when the flight started
+ * @param to - Destination view
+ * @param progress - Eased progress from 0 to 1
+ * @param out - View to write into
+ * @returns out
+ */
+export function interpolateCameraView(
+  from: CameraView,
+  to: CameraView,
+  progress: number,
+  out: CameraView,
+): CameraView {
+  out.position.lerpVectors(from.position, to.position, progress);
+  out.target.lerpVectors(from.target, to.target, progress);
+  return out;
+}
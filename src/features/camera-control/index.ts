@@ -0,0 +1,6 @@
+export * from "@/features/camera-control/domain/camera-flight";
+export * from "@/features/camera-control/domain/body-shortcuts";
+export * from "@/features/camera-control/application/useCameraFocus";
+export * from "@/features/camera-control/application/useBodyShortcuts";
+export * from "@/features/camera-control/ui/camera-controller";
+export * from "@/features/camera-control/ui/body-list";
@@ -0,0 +1,116 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronDown, ChevronUp, LocateFixed, Orbit } from "lucide-react";
+import { sunData, planetData } from "@/data/planet-data";
+import { dwarfPlanetData } from "@/data/dwarf-planet-data";
+import { PlanetData } from "@/data/planet-types";
+import { getMoonsForPlanet } from "@/features/moons/data/moon-data";
+import type { CameraFocus } from "@/features/camera-control/application/useCameraFocus";
+import {
+  RELEASE_CAMERA_KEY,
+  getBodyShortcut,
+} from "@/features/camera-control/domain/body-shortcuts";
+
+interface BodyListProps {
+  /** Body the camera is focused on */
+  focus: CameraFocus | null;
+  /** Fly the camera to a body and follow it */
+  onFlyTo: (body: PlanetData) => void;
+  /** Stop following and return to free orbit */
+  onRelease: () => void;
+}
+
+// Planets with their moons listed underneath, then the dwarf planets
+const BODY_GROUPS: { title: string; bodies: PlanetData[] }[] = [
+  { title: "Star", bodies: [sunData] },
+  {
+    title: "Planets",
+    bodies: planetData.flatMap((planet) => [
+      planet,
+      ...getMoonsForPlanet(planet.name),
+    ]),
+  },
+  { title: "Dwarf planets", bodies: dwarfPlanetData },
+];
+
+const PARENT_NAMES = new Set(
+  [sunData, ...planetData, ...dwarfPlanetData].map((body) => body.name),
+);
+
+/**
+ * List of bodies the camera can fly to, with their keyboard shortcuts
+ */
+export function BodyList({ focus, onFlyTo, onRelease }: BodyListProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const followedName = focus?.following ? focus.body.name : null;
+
+  return (
+    <div
+      className="bg-black/80 text-white rounded-md text-sm w-48"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        className="flex items-center justify-between w-full px-3 py-2 hover:bg-black/90 rounded-md transition-colors"
+        aria-expanded={isOpen}
+        aria-controls="body-list"
+      >
+        <span className="flex items-center gap-2">
+          <LocateFixed size={16} />
+          {followedName ? `Following ${followedName}` : "Fly to"}
+        </span>
+        {isOpen ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+      </button>
+
+      {followedName && (
+        <button
+          onClick={onRelease}
+          className="flex items-center gap-2 w-full px-3 py-1 text-xs text-blue-300 hover:bg-gray-800 transition-colors"
+          title={`Return to free orbit (${RELEASE_CAMERA_KEY})`}
+        >
+          <Orbit size={14} />
+          Free orbit
+        </button>
+      )}
+
+      {isOpen && (
+        <div
+          id="body-list"
+          className="max-h-[50vh] overflow-y-auto px-1 pb-2"
+        >
+          {BODY_GROUPS.map((group) => (
+            <div key={group.title} className="mt-2">
+              <h3 className="px-2 text-xs text-gray-400">{group.title}</h3>
+              <ul>
+                {group.bodies.map((body) => {
+                  const shortcut = getBodyShortcut(body.name);
+                  const isMoon = !PARENT_NAMES.has(body.name);
+                  return (
+                    <li key={body.name}>
+                      <button
+                        onClick={() => onFlyTo(body)}
+                        className={`flex items-center justify-between w-full py-1 pr-2 rounded hover:bg-gray-700 transition-colors ${
+                          isMoon ? "pl-6 text-xs text-gray-300" : "pl-2"
+                        } ${followedName === body.name ? "bg-blue-500/30" : ""}`}
+                        aria-label={`Fly to ${body.name}`}
+                        aria-current={followedName === body.name}
+                      >
+                        <span>{body.name}</span>
+                        {shortcut && (
+                          <kbd className="text-xs text-gray-400">
+                            {shortcut}
+                          </kbd>
+                        )}
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+"use client";
+
+import { useEffect, useMemo, useRef } from "react";
+import { useFrame, useThree } from "@react-three/fiber";
+import { Vector3 } from "three";
+import type { CameraFocus } from "@/features/camera-control/application/useCameraFocus";
+import {
+  getFlightDestination,
+  getFlightDuration,
+  getFlightProgress,
+  getViewDistance,
+  interpolateCameraView,
+  type CameraView,
+} from "@/features/camera-control/domain/camera-flight";
+import type { ScaleStrategy } from "@/features/view-scale/domain/scale-strategy";
+
+/**
+ * The parts of the default OrbitControls the controller drives
+ */
+interface FocusControls {
+  target: Vector3;
+  update: () => void;
+  addEventListener: (type: "start", listener: () => void) => void;
+  removeEventListener: (type: "start", listener: () => void) => void;
+}
+
+/**
+ * Whether the default controls orbit a target, as OrbitControls do
+ */
+function isFocusControls(controls: unknown): controls is FocusControls {
+  if (!controls || typeof controls !== "object") return false;
+  const candidate = controls as Record<string, unknown>;
+  return (
+    candidate.target instanceof Vector3 &&
+    typeof candidate.update === "function" &&
+    typeof candidate.addEventListener === "function" &&
+    typeof candidate.removeEventListener === "function"
+  );
+}
+
+interface ActiveFlight {
+  from: CameraView;
+  startMs: number;
+  durationMs: number;
+}
+
+/**
+ * Flies the camera to the focused body and keeps it centred while followed.
+ *
+ * Bodies are found by their object name in the scene. Dragging the view
+ * during a flight ends the flight early; following carries on from there.
+ * Must be placed inside the Canvas after the bodies, with OrbitControls
+ * registered as the default controls.
+ */
+export function CameraController({
+  focus,
+  scale,
+}: {
+  focus: CameraFocus | null;
+  /** View scale the bodies are drawn at */
+  scale?: ScaleStrategy;
+}) {
+  const camera = useThree((state) => state.camera);
+  const scene = useThree((state) => state.scene);
+  const controls = useThree((state) =>
+    isFocusControls(state.controls) ? state.controls : null,
+  );
+
+  const flightRef = useRef<ActiveFlight | null>(null);
+  const flightIdRef = useRef<number | null>(null);
+  const scratch = useMemo(
+    () => ({
+      body: new Vector3(),
+      lastBody: new Vector3(),
+      destination: { position: new Vector3(), target: new Vector3() },
+      view: { position: new Vector3(), target: new Vector3() },
+    }),
+    [],
+  );
+
+  // Let the user take over mid-flight
+  useEffect(() => {
+    if (!controls) return;
+    const cancelFlight = () => {
+      flightRef.current = null;
+    };
+    controls.addEventListener("start", cancelFlight);
+    return () => controls.removeEventListener("start", cancelFlight);
+  }, [controls]);
+
+  useFrame(() => {
+    if (!focus || !controls) return;
+    if (!focus.following) {
+      flightRef.current = null;
+      return;
+    }
+
+    const object = scene.getObjectByName(focus.body.name);
+    if (!object) return;
+    object.getWorldPosition(scratch.body);
+    const nowMs = performance.now();
+
+    if (focus.flightId !== flightIdRef.current) {
+      flightIdRef.current = focus.flightId;
+      flightRef.current = {
+        from: {
+          position: camera.position.clone(),
+          target: controls.target.clone(),
+        },
+        startMs: nowMs,
+        durationMs: getFlightDuration(camera.position.distanceTo(scratch.body)),
+      };
+    }
+
+    const flight = flightRef.current;
+    if (flight) {
+      getFlightDestination(
+        scratch.body,
+        flight.from.position,
+        focus.viewDistance ?? getViewDistance(focus.body, scale),
+        scratch.destination,
+      );
+      const progress = getFlightProgress(
+        nowMs - flight.startMs,
+        flight.durationMs,
+      );
+      interpolateCameraView(
+        flight.from,
+        scratch.destination,
+        progress,
+        scratch.view,
+      );
+      camera.position.copy(scratch.view.position);
+      controls.target.copy(scratch.view.target);
+      if (progress >= 1) flightRef.current = null;
+    } else {
+      // Move with the body, keeping the user's angle and zoom
+      scratch.view.position.subVectors(scratch.body, scratch.lastBody);
+      camera.position.add(scratch.view.position);
+      controls.target.add(scratch.view.position);
+    }
+
+    scratch.lastBody.copy(scratch.body);
+  });
+
+  return null;
+}
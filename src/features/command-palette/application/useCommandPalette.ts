@@ -0,0 +1,41 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+// Typing "/" into a form field is text, not a shortcut
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+  );
+}
+
+/**
+ * Open state of the command palette, opened with Ctrl/Cmd+K or "/"
+ * @param enabled - Whether the shortcuts are active
+ */
+export function useCommandPalette(enabled: boolean = true) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const open = useCallback(() => setIsOpen(true), []);
+  const close = useCallback(() => setIsOpen(false), []);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const isModK = (e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "k";
+      const isSlash = e.key === "/" && !isEditableTarget(e.target);
+      if (isModK || isSlash) {
+        e.preventDefault();
+        setIsOpen((current) => (isModK ? !current : true));
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [enabled]);
+
+  return { isOpen, open, close };
+}
@@ -0,0 +1,96 @@
+/**
+ * Fuzzy matching
+ * Matches a query whose characters appear in order in the text, not
+ * necessarily next to each other ("jptr" matches "Jupiter").
+ */
+
+export interface FuzzyMatch {
+  /** Higher is a better match */
+  score: number;
+  /** Positions in the text of the matched characters */
+  indices: number[];
+}
+
+const CONSECUTIVE_BONUS = 5;
+const WORD_START_BONUS = 8;
+const TEXT_START_BONUS = 10;
+const GAP_PENALTY = 1;
+
+function isWordStart(text: string, index: number): boolean {
+  return index === 0 || /[\s\-_(/]/.test(text[index - 1]);
+}
+
+function isSubsequence(
+  needle: string,
+  haystack: string,
+  from: number,
+): boolean {
+  let position = from;
+  for (const char of needle) {
+    position = haystack.indexOf(char, position);
+    if (position === -1) return false;
+    position++;
+  }
+  return true;
+}
+
+/**
+ * Match a query against a text (case-insensitive)
+ *
+ * Each query character takes its earliest position after the previous one,
+ * preferring the start of a word. Runs of consecutive characters and matches
+ * at word starts score higher; gaps score lower.
+ *
+ * @param query - Search query (whitespace is ignored)
+ * @param text - Text to search in
+ * @returns Match, or null when the query's characters are not all in the text
+ */
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const needle = query.toLowerCase().replace(/\s+/g, "");
+  if (needle === "") return { score: 0, indices: [] };
+
+  const haystack = text.toLowerCase();
+  const indices: number[] = [];
+  let score = 0;
+  let from = 0;
+
+  for (let n = 0; n < needle.length; n++) {
+    const char = needle[n];
+    const next = haystack.indexOf(char, from);
+    if (next === -1) return null;
+
+    // Jump to a later word start with the same character when the earliest
+    // position is mid-word and not continuing a run, as long as the rest of
+    // the query still fits after it
+    let index = next;
+    const previous = indices[indices.length - 1];
+    if (previous === undefined || next !== previous + 1) {
+      for (let i = next; i < haystack.length; i++) {
+        if (
+          haystack[i] === char &&
+          isWordStart(text, i) &&
+          isSubsequence(needle.slice(n + 1), haystack, i + 1)
+        ) {
+          index = i;
+          break;
+        }
+      }
+    }
+
+    if (index === 0) score += TEXT_START_BONUS;
+    if (isWordStart(text, index)) score += WORD_START_BONUS;
+    if (previous !== undefined) {
+      score +=
+        index === previous + 1
+          ? CONSECUTIVE_BONUS
+          : -GAP_PENALTY * (index - previous - 1);
+    }
+
+    indices.push(index);
+    from = index + 1;
+  }
+
+  // Prefer shorter texts when matches are otherwise equal
+  score -= (haystack.length - needle.length) * 0.1;
+  return { score, indices };
+}
@@ -0,0 +1,169 @@
+/**
+ * Command palette items
+ * Everything the palette can jump to: bodies, belt regions and historical
+ * events, with the text each one is searched by.
+ */
+
+import { sunData, planetData } from "@/data/planet-data";
+import { dwarfPlanetData } from "@/data/dwarf-planet-data";
+import { PlanetData } from "@/data/planet-types";
+import { MOON_DATA } from "@/features/moons/data/moon-data";
+import { BELT_DATA, BeltData } from "@/features/belt-regions/data/belt-data";
+import { HISTORICAL_EVENTS } from "@/features/historical-events/data/historical-events";
+import { formatEventDate } from "@/features/historical-events/domain/historical-events-utils";
+import {
+  EVENT_CATEGORY_LABELS,
+  HistoricalEvent,
+} from "@/features/historical-events/data/historical-events-types";
+import { fuzzyMatch } from "@/features/command-palette/domain/fuzzy-match";
+
+interface BasePaletteItem {
+  id: string;
+  /** Text shown and matched first */
+  label: string;
+  /** Secondary text shown next to the label */
+  detail: string;
+  /** Extra text searched for the query's words, ranked below the label */
+  keywords: string;
+}
+
+export interface BodyPaletteItem extends BasePaletteItem {
+  kind: "body";
+  body: PlanetData;
+}
+
+export interface BeltPaletteItem extends BasePaletteItem {
+  kind: "belt";
+  belt: BeltData;
+}
+
+export interface EventPaletteItem extends BasePaletteItem {
+  kind: "event";
+  event: HistoricalEvent;
+}
+
+export type PaletteItem = BodyPaletteItem | BeltPaletteItem | EventPaletteItem;
+
+export interface PaletteResult {
+  item: PaletteItem;
+  /** Matched character positions in the label (empty for keyword matches) */
+  labelIndices: number[];
+}
+
+/**
+ * Most results shown at once
+ */
+export const MAX_PALETTE_RESULTS = 50;
+
+// Score of a keyword match, below most label matches
+const KEYWORD_SCORE = -20;
+
+// Bodies before belts before events when scores tie
+const KIND_ORDER: Record<PaletteItem["kind"], number> = {
+  body: 0,
+  belt: 1,
+  event: 2,
+};
+
+function getBodyDetail(body: PlanetData): string {
+  if (body === sunData) return "Star";
+  if (planetData.includes(body)) return "Planet";
+  if (dwarfPlanetData.includes(body)) return "Dwarf planet";
+  const moon = MOON_DATA.find((candidate) => candidate === body);
+  return moon ? `Moon of ${moon.parentName}` : "Body";
+}
+
+// Every word of the query appears in the keywords
+function matchesKeywords(query: string, keywords: string): boolean {
+  const text = keywords.toLowerCase();
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((word) => text.includes(word));
+}
+
+/**
+ * Build the list of everything the palette can jump to
+ * @returns Bodies (Sun, planets, dwarf planets, moons), belts, then events
+ */
+export function buildPaletteItems(): PaletteItem[] {
+  const bodies: BodyPaletteItem[] = [
+    sunData,
+    ...planetData,
+    ...dwarfPlanetData,
+    ...MOON_DATA,
+  ].map((body) => ({
+    kind: "body",
+    id: `body:${body.name}`,
+    label: body.name,
+    detail: getBodyDetail(body),
+    keywords: `${getBodyDetail(body)} ${body.description}`,
+    body,
+  }));
+
+  const belts: BeltPaletteItem[] = BELT_DATA.map((belt) => ({
+    kind: "belt",
+    id: `belt:${belt.id}`,
+    label: belt.name,
+    detail: `${belt.innerRadiusAU}–${belt.outerRadiusAU} AU`,
+    keywords: belt.description,
+    belt,
+  }));
+
+  const events: EventPaletteItem[] = HISTORICAL_EVENTS.map((event) => ({
+    kind: "event",
+    id: `event:${event.id}`,
+    label: event.name,
+    detail: formatEventDate(event.date),
+    keywords: `${EVENT_CATEGORY_LABELS[event.category]} ${event.description}`,
+    event,
+  }));
+
+  return [...bodies, ...belts, ...events];
+}
+
+/**
+ * Search palette items, best matches first
+ *
+ * Labels are fuzzy matched; items whose label does not match are still found
+ * when every word of the query appears in their keywords.
+ *
+ * @param items - Items to search
+ * @param query - Search query; an empty query lists items in their order
+ * @param limit - Most results to return
+ * @returns Matching items with the matched label positions
+ */
+export function searchPaletteItems(
+  items: PaletteItem[],
+  query: string,
+  limit: number = MAX_PALETTE_RESULTS,
+): PaletteResult[] {
+  if (query.trim() === "") {
+    return items.slice(0, limit).map((item) => ({ item, labelIndices: [] }));
+  }
+
+  const scored: (PaletteResult & { score: number })[] = [];
+  items.forEach((item) => {
+    const labelMatch = fuzzyMatch(query, item.label);
+    if (labelMatch) {
+      scored.push({
+        item,
+        labelIndices: labelMatch.indices,
+        score: labelMatch.score,
+      });
+      return;
+    }
+    if (matchesKeywords(query, item.keywords)) {
+      scored.push({ item, labelIndices: [], score: KEYWORD_SCORE });
+    }
+  });
+
+  return scored
+    .sort(
+      (a, b) =>
+        b.score - a.score || KIND_ORDER[a.item.kind] - KIND_ORDER[b.item.kind],
+    )
+    .slice(0, limit)
+    .map(({ item, labelIndices }) => ({ item, labelIndices }));
+}
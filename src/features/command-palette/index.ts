@@ -0,0 +1,4 @@
+export * from "@/features/command-palette/domain/fuzzy-match";
+export * from "@/features/command-palette/domain/palette-items";
+export * from "@/features/command-palette/application/useCommandPalette";
+export * from "@/features/command-palette/ui/command-palette";
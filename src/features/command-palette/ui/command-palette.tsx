@@ -0,0 +1,219 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import { CalendarDays, Circle, Globe, Search } from "lucide-react";
+import { cn } from "@/shared/ui/cn";
+import {
+  buildPaletteItems,
+  searchPaletteItems,
+  type PaletteItem,
+} from "@/features/command-palette/domain/palette-items";
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Called with the chosen item; the palette closes afterwards */
+  onSelect: (item: PaletteItem) => void;
+}
+
+const PALETTE_ITEMS = buildPaletteItems();
+
+const KIND_ICONS = {
+  body: Globe,
+  belt: Circle,
+  event: CalendarDays,
+} as const;
+
+const RESULTS_ID = "command-palette-results";
+
+function getOptionId(index: number): string {
+  return `command-palette-option-${index}`;
+}
+
+/**
+ * Label with the fuzzy-matched characters highlighted
+ */
+function HighlightedLabel({
+  label,
+  indices,
+}: {
+  label: string;
+  indices: number[];
+}) {
+  if (indices.length === 0) return <>{label}</>;
+  const matched = new Set(indices);
+  return (
+    <>
+      {Array.from(label).map((char, index) =>
+        matched.has(index) ? (
+          <mark
+            key={index}
+            className="bg-transparent text-blue-300 font-semibold"
+          >
+            {char}
+          </mark>
+        ) : (
+          <span key={index}>{char}</span>
+        ),
+      )}
+    </>
+  );
+}
+
+/**
+ * Searchable list of bodies, belts and historical events to jump to
+ */
+export function CommandPalette({
+  isOpen,
+  onClose,
+  onSelect,
+}: CommandPaletteProps) {
+  return (
+    <AnimatePresence>
+      {isOpen && <PaletteDialog onClose={onClose} onSelect={onSelect} />}
+    </AnimatePresence>
+  );
+}
+
+// Mounted only while open, so the query starts empty each time
+function PaletteDialog({
+  onClose,
+  onSelect,
+}: Omit<CommandPaletteProps, "isOpen">) {
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const results = useMemo(
+    () => searchPaletteItems(PALETTE_ITEMS, query),
+    [query],
+  );
+
+  // Keep the highlighted result visible while navigating with the keyboard
+  useEffect(() => {
+    const option = listRef.current?.querySelector<HTMLElement>(
+      `#${getOptionId(activeIndex)}`,
+    );
+    option?.scrollIntoView?.({ block: "nearest" });
+  }, [activeIndex]);
+
+  const choose = (item: PaletteItem) => {
+    onSelect(item);
+    onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        if (results.length > 0) {
+          setActiveIndex((index) => (index + 1) % results.length);
+        }
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        if (results.length > 0) {
+          setActiveIndex(
+            (index) => (index - 1 + results.length) % results.length,
+          );
+        }
+        break;
+      case "Enter":
+        e.preventDefault();
+        if (results[activeIndex]) choose(results[activeIndex].item);
+        break;
+      case "Escape":
+        e.preventDefault();
+        onClose();
+        break;
+    }
+  };
+
+  return (
+    <motion.div
+      className="fixed inset-0 z-modal flex items-start justify-center pt-[15vh] bg-black/50"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.15 }}
+      onClick={onClose}
+    >
+      <div
+        className="w-[480px] max-w-[calc(100vw-2rem)] bg-gray-900 text-white border border-white/20 rounded-xl shadow-xl overflow-hidden"
+        role="dialog"
+        aria-label="Search bodies and events"
+        aria-modal="true"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 px-3 border-b border-white/10">
+          <Search className="w-4 h-4 text-gray-400" />
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setActiveIndex(0);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder="Search planets, moons, belts, events…"
+            className="flex-1 bg-transparent py-3 text-sm outline-none placeholder:text-gray-500"
+            role="combobox"
+            aria-expanded="true"
+            aria-controls={RESULTS_ID}
+            aria-activedescendant={
+              results.length > 0 ? getOptionId(activeIndex) : undefined
+            }
+            aria-label="Search"
+          />
+        </div>
+
+        {results.length === 0 ? (
+          <p className="px-4 py-6 text-center text-sm text-gray-400">
+            No matches for &ldquo;{query}&rdquo;
+          </p>
+        ) : (
+          <ul
+            ref={listRef}
+            id={RESULTS_ID}
+            role="listbox"
+            className="max-h-[50vh] overflow-y-auto py-1"
+          >
+            {results.map(({ item, labelIndices }, index) => {
+              const Icon = KIND_ICONS[item.kind];
+              return (
+                <li
+                  key={item.id}
+                  id={getOptionId(index)}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  onClick={() => choose(item)}
+                  className={cn(
+                    "flex items-center gap-3 px-3 py-2 cursor-pointer text-sm",
+                    index === activeIndex && "bg-blue-500/30",
+                  )}
+                >
+                  <Icon className="w-4 h-4 shrink-0 text-gray-400" />
+                  <span className="flex-1 truncate">
+                    <HighlightedLabel
+                      label={item.label}
+                      indices={labelIndices}
+                    />
+                  </span>
+                  <span className="text-xs text-gray-400 whitespace-nowrap">
+                    {item.detail}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <div className="px-3 py-2 border-t border-white/10 text-xs text-gray-500">
+          ↑↓ to navigate · Enter to jump · Esc to close
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -10,6 +10,7 @@ import { AnimationSpeedControl } from "@/features/simulation-control/ui/animatio
 import { TransitionProgress } from "@/components/date-picker/transition-progress";
 import { HistoricalEventsPanel } from "@/features/historical-events/ui/historical-events-panel";
 import { HistoricalEvent } from "@/features/historical-events/data/historical-events-types";
+import { getEventJumpDate } from "@/features/missions/domain/mission-trajectory";
 import {
   ANIMATION_SPEED_STORAGE_KEY,
   DEFAULT_ANIMATION_SPEED,
@@ -66,6 +67,8 @@ export interface DatePickerProps {
   selectedDate: Date;
   /** Callback when date changes */
   onDateChange: (date: Date) => void;
+  /** Callback when a historical event is chosen, after the date changes */
+  onEventSelect?: (event: HistoricalEvent) => void;
   /** Optional className for additional styling */
   className?: string;
 }
@@ -135,6 +138,7 @@ function parseInputDate(value: string): Date | null {
 export function DatePicker({
   selectedDate,
   onDateChange,
+  onEventSelect,
   className = "",
 }: DatePickerProps) {
   const [error, setError] = useState<string | null>(null);
@@ -223,10 +227,12 @@ export function DatePicker({
   // Handle historical event selection from panel
   const handleHistoricalEventSelect = useCallback(
     (event: HistoricalEvent) => {
-      handleDateChange(event.date);
+      // Mission events start at launch, so the craft can be followed out
+      handleDateChange(getEventJumpDate(event));
       setShowHistoricalPanel(false);
+      onEventSelect?.(event);
     },
-    [handleDateChange],
+    [handleDateChange, onEventSelect],
   );
 
   // Touch gesture state
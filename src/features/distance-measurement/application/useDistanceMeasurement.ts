@@ -0,0 +1,57 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import {
+  DISTANCE_SPANS,
+  MEASURABLE_BODY_NAMES,
+} from "@/features/distance-measurement/domain/body-distance";
+
+/**
+ * The two bodies being measured between
+ */
+export interface MeasuredPair {
+  from: string;
+  to: string;
+}
+
+const DEFAULT_PAIR: MeasuredPair = { from: "Earth", to: "Mars" };
+
+/**
+ * Whether the measurement tool is open, which bodies it measures between and
+ * how long a span its distance plot covers
+ */
+export function useDistanceMeasurement() {
+  const [isMeasuring, setIsMeasuring] = useState(false);
+  const [pair, setPairState] = useState<MeasuredPair>(DEFAULT_PAIR);
+  const [spanDays, setSpanDays] = useState(DISTANCE_SPANS[2].days);
+
+  const toggleMeasuring = useCallback(() => {
+    setIsMeasuring((measuring) => !measuring);
+  }, []);
+
+  const setPair = useCallback((next: MeasuredPair) => {
+    if (
+      !MEASURABLE_BODY_NAMES.includes(next.from) ||
+      !MEASURABLE_BODY_NAMES.includes(next.to)
+    ) {
+      console.warn(`Cannot measure between ${next.from} and ${next.to}`);
+      return;
+    }
+    setPairState(next);
+  }, []);
+
+  const swapPair = useCallback(() => {
+    setPairState(({ from, to }) => ({ from: to, to: from }));
+  }, []);
+
+  return {
+    isMeasuring,
+    pair,
+    spanDays,
+    setIsMeasuring,
+    toggleMeasuring,
+    setPair,
+    swapPair,
+    setSpanDays,
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * Body distance
+ * True distance between two bodies on a date, from their heliocentric
+ * positions (Astronomy Engine for the planets and Pluto, Keplerian elements
+ * for the other dwarf planets), and the time light takes to cross it.
+ */
+
+import * as AE from "astronomy-engine";
+import { planetData, sunData } from "@/data/planet-data";
+import { dwarfPlanetData } from "@/data/dwarf-planet-data";
+import { calculateHeliocentricVector } from "@/utils/astronomy-calculations";
+import type { EclipticPosition } from "@/utils/orbital-elements";
+
+/**
+ * Speed of light in km/s
+ */
+export const SPEED_OF_LIGHT_KM_S = 299_792.458;
+
+/**
+ * Bodies a distance can be measured between, Sun first
+ */
+export const MEASURABLE_BODY_NAMES = [
+  sunData,
+  ...planetData,
+  ...dwarfPlanetData,
+].map((body) => body.name);
+
+/**
+ * Points in a distance plot
+ */
+export const DISTANCE_PLOT_SAMPLES = 120;
+
+export interface DistanceSpan {
+  label: string;
+  /** Length of the plot, centred on the selected date */
+  days: number;
+}
+
+/**
+ * Spans the distance plot can cover
+ */
+export const DISTANCE_SPANS: DistanceSpan[] = [
+  { label: "3 months", days: 91 },
+  { label: "1 year", days: 365 },
+  { label: "2 years", days: 730 },
+  { label: "10 years", days: 3652 },
+];
+
+export interface BodyDistance {
+  distanceAU: number;
+  distanceKm: number;
+  /** One-way light time in seconds */
+  lightTimeSeconds: number;
+}
+
+export interface DistanceSample {
+  timeMs: number;
+  distanceAU: number;
+}
+
+const MS_PER_DAY = 86_400_000;
+
+/**
+ * Heliocentric ecliptic vector of a body in AU (the Sun at the origin)
+ * @param name - Name of one of MEASURABLE_BODY_NAMES
+ * @param date - Moment of the position
+ * @returns Position, or null if it cannot be calculated
+ */
+export function getBodyVector(
+  name: string,
+  date: Date,
+): EclipticPosition | null {
+  if (name === sunData.name) return { x: 0, y: 0, z: 0 };
+  return calculateHeliocentricVector(name, date);
+}
+
+/**
+ * Distance between two bodies on a date
+ * @param from - Name of one of MEASURABLE_BODY_NAMES
+ * @param to - Name of one of MEASURABLE_BODY_NAMES
+ * @param date - Moment of the measurement
+ * @returns Distance and light time, or null if either position is unknown
+ */
+export function getBodyDistance(
+  from: string,
+  to: string,
+  date: Date,
+): BodyDistance | null {
+  const a = getBodyVector(from, date);
+  const b = getBodyVector(to, date);
+  if (!a || !b) return null;
+
+  const distanceAU = Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+  const distanceKm = distanceAU * AE.KM_PER_AU;
+  return {
+    distanceAU,
+    distanceKm,
+    lightTimeSeconds: distanceKm / SPEED_OF_LIGHT_KM_S,
+  };
+}
+
+/**
+ * Distance between two bodies at evenly spaced times
+ * @param from - Name of one of MEASURABLE_BODY_NAMES
+ * @param to - Name of one of MEASURABLE_BODY_NAMES
+ * @param centre - Middle of the span
+ * @param spanDays - Length of the span
+ * @param samples - Number of points, including both ends
+ * @returns Samples in time order; times where a position is unknown are left out
+ */
+export function getDistanceSeries(
+  from: string,
+  to: string,
+  centre: Date,
+  spanDays: number,
+  samples: number = DISTANCE_PLOT_SAMPLES,
+): DistanceSample[] {
+  const spanMs = spanDays * MS_PER_DAY;
+  const startMs = centre.getTime() - spanMs / 2;
+  const count = Math.max(2, Math.floor(samples));
+
+  return Array.from({ length: count }, (_, index) => {
+    const timeMs = startMs + (spanMs * index) / (count - 1);
+    const distance = getBodyDistance(from, to, new Date(timeMs));
+    return distance ? [{ timeMs, distanceAU: distance.distanceAU }] : [];
+  }).flat();
+}
+
+/**
+ * Light time as hours, minutes and seconds, e.g. "12 min 40 s" or
+ * "4 h 10 min"
+ */
+export function formatLightTime(seconds: number): string {
+  if (!Number.isFinite(seconds) || seconds < 0) return "—";
+  const rounded = Math.round(seconds);
+  const hours = Math.floor(rounded / 3600);
+  const minutes = Math.floor((rounded % 3600) / 60);
+  const secs = rounded % 60;
+  if (hours > 0) return `${hours} h ${minutes} min`;
+  if (minutes > 0) return `${minutes} min ${secs} s`;
+  return `${secs} s`;
+}
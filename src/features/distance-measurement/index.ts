@@ -0,0 +1,3 @@
+export * from "@/features/distance-measurement/domain/body-distance";
+export * from "@/features/distance-measurement/application/useDistanceMeasurement";
+export * from "@/features/distance-measurement/ui/index";
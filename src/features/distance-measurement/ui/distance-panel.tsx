@@ -0,0 +1,238 @@
+"use client";
+
+import { useMemo } from "react";
+import { ArrowLeftRight, Ruler, X } from "lucide-react";
+import {
+  DISTANCE_SPANS,
+  MEASURABLE_BODY_NAMES,
+  formatLightTime,
+  getBodyDistance,
+  getDistanceSeries,
+  type DistanceSample,
+} from "@/features/distance-measurement/domain/body-distance";
+import type { MeasuredPair } from "@/features/distance-measurement/application/useDistanceMeasurement";
+import { formatLargeNumber } from "@/utils/data-formatters";
+
+const PLOT_WIDTH = 240;
+const PLOT_HEIGHT = 80;
+
+/**
+ * Distance over the span around timeMs, recomputed only when the inputs
+ * change
+ */
+function useDistanceSeries(
+  from: string,
+  to: string,
+  timeMs: number,
+  spanDays: number,
+): DistanceSample[] {
+  return useMemo(
+    () => getDistanceSeries(from, to, new Date(timeMs), spanDays),
+    [from, to, timeMs, spanDays],
+  );
+}
+
+interface DistancePlotProps {
+  samples: DistanceSample[];
+  /** Time of the selected date, marked on the plot */
+  timeMs: number;
+  label: string;
+}
+
+/**
+ * Line plot of distance against time with the selected date marked
+ */
+function DistancePlot({ samples, timeMs, label }: DistancePlotProps) {
+  if (samples.length < 2) {
+    return <div className="text-xs text-gray-500">No distance data</div>;
+  }
+
+  const distances = samples.map((sample) => sample.distanceAU);
+  const min = Math.min(...distances);
+  const max = Math.max(...distances);
+  const startMs = samples[0].timeMs;
+  const endMs = samples[samples.length - 1].timeMs;
+  const x = (ms: number) => ((ms - startMs) / (endMs - startMs)) * PLOT_WIDTH;
+  // Farther is higher, with a margin so the line never touches the edges
+  const y = (au: number) =>
+    max === min
+      ? PLOT_HEIGHT / 2
+      : PLOT_HEIGHT - 4 - ((au - min) / (max - min)) * (PLOT_HEIGHT - 8);
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${PLOT_WIDTH} ${PLOT_HEIGHT}`}
+        className="w-full h-20 bg-white/5 rounded"
+        role="img"
+        aria-label={label}
+      >
+        <polyline
+          points={samples
+            .map(
+              (sample) =>
+                `${x(sample.timeMs).toFixed(1)},${y(sample.distanceAU).toFixed(1)}`,
+            )
+            .join(" ")}
+          fill="none"
+          stroke="#60a5fa"
+          strokeWidth={1.5}
+        />
+        <line
+          x1={x(timeMs)}
+          x2={x(timeMs)}
+          y1={0}
+          y2={PLOT_HEIGHT}
+          stroke="#facc15"
+          strokeDasharray="3 3"
+        />
+      </svg>
+      <div className="flex justify-between text-[10px] text-gray-400 mt-1">
+        <span>{new Date(startMs).toISOString().slice(0, 10)}</span>
+        <span>
+          {min.toFixed(2)}–{max.toFixed(2)} AU
+        </span>
+        <span>{new Date(endMs).toISOString().slice(0, 10)}</span>
+      </div>
+    </div>
+  );
+}
+
+interface BodySelectProps {
+  label: string;
+  value: string;
+  /** Body chosen in the other select, which this one leaves out */
+  exclude: string;
+  onChange: (name: string) => void;
+}
+
+function BodySelect({ label, value, exclude, onChange }: BodySelectProps) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="flex-1 min-w-0 px-2 py-1 rounded bg-gray-800 text-white border border-gray-700 text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+      aria-label={label}
+    >
+      {MEASURABLE_BODY_NAMES.filter((name) => name !== exclude).map(
+        (name) => (
+          <option key={name} value={name}>
+            {name}
+          </option>
+        ),
+      )}
+    </select>
+  );
+}
+
+interface DistancePanelProps {
+  /** Date the distance is measured on */
+  selectedDate: Date;
+  pair: MeasuredPair;
+  /** Length of the distance plot in days */
+  spanDays: number;
+  onPairChange: (pair: MeasuredPair) => void;
+  onSwap: () => void;
+  onSpanChange: (days: number) => void;
+  onClose: () => void;
+}
+
+/**
+ * Distance and light time between two bodies on the selected date, with a
+ * plot of how the distance changes around it
+ */
+export function DistancePanel({
+  selectedDate,
+  pair,
+  spanDays,
+  onPairChange,
+  onSwap,
+  onSpanChange,
+  onClose,
+}: DistancePanelProps) {
+  const timeMs = selectedDate.getTime();
+  const distance = getBodyDistance(pair.from, pair.to, selectedDate);
+  const samples = useDistanceSeries(pair.from, pair.to, timeMs, spanDays);
+  const span = DISTANCE_SPANS.find((option) => option.days === spanDays);
+
+  return (
+    <div className="w-72 p-3 rounded-lg bg-black/80 text-white text-sm">
+      <div className="flex items-center gap-2 mb-3 font-medium">
+        <Ruler className="w-4 h-4 text-blue-400" />
+        <span className="flex-1">Distance</span>
+        <button
+          onClick={onClose}
+          className="p-1 rounded hover:bg-white/10 transition-colors"
+          aria-label="Close distance tool"
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-1.5 mb-3">
+        <BodySelect
+          label="Measure from"
+          value={pair.from}
+          exclude={pair.to}
+          onChange={(from) => onPairChange({ ...pair, from })}
+        />
+        <button
+          onClick={onSwap}
+          className="p-1 rounded hover:bg-white/10 transition-colors"
+          aria-label="Swap bodies"
+        >
+          <ArrowLeftRight className="w-3.5 h-3.5" />
+        </button>
+        <BodySelect
+          label="Measure to"
+          value={pair.to}
+          exclude={pair.from}
+          onChange={(to) => onPairChange({ ...pair, to })}
+        />
+      </div>
+
+      {distance ? (
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 text-xs mb-3">
+          <dt className="text-gray-400">Distance</dt>
+          <dd className="text-right">
+            {formatLargeNumber(Math.round(distance.distanceKm))} km
+          </dd>
+          <dt className="text-gray-400">In AU</dt>
+          <dd className="text-right">{distance.distanceAU.toFixed(4)} AU</dd>
+          <dt className="text-gray-400">Light time</dt>
+          <dd className="text-right">
+            {formatLightTime(distance.lightTimeSeconds)}
+          </dd>
+        </dl>
+      ) : (
+        <div className="text-xs text-red-400 mb-3">
+          Distance unavailable for this date
+        </div>
+      )}
+
+      <div className="flex gap-1 mb-2">
+        {DISTANCE_SPANS.map((option) => (
+          <button
+            key={option.days}
+            onClick={() => onSpanChange(option.days)}
+            className={`flex-1 px-1 py-1 text-[11px] rounded transition-colors ${
+              option.days === spanDays
+                ? "bg-blue-600"
+                : "bg-white/10 hover:bg-white/20"
+            }`}
+            aria-pressed={option.days === spanDays}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <DistancePlot
+        samples={samples}
+        timeMs={timeMs}
+        label={`Distance from ${pair.from} to ${pair.to} over ${
+          span?.label ?? `${spanDays} days`
+        }`}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+export * from "@/features/distance-measurement/ui/distance-panel";
+export * from "@/features/distance-measurement/ui/measurement-line";
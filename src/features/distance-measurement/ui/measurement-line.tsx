@@ -0,0 +1,100 @@
+"use client";
+
+import { useEffect, useMemo, useRef } from "react";
+import { useFrame, useThree } from "@react-three/fiber";
+import { Html } from "@react-three/drei";
+import * as THREE from "three";
+import {
+  formatLightTime,
+  getBodyDistance,
+} from "@/features/distance-measurement/domain/body-distance";
+
+interface MeasurementLineProps {
+  /** Scene object name of one end */
+  from: string;
+  /** Scene object name of the other end */
+  to: string;
+  /** Date the distance shown at the middle of the line is measured on */
+  date: Date;
+}
+
+/**
+ * Dashed line between two bodies in the scene, following them as they move,
+ * with their true distance and light time at its midpoint
+ */
+export function MeasurementLine({ from, to, date }: MeasurementLineProps) {
+  const scene = useThree((state) => state.scene);
+  const lineRef = useRef<THREE.LineSegments>(null);
+  const labelRef = useRef<THREE.Group>(null);
+  const scratch = useMemo(
+    () => ({ from: new THREE.Vector3(), to: new THREE.Vector3() }),
+    [],
+  );
+
+  const geometry = useMemo(
+    () =>
+      new THREE.BufferGeometry().setAttribute(
+        "position",
+        new THREE.Float32BufferAttribute(new Float32Array(6), 3),
+      ),
+    [],
+  );
+
+  const material = useMemo(
+    () =>
+      new THREE.LineDashedMaterial({
+        color: "#facc15",
+        dashSize: 20,
+        gapSize: 12,
+        transparent: true,
+        opacity: 0.8,
+        depthWrite: false,
+      }),
+    [],
+  );
+
+  useEffect(() => {
+    return () => {
+      geometry.dispose();
+      material.dispose();
+    };
+  }, [geometry, material]);
+
+  const distance = getBodyDistance(from, to, date);
+
+  useFrame(() => {
+    const line = lineRef.current;
+    const fromObject = scene.getObjectByName(from);
+    const toObject = scene.getObjectByName(to);
+    if (!line || !fromObject || !toObject) return;
+
+    fromObject.getWorldPosition(scratch.from);
+    toObject.getWorldPosition(scratch.to);
+    const positions = geometry.getAttribute(
+      "position",
+    ) as THREE.BufferAttribute;
+    positions.setXYZ(0, scratch.from.x, scratch.from.y, scratch.from.z);
+    positions.setXYZ(1, scratch.to.x, scratch.to.y, scratch.to.z);
+    positions.needsUpdate = true;
+    geometry.computeBoundingSphere();
+    line.computeLineDistances();
+
+    labelRef.current?.position.lerpVectors(scratch.from, scratch.to, 0.5);
+  });
+
+  return (
+    <>
+      <lineSegments ref={lineRef} geometry={geometry} material={material} />
+      {distance && (
+        <group ref={labelRef}>
+          <Html center zIndexRange={[10, 0]}>
+            <div className="bg-black/70 text-yellow-200 px-2 py-0.5 rounded text-xs whitespace-nowrap pointer-events-none">
+              {distance.distanceAU.toFixed(3)} AU ·{" "}
+              {formatLightTime(distance.lightTimeSeconds)}
+            </div>
+          </Html>
+        </group>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,179 @@
+/**
+ * Ephemeris Query
+ * Parses and validates the query parameters of the ephemeris API routes;
+ * dates follow the same rules as Date Mode (validateDate, 1700-2300)
+ */
+
+import { validateDate } from "@/utils/astronomy-calculations";
+import {
+  EPHEMERIS_BODY_NAMES,
+  EPHEMERIS_FRAMES,
+  type EphemerisFrame,
+} from "@/features/ephemeris/domain/ephemeris";
+
+export type EphemerisFormat = "json" | "csv";
+
+/** Most moments one range request may cover */
+export const MAX_RANGE_STEPS = 1000;
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const STEP_PATTERN = /^(\d+(?:\.\d+)?)(m|h|d)$/;
+const STEP_UNIT_MS: Record<string, number> = {
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+};
+const MIN_STEP_MS = STEP_UNIT_MS.m;
+
+interface EphemerisOptions {
+  bodies: string[];
+  frame: EphemerisFrame;
+  format: EphemerisFormat;
+}
+
+export interface EphemerisQuery extends EphemerisOptions {
+  date: Date;
+}
+
+export interface EphemerisRangeQuery extends EphemerisOptions {
+  start: Date;
+  end: Date;
+  stepMs: number;
+  /** Moments from start to end, one step apart */
+  dates: Date[];
+}
+
+export type QueryValidation<T> =
+  | { valid: true; query: T }
+  | { valid: false; error: string };
+
+type Parsed<T> = { value: T; error?: undefined } | { error: string };
+
+/**
+ * Parse a date parameter: YYYY-MM-DD means UTC midnight, anything else is
+ * read as an ISO timestamp
+ */
+function parseDate(param: string, value: string | null): Parsed<Date> {
+  if (!value) return { error: `Missing ${param}` };
+
+  const date = new Date(
+    DATE_ONLY_PATTERN.test(value) ? `${value}T00:00:00Z` : value,
+  );
+  const validation = validateDate(date);
+  if (!validation.valid) {
+    return { error: `Invalid ${param}: ${validation.error}` };
+  }
+  return { value: date };
+}
+
+/**
+ * Parse the parameters both routes share
+ */
+function parseOptions(params: URLSearchParams): Parsed<EphemerisOptions> {
+  const bodiesParam = params.get("bodies");
+  const bodies: string[] = [];
+  if (bodiesParam === null) {
+    bodies.push(...EPHEMERIS_BODY_NAMES);
+  } else {
+    for (const requested of bodiesParam.split(",")) {
+      const name = requested.trim().toLowerCase();
+      if (!name) continue;
+      const body = EPHEMERIS_BODY_NAMES.find(
+        (candidate) => candidate.toLowerCase() === name,
+      );
+      if (!body) return { error: `Unknown body: ${requested.trim()}` };
+      if (!bodies.includes(body)) bodies.push(body);
+    }
+    if (bodies.length === 0) return { error: "No bodies given" };
+  }
+
+  const frame = params.get("frame") ?? "heliocentric";
+  if (!EPHEMERIS_FRAMES.includes(frame as EphemerisFrame)) {
+    return { error: `Frame must be one of ${EPHEMERIS_FRAMES.join(", ")}` };
+  }
+
+  const format = params.get("format") ?? "json";
+  if (format !== "json" && format !== "csv") {
+    return { error: "Format must be json or csv" };
+  }
+
+  return { value: { bodies, frame: frame as EphemerisFrame, format } };
+}
+
+/**
+ * Validate `date`, `bodies`, `frame` and `format` for /api/ephemeris
+ */
+export function parseEphemerisQuery(
+  params: URLSearchParams,
+): QueryValidation<EphemerisQuery> {
+  const options = parseOptions(params);
+  if (options.error !== undefined) {
+    return { valid: false, error: options.error };
+  }
+
+  const date = parseDate("date", params.get("date"));
+  if (date.error !== undefined) return { valid: false, error: date.error };
+
+  return { valid: true, query: { ...options.value, date: date.value } };
+}
+
+/**
+ * Parse a step such as "30m", "6h" or "1d"
+ */
+function parseStep(value: string | null): Parsed<number> {
+  const match = STEP_PATTERN.exec(value ?? "1d");
+  const stepMs = match ? Number(match[1]) * STEP_UNIT_MS[match[2]] : NaN;
+  if (!(stepMs >= MIN_STEP_MS)) {
+    return {
+      error: "Step must be minutes, hours or days such as 30m, 6h or 1d",
+    };
+  }
+  return { value: stepMs };
+}
+
+/**
+ * Validate `start`, `end`, `step`, `bodies`, `frame` and `format` for
+ * /api/ephemeris/range; the range includes both ends when the step fits
+ */
+export function parseEphemerisRangeQuery(
+  params: URLSearchParams,
+): QueryValidation<EphemerisRangeQuery> {
+  const options = parseOptions(params);
+  if (options.error !== undefined) {
+    return { valid: false, error: options.error };
+  }
+
+  const start = parseDate("start", params.get("start"));
+  if (start.error !== undefined) return { valid: false, error: start.error };
+  const end = parseDate("end", params.get("end"));
+  if (end.error !== undefined) return { valid: false, error: end.error };
+  if (end.value < start.value) {
+    return { valid: false, error: "End must not be before start" };
+  }
+
+  const step = parseStep(params.get("step"));
+  if (step.error !== undefined) return { valid: false, error: step.error };
+
+  const startMs = start.value.getTime();
+  const steps = Math.floor((end.value.getTime() - startMs) / step.value) + 1;
+  if (steps > MAX_RANGE_STEPS) {
+    return {
+      valid: false,
+      error: `Range has ${steps} steps; at most ${MAX_RANGE_STEPS} are allowed`,
+    };
+  }
+
+  return {
+    valid: true,
+    query: {
+      ...options.value,
+      start: start.value,
+      end: end.value,
+      stepMs: step.value,
+      dates: Array.from(
+        { length: steps },
+        (_, index) => new Date(startMs + index * step.value),
+      ),
+    },
+  };
+}
@@ -0,0 +1,123 @@
+/**
+ * Ephemeris
+ * Body positions and distances on a date in the J2000 ecliptic frame,
+ * centred on the Sun or the Earth, from the same calculations the scene uses
+ */
+
+import * as AE from "astronomy-engine";
+import {
+  MEASURABLE_BODY_NAMES,
+  SPEED_OF_LIGHT_KM_S,
+  getBodyVector,
+} from "@/features/distance-measurement/domain/body-distance";
+
+const RAD_TO_DEG = 180 / Math.PI;
+
+export type EphemerisFrame = "heliocentric" | "geocentric";
+
+export const EPHEMERIS_FRAMES: EphemerisFrame[] = [
+  "heliocentric",
+  "geocentric",
+];
+
+/**
+ * Bodies with an ephemeris, Sun first
+ */
+export const EPHEMERIS_BODY_NAMES = MEASURABLE_BODY_NAMES;
+
+/**
+ * One body's position at one moment
+ */
+export interface EphemerisEntry {
+  date: string; // ISO timestamp
+  body: string;
+  /** Ecliptic coordinates from the frame's centre, in AU */
+  x: number;
+  y: number;
+  z: number;
+  distanceAU: number;
+  distanceKm: number;
+  longitudeDegrees: number; // 0-360
+  latitudeDegrees: number;
+  /** One-way light time from the frame's centre, in seconds */
+  lightTimeSeconds: number;
+}
+
+/**
+ * Position of a body on a date
+ * @param body - Name of one of EPHEMERIS_BODY_NAMES
+ * @param date - Moment of the position
+ * @param frame - Centre of the coordinates
+ * @returns The entry, or null if a position cannot be calculated
+ */
+export function getEphemerisEntry(
+  body: string,
+  date: Date,
+  frame: EphemerisFrame,
+): EphemerisEntry | null {
+  const position = getBodyVector(body, date);
+  const centre =
+    frame === "geocentric" ? getBodyVector("Earth", date) : { x: 0, y: 0, z: 0 };
+  if (!position || !centre) return null;
+
+  const x = position.x - centre.x;
+  const y = position.y - centre.y;
+  const z = position.z - centre.z;
+  const distanceAU = Math.hypot(x, y, z);
+  const distanceKm = distanceAU * AE.KM_PER_AU;
+  const longitude = Math.atan2(y, x) * RAD_TO_DEG;
+
+  return {
+    date: date.toISOString(),
+    body,
+    x,
+    y,
+    z,
+    distanceAU,
+    distanceKm,
+    longitudeDegrees: longitude < 0 ? longitude + 360 : longitude,
+    latitudeDegrees: Math.atan2(z, Math.hypot(x, y)) * RAD_TO_DEG,
+    lightTimeSeconds: distanceKm / SPEED_OF_LIGHT_KM_S,
+  };
+}
+
+/**
+ * Positions of several bodies at each of several moments
+ * @param bodies - Names of EPHEMERIS_BODY_NAMES
+ * @param dates - Moments, in the order the entries should follow
+ * @param frame - Centre of the coordinates
+ * @returns Entries by date, then in the order of `bodies`; positions that
+ * cannot be calculated are left out
+ */
+export function getEphemeris(
+  bodies: string[],
+  dates: Date[],
+  frame: EphemerisFrame,
+): EphemerisEntry[] {
+  return dates.flatMap((date) =>
+    bodies.flatMap((body) => getEphemerisEntry(body, date, frame) ?? []),
+  );
+}
+
+const CSV_COLUMNS: (keyof EphemerisEntry)[] = [
+  "date",
+  "body",
+  "x",
+  "y",
+  "z",
+  "distanceAU",
+  "distanceKm",
+  "longitudeDegrees",
+  "latitudeDegrees",
+  "lightTimeSeconds",
+];
+
+/**
+ * Entries as CSV with a header row (body names never need quoting)
+ */
+export function formatEphemerisCsv(entries: EphemerisEntry[]): string {
+  const rows = entries.map((entry) =>
+    CSV_COLUMNS.map((column) => entry[column]).join(","),
+  );
+  return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
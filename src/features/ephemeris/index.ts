@@ -0,0 +1,2 @@
+export * from "@/features/ephemeris/domain/ephemeris";
+export * from "@/features/ephemeris/domain/ephemeris-query";
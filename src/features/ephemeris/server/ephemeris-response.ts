@@ -0,0 +1,41 @@
+/**
+ * Ephemeris Responses
+ * Positions as JSON (with an ETag) or CSV. Results depend only on the query,
+ * so shared caches may keep them for a day.
+ */
+
+import {
+  formatEphemerisCsv,
+  type EphemerisEntry,
+} from "@/features/ephemeris/domain/ephemeris";
+import type { EphemerisFormat } from "@/features/ephemeris/domain/ephemeris-query";
+import { conditionalJsonResponse } from "@/features/planet-catalog/server/responses";
+
+const EPHEMERIS_CACHE_CONTROL =
+  "public, s-maxage=86400, stale-while-revalidate=604800";
+
+/**
+ * @param meta - Fields describing the query, sent before the positions in
+ * JSON and left out of CSV
+ */
+export async function ephemerisResponse(
+  request: Request,
+  format: EphemerisFormat,
+  meta: Record<string, unknown>,
+  positions: EphemerisEntry[],
+): Promise<Response> {
+  if (format === "csv") {
+    return new Response(formatEphemerisCsv(positions), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Cache-Control": EPHEMERIS_CACHE_CONTROL,
+      },
+    });
+  }
+
+  return conditionalJsonResponse(
+    request,
+    { ...meta, units: { position: "AU", distance: "AU, km" }, positions },
+    { headers: { "Cache-Control": EPHEMERIS_CACHE_CONTROL } },
+  );
+}
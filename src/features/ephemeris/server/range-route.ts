@@ -0,0 +1,49 @@
+/**
+ * API Route: Body positions over a date range
+ * `GET /api/ephemeris/range?start=2024-01-01&end=2024-12-31&step=7d`
+ */
+
+import { getEphemeris } from "@/features/ephemeris/domain/ephemeris";
+import { parseEphemerisRangeQuery } from "@/features/ephemeris/domain/ephemeris-query";
+import { ephemerisResponse } from "@/features/ephemeris/server/ephemeris-response";
+import { errorResponse } from "@/features/planet-catalog/server/responses";
+import { guardRequest } from "@/features/planet-catalog/server/request-guard";
+
+export const runtime = "edge";
+
+/** Positions computed per request counted against the rate limit */
+export const POSITIONS_PER_REQUEST = 500;
+
+export async function GET(request: Request) {
+  const validation = parseEphemerisRangeQuery(
+    new URL(request.url).searchParams,
+  );
+  if (!validation.valid) {
+    return errorResponse(400, {
+      error: validation.error,
+      code: "INVALID_REQUEST",
+    });
+  }
+
+  const { start, end, stepMs, dates, bodies, frame, format } =
+    validation.query;
+
+  // Long ranges cost more, up to 1000 steps × every body
+  const guard = await guardRequest(
+    request,
+    Math.ceil((dates.length * bodies.length) / POSITIONS_PER_REQUEST),
+  );
+  if (!guard.allowed) return guard.response;
+
+  return ephemerisResponse(
+    request,
+    format,
+    {
+      start: start.toISOString(),
+      end: end.toISOString(),
+      stepMinutes: stepMs / 60_000,
+      frame,
+    },
+    getEphemeris(bodies, dates, frame),
+  );
+}
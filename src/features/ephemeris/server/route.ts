@@ -0,0 +1,33 @@
+/**
+ * API Route: Body positions on a date
+ * `GET /api/ephemeris?date=2024-06-01&bodies=mars,venus&frame=geocentric`
+ */
+
+import { getEphemeris } from "@/features/ephemeris/domain/ephemeris";
+import { parseEphemerisQuery } from "@/features/ephemeris/domain/ephemeris-query";
+import { ephemerisResponse } from "@/features/ephemeris/server/ephemeris-response";
+import { errorResponse } from "@/features/planet-catalog/server/responses";
+import { guardRequest } from "@/features/planet-catalog/server/request-guard";
+
+export const runtime = "edge";
+
+export async function GET(request: Request) {
+  const validation = parseEphemerisQuery(new URL(request.url).searchParams);
+  if (!validation.valid) {
+    return errorResponse(400, {
+      error: validation.error,
+      code: "INVALID_REQUEST",
+    });
+  }
+
+  const guard = await guardRequest(request);
+  if (!guard.allowed) return guard.response;
+
+  const { date, bodies, frame, format } = validation.query;
+  return ephemerisResponse(
+    request,
+    format,
+    { date: date.toISOString(), frame },
+    getEphemeris(bodies, [date], frame),
+  );
+}
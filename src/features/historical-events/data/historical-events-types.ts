@@ -5,7 +5,11 @@ export type EventCategory =
   | "lunar-eclipse"
   | "planetary-conjunction"
   | "space-mission"
-  | "meteor-shower";
+  | "meteor-shower"
+  | "opposition"
+  | "greatest-elongation"
+  | "retrograde"
+  | "perihelion";
 
 export interface BaseHistoricalEvent {
   id: string;
@@ -46,12 +50,43 @@ export interface MeteorShowerEvent extends BaseHistoricalEvent {
   parentBody: string;
 }
 
+export interface OppositionEvent extends BaseHistoricalEvent {
+  category: "opposition";
+  planet: string;
+  distanceAU: number; // from Earth
+  magnitude: number; // apparent visual magnitude
+}
+
+export interface GreatestElongationEvent extends BaseHistoricalEvent {
+  category: "greatest-elongation";
+  planet: string;
+  elongation: number; // degrees from the Sun
+  visibility: "morning" | "evening";
+}
+
+export interface RetrogradeEvent extends BaseHistoricalEvent {
+  category: "retrograde";
+  planet: string;
+  // Stationary point where the retrograde loop starts or ends
+  phase: "start" | "end";
+}
+
+export interface PerihelionEvent extends BaseHistoricalEvent {
+  category: "perihelion";
+  planet: string;
+  distanceAU: number; // from the Sun
+}
+
 export type HistoricalEvent =
   | SolarEclipseEvent
   | LunarEclipseEvent
   | PlanetaryConjunctionEvent
   | SpaceMissionEvent
-  | MeteorShowerEvent;
+  | MeteorShowerEvent
+  | OppositionEvent
+  | GreatestElongationEvent
+  | RetrogradeEvent
+  | PerihelionEvent;
 
 export const EVENT_CATEGORY_LABELS: Record<EventCategory, string> = {
   "solar-eclipse": "Solar Eclipses",
@@ -59,4 +94,8 @@ export const EVENT_CATEGORY_LABELS: Record<EventCategory, string> = {
   "planetary-conjunction": "Planetary Conjunctions",
   "space-mission": "Space Missions",
   "meteor-shower": "Meteor Showers",
+  opposition: "Oppositions",
+  "greatest-elongation": "Greatest Elongations",
+  retrograde: "Retrograde Motion",
+  perihelion: "Perihelion Passages",
 };
@@ -0,0 +1,640 @@
+/**
+ * Astronomical event finder
+ * Searches a date range for eclipses, planetary conjunctions, oppositions,
+ * greatest elongations, retrograde loops and perihelion passages with
+ * Astronomy Engine, so the events panel is not limited to the hand-written
+ * list.
+ */
+
+import * as AE from "astronomy-engine";
+import {
+  MAX_ACCURATE_YEAR,
+  MIN_ACCURATE_YEAR,
+} from "@/utils/astronomy-calculations";
+import type {
+  GreatestElongationEvent,
+  HistoricalEvent,
+  LunarEclipseEvent,
+  OppositionEvent,
+  PlanetaryConjunctionEvent,
+  PerihelionEvent,
+  RetrogradeEvent,
+  SolarEclipseEvent,
+} from "@/features/historical-events/data/historical-events-types";
+
+/**
+ * Widest separation, in degrees, reported as a planetary conjunction
+ */
+export const CONJUNCTION_MAX_SEPARATION_DEG = 2;
+
+const MS_PER_DAY = 86_400_000;
+
+// Planets visible to the naked eye, in order from the Sun
+const NAKED_EYE_PLANETS = [
+  AE.Body.Mercury,
+  AE.Body.Venus,
+  AE.Body.Mars,
+  AE.Body.Jupiter,
+  AE.Body.Saturn,
+];
+const INFERIOR_PLANETS = [AE.Body.Mercury, AE.Body.Venus];
+const SUPERIOR_PLANETS = [
+  AE.Body.Mars,
+  AE.Body.Jupiter,
+  AE.Body.Saturn,
+  AE.Body.Uranus,
+  AE.Body.Neptune,
+];
+const NON_EARTH_PLANETS = [...INFERIOR_PLANETS, ...SUPERIOR_PLANETS];
+
+// Conjunction times are refined to about a minute
+const REFINE_TOLERANCE_DAYS = 1 / 1440;
+const GOLDEN_RATIO = (Math.sqrt(5) - 1) / 2;
+
+// Shadow geometry, matching Astronomy Engine's own eclipse model
+const SUN_RADIUS_KM = 695_700;
+const MOON_POLAR_RADIUS_KM = 1736;
+const EARTH_EQUATORIAL_RADIUS_KM = 6378.1366;
+const EARTH_FLATTENING = 0.996647180302104;
+// Umbra radius below which a point on the track sees an annular eclipse;
+// Astronomy Engine biases it by 14 m to match Espenak's tables
+const TOTAL_UMBRA_MIN_KM = 0.014;
+// The shadow axis crosses Earth in under four hours either side of the peak
+const ECLIPSE_TRACK_HALF_SPAN_MINUTES = 240;
+const ECLIPSE_TRACK_STEP_MINUTES = 2;
+
+// Computed years are cached; each takes a few hundred milliseconds
+const yearCache = new Map<number, HistoricalEvent[]>();
+
+function toDayId(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function formatMonthYear(date: Date): string {
+  return date.toLocaleDateString("en-US", {
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function roundDegrees(degrees: number): number {
+  return Math.round(degrees * 100) / 100;
+}
+
+function formatDuration(minutes: number): string {
+  const total = Math.round(minutes);
+  const hours = Math.floor(total / 60);
+  return hours > 0 ? `${hours}h ${total % 60}m` : `${total}m`;
+}
+
+function formatCoordinate(
+  degrees: number,
+  positive: string,
+  negative: string,
+): string {
+  const hemisphere = degrees >= 0 ? positive : negative;
+  return `${Math.abs(degrees).toFixed(1)}°${hemisphere}`;
+}
+
+function isValidRange(start: Date, end: Date): boolean {
+  return (
+    !Number.isNaN(start.getTime()) &&
+    !Number.isNaN(end.getTime()) &&
+    start < end
+  );
+}
+
+/**
+ * Where a solar eclipse is best seen: the point of greatest eclipse for
+ * central eclipses, otherwise the polar region the Moon's shadow grazes
+ */
+function describeSolarEclipseRegion(eclipse: AE.GlobalSolarEclipseInfo) {
+  if (eclipse.latitude !== undefined && eclipse.longitude !== undefined) {
+    return `Greatest eclipse at ${formatCoordinate(eclipse.latitude, "N", "S")}, ${formatCoordinate(eclipse.longitude, "E", "W")}`;
+  }
+  // The shadow passes on the side of the ecliptic the Moon is on
+  const moonLatitude = AE.EclipticGeoMoon(eclipse.peak).lat;
+  return moonLatitude >= 0
+    ? "Northern polar regions"
+    : "Southern polar regions";
+}
+
+/**
+ * Radius of the Moon's umbra where its axis meets Earth's surface
+ * @returns Kilometres, negative inside the antumbra; undefined when the
+ * axis misses Earth
+ */
+function getSurfaceUmbraRadiusKm(time: AE.AstroTime): number | undefined {
+  const sun = AE.GeoVector(AE.Body.Sun, time, true);
+  const moon = AE.GeoMoon(time);
+  // Work in equator-of-date kilometres, with z stretched to make the geoid
+  // a sphere, as Astronomy Engine does
+  const rotation = AE.Rotation_EQJ_EQD(time);
+  const axis = AE.RotateVector(
+    rotation,
+    new AE.Vector(moon.x - sun.x, moon.y - sun.y, moon.z - sun.z, time),
+  );
+  const center = AE.RotateVector(rotation, moon);
+  const ax = axis.x * AE.KM_PER_AU;
+  const ay = axis.y * AE.KM_PER_AU;
+  const az = (axis.z * AE.KM_PER_AU) / EARTH_FLATTENING;
+  const mx = center.x * AE.KM_PER_AU;
+  const my = center.y * AE.KM_PER_AU;
+  const mz = (center.z * AE.KM_PER_AU) / EARTH_FLATTENING;
+
+  // Nearer intersection of moon + u * axis with the sphere
+  const a = ax * ax + ay * ay + az * az;
+  const b = 2 * (ax * mx + ay * my + az * mz);
+  const c = mx * mx + my * my + mz * mz - EARTH_EQUATORIAL_RADIUS_KM ** 2;
+  const discriminant = b * b - 4 * a * c;
+  if (discriminant <= 0) return undefined;
+  const u = (-b - Math.sqrt(discriminant)) / (2 * a);
+  // The umbra narrows linearly from the Sun's radius to the Moon's
+  return SUN_RADIUS_KM - (1 + u) * (SUN_RADIUS_KM - MOON_POLAR_RADIUS_KM);
+}
+
+/**
+ * Whether a central eclipse is total along part of its track and annular
+ * along the rest. Astronomy Engine only reports the kind at greatest
+ * eclipse, so the umbra is sampled along the whole track.
+ */
+function isHybridEclipse(eclipse: AE.GlobalSolarEclipseInfo): boolean {
+  let total = false;
+  let annular = false;
+  for (
+    let minutes = -ECLIPSE_TRACK_HALF_SPAN_MINUTES;
+    minutes <= ECLIPSE_TRACK_HALF_SPAN_MINUTES;
+    minutes += ECLIPSE_TRACK_STEP_MINUTES
+  ) {
+    const time = eclipse.peak.AddDays(minutes / 1440);
+    const umbra = getSurfaceUmbraRadiusKm(time);
+    if (umbra === undefined) continue;
+    if (umbra > TOTAL_UMBRA_MIN_KM) total = true;
+    else annular = true;
+    if (total && annular) return true;
+  }
+  return false;
+}
+
+function getSolarEclipseType(
+  eclipse: AE.GlobalSolarEclipseInfo,
+): SolarEclipseEvent["eclipseType"] {
+  if (eclipse.kind === AE.EclipseKind.Partial) return "partial";
+  if (isHybridEclipse(eclipse)) return "hybrid";
+  return eclipse.kind === AE.EclipseKind.Total ? "total" : "annular";
+}
+
+const SOLAR_ECLIPSE_DESCRIPTIONS: Record<
+  SolarEclipseEvent["eclipseType"],
+  string
+> = {
+  total: "The Moon fully covers the Sun along a narrow path of totality",
+  annular: "The Moon leaves a ring of sunlight along the central path",
+  hybrid: "Total along part of the central path and annular elsewhere",
+  partial: "The Moon covers part of the Sun; no central path touches Earth",
+};
+
+/**
+ * Solar eclipses peaking within a date range
+ * @param start - Start of the range (inclusive)
+ * @param end - End of the range (exclusive)
+ * @returns Eclipses in date order
+ */
+export function findSolarEclipses(
+  start: Date,
+  end: Date,
+): SolarEclipseEvent[] {
+  const events: SolarEclipseEvent[] = [];
+  if (!isValidRange(start, end)) return events;
+
+  for (
+    let eclipse = AE.SearchGlobalSolarEclipse(start);
+    eclipse.peak.date < end;
+    eclipse = AE.NextGlobalSolarEclipse(eclipse.peak)
+  ) {
+    const date = eclipse.peak.date;
+    const eclipseType = getSolarEclipseType(eclipse);
+    events.push({
+      id: `se-${toDayId(date)}`,
+      name: `${capitalize(eclipseType)} Solar Eclipse ${formatMonthYear(date)}`,
+      date,
+      description: SOLAR_ECLIPSE_DESCRIPTIONS[eclipseType],
+      category: "solar-eclipse",
+      eclipseType,
+      visibilityRegion: describeSolarEclipseRegion(eclipse),
+    });
+  }
+  return events;
+}
+
+/**
+ * Lunar eclipses peaking within a date range
+ * @param start - Start of the range (inclusive)
+ * @param end - End of the range (exclusive)
+ * @returns Eclipses in date order; duration is that of the deepest phase
+ */
+export function findLunarEclipses(
+  start: Date,
+  end: Date,
+): LunarEclipseEvent[] {
+  const events: LunarEclipseEvent[] = [];
+  if (!isValidRange(start, end)) return events;
+
+  for (
+    let eclipse = AE.SearchLunarEclipse(start);
+    eclipse.peak.date < end;
+    eclipse = AE.NextLunarEclipse(eclipse.peak)
+  ) {
+    const date = eclipse.peak.date;
+    let eclipseType: LunarEclipseEvent["eclipseType"];
+    let description: string;
+    let semiDurationMinutes: number;
+    if (eclipse.kind === AE.EclipseKind.Total) {
+      eclipseType = "total";
+      description = "The Moon passes fully into Earth's umbra";
+      semiDurationMinutes = eclipse.sd_total;
+    } else if (eclipse.kind === AE.EclipseKind.Partial) {
+      eclipseType = "partial";
+      description = `${Math.round(eclipse.obscuration * 100)}% of the Moon's disc enters Earth's umbra`;
+      semiDurationMinutes = eclipse.sd_partial;
+    } else {
+      eclipseType = "penumbral";
+      description = "The Moon passes through Earth's faint outer shadow";
+      semiDurationMinutes = eclipse.sd_penum;
+    }
+    events.push({
+      id: `le-${toDayId(date)}`,
+      name: `${capitalize(eclipseType)} Lunar Eclipse ${formatMonthYear(date)}`,
+      date,
+      description,
+      category: "lunar-eclipse",
+      eclipseType,
+      duration: formatDuration(semiDurationMinutes * 2),
+    });
+  }
+  return events;
+}
+
+/**
+ * Angle between two planets as seen from Earth
+ */
+function getPlanetSeparation(a: AE.Body, b: AE.Body, time: AE.AstroTime) {
+  return AE.AngleBetween(
+    AE.GeoVector(a, time, true),
+    AE.GeoVector(b, time, true),
+  );
+}
+
+/**
+ * Time in a bracketing interval at which a function of time is least, by
+ * golden-section search
+ * @param f - Function of UT days with a single minimum in the interval
+ * @returns UT days of the minimum
+ */
+function findMinimumTime(
+  f: (ut: number) => number,
+  startUt: number,
+  endUt: number,
+): number {
+  let low = startUt;
+  let high = endUt;
+  while (high - low > REFINE_TOLERANCE_DAYS) {
+    const left = high - GOLDEN_RATIO * (high - low);
+    const right = low + GOLDEN_RATIO * (high - low);
+    if (f(left) < f(right)) {
+      high = right;
+    } else {
+      low = left;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Daily sample times covering a range, with a day either side so turning
+ * points at the edges are found
+ */
+function sampleDays(start: Date, end: Date): AE.AstroTime[] {
+  const days = Math.ceil((end.getTime() - start.getTime()) / MS_PER_DAY);
+  return Array.from({ length: days + 3 }, (_, index) =>
+    AE.MakeTime(start).AddDays(index - 1),
+  );
+}
+
+/**
+ * Close approaches in the sky between naked-eye planets within a date range
+ * @param start - Start of the range (inclusive)
+ * @param end - End of the range (exclusive)
+ * @param maxSeparationDeg - Widest separation to report
+ * @returns Conjunctions in date order, each at its least separation
+ */
+export function findPlanetaryConjunctions(
+  start: Date,
+  end: Date,
+  maxSeparationDeg = CONJUNCTION_MAX_SEPARATION_DEG,
+): PlanetaryConjunctionEvent[] {
+  const events: PlanetaryConjunctionEvent[] = [];
+  if (!isValidRange(start, end)) return events;
+
+  const times = sampleDays(start, end);
+  const vectors = NAKED_EYE_PLANETS.map((body) =>
+    times.map((time) => AE.GeoVector(body, time, true)),
+  );
+
+  for (let i = 0; i < NAKED_EYE_PLANETS.length; i++) {
+    for (let j = i + 1; j < NAKED_EYE_PLANETS.length; j++) {
+      const a = NAKED_EYE_PLANETS[i];
+      const b = NAKED_EYE_PLANETS[j];
+      const separations = times.map((_, k) =>
+        AE.AngleBetween(vectors[i][k], vectors[j][k]),
+      );
+
+      for (let k = 1; k < times.length - 1; k++) {
+        const isMinimum =
+          separations[k] < separations[k - 1] &&
+          separations[k] <= separations[k + 1];
+        // Refining only narrows the gap, so a sample far off can be skipped
+        if (!isMinimum || separations[k] > maxSeparationDeg + 1) continue;
+
+        const time = AE.MakeTime(
+          findMinimumTime(
+            (ut) => getPlanetSeparation(a, b, AE.MakeTime(ut)),
+            times[k - 1].ut,
+            times[k + 1].ut,
+          ),
+        );
+        const separation = getPlanetSeparation(a, b, time);
+        const date = time.date;
+        if (separation > maxSeparationDeg || date < start || date >= end) {
+          continue;
+        }
+
+        const isGreatConjunction =
+          a === AE.Body.Jupiter && b === AE.Body.Saturn;
+        events.push({
+          id: `pc-${toDayId(date)}-${a.toLowerCase()}-${b.toLowerCase()}`,
+          name: isGreatConjunction
+            ? `Great Conjunction ${date.getUTCFullYear()}`
+            : `${a}-${b} Conjunction ${formatMonthYear(date)}`,
+          date,
+          description: `${a} and ${b} ${separation.toFixed(1)}° apart in the sky`,
+          category: "planetary-conjunction",
+          planets: [a, b],
+          angularSeparation: roundDegrees(separation),
+        });
+      }
+    }
+  }
+  return events.sort((x, y) => x.date.getTime() - y.date.getTime());
+}
+
+/**
+ * Oppositions of the superior planets within a date range
+ * @param start - Start of the range (inclusive)
+ * @param end - End of the range (exclusive)
+ * @returns Oppositions in date order
+ */
+export function findOppositions(start: Date, end: Date): OppositionEvent[] {
+  const events: OppositionEvent[] = [];
+  if (!isValidRange(start, end)) return events;
+
+  for (const body of SUPERIOR_PLANETS) {
+    // Relative longitude 0: the planet and Earth line up on the same side
+    for (
+      let time = AE.SearchRelativeLongitude(body, 0, start);
+      time.date < end;
+      time = AE.SearchRelativeLongitude(body, 0, time.AddDays(1))
+    ) {
+      const date = time.date;
+      const distanceAU = AE.GeoVector(body, time, true).Length();
+      events.push({
+        id: `op-${toDayId(date)}-${body.toLowerCase()}`,
+        name: `${body} at Opposition ${formatMonthYear(date)}`,
+        date,
+        description: `${body} is opposite the Sun, at its brightest and up all night, ${distanceAU.toFixed(2)} AU from Earth`,
+        category: "opposition",
+        planet: body,
+        distanceAU: Math.round(distanceAU * 1000) / 1000,
+        magnitude: Math.round(AE.Illumination(body, time).mag * 10) / 10,
+      });
+    }
+  }
+  return events.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Greatest elongations of Mercury and Venus within a date range
+ * @param start - Start of the range (inclusive)
+ * @param end - End of the range (exclusive)
+ * @returns Elongations in date order
+ */
+export function findGreatestElongations(
+  start: Date,
+  end: Date,
+): GreatestElongationEvent[] {
+  const events: GreatestElongationEvent[] = [];
+  if (!isValidRange(start, end)) return events;
+
+  for (const body of INFERIOR_PLANETS) {
+    for (
+      let elongation = AE.SearchMaxElongation(body, start);
+      elongation.time.date < end;
+      elongation = AE.SearchMaxElongation(body, elongation.time.AddDays(1))
+    ) {
+      const date = elongation.time.date;
+      const side =
+        elongation.visibility === "evening" ? "Eastern" : "Western";
+      events.push({
+        id: `el-${toDayId(date)}-${body.toLowerCase()}`,
+        name: `${body} Greatest ${side} Elongation ${formatMonthYear(date)}`,
+        date,
+        description: `${body} ${elongation.elongation.toFixed(1)}° from the Sun in the ${elongation.visibility} sky`,
+        category: "greatest-elongation",
+        planet: body,
+        elongation: roundDegrees(elongation.elongation),
+        visibility:
+          elongation.visibility as GreatestElongationEvent["visibility"],
+      });
+    }
+  }
+  return events.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Apparent ecliptic longitude of a planet as seen from Earth
+ */
+function getGeocentricLongitude(body: AE.Body, time: AE.AstroTime): number {
+  return AE.Ecliptic(AE.GeoVector(body, time, true)).elon;
+}
+
+/**
+ * Difference between two longitudes, in the range -180 to 180
+ */
+function wrapDegrees(degrees: number): number {
+  return ((((degrees + 180) % 360) + 360) % 360) - 180;
+}
+
+/**
+ * Starts and ends of retrograde loops within a date range: the stationary
+ * points where a planet's motion against the stars turns westward or back
+ * @param start - Start of the range (inclusive)
+ * @param end - End of the range (exclusive)
+ * @returns Stationary points in date order
+ */
+export function findRetrogradeStations(
+  start: Date,
+  end: Date,
+): RetrogradeEvent[] {
+  const events: RetrogradeEvent[] = [];
+  if (!isValidRange(start, end)) return events;
+
+  const times = sampleDays(start, end);
+  for (const body of NON_EARTH_PLANETS) {
+    const longitudes = times.map((time) => getGeocentricLongitude(body, time));
+
+    for (let k = 1; k < times.length - 1; k++) {
+      const before = wrapDegrees(longitudes[k] - longitudes[k - 1]);
+      const after = wrapDegrees(longitudes[k + 1] - longitudes[k]);
+      let phase: RetrogradeEvent["phase"];
+      if (before > 0 && after <= 0) phase = "start";
+      else if (before < 0 && after >= 0) phase = "end";
+      else continue;
+
+      // The loop starts at the most easterly longitude and ends at the most
+      // westerly one
+      const sign = phase === "start" ? -1 : 1;
+      const time = AE.MakeTime(
+        findMinimumTime(
+          (ut) =>
+            sign *
+            wrapDegrees(
+              getGeocentricLongitude(body, AE.MakeTime(ut)) - longitudes[k],
+            ),
+          times[k - 1].ut,
+          times[k + 1].ut,
+        ),
+      );
+      const date = time.date;
+      if (date < start || date >= end) continue;
+
+      events.push({
+        id: `rt-${toDayId(date)}-${body.toLowerCase()}-${phase}`,
+        name: `${body} Retrograde ${phase === "start" ? "Begins" : "Ends"} ${formatMonthYear(date)}`,
+        date,
+        description:
+          phase === "start"
+            ? `${body} stands still, then drifts westward against the stars`
+            : `${body} stands still, then resumes its eastward motion`,
+        category: "retrograde",
+        planet: body,
+        phase,
+      });
+    }
+  }
+  return events.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Perihelion passages of the planets other than Earth within a date range
+ * @param start - Start of the range (inclusive)
+ * @param end - End of the range (exclusive)
+ * @returns Perihelion passages in date order
+ */
+export function findPerihelionPassages(
+  start: Date,
+  end: Date,
+): PerihelionEvent[] {
+  const events: PerihelionEvent[] = [];
+  if (!isValidRange(start, end)) return events;
+
+  for (const body of NON_EARTH_PLANETS) {
+    for (
+      let apsis = AE.SearchPlanetApsis(body, start);
+      apsis.time.date < end;
+      apsis = AE.NextPlanetApsis(body, apsis)
+    ) {
+      if (apsis.kind !== AE.ApsisKind.Pericenter) continue;
+      const date = apsis.time.date;
+      events.push({
+        id: `ph-${toDayId(date)}-${body.toLowerCase()}`,
+        name: `${body} at Perihelion ${formatMonthYear(date)}`,
+        date,
+        description: `${body} at its closest to the Sun, ${apsis.dist_au.toFixed(3)} AU`,
+        category: "perihelion",
+        planet: body,
+        distanceAU: Math.round(apsis.dist_au * 1000) / 1000,
+      });
+    }
+  }
+  return events.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Every computed event within a date range
+ * @param start - Start of the range (inclusive)
+ * @param end - End of the range (exclusive)
+ * @returns Events in date order
+ */
+export function findAstronomicalEvents(
+  start: Date,
+  end: Date,
+): HistoricalEvent[] {
+  return [
+    ...findSolarEclipses(start, end),
+    ...findLunarEclipses(start, end),
+    ...findPlanetaryConjunctions(start, end),
+    ...findOppositions(start, end),
+    ...findGreatestElongations(start, end),
+    ...findRetrogradeStations(start, end),
+    ...findPerihelionPassages(start, end),
+  ].sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Nearest year events can be computed for
+ */
+export function clampEventYear(year: number): number {
+  if (Number.isNaN(year)) return MIN_ACCURATE_YEAR;
+  return Math.min(
+    Math.max(Math.round(year), MIN_ACCURATE_YEAR),
+    MAX_ACCURATE_YEAR,
+  );
+}
+
+/**
+ * Computed events for a calendar year (UTC), cached per year
+ * @param year - Year within the accurate range (1700-2300)
+ * @returns Events in date order, or none for a year outside the range
+ */
+export function findEventsInYear(year: number): HistoricalEvent[] {
+  if (
+    !Number.isInteger(year) ||
+    year < MIN_ACCURATE_YEAR ||
+    year > MAX_ACCURATE_YEAR
+  ) {
+    console.warn(
+      `Events can only be computed for ${MIN_ACCURATE_YEAR}-${MAX_ACCURATE_YEAR}, got ${year}`,
+    );
+    return [];
+  }
+
+  const cached = yearCache.get(year);
+  if (cached) return cached;
+
+  try {
+    const events = findAstronomicalEvents(
+      new Date(Date.UTC(year, 0, 1)),
+      new Date(Date.UTC(year + 1, 0, 1)),
+    );
+    yearCache.set(year, events);
+    return events;
+  } catch (error) {
+    console.error(`Failed to compute events for ${year}:`, error);
+    return [];
+  }
+}
@@ -3,6 +3,8 @@ import {
   EventCategory,
 } from "@/features/historical-events/data/historical-events-types";
 
+const MS_PER_DAY = 86_400_000;
+
 /**
  * Format a date for display
  */
@@ -98,6 +100,53 @@ export function filterAndSortEvents(
     });
 }
 
+/**
+ * Bodies an event is about: the planets of a conjunction, or the planet of an
+ * opposition, elongation, retrograde station or perihelion passage
+ */
+export function getEventPlanets(event: HistoricalEvent): string[] {
+  switch (event.category) {
+    case "planetary-conjunction":
+      return event.planets;
+    case "opposition":
+    case "greatest-elongation":
+    case "retrograde":
+    case "perihelion":
+      return [event.planet];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Whether two events record the same occurrence: same category within a day
+ * and the same bodies
+ */
+function isSameOccurrence(a: HistoricalEvent, b: HistoricalEvent): boolean {
+  if (a.category !== b.category) return false;
+  if (Math.abs(a.date.getTime() - b.date.getTime()) >= MS_PER_DAY) {
+    return false;
+  }
+  return (
+    [...getEventPlanets(a)].sort().join() ===
+    [...getEventPlanets(b)].sort().join()
+  );
+}
+
+/**
+ * Add computed events to the curated list, keeping the curated entry (with
+ * its name and story) where both describe the same occurrence
+ */
+export function mergeComputedEvents(
+  curated: HistoricalEvent[],
+  computed: HistoricalEvent[],
+): HistoricalEvent[] {
+  const added = computed.filter(
+    (event) => !curated.some((known) => isSameOccurrence(known, event)),
+  );
+  return [...curated, ...added];
+}
+
 /**
  * Check if an event is in the future
  */
@@ -1,5 +1,6 @@
 export * from "@/features/historical-events/application/useHistoricalEventsPanel";
 export * from "@/features/historical-events/data/historical-events";
 export * from "@/features/historical-events/data/historical-events-types";
+export * from "@/features/historical-events/domain/event-finder";
 export * from "@/features/historical-events/domain/historical-events-utils";
 export * from "@/features/historical-events/ui/index";
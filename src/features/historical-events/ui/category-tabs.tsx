@@ -6,7 +6,17 @@ import {
   EventCategory,
   EVENT_CATEGORY_LABELS,
 } from "@/features/historical-events/data/historical-events-types";
-import { Sun, Moon, Orbit, Rocket, Star } from "lucide-react";
+import {
+  Sun,
+  Moon,
+  Orbit,
+  Rocket,
+  Star,
+  ArrowLeftRight,
+  Sunrise,
+  RotateCcw,
+  CircleDot,
+} from "lucide-react";
 
 type CategoryOption = EventCategory | "all";
 
@@ -22,6 +32,10 @@ const CATEGORY_ICONS: Record<CategoryOption, React.ReactNode> = {
   "planetary-conjunction": <Orbit className="w-4 h-4" />,
   "space-mission": <Rocket className="w-4 h-4" />,
   "meteor-shower": <Star className="w-4 h-4" />,
+  opposition: <ArrowLeftRight className="w-4 h-4" />,
+  "greatest-elongation": <Sunrise className="w-4 h-4" />,
+  retrograde: <RotateCcw className="w-4 h-4" />,
+  perihelion: <CircleDot className="w-4 h-4" />,
 };
 
 const CATEGORIES: CategoryOption[] = [
@@ -31,6 +45,10 @@ const CATEGORIES: CategoryOption[] = [
   "planetary-conjunction",
   "space-mission",
   "meteor-shower",
+  "opposition",
+  "greatest-elongation",
+  "retrograde",
+  "perihelion",
 ];
 
 export function CategoryTabs({ selected, onSelect }: CategoryTabsProps) {
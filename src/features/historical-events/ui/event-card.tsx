@@ -8,8 +8,13 @@ import {
   PlanetaryConjunctionEvent,
   SpaceMissionEvent,
   MeteorShowerEvent,
+  OppositionEvent,
+  GreatestElongationEvent,
+  RetrogradeEvent,
+  PerihelionEvent,
 } from "@/features/historical-events/data/historical-events-types";
 import { formatEventDate } from "@/features/historical-events/domain/historical-events-utils";
+import { findMissionForEvent } from "@/features/missions/domain/mission-trajectory";
 
 interface EventCardProps {
   event: HistoricalEvent;
@@ -94,6 +99,7 @@ function ConjunctionDetails({ event }: { event: PlanetaryConjunctionEvent }) {
 }
 
 function SpaceMissionDetails({ event }: { event: SpaceMissionEvent }) {
+  const mission = findMissionForEvent(event);
   return (
     <>
       <span className="text-xs text-gray-500 dark:text-gray-400">
@@ -102,6 +108,11 @@ function SpaceMissionDetails({ event }: { event: SpaceMissionEvent }) {
       <span className="text-xs text-gray-500 dark:text-gray-400">
         Agency: {event.agency}
       </span>
+      {mission && (
+        <span className="text-xs text-sky-500 dark:text-sky-400">
+          Follows {mission.name} from launch
+        </span>
+      )}
     </>
   );
 }
@@ -119,6 +130,58 @@ function MeteorShowerDetails({ event }: { event: MeteorShowerEvent }) {
   );
 }
 
+function OppositionDetails({ event }: { event: OppositionEvent }) {
+  return (
+    <>
+      <span className="text-xs text-gray-500 dark:text-gray-400">
+        Distance: {event.distanceAU} AU
+      </span>
+      <span className="text-xs text-gray-500 dark:text-gray-400">
+        Magnitude: {event.magnitude}
+      </span>
+    </>
+  );
+}
+
+function ElongationDetails({ event }: { event: GreatestElongationEvent }) {
+  return (
+    <>
+      <span className="text-xs text-gray-500 dark:text-gray-400">
+        Elongation: {event.elongation}°
+      </span>
+      <span className="text-xs text-gray-500 dark:text-gray-400">
+        Sky: <span className="capitalize">{event.visibility}</span>
+      </span>
+    </>
+  );
+}
+
+function RetrogradeDetails({ event }: { event: RetrogradeEvent }) {
+  return (
+    <>
+      <span className="text-xs text-gray-500 dark:text-gray-400">
+        Planet: {event.planet}
+      </span>
+      <span className="text-xs text-gray-500 dark:text-gray-400">
+        Station: {event.phase === "start" ? "Turns westward" : "Turns eastward"}
+      </span>
+    </>
+  );
+}
+
+function PerihelionDetails({ event }: { event: PerihelionEvent }) {
+  return (
+    <>
+      <span className="text-xs text-gray-500 dark:text-gray-400">
+        Planet: {event.planet}
+      </span>
+      <span className="text-xs text-gray-500 dark:text-gray-400">
+        From the Sun: {event.distanceAU} AU
+      </span>
+    </>
+  );
+}
+
 function EventDetails({ event }: { event: HistoricalEvent }) {
   switch (event.category) {
     case "solar-eclipse":
@@ -131,6 +194,14 @@ function EventDetails({ event }: { event: HistoricalEvent }) {
       return <SpaceMissionDetails event={event} />;
     case "meteor-shower":
       return <MeteorShowerDetails event={event} />;
+    case "opposition":
+      return <OppositionDetails event={event} />;
+    case "greatest-elongation":
+      return <ElongationDetails event={event} />;
+    case "retrograde":
+      return <RetrogradeDetails event={event} />;
+    case "perihelion":
+      return <PerihelionDetails event={event} />;
     default:
       return null;
   }
@@ -6,9 +6,20 @@ import { X, History } from "lucide-react";
 import { cn } from "@/shared/ui/cn";
 import { HistoricalEvent, EventCategory } from "@/features/historical-events/data/historical-events-types";
 import { HISTORICAL_EVENTS } from "@/features/historical-events/data/historical-events";
-import { filterAndSortEvents } from "@/features/historical-events/domain/historical-events-utils";
+import {
+  filterAndSortEvents,
+  mergeComputedEvents,
+} from "@/features/historical-events/domain/historical-events-utils";
+import {
+  clampEventYear,
+  findEventsInYear,
+} from "@/features/historical-events/domain/event-finder";
+import {
+  MAX_ACCURATE_YEAR,
+  MIN_ACCURATE_YEAR,
+} from "@/utils/astronomy-calculations";
 import { CategoryTabs } from "./category-tabs";
-import { SearchInput, SortToggle, TimeFilter } from "./search-filters";
+import { SearchInput, SortToggle, TimeFilter, YearInput } from "./search-filters";
 import { EventList } from "./event-list";
 
 interface HistoricalEventsPanelProps {
@@ -32,17 +43,33 @@ export function HistoricalEventsPanel({
   const [timeFilter, setTimeFilter] = useState<"all" | "past" | "future">(
     "all",
   );
+  const [computedYear, setComputedYear] = useState(() =>
+    clampEventYear(currentDate.getFullYear()),
+  );
   const panelRef = useRef<HTMLDivElement>(null);
 
+  // Eclipses, conjunctions and alignments for the chosen year, computed only
+  // while the panel is open
+  const events = useMemo(
+    () =>
+      isOpen
+        ? mergeComputedEvents(
+            HISTORICAL_EVENTS,
+            findEventsInYear(computedYear),
+          )
+        : HISTORICAL_EVENTS,
+    [isOpen, computedYear],
+  );
+
   const filteredEvents = useMemo(() => {
     return filterAndSortEvents(
-      HISTORICAL_EVENTS,
+      events,
       selectedCategory,
       searchTerm,
       sortOrder,
       timeFilter,
     );
-  }, [selectedCategory, searchTerm, sortOrder, timeFilter]);
+  }, [events, selectedCategory, searchTerm, sortOrder, timeFilter]);
 
   const handleEventClick = (event: HistoricalEvent) => {
     onSelectEvent(event);
@@ -131,6 +158,15 @@ export function HistoricalEventsPanel({
             <TimeFilter value={timeFilter} onChange={setTimeFilter} />
           </div>
 
+          <div className="mb-4">
+            <YearInput
+              value={computedYear}
+              onChange={setComputedYear}
+              min={MIN_ACCURATE_YEAR}
+              max={MAX_ACCURATE_YEAR}
+            />
+          </div>
+
           {/* Event List */}
           <EventList
             events={filteredEvents}
@@ -2,4 +2,9 @@ export { HistoricalEventsPanel } from "./historical-events-panel";
 export { EventCard } from "./event-card";
 export { EventList } from "./event-list";
 export { CategoryTabs } from "./category-tabs";
-export { SearchInput, SortToggle, TimeFilter } from "./search-filters";
+export {
+  SearchInput,
+  SortToggle,
+  TimeFilter,
+  YearInput,
+} from "./search-filters";
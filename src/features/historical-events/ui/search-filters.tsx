@@ -1,8 +1,8 @@
 "use client";
 
-import { useEffect, useRef } from "react";
+import { useEffect, useRef, useState } from "react";
 import { cn } from "@/shared/ui/cn";
-import { Search, X, ArrowUpDown, Clock } from "lucide-react";
+import { Search, X, ArrowUpDown, Clock, Calculator } from "lucide-react";
 
 interface SearchInputProps {
   value: string;
@@ -117,3 +117,58 @@ export function TimeFilter({ value, onChange }: TimeFilterProps) {
     </div>
   );
 }
+
+interface YearInputProps {
+  value: number;
+  onChange: (year: number) => void;
+  min: number;
+  max: number;
+}
+
+/**
+ * Year whose events are computed from the ephemerides; applied on Enter or
+ * blur and clamped to the supported range
+ */
+export function YearInput({ value, onChange, min, max }: YearInputProps) {
+  const [draft, setDraft] = useState(String(value));
+
+  useEffect(() => {
+    setDraft(String(value));
+  }, [value]);
+
+  const commit = () => {
+    const year = Number.parseInt(draft, 10);
+    if (Number.isNaN(year)) {
+      setDraft(String(value));
+      return;
+    }
+    const clamped = Math.min(Math.max(year, min), max);
+    setDraft(String(clamped));
+    if (clamped !== value) onChange(clamped);
+  };
+
+  return (
+    <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+      <Calculator className="w-4 h-4 text-gray-400" />
+      <span>Computed events for</span>
+      <input
+        type="number"
+        value={draft}
+        min={min}
+        max={max}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") commit();
+        }}
+        className={cn(
+          "w-20 px-2 py-1 text-xs rounded-lg",
+          "bg-gray-100 dark:bg-gray-800",
+          "border border-gray-200 dark:border-gray-700",
+          "focus:outline-none focus:ring-2 focus:ring-blue-500",
+        )}
+        aria-label={`Computed events year (${min}-${max})`}
+      />
+    </label>
+  );
+}
@@ -0,0 +1,44 @@
+import type { EclipticPosition } from "@/utils/orbital-elements";
+
+/**
+ * Waypoint row: UTC date "YYYY-MM-DD", heliocentric x, y and z in AU on J2000
+ * ecliptic axes, and what happened there, if anything
+ */
+export type MissionWaypointRow = readonly [
+  string,
+  number,
+  number,
+  number,
+  string?,
+];
+
+export interface MissionData {
+  /** Stable identifier (e.g. "voyager-1") */
+  id: string;
+  name: string;
+  agency: string;
+  /** Colour of the path and marker */
+  color: string;
+  /** One line on what the mission did */
+  summary: string;
+  /**
+   * Other names the mission goes by in exploration histories and events
+   * (e.g. "Cassini-Huygens")
+   */
+  aliases: readonly string[];
+  /**
+   * Time-tagged positions in date order, from launch to the end of the
+   * data. Between waypoints the craft coasts on the two-body orbit that
+   * joins them, so waypoints are only needed at launch, encounters,
+   * manoeuvres and every part orbit of a craft circling the Sun.
+   */
+  waypoints: readonly MissionWaypointRow[];
+}
+
+export interface MissionWaypoint {
+  date: Date;
+  /** Position in AU (J2000 ecliptic) */
+  position: EclipticPosition;
+  /** Encounter or event at the waypoint */
+  label: string | null;
+}
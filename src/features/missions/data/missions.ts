@@ -0,0 +1,324 @@
+import type { MissionData } from "@/features/missions/data/mission-types";
+
+/**
+ * Bundled mission trajectories
+ * Approximate paths: launch and encounter waypoints are the planets'
+ * positions on the encounter dates, cruise manoeuvres sit where the fewest
+ * km/s join the legs either side, the Voyagers and New Horizons leave along
+ * their published escape directions and speeds, and Parker Solar Probe's
+ * orbits between Venus flybys follow its published perihelion distances and
+ * periods. Good to a small fraction of the distance from the Sun: enough to
+ * see where a craft went, not to navigate it.
+ */
+export const MISSIONS: readonly MissionData[] = [
+  {
+    id: "voyager-1",
+    name: "Voyager 1",
+    agency: "NASA",
+    color: "#60a5fa",
+    summary:
+      "Flew past Jupiter and Saturn, then became the first craft in interstellar space",
+    aliases: [],
+    waypoints: [
+      ["1977-09-05", 0.9623, -0.3009, 0.0000, "Launch"],
+      ["1979-03-05", -3.2199, 4.1966, 0.0548, "Jupiter flyby"],
+      ["1980-11-12", -9.5009, -0.3592, 0.3841, "Saturn and Titan flyby"],
+      ["2012-08-25", -24.2127, -96.6621, 69.6903, "Crosses the heliopause"],
+      ["2030-01-01", -36.5381, -145.8676, 105.1659],
+    ],
+  },
+  {
+    id: "voyager-2",
+    name: "Voyager 2",
+    agency: "NASA",
+    color: "#a78bfa",
+    summary:
+      "The only craft to visit Uranus and Neptune, on a grand tour of the outer planets",
+    aliases: [],
+    waypoints: [
+      ["1977-08-20", 0.8504, -0.5483, 0.0000, "Launch"],
+      ["1979-07-09", -3.9316, 3.5981, 0.0732, "Jupiter flyby"],
+      ["1981-08-26", -9.3924, -1.9521, 0.4076, "Saturn flyby"],
+      ["1986-01-24", -3.6715, -18.7669, -0.0218, "Uranus flyby"],
+      ["1989-08-25", 5.9994, -29.6078, 0.4719, "Neptune and Triton flyby"],
+      ["2018-11-05", 31.6572, -91.1701, -69.6193, "Crosses the heliopause"],
+      ["2030-01-01", 41.2874, -118.9041, -90.7975],
+    ],
+  },
+  {
+    id: "new-horizons",
+    name: "New Horizons",
+    agency: "NASA",
+    color: "#34d399",
+    summary: "First flyby of Pluto, then of the Kuiper belt object Arrokoth",
+    aliases: [],
+    waypoints: [
+      ["2006-01-19", -0.4722, 0.8632, 0.0000, "Launch"],
+      ["2007-02-28", -2.0839, -4.9262, 0.0670, "Jupiter gravity assist"],
+      ["2015-07-14", 8.0013, -31.9022, 1.0984, "Pluto flyby"],
+      ["2019-01-01", 11.0273, -41.9473, 1.5431, "Arrokoth flyby"],
+      ["2030-01-01", 24.6066, -71.7686, 2.1441],
+    ],
+  },
+  {
+    id: "cassini",
+    name: "Cassini",
+    agency: "NASA/ESA/ASI",
+    color: "#fbbf24",
+    summary:
+      "Thirteen years in orbit around Saturn after Venus, Earth and Jupiter gravity assists",
+    aliases: ["Cassini-Huygens"],
+    waypoints: [
+      ["1997-10-15", 0.9264, 0.3689, 0.0000, "Launch"],
+      ["1998-04-26", 0.0796, -0.7228, -0.0145, "Venus flyby"],
+      ["1998-12-03", 0.3243, 1.5259, 0.0021, "Deep-space manoeuvre"],
+      ["1999-06-24", -0.4055, -0.6002, 0.0152, "Venus flyby"],
+      ["1999-08-18", 0.8257, -0.5858, 0.0000, "Earth flyby"],
+      ["2000-12-30", 1.8111, 4.7089, -0.0599, "Jupiter flyby"],
+      ["2004-07-01", -2.5670, 8.6703, -0.0492, "Saturn orbit insertion"],
+      ["2004-09-30", -3.0766, 8.5103, -0.0262],
+      ["2004-12-30", -3.5760, 8.3221, -0.0031],
+      ["2005-03-31", -4.0635, 8.1064, 0.0200],
+      ["2005-06-30", -4.5376, 7.8640, 0.0431],
+      ["2005-09-29", -4.9968, 7.5960, 0.0660],
+      ["2005-12-29", -5.4396, 7.3031, 0.0886],
+      ["2006-03-30", -5.8646, 6.9866, 0.1110],
+      ["2006-06-29", -6.2707, 6.6476, 0.1331],
+      ["2006-09-28", -6.6566, 6.2872, 0.1547],
+      ["2006-12-28", -7.0212, 5.9069, 0.1758],
+      ["2007-03-29", -7.3634, 5.5079, 0.1964],
+      ["2007-06-28", -7.6825, 5.0916, 0.2163],
+      ["2007-09-27", -7.9774, 4.6595, 0.2356],
+      ["2007-12-27", -8.2476, 4.2130, 0.2541],
+      ["2008-03-27", -8.4924, 3.7536, 0.2718],
+      ["2008-06-26", -8.7112, 3.2827, 0.2887],
+      ["2008-09-25", -8.9036, 2.8021, 0.3048],
+      ["2008-12-25", -9.0693, 2.3130, 0.3199],
+      ["2009-03-26", -9.2079, 1.8171, 0.3340],
+      ["2009-06-25", -9.3194, 1.3159, 0.3472],
+      ["2009-09-24", -9.4036, 0.8109, 0.3594],
+      ["2009-12-24", -9.4605, 0.3036, 0.3705],
+      ["2010-03-25", -9.4902, -0.2046, 0.3805],
+      ["2010-06-24", -9.4928, -0.7122, 0.3894],
+      ["2010-09-23", -9.4687, -1.2177, 0.3973],
+      ["2010-12-23", -9.4180, -1.7199, 0.4040],
+      ["2011-03-24", -9.3412, -2.2172, 0.4096],
+      ["2011-06-23", -9.2387, -2.7085, 0.4141],
+      ["2011-09-22", -9.1109, -3.1924, 0.4175],
+      ["2011-12-22", -8.9584, -3.6677, 0.4197],
+      ["2012-03-22", -8.7819, -4.1331, 0.4208],
+      ["2012-06-21", -8.5820, -4.5875, 0.4208],
+      ["2012-09-20", -8.3593, -5.0299, 0.4196],
+      ["2012-12-20", -8.1147, -5.4591, 0.4174],
+      ["2013-03-21", -7.8489, -5.8741, 0.4141],
+      ["2013-06-20", -7.5627, -6.2739, 0.4097],
+      ["2013-09-19", -7.2571, -6.6577, 0.4042],
+      ["2013-12-19", -6.9329, -7.0245, 0.3978],
+      ["2014-03-20", -6.5910, -7.3735, 0.3903],
+      ["2014-06-19", -6.2325, -7.7039, 0.3818],
+      ["2014-09-18", -5.8582, -8.0151, 0.3724],
+      ["2014-12-18", -5.4693, -8.3063, 0.3620],
+      ["2015-03-19", -5.0666, -8.5769, 0.3507],
+      ["2015-06-18", -4.6514, -8.8263, 0.3386],
+      ["2015-09-17", -4.2246, -9.0540, 0.3256],
+      ["2015-12-17", -3.7874, -9.2595, 0.3118],
+      ["2016-03-17", -3.3409, -9.4423, 0.2972],
+      ["2016-06-16", -2.8861, -9.6022, 0.2819],
+      ["2016-09-15", -2.4242, -9.7387, 0.2659],
+      ["2016-12-15", -1.9564, -9.8516, 0.2493],
+      ["2017-03-16", -1.4838, -9.9406, 0.2320],
+      ["2017-06-15", -1.0076, -10.0056, 0.2142],
+      ["2017-09-15", -0.5236, -10.0468, 0.1956, "Grand Finale"],
+    ],
+  },
+  {
+    id: "juno",
+    name: "Juno",
+    agency: "NASA",
+    color: "#f472b6",
+    summary: "Polar orbiter of Jupiter, sent there by an Earth gravity assist",
+    aliases: [],
+    waypoints: [
+      ["2011-08-05", 0.6802, -0.7528, 0.0000, "Launch"],
+      ["2012-09-06", -2.1783, 0.5431, 0.0000, "Deep-space manoeuvre"],
+      ["2013-10-09", 0.9618, 0.2699, 0.0000, "Earth flyby"],
+      ["2016-07-05", -5.4357, 0.2762, 0.1205, "Jupiter orbit insertion"],
+      ["2016-10-04", -5.4375, -0.3782, 0.1233],
+      ["2017-01-03", -5.3571, -1.0270, 0.1242],
+      ["2017-04-04", -5.1959, -1.6602, 0.1232],
+      ["2017-07-04", -4.9563, -2.2684, 0.1204],
+      ["2017-10-03", -4.6417, -2.8423, 0.1157],
+      ["2018-01-02", -4.2567, -3.3730, 0.1093],
+      ["2018-04-03", -3.8066, -3.8522, 0.1012],
+      ["2018-07-03", -3.2978, -4.2720, 0.0915],
+      ["2018-10-02", -2.7376, -4.6252, 0.0805],
+      ["2019-01-01", -2.1342, -4.9054, 0.0681],
+      ["2019-04-02", -1.4967, -5.1072, 0.0547],
+      ["2019-07-02", -0.8349, -5.2259, 0.0404],
+      ["2019-10-01", -0.1593, -5.2583, 0.0255],
+      ["2019-12-31", 0.5189, -5.2022, 0.0101],
+      ["2020-03-31", 1.1881, -5.0570, -0.0055],
+      ["2020-06-30", 1.8366, -4.8234, -0.0210],
+      ["2020-09-29", 2.4524, -4.5040, -0.0361],
+      ["2020-12-29", 3.0236, -4.1028, -0.0506],
+      ["2021-03-30", 3.5388, -3.6258, -0.0641],
+      ["2021-06-29", 3.9875, -3.0806, -0.0764],
+      ["2021-09-28", 4.3598, -2.4764, -0.0872],
+      ["2021-12-28", 4.6475, -1.8243, -0.0964],
+      ["2022-03-29", 4.8438, -1.1363, -0.1036],
+      ["2022-06-28", 4.9439, -0.4257, -0.1088],
+      ["2022-09-27", 4.9449, 0.2933, -0.1118],
+      ["2022-12-27", 4.8465, 1.0064, -0.1126],
+      ["2023-03-28", 4.6503, 1.6992, -0.1111],
+      ["2023-06-27", 4.3604, 2.3577, -0.1074],
+      ["2023-09-26", 3.9829, 2.9689, -0.1015],
+      ["2023-12-26", 3.5259, 3.5209, -0.0936],
+      ["2024-03-26", 2.9992, 4.0032, -0.0838],
+      ["2024-06-25", 2.4137, 4.4073, -0.0724],
+      ["2024-09-24", 1.7817, 4.7264, -0.0596],
+      ["2024-12-24", 1.1158, 4.9557, -0.0456],
+      ["2025-03-25", 0.4290, 5.0924, -0.0308],
+      ["2025-06-24", -0.2657, 5.1357, -0.0154],
+      ["2025-09-30", -1.0082, 5.0790, 0.0014, "End of the extended mission"],
+    ],
+  },
+  {
+    id: "parker-solar-probe",
+    name: "Parker Solar Probe",
+    agency: "NASA",
+    color: "#f87171",
+    summary:
+      "Closest approach to the Sun of any craft, its orbit shrunk by seven Venus flybys",
+    aliases: ["Parker"],
+    waypoints: [
+      ["2018-08-12", 0.7649, -0.6648, 0.0000, "Launch"],
+      ["2018-10-03", 0.7231, -0.0601, -0.0425, "Venus flyby 1"],
+      ["2018-10-25", 0.2981, 0.2189, 0.0000],
+      ["2018-11-05", -0.1377, 0.0918, 0.0000],
+      ["2018-11-16", -0.0876, -0.3593, 0.0000],
+      ["2019-01-19", 0.7795, -0.5200, 0.0000],
+      ["2019-03-24", 0.2981, 0.2189, 0.0000],
+      ["2019-04-04", -0.1377, 0.0918, 0.0000],
+      ["2019-04-15", -0.0876, -0.3593, 0.0000],
+      ["2019-06-17", 0.7795, -0.5200, 0.0000],
+      ["2019-08-20", 0.2981, 0.2189, 0.0000],
+      ["2019-08-31", -0.1377, 0.0918, 0.0000],
+      ["2019-09-11", -0.0876, -0.3593, 0.0000],
+      ["2019-11-14", 0.7795, -0.5200, 0.0000],
+      ["2019-12-26", 0.7224, -0.0681, -0.0426, "Venus flyby 2"],
+      ["2020-01-20", 0.2223, 0.2059, 0.0000],
+      ["2020-01-28", -0.1155, 0.0594, 0.0000],
+      ["2020-02-05", -0.0380, -0.3007, 0.0000],
+      ["2020-04-02", 0.7778, -0.3998, 0.0000],
+      ["2020-05-29", 0.2223, 0.2059, 0.0000],
+      ["2020-06-06", -0.1155, 0.0594, 0.0000],
+      ["2020-06-14", -0.0380, -0.3007, 0.0000],
+      ["2020-07-11", 0.4895, -0.5380, -0.0356, "Venus flyby 3"],
+      ["2020-08-02", 0.6848, -0.4458, 0.0000],
+      ["2020-09-22", 0.1866, 0.1403, 0.0000],
+      ["2020-09-27", -0.0796, 0.0518, 0.0000],
+      ["2020-10-02", -0.0528, -0.2274, 0.0000],
+      ["2020-11-22", 0.6848, -0.4458, 0.0000],
+      ["2021-01-12", 0.1866, 0.1403, 0.0000],
+      ["2021-01-18", -0.0796, 0.0518, 0.0000],
+      ["2021-01-23", -0.0528, -0.2274, 0.0000],
+      ["2021-02-20", 0.4790, -0.5474, -0.0352, "Venus flyby 4"],
+      ["2021-03-08", 0.6084, -0.4888, 0.0000],
+      ["2021-04-24", 0.1614, 0.0978, 0.0000],
+      ["2021-04-28", -0.0578, 0.0464, 0.0000],
+      ["2021-05-01", -0.0607, -0.1786, 0.0000],
+      ["2021-06-18", 0.6084, -0.4888, 0.0000],
+      ["2021-08-04", 0.1614, 0.0978, 0.0000],
+      ["2021-08-08", -0.0578, 0.0464, 0.0000],
+      ["2021-08-11", -0.0607, -0.1786, 0.0000],
+      ["2021-09-28", 0.6084, -0.4888, 0.0000],
+      ["2021-10-16", 0.6431, -0.3385, -0.0417, "Venus flyby 5"],
+      ["2021-11-18", 0.1325, 0.0924, 0.0000],
+      ["2021-11-20", -0.0507, 0.0357, 0.0000],
+      ["2021-11-23", -0.0421, -0.1560, 0.0000],
+      ["2022-01-07", 0.6220, -0.4373, 0.0000],
+      ["2022-02-22", 0.1325, 0.0924, 0.0000],
+      ["2022-02-25", -0.0507, 0.0357, 0.0000],
+      ["2022-02-27", -0.0421, -0.1560, 0.0000],
+      ["2022-04-14", 0.6220, -0.4373, 0.0000],
+      ["2022-05-29", 0.1325, 0.0924, 0.0000],
+      ["2022-06-01", -0.0507, 0.0357, 0.0000],
+      ["2022-06-04", -0.0421, -0.1560, 0.0000],
+      ["2022-07-19", 0.6220, -0.4373, 0.0000],
+      ["2022-09-02", 0.1325, 0.0924, 0.0000],
+      ["2022-09-05", -0.0507, 0.0357, 0.0000],
+      ["2022-09-08", -0.0421, -0.1560, 0.0000],
+      ["2022-10-23", 0.6220, -0.4373, 0.0000],
+      ["2022-12-08", 0.1325, 0.0924, 0.0000],
+      ["2022-12-10", -0.0507, 0.0357, 0.0000],
+      ["2022-12-13", -0.0421, -0.1560, 0.0000],
+      ["2023-01-28", 0.6220, -0.4373, 0.0000],
+      ["2023-03-14", 0.1325, 0.0924, 0.0000],
+      ["2023-03-17", -0.0507, 0.0357, 0.0000],
+      ["2023-03-20", -0.0421, -0.1560, 0.0000],
+      ["2023-05-04", 0.6220, -0.4373, 0.0000],
+      ["2023-06-18", 0.1325, 0.0924, 0.0000],
+      ["2023-06-21", -0.0507, 0.0357, 0.0000],
+      ["2023-06-24", -0.0421, -0.1560, 0.0000],
+      ["2023-08-08", 0.6220, -0.4373, 0.0000],
+      ["2023-08-21", 0.6421, -0.3403, -0.0417, "Venus flyby 6"],
+      ["2023-09-24", 0.1126, 0.0847, 0.0000],
+      ["2023-09-27", -0.0445, 0.0290, 0.0000],
+      ["2023-09-29", -0.0318, -0.1373, 0.0000],
+      ["2023-11-12", 0.6250, -0.4068, 0.0000],
+      ["2023-12-26", 0.1126, 0.0847, 0.0000],
+      ["2023-12-28", -0.0445, 0.0290, 0.0000],
+      ["2023-12-30", -0.0318, -0.1373, 0.0000],
+      ["2024-02-12", 0.6250, -0.4068, 0.0000],
+      ["2024-03-27", 0.1126, 0.0847, 0.0000],
+      ["2024-03-29", -0.0445, 0.0290, 0.0000],
+      ["2024-03-31", -0.0318, -0.1373, 0.0000],
+      ["2024-05-14", 0.6250, -0.4068, 0.0000],
+      ["2024-06-27", 0.1126, 0.0847, 0.0000],
+      ["2024-06-29", -0.0445, 0.0290, 0.0000],
+      ["2024-07-01", -0.0318, -0.1373, 0.0000],
+      ["2024-08-14", 0.6250, -0.4068, 0.0000],
+      ["2024-09-27", 0.1126, 0.0847, 0.0000],
+      ["2024-09-29", -0.0445, 0.0290, 0.0000],
+      ["2024-10-02", -0.0318, -0.1373, 0.0000],
+      ["2024-11-06", 0.5725, -0.4482, -0.0392, "Venus flyby 7"],
+      ["2024-11-08", 0.5837, -0.4358, 0.0000],
+      ["2024-12-20", 0.1034, 0.0678, 0.0000],
+      ["2024-12-22", -0.0368, 0.0275, 0.0000],
+      ["2024-12-24", -0.0356, -0.1184, 0.0000],
+      ["2025-02-04", 0.5837, -0.4358, 0.0000],
+      ["2025-03-18", 0.1034, 0.0678, 0.0000],
+      ["2025-03-20", -0.0368, 0.0275, 0.0000],
+      ["2025-03-22", -0.0356, -0.1184, 0.0000],
+      ["2025-05-03", 0.5837, -0.4358, 0.0000],
+      ["2025-06-14", 0.1034, 0.0678, 0.0000],
+      ["2025-06-16", -0.0368, 0.0275, 0.0000],
+      ["2025-06-18", -0.0356, -0.1184, 0.0000],
+      ["2025-07-30", 0.5837, -0.4358, 0.0000],
+      ["2025-09-10", 0.1034, 0.0678, 0.0000],
+      ["2025-09-12", -0.0368, 0.0275, 0.0000],
+      ["2025-09-14", -0.0356, -0.1184, 0.0000],
+      ["2025-10-26", 0.5837, -0.4358, 0.0000],
+      ["2025-12-07", 0.1034, 0.0678, 0.0000],
+      ["2025-12-09", -0.0368, 0.0275, 0.0000],
+      ["2025-12-11", -0.0356, -0.1184, 0.0000],
+      ["2026-01-22", 0.5837, -0.4358, 0.0000],
+      ["2026-03-05", 0.1034, 0.0678, 0.0000],
+      ["2026-03-07", -0.0368, 0.0275, 0.0000],
+      ["2026-03-09", -0.0356, -0.1184, 0.0000],
+      ["2026-04-20", 0.5837, -0.4358, 0.0000],
+      ["2026-06-01", 0.1034, 0.0678, 0.0000],
+      ["2026-06-03", -0.0368, 0.0275, 0.0000],
+      ["2026-06-05", -0.0356, -0.1184, 0.0000],
+      ["2026-07-17", 0.5837, -0.4358, 0.0000],
+      ["2026-08-28", 0.1034, 0.0678, 0.0000],
+      ["2026-08-30", -0.0368, 0.0275, 0.0000],
+      ["2026-09-01", -0.0356, -0.1184, 0.0000],
+      ["2026-10-13", 0.5837, -0.4358, 0.0000],
+      ["2026-11-24", 0.1034, 0.0678, 0.0000],
+      ["2026-11-26", -0.0368, 0.0275, 0.0000],
+      ["2026-11-28", -0.0356, -0.1184, 0.0000],
+      ["2027-01-01", 0.5333, -0.4702, 0.0000],
+    ],
+  },
+];
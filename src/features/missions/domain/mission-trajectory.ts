@@ -0,0 +1,263 @@
+/**
+ * Mission trajectories
+ * Where a spacecraft was on any date, from its waypoints: between two
+ * waypoints the craft coasts on the two-body orbit around the Sun that joins
+ * them (Lambert's problem), so a handful of encounter positions give a
+ * smooth, physical path. Every bundled leg runs prograde, as the solver
+ * assumes.
+ */
+
+import * as AE from "astronomy-engine";
+import type {
+  MissionData,
+  MissionWaypoint,
+} from "@/features/missions/data/mission-types";
+import { MISSIONS } from "@/features/missions/data/missions";
+import {
+  propagateKepler,
+  solveLambert,
+} from "@/features/transfer-planner/domain/lambert";
+import { SUN_GM_KM3_S2 } from "@/features/transfer-planner/domain/transfer-orbit";
+import type { FocusPoint } from "@/features/camera-control/domain/camera-flight";
+import type { HistoricalEvent } from "@/features/historical-events/data/historical-events-types";
+import type { EclipticPosition } from "@/utils/orbital-elements";
+
+const MS_PER_DAY = 86_400_000;
+const SECONDS_PER_DAY = 86_400;
+const SUN_GM_AU3_DAY2 =
+  (SUN_GM_KM3_S2 * SECONDS_PER_DAY * SECONDS_PER_DAY) / AE.KM_PER_AU ** 3;
+
+/**
+ * Legs whose ends lie within this sine of the same line through the Sun
+ * have no well-defined orbit plane
+ */
+const RADIAL_LEG_SINE = 1e-4;
+
+/**
+ * Points drawn along each leg of a path
+ */
+export const MISSION_PATH_POINTS_PER_LEG = 24;
+
+/**
+ * Distance the camera follows a spacecraft from, in scene units
+ */
+export const MISSION_VIEW_DISTANCE = 400;
+
+export type MissionStatus = "upcoming" | "in-flight" | "ended";
+
+interface MissionLeg {
+  start: MissionWaypoint;
+  end: MissionWaypoint;
+  days: number;
+  /** Velocity leaving the start (AU/day), or null for a straight leg */
+  velocity: EclipticPosition | null;
+}
+
+// Lambert solutions are worked out once per mission
+const legCache = new WeakMap<MissionData, MissionLeg[]>();
+
+/**
+ * A mission's waypoints with dates and positions
+ */
+export function getMissionWaypoints(mission: MissionData): MissionWaypoint[] {
+  return mission.waypoints.map(([date, x, y, z, label]) => ({
+    date: new Date(`${date}T00:00:00Z`),
+    position: { x, y, z },
+    label: label ?? null,
+  }));
+}
+
+function isRadialLeg(a: EclipticPosition, b: EclipticPosition): boolean {
+  const cross = Math.hypot(
+    a.y * b.z - a.z * b.y,
+    a.z * b.x - a.x * b.z,
+    a.x * b.y - a.y * b.x,
+  );
+  return (
+    cross <
+    RADIAL_LEG_SINE * Math.hypot(a.x, a.y, a.z) * Math.hypot(b.x, b.y, b.z)
+  );
+}
+
+function getMissionLegs(mission: MissionData): MissionLeg[] {
+  const cached = legCache.get(mission);
+  if (cached) return cached;
+
+  const waypoints = getMissionWaypoints(mission);
+  const legs = waypoints.slice(1).map((end, i) => {
+    const start = waypoints[i];
+    const days = (end.date.getTime() - start.date.getTime()) / MS_PER_DAY;
+    // Waypoints straight out from the Sun have no orbit plane; the craft
+    // goes straight between them, as a craft leaving the Solar System
+    // nearly does
+    const radial = isRadialLeg(start.position, end.position);
+    const arc = radial
+      ? null
+      : solveLambert(start.position, end.position, days, SUN_GM_AU3_DAY2);
+    if (!arc && !radial) {
+      console.warn(
+        `${mission.name}: no orbit joins the waypoints of ${start.date.toISOString().slice(0, 10)}; drawing a straight leg`,
+      );
+    }
+    return { start, end, days, velocity: arc?.departureVelocity ?? null };
+  });
+  legCache.set(mission, legs);
+  return legs;
+}
+
+function getPositionOnLeg(leg: MissionLeg, days: number): EclipticPosition {
+  if (leg.velocity) {
+    return propagateKepler(
+      leg.start.position,
+      leg.velocity,
+      days,
+      SUN_GM_AU3_DAY2,
+    );
+  }
+  const t = leg.days > 0 ? days / leg.days : 0;
+  const { position: a } = leg.start;
+  const { position: b } = leg.end;
+  return {
+    x: a.x + (b.x - a.x) * t,
+    y: a.y + (b.y - a.y) * t,
+    z: a.z + (b.z - a.z) * t,
+  };
+}
+
+/**
+ * Launch date (the first waypoint)
+ */
+export function getMissionLaunch(mission: MissionData): Date {
+  return getMissionWaypoints(mission)[0].date;
+}
+
+/**
+ * Date the bundled path ends (the last waypoint)
+ */
+export function getMissionEnd(mission: MissionData): Date {
+  const waypoints = getMissionWaypoints(mission);
+  return waypoints[waypoints.length - 1].date;
+}
+
+/**
+ * Whether a date falls before launch, during the path or after it ends
+ */
+export function getMissionStatus(
+  mission: MissionData,
+  date: Date,
+): MissionStatus {
+  if (date < getMissionLaunch(mission)) return "upcoming";
+  if (date > getMissionEnd(mission)) return "ended";
+  return "in-flight";
+}
+
+/**
+ * Spacecraft position on a date
+ * @returns Position in AU (J2000 ecliptic), or null outside the path
+ */
+export function getMissionPosition(
+  mission: MissionData,
+  date: Date,
+): EclipticPosition | null {
+  const time = date.getTime();
+  const leg = getMissionLegs(mission).find(
+    ({ start, end }) =>
+      time >= start.date.getTime() && time <= end.date.getTime(),
+  );
+  if (!leg) return null;
+  return getPositionOnLeg(leg, (time - leg.start.date.getTime()) / MS_PER_DAY);
+}
+
+/**
+ * Points along the whole path, from launch to the end of the data
+ * @returns Positions in AU (J2000 ecliptic)
+ */
+export function getMissionPath(
+  mission: MissionData,
+  pointsPerLeg = MISSION_PATH_POINTS_PER_LEG,
+): EclipticPosition[] {
+  const legs = getMissionLegs(mission);
+  if (legs.length === 0) return [];
+  return [
+    legs[0].start.position,
+    ...legs.flatMap((leg) =>
+      Array.from({ length: pointsPerLeg }, (_, i) =>
+        getPositionOnLeg(leg, (leg.days * (i + 1)) / pointsPerLeg),
+      ),
+    ),
+  ];
+}
+
+/**
+ * The latest labelled waypoint on or before a date, e.g. the last flyby
+ */
+export function getLastMilestone(
+  mission: MissionData,
+  date: Date,
+): MissionWaypoint | null {
+  const passed = getMissionWaypoints(mission).filter(
+    (waypoint) => waypoint.label && waypoint.date <= date,
+  );
+  return passed[passed.length - 1] ?? null;
+}
+
+/**
+ * Camera target for following a spacecraft; its marker carries the
+ * mission's name
+ */
+export function getMissionFocus(mission: MissionData): FocusPoint {
+  return { name: mission.name, viewDistance: MISSION_VIEW_DISTANCE };
+}
+
+function namesMission(name: string, mission: MissionData): boolean {
+  const wanted = name.trim().toLowerCase();
+  return [mission.name, ...mission.aliases].some(
+    (known) => known.toLowerCase() === wanted,
+  );
+}
+
+/**
+ * Bundled missions named in a notable-missions entry, such as
+ * "Cassini-Huygens", "Juno (ongoing)" or "Voyager 1 & 2"
+ */
+export function findMissionsIn(
+  entry: string,
+  missions: readonly MissionData[] = MISSIONS,
+): MissionData[] {
+  // Drop notes in brackets, then expand "Voyager 1 & 2" into both names
+  const [first, ...rest] = entry
+    .replace(/\(.*?\)/g, "")
+    .split("&")
+    .map((part) => part.trim());
+  const base = first.replace(/\s*\d+$/, "");
+  const names = [
+    first,
+    ...rest.map((part) => (/^\d+$/.test(part) ? `${base} ${part}` : part)),
+  ];
+  return missions.filter((mission) =>
+    names.some((name) => namesMission(name, mission)),
+  );
+}
+
+/**
+ * The bundled mission a space-mission event belongs to
+ */
+export function findMissionForEvent(
+  event: HistoricalEvent,
+  missions: readonly MissionData[] = MISSIONS,
+): MissionData | null {
+  if (event.category !== "space-mission") return null;
+  return (
+    missions.find((mission) => namesMission(event.missionName, mission)) ??
+    null
+  );
+}
+
+/**
+ * Date Mode date for an event: a mission with a path starts from its
+ * launch, so the craft can be followed from there
+ */
+export function getEventJumpDate(event: HistoricalEvent): Date {
+  const mission = findMissionForEvent(event);
+  return mission ? getMissionLaunch(mission) : event.date;
+}
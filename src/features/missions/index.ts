@@ -0,0 +1,4 @@
+export * from "@/features/missions/data/mission-types";
+export * from "@/features/missions/data/missions";
+export * from "@/features/missions/domain/mission-trajectory";
+export * from "@/features/missions/ui/index";
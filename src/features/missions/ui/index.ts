@@ -0,0 +1,2 @@
+export * from "@/features/missions/ui/mission-panel";
+export * from "@/features/missions/ui/mission-paths";
@@ -0,0 +1,105 @@
+"use client";
+
+import { Satellite, X } from "lucide-react";
+import type { MissionData } from "@/features/missions/data/mission-types";
+import { MISSIONS } from "@/features/missions/data/missions";
+import {
+  getLastMilestone,
+  getMissionEnd,
+  getMissionLaunch,
+  getMissionStatus,
+  type MissionStatus,
+} from "@/features/missions/domain/mission-trajectory";
+
+const formatDay = (date: Date) => date.toISOString().slice(0, 10);
+
+const STATUS_LABELS: Record<MissionStatus, string> = {
+  upcoming: "Not launched",
+  "in-flight": "In flight",
+  ended: "Path ended",
+};
+
+interface MissionPanelProps {
+  /** Date Mode date the statuses are given for */
+  selectedDate: Date;
+  /** Jump to the mission's launch and follow the craft */
+  onFollowFromLaunch: (mission: MissionData) => void;
+  /** Follow the craft from the selected date */
+  onFollow: (mission: MissionData) => void;
+  onClose: () => void;
+  missions?: readonly MissionData[];
+}
+
+/**
+ * The bundled missions, where each stands on the selected date, and
+ * buttons to follow them
+ */
+export function MissionPanel({
+  selectedDate,
+  onFollowFromLaunch,
+  onFollow,
+  onClose,
+  missions = MISSIONS,
+}: MissionPanelProps) {
+  return (
+    <div className="w-72 p-3 rounded-lg bg-black/80 text-white text-sm max-h-[80vh] overflow-y-auto">
+      <div className="flex items-center gap-2 mb-3 font-medium">
+        <Satellite className="w-4 h-4 text-sky-400" />
+        <span className="flex-1">Spacecraft</span>
+        <button
+          onClick={onClose}
+          className="p-1 rounded hover:bg-white/10 transition-colors"
+          aria-label="Close spacecraft"
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      <ul className="space-y-2" aria-label="Missions">
+        {missions.map((mission) => {
+          const status = getMissionStatus(mission, selectedDate);
+          const milestone = getLastMilestone(mission, selectedDate);
+          return (
+            <li key={mission.id} className="p-2 rounded bg-white/5">
+              <div className="flex items-center gap-2">
+                <span
+                  className="w-2 h-2 rounded-full flex-shrink-0"
+                  style={{ backgroundColor: mission.color }}
+                />
+                <span className="flex-1 font-medium">{mission.name}</span>
+                <span className="text-[10px] text-gray-400">
+                  {STATUS_LABELS[status]}
+                </span>
+              </div>
+              <p className="text-xs text-gray-300 mt-1">{mission.summary}</p>
+              <div className="text-[11px] text-gray-400 mt-1">
+                {mission.agency} · {formatDay(getMissionLaunch(mission))} to{" "}
+                {formatDay(getMissionEnd(mission))}
+                {status === "in-flight" && milestone && (
+                  <> · Last: {milestone.label}</>
+                )}
+              </div>
+              <div className="flex gap-1.5 mt-2">
+                <button
+                  onClick={() => onFollowFromLaunch(mission)}
+                  className="flex-1 px-2 py-1 text-xs rounded bg-white/10 hover:bg-white/20 transition-colors"
+                  aria-label={`Follow ${mission.name} from launch`}
+                >
+                  From launch
+                </button>
+                <button
+                  onClick={() => onFollow(mission)}
+                  disabled={status !== "in-flight"}
+                  className="flex-1 px-2 py-1 text-xs rounded bg-sky-500/30 hover:bg-sky-500/40 disabled:opacity-40 disabled:hover:bg-sky-500/30 transition-colors"
+                  aria-label={`Follow ${mission.name}`}
+                >
+                  Follow
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import { useMemo } from "react";
+import { Html, Line } from "@react-three/drei";
+import { Vector3 } from "three";
+import { eclipticToScenePosition } from "@/features/planet-rendering/domain/kepler-orbit";
+import {
+  getSimulatedDate,
+  type SimulationClock,
+} from "@/features/simulation-control/domain/simulation-clock";
+import {
+  scaleHeliocentricPosition,
+  type ScaleStrategy,
+} from "@/features/view-scale/domain/scale-strategy";
+import type { MissionData } from "@/features/missions/data/mission-types";
+import { MISSIONS } from "@/features/missions/data/missions";
+import {
+  getMissionPath,
+  getMissionPosition,
+} from "@/features/missions/domain/mission-trajectory";
+import type { EclipticPosition } from "@/utils/orbital-elements";
+
+interface MissionPathsProps {
+  /** Simulation clock the spacecraft's positions follow */
+  clock: SimulationClock;
+  /** View scale, applied to the paths like the planets' orbits */
+  scale: ScaleStrategy;
+  onFollow?: (mission: MissionData) => void;
+  missions?: readonly MissionData[];
+}
+
+function toScene(position: EclipticPosition, scale: ScaleStrategy): Vector3 {
+  const { x, y, z } = scaleHeliocentricPosition(
+    eclipticToScenePosition(position, 1),
+    scale,
+  );
+  return new Vector3(x, y, z);
+}
+
+/**
+ * Each mission's path from launch to the end of its data, with the craft at
+ * the clock's date while it is in flight. Markers are named after their
+ * mission so the camera can follow them.
+ */
+export function MissionPaths({
+  clock,
+  scale,
+  onFollow,
+  missions = MISSIONS,
+}: MissionPathsProps) {
+  const paths = useMemo(
+    () =>
+      missions.map((mission) =>
+        getMissionPath(mission).map((point) => toScene(point, scale)),
+      ),
+    [missions, scale],
+  );
+
+  // The clock changes with each Date Mode step and animation frame, so the
+  // craft move in step with the planets
+  const positions = useMemo(() => {
+    const date = getSimulatedDate(clock);
+    return missions.map((mission) => {
+      const position = getMissionPosition(mission, date);
+      return position && toScene(position, scale);
+    });
+  }, [missions, clock, scale]);
+
+  return (
+    <>
+      {missions.map((mission, i) => (
+        <group key={mission.id}>
+          <Line
+            points={paths[i]}
+            color={mission.color}
+            lineWidth={1}
+            transparent
+            opacity={0.45}
+          />
+          {positions[i] && (
+            <group name={mission.name} position={positions[i]}>
+              <Html center zIndexRange={[10, 0]}>
+                <div className="flex items-center gap-1 whitespace-nowrap">
+                  <div
+                    className="w-2 h-2 rounded-full ring-2 ring-white/40"
+                    style={{ backgroundColor: mission.color }}
+                  />
+                  <button
+                    onClick={() => onFollow?.(mission)}
+                    className="px-1 rounded text-[10px] text-white/80 bg-black/40 hover:bg-black/70 transition-colors"
+                    aria-label={`Follow ${mission.name}`}
+                  >
+                    {mission.name}
+                  </button>
+                </div>
+              </Html>
+            </group>
+          )}
+        </group>
+      ))}
+    </>
+  );
+}
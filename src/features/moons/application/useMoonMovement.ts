@@ -0,0 +1,106 @@
+import { useRef, useMemo, useEffect } from "react";
+import { useFrame } from "@react-three/fiber";
+import { Group, Mesh, MathUtils } from "three";
+import { getPlanetOrbitalElements } from "@/features/planet-rendering/domain/kepler-orbit";
+import { getMoonOffset } from "@/features/moons/domain/moon-orbit";
+import type { MoonData } from "@/features/moons/data/moon-data";
+import { calculateRotationAngleDelta } from "@/features/planet-rendering/domain/rotation-calculations";
+import type { SimulationMode } from "@/features/simulation-control/state/simulation-mode-context";
+import {
+  getSimulatedDate,
+  type SimulationClock,
+} from "@/features/simulation-control/domain/simulation-clock";
+
+/**
+ * Props for the useMoonMovement hook.
+ */
+interface MoonMovementProps {
+  /** Moon data containing orbital parameters */
+  moon: MoonData;
+  /** Signed speed multiplier (1 = real-time, -1000 = 1000x backwards, 0 = paused) */
+  simulationSpeed: number;
+  /** Scaled semi-major axis around the parent in scene units */
+  scaledDistance: number;
+  /** Reference to the moon's orbit group (a child of the parent's orbit group) */
+  orbitRef: React.RefObject<Group | null>;
+  /** Reference to the moon mesh for rotation updates */
+  moonRef: React.RefObject<Mesh | null>;
+  /** Simulation clock shared with the planets */
+  clock: SimulationClock;
+  /** Simulation mode: 'speed' for animation, 'date' for static positions */
+  simulationMode?: SimulationMode;
+}
+
+/**
+ * Hook that moves a moon along its orbit around its parent planet.
+ *
+ * Mirrors usePlanetMovement, but positions are offsets inside the parent's
+ * orbit group so the moon follows the planet around the Sun.
+ *
+ * Both modes place the moon with getMoonOffset for the clock's date:
+ * Astronomy Engine for the Moon and Galilean moons, Keplerian motion from
+ * J2000 for the rest. Speed Mode does so every frame, Date Mode when the
+ * date changes.
+ */
+export function useMoonMovement({
+  moon,
+  simulationSpeed,
+  scaledDistance,
+  orbitRef,
+  moonRef,
+  clock,
+  simulationMode = "speed",
+}: MoonMovementProps) {
+  const isDateMode = simulationMode === "date";
+  const lastTimeRef = useRef(0);
+  const axialTiltSetRef = useRef(false);
+
+  const orbitalElements = useMemo(() => getPlanetOrbitalElements(moon), [moon]);
+
+  // Date Mode: position once per date
+  useEffect(() => {
+    if (!isDateMode || !orbitRef.current) return;
+
+    const position3D = getMoonOffset(
+      moon.name,
+      orbitalElements,
+      getSimulatedDate(clock),
+      scaledDistance,
+    );
+    orbitRef.current.position.set(position3D.x, position3D.y, position3D.z);
+  }, [isDateMode, clock, moon.name, orbitRef, orbitalElements, scaledDistance]);
+
+  useFrame(({ clock: frameClock }) => {
+    if (moonRef.current && !axialTiltSetRef.current) {
+      moonRef.current.rotation.x = MathUtils.degToRad(moon.axialTilt);
+      axialTiltSetRef.current = true;
+    }
+
+    if (isDateMode) return;
+
+    const elapsedTime = frameClock.getElapsedTime();
+    const deltaTime = Math.max(elapsedTime - lastTimeRef.current, 0.001);
+    lastTimeRef.current = elapsedTime;
+
+    if (orbitRef.current) {
+      const position3D = getMoonOffset(
+        moon.name,
+        orbitalElements,
+        getSimulatedDate(clock),
+        scaledDistance,
+      );
+      orbitRef.current.position.set(position3D.x, position3D.y, position3D.z);
+    }
+
+    // Tidally locked moons rotate once per orbit
+    if (moonRef.current && simulationSpeed !== 0) {
+      moonRef.current.rotation.y += calculateRotationAngleDelta(
+        moon.rotationSpeedByDays,
+        deltaTime,
+        simulationSpeed,
+      );
+    }
+  });
+
+  return { orbitalElements };
+}
@@ -0,0 +1,392 @@
+import { PlanetData } from "@/data/planet-types";
+
+// NASA JPL Solar System Dynamics - planetary satellite mean elements
+// https://ssd.jpl.nasa.gov/sats/elem/
+
+/**
+ * Natural satellite data.
+ *
+ * Extends PlanetData so moons can be shown in the same info modal as planets.
+ * Heliocentric fields (distanceInKm, distanceInAU) hold the moon's distance
+ * from its parent body instead of from the Sun.
+ */
+export interface MoonData extends PlanetData {
+  /** Name of the planet this moon orbits (matches PlanetData.name) */
+  parentName: string;
+
+  /** Semi-major axis of the orbit around the parent, in kilometers */
+  semiMajorAxisKm: number;
+}
+
+/**
+ * Fields shared by every moon entry that have no meaningful moon value
+ */
+const MOON_DEFAULTS = {
+  hasRings: false,
+  ringColor: "",
+  ringTilt: 0,
+  texture: "",
+  moons: "0",
+  orbitSpeedByEarth: 0,
+} as const;
+
+export const MOON_DATA: MoonData[] = [
+  {
+    ...MOON_DEFAULTS,
+    name: "Moon",
+    parentName: "Earth",
+    semiMajorAxisKm: 384_400,
+    diameterRelativeEarth: 0.273, // 3,474.8 / 12,742
+    diameterInKm: 3_475,
+    distanceInKm: 384_400,
+    distanceInAU: 0.00257,
+    eccentricity: 0.0549,
+    axialTilt: 6.68,
+    orbitalInclination: 5.145,
+    color: "#b8b8b8",
+    orbitSpeedByKmH: 3_683,
+    orbitalPeriodDays: 27.3217,
+    orbitalPeriod: "27.3 Earth days",
+    rotationSpeedByDays: 27.3217, // Tidally locked
+    rotationSpeedByKmH: 16.7,
+    description: "Earth's only natural satellite and the fifth largest moon",
+    dayLength: "29.5 Earth days (synodic)",
+    funFact: "The Moon is drifting away from Earth by about 3.8 cm per year",
+    temperature: "-173°C to 127°C",
+    gravity: "1.62 m/s²",
+    atmosphere: "Exosphere of helium, argon and neon",
+    yearDiscovered: "Prehistoric",
+    notableFeatures: [
+      "Tidally locked - always shows the same face to Earth",
+      "Drives most of Earth's ocean tides",
+      "Only other world humans have walked on",
+    ],
+    explorationHistory: {
+      firstFlyby: "Luna 1 (1959)",
+      firstOrbiter: "Luna 10 (1966)",
+      firstLander: "Luna 9 (1966)",
+      notableMissions: ["Apollo 11", "Lunar Reconnaissance Orbiter", "Chang'e 4"],
+    },
+  },
+  {
+    ...MOON_DEFAULTS,
+    name: "Phobos",
+    parentName: "Mars",
+    semiMajorAxisKm: 9_376,
+    diameterRelativeEarth: 0.0018, // 22.5 / 12,742
+    diameterInKm: 22.5,
+    distanceInKm: 9_376,
+    distanceInAU: 0.0000627,
+    eccentricity: 0.0151,
+    axialTilt: 0,
+    orbitalInclination: 1.075,
+    color: "#7a6a5c",
+    orbitSpeedByKmH: 7_704,
+    orbitalPeriodDays: 0.3189,
+    orbitalPeriod: "7.7 hours",
+    rotationSpeedByDays: 0.3189, // Tidally locked
+    rotationSpeedByKmH: 11,
+    description: "The larger and inner of Mars' two small moons",
+    dayLength: "7.7 hours",
+    funFact: "Phobos orbits Mars faster than Mars rotates, so it rises in the west",
+    temperature: "-112°C to -4°C",
+    gravity: "0.0057 m/s²",
+    atmosphere: "None",
+    yearDiscovered: "1877",
+    notableFeatures: [
+      "Spirals inward and will break up in about 50 million years",
+      "Dominated by the 9 km wide Stickney crater",
+    ],
+  },
+  {
+    ...MOON_DEFAULTS,
+    name: "Deimos",
+    parentName: "Mars",
+    semiMajorAxisKm: 23_458,
+    diameterRelativeEarth: 0.001, // 12.4 / 12,742
+    diameterInKm: 12.4,
+    distanceInKm: 23_458,
+    distanceInAU: 0.000157,
+    eccentricity: 0.0002,
+    axialTilt: 0,
+    orbitalInclination: 1.788,
+    color: "#8c7b6b",
+    orbitSpeedByKmH: 4_864,
+    orbitalPeriodDays: 1.263,
+    orbitalPeriod: "30.3 hours",
+    rotationSpeedByDays: 1.263, // Tidally locked
+    rotationSpeedByKmH: 1.3,
+    description: "The smaller and outer of Mars' two moons",
+    dayLength: "30.3 hours",
+    funFact: "From Mars, Deimos looks more like a bright star than a moon",
+    temperature: "-40°C (average)",
+    gravity: "0.003 m/s²",
+    atmosphere: "None",
+    yearDiscovered: "1877",
+    notableFeatures: ["Surface smoothed by a thick layer of regolith"],
+  },
+  {
+    ...MOON_DEFAULTS,
+    name: "Io",
+    parentName: "Jupiter",
+    semiMajorAxisKm: 421_800,
+    diameterRelativeEarth: 0.286, // 3,643 / 12,742
+    diameterInKm: 3_643,
+    distanceInKm: 421_800,
+    distanceInAU: 0.00282,
+    eccentricity: 0.0041,
+    axialTilt: 0,
+    orbitalInclination: 0.036,
+    color: "#e8d44d",
+    orbitSpeedByKmH: 62_423,
+    orbitalPeriodDays: 1.769,
+    orbitalPeriod: "1.77 Earth days",
+    rotationSpeedByDays: 1.769, // Tidally locked
+    rotationSpeedByKmH: 271,
+    description: "The innermost Galilean moon and the most volcanic body known",
+    dayLength: "1.77 Earth days",
+    funFact: "Io has over 400 active volcanoes driven by tidal heating",
+    temperature: "-143°C (average)",
+    gravity: "1.80 m/s²",
+    atmosphere: "Thin sulfur dioxide",
+    yearDiscovered: "1610",
+    notableFeatures: [
+      "Most geologically active body in the Solar System",
+      "Locked in a 1:2:4 orbital resonance with Europa and Ganymede",
+    ],
+  },
+  {
+    ...MOON_DEFAULTS,
+    name: "Europa",
+    parentName: "Jupiter",
+    semiMajorAxisKm: 671_100,
+    diameterRelativeEarth: 0.245, // 3,122 / 12,742
+    diameterInKm: 3_122,
+    distanceInKm: 671_100,
+    distanceInAU: 0.00449,
+    eccentricity: 0.0094,
+    axialTilt: 0.1,
+    orbitalInclination: 0.466,
+    color: "#c9b99a",
+    orbitSpeedByKmH: 49_476,
+    orbitalPeriodDays: 3.551,
+    orbitalPeriod: "3.55 Earth days",
+    rotationSpeedByDays: 3.551, // Tidally locked
+    rotationSpeedByKmH: 115,
+    description: "An icy Galilean moon with a global subsurface ocean",
+    dayLength: "3.55 Earth days",
+    funFact: "Europa may hold twice as much liquid water as Earth's oceans",
+    temperature: "-160°C (average)",
+    gravity: "1.31 m/s²",
+    atmosphere: "Very thin oxygen",
+    yearDiscovered: "1610",
+    notableFeatures: [
+      "Smoothest surface of any known solid body",
+      "Prime candidate in the search for life",
+    ],
+    explorationHistory: {
+      notableMissions: ["Galileo", "Juno", "Europa Clipper (en route)"],
+    },
+  },
+  {
+    ...MOON_DEFAULTS,
+    name: "Ganymede",
+    parentName: "Jupiter",
+    semiMajorAxisKm: 1_070_400,
+    diameterRelativeEarth: 0.413, // 5,268 / 12,742
+    diameterInKm: 5_268,
+    distanceInKm: 1_070_400,
+    distanceInAU: 0.00716,
+    eccentricity: 0.0013,
+    axialTilt: 0.33,
+    orbitalInclination: 0.177,
+    color: "#9d8f7f",
+    orbitSpeedByKmH: 39_165,
+    orbitalPeriodDays: 7.155,
+    orbitalPeriod: "7.15 Earth days",
+    rotationSpeedByDays: 7.155, // Tidally locked
+    rotationSpeedByKmH: 97,
+    description: "The largest moon in the Solar System, bigger than Mercury",
+    dayLength: "7.15 Earth days",
+    funFact: "Ganymede is the only moon known to have its own magnetic field",
+    temperature: "-163°C (average)",
+    gravity: "1.43 m/s²",
+    atmosphere: "Thin oxygen",
+    yearDiscovered: "1610",
+    notableFeatures: [
+      "Largest moon in the Solar System",
+      "Has an intrinsic magnetic field and auroras",
+    ],
+    explorationHistory: {
+      notableMissions: ["Galileo", "Juno", "JUICE (en route)"],
+    },
+  },
+  {
+    ...MOON_DEFAULTS,
+    name: "Callisto",
+    parentName: "Jupiter",
+    semiMajorAxisKm: 1_882_700,
+    diameterRelativeEarth: 0.378, // 4,821 / 12,742
+    diameterInKm: 4_821,
+    distanceInKm: 1_882_700,
+    distanceInAU: 0.01259,
+    eccentricity: 0.0074,
+    axialTilt: 0,
+    orbitalInclination: 0.192,
+    color: "#6b5e52",
+    orbitSpeedByKmH: 29_531,
+    orbitalPeriodDays: 16.689,
+    orbitalPeriod: "16.7 Earth days",
+    rotationSpeedByDays: 16.689, // Tidally locked
+    rotationSpeedByKmH: 38,
+    description: "The outermost Galilean moon and the most heavily cratered",
+    dayLength: "16.7 Earth days",
+    funFact: "Callisto's surface is about 4 billion years old",
+    temperature: "-139°C (average)",
+    gravity: "1.24 m/s²",
+    atmosphere: "Very thin carbon dioxide",
+    yearDiscovered: "1610",
+    notableFeatures: ["Most heavily cratered object in the Solar System"],
+  },
+  {
+    ...MOON_DEFAULTS,
+    name: "Titan",
+    parentName: "Saturn",
+    semiMajorAxisKm: 1_221_870,
+    diameterRelativeEarth: 0.404, // 5,150 / 12,742
+    diameterInKm: 5_150,
+    distanceInKm: 1_221_870,
+    distanceInAU: 0.00817,
+    eccentricity: 0.0288,
+    axialTilt: 0.3,
+    orbitalInclination: 0.348,
+    color: "#d9a441",
+    orbitSpeedByKmH: 20_050,
+    orbitalPeriodDays: 15.945,
+    orbitalPeriod: "15.9 Earth days",
+    rotationSpeedByDays: 15.945, // Tidally locked
+    rotationSpeedByKmH: 42,
+    description: "Saturn's largest moon with a thick nitrogen atmosphere",
+    dayLength: "15.9 Earth days",
+    funFact: "Titan has lakes and rivers of liquid methane and ethane",
+    temperature: "-179°C (surface)",
+    gravity: "1.35 m/s²",
+    atmosphere: "95% N2, 5% CH4",
+    yearDiscovered: "1655",
+    notableFeatures: [
+      "Only moon with a dense atmosphere",
+      "Only world besides Earth with stable surface liquids",
+    ],
+    explorationHistory: {
+      firstLander: "Huygens (2005)",
+      notableMissions: ["Cassini-Huygens", "Dragonfly (planned)"],
+    },
+  },
+  {
+    ...MOON_DEFAULTS,
+    name: "Enceladus",
+    parentName: "Saturn",
+    semiMajorAxisKm: 238_040,
+    diameterRelativeEarth: 0.0395, // 504 / 12,742
+    diameterInKm: 504,
+    distanceInKm: 238_040,
+    distanceInAU: 0.00159,
+    eccentricity: 0.0047,
+    axialTilt: 0,
+    orbitalInclination: 0.009,
+    color: "#f2f5f7",
+    orbitSpeedByKmH: 45_400,
+    orbitalPeriodDays: 1.37,
+    orbitalPeriod: "1.37 Earth days",
+    rotationSpeedByDays: 1.37, // Tidally locked
+    rotationSpeedByKmH: 48,
+    description: "A small icy moon venting water geysers from its south pole",
+    dayLength: "1.37 Earth days",
+    funFact: "Enceladus reflects almost all the sunlight that hits it",
+    temperature: "-198°C (average)",
+    gravity: "0.11 m/s²",
+    atmosphere: "Water vapour plumes",
+    yearDiscovered: "1789",
+    notableFeatures: [
+      "Most reflective body in the Solar System",
+      "Geysers feed Saturn's E ring",
+    ],
+  },
+  {
+    ...MOON_DEFAULTS,
+    name: "Titania",
+    parentName: "Uranus",
+    semiMajorAxisKm: 435_910,
+    diameterRelativeEarth: 0.123, // 1,577 / 12,742
+    diameterInKm: 1_577,
+    distanceInKm: 435_910,
+    distanceInAU: 0.00291,
+    eccentricity: 0.0011,
+    axialTilt: 0,
+    orbitalInclination: 0.079,
+    color: "#a89f94",
+    orbitSpeedByKmH: 13_104,
+    orbitalPeriodDays: 8.706,
+    orbitalPeriod: "8.7 Earth days",
+    rotationSpeedByDays: 8.706, // Tidally locked
+    rotationSpeedByKmH: 24,
+    description: "The largest moon of Uranus",
+    dayLength: "8.7 Earth days",
+    funFact: "Titania is named after the queen of the fairies in A Midsummer Night's Dream",
+    temperature: "-203°C (average)",
+    gravity: "0.38 m/s²",
+    atmosphere: "Possible trace carbon dioxide",
+    yearDiscovered: "1787",
+    notableFeatures: ["Cut by canyons up to 1,500 km long"],
+  },
+  {
+    ...MOON_DEFAULTS,
+    name: "Triton",
+    parentName: "Neptune",
+    semiMajorAxisKm: 354_759,
+    diameterRelativeEarth: 0.212, // 2,707 / 12,742
+    diameterInKm: 2_707,
+    distanceInKm: 354_759,
+    distanceInAU: 0.00237,
+    eccentricity: 0.000016,
+    axialTilt: 0,
+    orbitalInclination: 156.885, // > 90° = retrograde orbit
+    color: "#d4c7c1",
+    orbitSpeedByKmH: 15_800,
+    orbitalPeriodDays: 5.877, // Direction comes from the inclination
+    orbitalPeriod: "5.88 Earth days (retrograde)",
+    rotationSpeedByDays: -5.877,
+    rotationSpeedByKmH: 61,
+    description: "Neptune's largest moon, orbiting backwards",
+    dayLength: "5.88 Earth days",
+    funFact: "Triton is probably a captured Kuiper Belt object",
+    temperature: "-235°C (surface)",
+    gravity: "0.78 m/s²",
+    atmosphere: "Thin nitrogen",
+    yearDiscovered: "1846",
+    notableFeatures: [
+      "Only large moon with a retrograde orbit",
+      "Active nitrogen geysers",
+    ],
+    explorationHistory: {
+      firstFlyby: "Voyager 2 (1989)",
+      notableMissions: ["Voyager 2"],
+    },
+  },
+];
+
+/**
+ * Get all moons orbiting a given planet
+ * @param planetName - Name of the parent planet
+ * @returns Moons of that planet (empty array if none are modelled)
+ */
+export function getMoonsForPlanet(planetName: string): MoonData[] {
+  return MOON_DATA.filter((moon) => moon.parentName === planetName);
+}
+
+/**
+ * Type guard to tell moons apart from planets in shared UI (e.g. the info modal)
+ */
+export function isMoonData(body: PlanetData): body is MoonData {
+  return typeof (body as Partial<MoonData>).parentName === "string";
+}
@@ -0,0 +1,123 @@
+/**
+ * Moon orbit calculations
+ * Scales satellite orbits into scene units and positions the Moon and the
+ * Galilean moons with Astronomy Engine in both simulation modes.
+ */
+
+import * as AE from "astronomy-engine";
+import type { Position3D } from "@/features/planet-rendering/domain/orbital-inclination";
+import {
+  calculateOrbitScenePosition,
+  eclipticToScenePosition,
+} from "@/features/planet-rendering/domain/kepler-orbit";
+import type { OrbitalElements } from "@/utils/orbital-elements";
+
+/**
+ * Kilometers represented by one scene size unit.
+ *
+ * Planet spheres use diameterRelativeEarth as their radius, so one unit is
+ * half of Earth's diameter. Moon orbits use this size scale rather than the
+ * 1 AU = 1000 units distance scale: at AU scale Io would sit inside Jupiter.
+ */
+export const KM_PER_SIZE_UNIT = 12_742 / 2;
+
+/**
+ * Moons with an Astronomy Engine ephemeris (all others use Keplerian motion)
+ */
+export const EPHEMERIS_MOONS = [
+  "Moon",
+  "Io",
+  "Europa",
+  "Ganymede",
+  "Callisto",
+] as const;
+
+/**
+ * Convert an orbital distance in kilometers to scene units
+ * @param distanceKm - Distance from the parent body in km
+ * @returns Distance in scene units
+ */
+export function scaleMoonDistance(distanceKm: number): number {
+  if (!Number.isFinite(distanceKm) || distanceKm < 0) {
+    console.error(`Invalid moon distance: ${distanceKm}`);
+    return 0;
+  }
+  return distanceKm / KM_PER_SIZE_UNIT;
+}
+
+/**
+ * Convert an EQJ vector in AU to a scene-space offset in size units,
+ * using the same ecliptic-to-scene mapping as planet orbits.
+ */
+function equatorialToSceneOffset(vector: AE.Vector): Position3D {
+  const ecliptic = AE.RotateVector(AE.Rotation_EQJ_ECL(), vector);
+  return eclipticToScenePosition(ecliptic, AE.KM_PER_AU / KM_PER_SIZE_UNIT);
+}
+
+/**
+ * Get the position of a moon relative to its parent using Astronomy Engine
+ * @param moonName - Name of the moon
+ * @param date - Target date
+ * @returns Scene-space offset from the parent, or null when no ephemeris exists
+ */
+export function getMoonEphemerisOffset(
+  moonName: string,
+  date: Date,
+): Position3D | null {
+  if (!(date instanceof Date) || isNaN(date.getTime())) {
+    console.error(`Invalid date provided to getMoonEphemerisOffset for ${moonName}`);
+    return null;
+  }
+
+  try {
+    const time = AE.MakeTime(date);
+
+    switch (moonName) {
+      case "Moon":
+        return equatorialToSceneOffset(AE.GeoMoon(time));
+      case "Io":
+      case "Europa":
+      case "Ganymede":
+      case "Callisto": {
+        const jupiterMoons = AE.JupiterMoons(time);
+        const key = moonName.toLowerCase() as
+          | "io"
+          | "europa"
+          | "ganymede"
+          | "callisto";
+        const state = jupiterMoons[key];
+        return equatorialToSceneOffset(
+          new AE.Vector(state.x, state.y, state.z, state.t),
+        );
+      }
+      default:
+        return null;
+    }
+  } catch (error) {
+    console.error(`Failed to calculate position for ${moonName}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Position of a moon relative to its parent on a date. The ephemeris moons
+ * have no real mean elements here, so Keplerian motion is only the fallback
+ * for the others; both simulation modes read this, so switching modes does
+ * not move a moon.
+ * @param moonName - Name of the moon
+ * @param elements - Orbital elements of the moon around its parent
+ * @param date - Target date
+ * @param scaledDistance - Semi-major axis in scene units
+ * @returns Scene-space offset from the parent
+ */
+export function getMoonOffset(
+  moonName: string,
+  elements: OrbitalElements,
+  date: Date,
+  scaledDistance: number,
+): Position3D {
+  return (
+    getMoonEphemerisOffset(moonName, date) ??
+    calculateOrbitScenePosition(elements, date, scaledDistance)
+  );
+}
@@ -0,0 +1,4 @@
+export * from "@/features/moons/application/useMoonMovement";
+export * from "@/features/moons/data/moon-data";
+export * from "@/features/moons/domain/moon-orbit";
+export * from "@/features/moons/ui/moon";
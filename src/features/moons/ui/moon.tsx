@@ -0,0 +1,83 @@
+"use client";
+
+import { useRef, useCallback } from "react";
+import { ThreeEvent } from "@react-three/fiber";
+import { Sphere } from "@react-three/drei";
+import { Mesh, Group } from "three";
+import { PlanetData } from "@/data/planet-types";
+import type { MoonData } from "@/features/moons/data/moon-data";
+import { scaleMoonDistance } from "@/features/moons/domain/moon-orbit";
+import { useMoonMovement } from "@/features/moons/application/useMoonMovement";
+import { usePlanetMaterial } from "@/features/planet-rendering/application/usePlanetMaterial";
+import { OrbitPath } from "@/features/planet-rendering/ui/planet/orbit-path";
+import type { SimulationMode } from "@/features/simulation-control/state/simulation-mode-context";
+import type { SimulationClock } from "@/features/simulation-control/domain/simulation-clock";
+
+interface MoonProps {
+  moon: MoonData;
+  simulationSpeed: number;
+  onClick: (body: PlanetData) => void;
+  showOrbitPath?: boolean;
+  /** Simulation clock shared with the planets */
+  clock: SimulationClock;
+  /** Simulation mode: 'speed' for animation, 'date' for static positions */
+  simulationMode?: SimulationMode;
+}
+
+/**
+ * Moon component renders a natural satellite.
+ *
+ * Must be placed inside the parent planet's orbit group: all positions are
+ * offsets from the parent, so the moon is carried along the planet's orbit.
+ */
+export function Moon({
+  moon,
+  simulationSpeed,
+  onClick,
+  showOrbitPath = true,
+  clock,
+  simulationMode = "speed",
+}: MoonProps) {
+  const moonRef = useRef<Mesh | null>(null);
+  const orbitRef = useRef<Group | null>(null);
+  const moonMaterial = usePlanetMaterial(moon);
+
+  // Same size scale as planets: Earth radius = 1 unit
+  const scaledSize = moon.diameterRelativeEarth;
+  const scaledDistance = scaleMoonDistance(moon.semiMajorAxisKm);
+
+  useMoonMovement({
+    moon,
+    simulationSpeed,
+    scaledDistance,
+    orbitRef,
+    moonRef,
+    clock,
+    simulationMode,
+  });
+
+  const handleMoonClick = useCallback(
+    (e: ThreeEvent<MouseEvent>) => {
+      e.stopPropagation();
+      onClick(moon);
+    },
+    [onClick, moon],
+  );
+
+  return (
+    <>
+      {showOrbitPath && (
+        <OrbitPath planet={moon} scaledDistance={scaledDistance} />
+      )}
+      <group ref={orbitRef} name={moon.name}>
+        <Sphere
+          ref={moonRef}
+          args={[scaledSize, 16, 16]}
+          onClick={handleMoonClick}
+        >
+          <primitive object={moonMaterial} attach="material" />
+        </Sphere>
+      </group>
+    </>
+  );
+}
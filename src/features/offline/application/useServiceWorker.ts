@@ -0,0 +1,58 @@
+/**
+ * useServiceWorker Hook
+ * Registers the service worker that keeps the app shell and textures
+ * available offline (production builds only, so it never caches dev assets)
+ */
+
+import { useEffect } from "react";
+import { PLANET_TEXTURES } from "@/lib/planet-textures/texture-config";
+
+const SERVICE_WORKER_URL = "/sw.js";
+
+/**
+ * Same-origin scripts, styles and images the page has already loaded,
+ * which the worker could not see before it took control
+ */
+function getLoadedAssetUrls(): string[] {
+  return performance
+    .getEntriesByType("resource")
+    .map((entry) => entry.name)
+    .filter((url) => new URL(url).origin === window.location.origin)
+    .filter((url) => !new URL(url).pathname.startsWith("/api/"));
+}
+
+/**
+ * Planet textures for the worker to keep, from the texture config so the
+ * worker has no list of its own to fall out of date
+ */
+export function getTextureUrls(): string[] {
+  return Object.values(PLANET_TEXTURES).map(
+    (texture) => new URL(texture.texturePath, window.location.origin).href
+  );
+}
+
+export function useServiceWorker() {
+  useEffect(() => {
+    if (
+      process.env.NODE_ENV !== "production" ||
+      typeof navigator === "undefined" ||
+      !("serviceWorker" in navigator)
+    ) {
+      return;
+    }
+
+    navigator.serviceWorker
+      .register(SERVICE_WORKER_URL)
+      .then(() => navigator.serviceWorker.ready)
+      .then((registration) => {
+        registration.active?.postMessage({
+          type: "CACHE_URLS",
+          urls: [...new Set([...getLoadedAssetUrls(), ...getTextureUrls()])],
+        });
+      })
+      .catch((error) => {
+        // The app works without it, just not offline
+        console.error("Service worker registration failed:", error);
+      });
+  }, []);
+}
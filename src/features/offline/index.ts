@@ -0,0 +1 @@
+export * from "@/features/offline/application/useServiceWorker";
@@ -1,13 +1,19 @@
 /**
  * usePlanetAPIData Hook
- * Fetches and manages planet API data with loading states
+ * Fetches and manages planet API data with loading states, and picks up
+ * background refreshes of the offline catalog
  */
 
 import { useState, useEffect, useCallback, useRef } from "react";
 import { PlanetData } from "@/data/planet-types";
 import { MergedPlanetData } from "@/features/planet-catalog/domain/planet-api-types";
+import { subscribeToCatalogUpdates } from "@/features/planet-catalog/infrastructure/catalog-store";
 import { fetchWithCache } from "@/features/planet-catalog/infrastructure/fetch-with-fallback";
-import { mergePlanetData, createLoadingState } from "@/utils/data-merger";
+import {
+  mergePlanetData,
+  mergePlanetFacts,
+  createLoadingState,
+} from "@/utils/data-merger";
 
 interface UsePlanetAPIDataReturn {
   mergedData: MergedPlanetData;
@@ -84,6 +90,25 @@ export function usePlanetAPIData(
     }
   }, [planetName, localData, fetchData]);
 
+  // Show data refreshed in the background for the current planet
+  useEffect(() => {
+    if (!planetName || !localData) {
+      return;
+    }
+
+    const id = planetName.toLowerCase();
+    return subscribeToCatalogUpdates((record) => {
+      if (record.id !== id) {
+        return;
+      }
+      setMergedData({
+        ...mergePlanetFacts(record.data, localData),
+        freshness: { source: "live", fetchedAt: record.fetchedAt },
+      });
+      setError(false);
+    });
+  }, [planetName, localData]);
+
   // Reset state when localData changes
   useEffect(() => {
     if (localData) {
@@ -0,0 +1,20 @@
+/**
+ * usePlanetCatalogWarmup Hook
+ * Fetches every body's data in batches once at startup, so planet info
+ * opens from the offline catalog instead of waiting on the API
+ */
+
+import { useEffect } from "react";
+import { planetData } from "@/data/planet-data";
+import { dwarfPlanetData } from "@/data/dwarf-planet-data";
+import { warmPlanetCatalog } from "@/features/planet-catalog/infrastructure/fetch-with-fallback";
+
+const CATALOG_BODY_NAMES = [...planetData, ...dwarfPlanetData].map(
+  (body) => body.name
+);
+
+export function usePlanetCatalogWarmup() {
+  useEffect(() => {
+    warmPlanetCatalog(CATALOG_BODY_NAMES);
+  }, []);
+}
@@ -0,0 +1,136 @@
+/**
+ * Bundled Planet Snapshot
+ * Published physical and orbital facts for every body the catalog covers,
+ * shipped with the app so the bundled provider needs no network
+ * Sources: NASA planetary fact sheets and JPL Solar System Dynamics
+ */
+
+import { PlanetFacts } from "@/features/planet-catalog/domain/planet-data-provider";
+
+/**
+ * Date the snapshot was taken (moon counts change as moons are found)
+ */
+export const PLANET_SNAPSHOT_DATE = "2024-06-01";
+
+/**
+ * Facts by lowercase body name
+ */
+export const PLANET_SNAPSHOT: Record<string, PlanetFacts> = {
+  mercury: {
+    mass: { massValue: 3.3011, massExponent: 23 },
+    meanTemperatureK: 440,
+    siderealOrbitDays: 87.969,
+    siderealRotationHours: 1407.6,
+    moonCount: 0,
+    surfaceGravity: 3.7,
+    density: 5.427,
+  },
+  venus: {
+    mass: { massValue: 4.8675, massExponent: 24 },
+    meanTemperatureK: 737,
+    siderealOrbitDays: 224.701,
+    siderealRotationHours: -5832.5,
+    moonCount: 0,
+    surfaceGravity: 8.87,
+    density: 5.243,
+  },
+  earth: {
+    mass: { massValue: 5.9722, massExponent: 24 },
+    meanTemperatureK: 288,
+    siderealOrbitDays: 365.256,
+    siderealRotationHours: 23.9345,
+    moonCount: 1,
+    surfaceGravity: 9.8,
+    density: 5.514,
+  },
+  mars: {
+    mass: { massValue: 6.4171, massExponent: 23 },
+    meanTemperatureK: 210,
+    siderealOrbitDays: 686.98,
+    siderealRotationHours: 24.6229,
+    moonCount: 2,
+    surfaceGravity: 3.71,
+    density: 3.933,
+  },
+  jupiter: {
+    mass: { massValue: 1.8982, massExponent: 27 },
+    meanTemperatureK: 165,
+    siderealOrbitDays: 4332.589,
+    siderealRotationHours: 9.925,
+    moonCount: 95,
+    surfaceGravity: 24.79,
+    density: 1.326,
+  },
+  saturn: {
+    mass: { massValue: 5.6834, massExponent: 26 },
+    meanTemperatureK: 134,
+    siderealOrbitDays: 10759.22,
+    siderealRotationHours: 10.656,
+    moonCount: 146,
+    surfaceGravity: 10.44,
+    density: 0.687,
+  },
+  uranus: {
+    mass: { massValue: 8.681, massExponent: 25 },
+    meanTemperatureK: 76,
+    siderealOrbitDays: 30685.4,
+    siderealRotationHours: -17.24,
+    moonCount: 28,
+    surfaceGravity: 8.87,
+    density: 1.27,
+  },
+  neptune: {
+    mass: { massValue: 1.02413, massExponent: 26 },
+    meanTemperatureK: 72,
+    siderealOrbitDays: 60189,
+    siderealRotationHours: 16.11,
+    moonCount: 16,
+    surfaceGravity: 11.15,
+    density: 1.638,
+  },
+  ceres: {
+    mass: { massValue: 9.3835, massExponent: 20 },
+    meanTemperatureK: 168,
+    siderealOrbitDays: 1681.6,
+    siderealRotationHours: 9.074,
+    moonCount: 0,
+    surfaceGravity: 0.28,
+    density: 2.162,
+  },
+  pluto: {
+    mass: { massValue: 1.303, massExponent: 22 },
+    meanTemperatureK: 44,
+    siderealOrbitDays: 90560,
+    siderealRotationHours: -153.2928,
+    moonCount: 5,
+    surfaceGravity: 0.62,
+    density: 1.854,
+  },
+  haumea: {
+    mass: { massValue: 4.006, massExponent: 21 },
+    meanTemperatureK: 32,
+    siderealOrbitDays: 103468,
+    siderealRotationHours: 3.9155,
+    moonCount: 2,
+    surfaceGravity: 0.4,
+    density: 2.018,
+  },
+  makemake: {
+    mass: { massValue: 3.1, massExponent: 21 },
+    meanTemperatureK: 34,
+    siderealOrbitDays: 111845,
+    siderealRotationHours: 22.83,
+    moonCount: 1,
+    surfaceGravity: 0.5,
+    density: 1.7,
+  },
+  eris: {
+    mass: { massValue: 1.6466, massExponent: 22 },
+    meanTemperatureK: 43,
+    siderealOrbitDays: 204199,
+    siderealRotationHours: 378.9,
+    moonCount: 1,
+    surfaceGravity: 0.82,
+    density: 2.43,
+  },
+};
@@ -0,0 +1,44 @@
+/**
+ * Catalog Freshness
+ * Where the planet data on screen came from and how old it is
+ */
+
+const MINUTE_MS = 60_000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Source of merged planet data: fetched from the API just now, read from the
+ * offline catalog store, or the local data bundled with the app
+ */
+export type CatalogFreshness =
+  | { source: "live"; fetchedAt: number }
+  | { source: "cached"; fetchedAt: number }
+  | { source: "bundled" };
+
+function pluralize(count: number, unit: string): string {
+  return `${count} ${unit}${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * Short label for a freshness indicator, e.g. "live", "cached 3 days ago"
+ * or "bundled"
+ * @param freshness - Source of the data
+ * @param now - Current time in milliseconds
+ */
+export function formatCatalogFreshness(
+  freshness: CatalogFreshness,
+  now: number = Date.now()
+): string {
+  if (freshness.source !== "cached") return freshness.source;
+
+  const age = Math.max(0, now - freshness.fetchedAt);
+  if (age < MINUTE_MS) return "cached just now";
+  if (age < HOUR_MS) {
+    return `cached ${pluralize(Math.floor(age / MINUTE_MS), "minute")} ago`;
+  }
+  if (age < DAY_MS) {
+    return `cached ${pluralize(Math.floor(age / HOUR_MS), "hour")} ago`;
+  }
+  return `cached ${pluralize(Math.floor(age / DAY_MS), "day")} ago`;
+}
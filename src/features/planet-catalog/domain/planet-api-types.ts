@@ -4,6 +4,8 @@
  */
 
 import { PlanetData } from "@/data/planet-types";
+import type { CatalogFreshness } from "@/features/planet-catalog/domain/catalog-freshness";
+import type { PlanetDataProviderId } from "@/features/planet-catalog/domain/planet-data-provider";
 
 /**
  * Moon data from API response
@@ -66,6 +68,18 @@ export interface APIResponse {
   longAscNode: number;
 }
 
+/**
+ * Formatted API data fields of merged planet data
+ */
+export type MergedFactField =
+  | "apiMass"
+  | "apiTemperature"
+  | "apiOrbitalPeriod"
+  | "apiRotationPeriod"
+  | "apiMoonCount"
+  | "apiGravity"
+  | "apiDensity";
+
 /**
  * Merged planet data combining local and API data
  */
@@ -81,6 +95,57 @@ export interface MergedPlanetData extends PlanetData {
   // Loading and error states
   isLoadingAPIData?: boolean;
   apiError?: boolean;
+  // Where the data came from (live API, offline catalog or bundled data)
+  freshness?: CatalogFreshness;
+  // Provider each formatted API field came from
+  provenance?: Partial<Record<MergedFactField, PlanetDataProviderId>>;
+}
+
+/**
+ * Machine-readable reasons the planets API route fails
+ */
+export type PlanetAPIErrorCode =
+  | "INVALID_REQUEST"
+  | "UNSUPPORTED_PROVIDER"
+  | "UNSUPPORTED_BODY"
+  | "MISSING_API_KEY"
+  | "UPSTREAM_AUTH_FAILED"
+  | "UPSTREAM_ERROR" // upstream answered with an error status
+  | "UPSTREAM_TIMEOUT"
+  | "UPSTREAM_UNREACHABLE"
+  | "CIRCUIT_OPEN" // upstream is down; not called until the cooldown ends
+  | "ORIGIN_NOT_ALLOWED"
+  | "RATE_LIMITED";
+
+/**
+ * Error body of the planets API route
+ */
+export interface PlanetAPIErrorBody {
+  error: string;
+  code: PlanetAPIErrorCode;
+  /** When to try again, for CIRCUIT_OPEN and RATE_LIMITED */
+  retryAfterSeconds?: number;
+}
+
+/**
+ * One body's outcome in a batch response from /api/planets
+ */
+export interface PlanetBatchItem {
+  name: string; // lowercase
+  status: number; // HTTP status the single-body route would have returned
+  data?: unknown; // upstream response when status is 200
+  /** Data is a stored copy served because the upstream failed */
+  stale?: boolean;
+  error?: string;
+  code?: PlanetAPIErrorCode;
+}
+
+/**
+ * Batch response from /api/planets
+ */
+export interface PlanetBatchResponse {
+  provider: string;
+  items: PlanetBatchItem[];
 }
 
 /**
@@ -170,3 +235,27 @@ export function isValidMass(mass: unknown): mass is APIMass {
     Number.isFinite(m.massExponent)
   );
 }
+
+/**
+ * Type guard to validate batch response structure
+ */
+export function isValidPlanetBatchResponse(
+  data: unknown
+): data is PlanetBatchResponse {
+  if (!data || typeof data !== "object") {
+    return false;
+  }
+
+  const batch = data as Record<string, unknown>;
+  return (
+    typeof batch.provider === "string" &&
+    Array.isArray(batch.items) &&
+    batch.items.every(
+      (item) =>
+        !!item &&
+        typeof item === "object" &&
+        typeof item.name === "string" &&
+        typeof item.status === "number"
+    )
+  );
+}
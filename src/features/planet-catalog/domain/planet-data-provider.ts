@@ -0,0 +1,114 @@
+/**
+ * Planet Data Providers
+ * Provider-neutral facts about a body, the adapter interface every data
+ * source implements, and how facts from several sources are combined
+ */
+
+import { APIMass } from "@/features/planet-catalog/domain/planet-api-types";
+
+/**
+ * Data sources the catalog can draw on
+ */
+export type PlanetDataProviderId = "le-systeme-solaire" | "jpl-sbdb" | "bundled";
+
+/**
+ * Providers served through the internal API route
+ */
+export type RemoteProviderId = Exclude<PlanetDataProviderId, "bundled">;
+
+/**
+ * Display names of the data sources
+ */
+export const PLANET_DATA_PROVIDER_LABELS: Record<PlanetDataProviderId, string> =
+  {
+    "le-systeme-solaire": "Solar System OpenData",
+    "jpl-sbdb": "JPL Small-Body Database",
+    bundled: "Bundled snapshot",
+  };
+
+/**
+ * Facts about a body in common units; a provider leaves out what it does
+ * not know
+ */
+export interface PlanetFacts {
+  mass?: APIMass; // kg
+  meanTemperatureK?: number;
+  siderealOrbitDays?: number;
+  siderealRotationHours?: number; // negative for retrograde rotation
+  moonCount?: number;
+  surfaceGravity?: number; // m/s²
+  density?: number; // g/cm³
+}
+
+export type PlanetFactField = keyof PlanetFacts;
+
+export const PLANET_FACT_FIELDS: PlanetFactField[] = [
+  "mass",
+  "meanTemperatureK",
+  "siderealOrbitDays",
+  "siderealRotationHours",
+  "moonCount",
+  "surfaceGravity",
+  "density",
+];
+
+/**
+ * Facts combined from several providers, with the provider each came from
+ */
+export interface SourcedPlanetFacts {
+  facts: PlanetFacts;
+  provenance: Partial<Record<PlanetFactField, PlanetDataProviderId>>;
+}
+
+/**
+ * Adapter for one data source
+ */
+export interface PlanetDataProvider {
+  id: PlanetDataProviderId;
+  /** Whether the provider fetches over the network */
+  remote: boolean;
+  /** Whether the provider has data for a body (lowercase name) */
+  supports(bodyName: string): boolean;
+  /**
+   * Fetch a body's facts
+   * @throws when the source cannot be reached or returns bad data
+   */
+  fetchFacts(bodyName: string): Promise<PlanetFacts>;
+  /**
+   * Fetch several bodies' facts in one go, by lowercase name; bodies the
+   * source could not answer for are left out
+   * @throws when the source cannot be reached at all
+   */
+  fetchManyFacts?(bodyNames: string[]): Promise<Map<string, PlanetFacts>>;
+}
+
+/**
+ * Combine facts from providers listed in priority order: each field comes
+ * from the first provider that has it
+ * @param results - Each provider's facts, highest priority first
+ */
+export function combinePlanetFacts(
+  results: { providerId: PlanetDataProviderId; facts: PlanetFacts }[]
+): SourcedPlanetFacts {
+  const combined: SourcedPlanetFacts = { facts: {}, provenance: {} };
+
+  for (const { providerId, facts } of results) {
+    for (const field of PLANET_FACT_FIELDS) {
+      if (combined.facts[field] === undefined && facts[field] !== undefined) {
+        // Both sides are the same field, so the value type matches
+        (combined.facts as Record<PlanetFactField, unknown>)[field] =
+          facts[field];
+        combined.provenance[field] = providerId;
+      }
+    }
+  }
+
+  return combined;
+}
+
+/**
+ * Whether every fact is known, so lower-priority providers can be skipped
+ */
+export function hasAllPlanetFacts(facts: PlanetFacts): boolean {
+  return PLANET_FACT_FIELDS.every((field) => facts[field] !== undefined);
+}
@@ -0,0 +1,180 @@
+/**
+ * Provider Formats
+ * Response formats of the remote data sources and their conversion to
+ * provider-neutral planet facts
+ */
+
+import {
+  APIMass,
+  APIResponse,
+  isValidMass,
+} from "@/features/planet-catalog/domain/planet-api-types";
+import { PlanetFacts } from "@/features/planet-catalog/domain/planet-data-provider";
+
+/**
+ * Solar System OpenData body IDs by lowercase body name
+ */
+export const LE_SYSTEME_SOLAIRE_BODY_IDS: Record<string, string> = {
+  mercury: "mercury",
+  venus: "venus",
+  earth: "earth",
+  mars: "mars",
+  jupiter: "jupiter",
+  saturn: "saturn",
+  uranus: "uranus",
+  neptune: "neptune",
+  ceres: "ceres",
+  pluto: "pluton",
+  haumea: "haumea",
+  makemake: "makemake",
+  eris: "eris",
+};
+
+/**
+ * JPL Small-Body Database designations by lowercase body name; the SBDB
+ * has no major planets
+ */
+export const JPL_SBDB_DESIGNATIONS: Record<string, string> = {
+  ceres: "1",
+  pluto: "134340",
+  haumea: "136108",
+  makemake: "136472",
+  eris: "136199",
+};
+
+// Newtonian constant of gravitation (m³ kg⁻¹ s⁻²)
+const GRAVITATIONAL_CONSTANT = 6.6743e-11;
+const DAYS_PER_YEAR = 365.25;
+
+/**
+ * Number if positive and finite; Solar System OpenData reports unknown
+ * values as 0
+ */
+function positive(value: number | null | undefined): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) && value > 0
+    ? value
+    : undefined;
+}
+
+/**
+ * Facts from a Solar System OpenData (le-systeme-solaire.net) response
+ */
+export function leSystemeSolaireToFacts(response: APIResponse): PlanetFacts {
+  const rotation = response.sideralRotation;
+  return {
+    mass:
+      response.mass && isValidMass(response.mass) && response.mass.massValue
+        ? response.mass
+        : undefined,
+    meanTemperatureK: positive(response.avgTemp),
+    siderealOrbitDays: positive(response.sideralOrbit),
+    siderealRotationHours:
+      typeof rotation === "number" && Number.isFinite(rotation) && rotation
+        ? rotation
+        : undefined,
+    moonCount: Array.isArray(response.moons) ? response.moons.length : 0,
+    surfaceGravity: positive(response.gravity),
+    density: positive(response.density),
+  };
+}
+
+/**
+ * Named value in a JPL SBDB response; values come as strings
+ */
+export interface SbdbField {
+  name: string;
+  value: string | null;
+  units?: string | null;
+}
+
+/**
+ * JPL Small-Body Database API response (`sbdb.api?sstr=…&phys-par=1`),
+ * trimmed to the parts the catalog reads
+ */
+export interface SbdbResponse {
+  object: { fullname: string; shortname?: string };
+  orbit?: { elements: SbdbField[] };
+  phys_par?: SbdbField[];
+}
+
+function isSbdbFieldList(value: unknown): value is SbdbField[] {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (field) =>
+        field !== null &&
+        typeof field === "object" &&
+        typeof (field as SbdbField).name === "string" &&
+        ((field as SbdbField).value === null ||
+          typeof (field as SbdbField).value === "string")
+    )
+  );
+}
+
+/**
+ * Type guard to validate a JPL SBDB response
+ */
+export function isValidSbdbResponse(data: unknown): data is SbdbResponse {
+  if (!data || typeof data !== "object") {
+    return false;
+  }
+
+  const response = data as Record<string, unknown>;
+  const object = response.object as Record<string, unknown> | undefined;
+  if (!object || typeof object.fullname !== "string") {
+    return false;
+  }
+
+  const orbit = response.orbit as Record<string, unknown> | undefined;
+  if (orbit !== undefined && !isSbdbFieldList(orbit?.elements)) {
+    return false;
+  }
+
+  return response.phys_par === undefined || isSbdbFieldList(response.phys_par);
+}
+
+function readSbdbNumber(
+  fields: SbdbField[] | undefined,
+  name: string
+): { value: number; units: string } | undefined {
+  const field = fields?.find((entry) => entry.name === name);
+  const value = field?.value === null ? NaN : Number(field?.value);
+  return Number.isFinite(value) && value > 0
+    ? { value, units: field?.units ?? "" }
+    : undefined;
+}
+
+/**
+ * Mass in kg written as mantissa and power of ten
+ */
+function toMass(kilograms: number): APIMass {
+  const massExponent = Math.floor(Math.log10(kilograms));
+  return {
+    massValue: kilograms / Math.pow(10, massExponent),
+    massExponent,
+  };
+}
+
+/**
+ * Facts from a JPL SBDB response: mass and surface gravity follow from GM
+ * and the diameter
+ */
+export function sbdbToFacts(response: SbdbResponse): PlanetFacts {
+  const gm = readSbdbNumber(response.phys_par, "GM"); // km³/s²
+  const diameter = readSbdbNumber(response.phys_par, "diameter"); // km
+  const rotation = readSbdbNumber(response.phys_par, "rot_per"); // h
+  const density = readSbdbNumber(response.phys_par, "density"); // g/cm³
+  const period = readSbdbNumber(response.orbit?.elements, "per");
+
+  const radiusKm = diameter && diameter.value / 2;
+  return {
+    mass: gm && toMass((gm.value * 1e9) / GRAVITATIONAL_CONSTANT),
+    siderealOrbitDays:
+      period &&
+      (period.units === "y" ? period.value * DAYS_PER_YEAR : period.value),
+    siderealRotationHours: rotation?.value,
+    surfaceGravity:
+      gm && radiusKm ? (gm.value * 1e3) / (radiusKm * radiusKm) : undefined,
+    density: density?.value,
+  };
+}
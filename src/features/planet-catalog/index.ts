@@ -1,5 +1,12 @@
 export * from "@/features/planet-catalog/application/usePlanetAPIData";
+export * from "@/features/planet-catalog/application/usePlanetCatalogWarmup";
+export * from "@/features/planet-catalog/data/planet-snapshot";
+export * from "@/features/planet-catalog/domain/catalog-freshness";
 export * from "@/features/planet-catalog/domain/planet-api-types";
+export * from "@/features/planet-catalog/domain/planet-data-provider";
+export * from "@/features/planet-catalog/domain/provider-formats";
+export * from "@/features/planet-catalog/infrastructure/catalog-store";
 export * from "@/features/planet-catalog/infrastructure/fetch-with-fallback";
+export * from "@/features/planet-catalog/infrastructure/planet-data-providers";
 export * from "@/features/planet-catalog/infrastructure/planet-data-service";
 export * from "@/features/planet-catalog/server/route";
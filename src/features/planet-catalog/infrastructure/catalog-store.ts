@@ -0,0 +1,218 @@
+/**
+ * Catalog Store
+ * Persists provider facts per body in IndexedDB so the planet catalog keeps
+ * working offline, with an in-memory store where IndexedDB is unavailable
+ */
+
+import { SourcedPlanetFacts } from "@/features/planet-catalog/domain/planet-data-provider";
+
+const DB_NAME = "planet-catalog";
+const DB_VERSION = 1;
+const STORE_NAME = "bodies";
+
+// localStorage key of the cache this store replaces
+const LEGACY_CACHE_KEY = "planet-api-cache";
+
+/**
+ * Version of the stored record layout; records written with another version
+ * are ignored and refetched
+ */
+export const CATALOG_SCHEMA_VERSION = 2;
+
+/**
+ * One body's entry in the catalog store
+ */
+export interface CatalogRecord {
+  /** Lowercase body name */
+  id: string;
+  /** Incremented each time a refresh brings different data */
+  version: number;
+  schemaVersion: number;
+  data: SourcedPlanetFacts;
+  /** Time of the fetch that last confirmed the data, in milliseconds */
+  fetchedAt: number;
+}
+
+/**
+ * Storage backend of the catalog
+ */
+export interface CatalogStore {
+  get(id: string): Promise<CatalogRecord | undefined>;
+  put(record: CatalogRecord): Promise<void>;
+  delete(id: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Store that lives for the page session. Changes apply before the returned
+ * promises settle, so a clear is seen by the very next read.
+ */
+export function createMemoryCatalogStore(): CatalogStore {
+  const records = new Map<string, CatalogRecord>();
+  return {
+    get: (id) => Promise.resolve(records.get(id)),
+    put: (record) => {
+      records.set(record.id, record);
+      return Promise.resolve();
+    },
+    delete: (id) => {
+      records.delete(id);
+      return Promise.resolve();
+    },
+    clear: () => {
+      records.clear();
+      return Promise.resolve();
+    },
+  };
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Store backed by an IndexedDB object store keyed by body id. Transactions
+ * on one store run in the order they are created, so a clear followed by a
+ * read never sees the cleared record.
+ */
+export function createIndexedDBCatalogStore(
+  factory: IDBFactory = indexedDB
+): CatalogStore {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    if (!database) {
+      const request = factory.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+        }
+      };
+      database = promisifyRequest(request);
+      // Let a later call retry after a failed open
+      database.catch(() => {
+        database = null;
+      });
+    }
+    return database;
+  };
+
+  const run = async <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    const db = await open();
+    const store = db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+    return promisifyRequest(operation(store));
+  };
+
+  return {
+    get: (id) =>
+      run("readonly", (store) => store.get(id) as IDBRequest<CatalogRecord>),
+    put: async (record) => {
+      await run("readwrite", (store) => store.put(record));
+    },
+    delete: (id) => run("readwrite", (store) => store.delete(id)),
+    clear: () => run("readwrite", (store) => store.clear()),
+  };
+}
+
+let catalogStore: CatalogStore | null = null;
+
+/**
+ * The app's catalog store: IndexedDB in the browser, in memory elsewhere
+ */
+export function getCatalogStore(): CatalogStore {
+  if (!catalogStore) {
+    if (typeof indexedDB !== "undefined") {
+      catalogStore = createIndexedDBCatalogStore();
+      try {
+        localStorage.removeItem(LEGACY_CACHE_KEY);
+      } catch (error) {
+        console.error("Failed to remove the legacy API cache:", error);
+      }
+    } else {
+      catalogStore = createMemoryCatalogStore();
+    }
+  }
+  return catalogStore;
+}
+
+/**
+ * Read a body's record, ignoring records from another schema version
+ * @param id - Lowercase body name
+ */
+export async function readCatalogRecord(
+  id: string
+): Promise<CatalogRecord | undefined> {
+  try {
+    const record = await getCatalogStore().get(id);
+    return record?.schemaVersion === CATALOG_SCHEMA_VERSION
+      ? record
+      : undefined;
+  } catch (error) {
+    console.error(`Failed to read catalog record for ${id}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Store freshly fetched data for a body, bumping its version when the data
+ * differs from the stored copy. Write failures are logged; the returned
+ * record is still good to show.
+ * @param id - Lowercase body name
+ * @param data - Facts combined from the providers
+ * @param fetchedAt - Time of the fetch in milliseconds
+ * @returns The record as stored
+ */
+export async function writeCatalogRecord(
+  id: string,
+  data: SourcedPlanetFacts,
+  fetchedAt: number
+): Promise<CatalogRecord> {
+  const previous = await readCatalogRecord(id);
+  const unchanged =
+    previous !== undefined &&
+    JSON.stringify(previous.data) === JSON.stringify(data);
+  const record: CatalogRecord = {
+    id,
+    version: previous ? previous.version + (unchanged ? 0 : 1) : 1,
+    schemaVersion: CATALOG_SCHEMA_VERSION,
+    data,
+    fetchedAt,
+  };
+
+  try {
+    await getCatalogStore().put(record);
+  } catch (error) {
+    console.error(`Failed to write catalog record for ${id}:`, error);
+  }
+  return record;
+}
+
+type CatalogListener = (record: CatalogRecord) => void;
+
+const listeners = new Set<CatalogListener>();
+
+/**
+ * Listen for records refreshed in the background
+ * @returns Function that removes the listener
+ */
+export function subscribeToCatalogUpdates(
+  listener: CatalogListener
+): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Tell listeners a record was refreshed
+ */
+export function notifyCatalogUpdate(record: CatalogRecord): void {
+  listeners.forEach((listener) => listener(record));
+}
@@ -1,15 +1,38 @@
 /**
  * Fetch with Fallback Wrapper
- * Fetches API data with graceful fallback to local data
+ * Fetches provider data with graceful fallback to local data, through the
+ * offline catalog store
  */
 
 import { PlanetData } from "@/data/planet-types";
+import type { CatalogFreshness } from "@/features/planet-catalog/domain/catalog-freshness";
 import { MergedPlanetData } from "@/features/planet-catalog/domain/planet-api-types";
-import { planetDataService } from "@/features/planet-catalog/infrastructure/planet-data-service";
-import { mergePlanetData } from "@/utils/data-merger";
+import { SourcedPlanetFacts } from "@/features/planet-catalog/domain/planet-data-provider";
+import {
+  getCatalogStore,
+  notifyCatalogUpdate,
+  readCatalogRecord,
+  writeCatalogRecord,
+} from "@/features/planet-catalog/infrastructure/catalog-store";
+import {
+  fetchFromProviders,
+  fetchManyFromProviders,
+} from "@/features/planet-catalog/infrastructure/planet-data-providers";
+import { mergePlanetFacts } from "@/utils/data-merger";
 
 /**
- * Fetch planet data from API with fallback to local data
+ * Merge provider facts with local data and record where they came from
+ */
+function mergeWithFreshness(
+  sourced: SourcedPlanetFacts | null,
+  localData: PlanetData,
+  freshness: CatalogFreshness
+): MergedPlanetData {
+  return { ...mergePlanetFacts(sourced, localData), freshness };
+}
+
+/**
+ * Fetch planet data from the data providers with fallback to local data
  * @param planetName - Name of the planet
  * @param localData - Local planet data to use as fallback
  * @returns Merged planet data (API + local, or just local on failure)
@@ -18,60 +41,48 @@ export async function fetchWithFallback(
   planetName: string,
   localData: PlanetData
 ): Promise<MergedPlanetData> {
-  try {
-    const apiData = await planetDataService.fetchPlanetData(planetName);
-    return mergePlanetData(apiData, localData);
-  } catch (error) {
-    // Log error but don't show to user
-    console.error(
-      `API fetch failed for ${planetName}, using local data:`,
-      error instanceof Error ? error.message : error
-    );
-
-    // Return local data as fallback (no error shown to user)
-    return mergePlanetData(null, localData);
-  }
+  const sourced = await fetchFromProviders(planetName);
+
+  // Return local data as fallback (no error shown to user)
+  return mergeWithFreshness(
+    sourced,
+    localData,
+    sourced ? { source: "live", fetchedAt: Date.now() } : { source: "bundled" }
+  );
 }
 
-// Cache configuration
-const CACHE_KEY = "planet-api-cache";
-const CACHE_DURATION = 3600000; // 1 hour in milliseconds
+// Stored data older than this is shown at once and refreshed in the background
+const REFRESH_INTERVAL = 3600000; // 1 hour in milliseconds
 
-/**
- * Get cache from localStorage
- */
-function getCache(): Record<
-  string,
-  { data: MergedPlanetData; timestamp: number }
-> {
-  if (typeof window === "undefined") return {};
-
-  try {
-    const cacheStr = localStorage.getItem(CACHE_KEY);
-    return cacheStr ? JSON.parse(cacheStr) : {};
-  } catch (error) {
-    console.error("Failed to read cache from localStorage:", error);
-    return {};
-  }
-}
+// Background refreshes and warm-ups in flight, by body id
+const pendingRefreshes = new Map<string, Promise<void>>();
 
 /**
- * Save cache to localStorage
+ * Refetch a body's data without blocking the caller; subscribers hear about
+ * the new record. A failed refresh is logged and keeps the stored record;
+ * it never rejects, since reads may be waiting on it.
  */
-function saveCache(
-  cache: Record<string, { data: MergedPlanetData; timestamp: number }>
-): void {
-  if (typeof window === "undefined") return;
-
-  try {
-    localStorage.setItem(CACHE_KEY, JSON.stringify(cache));
-  } catch (error) {
-    console.error("Failed to save cache to localStorage:", error);
-  }
+function refreshInBackground(planetName: string, id: string): void {
+  if (pendingRefreshes.has(id)) return;
+
+  const refresh = (async () => {
+    const sourced = await fetchFromProviders(planetName);
+    if (sourced) {
+      notifyCatalogUpdate(await writeCatalogRecord(id, sourced, Date.now()));
+    }
+  })()
+    .catch((error) =>
+      console.error(`Failed to refresh ${planetName} in the background:`, error)
+    )
+    .finally(() => pendingRefreshes.delete(id));
+  pendingRefreshes.set(id, refresh);
 }
 
 /**
- * Fetch planet data with caching (persists across page refreshes)
+ * Fetch planet data through the offline catalog (persists across page
+ * refreshes). Stored data is returned straight away, stale or not, and
+ * refreshed in the background once it is older than an hour; without stored
+ * data the API is fetched, falling back to local data.
  * @param planetName - Name of the planet
  * @param localData - Local planet data
  * @returns Cached or fresh merged planet data
@@ -80,57 +91,92 @@ export async function fetchWithCache(
   planetName: string,
   localData: PlanetData
 ): Promise<MergedPlanetData> {
-  const cacheKey = planetName.toLowerCase();
-  const cache = getCache();
-  const cached = cache[cacheKey];
-  const now = Date.now();
+  const id = planetName.toLowerCase();
+  let record = await readCatalogRecord(id);
 
-  // Return cached data if still fresh
-  if (cached && now - cached.timestamp < CACHE_DURATION) {
+  if (!record && pendingRefreshes.has(id)) {
+    // A warm-up is already fetching this body
+    await pendingRefreshes.get(id);
+    record = await readCatalogRecord(id);
+  }
+
+  if (record) {
     console.log(`Using cached data for ${planetName}`);
-    return cached.data;
+    if (Date.now() - record.fetchedAt >= REFRESH_INTERVAL) {
+      refreshInBackground(planetName, id);
+    }
+    return mergeWithFreshness(record.data, localData, {
+      source: "cached",
+      fetchedAt: record.fetchedAt,
+    });
   }
 
   // Fetch fresh data
   console.log(`Fetching fresh data for ${planetName}`);
-  const data = await fetchWithFallback(planetName, localData);
-
-  // Cache the result (only if API data was successfully fetched)
-  if (!data.apiError) {
-    cache[cacheKey] = { data, timestamp: now };
-    saveCache(cache);
+  const sourced = await fetchFromProviders(planetName);
+  if (!sourced) {
+    return mergeWithFreshness(null, localData, { source: "bundled" });
   }
 
-  return data;
+  // Store the result (only if API data was successfully fetched)
+  const stored = await writeCatalogRecord(id, sourced, Date.now());
+  return mergeWithFreshness(sourced, localData, {
+    source: "live",
+    fetchedAt: stored.fetchedAt,
+  });
+}
+
+/**
+ * Fetch every body without a fresh record in one batch per provider and
+ * store the results, so opening a body later shows stored data at once.
+ * Failures are logged; those bodies are fetched on demand as before.
+ * @param planetNames - Names of the bodies to warm
+ */
+export async function warmPlanetCatalog(planetNames: string[]): Promise<void> {
+  const ids = [...new Set(planetNames.map((name) => name.toLowerCase()))];
+  const records = await Promise.all(ids.map((id) => readCatalogRecord(id)));
+  const now = Date.now();
+  const stale = ids.filter(
+    (id, index) =>
+      !pendingRefreshes.has(id) &&
+      (!records[index] || now - records[index].fetchedAt >= REFRESH_INTERVAL)
+  );
+  if (stale.length === 0) return;
+
+  const warmUp = (async () => {
+    const results = await fetchManyFromProviders(stale);
+    const fetchedAt = Date.now();
+    for (const [id, sourced] of results) {
+      if (sourced) {
+        notifyCatalogUpdate(await writeCatalogRecord(id, sourced, fetchedAt));
+      }
+    }
+  })()
+    .catch((error) => console.error("Failed to warm planet catalog:", error))
+    .finally(() => stale.forEach((id) => pendingRefreshes.delete(id)));
+  stale.forEach((id) => pendingRefreshes.set(id, warmUp));
+
+  await warmUp;
 }
 
 /**
  * Clear the entire API cache
  */
 export function clearAPICache(): void {
-  if (typeof window === "undefined") return;
-
-  try {
-    localStorage.removeItem(CACHE_KEY);
-    console.log("API cache cleared");
-  } catch (error) {
-    console.error("Failed to clear cache:", error);
-  }
+  getCatalogStore()
+    .clear()
+    .then(() => console.log("API cache cleared"))
+    .catch((error) => console.error("Failed to clear cache:", error));
 }
 
 /**
  * Clear cache for a specific planet
  */
 export function clearPlanetCache(planetName: string): void {
-  if (typeof window === "undefined") return;
-
-  try {
-    const cache = getCache();
-    const cacheKey = planetName.toLowerCase();
-    delete cache[cacheKey];
-    saveCache(cache);
-    console.log(`Cache cleared for ${planetName}`);
-  } catch (error) {
-    console.error(`Failed to clear cache for ${planetName}:`, error);
-  }
+  getCatalogStore()
+    .delete(planetName.toLowerCase())
+    .then(() => console.log(`Cache cleared for ${planetName}`))
+    .catch((error) =>
+      console.error(`Failed to clear cache for ${planetName}:`, error)
+    );
 }
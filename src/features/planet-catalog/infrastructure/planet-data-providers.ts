@@ -0,0 +1,308 @@
+/**
+ * Planet Data Provider Adapters
+ * Adapters for Solar System OpenData, the JPL Small-Body Database and the
+ * bundled snapshot, and the priority order they are consulted in
+ */
+
+import { PLANET_SNAPSHOT } from "@/features/planet-catalog/data/planet-snapshot";
+import {
+  PlanetDataProvider,
+  PlanetDataProviderId,
+  PlanetFacts,
+  SourcedPlanetFacts,
+  combinePlanetFacts,
+  hasAllPlanetFacts,
+} from "@/features/planet-catalog/domain/planet-data-provider";
+import {
+  JPL_SBDB_DESIGNATIONS,
+  LE_SYSTEME_SOLAIRE_BODY_IDS,
+  leSystemeSolaireToFacts,
+  sbdbToFacts,
+} from "@/features/planet-catalog/domain/provider-formats";
+import {
+  PlanetDataService,
+  planetDataService,
+} from "@/features/planet-catalog/infrastructure/planet-data-service";
+
+/**
+ * Live data first, the JPL Small-Body Database for what it lacks, and the
+ * bundled snapshot for anything still missing
+ */
+export const DEFAULT_PROVIDER_PRIORITY: PlanetDataProviderId[] = [
+  "le-systeme-solaire",
+  "jpl-sbdb",
+  "bundled",
+];
+
+type PlanetFetcher = Pick<
+  PlanetDataService,
+  | "fetchPlanetData"
+  | "fetchSbdbData"
+  | "fetchManyPlanetData"
+  | "fetchManySbdbData"
+>;
+
+/**
+ * Convert each successful response of a batch to facts
+ */
+function batchToFacts<T>(
+  data: Record<string, T>,
+  toFacts: (response: T) => PlanetFacts
+): Map<string, PlanetFacts> {
+  return new Map(
+    Object.entries(data).map(([name, response]) => [name, toFacts(response)])
+  );
+}
+
+export function createLeSystemeSolaireProvider(
+  service: PlanetFetcher = planetDataService
+): PlanetDataProvider {
+  return {
+    id: "le-systeme-solaire",
+    remote: true,
+    supports: (bodyName) =>
+      Object.hasOwn(LE_SYSTEME_SOLAIRE_BODY_IDS, bodyName.toLowerCase()),
+    fetchFacts: async (bodyName) =>
+      leSystemeSolaireToFacts(await service.fetchPlanetData(bodyName)),
+    fetchManyFacts: async (bodyNames) =>
+      batchToFacts(
+        (await service.fetchManyPlanetData(bodyNames)).data,
+        leSystemeSolaireToFacts
+      ),
+  };
+}
+
+export function createJplSbdbProvider(
+  service: PlanetFetcher = planetDataService
+): PlanetDataProvider {
+  return {
+    id: "jpl-sbdb",
+    remote: true,
+    supports: (bodyName) =>
+      Object.hasOwn(JPL_SBDB_DESIGNATIONS, bodyName.toLowerCase()),
+    fetchFacts: async (bodyName) =>
+      sbdbToFacts(await service.fetchSbdbData(bodyName)),
+    fetchManyFacts: async (bodyNames) =>
+      batchToFacts(
+        (await service.fetchManySbdbData(bodyNames)).data,
+        sbdbToFacts
+      ),
+  };
+}
+
+export function createBundledSnapshotProvider(
+  snapshot: Record<string, PlanetFacts> = PLANET_SNAPSHOT
+): PlanetDataProvider {
+  return {
+    id: "bundled",
+    remote: false,
+    supports: (bodyName) => Object.hasOwn(snapshot, bodyName.toLowerCase()),
+    fetchFacts: (bodyName) =>
+      Promise.resolve({ ...snapshot[bodyName.toLowerCase()] }),
+    fetchManyFacts: (bodyNames) =>
+      Promise.resolve(
+        new Map(
+          bodyNames
+            .map((name) => name.toLowerCase())
+            .filter((name) => Object.hasOwn(snapshot, name))
+            .map((name) => [name, { ...snapshot[name] }])
+        )
+      ),
+  };
+}
+
+let providerPriority = DEFAULT_PROVIDER_PRIORITY;
+
+/**
+ * Set the order providers are consulted in; unknown and repeated IDs are
+ * dropped, and providers left out are not used
+ */
+export function setPlanetDataProviderPriority(
+  priority: PlanetDataProviderId[]
+): void {
+  providerPriority = priority.filter(
+    (id, index) =>
+      DEFAULT_PROVIDER_PRIORITY.includes(id) && priority.indexOf(id) === index
+  );
+}
+
+export function getPlanetDataProviderPriority(): PlanetDataProviderId[] {
+  return [...providerPriority];
+}
+
+/**
+ * Provider adapters in priority order
+ * @param priority - Provider IDs, highest priority first
+ * @param service - Service the remote adapters fetch through
+ */
+export function getPlanetDataProviders(
+  priority: PlanetDataProviderId[] = providerPriority,
+  service: PlanetFetcher = planetDataService
+): PlanetDataProvider[] {
+  const providers: Record<PlanetDataProviderId, () => PlanetDataProvider> = {
+    "le-systeme-solaire": () => createLeSystemeSolaireProvider(service),
+    "jpl-sbdb": () => createJplSbdbProvider(service),
+    bundled: () => createBundledSnapshotProvider(),
+  };
+  return priority.map((id) => providers[id]());
+}
+
+/**
+ * What the providers asked so far answered for one body
+ */
+interface ProviderAnswers {
+  results: { providerId: PlanetDataProviderId; facts: PlanetFacts }[];
+  remoteTried: boolean;
+  remoteAnswered: boolean;
+}
+
+function createProviderAnswers(): ProviderAnswers {
+  return { results: [], remoteTried: false, remoteAnswered: false };
+}
+
+function hasEveryFact(answers: ProviderAnswers): boolean {
+  return hasAllPlanetFacts(combinePlanetFacts(answers.results).facts);
+}
+
+/**
+ * Record a provider's answer for a body; undefined facts mean it failed
+ */
+function recordProviderAnswer(
+  answers: ProviderAnswers,
+  provider: PlanetDataProvider,
+  facts: PlanetFacts | undefined
+): void {
+  answers.remoteTried ||= provider.remote;
+  if (!facts) return;
+  answers.results.push({ providerId: provider.id, facts });
+  answers.remoteAnswered ||= provider.remote;
+}
+
+/**
+ * Combined facts, or null when nothing answered or bundled data would stand
+ * in for every failed remote provider
+ */
+function toSourcedFacts(answers: ProviderAnswers): SourcedPlanetFacts | null {
+  if (
+    answers.results.length === 0 ||
+    (answers.remoteTried && !answers.remoteAnswered)
+  ) {
+    return null;
+  }
+  return combinePlanetFacts(answers.results);
+}
+
+/**
+ * Fetch a body's facts from the providers in order, stopping once every fact
+ * is known. Failed providers are logged and skipped. Bundled data only
+ * fills gaps: when every remote provider that covers the body fails, the
+ * result is null so callers fall back to their own data.
+ * @param bodyName - Name of the body
+ * @param providers - Provider adapters, highest priority first
+ * @returns Combined facts with provenance, or null
+ */
+export async function fetchFromProviders(
+  bodyName: string,
+  providers: PlanetDataProvider[] = getPlanetDataProviders()
+): Promise<SourcedPlanetFacts | null> {
+  const answers = createProviderAnswers();
+
+  for (const provider of providers) {
+    if (hasEveryFact(answers)) break;
+    if (!provider.supports(bodyName)) continue;
+
+    let facts: PlanetFacts | undefined;
+    try {
+      facts = await provider.fetchFacts(bodyName);
+    } catch (error) {
+      // Log error but don't show to user
+      console.error(
+        `${provider.id} fetch failed for ${bodyName}:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+    recordProviderAnswer(answers, provider, facts);
+  }
+
+  return toSourcedFacts(answers);
+}
+
+/**
+ * Ask one provider for several bodies: in one batch when it supports them,
+ * body by body otherwise. Bodies missing from the result failed.
+ */
+async function fetchProviderFacts(
+  provider: PlanetDataProvider,
+  bodyNames: string[]
+): Promise<Map<string, PlanetFacts>> {
+  if (provider.fetchManyFacts) {
+    try {
+      return await provider.fetchManyFacts(bodyNames);
+    } catch (error) {
+      console.error(
+        `${provider.id} batch fetch failed:`,
+        error instanceof Error ? error.message : error
+      );
+      return new Map();
+    }
+  }
+
+  const facts = new Map<string, PlanetFacts>();
+  await Promise.all(
+    bodyNames.map(async (name) => {
+      try {
+        facts.set(name, await provider.fetchFacts(name));
+      } catch (error) {
+        console.error(
+          `${provider.id} fetch failed for ${name}:`,
+          error instanceof Error ? error.message : error
+        );
+      }
+    })
+  );
+  return facts;
+}
+
+/**
+ * Fetch several bodies' facts with one batch request per provider, in
+ * priority order, combining them per body as fetchFromProviders does. Each
+ * provider is only asked for the bodies that still miss facts, so lower
+ * priority providers are skipped once the higher ones have answered.
+ * @param bodyNames - Names of the bodies
+ * @param providers - Provider adapters, highest priority first
+ * @returns Combined facts (or null) by lowercase body name
+ */
+export async function fetchManyFromProviders(
+  bodyNames: string[],
+  providers: PlanetDataProvider[] = getPlanetDataProviders()
+): Promise<Map<string, SourcedPlanetFacts | null>> {
+  const answers = new Map(
+    [...new Set(bodyNames.map((name) => name.toLowerCase()))].map((name) => [
+      name,
+      createProviderAnswers(),
+    ])
+  );
+
+  for (const provider of providers) {
+    const pending = [...answers].filter(
+      ([name, bodyAnswers]) =>
+        !hasEveryFact(bodyAnswers) && provider.supports(name)
+    );
+    if (pending.length === 0) continue;
+
+    const facts = await fetchProviderFacts(
+      provider,
+      pending.map(([name]) => name)
+    );
+    for (const [name, bodyAnswers] of pending) {
+      recordProviderAnswer(bodyAnswers, provider, facts.get(name));
+    }
+  }
+
+  return new Map(
+    [...answers].map(([name, bodyAnswers]) => [
+      name,
+      toSourcedFacts(bodyAnswers),
+    ])
+  );
+}
@@ -1,16 +1,27 @@
 /**
  * Planet Data Service
- * Fetches real-time planetary data from Solar System OpenData API
+ * Fetches real-time planetary data from Solar System OpenData API, and from
+ * the other remote providers through the same internal route
  */
 
 import {
   APIResponse,
+  PlanetBatchResponse,
   isValidAPIResponse,
+  isValidPlanetBatchResponse,
 } from "@/features/planet-catalog/domain/planet-api-types";
+import type { RemoteProviderId } from "@/features/planet-catalog/domain/planet-data-provider";
+import {
+  SbdbResponse,
+  isValidSbdbResponse,
+} from "@/features/planet-catalog/domain/provider-formats";
+
+const DEFAULT_PROVIDER: RemoteProviderId = "le-systeme-solaire";
 
 // Use internal API route to avoid CORS issues
 const API_BASE_URL = "/api/planets";
 const API_TIMEOUT = 15000; // 15 seconds (includes server-side fetch time)
+const BATCH_TIMEOUT = 45000; // 45 seconds (the route fetches a few at a time)
 
 /**
  * Error thrown when API request fails
@@ -26,13 +37,28 @@ export class PlanetAPIError extends Error {
   }
 }
 
+/**
+ * Bodies fetched by a batch request, by lowercase name, and the error for
+ * each body that failed
+ */
+export interface PlanetBatchResult<T> {
+  data: Record<string, T>;
+  errors: Record<string, string>;
+}
+
 /**
  * Planet Data Service class
- * Handles all API requests to Solar System OpenData
+ * Handles all API requests to Solar System OpenData and the other remote
+ * providers
  */
 export class PlanetDataService {
   private baseUrl: string;
   private timeout: number;
+  // Last batch response per URL, revalidated with If-None-Match
+  private batchCache = new Map<
+    string,
+    { etag: string; body: PlanetBatchResponse }
+  >();
 
   constructor(baseUrl = API_BASE_URL, timeout = API_TIMEOUT) {
     this.baseUrl = baseUrl;
@@ -42,8 +68,12 @@ export class PlanetDataService {
   /**
    * Build the API URL for a planet
    */
-  buildUrl(planetName: string): string {
-    return `${this.baseUrl}/${planetName.toLowerCase()}`;
+  buildUrl(
+    planetName: string,
+    provider: RemoteProviderId = DEFAULT_PROVIDER,
+  ): string {
+    const url = `${this.baseUrl}/${planetName.toLowerCase()}`;
+    return provider === DEFAULT_PROVIDER ? url : `${url}?provider=${provider}`;
   }
 
   /**
@@ -52,11 +82,118 @@ export class PlanetDataService {
    * @returns Promise resolving to API response data
    * @throws PlanetAPIError if request fails or times out
    */
-  async fetchPlanetData(planetName: string): Promise<APIResponse> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+  fetchPlanetData(planetName: string): Promise<APIResponse> {
+    return this.request(planetName, DEFAULT_PROVIDER, isValidAPIResponse);
+  }
+
+  /**
+   * Fetch a body's record from the JPL Small-Body Database
+   * @param planetName - Name of the body (e.g., "Ceres")
+   * @returns Promise resolving to the SBDB response
+   * @throws PlanetAPIError if request fails or times out
+   */
+  fetchSbdbData(planetName: string): Promise<SbdbResponse> {
+    return this.request(planetName, "jpl-sbdb", isValidSbdbResponse);
+  }
+
+  /**
+   * Build the API URL for a batch of bodies
+   * @param planetNames - Bodies to fetch; every body the provider covers
+   * when omitted
+   */
+  buildBatchUrl(
+    planetNames?: string[],
+    provider: RemoteProviderId = DEFAULT_PROVIDER,
+  ): string {
+    const params = new URLSearchParams();
+    if (planetNames) {
+      params.set(
+        "names",
+        planetNames.map((name) => name.toLowerCase()).join(","),
+      );
+    }
+    if (provider !== DEFAULT_PROVIDER) {
+      params.set("provider", provider);
+    }
+    const query = params.toString();
+    return query ? `${this.baseUrl}?${query}` : this.baseUrl;
+  }
 
-    const url = this.buildUrl(planetName);
+  /**
+   * Fetch several bodies from the Solar System OpenData API in one request
+   * @param planetNames - Names of the bodies; all of them when omitted
+   * @returns Each body's response, and the error for each one that failed
+   * @throws PlanetAPIError if the whole request fails or times out
+   */
+  fetchManyPlanetData(
+    planetNames?: string[],
+  ): Promise<PlanetBatchResult<APIResponse>> {
+    return this.requestMany(planetNames, DEFAULT_PROVIDER, isValidAPIResponse);
+  }
+
+  /**
+   * Fetch several bodies from the JPL Small-Body Database in one request
+   * @param planetNames - Names of the bodies; all of them when omitted
+   * @returns Each body's response, and the error for each one that failed
+   * @throws PlanetAPIError if the whole request fails or times out
+   */
+  fetchManySbdbData(
+    planetNames?: string[],
+  ): Promise<PlanetBatchResult<SbdbResponse>> {
+    return this.requestMany(planetNames, "jpl-sbdb", isValidSbdbResponse);
+  }
+
+  private request<T>(
+    planetName: string,
+    provider: RemoteProviderId,
+    isValid: (data: unknown) => data is T,
+  ): Promise<T> {
+    return this.send(this.buildUrl(planetName, provider), planetName, isValid);
+  }
+
+  private async requestMany<T>(
+    planetNames: string[] | undefined,
+    provider: RemoteProviderId,
+    isValid: (data: unknown) => data is T,
+  ): Promise<PlanetBatchResult<T>> {
+    const batch = await this.send(
+      this.buildBatchUrl(planetNames, provider),
+      planetNames ? planetNames.join(", ") : "all bodies",
+      isValidPlanetBatchResponse,
+      { timeout: BATCH_TIMEOUT, batch: true },
+    );
+
+    const result: PlanetBatchResult<T> = { data: {}, errors: {} };
+    for (const item of batch.items) {
+      if (item.status !== 200) {
+        result.errors[item.name] = item.error ?? `Status ${item.status}`;
+      } else if (isValid(item.data)) {
+        result.data[item.name] = item.data;
+      } else {
+        result.errors[item.name] = "Invalid API response structure";
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Fetch and validate JSON from the internal API route
+   * @param label - Bodies requested, for errors and logs
+   * @param options.batch - Batch request: send the last response's ETag and
+   * reuse it on 304, and read failed batches (502) for their per-body errors
+   */
+  private async send<T>(
+    url: string,
+    label: string,
+    isValid: (data: unknown) => data is T,
+    {
+      timeout = this.timeout,
+      batch = false,
+    }: { timeout?: number; batch?: boolean } = {},
+  ): Promise<T> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const cached = batch ? this.batchCache.get(url) : undefined;
 
     try {
       // Use internal API route - API key is handled server-side
@@ -64,22 +201,31 @@ export class PlanetDataService {
         signal: controller.signal,
         headers: {
           Accept: "application/json",
+          ...(cached ? { "If-None-Match": cached.etag } : {}),
         },
       });
 
       clearTimeout(timeoutId);
 
-      if (!response.ok) {
+      let data: unknown;
+      if (cached && response.status === 304) {
+        data = cached.body;
+      } else if (response.ok || (batch && response.status === 502)) {
+        data = await response.json();
+      } else {
         throw new PlanetAPIError(
           `API returned status ${response.status}`,
-          planetName,
+          label,
         );
       }
 
-      const data: unknown = await response.json();
+      if (!isValid(data)) {
+        throw new PlanetAPIError("Invalid API response structure", label);
+      }
 
-      if (!isValidAPIResponse(data)) {
-        throw new PlanetAPIError("Invalid API response structure", planetName);
+      const etag = batch ? response.headers.get("ETag") : null;
+      if (etag && response.ok && isValidPlanetBatchResponse(data)) {
+        this.batchCache.set(url, { etag, body: data });
       }
 
       return data;
@@ -87,25 +233,25 @@ export class PlanetDataService {
       clearTimeout(timeoutId);
 
       if (error instanceof PlanetAPIError) {
-        console.error(`API error for ${planetName}:`, error.message);
+        console.error(`API error for ${label}:`, error.message);
         throw error;
       }
 
       if (error instanceof Error) {
         if (error.name === "AbortError") {
-          console.error(`API request timeout for ${planetName}`);
-          throw new PlanetAPIError("API request timed out", planetName, error);
+          console.error(`API request timeout for ${label}`);
+          throw new PlanetAPIError("API request timed out", label, error);
         }
 
-        console.error(`Failed to fetch data for ${planetName}:`, error);
+        console.error(`Failed to fetch data for ${label}:`, error);
         throw new PlanetAPIError(
           `Network error: ${error.message}`,
-          planetName,
+          label,
           error,
         );
       }
 
-      throw new PlanetAPIError("Unknown error occurred", planetName);
+      throw new PlanetAPIError("Unknown error occurred", label);
     }
   }
 }
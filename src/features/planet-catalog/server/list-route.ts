@@ -0,0 +1,133 @@
+/**
+ * API Route: Batch proxy for the remote planet data providers
+ * `GET /api/planets` lists every body a provider covers, and
+ * `GET /api/planets?names=a,b,c` fetches the named ones. Upstream requests
+ * run a few at a time and each body succeeds or fails on its own.
+ */
+
+import type { PlanetBatchItem } from "@/features/planet-catalog/domain/planet-api-types";
+import {
+  conditionalJsonResponse,
+  errorResponse,
+  jsonResponse,
+  toErrorBody,
+  UPSTREAM_CACHE_CONTROL,
+} from "@/features/planet-catalog/server/responses";
+import { guardRequest } from "@/features/planet-catalog/server/request-guard";
+import {
+  DEFAULT_UPSTREAM_PROVIDER,
+  fetchBodyFromUpstream,
+  getUpstreamBodyNames,
+  isRemoteProviderId,
+} from "@/features/planet-catalog/server/upstream-providers";
+
+export const runtime = "edge";
+
+/** Upstream requests in flight at once per batch */
+export const UPSTREAM_CONCURRENCY = 4;
+
+/** Most bodies one batch request may name */
+export const MAX_BATCH_SIZE = 50;
+
+/**
+ * Map items through an async function, running at most `limit` at a time;
+ * results keep the input order
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker),
+  );
+  return results;
+}
+
+export async function GET(request: Request) {
+  const searchParams = new URL(request.url).searchParams;
+
+  const providerId = searchParams.get("provider") ?? DEFAULT_UPSTREAM_PROVIDER;
+  if (!isRemoteProviderId(providerId)) {
+    return errorResponse(400, {
+      error: "Unsupported provider",
+      code: "UNSUPPORTED_PROVIDER",
+    });
+  }
+
+  const namesParam = searchParams.get("names");
+  const names =
+    namesParam === null
+      ? getUpstreamBodyNames(providerId)
+      : [
+          ...new Set(
+            namesParam
+              .split(",")
+              .map((name) => name.trim().toLowerCase())
+              .filter(Boolean),
+          ),
+        ];
+
+  if (names.length === 0) {
+    return errorResponse(400, {
+      error: "No planet names given",
+      code: "INVALID_REQUEST",
+    });
+  }
+  if (names.length > MAX_BATCH_SIZE) {
+    return errorResponse(400, {
+      error: `At most ${MAX_BATCH_SIZE} planet names per request`,
+      code: "INVALID_REQUEST",
+    });
+  }
+
+  // Each name may cost an upstream call
+  const guard = await guardRequest(request, names.length);
+  if (!guard.allowed) return guard.response;
+
+  const items = await mapWithConcurrency(
+    names,
+    UPSTREAM_CONCURRENCY,
+    async (name): Promise<PlanetBatchItem> => {
+      const result = await fetchBodyFromUpstream(providerId, name);
+      if (!result.ok) {
+        return { name, status: result.status, ...toErrorBody(result) };
+      }
+      return result.cache === "stale"
+        ? { name, status: 200, data: result.data, stale: true }
+        : { name, status: 200, data: result.data };
+    },
+  );
+
+  const succeeded = items.filter((item) => item.status === 200).length;
+  if (succeeded === 0) {
+    return jsonResponse(
+      { provider: providerId, items },
+      { status: 502, headers: guard.headers },
+    );
+  }
+
+  // Partial or stale results should not be cached in place of complete ones;
+  // only uncached responses carry the client's rate limit headers
+  const complete =
+    succeeded === items.length && !items.some((item) => item.stale);
+  return conditionalJsonResponse(
+    request,
+    { provider: providerId, items },
+    {
+      headers: complete
+        ? { "Cache-Control": UPSTREAM_CACHE_CONTROL }
+        : { ...guard.headers, "Cache-Control": "no-store" },
+    },
+  );
+}
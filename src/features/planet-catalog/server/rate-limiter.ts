@@ -0,0 +1,181 @@
+/**
+ * Rate Limiter
+ * Token buckets per client over a pluggable store: in memory for tests and
+ * development, or any key-value store with expiry (Workers KV, a Durable
+ * Object) in production
+ */
+
+/**
+ * A client's bucket: tokens left when last updated
+ */
+export interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Where buckets are kept. Reads and writes are separate, so with an
+ * eventually consistent store (KV) limits are approximate.
+ */
+export interface RateLimitStore {
+  get(key: string): Promise<TokenBucketState | undefined>;
+  /** @param ttlSeconds - When the bucket may be dropped (it is full again) */
+  put(key: string, state: TokenBucketState, ttlSeconds: number): Promise<void>;
+}
+
+const MAX_MEMORY_BUCKETS = 10000;
+
+export function createMemoryRateLimitStore(
+  now: () => number = Date.now,
+): RateLimitStore {
+  const buckets = new Map<
+    string,
+    { state: TokenBucketState; expiresAt: number }
+  >();
+
+  return {
+    get: async (key) => {
+      const entry = buckets.get(key);
+      if (!entry || entry.expiresAt <= now()) return undefined;
+      return entry.state;
+    },
+    put: async (key, state, ttlSeconds) => {
+      if (buckets.size >= MAX_MEMORY_BUCKETS && !buckets.has(key)) {
+        for (const [bucketKey, entry] of buckets) {
+          if (entry.expiresAt <= now()) buckets.delete(bucketKey);
+        }
+        // Every bucket is live: drop the oldest
+        if (buckets.size >= MAX_MEMORY_BUCKETS) {
+          const oldest = buckets.keys().next().value;
+          if (oldest !== undefined) buckets.delete(oldest);
+        }
+      }
+      buckets.set(key, { state, expiresAt: now() + ttlSeconds * 1000 });
+    },
+  };
+}
+
+/**
+ * The parts of a Workers KV namespace the store uses
+ */
+export interface KVNamespaceLike {
+  get(key: string, type: "json"): Promise<unknown>;
+  put(
+    key: string,
+    value: string,
+    options?: { expirationTtl?: number },
+  ): Promise<void>;
+}
+
+// KV does not accept expirations under a minute
+const KV_MIN_TTL_SECONDS = 60;
+
+export function createKVRateLimitStore(
+  namespace: KVNamespaceLike,
+  prefix = "rate-limit:",
+): RateLimitStore {
+  return {
+    get: async (key) => {
+      const value = await namespace.get(prefix + key, "json");
+      if (
+        !value ||
+        typeof value !== "object" ||
+        typeof (value as TokenBucketState).tokens !== "number" ||
+        typeof (value as TokenBucketState).updatedAt !== "number"
+      ) {
+        return undefined;
+      }
+      return value as TokenBucketState;
+    },
+    put: (key, state, ttlSeconds) =>
+      namespace.put(prefix + key, JSON.stringify(state), {
+        expirationTtl: Math.max(KV_MIN_TTL_SECONDS, Math.ceil(ttlSeconds)),
+      }),
+  };
+}
+
+export interface RateLimitOptions {
+  /** Most tokens a bucket holds, i.e. the largest burst */
+  capacity: number;
+  refillPerSecond: number;
+}
+
+/** 60 requests in a burst, then one a second */
+export const DEFAULT_RATE_LIMIT_OPTIONS: RateLimitOptions = {
+  capacity: 60,
+  refillPerSecond: 1,
+};
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  /** Whole tokens left after this request */
+  remaining: number;
+  /** When enough tokens will be back, for refused requests */
+  retryAfterSeconds: number;
+}
+
+export interface RateLimiter {
+  /**
+   * Take tokens from a client's bucket
+   * @param key - Client identity, e.g. its IP address
+   * @param cost - Tokens the request uses; capped at the capacity
+   */
+  consume(key: string, cost?: number): Promise<RateLimitDecision>;
+}
+
+export function createRateLimiter(
+  store: RateLimitStore,
+  options: RateLimitOptions = DEFAULT_RATE_LIMIT_OPTIONS,
+  now: () => number = Date.now,
+): RateLimiter {
+  const { capacity, refillPerSecond } = options;
+  // A bucket untouched this long is full again, same as no bucket
+  const ttlSeconds = Math.ceil(capacity / refillPerSecond);
+
+  return {
+    consume: async (key, cost = 1) => {
+      const time = now();
+      const needed = Math.min(cost, capacity);
+
+      let state: TokenBucketState | undefined;
+      try {
+        state = await store.get(key);
+      } catch (error) {
+        // Fail open: a broken store should not take the API down
+        console.error("Failed to read rate limit:", error);
+        return {
+          allowed: true,
+          limit: capacity,
+          remaining: capacity,
+          retryAfterSeconds: 0,
+        };
+      }
+
+      const elapsedSeconds = state
+        ? Math.max(0, time - state.updatedAt) / 1000
+        : 0;
+      let tokens = state
+        ? Math.min(capacity, state.tokens + elapsedSeconds * refillPerSecond)
+        : capacity;
+
+      const allowed = tokens >= needed;
+      if (allowed) tokens -= needed;
+
+      try {
+        await store.put(key, { tokens, updatedAt: time }, ttlSeconds);
+      } catch (error) {
+        console.error("Failed to write rate limit:", error);
+      }
+
+      return {
+        allowed,
+        limit: capacity,
+        remaining: Math.floor(tokens),
+        retryAfterSeconds: allowed
+          ? 0
+          : Math.ceil((needed - tokens) / refillPerSecond),
+      };
+    },
+  };
+}
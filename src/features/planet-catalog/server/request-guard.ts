@@ -0,0 +1,196 @@
+/**
+ * Request Guard
+ * Per-IP rate limits, so one client cannot spend the upstream quota of our
+ * server secret, and an optional origin allowlist. Clients can send any
+ * Origin or Referer, so the allowlist only keeps other sites' pages from
+ * calling the API through their visitors' browsers; it does not stop
+ * scripts. Responses served from a shared cache reach neither check.
+ */
+
+import { errorResponse } from "@/features/planet-catalog/server/responses";
+import {
+  createMemoryRateLimitStore,
+  createRateLimiter,
+  DEFAULT_RATE_LIMIT_OPTIONS,
+  type RateLimiter,
+  type RateLimitOptions,
+  type RateLimitStore,
+} from "@/features/planet-catalog/server/rate-limiter";
+
+/**
+ * Header holding the client's address. Clients can send any of these
+ * headers themselves, so only one the platform overwrites is trusted:
+ * API_CLIENT_IP_HEADER when set (e.g. behind a reverse proxy), otherwise
+ * X-Real-IP on Vercel and CF-Connecting-IP on Cloudflare Workers
+ */
+function getTrustedIpHeader(): string | null {
+  const configured = process.env.API_CLIENT_IP_HEADER?.trim();
+  if (configured) return configured;
+  if (process.env.VERCEL) return "X-Real-IP";
+  if (
+    typeof navigator !== "undefined" &&
+    navigator.userAgent === "Cloudflare-Workers"
+  ) {
+    return "CF-Connecting-IP";
+  }
+  return null;
+}
+
+/**
+ * Address of the client from the trusted header; for X-Forwarded-For, the
+ * last entry, which the nearest proxy added
+ * @param header - Trusted header; null trusts none
+ * @returns The address, or null when the client cannot be identified
+ */
+export function getClientIp(
+  request: Request,
+  header: string | null = getTrustedIpHeader(),
+): string | null {
+  if (!header) return null;
+  const value = request.headers.get(header);
+  const address =
+    header.toLowerCase() === "x-forwarded-for"
+      ? value?.split(",").pop()
+      : value;
+  return address?.trim() || null;
+}
+
+/**
+ * Origins allowed to call the API, from API_ALLOWED_ORIGINS
+ * (comma-separated); null when unset, which allows any
+ */
+function getAllowedOrigins(): string[] | null {
+  const origins = process.env.API_ALLOWED_ORIGINS?.split(",")
+    .map((origin) => origin.trim().replace(/\/$/, ""))
+    .filter(Boolean);
+  return origins && origins.length > 0 ? origins : null;
+}
+
+function originOf(url: string | null): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a request's Origin (or its Referer's origin) is on the allowlist.
+ * The app's own origin must be listed too; requests that name no origin are
+ * refused once a list is configured.
+ * @param allowedOrigins - Allowed origins; null allows any
+ */
+export function isOriginAllowed(
+  request: Request,
+  allowedOrigins: string[] | null = getAllowedOrigins(),
+): boolean {
+  if (!allowedOrigins) return true;
+  const origin =
+    request.headers.get("Origin") ??
+    originOf(request.headers.get("Referer"));
+  return origin !== null && allowedOrigins.includes(origin);
+}
+
+let rateLimiter: RateLimiter | null = null;
+
+/**
+ * Keep rate limits in another store, e.g. createKVRateLimitStore on a KV
+ * binding so every isolate shares them (each isolate has its own memory)
+ */
+export function setRateLimitStore(
+  store: RateLimitStore,
+  options: RateLimitOptions = DEFAULT_RATE_LIMIT_OPTIONS,
+): void {
+  rateLimiter = createRateLimiter(store, options);
+}
+
+/**
+ * Go back to fresh in-memory rate limits
+ */
+export function resetRateLimiter(): void {
+  rateLimiter = null;
+}
+
+function getRateLimiter(): RateLimiter {
+  rateLimiter ??= createRateLimiter(createMemoryRateLimitStore());
+  return rateLimiter;
+}
+
+export type GuardResult =
+  | {
+      allowed: true;
+      /**
+       * The client's rate limit headers; for responses shared caches do
+       * not keep, since another client would be sent them
+       */
+      headers: Record<string, string>;
+    }
+  | { allowed: false; response: Response };
+
+// Refusals depend on the client, so no cache may keep them
+const REJECTION_HEADERS = { "Cache-Control": "no-store" };
+
+/**
+ * Rate limit key of every client without a trusted address (e.g. a
+ * self-hosted server with API_CLIENT_IP_HEADER unset). They share one
+ * bucket: a heavy client can slow the others, but the upstream quota stays
+ * protected.
+ */
+const UNIDENTIFIED_CLIENT_KEY = "unidentified";
+
+let warnedUnidentified = false;
+
+/**
+ * Check a request's origin and take its cost from the client's rate limit
+ * @param cost - Upstream lookups (or units of work) the request may make
+ * @returns Rate limit headers to send, or the 403/429 response to answer with
+ */
+export async function guardRequest(
+  request: Request,
+  cost = 1,
+): Promise<GuardResult> {
+  if (!isOriginAllowed(request)) {
+    return {
+      allowed: false,
+      response: errorResponse(
+        403,
+        { error: "Origin not allowed", code: "ORIGIN_NOT_ALLOWED" },
+        REJECTION_HEADERS,
+      ),
+    };
+  }
+
+  const clientIp = getClientIp(request);
+  if (!clientIp && !warnedUnidentified) {
+    warnedUnidentified = true;
+    console.warn(
+      "No trusted client IP header: all clients share one rate limit. Set API_CLIENT_IP_HEADER to the header your proxy sets.",
+    );
+  }
+
+  const decision = await getRateLimiter().consume(
+    clientIp ?? UNIDENTIFIED_CLIENT_KEY,
+    cost,
+  );
+  const headers = {
+    "X-RateLimit-Limit": String(decision.limit),
+    "X-RateLimit-Remaining": String(decision.remaining),
+  };
+
+  if (!decision.allowed) {
+    return {
+      allowed: false,
+      response: errorResponse(
+        429,
+        {
+          error: "Too many requests",
+          code: "RATE_LIMITED",
+          retryAfterSeconds: decision.retryAfterSeconds,
+        },
+        { ...headers, ...REJECTION_HEADERS },
+      ),
+    };
+  }
+  return { allowed: true, headers };
+}
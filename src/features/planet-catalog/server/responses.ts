@@ -0,0 +1,139 @@
+/**
+ * API Route Responses
+ * JSON responses, with ETags so clients can revalidate with If-None-Match,
+ * and error responses with machine-readable codes
+ */
+
+import type { PlanetAPIErrorBody } from "@/features/planet-catalog/domain/planet-api-types";
+import type {
+  UpstreamFailure,
+  UpstreamResult,
+} from "@/features/planet-catalog/server/upstream-providers";
+
+/**
+ * How long shared caches may keep a complete successful response
+ */
+export const UPSTREAM_CACHE_CONTROL =
+  "public, s-maxage=3600, stale-while-revalidate=86400";
+
+/**
+ * Stale data is only cached briefly, so fresh data returns soon after the
+ * upstream recovers
+ */
+const STALE_CACHE_CONTROL = "public, s-maxage=60";
+
+export function jsonResponse(
+  body: unknown,
+  init?: { status?: number; headers?: HeadersInit },
+): Response {
+  return new Response(JSON.stringify(body), {
+    status: init?.status ?? 200,
+    headers: {
+      "Content-Type": "application/json",
+      ...(init?.headers ?? {}),
+    },
+  });
+}
+
+/**
+ * Strong ETag of a response body (SHA-256, first 128 bits)
+ */
+export async function createETag(body: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(body),
+  );
+  const hex = Array.from(new Uint8Array(digest).slice(0, 16), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+  return `"${hex}"`;
+}
+
+/**
+ * Whether an If-None-Match header names an ETag (weak comparison, as
+ * RFC 9110 asks for GET)
+ */
+export function matchesIfNoneMatch(
+  header: string | null,
+  etag: string,
+): boolean {
+  if (!header) return false;
+  if (header.trim() === "*") return true;
+  const opaque = (tag: string) => tag.trim().replace(/^W\//, "");
+  return header.split(",").some((tag) => opaque(tag) === opaque(etag));
+}
+
+/**
+ * JSON response carrying an ETag; answers 304 Not Modified without a body
+ * when the request's If-None-Match already names it
+ */
+export async function conditionalJsonResponse(
+  request: Request,
+  body: unknown,
+  init?: { status?: number; headers?: Record<string, string> },
+): Promise<Response> {
+  const text = JSON.stringify(body);
+  const etag = await createETag(text);
+  const headers = { ...(init?.headers ?? {}), ETag: etag };
+
+  if (matchesIfNoneMatch(request.headers.get("If-None-Match"), etag)) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  return new Response(text, {
+    status: init?.status ?? 200,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
+/**
+ * Error response with a code; Retry-After is set when the body says when
+ * to try again
+ */
+export function errorResponse(
+  status: number,
+  body: PlanetAPIErrorBody,
+  headers: Record<string, string> = {},
+): Response {
+  return jsonResponse(body, {
+    status,
+    headers:
+      body.retryAfterSeconds === undefined
+        ? headers
+        : { ...headers, "Retry-After": String(body.retryAfterSeconds) },
+  });
+}
+
+/**
+ * Error body of a failed upstream fetch
+ */
+export function toErrorBody({
+  error,
+  code,
+  retryAfterSeconds,
+}: UpstreamFailure): PlanetAPIErrorBody {
+  return retryAfterSeconds === undefined
+    ? { error, code }
+    : { error, code, retryAfterSeconds };
+}
+
+/**
+ * Caching headers for upstream data: X-Cache says whether it came from the
+ * server cache (HIT), the upstream (MISS) or a stored copy served because
+ * the upstream failed (STALE, with the failure's code in X-Upstream-Error)
+ */
+export function upstreamCacheHeaders(
+  result: UpstreamResult & { ok: true },
+): Record<string, string> {
+  if (result.cache === "stale") {
+    return {
+      "Cache-Control": STALE_CACHE_CONTROL,
+      "X-Cache": "STALE",
+      "X-Upstream-Error": result.failure.code,
+    };
+  }
+  return {
+    "Cache-Control": UPSTREAM_CACHE_CONTROL,
+    "X-Cache": result.cache === "hit" ? "HIT" : "MISS",
+  };
+}
@@ -0,0 +1,103 @@
+/**
+ * Upstream Cache
+ * Server-side copies of upstream responses: served while fresh, and served
+ * stale when the upstream fails. Uses the Workers Cache API when the
+ * runtime has one, memory otherwise.
+ */
+
+/**
+ * An upstream response and when it was fetched
+ */
+export interface CachedUpstream {
+  data: unknown;
+  storedAt: number;
+}
+
+export interface UpstreamCache {
+  get(key: string): Promise<CachedUpstream | undefined>;
+  put(key: string, entry: CachedUpstream): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/** Entries younger than this are served without calling upstream */
+export const UPSTREAM_FRESH_MS = 3600000; // 1 hour
+
+/** Entries are kept this long to serve when the upstream fails */
+export const UPSTREAM_STALE_MS = 86400000; // 1 day
+
+const MAX_MEMORY_ENTRIES = 200;
+
+export function createMemoryUpstreamCache(
+  maxEntries = MAX_MEMORY_ENTRIES,
+): UpstreamCache {
+  const entries = new Map<string, CachedUpstream>();
+
+  return {
+    get: async (key) => entries.get(key),
+    put: async (key, entry) => {
+      // Re-insert so the oldest write is evicted first
+      entries.delete(key);
+      if (entries.size >= maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest !== undefined) entries.delete(oldest);
+      }
+      entries.set(key, entry);
+    },
+    clear: async () => entries.clear(),
+  };
+}
+
+// The Cache API keys entries by URL; this origin is never requested
+const CACHE_KEY_ORIGIN = "https://upstream-cache.internal";
+
+/**
+ * Cache backed by a Workers Cache API cache (`caches.default`), shared by
+ * every request the data centre serves
+ */
+export function createWorkersUpstreamCache(cache: Cache): UpstreamCache {
+  const keyUrl = (key: string) =>
+    `${CACHE_KEY_ORIGIN}/${encodeURIComponent(key)}`;
+  const keys = new Set<string>();
+
+  return {
+    get: async (key) => {
+      const response = await cache.match(keyUrl(key));
+      if (!response) return undefined;
+      return {
+        data: await response.json(),
+        storedAt: Number(response.headers.get("X-Stored-At")) || 0,
+      };
+    },
+    put: async (key, entry) => {
+      keys.add(key);
+      await cache.put(
+        keyUrl(key),
+        new Response(JSON.stringify(entry.data), {
+          headers: {
+            "Content-Type": "application/json",
+            "Cache-Control": `max-age=${UPSTREAM_STALE_MS / 1000}`,
+            "X-Stored-At": String(entry.storedAt),
+          },
+        }),
+      );
+    },
+    // The Cache API cannot list entries, so only this isolate's writes go
+    clear: async () => {
+      await Promise.all([...keys].map((key) => cache.delete(keyUrl(key))));
+      keys.clear();
+    },
+  };
+}
+
+/**
+ * The Workers default cache when running on Workers, memory otherwise
+ */
+export function createDefaultUpstreamCache(): UpstreamCache {
+  const workersCache =
+    typeof caches === "undefined"
+      ? undefined
+      : (caches as CacheStorage & { default?: Cache }).default;
+  return workersCache
+    ? createWorkersUpstreamCache(workersCache)
+    : createMemoryUpstreamCache();
+}
@@ -0,0 +1,421 @@
+/**
+ * Upstream Providers
+ * The remote planet data sources the API routes proxy, and fetching one
+ * body from them: a server-side cache, retries with backoff for server
+ * errors and timeouts, a circuit breaker per upstream, and stale data when
+ * the upstream fails
+ */
+
+import type {
+  PlanetAPIErrorBody,
+  PlanetAPIErrorCode,
+} from "@/features/planet-catalog/domain/planet-api-types";
+import type { RemoteProviderId } from "@/features/planet-catalog/domain/planet-data-provider";
+import {
+  JPL_SBDB_DESIGNATIONS,
+  LE_SYSTEME_SOLAIRE_BODY_IDS,
+} from "@/features/planet-catalog/domain/provider-formats";
+import {
+  fetchPlanetFromUpstream,
+  type UpstreamFetch,
+} from "@/features/planet-catalog/server/upstream-client";
+import {
+  createDefaultUpstreamCache,
+  createMemoryUpstreamCache,
+  UPSTREAM_FRESH_MS,
+  UPSTREAM_STALE_MS,
+  type CachedUpstream,
+  type UpstreamCache,
+} from "@/features/planet-catalog/server/upstream-cache";
+import {
+  CircuitBreaker,
+  DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+  DEFAULT_RETRY_OPTIONS,
+  getRetryDelay,
+  isRetryableStatus,
+  type CircuitBreakerOptions,
+  type CircuitState,
+  type RetryOptions,
+} from "@/features/planet-catalog/server/upstream-resilience";
+
+const API_TIMEOUT = 10000; // 10 seconds, across all attempts
+const ATTEMPT_TIMEOUT = 4000; // 4 seconds per attempt
+
+export const DEFAULT_UPSTREAM_PROVIDER: RemoteProviderId = "le-systeme-solaire";
+
+interface UpstreamProvider {
+  /** Local body names mapped to the upstream's body IDs */
+  bodyIds: Record<string, string>;
+  buildUrl: (upstreamId: string) => string;
+  /** Whether requests need SOLAR_SYSTEM_API_KEY */
+  requiresApiKey: boolean;
+}
+
+const UPSTREAM_PROVIDERS: Record<RemoteProviderId, UpstreamProvider> = {
+  "le-systeme-solaire": {
+    bodyIds: LE_SYSTEME_SOLAIRE_BODY_IDS,
+    buildUrl: (id) => `https://api.le-systeme-solaire.net/rest/bodies/${id}`,
+    requiresApiKey: true,
+  },
+  "jpl-sbdb": {
+    bodyIds: JPL_SBDB_DESIGNATIONS,
+    buildUrl: (id) =>
+      `https://ssd-api.jpl.nasa.gov/sbdb.api?sstr=${encodeURIComponent(id)}&phys-par=1`,
+    requiresApiKey: false,
+  },
+};
+
+export function isRemoteProviderId(value: string): value is RemoteProviderId {
+  return Object.prototype.hasOwnProperty.call(UPSTREAM_PROVIDERS, value);
+}
+
+/**
+ * Lowercase names of every body a provider covers
+ */
+export function getUpstreamBodyNames(providerId: RemoteProviderId): string[] {
+  return Object.keys(UPSTREAM_PROVIDERS[providerId].bodyIds);
+}
+
+/**
+ * Why a body could not be served, and the HTTP status to answer with
+ */
+export interface UpstreamFailure extends PlanetAPIErrorBody {
+  status: number;
+}
+
+/**
+ * Outcome of fetching one body: data from the cache ("hit"), from the
+ * upstream ("miss"), or a stored copy because the upstream failed ("stale")
+ */
+export type UpstreamResult =
+  | { ok: true; data: unknown; cache: "hit" | "miss" }
+  | {
+      ok: true;
+      data: unknown;
+      cache: "stale";
+      storedAt: number;
+      failure: UpstreamFailure;
+    }
+  | ({ ok: false } & UpstreamFailure);
+
+function failure(
+  status: number,
+  code: PlanetAPIErrorCode,
+  error: string,
+): UpstreamFailure {
+  return { status, code, error };
+}
+
+type Attempt =
+  | { ok: true; data: unknown }
+  | { ok: false; failure: UpstreamFailure; retryable: boolean };
+
+export interface UpstreamFetcherOptions {
+  /** Passed to fetchPlanetFromUpstream; global fetch by default */
+  fetchImpl?: UpstreamFetch;
+  cache?: UpstreamCache;
+  retry?: RetryOptions;
+  circuitBreaker?: CircuitBreakerOptions;
+  attemptTimeoutMs?: number;
+  /** Budget for all attempts and the delays between them */
+  totalTimeoutMs?: number;
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+}
+
+export interface UpstreamFetcher {
+  /**
+   * Fetch one body; concurrent lookups of a body share one upstream request
+   * @param providerId - Upstream to ask
+   * @param planetName - Lowercase body name
+   * @returns The upstream JSON, or the status, code and message to answer
+   * with
+   */
+  fetchBody(
+    providerId: RemoteProviderId,
+    planetName: string,
+  ): Promise<UpstreamResult>;
+  getCircuitState(providerId: RemoteProviderId): CircuitState;
+  /** Forget cached data, circuit state and requests in flight */
+  reset(): Promise<void>;
+}
+
+export function createUpstreamFetcher({
+  fetchImpl,
+  cache = createMemoryUpstreamCache(),
+  retry = DEFAULT_RETRY_OPTIONS,
+  circuitBreaker = DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+  attemptTimeoutMs = ATTEMPT_TIMEOUT,
+  totalTimeoutMs = API_TIMEOUT,
+  now = Date.now,
+  sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+  random = Math.random,
+}: UpstreamFetcherOptions = {}): UpstreamFetcher {
+  let breakers = new Map<RemoteProviderId, CircuitBreaker>();
+  const inFlight = new Map<string, Promise<UpstreamResult>>();
+
+  const getBreaker = (providerId: RemoteProviderId) => {
+    let breaker = breakers.get(providerId);
+    if (!breaker) {
+      breaker = new CircuitBreaker(circuitBreaker, now);
+      breakers.set(providerId, breaker);
+    }
+    return breaker;
+  };
+
+  // The cache only speeds things up, so its errors never fail a request
+  const readCache = async (key: string) => {
+    try {
+      return await cache.get(key);
+    } catch (error) {
+      console.error(`Failed to read upstream cache for ${key}:`, error);
+      return undefined;
+    }
+  };
+  const writeCache = async (key: string, entry: CachedUpstream) => {
+    try {
+      await cache.put(key, entry);
+    } catch (error) {
+      console.error(`Failed to write upstream cache for ${key}:`, error);
+    }
+  };
+
+  const attempt = async (
+    url: string,
+    apiKey: string | undefined,
+    planetName: string,
+    timeoutMs: number,
+  ): Promise<Attempt> => {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const response = await fetchPlanetFromUpstream(url, {
+        apiKey,
+        signal: controller.signal,
+        fetchImpl,
+      });
+
+      if (!response.ok) {
+        if (response.status === 401 || response.status === 403) {
+          return {
+            ok: false,
+            retryable: false,
+            failure: failure(
+              502,
+              "UPSTREAM_AUTH_FAILED",
+              "Upstream authentication failed. Verify SOLAR_SYSTEM_API_KEY secret on the worker.",
+            ),
+          };
+        }
+        return {
+          ok: false,
+          retryable: isRetryableStatus(response.status),
+          failure: failure(
+            response.status,
+            "UPSTREAM_ERROR",
+            `API returned status ${response.status}`,
+          ),
+        };
+      }
+
+      return { ok: true, data: await response.json() };
+    } catch (error) {
+      if (error instanceof Error && error.name === "AbortError") {
+        return {
+          ok: false,
+          retryable: true,
+          failure: failure(504, "UPSTREAM_TIMEOUT", "Request timeout"),
+        };
+      }
+
+      console.error(`Failed to fetch planet data for ${planetName}:`, error);
+      return {
+        ok: false,
+        retryable: true,
+        failure: failure(
+          500,
+          "UPSTREAM_UNREACHABLE",
+          "Failed to fetch planet data",
+        ),
+      };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  };
+
+  /**
+   * Serve the stored copy if it is recent enough, the failure otherwise
+   */
+  const staleOrFailure = (
+    cached: CachedUpstream | undefined,
+    reason: UpstreamFailure,
+  ): UpstreamResult =>
+    cached && now() - cached.storedAt < UPSTREAM_STALE_MS
+      ? {
+          ok: true,
+          data: cached.data,
+          cache: "stale",
+          storedAt: cached.storedAt,
+          failure: reason,
+        }
+      : { ok: false, ...reason };
+
+  /**
+   * Serve a body from the cache, or fetch it with retries behind the breaker
+   */
+  const load = async (
+    providerId: RemoteProviderId,
+    planetName: string,
+    key: string,
+    url: string,
+    requestKey: string | undefined,
+  ): Promise<UpstreamResult> => {
+    const cached = await readCache(key);
+    if (cached && now() - cached.storedAt < UPSTREAM_FRESH_MS) {
+      return { ok: true, data: cached.data, cache: "hit" };
+    }
+
+    const breaker = getBreaker(providerId);
+    if (!breaker.tryAcquire()) {
+      return staleOrFailure(cached, {
+        ...failure(
+          503,
+          "CIRCUIT_OPEN",
+          "Upstream is unavailable; requests are paused",
+        ),
+        retryAfterSeconds: Math.ceil(breaker.retryAfterMs() / 1000),
+      });
+    }
+
+    const deadline = now() + totalTimeoutMs;
+
+    let outcome = await attempt(url, requestKey, planetName, attemptTimeoutMs);
+    for (let retryIndex = 0; retryIndex < retry.retries; retryIndex++) {
+      if (outcome.ok || !outcome.retryable) break;
+      const delay = getRetryDelay(retryIndex, retry, random);
+      const remaining = deadline - now() - delay;
+      if (remaining <= 0) break;
+      await sleep(delay);
+      outcome = await attempt(
+        url,
+        requestKey,
+        planetName,
+        Math.min(attemptTimeoutMs, remaining),
+      );
+    }
+
+    if (outcome.ok) {
+      breaker.recordSuccess();
+      await writeCache(key, { data: outcome.data, storedAt: now() });
+      return { ok: true, data: outcome.data, cache: "miss" };
+    }
+
+    // Only signs of an outage count against the circuit; an upstream that
+    // answers 404 or 401 is up
+    if (outcome.retryable) {
+      breaker.recordFailure();
+    } else {
+      breaker.recordSuccess();
+    }
+    return staleOrFailure(cached, outcome.failure);
+  };
+
+  const fetchBody = async (
+    providerId: RemoteProviderId,
+    planetName: string,
+  ): Promise<UpstreamResult> => {
+    const provider = UPSTREAM_PROVIDERS[providerId];
+    const upstreamId = Object.prototype.hasOwnProperty.call(
+      provider.bodyIds,
+      planetName,
+    )
+      ? provider.bodyIds[planetName]
+      : undefined;
+
+    if (!upstreamId) {
+      return {
+        ok: false,
+        ...failure(400, "UNSUPPORTED_BODY", "Unsupported planet name"),
+      };
+    }
+
+    const apiKey = process.env.SOLAR_SYSTEM_API_KEY;
+    const publicKey = process.env.NEXT_PUBLIC_SOLAR_SYSTEM_API_KEY;
+
+    if (provider.requiresApiKey && !apiKey) {
+      if (publicKey) {
+        console.error(
+          "Missing SOLAR_SYSTEM_API_KEY. Found NEXT_PUBLIC_SOLAR_SYSTEM_API_KEY instead; do not use NEXT_PUBLIC for server secrets.",
+        );
+      }
+      return {
+        ok: false,
+        ...failure(
+          500,
+          "MISSING_API_KEY",
+          "Server secret SOLAR_SYSTEM_API_KEY is not configured",
+        ),
+      };
+    }
+
+    // Concurrent lookups of one body share a single upstream request
+    const key = `${providerId}:${planetName}`;
+    const pending = inFlight.get(key);
+    if (pending) return pending;
+
+    const request = load(
+      providerId,
+      planetName,
+      key,
+      provider.buildUrl(upstreamId),
+      provider.requiresApiKey ? apiKey : undefined,
+    );
+    inFlight.set(key, request);
+    try {
+      return await request;
+    } finally {
+      inFlight.delete(key);
+    }
+  };
+
+  return {
+    fetchBody,
+    getCircuitState: (providerId) => getBreaker(providerId).state,
+    reset: async () => {
+      breakers = new Map();
+      inFlight.clear();
+      await cache.clear();
+    },
+  };
+}
+
+// Created on first use so the Workers cache is looked up inside a request
+let defaultFetcher: UpstreamFetcher | null = null;
+
+function getDefaultFetcher(): UpstreamFetcher {
+  defaultFetcher ??= createUpstreamFetcher({
+    cache: createDefaultUpstreamCache(),
+  });
+  return defaultFetcher;
+}
+
+/**
+ * Fetch one body through the shared cache and circuit breakers
+ * @param providerId - Upstream to ask
+ * @param planetName - Lowercase body name
+ */
+export function fetchBodyFromUpstream(
+  providerId: RemoteProviderId,
+  planetName: string,
+): Promise<UpstreamResult> {
+  return getDefaultFetcher().fetchBody(providerId, planetName);
+}
+
+/**
+ * Forget the shared cache and circuit state, e.g. after rotating the API key
+ */
+export function resetUpstreamState(): Promise<void> {
+  return getDefaultFetcher().reset();
+}
@@ -0,0 +1,118 @@
+/**
+ * Upstream Resilience
+ * Retry delays with exponential backoff and a circuit breaker that stops
+ * calling an upstream while it is down
+ */
+
+export interface RetryOptions {
+  /** Retries after the first attempt */
+  retries: number;
+  /** Delay before the first retry; doubles on each retry */
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 2,
+  baseDelayMs: 250,
+  maxDelayMs: 2000,
+};
+
+/**
+ * Delay before a retry: exponential backoff with jitter, so clients that
+ * failed together do not retry together
+ * @param retry - Retry number, starting at 0
+ * @param random - Source of jitter in [0, 1)
+ * @returns Delay in milliseconds, between half and all of the backoff
+ */
+export function getRetryDelay(
+  retry: number,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+  random: () => number = Math.random,
+): number {
+  const backoff = Math.min(
+    options.maxDelayMs,
+    options.baseDelayMs * 2 ** retry,
+  );
+  return backoff * (0.5 + random() / 2);
+}
+
+/**
+ * Whether an upstream HTTP status is worth retrying (server errors and rate
+ * limiting; other client errors will not change)
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 429;
+}
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number;
+  /** How long the circuit stays open before a trial request */
+  cooldownMs: number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  cooldownMs: 30000,
+};
+
+/**
+ * Circuit breaker for one upstream. Closed, requests go through; after
+ * enough consecutive failures it opens and requests fail at once. Once the
+ * cooldown has passed one trial request is let through (half-open): success
+ * closes the circuit, failure opens it again.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly options: CircuitBreakerOptions = DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === null) return "closed";
+    return this.now() - this.openedAt >= this.options.cooldownMs
+      ? "half-open"
+      : "open";
+  }
+
+  /**
+   * Whether a request may go upstream; in the half-open state only the
+   * first caller gets through
+   */
+  tryAcquire(): boolean {
+    const state = this.state;
+    if (state === "closed") return true;
+    if (state === "open" || this.trialInFlight) return false;
+    this.trialInFlight = true;
+    return true;
+  }
+
+  /**
+   * Milliseconds until a trial request will be let through
+   */
+  retryAfterMs(): number {
+    if (this.openedAt === null) return 0;
+    return Math.max(0, this.openedAt + this.options.cooldownMs - this.now());
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    if (this.trialInFlight || this.failures >= this.options.failureThreshold) {
+      this.openedAt = this.now();
+    }
+    this.trialInFlight = false;
+  }
+}
@@ -1,6 +1,7 @@
 export * from "@/features/planet-modal/ui/atmospheric-glow";
 export * from "@/features/planet-modal/ui/control";
 export * from "@/features/planet-modal/ui/exploration-history";
+export * from "@/features/planet-modal/ui/freshness-badge";
 export * from "@/features/planet-modal/ui/info-section";
 export * from "@/features/planet-modal/ui/modal-overlay";
 export * from "@/features/planet-modal/ui/notable-features";
@@ -2,11 +2,46 @@
 
 import { useState, useEffect, type ChangeEvent } from "react";
 import { motion } from "framer-motion";
-import { Settings, X } from "lucide-react";
+import {
+  FastForward,
+  Pause,
+  Play,
+  Rewind,
+  Settings,
+  SkipBack,
+  SkipForward,
+  X,
+} from "lucide-react";
+import { planetData } from "@/data/planet-data";
+import { dwarfPlanetData } from "@/data/dwarf-planet-data";
+import type { TimeDirection } from "@/features/date-mode/domain/date-interpolation";
+import {
+  MAX_SPEED,
+  MIN_SPEED,
+  normalizeSimulationSpeed,
+} from "@/features/simulation-control/state/rotation-speed-context";
+import {
+  STEP_INTERVALS,
+  type StepInterval,
+  type TimeStep,
+} from "@/features/simulation-control/domain/time-step";
+import {
+  SCALE_MODES,
+  SCALE_STRATEGIES,
+  type ScaleMode,
+} from "@/features/view-scale/domain/scale-strategy";
 
 interface SpeedControlProps {
+  /** Signed speed; negative runs time backwards */
   simulationSpeed: number;
   onSpeedChange: (speed: number) => void;
+  /** Whether the simulation is paused */
+  isPaused?: boolean;
+  onTogglePause?: () => void;
+  /** Step the simulated date by one interval */
+  onStep?: (direction: TimeDirection, step: TimeStep) => void;
+  /** Whether a step stays in range; out-of-range step buttons are disabled */
+  canStep?: (direction: TimeDirection, step: TimeStep) => boolean;
   isVisible?: boolean;
   onToggleVisibility?: (visible: boolean) => void;
   showPlanetLabels?: boolean;
@@ -16,6 +51,12 @@ interface SpeedControlProps {
   /** Whether belt regions are visible */
   showBeltRegions?: boolean;
   onToggleBeltRegions?: (show: boolean) => void;
+  /** Whether comets and asteroids are drawn */
+  showSmallBodies?: boolean;
+  onToggleSmallBodies?: (show: boolean) => void;
+  /** Whether constellation figures are drawn among the stars */
+  showConstellations?: boolean;
+  onToggleConstellations?: (show: boolean) => void;
   /** Disable speed control (e.g., when in Date Mode) */
   disabled?: boolean;
   /** Whether auto-rotation is enabled for planet modal */
@@ -23,6 +64,9 @@ interface SpeedControlProps {
   onToggleModalAutoRotate?: (enabled: boolean) => void;
   /** Whether planet modal is currently open */
   isPlanetModalOpen?: boolean;
+  /** Selected view scale */
+  scaleMode?: ScaleMode;
+  onScaleModeChange?: (mode: ScaleMode) => void;
 }
 
 // Format number with commas - stable helper function
@@ -30,9 +74,23 @@ const formatNumber = (num: number): string => {
   return num.toLocaleString();
 };
 
+// Bodies whose orbit can be used as a step interval
+const ORBIT_STEP_BODIES = [...planetData, ...dwarfPlanetData];
+
+const STEP_INTERVAL_LABELS: Record<StepInterval, string> = {
+  hour: "Hour",
+  day: "Day",
+  month: "Month",
+  orbit: "Orbit of",
+};
+
 export function ControlModal({
   simulationSpeed,
   onSpeedChange,
+  isPaused = false,
+  onTogglePause,
+  onStep,
+  canStep,
   isVisible,
   onToggleVisibility,
   showPlanetLabels = true,
@@ -41,10 +99,16 @@ export function ControlModal({
   onToggleOrbitPath,
   showBeltRegions = true,
   onToggleBeltRegions,
+  showSmallBodies = true,
+  onToggleSmallBodies,
+  showConstellations = false,
+  onToggleConstellations,
   disabled = false,
   modalAutoRotate = true,
   onToggleModalAutoRotate,
   isPlanetModalOpen = false,
+  scaleMode = "true",
+  onScaleModeChange,
 }: SpeedControlProps) {
   const [internalPanelVisible, setInternalPanelVisible] = useState(
     isVisible ?? true,
@@ -52,6 +116,9 @@ export function ControlModal({
   const [inputValue, setInputValue] = useState<string>(
     simulationSpeed.toLocaleString(),
   );
+  const [stepInterval, setStepInterval] = useState<StepInterval>("day");
+  const [stepBodyName, setStepBodyName] = useState<string>("Earth");
+  const isReversed = simulationSpeed < 0;
   const isControlled =
     onToggleVisibility !== undefined && isVisible !== undefined;
   const isPanelVisible = isControlled ? isVisible : internalPanelVisible;
@@ -66,10 +133,27 @@ export function ControlModal({
     setInputValue(formatNumber(simulationSpeed));
   }, [simulationSpeed]);
 
+  // The slider sets the magnitude; the direction button sets the sign
   const handleSpeedChange = (e: ChangeEvent<HTMLInputElement>) => {
     const rawValue = e.target.value;
     const parsedValue = Number.parseInt(rawValue);
-    onSpeedChange(parsedValue);
+    onSpeedChange(isReversed ? -parsedValue : parsedValue);
+  };
+
+  const handleReverse = () => {
+    onSpeedChange(-simulationSpeed);
+  };
+
+  const body = ORBIT_STEP_BODIES.find((b) => b.name === stepBodyName);
+  const step: TimeStep = {
+    interval: stepInterval,
+    orbitalPeriodDays: body?.orbitalPeriodDays,
+  };
+  const canStepBack = canStep?.("backward", step) ?? true;
+  const canStepForward = canStep?.("forward", step) ?? true;
+
+  const handleStep = (direction: TimeDirection) => {
+    onStep?.(direction, step);
   };
 
   const handleInputChange = (e: ChangeEvent<HTMLInputElement>) => {
@@ -79,24 +163,16 @@ export function ControlModal({
       setInputValue("");
       return;
     }
-    // Allow numbers and commas
-    if (/^[\d,]+$/.test(value)) {
+    // Allow numbers and commas, with a leading minus for reverse
+    if (/^-?[\d,]*$/.test(value)) {
       setInputValue(value);
     }
   };
 
   const handleInputBlur = () => {
-    const numValue = parseNumber(inputValue);
-    if (Number.isNaN(numValue) || numValue < 1) {
-      setInputValue(formatNumber(1));
-      onSpeedChange(1);
-    } else if (numValue > 10000000) {
-      setInputValue(formatNumber(10000000));
-      onSpeedChange(10000000);
-    } else {
-      setInputValue(formatNumber(numValue));
-      onSpeedChange(numValue);
-    }
+    const numValue = normalizeSimulationSpeed(parseNumber(inputValue));
+    setInputValue(formatNumber(numValue));
+    onSpeedChange(numValue);
   };
 
   const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
@@ -106,19 +182,32 @@ export function ControlModal({
   };
 
   // Calculate time conversion
-  const getTimeConversion = (speed: number): string => {
-    if (speed === 1) return "1s <-> 1s (real-time)";
-    if (speed < 60) return `1s <-> ${speed} seconds`;
-    if (speed < 3600) return `1s <-> ${(speed / 60).toFixed(1)} minutes`;
-    if (speed < 86400) return `1s <-> ${(speed / 3600).toFixed(1)} hours`;
-    if (speed < 31_536_000) return `1s <-> ${(speed / 86400).toFixed(1)} days`;
-    return `1s <-> ${(speed / 31_536_000).toFixed(1)} years`;
+  const getTimeConversion = (signedSpeed: number): string => {
+    const speed = Math.abs(signedSpeed);
+    const suffix = signedSpeed < 0 ? " back" : "";
+    if (speed === 1) {
+      return signedSpeed < 0 ? "1s <-> 1s back" : "1s <-> 1s (real-time)";
+    }
+    if (speed < 60) return `1s <-> ${speed} seconds${suffix}`;
+    if (speed < 3600) {
+      return `1s <-> ${(speed / 60).toFixed(1)} minutes${suffix}`;
+    }
+    if (speed < 86400) {
+      return `1s <-> ${(speed / 3600).toFixed(1)} hours${suffix}`;
+    }
+    if (speed < 31_536_000) {
+      return `1s <-> ${(speed / 86400).toFixed(1)} days${suffix}`;
+    }
+    return `1s <-> ${(speed / 31_536_000).toFixed(1)} years${suffix}`;
   };
 
   // Calculate Earth orbit time display
-  const getEarthOrbitTime = (speed: number): string => {
+  const getEarthOrbitTime = (signedSpeed: number): string => {
+    // Orbits take as long backwards as forwards
+    const speed = Math.abs(signedSpeed);
+
     // Guard against division by zero or NaN
-    if (speed <= 0 || Number.isNaN(speed)) {
+    if (speed === 0 || Number.isNaN(speed)) {
       return "N/A";
     }
 
@@ -161,6 +250,9 @@ export function ControlModal({
               {disabled && (
                 <span className="ml-2 text-yellow-400">(Date Mode)</span>
               )}
+              {isPaused && !disabled && (
+                <span className="ml-2 text-blue-300">(Paused)</span>
+              )}
             </h3>
             <button
               onClick={togglePanel}
@@ -176,10 +268,10 @@ export function ControlModal({
             <div className="flex items-center gap-2">
               <input
                 type="range"
-                min="1"
-                max="10000000"
+                min={MIN_SPEED}
+                max={MAX_SPEED}
                 step="1"
-                value={simulationSpeed}
+                value={Math.abs(simulationSpeed)}
                 onChange={handleSpeedChange}
                 disabled={disabled}
                 className={`flex-1 h-2 bg-gray-700 rounded-lg appearance-none ${
@@ -193,8 +285,6 @@ export function ControlModal({
                 onBlur={handleInputBlur}
                 onKeyDown={handleInputKeyDown}
                 disabled={disabled}
-                min="1"
-                max="10000000"
                 className={`w-20 px-2 py-1 text-xs bg-gray-800 border border-gray-600 rounded text-white text-right ${
                   disabled
                     ? "opacity-50 cursor-not-allowed"
@@ -205,16 +295,140 @@ export function ControlModal({
               />
             </div>
 
+            {/* Pause, reverse and step controls */}
+            {(onTogglePause || onStep) && (
+              <div className="flex items-center gap-1.5">
+                {onStep && (
+                  <button
+                    onClick={() => handleStep("backward")}
+                    disabled={!canStepBack}
+                    className={`p-1 rounded transition-colors ${
+                      canStepBack
+                        ? "hover:bg-gray-700"
+                        : "opacity-50 cursor-not-allowed"
+                    }`}
+                    aria-label="Step back"
+                    title="Step back"
+                  >
+                    <SkipBack size={14} />
+                  </button>
+                )}
+                {onTogglePause && (
+                  <button
+                    onClick={onTogglePause}
+                    disabled={disabled}
+                    className={`p-1 rounded transition-colors ${
+                      disabled
+                        ? "opacity-50 cursor-not-allowed"
+                        : "hover:bg-gray-700"
+                    }`}
+                    aria-label={isPaused ? "Resume" : "Pause"}
+                    aria-pressed={isPaused}
+                    title={isPaused ? "Resume" : "Pause"}
+                  >
+                    {isPaused ? <Play size={14} /> : <Pause size={14} />}
+                  </button>
+                )}
+                <button
+                  onClick={handleReverse}
+                  disabled={disabled}
+                  className={`p-1 rounded transition-colors ${
+                    disabled
+                      ? "opacity-50 cursor-not-allowed"
+                      : "hover:bg-gray-700"
+                  } ${isReversed ? "text-yellow-400" : ""}`}
+                  aria-label={isReversed ? "Run time forward" : "Reverse time"}
+                  aria-pressed={isReversed}
+                  title={isReversed ? "Run time forward" : "Reverse time"}
+                >
+                  {isReversed ? <FastForward size={14} /> : <Rewind size={14} />}
+                </button>
+                {onStep && (
+                  <button
+                    onClick={() => handleStep("forward")}
+                    disabled={!canStepForward}
+                    className={`p-1 rounded transition-colors ${
+                      canStepForward
+                        ? "hover:bg-gray-700"
+                        : "opacity-50 cursor-not-allowed"
+                    }`}
+                    aria-label="Step forward"
+                    title="Step forward"
+                  >
+                    <SkipForward size={14} />
+                  </button>
+                )}
+                {onStep && (
+                  <>
+                    <select
+                      value={stepInterval}
+                      onChange={(e) =>
+                        setStepInterval(e.target.value as StepInterval)
+                      }
+                      className="ml-auto px-1 py-0.5 text-xs bg-gray-800 border border-gray-600 rounded text-white"
+                      aria-label="Step interval"
+                    >
+                      {STEP_INTERVALS.map((interval) => (
+                        <option key={interval} value={interval}>
+                          {STEP_INTERVAL_LABELS[interval]}
+                        </option>
+                      ))}
+                    </select>
+                    {stepInterval === "orbit" && (
+                      <select
+                        value={stepBodyName}
+                        onChange={(e) => setStepBodyName(e.target.value)}
+                        className="px-1 py-0.5 text-xs bg-gray-800 border border-gray-600 rounded text-white"
+                        aria-label="Orbit step body"
+                      >
+                        {ORBIT_STEP_BODIES.map((body) => (
+                          <option key={body.name} value={body.name}>
+                            {body.name}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+
             {/* Time conversion info - compact */}
             <div className="text-[10px] text-gray-400 flex justify-between">
               <span>{getTimeConversion(simulationSpeed)}</span>
               <span>Earth: {getEarthOrbitTime(simulationSpeed)}</span>
             </div>
 
+            {/* View scale */}
+            {onScaleModeChange && (
+              <div className="flex items-center gap-2 pt-2 border-t border-white/10">
+                <span className="text-xs">Scale</span>
+                <select
+                  value={scaleMode}
+                  onChange={(e) =>
+                    onScaleModeChange(e.target.value as ScaleMode)
+                  }
+                  className="px-1 py-0.5 text-xs bg-gray-800 border border-gray-600 rounded text-white"
+                  aria-label="View scale"
+                >
+                  {SCALE_MODES.map((mode) => (
+                    <option key={mode} value={mode}>
+                      {SCALE_STRATEGIES[mode].label}
+                    </option>
+                  ))}
+                </select>
+                <span className="text-[10px] text-gray-400 truncate">
+                  {SCALE_STRATEGIES[scaleMode].description}
+                </span>
+              </div>
+            )}
+
             {/* Toggles in one row */}
             {(onTogglePlanetLabels ||
               onToggleOrbitPath ||
               onToggleBeltRegions ||
+              onToggleSmallBodies ||
+              onToggleConstellations ||
               onToggleModalAutoRotate) && (
               <div className="flex items-center gap-4 pt-2 border-t border-white/10 flex-wrap">
                 {onTogglePlanetLabels && (
@@ -298,6 +512,62 @@ export function ControlModal({
                   </div>
                 )}
 
+                {onToggleSmallBodies && (
+                  <div className="flex items-center gap-1.5">
+                    <span className="text-xs">Comets</span>
+                    <button
+                      onClick={() => onToggleSmallBodies(!showSmallBodies)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter" || e.key === " ") {
+                          e.preventDefault();
+                          onToggleSmallBodies(!showSmallBodies);
+                        }
+                      }}
+                      className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors ${
+                        showSmallBodies ? "bg-blue-600" : "bg-gray-600"
+                      }`}
+                      aria-label="Toggle comets and asteroids"
+                      aria-pressed={showSmallBodies}
+                      role="switch"
+                    >
+                      <span
+                        className={`inline-block h-3 w-3 transform rounded-full bg-white transition-transform ${
+                          showSmallBodies ? "translate-x-5" : "translate-x-1"
+                        }`}
+                      />
+                    </button>
+                  </div>
+                )}
+
+                {onToggleConstellations && (
+                  <div className="flex items-center gap-1.5">
+                    <span className="text-xs">Constellations</span>
+                    <button
+                      onClick={() =>
+                        onToggleConstellations(!showConstellations)
+                      }
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter" || e.key === " ") {
+                          e.preventDefault();
+                          onToggleConstellations(!showConstellations);
+                        }
+                      }}
+                      className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors ${
+                        showConstellations ? "bg-blue-600" : "bg-gray-600"
+                      }`}
+                      aria-label="Toggle constellations"
+                      aria-pressed={showConstellations}
+                      role="switch"
+                    >
+                      <span
+                        className={`inline-block h-3 w-3 transform rounded-full bg-white transition-transform ${
+                          showConstellations ? "translate-x-5" : "translate-x-1"
+                        }`}
+                      />
+                    </button>
+                  </div>
+                )}
+
                 {onToggleModalAutoRotate && isPlanetModalOpen && (
                   <div className="flex items-center gap-1.5">
                     <span
@@ -2,13 +2,18 @@
 
 import { Rocket } from "lucide-react";
 import { ExplorationHistory as ExplorationHistoryType } from "@/data/planet-types";
+import type { MissionData } from "@/features/missions/data/mission-types";
+import { findMissionsIn } from "@/features/missions/domain/mission-trajectory";
 
 interface ExplorationHistoryProps {
   explorationHistory: ExplorationHistoryType | undefined;
+  /** Follow a mission with a bundled path from its launch */
+  onMissionSelect?: (mission: MissionData) => void;
 }
 
 export function ExplorationHistory({
   explorationHistory,
+  onMissionSelect,
 }: ExplorationHistoryProps) {
   // Don't render if no exploration history data
   if (!explorationHistory) {
@@ -57,15 +62,32 @@ export function ExplorationHistory({
         <div>
           <p className="text-xs text-white/50 mb-1">Notable Missions</p>
           <div className="flex flex-wrap gap-1.5">
-            {notableMissions.map((mission, index) => (
-              <span
-                key={index}
-                className="inline-flex items-center gap-1 px-2 py-0.5 bg-blue-500/20 text-blue-300 text-xs rounded-full"
-              >
-                <Rocket size={10} />
-                {mission}
-              </span>
-            ))}
+            {notableMissions.map((entry, index) => {
+              const missions = onMissionSelect ? findMissionsIn(entry) : [];
+              if (missions.length === 0) {
+                return (
+                  <span
+                    key={index}
+                    className="inline-flex items-center gap-1 px-2 py-0.5 bg-blue-500/20 text-blue-300 text-xs rounded-full"
+                  >
+                    <Rocket size={10} />
+                    {entry}
+                  </span>
+                );
+              }
+              // "Voyager 1 & 2" becomes a chip for each craft
+              return missions.map((mission) => (
+                <button
+                  key={`${index}-${mission.id}`}
+                  onClick={() => onMissionSelect?.(mission)}
+                  className="inline-flex items-center gap-1 px-2 py-0.5 bg-blue-500/30 hover:bg-blue-500/50 text-blue-200 text-xs rounded-full transition-colors"
+                  title={`Follow ${mission.name} from launch`}
+                >
+                  <Rocket size={10} />
+                  {missions.length > 1 ? mission.name : entry}
+                </button>
+              ));
+            })}
           </div>
         </div>
       )}
@@ -0,0 +1,39 @@
+"use client";
+
+import {
+  CatalogFreshness,
+  formatCatalogFreshness,
+} from "@/features/planet-catalog/domain/catalog-freshness";
+
+interface FreshnessBadgeProps {
+  freshness: CatalogFreshness | undefined;
+}
+
+const SOURCE_STYLES: Record<CatalogFreshness["source"], string> = {
+  live: "bg-green-500/20 text-green-300",
+  cached: "bg-amber-500/20 text-amber-300",
+  bundled: "bg-white/10 text-white/60",
+};
+
+const SOURCE_TITLES: Record<CatalogFreshness["source"], string> = {
+  live: "Fetched from the API just now",
+  cached: "Stored from an earlier API fetch",
+  bundled: "Data bundled with the app",
+};
+
+export function FreshnessBadge({ freshness }: FreshnessBadgeProps) {
+  if (!freshness) {
+    return null;
+  }
+
+  return (
+    <span
+      className={`rounded px-1.5 py-0.5 text-[10px] font-medium ${
+        SOURCE_STYLES[freshness.source]
+      }`}
+      title={SOURCE_TITLES[freshness.source]}
+    >
+      {formatCatalogFreshness(freshness)}
+    </span>
+  );
+}
@@ -8,6 +8,8 @@ interface InfoSectionProps {
   title: string;
   children: ReactNode;
   icon?: ReactNode;
+  /** Shown after the title, e.g. a data freshness indicator */
+  badge?: ReactNode;
   collapsible?: boolean;
   defaultExpanded?: boolean;
 }
@@ -16,6 +18,7 @@ export function InfoSection({
   title,
   children,
   icon,
+  badge,
   collapsible = false,
   defaultExpanded = true,
 }: InfoSectionProps) {
@@ -41,6 +44,7 @@ export function InfoSection({
       >
         {icon && <span className="text-blue-400">{icon}</span>}
         <h3 className="text-sm font-semibold text-white/90">{title}</h3>
+        {badge}
         {collapsible && (
           <span className="ml-auto text-white/50">
             {isExpanded ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
@@ -1,20 +1,27 @@
 "use client";
 
 import { PlanetData } from "@/data/planet-types";
+import type { MissionData } from "@/features/missions/data/mission-types";
 import { PlanetInfo } from "@/features/planet-modal/ui/planet-info";
 
 export function ModalOverlay({
   planet,
   onClose,
+  onMissionSelect,
 }: {
   planet: PlanetData | null;
   onClose: () => void;
+  onMissionSelect?: (mission: MissionData) => void;
 }) {
   if (!planet) return null;
 
   return (
     <div className="fixed inset-0 z-modal" onClick={(e) => e.stopPropagation()}>
-      <PlanetInfo planet={planet} onClose={onClose} />
+      <PlanetInfo
+        planet={planet}
+        onClose={onClose}
+        onMissionSelect={onMissionSelect}
+      />
     </div>
   );
 }
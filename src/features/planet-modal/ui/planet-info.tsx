@@ -5,17 +5,30 @@ import { motion } from "framer-motion";
 import { PlanetData } from "@/data/planet-types";
 import { Planet3DModel } from "@/features/planet-modal/ui/planet-3d-model";
 import { InfoSection } from "@/features/planet-modal/ui/info-section";
+import { FreshnessBadge } from "@/features/planet-modal/ui/freshness-badge";
 import { NotableFeatures } from "@/features/planet-modal/ui/notable-features";
 import { ExplorationHistory } from "@/features/planet-modal/ui/exploration-history";
 import { useSimulationSpeed } from "@/features/simulation-control/state/rotation-speed-context";
 import { usePlanetAPIData } from "@/features/planet-catalog/application/usePlanetAPIData";
+import type { MergedFactField } from "@/features/planet-catalog/domain/planet-api-types";
+import { PLANET_DATA_PROVIDER_LABELS } from "@/features/planet-catalog/domain/planet-data-provider";
+import { isMoonData } from "@/features/moons/data/moon-data";
+import { isDwarfPlanetData } from "@/data/dwarf-planet-data";
+import { getBeltRegionById } from "@/features/belt-regions/data/belt-data";
+import type { MissionData } from "@/features/missions/data/mission-types";
 
 interface PlanetInfoProps {
   planet: PlanetData;
   onClose: () => void;
+  /** Follow a mission named in the exploration history */
+  onMissionSelect?: (mission: MissionData) => void;
 }
 
-export function PlanetInfo({ planet, onClose }: PlanetInfoProps) {
+export function PlanetInfo({
+  planet,
+  onClose,
+  onMissionSelect,
+}: PlanetInfoProps) {
   const { simulationSpeed, modalAutoRotate, setModalAutoRotate } =
     useSimulationSpeed();
 
@@ -27,6 +40,11 @@ export function PlanetInfo({ planet, onClose }: PlanetInfoProps) {
 
   if (!planet) return null;
 
+  const beltRegion =
+    isDwarfPlanetData(planet) && planet.beltRegionId
+      ? getBeltRegionById(planet.beltRegionId)
+      : undefined;
+
   // Helper to display API data with fallback to local data
   const displayValue = (
     apiValue: string | undefined,
@@ -36,6 +54,14 @@ export function PlanetInfo({ planet, onClose }: PlanetInfoProps) {
     return localValue || "N/A";
   };
 
+  // Tooltip naming the provider an API value came from
+  const sourceOf = (field: MergedFactField) => {
+    const provider = mergedData.provenance?.[field];
+    return provider
+      ? `Source: ${PLANET_DATA_PROVIDER_LABELS[provider]}`
+      : undefined;
+  };
+
   return (
     <motion.div
       className="bg-black text-white w-full h-full flex flex-col lg:flex-row"
@@ -85,7 +111,13 @@ export function PlanetInfo({ planet, onClose }: PlanetInfoProps) {
           </div>
 
           {/* Basic Info Section */}
-          <InfoSection title="Basic Information" icon={<Info size={14} />}>
+          <InfoSection
+            title="Basic Information"
+            icon={<Info size={14} />}
+            badge={
+              !isLoading && <FreshnessBadge freshness={mergedData.freshness} />
+            }
+          >
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-3">
               <div>
                 <p className="text-xs opacity-70">Diameter</p>
@@ -94,14 +126,25 @@ export function PlanetInfo({ planet, onClose }: PlanetInfoProps) {
                 </p>
               </div>
               <div>
-                <p className="text-xs opacity-70">Distance from Sun</p>
+                <p className="text-xs opacity-70">
+                  Distance from{" "}
+                  {isMoonData(planet) ? planet.parentName : "Sun"}
+                </p>
                 <p className="text-sm">
-                  {(planet.distanceInKm / 1_000_000).toFixed(1)} million km
+                  {isMoonData(planet)
+                    ? `${planet.distanceInKm.toLocaleString()} km`
+                    : `${(planet.distanceInKm / 1_000_000).toFixed(1)} million km`}
                 </p>
               </div>
+              {beltRegion && (
+                <div>
+                  <p className="text-xs opacity-70">Region</p>
+                  <p className="text-sm">{beltRegion.name}</p>
+                </div>
+              )}
               <div>
                 <p className="text-xs opacity-70">Orbital Period</p>
-                <p className="text-sm">
+                <p className="text-sm" title={sourceOf("apiOrbitalPeriod")}>
                   {displayValue(
                     mergedData.apiOrbitalPeriod,
                     planet.orbitalPeriod,
@@ -110,19 +153,19 @@ export function PlanetInfo({ planet, onClose }: PlanetInfoProps) {
               </div>
               <div>
                 <p className="text-xs opacity-70">Day Length</p>
-                <p className="text-sm">
+                <p className="text-sm" title={sourceOf("apiRotationPeriod")}>
                   {displayValue(mergedData.apiRotationPeriod, planet.dayLength)}
                 </p>
               </div>
               <div>
                 <p className="text-xs opacity-70">Temperature</p>
-                <p className="text-sm">
+                <p className="text-sm" title={sourceOf("apiTemperature")}>
                   {displayValue(mergedData.apiTemperature, planet.temperature)}
                 </p>
               </div>
               <div>
                 <p className="text-xs opacity-70">Gravity</p>
-                <p className="text-sm">
+                <p className="text-sm" title={sourceOf("apiGravity")}>
                   {displayValue(mergedData.apiGravity, planet.gravity)}
                 </p>
               </div>
@@ -132,7 +175,7 @@ export function PlanetInfo({ planet, onClose }: PlanetInfoProps) {
               </div>
               <div>
                 <p className="text-xs opacity-70">Moons</p>
-                <p className="text-sm">
+                <p className="text-sm" title={sourceOf("apiMoonCount")}>
                   {displayValue(mergedData.apiMoonCount, planet.moons)}
                 </p>
               </div>
@@ -154,13 +197,17 @@ export function PlanetInfo({ planet, onClose }: PlanetInfoProps) {
               {mergedData.apiMass && (
                 <div>
                   <p className="text-xs opacity-70">Mass</p>
-                  <p className="text-sm">{mergedData.apiMass}</p>
+                  <p className="text-sm" title={sourceOf("apiMass")}>
+                    {mergedData.apiMass}
+                  </p>
                 </div>
               )}
               {mergedData.apiDensity && (
                 <div>
                   <p className="text-xs opacity-70">Density</p>
-                  <p className="text-sm">{mergedData.apiDensity}</p>
+                  <p className="text-sm" title={sourceOf("apiDensity")}>
+                    {mergedData.apiDensity}
+                  </p>
                 </div>
               )}
             </div>
@@ -181,6 +228,7 @@ export function PlanetInfo({ planet, onClose }: PlanetInfoProps) {
             >
               <ExplorationHistory
                 explorationHistory={planet.explorationHistory}
+                onMissionSelect={onMissionSelect}
               />
             </InfoSection>
           )}
@@ -1,15 +1,23 @@
 import { useRef, useMemo, useEffect } from "react";
 import { useFrame } from "@react-three/fiber";
-import { EllipseCurve, Group, Mesh, MathUtils } from "three";
+import { Group, Mesh, MathUtils } from "three";
 import { PlanetData } from "@/data/planet-types";
-import { applyInclinationToPosition } from "@/features/planet-rendering/domain/orbital-inclination";
 import {
-  SECONDS_PER_DAY,
-  FULL_CIRCLE_RADIANS,
-  EARTH_ORBITAL_PERIOD_DAYS,
-} from "@/utils/physics-constants";
-import { getCachedPlanetPosition } from "@/utils/astronomy-calculations";
+  calculateHeliocentricScenePosition,
+  calculateOrbitScenePosition,
+  getPlanetOrbitalElements,
+} from "@/features/planet-rendering/domain/kepler-orbit";
+import type { Position3D } from "@/features/planet-rendering/domain/orbital-inclination";
+import { calculateRotationAngleDelta } from "@/features/planet-rendering/domain/rotation-calculations";
 import type { SimulationMode } from "@/features/simulation-control/state/simulation-mode-context";
+import {
+  getSimulatedDate,
+  type SimulationClock,
+} from "@/features/simulation-control/domain/simulation-clock";
+import {
+  scaleHeliocentricPosition,
+  type ScaleStrategy,
+} from "@/features/view-scale/domain/scale-strategy";
 
 /**
  * Props for the usePlanetMovement hook.
@@ -17,170 +25,124 @@ import type { SimulationMode } from "@/features/simulation-control/state/simulat
 interface PlanetMovementProps {
   /** Planet data containing orbital parameters */
   planet: PlanetData;
-  /** Simulation speed multiplier (1 = real-time, 1000 = 1000x faster) */
+  /** Signed speed multiplier (1 = real-time, -1000 = 1000x backwards, 0 = paused) */
   simulationSpeed: number;
-  /** Scaled distance from the Sun for visualization */
-  scaledDistance: number;
+  /** View scale mapping heliocentric distances into scene units */
+  scale: ScaleStrategy;
   /** Reference to the planet's orbit group for position updates */
   orbitRef: React.RefObject<Group | null>;
   /** Reference to the planet mesh for rotation updates */
   planetRef: React.RefObject<Mesh | null>;
+  /** Simulation clock the planet's position is derived from */
+  clock: SimulationClock;
   /** Simulation mode: 'speed' for animation, 'date' for static positions */
   simulationMode?: SimulationMode;
-  /** Selected date for Date Mode */
-  selectedDate?: Date;
+}
+
+/**
+ * Move an orbit group to a scene position
+ */
+function setOrbitPosition(
+  orbitRef: React.RefObject<Group | null>,
+  position: Position3D,
+) {
+  orbitRef.current?.position.set(position.x, position.y, position.z);
 }
 
 /**
  * Hook that handles planet movement along its orbital path.
  *
- * This hook calculates and updates the planet's position on its elliptical orbit,
- * applying orbital inclination to create accurate 3D orbital mechanics.
+ * The orbit is a Keplerian ellipse with the Sun at one focus, built from the
+ * planet's orbital elements (semi-major axis, eccentricity, inclination,
+ * ascending node, argument of periapsis and mean anomaly).
  *
  * Key features:
- * - Elliptical orbit based on planet's eccentricity
- * - Orbital inclination applied for 3D positioning (planets move above/below ecliptic plane)
- * - Real-time based simulation with configurable speed multiplier
+ * - Speed Mode: solves Kepler's equation for the clock's simulated date, so
+ *   planets move fastest at perihelion and slowest at aphelion
+ * - Date Mode: places the planet at its true heliocentric x/y/z computed by
+ *   Astronomy Engine for the paused clock's date
+ * - Every body reads the same simulation clock, so they stay in step and
+ *   switching modes keeps the simulated date
+ * - Positions are computed in AU and mapped through the view scale, so a
+ *   scale switch moves the planet without changing its direction
  * - Axial tilt and rotation around planet's axis
  *
  * @param props - Planet movement configuration
- * @returns Object containing the orbit curve for reference
+ * @returns Object containing the orbital elements used for the orbit
  *
  * @example
- * const { orbitCurve } = usePlanetMovement({
+ * const { orbitalElements } = usePlanetMovement({
  *   planet: earthData,
  *   simulationSpeed: 1000,
- *   scaledDistance: 100,
+ *   scale: SCALE_STRATEGIES.true,
  *   orbitRef,
  *   planetRef,
+ *   clock,
  * });
  */
 export function usePlanetMovement({
   planet,
   simulationSpeed,
-  scaledDistance,
+  scale,
   orbitRef,
   planetRef,
+  clock,
   simulationMode = "speed",
-  selectedDate,
 }: PlanetMovementProps) {
   // Check if we're in Date Mode
   const isDateMode = simulationMode === "date";
-  // Refs to store current position and angle
-  const currentAngleRef = useRef(0);
   const lastTimeRef = useRef(0);
   const totalTimeRef = useRef(0);
   const lastLoggedDayRef = useRef(-1);
   const axialTiltSetRef = useRef(false);
-  const initialPositionSetRef = useRef(false);
-
-  // Calculate orbital period in seconds from planet data
-  // Fallback to Earth's period if missing (with error log)
-  const orbitalPeriodDays =
-    planet.orbitalPeriodDays ?? EARTH_ORBITAL_PERIOD_DAYS;
-
-  if (!planet.orbitalPeriodDays) {
-    console.error(
-      `Planet ${planet.name} missing orbitalPeriodDays, using Earth's period`,
-    );
-  }
 
-  // Convert orbital period from days to seconds
-  const orbitalPeriodSeconds = orbitalPeriodDays * SECONDS_PER_DAY;
+  const orbitalElements = useMemo(
+    () => getPlanetOrbitalElements(planet),
+    [planet],
+  );
 
-  // Calculate base speed for real-time simulation (radians per second)
-  const baseSpeed = FULL_CIRCLE_RADIANS / orbitalPeriodSeconds;
-
-  // Create elliptical orbit path with more accurate eccentricity
-  const orbitCurve = useMemo(() => {
-    return new EllipseCurve(
-      0,
-      0,
-      scaledDistance,
-      scaledDistance * (1 - planet.eccentricity),
-      0,
-      2 * Math.PI,
-      false,
-      0,
-    );
-  }, [scaledDistance, planet.eccentricity]);
-
-  // Calculate initial position based on current date (for accurate starting position)
-  const initialPosition = useMemo(() => {
-    return getCachedPlanetPosition(planet.name, new Date());
-  }, [planet.name]);
-
-  // Set initial position on mount (Speed Mode starts at today's actual position)
+  // Place the planet at the clock's date on mount and whenever the clock changes
   useEffect(() => {
-    if (
-      !initialPositionSetRef.current &&
-      orbitRef?.current &&
-      initialPosition
-    ) {
-      // Set the initial angle based on today's position
-      currentAngleRef.current = initialPosition.rotationRadians;
-
-      // Get position on the elliptical curve
-      const normalizedAngle =
-        initialPosition.rotationRadians / FULL_CIRCLE_RADIANS;
-      const position2D = orbitCurve.getPoint(normalizedAngle);
-
-      // Apply orbital inclination to get 3D position
-      const inclination = planet.orbitalInclination ?? 0;
-      const position3D = applyInclinationToPosition(
-        position2D.x,
-        position2D.y,
-        inclination,
-      );
-
-      // Update planet position
-      orbitRef.current.position.x = position3D.x;
-      orbitRef.current.position.y = position3D.y;
-      orbitRef.current.position.z = position3D.z;
-
-      initialPositionSetRef.current = true;
-    }
-  }, [initialPosition, orbitRef, orbitCurve, planet.orbitalInclination]);
+    if (isDateMode) return;
+    setOrbitPosition(
+      orbitRef,
+      scaleHeliocentricPosition(
+        calculateOrbitScenePosition(
+          orbitalElements,
+          getSimulatedDate(clock),
+          orbitalElements.semiMajorAxisAU,
+        ),
+        scale,
+      ),
+    );
+  }, [isDateMode, clock, orbitRef, orbitalElements, scale]);
 
   // Calculate position for Date Mode using Astronomy Engine (cached for performance)
   const datePosition = useMemo(() => {
-    if (isDateMode && selectedDate) {
-      return getCachedPlanetPosition(planet.name, selectedDate);
+    if (isDateMode) {
+      return scaleHeliocentricPosition(
+        calculateHeliocentricScenePosition(
+          planet.name,
+          orbitalElements,
+          getSimulatedDate(clock),
+          orbitalElements.semiMajorAxisAU,
+        ),
+        scale,
+      );
     }
     return null;
-  }, [isDateMode, selectedDate, planet.name]);
+  }, [isDateMode, clock, planet.name, orbitalElements, scale]);
 
   // Apply date position when in Date Mode
   useEffect(() => {
-    if (isDateMode && datePosition && orbitRef?.current) {
-      // Get position on the elliptical curve using the calculated longitude
-      const normalizedAngle =
-        datePosition.rotationRadians / FULL_CIRCLE_RADIANS;
-      const position2D = orbitCurve.getPoint(normalizedAngle);
-
-      // Apply orbital inclination to get 3D position
-      const inclination = planet.orbitalInclination ?? 0;
-      const position3D = applyInclinationToPosition(
-        position2D.x,
-        position2D.y,
-        inclination,
-      );
-
-      // Update planet position
-      orbitRef.current.position.x = position3D.x;
-      orbitRef.current.position.y = position3D.y;
-      orbitRef.current.position.z = position3D.z;
+    if (isDateMode && datePosition) {
+      // True heliocentric coordinates, not just the longitude
+      setOrbitPosition(orbitRef, datePosition);
     }
-  }, [
-    isDateMode,
-    datePosition,
-    orbitRef,
-    orbitCurve,
-    planet.orbitalInclination,
-  ]);
+  }, [isDateMode, datePosition, orbitRef]);
 
   // Calculate the position based on time and simulation speed (Speed Mode only)
-  useFrame(({ clock }) => {
+  useFrame(({ clock: frameClock }) => {
     // Skip animation in Date Mode
     if (isDateMode) {
       // Still apply axial tilt once
@@ -190,23 +152,19 @@ export function usePlanetMovement({
       }
       return;
     }
-    const elapsedTime = clock.getElapsedTime();
+    const elapsedTime = frameClock.getElapsedTime();
     const deltaTime = Math.max(elapsedTime - lastTimeRef.current, 0.001); // Minimum 1ms
     lastTimeRef.current = elapsedTime;
     totalTimeRef.current += deltaTime;
 
     // Calculate the position on the orbit
     if (orbitRef?.current) {
-      if (simulationSpeed === 0) {
+      if (clock.rate === 0) {
         // Keep current position
       } else {
         // Real-time based simulation speed
         // x1 = real-time, x1000 = 1000x faster than real-time
-        const angleIncrement = deltaTime * simulationSpeed * baseSpeed;
-
-        // Update current angle
-        currentAngleRef.current =
-          (currentAngleRef.current + angleIncrement) % (2 * Math.PI);
+        const simulatedDate = getSimulatedDate(clock);
 
         // Debug logging only in development
         if (process.env.NODE_ENV === "development") {
@@ -226,24 +184,18 @@ export function usePlanetMovement({
           }
         }
 
-        // Get position on the elliptical curve (2D)
-        const position2D = orbitCurve.getPoint(
-          currentAngleRef.current / (2 * Math.PI),
-        );
-
-        // Apply orbital inclination to get 3D position
-        // position2D.y from curve maps to z in 3D space before inclination
-        const inclination = planet.orbitalInclination ?? 0;
-        const position3D = applyInclinationToPosition(
-          position2D.x,
-          position2D.y,
-          inclination,
+        // Solve Kepler's equation for the simulated date
+        setOrbitPosition(
+          orbitRef,
+          scaleHeliocentricPosition(
+            calculateOrbitScenePosition(
+              orbitalElements,
+              simulatedDate,
+              orbitalElements.semiMajorAxisAU,
+            ),
+            scale,
+          ),
         );
-
-        // Update planet position with inclination applied
-        orbitRef.current.position.x = position3D.x;
-        orbitRef.current.position.y = position3D.y; // Now has inclination component
-        orbitRef.current.position.z = position3D.z;
       }
     }
 
@@ -253,23 +205,16 @@ export function usePlanetMovement({
       axialTiltSetRef.current = true;
     }
 
-    // Update planet rotation around its axis
+    // Update planet rotation around its axis; the signed speed turns
+    // retrograde rotators and reversed time the right way
     if (planetRef?.current && simulationSpeed !== 0) {
-      // Calculate rotation speed based on real day length
-      const dayLengthSeconds =
-        Math.abs(planet.rotationSpeedByDays) * SECONDS_PER_DAY;
-      const rotationSpeedRadiansPerSecond =
-        FULL_CIRCLE_RADIANS / dayLengthSeconds;
-
-      const rotationSpeed =
-        deltaTime * simulationSpeed * rotationSpeedRadiansPerSecond;
-
-      // Determine rotation direction from the perspective of the Solar System's north pole
-      const rotationDirection = planet.rotationSpeedByDays < 0 ? -1 : 1;
-
-      planetRef.current.rotation.y += rotationSpeed * rotationDirection;
+      planetRef.current.rotation.y += calculateRotationAngleDelta(
+        planet.rotationSpeedByDays,
+        deltaTime,
+        simulationSpeed,
+      );
     }
   });
 
-  return { orbitCurve };
+  return { orbitalElements };
 }
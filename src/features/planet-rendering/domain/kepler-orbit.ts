@@ -0,0 +1,137 @@
+import { PlanetData } from "@/data/planet-types";
+import type { Position3D } from "@/features/planet-rendering/domain/orbital-inclination";
+import {
+  J2000_EPOCH,
+  calculateHeliocentricPosition,
+  calculatePositionAtTrueAnomaly,
+  type EclipticPosition,
+  type OrbitalElements,
+} from "@/utils/orbital-elements";
+import { FULL_CIRCLE_RADIANS } from "@/utils/physics-constants";
+import { getCachedHeliocentricPosition } from "@/utils/astronomy-calculations";
+
+/**
+ * Number of line segments used to draw an orbit path
+ */
+export const ORBIT_PATH_SEGMENTS = 256;
+
+/**
+ * Orbital elements for a body, derived from its basic orbit data when the
+ * record has no explicit elements (node and periapsis at 0°, periapsis passage
+ * at J2000). Derived elements keep the record's period, so they also work for
+ * moons, where distances are relative to the parent.
+ * @param planet - Planet data
+ * @returns Orbital elements
+ */
+export function getPlanetOrbitalElements(planet: PlanetData): OrbitalElements {
+  if (planet.orbitalElements) {
+    return planet.orbitalElements;
+  }
+
+  return {
+    semiMajorAxisAU: planet.distanceInAU,
+    eccentricity: planet.eccentricity,
+    inclinationDeg: planet.orbitalInclination ?? 0,
+    longitudeOfAscendingNodeDeg: 0,
+    argumentOfPeriapsisDeg: 0,
+    meanAnomalyDeg: 0,
+    epoch: J2000_EPOCH,
+    orbitalPeriodDays: planet.orbitalPeriodDays,
+  };
+}
+
+/**
+ * Convert a heliocentric ecliptic position to scene coordinates.
+ *
+ * The ecliptic XY plane maps onto the scene XZ plane (longitude 0° along +X,
+ * 90° along +Z) and ecliptic north maps to -Y. This is the same proper
+ * rotation applyInclinationToPosition uses, so inclined orbits tilt the same way.
+ *
+ * @param position - Ecliptic position in AU
+ * @param unitsPerAU - Scene units per AU
+ * @returns Scene position
+ */
+export function eclipticToScenePosition(
+  position: EclipticPosition,
+  unitsPerAU: number,
+): Position3D {
+  return {
+    x: position.x * unitsPerAU,
+    y: -position.z * unitsPerAU,
+    z: position.y * unitsPerAU,
+  };
+}
+
+/**
+ * Scene units per AU that render the semi-major axis at scaledDistance
+ */
+function getUnitsPerAU(elements: OrbitalElements, scaledDistance: number) {
+  return elements.semiMajorAxisAU > 0
+    ? scaledDistance / elements.semiMajorAxisAU
+    : 0;
+}
+
+/**
+ * Scene position of a body on its Keplerian orbit at a given date
+ * @param elements - Orbital elements
+ * @param date - Target date
+ * @param scaledDistance - Semi-major axis in scene units
+ * @returns Scene position relative to the Sun
+ */
+export function calculateOrbitScenePosition(
+  elements: OrbitalElements,
+  date: Date,
+  scaledDistance: number,
+): Position3D {
+  return eclipticToScenePosition(
+    calculateHeliocentricPosition(elements, date),
+    getUnitsPerAU(elements, scaledDistance),
+  );
+}
+
+/**
+ * Scene position of a body at its true heliocentric coordinates on a date
+ * (Astronomy Engine for planets and Pluto, Keplerian elements otherwise),
+ * drawn at the same scale as its orbit path
+ * @param planetName - Name of the planet or dwarf planet
+ * @param elements - Orbital elements setting the scene scale
+ * @param date - Target date
+ * @param scaledDistance - Semi-major axis in scene units
+ * @returns Scene position relative to the Sun
+ */
+export function calculateHeliocentricScenePosition(
+  planetName: string,
+  elements: OrbitalElements,
+  date: Date,
+  scaledDistance: number,
+): Position3D {
+  return eclipticToScenePosition(
+    getCachedHeliocentricPosition(planetName, date),
+    getUnitsPerAU(elements, scaledDistance),
+  );
+}
+
+/**
+ * Points along a full orbit, evenly spaced in true anomaly so the path stays
+ * smooth around perihelion where the orbit curves most sharply
+ * @param elements - Orbital elements
+ * @param scaledDistance - Semi-major axis in scene units
+ * @param segments - Number of segments
+ * @returns Closed loop of scene positions (first point is not repeated)
+ */
+export function createOrbitPathPoints(
+  elements: OrbitalElements,
+  scaledDistance: number,
+  segments: number = ORBIT_PATH_SEGMENTS,
+): Position3D[] {
+  const unitsPerAU = getUnitsPerAU(elements, scaledDistance);
+  return Array.from({ length: segments }, (_, index) =>
+    eclipticToScenePosition(
+      calculatePositionAtTrueAnomaly(
+        elements,
+        (index / segments) * FULL_CIRCLE_RADIANS,
+      ),
+      unitsPerAU,
+    ),
+  );
+}
@@ -3,6 +3,11 @@
  * Centralized calculations to reduce render cycle overhead
  */
 
+import {
+  SECONDS_PER_DAY,
+  FULL_CIRCLE_RADIANS,
+} from "@/utils/physics-constants";
+
 // Pre-calculated constants for performance optimization
 export const ROTATION_CONSTANTS = {
   MINUTES_PER_DAY: 1440,
@@ -70,6 +75,31 @@ export function calculateRotationMultiplier(
   return speed * direction;
 }
 
+/**
+ * Calculate how far a body spins about its axis in one frame
+ * @param planetRotationPeriod - Rotation period in days (negative for retrograde)
+ * @param deltaSeconds - Real seconds since the last frame
+ * @param simulationSpeed - Signed simulation speed (negative runs time backwards, 0 = paused)
+ * @returns Signed rotation in radians; retrograde bodies and reversed time turn the other way
+ */
+export function calculateRotationAngleDelta(
+  planetRotationPeriod: number,
+  deltaSeconds: number,
+  simulationSpeed: number
+): number {
+  const period = Math.abs(planetRotationPeriod);
+  if (period === 0 || !Number.isFinite(period)) return 0;
+
+  const radiansPerSimulatedSecond =
+    FULL_CIRCLE_RADIANS / (period * SECONDS_PER_DAY);
+  return (
+    deltaSeconds *
+    simulationSpeed *
+    radiansPerSimulatedSecond *
+    calculateRotationDirection(planetRotationPeriod)
+  );
+}
+
 /**
  * Calculate adjusted planet size for ring visibility
  * @param planetName - Name of the planet
@@ -1,6 +1,7 @@
 export * from "@/features/planet-rendering/application/usePlanetMaterial";
 export * from "@/features/planet-rendering/application/usePlanetMovement";
 export * from "@/features/planet-rendering/domain/orbit-geometry";
+export * from "@/features/planet-rendering/domain/kepler-orbit";
 export * from "@/features/planet-rendering/domain/orbital-inclination";
 export * from "@/features/planet-rendering/domain/rotation-calculations";
 export * from "@/features/planet-rendering/ui/planet/index";
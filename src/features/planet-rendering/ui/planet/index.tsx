@@ -1,6 +1,6 @@
 "use client";
 
-import { useRef, useCallback } from "react";
+import { useRef, useCallback, useMemo } from "react";
 import { ThreeEvent } from "@react-three/fiber";
 import { Sphere } from "@react-three/drei";
 import { Mesh, Group } from "three";
@@ -11,30 +11,49 @@ import { usePlanetMaterial } from "@/features/planet-rendering/application/usePl
 import { PlanetRings } from "./planet-rings";
 import { OrbitPath } from "./orbit-path";
 import { PlanetAtmosphericGlow } from "./planet-atmospheric-glow";
+import { getMoonsForPlanet } from "@/features/moons/data/moon-data";
+import { Moon } from "@/features/moons/ui/moon";
 
 import type { SimulationMode } from "@/features/simulation-control/state/simulation-mode-context";
+import type { SimulationClock } from "@/features/simulation-control/domain/simulation-clock";
+import {
+  EARTH_RADIUS_UNITS,
+  SCALE_STRATEGIES,
+  getBodySizeScale,
+  type ScaleStrategy,
+} from "@/features/view-scale/domain/scale-strategy";
 
 // Define the planet props
 interface PlanetProps {
   planet: PlanetData;
   simulationSpeed: number;
   onClick: (planet: PlanetData) => void;
+  /** Label click handler (defaults to onClick) */
+  onLabelClick?: (planet: PlanetData) => void;
   showLabels: boolean;
   showOrbitPath?: boolean;
+  /** Simulation clock the planet and its moons are positioned from */
+  clock: SimulationClock;
   /** Simulation mode: 'speed' for animation, 'date' for static positions */
   simulationMode?: SimulationMode;
-  /** Selected date for Date Mode */
-  selectedDate?: Date;
+  /** View scale for distances and sizes (defaults to true scale) */
+  scale?: ScaleStrategy;
+  /** Part of the chosen event: its label is marked and shown even when
+   * labels are off */
+  highlighted?: boolean;
 }
 
 export function Planet({
   planet,
   simulationSpeed,
   onClick,
+  onLabelClick,
   showLabels,
   showOrbitPath = true,
+  clock,
   simulationMode = "speed",
-  selectedDate,
+  scale = SCALE_STRATEGIES.true,
+  highlighted = false,
 }: PlanetProps) {
   const planetRef = useRef<Mesh | null>(null);
   const orbitRef = useRef<Group | null>(null);
@@ -42,33 +61,27 @@ export function Planet({
   // In main simulation: keep Sun detailed, simplify others to reduce render cost
   const planetMaterial = usePlanetMaterial(planet);
 
-  // TRUE TO SCALE - No artificial scaling for visibility
-  // Using real astronomical proportions
-
-  // Size: 1 AU = 149,597,870 km (Earth-Sun distance)
-  // For visualization: 1 AU = 1000 units (compressed but proportional)
-  const AU_TO_UNITS = 1000; // 1 AU = 1000 units
-
-  // Distance: Real orbital distance from Sun center
-  const scaledDistance = planet.distanceInAU * AU_TO_UNITS;
-
-  // Size: Real diameter proportions
-  // Earth diameter = 12,742 km, Sun diameter = 1,392,700 km
-  // For visualization: Earth = 1 unit, Sun = 109.2 units
-  const EARTH_DIAMETER_UNITS = 1; // Earth = 1 unit
-  const scaledSize = planet.diameterRelativeEarth * EARTH_DIAMETER_UNITS;
+  // Real diameter proportions: Earth = 1 unit, Sun = 109.2 units.
+  // The view scale enlarges the body and its rings through a group
+  // transform so it can animate without new geometry; moons stay outside
+  // it, since it would widen their orbits too.
+  const scaledSize = planet.diameterRelativeEarth * EARTH_RADIUS_UNITS;
+  const sizeScale = getBodySizeScale(planet, scale);
 
   // Initialize and update planet movement
   usePlanetMovement({
     planet,
     simulationSpeed,
-    scaledDistance,
+    scale,
     orbitRef,
     planetRef,
+    clock,
     simulationMode,
-    selectedDate,
   });
 
+  // Natural satellites orbit inside this planet's orbit group
+  const moons = useMemo(() => getMoonsForPlanet(planet.name), [planet.name]);
+
   // Handle planet click with proper event propagation
   const handlePlanetClick = useCallback(
     (e: ThreeEvent<MouseEvent>) => {
@@ -81,33 +94,55 @@ export function Planet({
   return (
     <>
       {showOrbitPath && (
-        <OrbitPath planet={planet} scaledDistance={scaledDistance} />
+        <OrbitPath planet={planet} scale={scale} />
       )}
-      <group ref={orbitRef}>
-        <Sphere
-          ref={planetRef}
-          args={[scaledSize, 32, 32]}
-          onClick={handlePlanetClick}
-        >
-          <primitive object={planetMaterial} attach="material" />
-        </Sphere>
+      {/* Named so the camera can find the planet to follow it */}
+      <group ref={orbitRef} name={planet.name}>
+        <group scale={sizeScale}>
+          <Sphere
+            ref={planetRef}
+            args={[scaledSize, 32, 32]}
+            onClick={handlePlanetClick}
+          >
+            <primitive object={planetMaterial} attach="material" />
+          </Sphere>
 
-        {/* Atmospheric glow effect */}
-        <PlanetAtmosphericGlow
-          planetSize={scaledSize}
-          planetName={planet.name}
-        />
+          {/* Atmospheric glow effect */}
+          <PlanetAtmosphericGlow
+            planetSize={scaledSize}
+            planetName={planet.name}
+          />
 
-        {planet.hasRings && (
-          <PlanetRings
-            scaledSize={scaledSize}
-            ringColor={planet.ringColor}
-            ringTilt={planet.ringTilt}
-            axialTilt={planet.axialTilt}
+          {planet.hasRings && (
+            <PlanetRings
+              scaledSize={scaledSize}
+              ringColor={planet.ringColor}
+              ringTilt={planet.ringTilt}
+              axialTilt={planet.axialTilt}
+            />
+          )}
+        </group>
+
+        {moons.map((moon) => (
+          <Moon
+            key={moon.name}
+            moon={moon}
+            simulationSpeed={simulationSpeed}
+            clock={clock}
+            simulationMode={simulationMode}
+            onClick={onClick}
+            showOrbitPath={showOrbitPath}
           />
-        )}
+        ))}
 
-        {showLabels && <PlanetLabel planet={planet} onClick={onClick} />}
+        {(showLabels || highlighted) && (
+          <PlanetLabel
+            planet={planet}
+            onClick={onLabelClick ?? onClick}
+            sizeScale={sizeScale}
+            highlighted={highlighted}
+          />
+        )}
       </group>
     </>
   );
@@ -4,48 +4,67 @@ import * as THREE from "three";
 import { useMemo, useRef, useEffect } from "react";
 import { PlanetData } from "@/data/planet-types";
 import { getOrbitColor } from "@/features/planet-rendering/domain/orbit-geometry";
-import { getInclinationRotation } from "@/features/planet-rendering/domain/orbital-inclination";
+import {
+  createOrbitPathPoints,
+  getPlanetOrbitalElements,
+} from "@/features/planet-rendering/domain/kepler-orbit";
+import {
+  getScaleTransition,
+  scaleHeliocentricPosition,
+  type ScaleStrategy,
+} from "@/features/view-scale/domain/scale-strategy";
+import {
+  addScaleMorph,
+  getScaleMorphInfluences,
+} from "@/features/view-scale/domain/scale-morph";
 
 interface OrbitPathProps {
   planet: PlanetData;
-  scaledDistance: number;
+  /** Semi-major axis in scene units, for orbits drawn at a fixed scale */
+  scaledDistance?: number;
+  /** View scale for orbits around the Sun; overrides scaledDistance */
+  scale?: ScaleStrategy;
 }
 
 /**
  * OrbitPath component renders a planet's orbital path as an ellipse.
  *
  * Key features:
- * - Uses elliptical curve matching planet's actual eccentricity
- * - Applies orbital inclination for accurate 3D positioning
+ * - Keplerian ellipse with the Sun at one focus, from the planet's orbital elements
+ * - Full 3D orientation (inclination, ascending node, argument of periapsis)
+ * - Traces exactly the path usePlanetMovement moves the planet along
+ * - Heliocentric paths follow the view scale, mapped radially like the planet;
+ *   a scale switch blends two paths built once instead of rebuilding each frame
  * - Color-coded: lighter gray for inner planets, darker for outer planets
  * - Semi-transparent with double-sided rendering for visibility from all angles
  * - Optimized with useMemo and proper cleanup on unmount
  */
-export function OrbitPath({ planet, scaledDistance }: OrbitPathProps) {
+export function OrbitPath({ planet, scaledDistance, scale }: OrbitPathProps) {
   const lineRef = useRef<THREE.Line>(null);
 
-  // Create elliptical orbit curve matching planet's eccentricity
-  const orbitCurve = useMemo(() => {
-    return new THREE.EllipseCurve(
-      0, // center x
-      0, // center y
-      scaledDistance, // x radius
-      scaledDistance * (1 - planet.eccentricity), // y radius (adjusted for eccentricity)
-      0, // start angle
-      2 * Math.PI, // end angle
-      false, // clockwise
-      0 // rotation
-    );
-  }, [scaledDistance, planet.eccentricity]);
+  // Ends of a scale switch in progress (both the same once it settles)
+  const { from, to } = scale
+    ? getScaleTransition(scale)
+    : { from: undefined, to: undefined };
 
-  // Create orbit geometry from ellipse points
+  // Create orbit geometry from points along the Keplerian ellipse
   const geometry = useMemo(() => {
-    const points = orbitCurve.getPoints(128);
-    const geometry = new THREE.BufferGeometry().setFromPoints(
-      points.map((p) => new THREE.Vector3(p.x, 0, p.y))
-    );
-    return geometry;
-  }, [orbitCurve]);
+    const elements = getPlanetOrbitalElements(planet);
+    const createGeometry = (strategy?: ScaleStrategy) => {
+      const points = strategy
+        ? createOrbitPathPoints(elements, elements.semiMajorAxisAU).map((p) =>
+            scaleHeliocentricPosition(p, strategy),
+          )
+        : createOrbitPathPoints(elements, scaledDistance ?? 0);
+      return new THREE.BufferGeometry().setFromPoints(
+        points.map((p) => new THREE.Vector3(p.x, p.y, p.z))
+      );
+    };
+    const geometry = createGeometry(to);
+    return from === to
+      ? geometry
+      : addScaleMorph(geometry, createGeometry(from));
+  }, [planet, scaledDistance, from, to]);
 
   // Create orbit material with planet-specific color
   const material = useMemo(() => {
@@ -57,21 +76,12 @@ export function OrbitPath({ planet, scaledDistance }: OrbitPathProps) {
     });
   }, [planet.name]);
 
-  // Apply render order and orbital inclination rotation
+  // Set render order to draw orbits before planets
   useEffect(() => {
     if (lineRef.current) {
-      // Set render order to draw orbits before planets
       lineRef.current.renderOrder = -1;
-
-      // Apply orbital inclination rotation using shared utility
-      // This ensures orbit path uses same inclination as planet movement
-      if (planet.orbitalInclination !== undefined) {
-        lineRef.current.rotation.x = getInclinationRotation(
-          planet.orbitalInclination
-        );
-      }
     }
-  }, [planet.orbitalInclination]);
+  }, []);
 
   // Cleanup geometry and material on unmount
   useEffect(() => {
@@ -81,5 +91,12 @@ export function OrbitPath({ planet, scaledDistance }: OrbitPathProps) {
     };
   }, [geometry, material]);
 
-  return <lineLoop ref={lineRef} geometry={geometry} material={material} />;
+  return (
+    <lineLoop
+      ref={lineRef}
+      geometry={geometry}
+      material={material}
+      morphTargetInfluences={scale && getScaleMorphInfluences(scale)}
+    />
+  );
 }
@@ -1,33 +1,41 @@
 "use client";
 
 import { Html } from "@react-three/drei";
+import { cn } from "@/shared/ui/cn";
 import { PlanetData } from "@/data/planet-types";
+import { planetData } from "@/data/planet-data";
+import { dwarfPlanetData } from "@/data/dwarf-planet-data";
 import { useGetLabelDistance } from "@/hooks/useGetLabelDistance";
 
+// Planets and dwarf planets get a label; moons stay unlabelled to avoid clutter
+const LABELLED_BODY_NAMES = new Set(
+  [...planetData, ...dwarfPlanetData].map((body) => body.name),
+);
+
 export function PlanetLabel({
   planet,
   onClick,
+  sizeScale = 1,
+  highlighted = false,
 }: {
   planet: PlanetData;
   onClick: (planet: PlanetData) => void;
+  /** View scale size multiplier of the body */
+  sizeScale?: number;
+  /** Mark the body as part of the chosen event */
+  highlighted?: boolean;
 }) {
-  const { labelDistance, labelRef } = useGetLabelDistance({ planet });
+  const { labelDistance, labelRef } = useGetLabelDistance({
+    planet,
+    sizeScale,
+  });
 
   const handleClick = (e: React.MouseEvent) => {
     e.stopPropagation();
     onClick(planet);
   };
 
-  return [
-    "Mercury",
-    "Venus",
-    "Earth",
-    "Mars",
-    "Jupiter",
-    "Saturn",
-    "Uranus",
-    "Neptune",
-  ].includes(planet.name) ? (
+  return LABELLED_BODY_NAMES.has(planet.name) ? (
     <Html
       position={[0, labelDistance, 0]}
       center
@@ -39,7 +47,10 @@ export function PlanetLabel({
       <div
         ref={labelRef}
         onClick={handleClick}
-        className="bg-black/70 text-white px-2 py-1 rounded text-sm whitespace-nowrap cursor-pointer hover:bg-black/90"
+        className={cn(
+          "bg-black/70 text-white px-2 py-1 rounded text-sm whitespace-nowrap cursor-pointer hover:bg-black/90",
+          highlighted && "ring-2 ring-yellow-400 text-yellow-200",
+        )}
       >
         {planet.name}
       </div>
@@ -6,19 +6,28 @@ import { Sphere } from "@react-three/drei";
 import type { Mesh } from "three";
 import { sunData } from "@/data/planet-data";
 import { usePlanetMaterial } from "@/features/planet-rendering/application/usePlanetMaterial";
+import { calculateRotationAngleDelta } from "@/features/planet-rendering/domain/rotation-calculations";
 import type { SimulationMode } from "@/features/simulation-control/state/simulation-mode-context";
 
+/**
+ * Sidereal rotation period of the Sun at its equator (days)
+ */
+const SUN_ROTATION_PERIOD_DAYS = 25.38;
+
 interface SunProps {
   onClick?: () => void;
   simulationSpeed: number;
   /** Simulation mode: 'speed' for animation, 'date' for static */
   simulationMode?: SimulationMode;
+  /** View scale size multiplier (1 = true scale) */
+  sizeScale?: number;
 }
 
 export function Sun({
   onClick,
   simulationSpeed,
   simulationMode = "speed",
+  sizeScale = 1,
 }: SunProps) {
   const sunRef = useRef<Mesh | null>(null);
   const glowRef = useRef<Mesh | null>(null);
@@ -27,16 +36,18 @@ export function Sun({
   // Check if we're in Date Mode
   const isDateMode = simulationMode === "date";
 
-  useFrame(({ clock }) => {
+  useFrame(({ clock }, delta) => {
     // Skip rotation in Date Mode
     if (isDateMode) return;
 
     if (sunRef.current) {
-      // Sun rotates once every 25.38 Earth days
-      // Use elapsed time for smoother rotation
-      const baseRotationSpeed = (2 * Math.PI) / (25.38 * 24 * 60 * 60); // radians per second
-      const sunRotationSpeed = baseRotationSpeed * simulationSpeed;
-      sunRef.current.rotation.y = sunRotationSpeed * clock.getElapsedTime();
+      // Sun rotates once every 25.38 Earth days; accumulate per frame so
+      // pausing or reversing continues from the current angle
+      sunRef.current.rotation.y += calculateRotationAngleDelta(
+        SUN_ROTATION_PERIOD_DAYS,
+        delta,
+        simulationSpeed,
+      );
     }
 
     if (glowRef.current) {
@@ -52,12 +63,13 @@ export function Sun({
   };
 
   return (
-    <group onClick={handleSunClick}>
-      {/* Sun core - TRUE TO SCALE */}
+    <group name={sunData.name} onClick={handleSunClick}>
+      {/* Sun core - true to scale unless the view scale enlarges it */}
       <Sphere
         ref={sunRef}
         args={[109.2, 64, 64]} // Real scale: Sun = 109.2x Earth diameter
         position={[0, 0, 0]}
+        scale={sizeScale}
       >
         <primitive object={sunMaterial} attach="material" />
       </Sphere>
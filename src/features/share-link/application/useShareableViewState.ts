@@ -0,0 +1,124 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Camera, Vector3 } from "three";
+import type { PlanetData } from "@/data/planet-types";
+import { getSimulatedDate } from "@/features/simulation-control/domain/simulation-clock";
+import type { SimulationClock } from "@/features/simulation-control/domain/simulation-clock";
+import type { SimulationMode } from "@/features/simulation-control/state/simulation-mode-context";
+import {
+  decodeViewState,
+  encodeViewState,
+  findSelectableBody,
+  type CameraState,
+  type ViewState,
+} from "@/features/share-link/domain/view-state-codec";
+
+/**
+ * The parts of OrbitControls needed to read the camera
+ */
+export interface CameraControls {
+  object: Camera;
+  target: Vector3;
+}
+
+/**
+ * View state read from and applied to the solar system controller
+ */
+export interface ShareableViewController {
+  mode: SimulationMode;
+  clock: SimulationClock;
+  selectedPlanet: PlanetData | null;
+  simulationSpeed: number;
+  isPaused: boolean;
+  showPlanetLabels: boolean;
+  showOrbitPath: boolean;
+  showBeltRegions: boolean;
+  setMode: (mode: SimulationMode) => void;
+  setSelectedDate: (date: Date) => void;
+  handlePlanetClick: (planet: PlanetData) => void;
+  setSimulationSpeed: (speed: number) => void;
+  setPaused: (paused: boolean) => void;
+  setShowPlanetLabels: (show: boolean) => void;
+  setShowOrbitPath: (show: boolean) => void;
+  setShowBeltRegions: (show: boolean) => void;
+}
+
+/**
+ * Decode the view state in the current URL (empty during server rendering)
+ */
+function readLocationViewState(): Partial<ViewState> {
+  if (typeof window === "undefined") return {};
+  return decodeViewState(window.location.search);
+}
+
+/**
+ * Restores the view state from the page URL on load and builds share links
+ * for the current view.
+ *
+ * The camera is returned as initialCamera for the scene to start from; the
+ * rest is applied to the controller once after mount.
+ *
+ * @param controller - Solar system controller
+ * @returns Controls ref for the scene, the initial camera and a link builder
+ */
+export function useShareableViewState(controller: ShareableViewController) {
+  const controlsRef = useRef<CameraControls | null>(null);
+  const [initialViewState] = useState(readLocationViewState);
+  const appliedRef = useRef(false);
+
+  // Apply the link once; mode first so the date lands on the paused clock
+  useEffect(() => {
+    if (appliedRef.current) return;
+    appliedRef.current = true;
+
+    const state = initialViewState;
+    if (state.mode) controller.setMode(state.mode);
+    if (state.date) controller.setSelectedDate(state.date);
+    if (state.speed !== undefined) controller.setSimulationSpeed(state.speed);
+    if (state.paused !== undefined) controller.setPaused(state.paused);
+    if (state.showLabels !== undefined) {
+      controller.setShowPlanetLabels(state.showLabels);
+    }
+    if (state.showOrbits !== undefined) {
+      controller.setShowOrbitPath(state.showOrbits);
+    }
+    if (state.showBelts !== undefined) {
+      controller.setShowBeltRegions(state.showBelts);
+    }
+    if (state.planetName) {
+      const body = findSelectableBody(state.planetName);
+      if (body) controller.handlePlanetClick(body);
+    }
+  }, [controller, initialViewState]);
+
+  const getShareUrl = useCallback((): string => {
+    const controls = controlsRef.current;
+    const camera: CameraState | null = controls
+      ? {
+          position: controls.object.position.toArray(),
+          target: controls.target.toArray(),
+        }
+      : null;
+
+    const query = encodeViewState({
+      mode: controller.mode,
+      date: getSimulatedDate(controller.clock),
+      planetName: controller.selectedPlanet?.name ?? null,
+      speed: controller.simulationSpeed,
+      paused: controller.isPaused,
+      showLabels: controller.showPlanetLabels,
+      showOrbits: controller.showOrbitPath,
+      showBelts: controller.showBeltRegions,
+      camera,
+    });
+
+    return `${window.location.origin}${window.location.pathname}?${query}`;
+  }, [controller]);
+
+  return {
+    controlsRef,
+    initialCamera: initialViewState.camera ?? null,
+    getShareUrl,
+  };
+}
@@ -0,0 +1,238 @@
+/**
+ * View state URL codec
+ * Serialises what the user is looking at (mode, date, selected body, speed,
+ * display toggles and camera) into query parameters and restores it.
+ *
+ * Every parameter is validated on its own: an invalid or out-of-range value
+ * is dropped with a warning and the rest of the link still applies.
+ */
+
+import type { Vector3Tuple } from "three";
+import { sunData, planetData } from "@/data/planet-data";
+import { dwarfPlanetData } from "@/data/dwarf-planet-data";
+import { PlanetData } from "@/data/planet-types";
+import { MOON_DATA } from "@/features/moons/data/moon-data";
+import { validateDate } from "@/utils/astronomy-calculations";
+import {
+  DEFAULT_SPEED,
+  normalizeSimulationSpeed,
+} from "@/features/simulation-control/state/rotation-speed-context";
+import type { SimulationMode } from "@/features/simulation-control/state/simulation-mode-context";
+
+export interface CameraState {
+  /** Camera position in scene units */
+  position: Vector3Tuple;
+  /** Point the camera orbits around */
+  target: Vector3Tuple;
+}
+
+export interface ViewState {
+  mode: SimulationMode;
+  date: Date;
+  /** Name of the body whose info panel is open */
+  planetName: string | null;
+  /** Signed simulation speed */
+  speed: number;
+  paused: boolean;
+  showLabels: boolean;
+  showOrbits: boolean;
+  showBelts: boolean;
+  camera: CameraState | null;
+}
+
+/**
+ * Query parameter names
+ */
+export const VIEW_STATE_PARAMS = {
+  mode: "mode",
+  date: "date",
+  planet: "planet",
+  speed: "speed",
+  paused: "paused",
+  labels: "labels",
+  orbits: "orbits",
+  belts: "belts",
+  camera: "cam",
+  target: "target",
+} as const;
+
+/**
+ * Largest camera coordinate accepted (the camera's far plane)
+ */
+export const MAX_CAMERA_COORDINATE = 120_000;
+
+// Bodies that can be selected in the scene
+const SELECTABLE_BODIES: PlanetData[] = [
+  sunData,
+  ...planetData,
+  ...dwarfPlanetData,
+  ...MOON_DATA,
+];
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MS_PER_DAY = 86_400_000;
+
+/**
+ * Find a selectable body by name (case-insensitive)
+ * @param name - Body name from a link
+ * @returns Body data, or undefined for unknown names
+ */
+export function findSelectableBody(name: string): PlanetData | undefined {
+  const normalized = name.trim().toLowerCase();
+  return SELECTABLE_BODIES.find(
+    (body) => body.name.toLowerCase() === normalized,
+  );
+}
+
+/**
+ * Date as YYYY-MM-DD at UTC midnight, otherwise a full ISO timestamp
+ */
+function encodeDate(date: Date): string {
+  const iso = date.toISOString();
+  return date.getTime() % MS_PER_DAY === 0 ? iso.slice(0, 10) : iso;
+}
+
+function decodeDate(value: string): Date | null {
+  const date = new Date(
+    DATE_ONLY_PATTERN.test(value) ? `${value}T00:00:00Z` : value,
+  );
+  const validation = validateDate(date);
+  if (!validation.valid) {
+    console.warn(`Ignoring date "${value}" in link: ${validation.error}`);
+    return null;
+  }
+  return date;
+}
+
+function encodeVector(vector: Vector3Tuple): string {
+  return vector.map((value) => Number(value.toFixed(2))).join(",");
+}
+
+function decodeVector(value: string): Vector3Tuple | null {
+  const parts = value.split(",").map((part) => Number(part));
+  if (
+    parts.length !== 3 ||
+    parts.some(
+      (part) => !Number.isFinite(part) || Math.abs(part) > MAX_CAMERA_COORDINATE,
+    )
+  ) {
+    return null;
+  }
+  return [parts[0], parts[1], parts[2]];
+}
+
+function decodeBoolean(value: string): boolean | null {
+  if (value === "1" || value === "true") return true;
+  if (value === "0" || value === "false") return false;
+  return null;
+}
+
+/**
+ * Serialise a view state to a query string (without the leading "?")
+ *
+ * Defaults (Speed Mode, default speed, running, everything shown) are left
+ * out to keep links short; the date is always included.
+ *
+ * @param state - View state to share
+ * @returns Query string
+ */
+export function encodeViewState(state: ViewState): string {
+  const params = new URLSearchParams();
+
+  if (state.mode === "date") params.set(VIEW_STATE_PARAMS.mode, "date");
+  params.set(VIEW_STATE_PARAMS.date, encodeDate(state.date));
+  if (state.planetName) params.set(VIEW_STATE_PARAMS.planet, state.planetName);
+  if (state.speed !== DEFAULT_SPEED) {
+    params.set(VIEW_STATE_PARAMS.speed, String(state.speed));
+  }
+  if (state.paused) params.set(VIEW_STATE_PARAMS.paused, "1");
+  if (!state.showLabels) params.set(VIEW_STATE_PARAMS.labels, "0");
+  if (!state.showOrbits) params.set(VIEW_STATE_PARAMS.orbits, "0");
+  if (!state.showBelts) params.set(VIEW_STATE_PARAMS.belts, "0");
+  if (state.camera) {
+    params.set(VIEW_STATE_PARAMS.camera, encodeVector(state.camera.position));
+    params.set(VIEW_STATE_PARAMS.target, encodeVector(state.camera.target));
+  }
+
+  return params.toString();
+}
+
+/**
+ * Restore the valid parts of a view state from a query string
+ * @param search - Query string, with or without the leading "?"
+ * @returns Only the fields present and valid in the link
+ */
+export function decodeViewState(search: string): Partial<ViewState> {
+  const params = new URLSearchParams(search);
+  const state: Partial<ViewState> = {};
+
+  const mode = params.get(VIEW_STATE_PARAMS.mode);
+  if (mode !== null) {
+    if (mode === "speed" || mode === "date") {
+      state.mode = mode;
+    } else {
+      console.warn(`Ignoring unknown mode "${mode}" in link`);
+    }
+  }
+
+  const date = params.get(VIEW_STATE_PARAMS.date);
+  if (date !== null) {
+    const decoded = decodeDate(date);
+    if (decoded) state.date = decoded;
+  }
+
+  const planet = params.get(VIEW_STATE_PARAMS.planet);
+  if (planet !== null) {
+    const body = findSelectableBody(planet);
+    if (body) {
+      state.planetName = body.name;
+    } else {
+      console.warn(`Ignoring unknown body "${planet}" in link`);
+    }
+  }
+
+  const speed = params.get(VIEW_STATE_PARAMS.speed);
+  if (speed !== null) {
+    const parsed = Number(speed);
+    if (speed.trim() !== "" && Number.isFinite(parsed) && parsed !== 0) {
+      state.speed = normalizeSimulationSpeed(parsed);
+    } else {
+      console.warn(`Ignoring invalid speed "${speed}" in link`);
+    }
+  }
+
+  const booleanFields = [
+    [VIEW_STATE_PARAMS.paused, "paused"],
+    [VIEW_STATE_PARAMS.labels, "showLabels"],
+    [VIEW_STATE_PARAMS.orbits, "showOrbits"],
+    [VIEW_STATE_PARAMS.belts, "showBelts"],
+  ] as const;
+  booleanFields.forEach(([param, field]) => {
+    const value = params.get(param);
+    if (value === null) return;
+    const decoded = decodeBoolean(value);
+    if (decoded === null) {
+      console.warn(`Ignoring invalid ${param} "${value}" in link`);
+    } else {
+      state[field] = decoded;
+    }
+  });
+
+  const camera = params.get(VIEW_STATE_PARAMS.camera);
+  const target = params.get(VIEW_STATE_PARAMS.target);
+  if (camera !== null || target !== null) {
+    const position = camera === null ? null : decodeVector(camera);
+    const center = target === null ? [0, 0, 0] : decodeVector(target);
+    if (
+      position &&
+      center &&
+      position.some((value, index) => value !== center[index])
+    ) {
+      state.camera = { position, target: [center[0], center[1], center[2]] };
+    } else {
+      console.warn("Ignoring invalid camera in link");
+    }
+  }
+
+  return state;
+}
@@ -0,0 +1,3 @@
+export * from "@/features/share-link/domain/view-state-codec";
+export * from "@/features/share-link/application/useShareableViewState";
+export * from "@/features/share-link/ui/copy-link-button";
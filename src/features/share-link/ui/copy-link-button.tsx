@@ -0,0 +1,60 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Check, Link } from "lucide-react";
+
+type CopyLinkButtonProps = {
+  /** Builds the link to copy at click time */
+  getUrl: () => string;
+};
+
+type CopyStatus = "idle" | "copied" | "failed";
+
+const STATUS_RESET_MS = 2000;
+
+const STATUS_LABELS: Record<CopyStatus, string> = {
+  idle: "Copy link to this view",
+  copied: "Link copied",
+  failed: "Could not copy link",
+};
+
+export function CopyLinkButton({ getUrl }: CopyLinkButtonProps) {
+  const [status, setStatus] = useState<CopyStatus>("idle");
+
+  useEffect(() => {
+    if (status === "idle") return;
+    const timeout = setTimeout(() => setStatus("idle"), STATUS_RESET_MS);
+    return () => clearTimeout(timeout);
+  }, [status]);
+
+  const handleClick = async () => {
+    try {
+      await navigator.clipboard.writeText(getUrl());
+      setStatus("copied");
+    } catch (error) {
+      console.error("Failed to copy link:", error);
+      setStatus("failed");
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      className="fixed top-4 right-16 z-buttons bg-black/80 text-white p-2 rounded-md hover:bg-black/90 transition-colors flex items-center gap-1"
+      aria-label={STATUS_LABELS[status]}
+      title={STATUS_LABELS[status]}
+    >
+      {status === "copied" ? (
+        <Check className="w-5 h-5" />
+      ) : (
+        <Link className="w-5 h-5" />
+      )}
+      {status !== "idle" && (
+        <span className="text-xs">
+          {status === "copied" ? "Copied" : "Copy failed"}
+        </span>
+      )}
+    </button>
+  );
+}
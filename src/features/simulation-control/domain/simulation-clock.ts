@@ -0,0 +1,147 @@
+/**
+ * Simulation clock
+ * One simulated timeline shared by Speed Mode and Date Mode. The clock stores
+ * the simulated time at an anchor moment plus a rate, so the simulated date
+ * at any real time is epoch + elapsed real time × rate, held within the
+ * years positions are accurate for.
+ */
+
+import {
+  MAX_ACCURATE_YEAR,
+  MIN_ACCURATE_YEAR,
+} from "@/utils/astronomy-calculations";
+
+export interface SimulationClock {
+  /** Simulated time at the anchor (ms since Unix epoch) */
+  epochMs: number;
+  /** Real time when the epoch was set (ms, performance.now() timeline) */
+  anchorMs: number;
+  /** Simulated seconds per real second (0 = paused) */
+  rate: number;
+}
+
+/** Earliest simulated time: the start of MIN_ACCURATE_YEAR (local time) */
+export const MIN_SIMULATED_TIME_MS = new Date(MIN_ACCURATE_YEAR, 0, 1).getTime();
+
+/** Latest simulated time: the end of MAX_ACCURATE_YEAR (local time) */
+export const MAX_SIMULATED_TIME_MS =
+  new Date(MAX_ACCURATE_YEAR + 1, 0, 1).getTime() - 1;
+
+/**
+ * Hold a simulated time within the accurate range
+ */
+export function clampSimulatedTimeMs(timeMs: number): number {
+  return Math.min(
+    MAX_SIMULATED_TIME_MS,
+    Math.max(MIN_SIMULATED_TIME_MS, timeMs),
+  );
+}
+
+/**
+ * Current real time on the clock's monotonic timeline
+ */
+export function getRealTimeMs(): number {
+  return performance.now();
+}
+
+/**
+ * Create a clock that shows a date now and advances at a rate
+ * @param date - Simulated date at the anchor
+ * @param rate - Simulated seconds per real second
+ * @param realTimeMs - Anchor on the real timeline
+ * @returns Simulation clock
+ */
+export function createSimulationClock(
+  date: Date,
+  rate: number,
+  realTimeMs: number = getRealTimeMs(),
+): SimulationClock {
+  return {
+    epochMs: clampSimulatedTimeMs(date.getTime()),
+    anchorMs: realTimeMs,
+    rate,
+  };
+}
+
+/**
+ * Simulated time for a moment on the real timeline; a running clock stops
+ * at the end of the accurate range
+ * @param clock - Simulation clock
+ * @param realTimeMs - Real time to read the clock at
+ * @returns Simulated time in ms since Unix epoch
+ */
+export function getSimulatedTimeMs(
+  clock: SimulationClock,
+  realTimeMs: number = getRealTimeMs(),
+): number {
+  return clampSimulatedTimeMs(
+    clock.epochMs + (realTimeMs - clock.anchorMs) * clock.rate,
+  );
+}
+
+/**
+ * Simulated date for a moment on the real timeline
+ * @param clock - Simulation clock
+ * @param realTimeMs - Real time to read the clock at
+ * @returns Simulated date
+ */
+export function getSimulatedDate(
+  clock: SimulationClock,
+  realTimeMs: number = getRealTimeMs(),
+): Date {
+  return new Date(getSimulatedTimeMs(clock, realTimeMs));
+}
+
+/**
+ * Change the clock rate without moving the simulated date
+ *
+ * The clock is re-anchored at realTimeMs, so bodies continue from where they
+ * are instead of jumping to where the new rate would have put them.
+ *
+ * @param clock - Simulation clock
+ * @param rate - New simulated seconds per real second
+ * @param realTimeMs - Real time of the change
+ * @returns Re-anchored clock, or the same clock when the rate is invalid
+ */
+export function setSimulationClockRate(
+  clock: SimulationClock,
+  rate: number,
+  realTimeMs: number = getRealTimeMs(),
+): SimulationClock {
+  if (!Number.isFinite(rate)) {
+    console.error(`Invalid simulation clock rate: ${rate}`);
+    return clock;
+  }
+  if (rate === clock.rate) {
+    return clock;
+  }
+  return {
+    epochMs: getSimulatedTimeMs(clock, realTimeMs),
+    anchorMs: realTimeMs,
+    rate,
+  };
+}
+
+/**
+ * Move the clock to a date, keeping its rate; dates outside the accurate
+ * range land on its nearest end
+ * @param clock - Simulation clock
+ * @param date - New simulated date
+ * @param realTimeMs - Real time of the change
+ * @returns Re-anchored clock, or the same clock when the date is invalid
+ */
+export function setSimulationClockDate(
+  clock: SimulationClock,
+  date: Date,
+  realTimeMs: number = getRealTimeMs(),
+): SimulationClock {
+  if (!(date instanceof Date) || isNaN(date.getTime())) {
+    console.error("Invalid date provided to setSimulationClockDate");
+    return clock;
+  }
+  return {
+    epochMs: clampSimulatedTimeMs(date.getTime()),
+    anchorMs: realTimeMs,
+    rate: clock.rate,
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * Time steps
+ * Moves the simulated date forward or back by a fixed interval.
+ */
+
+import type { TimeDirection } from "@/features/date-mode/domain/date-interpolation";
+import { SECONDS_PER_DAY } from "@/utils/physics-constants";
+import { validateDate } from "@/utils/astronomy-calculations";
+
+export type StepInterval = "hour" | "day" | "month" | "orbit";
+
+export const STEP_INTERVALS: readonly StepInterval[] = [
+  "hour",
+  "day",
+  "month",
+  "orbit",
+];
+
+export interface TimeStep {
+  /** Size of the step */
+  interval: StepInterval;
+  /** Orbital period of the chosen body in days (used by "orbit" steps) */
+  orbitalPeriodDays?: number;
+}
+
+const MS_PER_HOUR = 3_600_000;
+const MS_PER_DAY = SECONDS_PER_DAY * 1000;
+
+/**
+ * Step a date forward or back by one interval
+ *
+ * Months are calendar months (UTC): stepping from the 15th lands on the 15th,
+ * and from the 31st on the last day of a shorter month. Orbit steps use the
+ * chosen body's sidereal period, which brings it back to the same place on
+ * its orbit.
+ *
+ * @param date - Date to step from
+ * @param step - Interval to step by
+ * @param direction - Forward or backward in time
+ * @returns Stepped date, or the original date when the step is invalid
+ */
+export function stepSimulationDate(
+  date: Date,
+  step: TimeStep,
+  direction: TimeDirection,
+): Date {
+  const sign = direction === "forward" ? 1 : -1;
+
+  switch (step.interval) {
+    case "hour":
+      return new Date(date.getTime() + sign * MS_PER_HOUR);
+    case "day":
+      return new Date(date.getTime() + sign * MS_PER_DAY);
+    case "month": {
+      const stepped = new Date(date);
+      const dayOfMonth = stepped.getUTCDate();
+      stepped.setUTCMonth(stepped.getUTCMonth() + sign, 1);
+      // Day 0 of the following month is the last day of this one
+      const lastDay = new Date(stepped);
+      lastDay.setUTCMonth(lastDay.getUTCMonth() + 1, 0);
+      stepped.setUTCDate(Math.min(dayOfMonth, lastDay.getUTCDate()));
+      return stepped;
+    }
+    case "orbit": {
+      const period = step.orbitalPeriodDays;
+      if (period === undefined || !Number.isFinite(period) || period <= 0) {
+        console.error(`Invalid orbital period for time step: ${period}`);
+        return date;
+      }
+      return new Date(date.getTime() + sign * Math.round(period * MS_PER_DAY));
+    }
+    default:
+      console.error(`Invalid step interval: ${step.interval}`);
+      return date;
+  }
+}
+
+/**
+ * Whether a step lands within the years positions are accurate for
+ * (validateDate, 1700-2300); long orbit steps can overshoot them
+ * @param date - Date to step from
+ * @param step - Interval to step by
+ * @param direction - Forward or backward in time
+ * @returns True if the stepped date is valid
+ */
+export function canStepSimulationDate(
+  date: Date,
+  step: TimeStep,
+  direction: TimeDirection,
+): boolean {
+  const stepped = stepSimulationDate(date, step, direction);
+  return stepped !== date && validateDate(stepped).valid;
+}
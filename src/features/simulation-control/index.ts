@@ -1,4 +1,7 @@
+export * from "@/features/simulation-control/domain/simulation-clock";
+export * from "@/features/simulation-control/domain/time-step";
 export * from "@/features/simulation-control/state/simulation-mode-context";
 export * from "@/features/simulation-control/state/rotation-speed-context";
 export * from "@/features/simulation-control/ui/mode-toggle-button";
 export * from "@/features/simulation-control/ui/animation-speed-control";
+export * from "@/features/simulation-control/ui/simulated-date-display";
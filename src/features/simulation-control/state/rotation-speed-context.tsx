@@ -10,8 +10,15 @@ import {
 import type { ReactNode, Dispatch, SetStateAction } from "react";
 
 interface SimulationSpeedContextType {
+  /** Signed speed multiplier; negative runs time backwards */
   simulationSpeed: number;
   setSimulationSpeed: (speed: number) => void;
+  /** Whether the simulation is paused (the speed is kept for resuming) */
+  isPaused: boolean;
+  setPaused: (paused: boolean) => void;
+  togglePause: () => void;
+  /** Speed the simulation actually runs at: 0 while paused */
+  effectiveSpeed: number;
   rotationSpeedMinutes: number;
   setRotationSpeedMinutes: Dispatch<SetStateAction<number>>;
   /** Whether auto-rotation is enabled for planet modal 3D model */
@@ -23,27 +30,49 @@ const SimulationSpeedContext = createContext<
   SimulationSpeedContextType | undefined
 >(undefined);
 
-const MAX_SPEED = 10_000_000;
-const MIN_SPEED = 1;
+export const MAX_SPEED = 10_000_000;
+export const MIN_SPEED = 1;
+export const DEFAULT_SPEED = 1_000_000;
+
+/**
+ * Clamp a signed speed so its magnitude stays within MIN_SPEED..MAX_SPEED
+ * and round it to a whole multiplier (hundreds above 100). Zero is not a
+ * speed: pausing is a separate state, so 0 becomes MIN_SPEED.
+ * @param speed - Requested signed speed
+ * @returns Valid signed speed
+ */
+export function normalizeSimulationSpeed(speed: number): number {
+  const direction = speed < 0 ? -1 : 1;
+  let magnitude = Number.isFinite(speed) ? Math.abs(speed) : MIN_SPEED;
+  magnitude = Math.max(MIN_SPEED, Math.min(MAX_SPEED, magnitude));
+
+  if (magnitude > MIN_SPEED && magnitude < MAX_SPEED) {
+    magnitude =
+      magnitude >= 100
+        ? Math.round(magnitude / 100) * 100
+        : Math.round(magnitude);
+  }
+
+  return direction * magnitude;
+}
 
 export function SimulationSpeedProvider({ children }: { children: ReactNode }) {
   const [simulationSpeed, setSimulationSpeedState] =
-    useState<number>(1_000_000);
+    useState<number>(DEFAULT_SPEED);
   const [rotationSpeedMinutes, setRotationSpeedMinutes] = useState<number>(15);
   const [modalAutoRotate, setModalAutoRotateState] = useState<boolean>(true);
+  const [isPaused, setIsPaused] = useState<boolean>(false);
 
   const setSimulationSpeed = useCallback((speed: number) => {
-    let validSpeed = Number.isFinite(speed) ? speed : MIN_SPEED;
-    validSpeed = Math.max(MIN_SPEED, Math.min(MAX_SPEED, validSpeed));
+    setSimulationSpeedState(normalizeSimulationSpeed(speed));
+  }, []);
 
-    if (validSpeed > MIN_SPEED && validSpeed < MAX_SPEED) {
-      validSpeed =
-        validSpeed >= 100
-          ? Math.round(validSpeed / 100) * 100
-          : Math.round(validSpeed);
-    }
+  const setPaused = useCallback((paused: boolean) => {
+    setIsPaused(paused);
+  }, []);
 
-    setSimulationSpeedState(validSpeed);
+  const togglePause = useCallback(() => {
+    setIsPaused((current) => !current);
   }, []);
 
   const setModalAutoRotate = useCallback((enabled: boolean) => {
@@ -54,6 +83,10 @@ export function SimulationSpeedProvider({ children }: { children: ReactNode }) {
     () => ({
       simulationSpeed,
       setSimulationSpeed,
+      isPaused,
+      setPaused,
+      togglePause,
+      effectiveSpeed: isPaused ? 0 : simulationSpeed,
       rotationSpeedMinutes,
       setRotationSpeedMinutes,
       modalAutoRotate,
@@ -62,6 +95,9 @@ export function SimulationSpeedProvider({ children }: { children: ReactNode }) {
     [
       simulationSpeed,
       setSimulationSpeed,
+      isPaused,
+      setPaused,
+      togglePause,
       rotationSpeedMinutes,
       setRotationSpeedMinutes,
       modalAutoRotate,
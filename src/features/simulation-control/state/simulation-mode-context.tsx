@@ -6,13 +6,24 @@ import {
   useState,
   useMemo,
   useCallback,
+  useEffect,
 } from "react";
 import type { ReactNode } from "react";
+import {
+  createSimulationClock,
+  getSimulatedTimeMs,
+  setSimulationClockDate,
+  setSimulationClockRate,
+  type SimulationClock,
+} from "@/features/simulation-control/domain/simulation-clock";
 
 /**
  * Simulation mode types
  * - 'speed': Continuous animation with speed control
  * - 'date': Static positions based on selected date
+ *
+ * Both modes read the same simulation clock: Speed Mode runs it, Date Mode
+ * pauses it, so switching modes keeps the simulated date.
  */
 export type SimulationMode = "speed" | "date";
 
@@ -23,23 +34,72 @@ interface SimulationModeContextType {
   setMode: (mode: SimulationMode) => void;
   /** Toggle between speed and date modes */
   toggleMode: () => void;
-  /** Selected date for Date Mode */
+  /** Simulated date; refreshed every second while the clock runs */
   selectedDate: Date;
-  /** Set the selected date */
+  /** Set the selected date (moves the simulation clock to it) */
   setSelectedDate: (date: Date) => void;
+  /** Simulation clock every body derives its position from */
+  clock: SimulationClock;
   /** Whether currently in Date Mode */
   isDateMode: boolean;
   /** Whether currently in Speed Mode */
   isSpeedMode: boolean;
 }
 
+/** How often a running clock's date is published to selectedDate */
+const DATE_SYNC_INTERVAL_MS = 1000;
+
 const SimulationModeContext = createContext<
   SimulationModeContextType | undefined
 >(undefined);
 
-export function SimulationModeProvider({ children }: { children: ReactNode }) {
+interface SimulationModeProviderProps {
+  children: ReactNode;
+  /** Speed Mode clock rate in simulated seconds per real second */
+  rate?: number;
+}
+
+export function SimulationModeProvider({
+  children,
+  rate = 1,
+}: SimulationModeProviderProps) {
   const [mode, setModeState] = useState<SimulationMode>("speed");
-  const [selectedDate, setSelectedDateState] = useState<Date>(new Date());
+  const clockRate = mode === "speed" && Number.isFinite(rate) ? rate : 0;
+  const [clock, setClock] = useState<SimulationClock>(() =>
+    createSimulationClock(new Date(), clockRate)
+  );
+
+  // Re-anchor the clock when the mode or speed changes so the date carries over
+  if (clock.rate !== clockRate) {
+    setClock(setSimulationClockRate(clock, clockRate));
+  }
+
+  // Latest reading of the running clock; readings of older clocks are ignored
+  const [reading, setReading] = useState<{
+    clock: SimulationClock;
+    timeMs: number;
+  } | null>(null);
+
+  useEffect(() => {
+    if (clock.rate === 0) return;
+    const interval = setInterval(() => {
+      const timeMs = getSimulatedTimeMs(clock);
+      // Stays put once the clock stops at the end of the accurate range
+      setReading((previous) =>
+        previous?.clock === clock && previous.timeMs === timeMs
+          ? previous
+          : { clock, timeMs }
+      );
+    }, DATE_SYNC_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [clock]);
+
+  const selectedTimeMs =
+    reading?.clock === clock ? reading.timeMs : clock.epochMs;
+  const selectedDate = useMemo(
+    () => new Date(selectedTimeMs),
+    [selectedTimeMs],
+  );
 
   const setMode = useCallback((newMode: SimulationMode) => {
     if (newMode !== "speed" && newMode !== "date") {
@@ -47,18 +107,23 @@ export function SimulationModeProvider({ children }: { children: ReactNode }) {
       return;
     }
     setModeState(newMode);
+    // Stop the clock in the same update, so a date set right after the switch
+    // is not moved by the re-anchoring above
+    if (newMode === "date") {
+      setClock((current) => setSimulationClockRate(current, 0));
+    }
   }, []);
 
   const toggleMode = useCallback(() => {
-    setModeState((current) => (current === "speed" ? "date" : "speed"));
-  }, []);
+    setMode(mode === "speed" ? "date" : "speed");
+  }, [mode, setMode]);
 
   const setSelectedDate = useCallback((date: Date) => {
     if (!(date instanceof Date) || isNaN(date.getTime())) {
       console.error("Invalid date provided to setSelectedDate");
       return;
     }
-    setSelectedDateState(date);
+    setClock((current) => setSimulationClockDate(current, date));
   }, []);
 
   const contextValue = useMemo<SimulationModeContextType>(
@@ -68,10 +133,11 @@ export function SimulationModeProvider({ children }: { children: ReactNode }) {
       toggleMode,
       selectedDate,
       setSelectedDate,
+      clock,
       isDateMode: mode === "date",
       isSpeedMode: mode === "speed",
     }),
-    [mode, setMode, toggleMode, selectedDate, setSelectedDate]
+    [mode, setMode, toggleMode, selectedDate, setSelectedDate, clock]
   );
 
   return (
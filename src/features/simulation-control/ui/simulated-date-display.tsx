@@ -0,0 +1,64 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  getRealTimeMs,
+  getSimulatedDate,
+  type SimulationClock,
+} from "@/features/simulation-control/domain/simulation-clock";
+
+/**
+ * How often the running date is refreshed (ms)
+ */
+const REFRESH_INTERVAL_MS = 100;
+
+interface SimulatedDateDisplayProps {
+  /** Simulation clock to read the date from */
+  clock: SimulationClock;
+  /** Optional className for additional styling */
+  className?: string;
+}
+
+/**
+ * Format date to "Month Day, Year" format
+ */
+function formatDate(date: Date): string {
+  return date.toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+/**
+ * Shows the simulated date while Speed Mode animates
+ */
+export function SimulatedDateDisplay({
+  clock,
+  className = "",
+}: SimulatedDateDisplayProps) {
+  const [realTimeMs, setRealTimeMs] = useState(getRealTimeMs);
+
+  useEffect(() => {
+    if (clock.rate === 0) return;
+    const interval = setInterval(
+      () => setRealTimeMs(getRealTimeMs()),
+      REFRESH_INTERVAL_MS,
+    );
+    return () => clearInterval(interval);
+  }, [clock]);
+
+  // Never read the clock before its anchor, or a re-anchored clock would run backwards
+  const date = getSimulatedDate(clock, Math.max(realTimeMs, clock.anchorMs));
+
+  return (
+    <div
+      className={`px-3 py-2 rounded-md bg-black/80 text-white ${className}`}
+      aria-live="off"
+      data-testid="simulated-date"
+    >
+      <span className="text-xs text-gray-400 mr-2">Simulated date</span>
+      <span className="text-sm font-medium">{formatDate(date)}</span>
+    </div>
+  );
+}
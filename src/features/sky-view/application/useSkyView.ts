@@ -0,0 +1,54 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import {
+  DEFAULT_OBSERVER,
+  isValidObserver,
+  normalizeObserver,
+  type ObserverLocation,
+} from "@/features/sky-view/domain/sky-coordinates";
+
+/**
+ * Heliocentric orbit view, or the sky as seen from Earth's surface
+ */
+export type ViewMode = "space" | "sky";
+
+/**
+ * View mode and observer location for the sky view
+ * @param initialObserver - Location the sky view starts at
+ */
+export function useSkyView(
+  initialObserver: ObserverLocation = DEFAULT_OBSERVER,
+) {
+  const [viewMode, setViewMode] = useState<ViewMode>("space");
+  const [observer, setObserverState] =
+    useState<ObserverLocation>(initialObserver);
+
+  const toggleSkyView = useCallback(() => {
+    setViewMode((mode) => (mode === "sky" ? "space" : "sky"));
+  }, []);
+
+  const setObserver = useCallback((location: ObserverLocation) => {
+    if (
+      !Number.isFinite(location.latitude) ||
+      !Number.isFinite(location.longitude)
+    ) {
+      console.warn(
+        `Ignoring observer location ${location.latitude}, ${location.longitude}`,
+      );
+      return;
+    }
+    setObserverState(
+      isValidObserver(location) ? location : normalizeObserver(location),
+    );
+  }, []);
+
+  return {
+    viewMode,
+    isSkyView: viewMode === "sky",
+    observer,
+    setViewMode,
+    toggleSkyView,
+    setObserver,
+  };
+}
@@ -0,0 +1,226 @@
+/**
+ * Sky coordinates
+ * Where the Sun, Moon and planets stand in the sky for an observer on
+ * Earth's surface, using topocentric positions from Astronomy Engine.
+ *
+ * The sky scene is centred on the observer with y up, north along -z and
+ * east along +x, so azimuth runs clockwise seen from above.
+ */
+
+import * as AE from "astronomy-engine";
+import { PLANET_BODY_MAP } from "@/utils/astronomy-calculations";
+import type { Position3D } from "@/features/planet-rendering/domain/orbital-inclination";
+
+export interface ObserverLocation {
+  /** Geographic latitude in degrees, north positive */
+  latitude: number;
+  /** Geographic longitude in degrees, east positive */
+  longitude: number;
+}
+
+export interface HorizontalPosition {
+  /** Degrees above the horizon, with atmospheric refraction */
+  altitude: number;
+  /** Degrees clockwise from north */
+  azimuth: number;
+}
+
+export interface RiseSetTimes {
+  /** Rise during the observer's day, or null if the body does not rise */
+  rise: Date | null;
+  /** Set during the observer's day, or null if the body does not set */
+  set: Date | null;
+}
+
+/**
+ * Royal Observatory, Greenwich
+ */
+export const DEFAULT_OBSERVER: ObserverLocation = {
+  latitude: 51.4769,
+  longitude: -0.0005,
+};
+
+/**
+ * Radius of the celestial sphere the bodies are drawn on (scene units)
+ */
+export const SKY_RADIUS = 5000;
+
+/**
+ * Sun, Moon and the planets other than Earth, keyed by name
+ */
+const SKY_BODY_MAP: Record<string, AE.Body> = {
+  Sun: AE.Body.Sun,
+  Moon: AE.Body.Moon,
+  ...Object.fromEntries(
+    Object.entries(PLANET_BODY_MAP).filter(([name]) => name !== "Earth"),
+  ),
+};
+
+/**
+ * Bodies shown in the sky view, brightest first
+ */
+export const SKY_BODY_NAMES = Object.keys(SKY_BODY_MAP);
+
+/**
+ * Compass points drawn on the horizon
+ */
+export const CARDINAL_DIRECTIONS = [
+  { label: "N", azimuth: 0 },
+  { label: "NE", azimuth: 45 },
+  { label: "E", azimuth: 90 },
+  { label: "SE", azimuth: 135 },
+  { label: "S", azimuth: 180 },
+  { label: "SW", azimuth: 225 },
+  { label: "W", azimuth: 270 },
+  { label: "NW", azimuth: 315 },
+] as const;
+
+const MS_PER_HOUR = 3_600_000;
+const MS_PER_DAY = 86_400_000;
+
+/**
+ * Whether a location is on Earth's surface
+ */
+export function isValidObserver(observer: ObserverLocation): boolean {
+  return (
+    Number.isFinite(observer.latitude) &&
+    Number.isFinite(observer.longitude) &&
+    Math.abs(observer.latitude) <= 90 &&
+    Math.abs(observer.longitude) <= 180
+  );
+}
+
+/**
+ * Bring a location into range: latitude clamped to ±90°, longitude wrapped
+ * to -180°..180°
+ */
+export function normalizeObserver(
+  observer: ObserverLocation,
+): ObserverLocation {
+  const latitude = Math.min(Math.max(observer.latitude, -90), 90);
+  const longitude = ((((observer.longitude + 180) % 360) + 360) % 360) - 180;
+  return { latitude, longitude };
+}
+
+function toAstronomyObserver(observer: ObserverLocation): AE.Observer {
+  return new AE.Observer(observer.latitude, observer.longitude, 0);
+}
+
+/**
+ * Altitude and azimuth of a body for an observer
+ * @param bodyName - One of SKY_BODY_NAMES
+ * @param date - Moment of observation
+ * @param observer - Location on Earth
+ * @returns Horizontal position, or null for an unknown body or location
+ */
+export function getHorizontalPosition(
+  bodyName: string,
+  date: Date,
+  observer: ObserverLocation,
+): HorizontalPosition | null {
+  const body = SKY_BODY_MAP[bodyName];
+  if (!body) {
+    console.error(`No sky position for body: ${bodyName}`);
+    return null;
+  }
+  if (!isValidObserver(observer)) {
+    console.error(
+      `Invalid observer location: ${observer.latitude}, ${observer.longitude}`,
+    );
+    return null;
+  }
+
+  const time = AE.MakeTime(date);
+  const location = toAstronomyObserver(observer);
+  const equatorial = AE.Equator(body, time, location, true, true);
+  const horizontal = AE.Horizon(
+    time,
+    location,
+    equatorial.ra,
+    equatorial.dec,
+    "normal",
+  );
+  return { altitude: horizontal.altitude, azimuth: horizontal.azimuth };
+}
+
+/**
+ * Scene position of a direction in the sky
+ * @param position - Altitude and azimuth in degrees
+ * @param radius - Distance from the observer
+ * @returns Point in sky scene axes
+ */
+export function horizontalToScene(
+  position: HorizontalPosition,
+  radius: number = SKY_RADIUS,
+): Position3D {
+  const altitude = (position.altitude * Math.PI) / 180;
+  const azimuth = (position.azimuth * Math.PI) / 180;
+  return {
+    x: radius * Math.cos(altitude) * Math.sin(azimuth),
+    y: radius * Math.sin(altitude),
+    z: -radius * Math.cos(altitude) * Math.cos(azimuth),
+  };
+}
+
+/**
+ * Start of the observer's day in local mean solar time, so rise and set
+ * times belong to the night or day the observer would call "today"
+ */
+export function getLocalDayStart(date: Date, observer: ObserverLocation): Date {
+  const offsetMs = (observer.longitude / 15) * MS_PER_HOUR;
+  const localMs = date.getTime() + offsetMs;
+  return new Date(Math.floor(localMs / MS_PER_DAY) * MS_PER_DAY - offsetMs);
+}
+
+/**
+ * Rise and set times of a body during the observer's day
+ * @param bodyName - One of SKY_BODY_NAMES
+ * @param date - Any moment in the day
+ * @param observer - Location on Earth
+ * @returns Rise and set, each null when it does not happen that day
+ */
+export function getRiseSetTimes(
+  bodyName: string,
+  date: Date,
+  observer: ObserverLocation,
+): RiseSetTimes {
+  const body = SKY_BODY_MAP[bodyName];
+  if (!body || !isValidObserver(observer)) {
+    console.error(`No rise and set times for ${bodyName}`);
+    return { rise: null, set: null };
+  }
+
+  const dayStart = AE.MakeTime(getLocalDayStart(date, observer));
+  const location = toAstronomyObserver(observer);
+  try {
+    const rise = AE.SearchRiseSet(body, location, +1, dayStart, 1);
+    const set = AE.SearchRiseSet(body, location, -1, dayStart, 1);
+    return { rise: rise?.date ?? null, set: set?.date ?? null };
+  } catch (error) {
+    console.error(`Rise and set search failed for ${bodyName}:`, error);
+    return { rise: null, set: null };
+  }
+}
+
+/**
+ * Orientation of the heliocentric scene's fixed sky as seen by an observer,
+ * so anything placed in J2000 ecliptic scene axes (such as the star
+ * catalogue) can be turned onto the observer's sky
+ * @param date - Moment of observation
+ * @param observer - Location on Earth
+ * @returns Sky scene directions of the heliocentric scene's x, y and z axes
+ */
+export function getSkyBasis(
+  date: Date,
+  observer: ObserverLocation,
+): [Position3D, Position3D, Position3D] {
+  const time = AE.MakeTime(date);
+  const rotation = AE.Rotation_ECL_HOR(time, toAstronomyObserver(observer));
+  // Heliocentric scene axes are ecliptic (x, -z, y); sky scene axes are
+  // horizontal (-west, zenith, -north)
+  const toSky = (x: number, y: number, z: number): Position3D => {
+    const hor = AE.RotateVector(rotation, new AE.Vector(x, z, -y, time));
+    return { x: -hor.y, y: hor.z, z: -hor.x };
+  };
+  return [toSky(1, 0, 0), toSky(0, 1, 0), toSky(0, 0, 1)];
+}
@@ -0,0 +1,3 @@
+export * from "@/features/sky-view/domain/sky-coordinates";
+export * from "@/features/sky-view/application/useSkyView";
+export * from "@/features/sky-view/ui/index";
@@ -0,0 +1,2 @@
+export * from "@/features/sky-view/ui/sky-scene";
+export * from "@/features/sky-view/ui/sky-view-panel";
@@ -0,0 +1,325 @@
+"use client";
+
+import { useMemo, useRef, useState, type RefObject } from "react";
+import { useFrame, ThreeEvent } from "@react-three/fiber";
+import {
+  Html,
+  Line,
+  OrbitControls,
+  PerspectiveCamera,
+  Sphere,
+} from "@react-three/drei";
+import {
+  BackSide,
+  Vector3,
+  type Group,
+  type Mesh,
+  type Object3D,
+} from "three";
+import { PlanetData } from "@/data/planet-types";
+import { planetData, sunData } from "@/data/planet-data";
+import { MOON_DATA } from "@/features/moons/data/moon-data";
+import { usePlanetMaterial } from "@/features/planet-rendering/application/usePlanetMaterial";
+import { StarField } from "@/features/star-catalog/ui/star-field";
+import {
+  getSimulatedTimeMs,
+  type SimulationClock,
+} from "@/features/simulation-control/domain/simulation-clock";
+import {
+  CARDINAL_DIRECTIONS,
+  SKY_BODY_NAMES,
+  SKY_RADIUS,
+  getHorizontalPosition,
+  getSkyBasis,
+  horizontalToScene,
+  type ObserverLocation,
+} from "@/features/sky-view/domain/sky-coordinates";
+
+/**
+ * Simulated time between position updates (ms); the sky turns a quarter of
+ * a degree in a minute
+ */
+const SKY_UPDATE_INTERVAL_MS = 60_000;
+
+// The Sun and Moon are drawn at their apparent size; planets are points of
+// light that would vanish at theirs, so they get a fixed marker size
+const SUN_MOON_ANGULAR_DIAMETER_DEG = 0.53;
+const PLANET_MARKER_ANGULAR_DIAMETER_DEG = 0.4;
+
+// The ground sits beyond the sphere the bodies are drawn on and the stars
+// beyond the ground, so the ground hides the stars below the horizon
+const GROUND_RADIUS = SKY_RADIUS * 1.8;
+const STARS_RADIUS = SKY_RADIUS * 1.9;
+
+// Distance of the camera from the observer point; the controls turn the
+// camera around it, which looks around the sky
+const EYE_OFFSET = 0.01;
+
+const SKY_BODIES: PlanetData[] = SKY_BODY_NAMES.flatMap((name) => {
+  const body = [sunData, ...planetData, ...MOON_DATA].find(
+    (candidate) => candidate.name === name,
+  );
+  return body ? [body] : [];
+});
+
+function getMarkerRadius(body: PlanetData): number {
+  const diameter =
+    body.name === "Sun" || body.name === "Moon"
+      ? SUN_MOON_ANGULAR_DIAMETER_DEG
+      : PLANET_MARKER_ANGULAR_DIAMETER_DEG;
+  return SKY_RADIUS * Math.tan(((diameter / 2) * Math.PI) / 180);
+}
+
+interface SkyBodyProps {
+  body: PlanetData;
+  clock: SimulationClock;
+  observer: ObserverLocation;
+  onClick?: (body: PlanetData) => void;
+}
+
+function SkyBody({ body, clock, observer, onClick }: SkyBodyProps) {
+  const groupRef = useRef<Group | null>(null);
+  const lastUpdateRef = useRef<{
+    timeMs: number;
+    clock: SimulationClock;
+    observer: ObserverLocation;
+  } | null>(null);
+  const [isUp, setIsUp] = useState(false);
+  const material = usePlanetMaterial(body);
+  const radius = getMarkerRadius(body);
+
+  useFrame(() => {
+    const group = groupRef.current;
+    if (!group) return;
+
+    const timeMs = getSimulatedTimeMs(clock);
+    const last = lastUpdateRef.current;
+    if (
+      last &&
+      last.clock === clock &&
+      last.observer === observer &&
+      Math.abs(timeMs - last.timeMs) < SKY_UPDATE_INTERVAL_MS
+    ) {
+      return;
+    }
+    lastUpdateRef.current = { timeMs, clock, observer };
+
+    const position = getHorizontalPosition(
+      body.name,
+      new Date(timeMs),
+      observer,
+    );
+    if (!position) return;
+    const point = horizontalToScene(position);
+    group.position.set(point.x, point.y, point.z);
+
+    // Hidden once its upper edge drops below the horizon
+    const up =
+      position.altitude > -((radius / SKY_RADIUS) * 180) / Math.PI;
+    group.visible = up;
+    if (up !== isUp) setIsUp(up);
+  });
+
+  const handleClick = (e: ThreeEvent<MouseEvent>) => {
+    e.stopPropagation();
+    onClick?.(body);
+  };
+
+  return (
+    <group ref={groupRef} name={body.name} visible={false}>
+      <Sphere args={[radius, 32, 32]} onClick={handleClick}>
+        <primitive object={material} attach="material" />
+      </Sphere>
+      {isUp && (
+        <Html position={[0, radius * 2.5, 0]} center zIndexRange={[10, 0]}>
+          <div className="bg-black/70 text-white px-2 py-0.5 rounded text-xs whitespace-nowrap pointer-events-none">
+            {body.name}
+          </div>
+        </Html>
+      )}
+    </group>
+  );
+}
+
+interface SkyStarsProps {
+  clock: SimulationClock;
+  observer: ObserverLocation;
+  showConstellations: boolean;
+  /** Objects that hide constellation names behind them */
+  labelOccluders: RefObject<Object3D | null>[];
+}
+
+/**
+ * Catalogue stars turned from the ecliptic frame onto the observer's sky
+ */
+function SkyStars({
+  clock,
+  observer,
+  showConstellations,
+  labelOccluders,
+}: SkyStarsProps) {
+  const groupRef = useRef<Group | null>(null);
+  const lastUpdateRef = useRef<{
+    timeMs: number;
+    clock: SimulationClock;
+    observer: ObserverLocation;
+  } | null>(null);
+
+  useFrame(() => {
+    const group = groupRef.current;
+    if (!group) return;
+
+    const timeMs = getSimulatedTimeMs(clock);
+    const last = lastUpdateRef.current;
+    if (
+      last &&
+      last.clock === clock &&
+      last.observer === observer &&
+      Math.abs(timeMs - last.timeMs) < SKY_UPDATE_INTERVAL_MS
+    ) {
+      return;
+    }
+    lastUpdateRef.current = { timeMs, clock, observer };
+
+    const [xAxis, yAxis, zAxis] = getSkyBasis(new Date(timeMs), observer);
+    group.matrix.makeBasis(
+      new Vector3(xAxis.x, xAxis.y, xAxis.z),
+      new Vector3(yAxis.x, yAxis.y, yAxis.z),
+      new Vector3(zAxis.x, zAxis.y, zAxis.z),
+    );
+    group.matrixWorldNeedsUpdate = true;
+  });
+
+  return (
+    <group ref={groupRef} matrixAutoUpdate={false}>
+      <StarField
+        radius={STARS_RADIUS}
+        showConstellations={showConstellations}
+        labelOccluders={labelOccluders}
+      />
+    </group>
+  );
+}
+
+function Horizon({ groundRef }: { groundRef: RefObject<Mesh | null> }) {
+  const horizonPoints = useMemo(
+    () =>
+      Array.from({ length: 129 }, (_, index) => {
+        const point = horizontalToScene({
+          altitude: 0,
+          azimuth: (index / 128) * 360,
+        });
+        return new Vector3(point.x, point.y, point.z);
+      }),
+    [],
+  );
+
+  return (
+    <>
+      {/* Lower half of a sphere around the observer */}
+      <Sphere
+        ref={groundRef}
+        args={[GROUND_RADIUS, 64, 32, 0, Math.PI * 2, Math.PI / 2, Math.PI / 2]}
+      >
+        <meshBasicMaterial color="#0b1a10" side={BackSide} />
+      </Sphere>
+      <Line
+        points={horizonPoints}
+        color="#4ade80"
+        lineWidth={1}
+        transparent
+        opacity={0.6}
+      />
+      {CARDINAL_DIRECTIONS.map(({ label, azimuth }) => {
+        const point = horizontalToScene({ altitude: 1, azimuth });
+        return (
+          <Html
+            key={label}
+            position={[point.x, point.y, point.z]}
+            center
+            zIndexRange={[10, 0]}
+          >
+            <div
+              className={`text-green-300 font-semibold pointer-events-none ${
+                label.length === 1 ? "text-base" : "text-xs opacity-70"
+              }`}
+            >
+              {label}
+            </div>
+          </Html>
+        );
+      })}
+    </>
+  );
+}
+
+interface SkySceneProps {
+  /** Simulation clock the sky is drawn for */
+  clock: SimulationClock;
+  /** Where on Earth the sky is seen from */
+  observer: ObserverLocation;
+  /** Draw constellation figures and names */
+  showConstellations?: boolean;
+  /** Called when the Sun, Moon or a planet is clicked */
+  onBodyClick?: (body: PlanetData) => void;
+}
+
+/**
+ * The sky from a point on Earth's surface: the Sun, Moon and planets at their
+ * altitude and azimuth above a horizon, with the camera turning in place
+ */
+export function SkyScene({
+  clock,
+  observer,
+  showConstellations = false,
+  onBodyClick,
+}: SkySceneProps) {
+  const groundRef = useRef<Mesh | null>(null);
+
+  // Start facing the equator, where the Sun and planets cross the sky
+  const cameraPosition = useMemo(() => {
+    const facing = horizontalToScene(
+      { altitude: 20, azimuth: observer.latitude >= 0 ? 180 : 0 },
+      EYE_OFFSET,
+    );
+    return [-facing.x, -facing.y, -facing.z] as const;
+  }, [observer.latitude]);
+
+  return (
+    <>
+      <PerspectiveCamera
+        makeDefault
+        position={cameraPosition}
+        fov={70}
+        near={0.001}
+        far={GROUND_RADIUS * 2}
+      />
+      <ambientLight intensity={2} />
+      <SkyStars
+        clock={clock}
+        observer={observer}
+        showConstellations={showConstellations}
+        labelOccluders={[groundRef]}
+      />
+      <Horizon groundRef={groundRef} />
+      {SKY_BODIES.map((body) => (
+        <SkyBody
+          key={body.name}
+          body={body}
+          clock={clock}
+          observer={observer}
+          onClick={onBodyClick}
+        />
+      ))}
+      <OrbitControls
+        makeDefault
+        target={[0, 0, 0]}
+        enableZoom={false}
+        enablePan={false}
+        rotateSpeed={-0.4}
+        enableDamping
+        dampingFactor={0.05}
+      />
+    </>
+  );
+}
@@ -0,0 +1,207 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { MapPin } from "lucide-react";
+import {
+  getRealTimeMs,
+  getSimulatedDate,
+  type SimulationClock,
+} from "@/features/simulation-control/domain/simulation-clock";
+import {
+  SKY_BODY_NAMES,
+  getHorizontalPosition,
+  getLocalDayStart,
+  getRiseSetTimes,
+  type ObserverLocation,
+  type RiseSetTimes,
+} from "@/features/sky-view/domain/sky-coordinates";
+
+/**
+ * How often altitudes are refreshed while the clock runs (ms)
+ */
+const REFRESH_INTERVAL_MS = 1000;
+
+const MS_PER_MINUTE = 60_000;
+
+/**
+ * Time of day in UTC to the nearest minute, or a dash when the event does
+ * not happen
+ */
+function formatTime(date: Date | null): string {
+  if (!date) return "—";
+  const rounded = Math.round(date.getTime() / MS_PER_MINUTE) * MS_PER_MINUTE;
+  return new Date(rounded).toISOString().slice(11, 16);
+}
+
+interface CoordinateInputProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+}
+
+/**
+ * Degrees of latitude or longitude, applied on Enter or blur
+ */
+function CoordinateInput({
+  label,
+  value,
+  min,
+  max,
+  onChange,
+}: CoordinateInputProps) {
+  const [draft, setDraft] = useState(String(value));
+
+  useEffect(() => {
+    setDraft(String(value));
+  }, [value]);
+
+  const commit = () => {
+    const degrees = Number.parseFloat(draft);
+    if (Number.isNaN(degrees)) {
+      setDraft(String(value));
+      return;
+    }
+    const clamped = Math.min(Math.max(degrees, min), max);
+    setDraft(String(clamped));
+    if (clamped !== value) onChange(clamped);
+  };
+
+  return (
+    <label className="flex flex-col gap-1 text-xs text-gray-400">
+      <span>{label}</span>
+      <input
+        type="number"
+        step="0.1"
+        value={draft}
+        min={min}
+        max={max}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") commit();
+        }}
+        className="w-24 px-2 py-1 rounded bg-gray-800 text-white border border-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        aria-label={`${label} (degrees)`}
+      />
+    </label>
+  );
+}
+
+/**
+ * Rise and set of each body for the observer's day starting at dayStartMs
+ */
+function useRiseSetTimes(
+  dayStartMs: number,
+  observer: ObserverLocation,
+): RiseSetTimes[] {
+  return useMemo(
+    () =>
+      SKY_BODY_NAMES.map((name) =>
+        getRiseSetTimes(name, new Date(dayStartMs), observer),
+      ),
+    [dayStartMs, observer],
+  );
+}
+
+interface SkyViewPanelProps {
+  /** Simulation clock the sky is drawn for */
+  clock: SimulationClock;
+  /** Where on Earth the sky is seen from */
+  observer: ObserverLocation;
+  /** Called with a new location */
+  onObserverChange: (observer: ObserverLocation) => void;
+}
+
+/**
+ * Observer location and the altitude, rise and set of each body
+ */
+export function SkyViewPanel({
+  clock,
+  observer,
+  onObserverChange,
+}: SkyViewPanelProps) {
+  const [realTimeMs, setRealTimeMs] = useState(getRealTimeMs);
+
+  useEffect(() => {
+    if (clock.rate === 0) return;
+    const interval = setInterval(
+      () => setRealTimeMs(getRealTimeMs()),
+      REFRESH_INTERVAL_MS,
+    );
+    return () => clearInterval(interval);
+  }, [clock]);
+
+  const date = getSimulatedDate(clock, Math.max(realTimeMs, clock.anchorMs));
+  // Rise and set only change from one day to the next
+  const dayStartMs = getLocalDayStart(date, observer).getTime();
+
+  const riseSet = useRiseSetTimes(dayStartMs, observer);
+
+  return (
+    <div className="w-72 p-3 rounded-md bg-black/80 text-white text-sm">
+      <div className="flex items-center gap-2 mb-2 font-medium">
+        <MapPin className="w-4 h-4 text-green-400" />
+        <span>Sky from Earth</span>
+      </div>
+      <div className="flex gap-3 mb-3">
+        <CoordinateInput
+          label="Latitude"
+          value={observer.latitude}
+          min={-90}
+          max={90}
+          onChange={(latitude) => onObserverChange({ ...observer, latitude })}
+        />
+        <CoordinateInput
+          label="Longitude"
+          value={observer.longitude}
+          min={-180}
+          max={180}
+          onChange={(longitude) =>
+            onObserverChange({ ...observer, longitude })
+          }
+        />
+      </div>
+      <table className="w-full text-xs" aria-label="Rise and set times">
+        <thead>
+          <tr className="text-gray-400">
+            <th className="text-left font-normal">Body</th>
+            <th className="text-right font-normal">Alt</th>
+            <th className="text-right font-normal">Rise</th>
+            <th className="text-right font-normal">Set</th>
+          </tr>
+        </thead>
+        <tbody>
+          {SKY_BODY_NAMES.map((name, index) => {
+            const altitude = getHorizontalPosition(
+              name,
+              date,
+              observer,
+            )?.altitude;
+            return (
+              <tr
+                key={name}
+                className={
+                  altitude !== undefined && altitude < 0 ? "text-gray-500" : ""
+                }
+              >
+                <td>{name}</td>
+                <td className="text-right">
+                  {altitude === undefined ? "—" : `${altitude.toFixed(0)}°`}
+                </td>
+                <td className="text-right">
+                  {formatTime(riseSet[index].rise)}
+                </td>
+                <td className="text-right">{formatTime(riseSet[index].set)}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <p className="mt-2 text-[10px] text-gray-500">
+        Times in UTC for the observer&apos;s local day
+      </p>
+    </div>
+  );
+}
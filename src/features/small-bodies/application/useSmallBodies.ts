@@ -0,0 +1,101 @@
+"use client";
+
+import { useCallback, useMemo, useState } from "react";
+import type { SmallBody } from "@/features/small-bodies/data/small-body-types";
+import { SMALL_BODIES } from "@/features/small-bodies/data/small-bodies";
+import {
+  parseSmallBodyElements,
+  type ElementImportResult,
+} from "@/features/small-bodies/domain/element-import";
+
+/**
+ * Imported bodies drawn at most; each has its own orbit line and marker, so
+ * a whole MPCORB file would bring the scene to a halt
+ */
+export const MAX_IMPORTED_BODIES = 200;
+
+/**
+ * Outcome of the last import, shown next to the import button
+ */
+export interface ImportSummary {
+  fileName: string;
+  imported: number;
+  errors: string[];
+}
+
+/**
+ * Bodies with later ones replacing earlier ones of the same id, so a fresh
+ * import updates a bundled or previously imported orbit
+ */
+function mergeBodies(...lists: SmallBody[][]): SmallBody[] {
+  const byId = new Map<string, SmallBody>();
+  lists.flat().forEach((body) => byId.set(body.id, body));
+  return [...byId.values()];
+}
+
+/**
+ * The bundled comets and asteroids plus any imported from element files
+ */
+export function useSmallBodies() {
+  const [imported, setImported] = useState<SmallBody[]>([]);
+  const [lastImport, setLastImport] = useState<ImportSummary | null>(null);
+
+  const bodies = useMemo(
+    () => mergeBodies(SMALL_BODIES, imported),
+    [imported],
+  );
+
+  const addImported = useCallback(
+    (fileName: string, result: ElementImportResult) => {
+      if (result.errors.length > 0) {
+        console.warn(
+          `Skipped ${result.errors.length} lines of ${fileName}:`,
+          result.errors,
+        );
+      }
+      const kept = result.bodies.slice(0, MAX_IMPORTED_BODIES);
+      const errors =
+        kept.length < result.bodies.length
+          ? [
+              ...result.errors,
+              `Only the first ${MAX_IMPORTED_BODIES} of ${result.bodies.length} bodies were imported`,
+            ]
+          : result.errors;
+      setImported((current) =>
+        mergeBodies(current, kept).slice(-MAX_IMPORTED_BODIES),
+      );
+      setLastImport({ fileName, imported: kept.length, errors });
+    },
+    [],
+  );
+
+  // Files are read locally; nothing is uploaded
+  const importFile = useCallback(
+    async (file: File) => {
+      try {
+        addImported(file.name, parseSmallBodyElements(await file.text()));
+      } catch (error) {
+        console.error(`Failed to read ${file.name}:`, error);
+        setLastImport({
+          fileName: file.name,
+          imported: 0,
+          errors: ["The file could not be read"],
+        });
+      }
+    },
+    [addImported],
+  );
+
+  const clearImported = useCallback(() => {
+    setImported([]);
+    setLastImport(null);
+  }, []);
+
+  return {
+    bodies,
+    importedCount: imported.length,
+    lastImport,
+    importFile,
+    clearImported,
+  };
+}
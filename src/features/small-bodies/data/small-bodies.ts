@@ -0,0 +1,109 @@
+import type {
+  SmallBody,
+  SmallBodyKind,
+} from "@/features/small-bodies/data/small-body-types";
+
+/**
+ * Colour of each kind's orbits and markers
+ */
+export const SMALL_BODY_COLORS: Record<SmallBodyKind, string> = {
+  comet: "#93c5fd",
+  asteroid: "#d6b48a",
+};
+
+/**
+ * Bundled comets and near-Earth asteroids
+ *
+ * Rounded osculating elements from the JPL Small-Body Database. Two-body
+ * orbits drift away from the real ones over a few revolutions, so each
+ * perihelion time is from the apparition the body is best known for: Halley
+ * in 1986, Encke in 2023, and for the asteroids the perihelion nearest their
+ * famous Earth flybys (Eros 2012, Didymos at the DART impact in 2022,
+ * Apophis on 13 April 2029).
+ */
+export const SMALL_BODIES: SmallBody[] = [
+  {
+    id: "1P",
+    name: "1P/Halley",
+    kind: "comet",
+    source: "bundled",
+    elements: {
+      eccentricity: 0.96714,
+      perihelionDistanceAU: 0.58598,
+      inclinationDeg: 162.2627,
+      longitudeOfAscendingNodeDeg: 58.4201,
+      argumentOfPeriapsisDeg: 111.3325,
+      perihelionTime: new Date("1986-02-09T11:00:00Z"),
+    },
+  },
+  {
+    id: "2P",
+    name: "2P/Encke",
+    kind: "comet",
+    source: "bundled",
+    elements: {
+      eccentricity: 0.8471,
+      perihelionDistanceAU: 0.3393,
+      inclinationDeg: 11.35,
+      longitudeOfAscendingNodeDeg: 334.19,
+      argumentOfPeriapsisDeg: 187.27,
+      perihelionTime: new Date("2023-10-22T12:00:00Z"),
+    },
+  },
+  {
+    id: "433",
+    name: "433 Eros",
+    kind: "asteroid",
+    source: "bundled",
+    elements: {
+      eccentricity: 0.2228,
+      perihelionDistanceAU: 1.1332,
+      inclinationDeg: 10.828,
+      longitudeOfAscendingNodeDeg: 304.29,
+      argumentOfPeriapsisDeg: 178.93,
+      perihelionTime: new Date("2012-01-23T11:00:00Z"),
+    },
+  },
+  {
+    id: "65803",
+    name: "65803 Didymos",
+    kind: "asteroid",
+    source: "bundled",
+    elements: {
+      eccentricity: 0.3839,
+      perihelionDistanceAU: 1.012,
+      inclinationDeg: 3.408,
+      longitudeOfAscendingNodeDeg: 73.2,
+      argumentOfPeriapsisDeg: 319.32,
+      perihelionTime: new Date("2020-09-14T12:00:00Z"),
+    },
+  },
+  {
+    id: "99942",
+    name: "99942 Apophis",
+    kind: "asteroid",
+    source: "bundled",
+    elements: {
+      eccentricity: 0.1911,
+      perihelionDistanceAU: 0.7461,
+      inclinationDeg: 3.339,
+      longitudeOfAscendingNodeDeg: 203.96,
+      argumentOfPeriapsisDeg: 126.6,
+      perihelionTime: new Date("2028-08-30T01:00:00Z"),
+    },
+  },
+  {
+    id: "101955",
+    name: "101955 Bennu",
+    kind: "asteroid",
+    source: "bundled",
+    elements: {
+      eccentricity: 0.2037,
+      perihelionDistanceAU: 0.8969,
+      inclinationDeg: 6.035,
+      longitudeOfAscendingNodeDeg: 2.061,
+      argumentOfPeriapsisDeg: 66.223,
+      perihelionTime: new Date("2010-08-30T15:00:00Z"),
+    },
+  },
+];
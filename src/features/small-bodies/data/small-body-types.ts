@@ -0,0 +1,36 @@
+export type SmallBodyKind = "comet" | "asteroid";
+
+/**
+ * Where a small body's elements came from
+ */
+export type SmallBodySource = "bundled" | "mpc" | "sbdb";
+
+/**
+ * Osculating elements in the cometary form used by the MPC and JPL, referred
+ * to the J2000 ecliptic. Unlike OrbitalElements they describe parabolic and
+ * hyperbolic orbits too.
+ */
+export interface CometaryElements {
+  /** Orbital eccentricity (1 = parabola, above 1 = hyperbola) */
+  eccentricity: number;
+  /** Perihelion distance (q) in AU */
+  perihelionDistanceAU: number;
+  /** Inclination to the ecliptic in degrees */
+  inclinationDeg: number;
+  /** Longitude of the ascending node (Ω) in degrees */
+  longitudeOfAscendingNodeDeg: number;
+  /** Argument of perihelion (ω) in degrees */
+  argumentOfPeriapsisDeg: number;
+  /** Time of perihelion passage (Tp) */
+  perihelionTime: Date;
+}
+
+export interface SmallBody {
+  /** Stable identifier (e.g. "1P" or "433") */
+  id: string;
+  /** Display name (e.g. "1P/Halley" or "433 Eros") */
+  name: string;
+  kind: SmallBodyKind;
+  elements: CometaryElements;
+  source: SmallBodySource;
+}
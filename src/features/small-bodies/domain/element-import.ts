@@ -0,0 +1,345 @@
+/**
+ * Orbital element import
+ * Reads small-body elements exported by the Minor Planet Center (one-line
+ * comet elements as in CometEls.txt, and MPCORB asteroid lines) and by the
+ * JPL Small-Body Database (CSV with a header row).
+ */
+
+import type {
+  CometaryElements,
+  SmallBody,
+  SmallBodyKind,
+} from "@/features/small-bodies/data/small-body-types";
+import { GAUSSIAN_GRAVITATIONAL_CONSTANT } from "@/utils/orbital-elements";
+
+const MS_PER_DAY = 86_400_000;
+const UNIX_EPOCH_JD = 2440587.5;
+
+export type ElementFormat = "mpc" | "sbdb";
+
+export interface ElementImportResult {
+  format: ElementFormat;
+  bodies: SmallBody[];
+  /** Lines that could not be read, with their line numbers */
+  errors: string[];
+}
+
+/**
+ * Date from a Julian date (TT/TDB, taken as UTC; they differ by about a
+ * minute)
+ */
+export function julianDateToDate(jd: number): Date {
+  return new Date((jd - UNIX_EPOCH_JD) * MS_PER_DAY);
+}
+
+/**
+ * Field from a fixed-width line, by 1-based inclusive columns
+ */
+function column(line: string, start: number, end: number): string {
+  return line.slice(start - 1, end).trim();
+}
+
+function toNumber(text: string | undefined): number {
+  return text === undefined || text.trim() === "" ? NaN : Number(text);
+}
+
+/**
+ * Whether elements describe a real orbit
+ */
+function isValidElements(elements: CometaryElements): boolean {
+  const angles = [
+    elements.inclinationDeg,
+    elements.longitudeOfAscendingNodeDeg,
+    elements.argumentOfPeriapsisDeg,
+  ];
+  return (
+    elements.eccentricity >= 0 &&
+    elements.perihelionDistanceAU > 0 &&
+    angles.every(Number.isFinite) &&
+    elements.inclinationDeg >= 0 &&
+    elements.inclinationDeg <= 180 &&
+    Number.isFinite(elements.perihelionTime.getTime())
+  );
+}
+
+/**
+ * Perihelion time from the mean anomaly at an epoch
+ * @param epoch - Epoch of the mean anomaly
+ * @param meanAnomalyDeg - Mean anomaly in degrees
+ * @param meanMotionDegPerDay - Mean motion in degrees per day
+ */
+function perihelionFromMeanAnomaly(
+  epoch: Date,
+  meanAnomalyDeg: number,
+  meanMotionDegPerDay: number,
+): Date {
+  return new Date(
+    epoch.getTime() - (meanAnomalyDeg / meanMotionDegPerDay) * MS_PER_DAY,
+  );
+}
+
+// Packed MPC dates: century letter, two-digit year, then month and day as
+// 1-9 followed by A for 10, B for 11 and so on
+const PACKED_CENTURIES: Record<string, number> = { I: 18, J: 19, K: 20, L: 21 };
+const PACKED_EPOCH_PATTERN = /^[IJKL]\d\d[1-9A-C][1-9A-V]$/;
+
+function unpackDigit(char: string): number {
+  return /\d/.test(char) ? Number(char) : char.charCodeAt(0) - 55;
+}
+
+/**
+ * Date of a packed MPC epoch such as "K24AH" (2024-10-17)
+ * @returns Date at 0h, or null when the text is not a packed date
+ */
+export function unpackMpcEpoch(packed: string): Date | null {
+  if (!PACKED_EPOCH_PATTERN.test(packed)) return null;
+  const year = PACKED_CENTURIES[packed[0]] * 100 + Number(packed.slice(1, 3));
+  return new Date(
+    Date.UTC(year, unpackDigit(packed[3]) - 1, unpackDigit(packed[4])),
+  );
+}
+
+/**
+ * Comet designation without the name in brackets: "C/2020 F3 (NEOWISE)"
+ * gives "C/2020 F3", "1P/Halley" gives "1P"
+ */
+function getCometId(name: string): string {
+  const periodic = name.match(/^(\d+[PDI])\//);
+  return periodic ? periodic[1] : name.replace(/\s*\(.*\)$/, "");
+}
+
+/**
+ * One line of MPC comet elements (CometEls.txt)
+ * @returns The comet, or null when the line is not in that format
+ */
+function parseMpcCometLine(line: string): SmallBody | null {
+  const year = column(line, 15, 18);
+  const month = column(line, 20, 21);
+  if (!/^\d{4}$/.test(year) || !/^\d{1,2}$/.test(month)) return null;
+  const day = toNumber(column(line, 23, 29));
+  const elements: CometaryElements = {
+    perihelionDistanceAU: toNumber(column(line, 31, 39)),
+    eccentricity: toNumber(column(line, 42, 49)),
+    argumentOfPeriapsisDeg: toNumber(column(line, 52, 59)),
+    longitudeOfAscendingNodeDeg: toNumber(column(line, 62, 69)),
+    inclinationDeg: toNumber(column(line, 72, 79)),
+    perihelionTime: new Date(
+      Date.UTC(Number(year), Number(month) - 1, 1) + (day - 1) * MS_PER_DAY,
+    ),
+  };
+  const name = column(line, 103, 158);
+  if (!name || !isValidElements(elements)) return null;
+  return {
+    id: getCometId(name),
+    name,
+    kind: "comet",
+    elements,
+    source: "mpc",
+  };
+}
+
+/**
+ * One line of MPCORB asteroid elements
+ * @returns The asteroid, or null when the line is not in that format
+ */
+function parseMpcAsteroidLine(line: string): SmallBody | null {
+  const epoch = unpackMpcEpoch(column(line, 21, 25));
+  if (!epoch) return null;
+  const eccentricity = toNumber(column(line, 71, 79));
+  const meanMotion = toNumber(column(line, 81, 91));
+  const semiMajorAxis = toNumber(column(line, 93, 103));
+  if (!(eccentricity < 1) || !(meanMotion > 0) || !(semiMajorAxis > 0)) {
+    return null;
+  }
+  const elements: CometaryElements = {
+    eccentricity,
+    perihelionDistanceAU: semiMajorAxis * (1 - eccentricity),
+    argumentOfPeriapsisDeg: toNumber(column(line, 38, 46)),
+    longitudeOfAscendingNodeDeg: toNumber(column(line, 49, 57)),
+    inclinationDeg: toNumber(column(line, 60, 68)),
+    perihelionTime: perihelionFromMeanAnomaly(
+      epoch,
+      toNumber(column(line, 27, 35)),
+      meanMotion,
+    ),
+  };
+  if (!isValidElements(elements)) return null;
+  // "(433) Eros" reads as "433 Eros"; provisional designations stay as they are
+  const readable = column(line, 167, 194) || column(line, 1, 7);
+  const name = readable.replace(/^\((\d+)\)\s*/, "$1 ");
+  return {
+    id: readable.match(/^\((\d+)\)/)?.[1] ?? name,
+    name,
+    kind: "asteroid",
+    elements,
+    source: "mpc",
+  };
+}
+
+/**
+ * Read MPC one-line elements, comets and asteroids mixed. An MPCORB header
+ * (everything up to its line of dashes) is skipped.
+ */
+export function parseMpcElements(text: string): ElementImportResult {
+  const lines = text.split(/\r?\n/);
+  const headerEnd = lines.findIndex((line) => /^-{10,}\s*$/.test(line));
+  const bodies: SmallBody[] = [];
+  const errors: string[] = [];
+
+  lines.forEach((line, index) => {
+    if (index <= headerEnd || line.trim() === "") return;
+    const body = parseMpcCometLine(line) ?? parseMpcAsteroidLine(line);
+    if (body) {
+      bodies.push(body);
+    } else {
+      errors.push(`Line ${index + 1}: not an MPC comet or asteroid orbit`);
+    }
+  });
+
+  return { format: "mpc", bodies, errors };
+}
+
+/**
+ * Split a CSV line, honouring double-quoted fields
+ */
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields.map((value) => value.trim());
+}
+
+/**
+ * Comet or asteroid from SBDB's kind ("cn", "au", …) or prefix ("P", "C",
+ * …) columns, or failing those from the designation
+ */
+function getSbdbKind(row: Record<string, string>, name: string): SmallBodyKind {
+  if (row.kind) return row.kind.startsWith("c") ? "comet" : "asteroid";
+  if (row.prefix) return "comet";
+  return /^(\d+[PCDI]|[PCDI])\//.test(name) ? "comet" : "asteroid";
+}
+
+/**
+ * One SBDB CSV row
+ * @returns The body, or null when its elements are missing or invalid
+ */
+function parseSbdbRow(row: Record<string, string>): SmallBody | null {
+  const fullName = (row.full_name || row.name || row.pdes || "").trim();
+  if (!fullName) return null;
+  const kind = getSbdbKind(row, fullName);
+  // "433 Eros (A898 PA)" drops the provisional designation; comets keep
+  // theirs, since it is part of their name
+  const name =
+    kind === "asteroid" ? fullName.replace(/\s*\([^)]*\)$/, "") : fullName;
+
+  const eccentricity = toNumber(row.e);
+  const semiMajorAxis = toNumber(row.a);
+  const perihelionDistance = Number.isFinite(toNumber(row.q))
+    ? toNumber(row.q)
+    : semiMajorAxis * (1 - eccentricity);
+
+  let perihelionTime = julianDateToDate(toNumber(row.tp));
+  if (!Number.isFinite(perihelionTime.getTime())) {
+    // Elements given as a mean anomaly at an epoch instead
+    const meanMotion = Number.isFinite(toNumber(row.n))
+      ? toNumber(row.n)
+      : (GAUSSIAN_GRAVITATIONAL_CONSTANT * (180 / Math.PI)) /
+        Math.pow(semiMajorAxis, 1.5);
+    perihelionTime = perihelionFromMeanAnomaly(
+      julianDateToDate(toNumber(row.epoch)),
+      toNumber(row.ma),
+      meanMotion,
+    );
+  }
+
+  const elements: CometaryElements = {
+    eccentricity,
+    perihelionDistanceAU: perihelionDistance,
+    inclinationDeg: toNumber(row.i),
+    longitudeOfAscendingNodeDeg: toNumber(row.om),
+    argumentOfPeriapsisDeg: toNumber(row.w),
+    perihelionTime,
+  };
+  if (!isValidElements(elements)) return null;
+  return {
+    id: row.pdes?.trim() || (kind === "comet" ? getCometId(name) : name),
+    name,
+    kind,
+    elements,
+    source: "sbdb",
+  };
+}
+
+/**
+ * Read a JPL Small-Body Database CSV export. Needs columns e, i, om and w,
+ * q or a, and tp (Julian date) or ma with epoch; a name comes from
+ * full_name, name or pdes.
+ */
+export function parseSbdbCsv(text: string): ElementImportResult {
+  const lines = text.split(/\r?\n/);
+  const headerIndex = lines.findIndex((line) => line.trim() !== "");
+  const errors: string[] = [];
+  if (headerIndex < 0) return { format: "sbdb", bodies: [], errors };
+
+  const header = splitCsvLine(lines[headerIndex]).map((name) =>
+    name.toLowerCase(),
+  );
+  const missing = ["e", "i", "om", "w"].filter(
+    (name) => !header.includes(name),
+  );
+  if (missing.length > 0) {
+    errors.push(`Missing columns: ${missing.join(", ")}`);
+    return { format: "sbdb", bodies: [], errors };
+  }
+
+  const bodies: SmallBody[] = [];
+  lines.slice(headerIndex + 1).forEach((line, offset) => {
+    if (line.trim() === "") return;
+    const values = splitCsvLine(line);
+    const row = Object.fromEntries(
+      header.map((name, i) => [name, values[i] ?? ""]),
+    );
+    const body = parseSbdbRow(row);
+    if (body) {
+      bodies.push(body);
+    } else {
+      errors.push(
+        `Line ${headerIndex + offset + 2}: missing or invalid elements`,
+      );
+    }
+  });
+
+  return { format: "sbdb", bodies, errors };
+}
+
+/**
+ * Read elements from an MPC or SBDB export, telling them apart by the CSV
+ * header SBDB files start with
+ */
+export function parseSmallBodyElements(text: string): ElementImportResult {
+  const firstLine = text.split(/\r?\n/).find((line) => line.trim() !== "");
+  const header = firstLine ? splitCsvLine(firstLine) : [];
+  const isCsv = header.some((name) => name.toLowerCase() === "e");
+  return isCsv ? parseSbdbCsv(text) : parseMpcElements(text);
+}
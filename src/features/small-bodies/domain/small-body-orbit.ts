@@ -0,0 +1,233 @@
+/**
+ * Small-body orbits
+ * Propagates comets and asteroids from cometary elements (e, q, i, Ω, ω, Tp)
+ * on two-body orbits around the Sun: Kepler's equation for ellipses,
+ * Barker's equation for parabolas and the hyperbolic Kepler equation for
+ * hyperbolas, so long-period and interstellar comets work as well as
+ * near-Earth asteroids.
+ */
+
+import type {
+  CometaryElements,
+  SmallBody,
+} from "@/features/small-bodies/data/small-body-types";
+import type { FocusPoint } from "@/features/camera-control/domain/camera-flight";
+import {
+  GAUSSIAN_GRAVITATIONAL_CONSTANT,
+  calculateTrueAnomaly,
+  orbitalPlaneToEcliptic,
+  solveKeplerEquation,
+  type EclipticPosition,
+} from "@/utils/orbital-elements";
+import { FULL_CIRCLE_RADIANS } from "@/utils/physics-constants";
+
+const MS_PER_DAY = 86_400_000;
+const k = GAUSSIAN_GRAVITATIONAL_CONSTANT;
+
+// Eccentricities this close to 1 are treated as parabolic; Kepler's equation
+// in either form loses its precision near perihelion there
+const PARABOLIC_TOLERANCE = 1e-6;
+const HYPERBOLIC_MAX_ITERATIONS = 50;
+const HYPERBOLIC_TOLERANCE = 1e-12;
+
+/**
+ * Number of line segments used to draw a small body's orbit
+ */
+export const SMALL_BODY_PATH_SEGMENTS = 256;
+
+/**
+ * Orbits are drawn out to this distance from the Sun; hyperbolas and the
+ * far ends of long-period comets are cut off there
+ */
+export const SMALL_BODY_PATH_MAX_AU = 60;
+
+/**
+ * Distance the camera follows a comet or asteroid from, in scene units
+ */
+export const SMALL_BODY_VIEW_DISTANCE = 150;
+
+/**
+ * Comets farther from the Sun than this show no tail
+ */
+export const TAIL_ONSET_AU = 5;
+
+// Tail length at 1 AU, growing with the inverse square of the distance as
+// sunlight drives off more gas and dust
+const TAIL_LENGTH_AT_1_AU = 0.25;
+const MAX_TAIL_LENGTH_AU = 1;
+
+/**
+ * Position on a conic from its true anomaly
+ */
+function positionAtTrueAnomaly(
+  elements: CometaryElements,
+  trueAnomaly: number,
+): EclipticPosition {
+  const e = elements.eccentricity;
+  const p = elements.perihelionDistanceAU * (1 + e);
+  const r = p / (1 + e * Math.cos(trueAnomaly));
+  return orbitalPlaneToEcliptic(
+    r * Math.cos(trueAnomaly),
+    r * Math.sin(trueAnomaly),
+    elements,
+  );
+}
+
+/**
+ * Solve the hyperbolic Kepler equation M = e·sinh(H) - H
+ */
+function solveHyperbolicKepler(meanAnomaly: number, eccentricity: number) {
+  let H = Math.asinh(meanAnomaly / eccentricity);
+  for (let i = 0; i < HYPERBOLIC_MAX_ITERATIONS; i++) {
+    const delta =
+      (eccentricity * Math.sinh(H) - H - meanAnomaly) /
+      (eccentricity * Math.cosh(H) - 1);
+    H -= delta;
+    if (Math.abs(delta) < HYPERBOLIC_TOLERANCE) break;
+  }
+  return H;
+}
+
+/**
+ * True anomaly of a small body at a date
+ * @param elements - Cometary elements
+ * @param date - Target date
+ * @returns True anomaly in radians; within (-π, π) for open orbits
+ */
+export function getSmallBodyTrueAnomaly(
+  elements: CometaryElements,
+  date: Date,
+): number {
+  const e = elements.eccentricity;
+  const q = elements.perihelionDistanceAU;
+  const days =
+    (date.getTime() - elements.perihelionTime.getTime()) / MS_PER_DAY;
+
+  if (Math.abs(e - 1) < PARABOLIC_TOLERANCE) {
+    // Barker's equation s + s³/3 = D with s = tan(ν/2), solved in closed form.
+    // The solution is odd in D; solving for |D| avoids the cancellation the
+    // formula suffers long before perihelion
+    const D = (k * days) / Math.sqrt(2 * q * q * q);
+    const Y = Math.cbrt(1.5 * Math.abs(D) + Math.sqrt(2.25 * D * D + 1));
+    return Math.sign(D) * 2 * Math.atan(Y - 1 / Y);
+  }
+
+  if (e > 1) {
+    const a = q / (e - 1);
+    const H = solveHyperbolicKepler((k * days) / Math.pow(a, 1.5), e);
+    return 2 * Math.atan(Math.sqrt((e + 1) / (e - 1)) * Math.tanh(H / 2));
+  }
+
+  const a = q / (1 - e);
+  const E = solveKeplerEquation((k * days) / Math.pow(a, 1.5), e);
+  return calculateTrueAnomaly(E, e);
+}
+
+/**
+ * Heliocentric position of a small body at a date
+ * @param elements - Cometary elements
+ * @param date - Target date
+ * @returns Position in AU (J2000 ecliptic)
+ */
+export function getSmallBodyPosition(
+  elements: CometaryElements,
+  date: Date,
+): EclipticPosition {
+  return positionAtTrueAnomaly(
+    elements,
+    getSmallBodyTrueAnomaly(elements, date),
+  );
+}
+
+/**
+ * Orbital period of a small body
+ * @returns Period in days, or null for parabolic and hyperbolic orbits
+ */
+export function getSmallBodyPeriodDays(
+  elements: CometaryElements,
+): number | null {
+  const e = elements.eccentricity;
+  if (e >= 1 - PARABOLIC_TOLERANCE) return null;
+  const a = elements.perihelionDistanceAU / (1 - e);
+  return (FULL_CIRCLE_RADIANS * Math.pow(a, 1.5)) / k;
+}
+
+/**
+ * Largest true anomaly drawn: the whole ellipse, or the points where the
+ * orbit passes maxDistanceAU
+ */
+function getMaxPathTrueAnomaly(
+  elements: CometaryElements,
+  maxDistanceAU: number,
+): number {
+  const e = elements.eccentricity;
+  const q = elements.perihelionDistanceAU;
+  if (e < 1 && q * ((1 + e) / (1 - e)) <= maxDistanceAU) return Math.PI;
+  if (q >= maxDistanceAU) return 0;
+  const cosAnomaly = (q * (1 + e)) / maxDistanceAU - 1;
+  return Math.acos(Math.min(Math.max(cosAnomaly / e, -1), 1));
+}
+
+/**
+ * Points along a small body's orbit, evenly spaced in true anomaly so the
+ * path stays smooth around perihelion
+ * @param elements - Cometary elements
+ * @param segments - Number of segments
+ * @param maxDistanceAU - Distance from the Sun the path is cut off at
+ * @returns Positions in AU (J2000 ecliptic); a closed loop (first point
+ * repeated) for an ellipse that fits, an open arc through perihelion
+ * otherwise
+ */
+export function getSmallBodyPathPoints(
+  elements: CometaryElements,
+  segments: number = SMALL_BODY_PATH_SEGMENTS,
+  maxDistanceAU: number = SMALL_BODY_PATH_MAX_AU,
+): EclipticPosition[] {
+  const maxAnomaly = getMaxPathTrueAnomaly(elements, maxDistanceAU);
+  return Array.from({ length: segments + 1 }, (_, index) =>
+    positionAtTrueAnomaly(
+      elements,
+      -maxAnomaly + (index / segments) * 2 * maxAnomaly,
+    ),
+  );
+}
+
+/**
+ * Length of a comet's tail at a distance from the Sun
+ * @param distanceAU - Heliocentric distance in AU
+ * @returns Tail length in AU; 0 beyond TAIL_ONSET_AU
+ */
+export function getCometTailLengthAU(distanceAU: number): number {
+  if (!(distanceAU > 0) || distanceAU >= TAIL_ONSET_AU) return 0;
+  return Math.min(
+    TAIL_LENGTH_AT_1_AU / (distanceAU * distanceAU),
+    MAX_TAIL_LENGTH_AU,
+  );
+}
+
+/**
+ * Far end of a comet's tail, which points straight away from the Sun
+ * @param position - Comet position in AU
+ * @returns End of the tail in AU, or null when the comet has none
+ */
+export function getCometTailEnd(
+  position: EclipticPosition,
+): EclipticPosition | null {
+  const distance = Math.hypot(position.x, position.y, position.z);
+  const length = getCometTailLengthAU(distance);
+  if (length === 0) return null;
+  const factor = (distance + length) / distance;
+  return {
+    x: position.x * factor,
+    y: position.y * factor,
+    z: position.z * factor,
+  };
+}
+
+/**
+ * Camera target for following a small body; its marker carries the body's
+ * name
+ */
+export function getSmallBodyFocus(body: SmallBody): FocusPoint {
+  return { name: body.name, viewDistance: SMALL_BODY_VIEW_DISTANCE };
+}
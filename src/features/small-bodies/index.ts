@@ -0,0 +1,6 @@
+export * from "@/features/small-bodies/data/small-body-types";
+export * from "@/features/small-bodies/data/small-bodies";
+export * from "@/features/small-bodies/domain/small-body-orbit";
+export * from "@/features/small-bodies/domain/element-import";
+export * from "@/features/small-bodies/application/useSmallBodies";
+export * from "@/features/small-bodies/ui/index";
@@ -0,0 +1,2 @@
+export * from "@/features/small-bodies/ui/small-bodies";
+export * from "@/features/small-bodies/ui/small-body-panel";
@@ -0,0 +1,183 @@
+"use client";
+
+import { useMemo, useRef } from "react";
+import { useFrame } from "@react-three/fiber";
+import { Html, Line } from "@react-three/drei";
+import {
+  AdditiveBlending,
+  ConeGeometry,
+  DoubleSide,
+  Group,
+  Mesh,
+  Vector3,
+} from "three";
+import { eclipticToScenePosition } from "@/features/planet-rendering/domain/kepler-orbit";
+import {
+  getSimulatedDate,
+  type SimulationClock,
+} from "@/features/simulation-control/domain/simulation-clock";
+import {
+  scaleHeliocentricPosition,
+  type ScaleStrategy,
+} from "@/features/view-scale/domain/scale-strategy";
+import type { SmallBody } from "@/features/small-bodies/data/small-body-types";
+import { SMALL_BODY_COLORS } from "@/features/small-bodies/data/small-bodies";
+import {
+  getCometTailEnd,
+  getSmallBodyPathPoints,
+  getSmallBodyPosition,
+} from "@/features/small-bodies/domain/small-body-orbit";
+import type { EclipticPosition } from "@/utils/orbital-elements";
+
+const TAIL_COLOR = "#dbeafe";
+// Width of the tail's far end as a fraction of its length
+const TAIL_SPREAD = 0.12;
+// The tail cone opens from its apex at the head along -Y
+const TAIL_AXIS = new Vector3(0, -1, 0);
+
+function toScene(position: EclipticPosition, scale: ScaleStrategy): Vector3 {
+  const { x, y, z } = scaleHeliocentricPosition(
+    eclipticToScenePosition(position, 1),
+    scale,
+  );
+  return new Vector3(x, y, z);
+}
+
+interface SmallBodyObjectProps {
+  body: SmallBody;
+  clock: SimulationClock;
+  scale: ScaleStrategy;
+  showLabel: boolean;
+  onLabelClick?: (body: SmallBody) => void;
+}
+
+/**
+ * One comet or asteroid: its orbit, a marker named after it so the camera
+ * can follow it, and for comets a tail pointing away from the Sun
+ */
+function SmallBodyObject({
+  body,
+  clock,
+  scale,
+  showLabel,
+  onLabelClick,
+}: SmallBodyObjectProps) {
+  const groupRef = useRef<Group>(null);
+  const tailRef = useRef<Mesh>(null);
+  const color = SMALL_BODY_COLORS[body.kind];
+
+  const path = useMemo(
+    () =>
+      getSmallBodyPathPoints(body.elements).map((point) =>
+        toScene(point, scale),
+      ),
+    [body.elements, scale],
+  );
+
+  const tailGeometry = useMemo(
+    () => new ConeGeometry(1, 1, 16, 1, true).translate(0, -0.5, 0),
+    [],
+  );
+
+  // Read the clock every frame so the body moves with the planets in Speed
+  // Mode as well as Date Mode
+  useFrame(() => {
+    const group = groupRef.current;
+    if (!group) return;
+    const position = getSmallBodyPosition(
+      body.elements,
+      getSimulatedDate(clock),
+    );
+    const head = toScene(position, scale);
+    group.position.copy(head);
+
+    const tail = tailRef.current;
+    if (!tail) return;
+    const end = getCometTailEnd(position);
+    tail.visible = end !== null;
+    if (!end) return;
+    const direction = toScene(end, scale).sub(head);
+    const length = direction.length();
+    tail.quaternion.setFromUnitVectors(TAIL_AXIS, direction.normalize());
+    tail.scale.set(length * TAIL_SPREAD, length, length * TAIL_SPREAD);
+  });
+
+  return (
+    <>
+      <Line
+        points={path}
+        color={color}
+        lineWidth={0.75}
+        transparent
+        opacity={0.35}
+      />
+      <group ref={groupRef} name={body.name}>
+        {body.kind === "comet" && (
+          <mesh ref={tailRef} geometry={tailGeometry} visible={false}>
+            <meshBasicMaterial
+              color={TAIL_COLOR}
+              transparent
+              opacity={0.3}
+              side={DoubleSide}
+              blending={AdditiveBlending}
+              depthWrite={false}
+            />
+          </mesh>
+        )}
+        <Html center zIndexRange={[10, 0]}>
+          <div className="flex items-center gap-1 whitespace-nowrap">
+            <div
+              className="w-1.5 h-1.5 rounded-full"
+              style={{ backgroundColor: color }}
+            />
+            {showLabel && (
+              <button
+                onClick={() => onLabelClick?.(body)}
+                className="px-1 rounded text-[10px] text-white/70 bg-black/30 hover:bg-black/70 transition-colors"
+                aria-label={`Fly to ${body.name}`}
+              >
+                {body.name}
+              </button>
+            )}
+          </div>
+        </Html>
+      </group>
+    </>
+  );
+}
+
+interface SmallBodiesProps {
+  bodies: SmallBody[];
+  /** Simulation clock the bodies' positions follow */
+  clock: SimulationClock;
+  /** View scale, applied to the orbits like the planets' */
+  scale: ScaleStrategy;
+  showLabels: boolean;
+  onLabelClick?: (body: SmallBody) => void;
+}
+
+/**
+ * Comets and asteroids on their orbits around the Sun
+ */
+export function SmallBodies({
+  bodies,
+  clock,
+  scale,
+  showLabels,
+  onLabelClick,
+}: SmallBodiesProps) {
+  return (
+    <>
+      {bodies.map((body) => (
+        <SmallBodyObject
+          key={body.id}
+          body={body}
+          clock={clock}
+          scale={scale}
+          showLabel={showLabels}
+          onLabelClick={onLabelClick}
+        />
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,143 @@
+"use client";
+
+import { useRef, useState, type ChangeEvent } from "react";
+import { ChevronDown, ChevronUp, Sparkles, Upload } from "lucide-react";
+import type {
+  SmallBody,
+  SmallBodyKind,
+} from "@/features/small-bodies/data/small-body-types";
+import type { ImportSummary } from "@/features/small-bodies/application/useSmallBodies";
+import { SMALL_BODY_COLORS } from "@/features/small-bodies/data/small-bodies";
+
+const KIND_TITLES: Record<SmallBodyKind, string> = {
+  comet: "Comets",
+  asteroid: "Asteroids",
+};
+
+interface SmallBodyPanelProps {
+  bodies: SmallBody[];
+  /** Name of the body the camera follows, if any */
+  followedName: string | null;
+  onFlyTo: (body: SmallBody) => void;
+  onImport: (file: File) => void;
+  onClearImported: () => void;
+  importedCount: number;
+  lastImport: ImportSummary | null;
+}
+
+/**
+ * Comets and asteroids to fly to, and an import for MPC or JPL SBDB element
+ * files
+ */
+export function SmallBodyPanel({
+  bodies,
+  followedName,
+  onFlyTo,
+  onImport,
+  onClearImported,
+  importedCount,
+  lastImport,
+}: SmallBodyPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport(file);
+    // Let the same file be picked again after it changes
+    e.target.value = "";
+  };
+
+  return (
+    <div
+      className="bg-black/80 text-white rounded-md text-sm w-48"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        className="flex items-center justify-between w-full px-3 py-2 hover:bg-black/90 rounded-md transition-colors"
+        aria-expanded={isOpen}
+        aria-controls="small-body-list"
+      >
+        <span className="flex items-center gap-2">
+          <Sparkles size={16} />
+          Comets & asteroids
+        </span>
+        {isOpen ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+      </button>
+
+      {isOpen && (
+        <div
+          id="small-body-list"
+          className="max-h-[50vh] overflow-y-auto px-1 pb-2"
+        >
+          {(["comet", "asteroid"] as const).map((kind) => {
+            const group = bodies.filter((body) => body.kind === kind);
+            if (group.length === 0) return null;
+            return (
+              <div key={kind} className="mt-2">
+                <h3 className="px-2 text-xs text-gray-400">
+                  {KIND_TITLES[kind]}
+                </h3>
+                <ul>
+                  {group.map((body) => (
+                    <li key={body.id}>
+                      <button
+                        onClick={() => onFlyTo(body)}
+                        className={`flex items-center gap-2 w-full py-1 px-2 rounded text-left hover:bg-gray-700 transition-colors ${
+                          followedName === body.name ? "bg-blue-500/30" : ""
+                        }`}
+                        aria-label={`Fly to ${body.name}`}
+                        aria-current={followedName === body.name}
+                      >
+                        <span
+                          className="w-1.5 h-1.5 rounded-full flex-shrink-0"
+                          style={{ backgroundColor: SMALL_BODY_COLORS[kind] }}
+                        />
+                        <span className="truncate">{body.name}</span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+
+          <div className="mt-2 pt-2 border-t border-white/10 px-1 space-y-1">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".txt,.dat,.csv,text/plain,text/csv"
+              onChange={handleFileChange}
+              className="hidden"
+              aria-label="Element file"
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-1.5 w-full px-2 py-1 text-xs rounded bg-white/10 hover:bg-white/20 transition-colors"
+              title="MPC one-line elements (CometEls.txt, MPCORB) or a JPL SBDB CSV"
+            >
+              <Upload size={12} />
+              Import elements
+            </button>
+            {lastImport && (
+              <p className="text-[11px] text-gray-400" role="status">
+                {lastImport.imported} from {lastImport.fileName}
+                {lastImport.errors.length > 0 &&
+                  `, ${lastImport.errors.length} skipped`}
+              </p>
+            )}
+            {importedCount > 0 && (
+              <button
+                onClick={onClearImported}
+                className="w-full px-2 py-1 text-xs rounded text-blue-300 hover:bg-gray-800 transition-colors"
+              >
+                Remove imported
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,17 +1,32 @@
 "use client";
 
 import { ReactNode } from "react";
-import { SimulationSpeedProvider } from "@/features/simulation-control/state/rotation-speed-context";
+import {
+  SimulationSpeedProvider,
+  useSimulationSpeed,
+} from "@/features/simulation-control/state/rotation-speed-context";
 import { SimulationModeProvider } from "@/features/simulation-control/state/simulation-mode-context";
 
 type SolarSystemProvidersProps = {
   children: ReactNode;
 };
 
+/**
+ * Runs the simulation clock at the selected speed (stopped while paused)
+ */
+function SimulationClockProvider({ children }: SolarSystemProvidersProps) {
+  const { effectiveSpeed } = useSimulationSpeed();
+  return (
+    <SimulationModeProvider rate={effectiveSpeed}>
+      {children}
+    </SimulationModeProvider>
+  );
+}
+
 export function SolarSystemProviders({ children }: SolarSystemProvidersProps) {
   return (
     <SimulationSpeedProvider>
-      <SimulationModeProvider>{children}</SimulationModeProvider>
+      <SimulationClockProvider>{children}</SimulationClockProvider>
     </SimulationSpeedProvider>
   );
 }
@@ -5,6 +5,36 @@ import { sunData } from "@/data/planet-data";
 import { PlanetData } from "@/data/planet-types";
 import { useSimulationSpeed } from "@/features/simulation-control/state/rotation-speed-context";
 import { useSimulationMode } from "@/features/simulation-control/state/simulation-mode-context";
+import { getSimulatedDate } from "@/features/simulation-control/domain/simulation-clock";
+import {
+  canStepSimulationDate,
+  stepSimulationDate,
+  type TimeStep,
+} from "@/features/simulation-control/domain/time-step";
+import type { TimeDirection } from "@/features/date-mode/domain/date-interpolation";
+import { useCameraFocus } from "@/features/camera-control/application/useCameraFocus";
+import { getBeltViewDistance } from "@/features/camera-control/domain/camera-flight";
+import type { PaletteItem } from "@/features/command-palette/domain/palette-items";
+import { useScaleTransition } from "@/features/view-scale/application/useScaleTransition";
+import { getScaleStrategy } from "@/features/view-scale/domain/scale-strategy";
+import type { HistoricalEvent } from "@/features/historical-events/data/historical-events-types";
+import { getEventPlanets } from "@/features/historical-events/domain/historical-events-utils";
+import { useSkyView } from "@/features/sky-view/application/useSkyView";
+import { useDistanceMeasurement } from "@/features/distance-measurement/application/useDistanceMeasurement";
+import { useTransferPlanner } from "@/features/transfer-planner/application/useTransferPlanner";
+import type { MissionData } from "@/features/missions/data/mission-types";
+import {
+  findMissionForEvent,
+  getEventJumpDate,
+  getMissionFocus,
+  getMissionLaunch,
+} from "@/features/missions/domain/mission-trajectory";
+import { useSmallBodies } from "@/features/small-bodies/application/useSmallBodies";
+import type { SmallBody } from "@/features/small-bodies/data/small-body-types";
+import { getSmallBodyFocus } from "@/features/small-bodies/domain/small-body-orbit";
+
+// Shared so the scene's highlight prop keeps its identity outside Date Mode
+const NO_HIGHLIGHTS: string[] = [];
 
 export function useSolarSystemController() {
   const [selectedPlanet, setSelectedPlanet] = useState<PlanetData | null>(null);
@@ -12,17 +42,63 @@ export function useSolarSystemController() {
   const [showPlanetLabels, setShowPlanetLabels] = useState(true);
   const [showOrbitPath, setShowOrbitPath] = useState(true);
   const [showBeltRegions, setShowBeltRegions] = useState(true);
+  const [showConstellations, setShowConstellations] = useState(false);
+  const [showMissions, setShowMissions] = useState(false);
+  const [showSmallBodies, setShowSmallBodies] = useState(true);
+  const [eventPlanets, setEventPlanets] = useState<string[]>(NO_HIGHLIGHTS);
 
   const {
     simulationSpeed,
     setSimulationSpeed,
+    isPaused,
+    setPaused,
+    togglePause,
+    effectiveSpeed,
     modalAutoRotate,
     setModalAutoRotate,
   } = useSimulationSpeed();
-  const { mode, toggleMode, selectedDate, setSelectedDate } = useSimulationMode();
+  const { mode, setMode, toggleMode, selectedDate, setSelectedDate, clock } =
+    useSimulationMode();
+
+  const { cameraFocus, flyTo, release } = useCameraFocus();
+  const { scaleMode, scale, setScaleMode } = useScaleTransition();
+  const { viewMode, isSkyView, observer, toggleSkyView, setObserver } =
+    useSkyView();
+  const {
+    isMeasuring,
+    pair: measuredPair,
+    spanDays: measurementSpanDays,
+    toggleMeasuring,
+    setPair: setMeasuredPair,
+    swapPair: swapMeasuredPair,
+    setSpanDays: setMeasurementSpanDays,
+  } = useDistanceMeasurement();
+  const {
+    isPlanning,
+    route: transferRoute,
+    transfer,
+    togglePlanning: toggleTransferPlanner,
+    setRoute: setTransferRoute,
+    setTransfer,
+  } = useTransferPlanner();
+  const {
+    bodies: smallBodies,
+    importedCount: importedSmallBodyCount,
+    lastImport: lastSmallBodyImport,
+    importFile: importSmallBodies,
+    clearImported: clearImportedSmallBodies,
+  } = useSmallBodies();
 
   const isDateMode = mode === "date";
   const isPlanetModalOpen = selectedPlanet !== null;
+  // The chosen event's planets stay marked until Date Mode is left
+  const highlightedPlanets = isDateMode ? eventPlanets : NO_HIGHLIGHTS;
+  // Distances are measured on the date picked in Date Mode
+  const isMeasurementShown = isDateMode && isMeasuring;
+  // Transfers are planned and flown in Date Mode too
+  const isTransferPlannerShown = isDateMode && isPlanning;
+  // Spacecraft fly on the Date Mode calendar as well
+  const isMissionsShown = isDateMode && showMissions;
 
   const handlePlanetClick = useCallback((planet: PlanetData) => {
     setSelectedPlanet(planet);
@@ -38,8 +114,104 @@ export function useSolarSystemController() {
 
   const handleModeToggle = useCallback(() => {
     toggleMode();
+    setEventPlanets(NO_HIGHLIGHTS);
   }, [toggleMode]);
 
+  const flyToSmallBody = useCallback(
+    (body: SmallBody) => {
+      flyTo(getSmallBodyFocus(body));
+    },
+    [flyTo],
+  );
+
+  const toggleMissions = useCallback(() => {
+    setShowMissions((shown) => !shown);
+  }, []);
+
+  const followMission = useCallback(
+    (mission: MissionData) => {
+      setShowMissions(true);
+      flyTo(getMissionFocus(mission));
+    },
+    [flyTo],
+  );
+
+  // Back to launch in Date Mode, with the info modal out of the way
+  const followMissionFromLaunch = useCallback(
+    (mission: MissionData) => {
+      setMode("date");
+      setSelectedDate(getMissionLaunch(mission));
+      setSelectedPlanet(null);
+      followMission(mission);
+    },
+    [setMode, setSelectedDate, followMission],
+  );
+
+  // The date picker has already jumped to the event (or its mission's
+  // launch); a mission event also follows its craft
+  const handleEventSelect = useCallback(
+    (event: HistoricalEvent) => {
+      setEventPlanets(getEventPlanets(event));
+      const mission = findMissionForEvent(event);
+      if (mission) followMission(mission);
+    },
+    [followMission],
+  );
+
+  const clearHighlight = useCallback(() => {
+    setEventPlanets(NO_HIGHLIGHTS);
+  }, []);
+
+  // Bodies open their info and fly the camera there, belts are shown and
+  // framed around the Sun, events jump Date Mode to their date and mark
+  // their planets (or follow their mission from launch)
+  const handlePaletteSelect = useCallback(
+    (item: PaletteItem) => {
+      switch (item.kind) {
+        case "body":
+          flyTo(item.body);
+          setSelectedPlanet(item.body);
+          break;
+        case "belt":
+          setShowBeltRegions(true);
+          // Frame the belt as drawn once any scale switch has finished
+          flyTo(
+            sunData,
+            getBeltViewDistance(item.belt, getScaleStrategy(scaleMode)),
+          );
+          break;
+        case "event": {
+          setMode("date");
+          setSelectedDate(getEventJumpDate(item.event));
+          setEventPlanets(getEventPlanets(item.event));
+          const mission = findMissionForEvent(item.event);
+          if (mission) followMission(mission);
+          break;
+        }
+      }
+    },
+    [flyTo, setMode, setSelectedDate, scaleMode, followMission],
+  );
+
+  // Steps that would leave the accurate range are refused
+  const handleStep = useCallback(
+    (direction: TimeDirection, step: TimeStep) => {
+      const from = getSimulatedDate(clock);
+      if (!canStepSimulationDate(from, step, direction)) {
+        console.warn("Step would leave the accurate range (1700-2300)");
+        return;
+      }
+      setSelectedDate(stepSimulationDate(from, step, direction));
+    },
+    [clock, setSelectedDate],
+  );
+
+  const canStep = useCallback(
+    (direction: TimeDirection, step: TimeStep) =>
+      canStepSimulationDate(selectedDate, step, direction),
+    [selectedDate],
+  );
+
   return useMemo(
     () => ({
       selectedPlanet,
@@ -47,23 +219,73 @@ export function useSolarSystemController() {
       showPlanetLabels,
       showOrbitPath,
       showBeltRegions,
+      showConstellations,
+      showSmallBodies,
       simulationSpeed,
+      isPaused,
+      effectiveSpeed,
       modalAutoRotate,
       mode,
       selectedDate,
+      clock,
       isDateMode,
       isPlanetModalOpen,
+      cameraFocus,
+      scaleMode,
+      scale,
+      highlightedPlanets,
+      viewMode,
+      isSkyView,
+      observer,
+      isMeasurementShown,
+      measuredPair,
+      measurementSpanDays,
+      isTransferPlannerShown,
+      transferRoute,
+      transfer,
+      isMissionsShown,
+      smallBodies,
+      importedSmallBodyCount,
+      lastSmallBodyImport,
       setControlModalVisible,
       setShowPlanetLabels,
       setShowOrbitPath,
       setShowBeltRegions,
+      setShowConstellations,
+      setShowSmallBodies,
       setSimulationSpeed,
       setModalAutoRotate,
+      setMode,
       setSelectedDate,
+      setPaused,
+      setScaleMode,
+      setObserver,
+      toggleSkyView,
+      toggleMeasuring,
+      setMeasuredPair,
+      swapMeasuredPair,
+      setMeasurementSpanDays,
+      toggleTransferPlanner,
+      setTransferRoute,
+      setTransfer,
+      toggleMissions,
+      followMission,
+      followMissionFromLaunch,
+      flyToSmallBody,
+      importSmallBodies,
+      clearImportedSmallBodies,
       handlePlanetClick,
       handleSunClick,
       handleCloseInfo,
       handleModeToggle,
+      handleStep,
+      canStep,
+      handlePaletteSelect,
+      handleEventSelect,
+      clearHighlight,
+      togglePause,
+      flyToBody: flyTo,
+      releaseCamera: release,
     }),
     [
       selectedPlanet,
@@ -71,19 +293,67 @@ export function useSolarSystemController() {
       showPlanetLabels,
       showOrbitPath,
       showBeltRegions,
+      showConstellations,
+      showSmallBodies,
       simulationSpeed,
+      isPaused,
+      effectiveSpeed,
       modalAutoRotate,
       mode,
       selectedDate,
+      clock,
       isDateMode,
       isPlanetModalOpen,
+      cameraFocus,
+      scaleMode,
+      scale,
+      highlightedPlanets,
+      viewMode,
+      isSkyView,
+      observer,
+      isMeasurementShown,
+      measuredPair,
+      measurementSpanDays,
+      isTransferPlannerShown,
+      transferRoute,
+      transfer,
+      isMissionsShown,
+      smallBodies,
+      importedSmallBodyCount,
+      lastSmallBodyImport,
       setSimulationSpeed,
       setModalAutoRotate,
+      setMode,
       setSelectedDate,
+      setPaused,
+      setScaleMode,
+      setObserver,
+      toggleSkyView,
+      toggleMeasuring,
+      setMeasuredPair,
+      swapMeasuredPair,
+      setMeasurementSpanDays,
+      toggleTransferPlanner,
+      setTransferRoute,
+      setTransfer,
+      toggleMissions,
+      followMission,
+      followMissionFromLaunch,
+      flyToSmallBody,
+      importSmallBodies,
+      clearImportedSmallBodies,
       handlePlanetClick,
       handleSunClick,
       handleCloseInfo,
       handleModeToggle,
+      handleStep,
+      canStep,
+      handlePaletteSelect,
+      handleEventSelect,
+      clearHighlight,
+      togglePause,
+      flyTo,
+      release,
     ]
   );
 }
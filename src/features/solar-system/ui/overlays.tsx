@@ -2,21 +2,79 @@ import { PlanetData } from "@/data/planet-types";
 import { DatePicker } from "@/features/date-mode/ui/date-picker";
 import { ControlModal } from "@/features/planet-modal/ui/control";
 import { ModalOverlay } from "@/features/planet-modal/ui/modal-overlay";
+import { Rocket, Ruler, Satellite, Search, Telescope, X } from "lucide-react";
 import { ModeToggleButton } from "@/features/simulation-control/ui/mode-toggle-button";
+import { SimulatedDateDisplay } from "@/features/simulation-control/ui/simulated-date-display";
 import { GitHubButton } from "@/components/button/github-button";
+import { CopyLinkButton } from "@/features/share-link/ui/copy-link-button";
+import { BodyList } from "@/features/camera-control/ui/body-list";
+import type { CameraFocus } from "@/features/camera-control/application/useCameraFocus";
+import { CommandPalette } from "@/features/command-palette/ui/command-palette";
+import type { PaletteItem } from "@/features/command-palette/domain/palette-items";
+import type { ScaleMode } from "@/features/view-scale/domain/scale-strategy";
 import { MemoryMonitor } from "@/components/debug/memory-monitor";
 import type { SimulationMode } from "@/features/simulation-control/state/simulation-mode-context";
+import type { SimulationClock } from "@/features/simulation-control/domain/simulation-clock";
+import type { TimeStep } from "@/features/simulation-control/domain/time-step";
+import type { TimeDirection } from "@/features/date-mode/domain/date-interpolation";
+import type { HistoricalEvent } from "@/features/historical-events/data/historical-events-types";
+import { SkyViewPanel } from "@/features/sky-view/ui/sky-view-panel";
+import { DistancePanel } from "@/features/distance-measurement/ui/distance-panel";
+import type { MeasuredPair } from "@/features/distance-measurement/application/useDistanceMeasurement";
+import { TransferPanel } from "@/features/transfer-planner/ui/transfer-panel";
+import type { TransferRoute } from "@/features/transfer-planner/application/useTransferPlanner";
+import type { TransferSolution } from "@/features/transfer-planner/domain/transfer-orbit";
+import { MissionPanel } from "@/features/missions/ui/mission-panel";
+import type { MissionData } from "@/features/missions/data/mission-types";
+import { SmallBodyPanel } from "@/features/small-bodies/ui/small-body-panel";
+import type { SmallBody } from "@/features/small-bodies/data/small-body-types";
+import type { ImportSummary } from "@/features/small-bodies/application/useSmallBodies";
+import type { ObserverLocation } from "@/features/sky-view/domain/sky-coordinates";
 
 type SolarSystemOverlaysProps = {
   selectedPlanet: PlanetData | null;
   mode: SimulationMode;
   isDateMode: boolean;
   selectedDate: Date;
+  clock: SimulationClock;
   onCloseInfo: () => void;
   onModeToggle: () => void;
   onDateChange: (date: Date) => void;
+  onEventSelect: (event: HistoricalEvent) => void;
+  highlightedPlanets: string[];
+  onClearHighlight: () => void;
+  /** Whether the distance tool is open */
+  isMeasuring: boolean;
+  onToggleMeasuring: () => void;
+  measuredPair: MeasuredPair;
+  onMeasuredPairChange: (pair: MeasuredPair) => void;
+  onSwapMeasuredPair: () => void;
+  measurementSpanDays: number;
+  onMeasurementSpanChange: (days: number) => void;
+  /** Whether the transfer planner is open */
+  isPlanningTransfer: boolean;
+  onToggleTransferPlanner: () => void;
+  transferRoute: TransferRoute;
+  onTransferRouteChange: (route: TransferRoute) => void;
+  transfer: TransferSolution | null;
+  onTransferSelect: (transfer: TransferSolution | null) => void;
+  /** Whether the spacecraft paths and their panel are shown */
+  isShowingMissions: boolean;
+  onToggleMissions: () => void;
+  onFollowMission: (mission: MissionData) => void;
+  onFollowMissionFromLaunch: (mission: MissionData) => void;
+  smallBodies: SmallBody[];
+  onFlyToSmallBody: (body: SmallBody) => void;
+  onImportSmallBodies: (file: File) => void;
+  onClearImportedSmallBodies: () => void;
+  importedSmallBodyCount: number;
+  lastSmallBodyImport: ImportSummary | null;
   simulationSpeed: number;
   onSpeedChange: (speed: number) => void;
+  isPaused: boolean;
+  onTogglePause: () => void;
+  onStep: (direction: TimeDirection, step: TimeStep) => void;
+  canStep: (direction: TimeDirection, step: TimeStep) => boolean;
   controlModalVisible: boolean;
   onToggleControlModalVisibility: (visible: boolean) => void;
   showPlanetLabels: boolean;
@@ -25,8 +83,26 @@ type SolarSystemOverlaysProps = {
   onToggleOrbitPath: (show: boolean) => void;
   showBeltRegions: boolean;
   onToggleBeltRegions: (show: boolean) => void;
+  showConstellations: boolean;
+  onToggleConstellations: (show: boolean) => void;
+  showSmallBodies: boolean;
+  onToggleSmallBodies: (show: boolean) => void;
   modalAutoRotate: boolean;
   onToggleModalAutoRotate: (autoRotate: boolean) => void;
+  getShareUrl: () => string;
+  cameraFocus: CameraFocus | null;
+  onFlyTo: (body: PlanetData) => void;
+  onReleaseCamera: () => void;
+  isCommandPaletteOpen: boolean;
+  onOpenCommandPalette: () => void;
+  onCloseCommandPalette: () => void;
+  onCommandPaletteSelect: (item: PaletteItem) => void;
+  scaleMode: ScaleMode;
+  onScaleModeChange: (mode: ScaleMode) => void;
+  isSkyView: boolean;
+  onToggleSkyView: () => void;
+  observer: ObserverLocation;
+  onObserverChange: (observer: ObserverLocation) => void;
 };
 
 export function SolarSystemOverlays({
@@ -34,11 +110,42 @@ export function SolarSystemOverlays({
   mode,
   isDateMode,
   selectedDate,
+  clock,
   onCloseInfo,
   onModeToggle,
   onDateChange,
+  onEventSelect,
+  highlightedPlanets,
+  onClearHighlight,
+  isMeasuring,
+  onToggleMeasuring,
+  measuredPair,
+  onMeasuredPairChange,
+  onSwapMeasuredPair,
+  measurementSpanDays,
+  onMeasurementSpanChange,
+  isPlanningTransfer,
+  onToggleTransferPlanner,
+  transferRoute,
+  onTransferRouteChange,
+  transfer,
+  onTransferSelect,
+  isShowingMissions,
+  onToggleMissions,
+  onFollowMission,
+  onFollowMissionFromLaunch,
+  smallBodies,
+  onFlyToSmallBody,
+  onImportSmallBodies,
+  onClearImportedSmallBodies,
+  importedSmallBodyCount,
+  lastSmallBodyImport,
   simulationSpeed,
   onSpeedChange,
+  isPaused,
+  onTogglePause,
+  onStep,
+  canStep,
   controlModalVisible,
   onToggleControlModalVisibility,
   showPlanetLabels,
@@ -47,31 +154,196 @@ export function SolarSystemOverlays({
   onToggleOrbitPath,
   showBeltRegions,
   onToggleBeltRegions,
+  showConstellations,
+  onToggleConstellations,
+  showSmallBodies,
+  onToggleSmallBodies,
   modalAutoRotate,
   onToggleModalAutoRotate,
+  getShareUrl,
+  cameraFocus,
+  onFlyTo,
+  onReleaseCamera,
+  isCommandPaletteOpen,
+  onOpenCommandPalette,
+  onCloseCommandPalette,
+  onCommandPaletteSelect,
+  scaleMode,
+  onScaleModeChange,
+  isSkyView,
+  onToggleSkyView,
+  observer,
+  onObserverChange,
 }: SolarSystemOverlaysProps) {
   return (
     <>
-      <ModalOverlay planet={selectedPlanet} onClose={onCloseInfo} />
+      <ModalOverlay
+        planet={selectedPlanet}
+        onClose={onCloseInfo}
+        onMissionSelect={onFollowMissionFromLaunch}
+      />
 
       {!selectedPlanet && (
-        <div className="absolute top-4 left-4 z-buttons">
+        <div className="absolute top-4 left-4 z-buttons flex gap-2">
           <ModeToggleButton mode={mode} onToggle={onModeToggle} />
+          <button
+            onClick={onOpenCommandPalette}
+            className="flex items-center gap-2 px-3 py-2 rounded-md bg-black/80 text-white text-sm hover:bg-black/90 transition-colors"
+            aria-label="Search bodies and events"
+            title="Search bodies and events (Ctrl+K or /)"
+          >
+            <Search className="w-4 h-4" />
+            <span>Search</span>
+          </button>
+          <button
+            onClick={onToggleSkyView}
+            className={`flex items-center gap-2 px-3 py-2 rounded-md bg-black/80 text-white text-sm hover:bg-black/90 transition-colors ${
+              isSkyView ? "ring-2 ring-green-500" : ""
+            }`}
+            aria-pressed={isSkyView}
+            title={
+              isSkyView
+                ? "Back to the orbit view of the Solar System"
+                : "See the sky from a place on Earth"
+            }
+          >
+            <Telescope className="w-4 h-4" />
+            <span>{isSkyView ? "Space View" : "Sky View"}</span>
+          </button>
+        </div>
+      )}
+
+      {!isDateMode && !selectedPlanet && (
+        <div className="absolute top-16 left-4 z-controls">
+          <SimulatedDateDisplay clock={clock} />
         </div>
       )}
 
       {isDateMode && !selectedPlanet && (
         <div
-          className="absolute top-16 left-4 z-controls animate-in fade-in duration-500"
+          className="absolute top-16 left-4 z-controls flex items-start gap-2 animate-in fade-in duration-500"
           style={{ animation: "fadeIn 500ms ease-in-out" }}
         >
-          <DatePicker selectedDate={selectedDate} onDateChange={onDateChange} />
+          <div>
+            <DatePicker
+              selectedDate={selectedDate}
+              onDateChange={onDateChange}
+              onEventSelect={onEventSelect}
+            />
+            {!isMeasuring && (
+              <button
+                onClick={onToggleMeasuring}
+                className="mt-2 flex items-center gap-1.5 px-3 py-1 rounded-full bg-black/80 text-white text-xs hover:bg-black/90 transition-colors"
+                title="Distance and light time between two bodies"
+              >
+                <Ruler className="w-3 h-3" />
+                <span>Measure distance</span>
+              </button>
+            )}
+            {!isPlanningTransfer && (
+              <button
+                onClick={onToggleTransferPlanner}
+                className="mt-2 flex items-center gap-1.5 px-3 py-1 rounded-full bg-black/80 text-white text-xs hover:bg-black/90 transition-colors"
+                title="Transfer orbits and launch windows between planets"
+              >
+                <Rocket className="w-3 h-3" />
+                <span>Plan transfer</span>
+              </button>
+            )}
+            {!isShowingMissions && (
+              <button
+                onClick={onToggleMissions}
+                className="mt-2 flex items-center gap-1.5 px-3 py-1 rounded-full bg-black/80 text-white text-xs hover:bg-black/90 transition-colors"
+                title="Paths of Voyager, Cassini and other spacecraft"
+              >
+                <Satellite className="w-3 h-3" />
+                <span>Spacecraft</span>
+              </button>
+            )}
+            {highlightedPlanets.length > 0 && (
+              <button
+                onClick={onClearHighlight}
+                className="mt-2 flex items-center gap-1.5 px-3 py-1 rounded-full bg-black/80 text-yellow-200 text-xs ring-1 ring-yellow-400 hover:bg-black/90 transition-colors"
+                aria-label="Clear event highlight"
+              >
+                <span>Highlighting {highlightedPlanets.join(", ")}</span>
+                <X className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+          {isMeasuring && (
+            <DistancePanel
+              selectedDate={selectedDate}
+              pair={measuredPair}
+              spanDays={measurementSpanDays}
+              onPairChange={onMeasuredPairChange}
+              onSwap={onSwapMeasuredPair}
+              onSpanChange={onMeasurementSpanChange}
+              onClose={onToggleMeasuring}
+            />
+          )}
+          {isPlanningTransfer && (
+            <TransferPanel
+              selectedDate={selectedDate}
+              route={transferRoute}
+              transfer={transfer}
+              onRouteChange={onTransferRouteChange}
+              onTransferSelect={onTransferSelect}
+              onDateChange={onDateChange}
+              onClose={onToggleTransferPlanner}
+            />
+          )}
+          {isShowingMissions && (
+            <MissionPanel
+              selectedDate={selectedDate}
+              onFollowFromLaunch={onFollowMissionFromLaunch}
+              onFollow={onFollowMission}
+              onClose={onToggleMissions}
+            />
+          )}
+        </div>
+      )}
+
+      {isSkyView && !selectedPlanet && (
+        <div className="absolute top-16 right-4 z-controls">
+          <SkyViewPanel
+            clock={clock}
+            observer={observer}
+            onObserverChange={onObserverChange}
+          />
+        </div>
+      )}
+
+      {!isSkyView && !selectedPlanet && (
+        <div className="absolute top-16 right-4 z-controls flex flex-col items-end gap-2">
+          <BodyList
+            focus={cameraFocus}
+            onFlyTo={onFlyTo}
+            onRelease={onReleaseCamera}
+          />
+          {showSmallBodies && (
+            <SmallBodyPanel
+              bodies={smallBodies}
+              followedName={
+                cameraFocus?.following ? cameraFocus.body.name : null
+              }
+              onFlyTo={onFlyToSmallBody}
+              onImport={onImportSmallBodies}
+              onClearImported={onClearImportedSmallBodies}
+              importedCount={importedSmallBodyCount}
+              lastImport={lastSmallBodyImport}
+            />
+          )}
         </div>
       )}
 
       <ControlModal
         simulationSpeed={simulationSpeed}
         onSpeedChange={onSpeedChange}
+        isPaused={isPaused}
+        onTogglePause={onTogglePause}
+        onStep={onStep}
+        canStep={canStep}
         isVisible={controlModalVisible}
         onToggleVisibility={onToggleControlModalVisibility}
         showPlanetLabels={showPlanetLabels}
@@ -80,20 +352,37 @@ export function SolarSystemOverlays({
         onToggleOrbitPath={onToggleOrbitPath}
         showBeltRegions={showBeltRegions}
         onToggleBeltRegions={onToggleBeltRegions}
+        showConstellations={showConstellations}
+        onToggleConstellations={onToggleConstellations}
+        showSmallBodies={showSmallBodies}
+        onToggleSmallBodies={onToggleSmallBodies}
         disabled={isDateMode}
         modalAutoRotate={modalAutoRotate}
         onToggleModalAutoRotate={onToggleModalAutoRotate}
         isPlanetModalOpen={selectedPlanet !== null}
+        scaleMode={scaleMode}
+        onScaleModeChange={onScaleModeChange}
       />
 
       {!selectedPlanet && (
         <div className="absolute bottom-4 left-4 text-white bg-black/80 p-2 rounded-md text-xs max-w-[180px]">
           <div className="flex flex-col space-y-1">
             <p>• Click objects for info</p>
+            <p>• Click labels or press 0–9 to fly to a body</p>
+            <p>• Press Ctrl+K or / to search</p>
           </div>
         </div>
       )}
 
+      {!selectedPlanet && (
+        <CommandPalette
+          isOpen={isCommandPaletteOpen}
+          onClose={onCloseCommandPalette}
+          onSelect={onCommandPaletteSelect}
+        />
+      )}
+
+      {!selectedPlanet && <CopyLinkButton getUrl={getShareUrl} />}
       {!selectedPlanet && <GitHubButton />}
       {process.env.NODE_ENV === "development" && <MemoryMonitor />}
     </>
@@ -1,33 +1,92 @@
-import { OrbitControls, Stars } from "@react-three/drei";
+import type { RefObject } from "react";
+import type { Vector3Tuple } from "three";
+import { OrbitControls } from "@react-three/drei";
 import { PlanetData } from "@/data/planet-types";
-import { planetData } from "@/data/planet-data";
+import { planetData, sunData } from "@/data/planet-data";
+import { dwarfPlanetData } from "@/data/dwarf-planet-data";
 import { BeltRegions } from "@/features/belt-regions/ui/index";
 import { Planet } from "@/features/planet-rendering/ui/planet/index";
 import { Sun } from "@/features/planet-rendering/ui/planet/sun";
+import { StarField } from "@/features/star-catalog/ui/star-field";
+import { MeasurementLine } from "@/features/distance-measurement/ui/measurement-line";
+import type { MeasuredPair } from "@/features/distance-measurement/application/useDistanceMeasurement";
+import { TransferArc } from "@/features/transfer-planner/ui/transfer-arc";
+import type { TransferSolution } from "@/features/transfer-planner/domain/transfer-orbit";
+import { MissionPaths } from "@/features/missions/ui/mission-paths";
+import type { MissionData } from "@/features/missions/data/mission-types";
+import { SmallBodies } from "@/features/small-bodies/ui/small-bodies";
+import type { SmallBody } from "@/features/small-bodies/data/small-body-types";
+import { CameraController } from "@/features/camera-control/ui/camera-controller";
+import type { CameraFocus } from "@/features/camera-control/application/useCameraFocus";
+import {
+  FREE_ORBIT_MIN_DISTANCE,
+  MAX_VIEW_DISTANCE,
+  getFocusMinDistance,
+} from "@/features/camera-control/domain/camera-flight";
 import type { SimulationMode } from "@/features/simulation-control/state/simulation-mode-context";
+import type { SimulationClock } from "@/features/simulation-control/domain/simulation-clock";
+import type { CameraControls } from "@/features/share-link/application/useShareableViewState";
+import {
+  getBodySizeScale,
+  type ScaleStrategy,
+} from "@/features/view-scale/domain/scale-strategy";
 
 type SceneContentProps = {
   simulationSpeed: number;
   simulationMode: SimulationMode;
-  selectedDate: Date;
+  clock: SimulationClock;
   onSunClick: () => void;
   onPlanetClick: (planet: PlanetData) => void;
+  onFlyTo: (body: PlanetData) => void;
   selectedPlanet: PlanetData | null;
   showPlanetLabels: boolean;
   showOrbitPath: boolean;
   showBeltRegions: boolean;
+  showConstellations: boolean;
+  cameraFocus: CameraFocus | null;
+  scale: ScaleStrategy;
+  /** Names of the bodies in the chosen event */
+  highlightedPlanets: string[];
+  /** Bodies joined by the measurement line, or null when not measuring */
+  measuredPair: MeasuredPair | null;
+  /** Date the measurement is taken on */
+  measurementDate: Date;
+  /** Transfer drawn from launch to arrival, or null */
+  transfer: TransferSolution | null;
+  /** Whether the spacecraft paths are drawn */
+  showMissions: boolean;
+  onFollowMission: (mission: MissionData) => void;
+  /** Comets and asteroids drawn, empty when they are hidden */
+  smallBodies: SmallBody[];
+  onSmallBodyClick: (body: SmallBody) => void;
+  controlsRef?: RefObject<CameraControls | null>;
+  cameraTarget?: Vector3Tuple;
 };
 
 export function SceneContent({
   simulationSpeed,
   simulationMode,
-  selectedDate,
+  clock,
   onSunClick,
   onPlanetClick,
+  onFlyTo,
   selectedPlanet,
   showPlanetLabels,
   showOrbitPath,
   showBeltRegions,
+  showConstellations,
+  cameraFocus,
+  scale,
+  highlightedPlanets,
+  measuredPair,
+  measurementDate,
+  transfer,
+  showMissions,
+  onFollowMission,
+  smallBodies,
+  onSmallBodyClick,
+  controlsRef,
+  cameraTarget,
 }: SceneContentProps) {
   return (
     <>
@@ -38,39 +97,70 @@ export function SceneContent({
         onClick={onSunClick}
         simulationSpeed={simulationSpeed}
         simulationMode={simulationMode}
+        sizeScale={getBodySizeScale(sunData, scale)}
       />
-      {planetData.map((planet) => (
+      {[...planetData, ...dwarfPlanetData].map((planet) => (
         <Planet
           key={planet.name}
           planet={planet}
           simulationSpeed={simulationSpeed}
           simulationMode={simulationMode}
-          selectedDate={selectedDate}
+          clock={clock}
           onClick={onPlanetClick}
+          onLabelClick={onFlyTo}
           showLabels={showPlanetLabels && !selectedPlanet}
           showOrbitPath={showOrbitPath}
+          scale={scale}
+          highlighted={
+            !selectedPlanet && highlightedPlanets.includes(planet.name)
+          }
         />
       ))}
-      <BeltRegions visible={showBeltRegions} />
-      <Stars
+      <BeltRegions visible={showBeltRegions} clock={clock} scale={scale} />
+      <SmallBodies
+        bodies={smallBodies}
+        clock={clock}
+        scale={scale}
+        showLabels={showPlanetLabels && !selectedPlanet}
+        onLabelClick={onSmallBodyClick}
+      />
+      {measuredPair && (
+        <MeasurementLine
+          from={measuredPair.from}
+          to={measuredPair.to}
+          date={measurementDate}
+        />
+      )}
+      {transfer && (
+        <TransferArc transfer={transfer} clock={clock} scale={scale} />
+      )}
+      {showMissions && (
+        <MissionPaths clock={clock} scale={scale} onFollow={onFollowMission} />
+      )}
+      <StarField
         radius={60000}
-        depth={2000}
-        count={3000}
-        factor={4}
-        saturation={1}
-        fade
-        speed={1}
+        showConstellations={showConstellations}
+        followCamera
       />
       <OrbitControls
+        ref={(controls) => {
+          if (controlsRef) controlsRef.current = controls;
+        }}
+        target={cameraTarget}
         makeDefault
         enableZoom
         enableRotate
-        minDistance={100}
-        maxDistance={60000}
+        minDistance={
+          cameraFocus
+            ? getFocusMinDistance(cameraFocus.body, scale)
+            : FREE_ORBIT_MIN_DISTANCE
+        }
+        maxDistance={MAX_VIEW_DISTANCE}
         zoomSpeed={1.2}
         enableDamping
         dampingFactor={0.05}
       />
+      <CameraController focus={cameraFocus} scale={scale} />
     </>
   );
 }
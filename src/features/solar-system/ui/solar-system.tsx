@@ -4,27 +4,83 @@ import { Canvas } from "@react-three/fiber";
 import { SolarSystemProviders } from "@/features/solar-system/application/solar-system-providers";
 import { useSolarSystemController } from "@/features/solar-system/application/useSolarSystemController";
 import { SceneContent } from "@/features/solar-system/ui/scene-content";
+import { SkyScene } from "@/features/sky-view/ui/sky-scene";
 import { SolarSystemOverlays } from "@/features/solar-system/ui/overlays";
+import { useShareableViewState } from "@/features/share-link/application/useShareableViewState";
+import { useBodyShortcuts } from "@/features/camera-control/application/useBodyShortcuts";
+import { useCommandPalette } from "@/features/command-palette/application/useCommandPalette";
+import { useServiceWorker } from "@/features/offline/application/useServiceWorker";
+import { usePlanetCatalogWarmup } from "@/features/planet-catalog/application/usePlanetCatalogWarmup";
 
 function SolarSystemContent() {
   const controller = useSolarSystemController();
+  const { controlsRef, initialCamera, getShareUrl } =
+    useShareableViewState(controller);
+
+  const commandPalette = useCommandPalette(!controller.isPlanetModalOpen);
+
+  useServiceWorker();
+  usePlanetCatalogWarmup();
+
+  useBodyShortcuts({
+    onFlyTo: controller.flyToBody,
+    onRelease: controller.releaseCamera,
+    enabled:
+      !controller.isPlanetModalOpen &&
+      !commandPalette.isOpen &&
+      !controller.isSkyView,
+  });
 
   return (
     <div className="w-full h-screen relative bg-gradient-to-b from-black via-gray-900 to-black overflow-hidden">
       <Canvas
-        camera={{ position: [0, 2000, 4000], fov: 60, near: 0.1, far: 120000 }}
+        camera={{
+          position: initialCamera?.position ?? [0, 2000, 4000],
+          fov: 60,
+          near: 0.1,
+          far: 120000,
+        }}
       >
-        <SceneContent
-          simulationSpeed={controller.simulationSpeed}
-          simulationMode={controller.mode}
-          selectedDate={controller.selectedDate}
-          onSunClick={controller.handleSunClick}
-          onPlanetClick={controller.handlePlanetClick}
-          selectedPlanet={controller.selectedPlanet}
-          showPlanetLabels={controller.showPlanetLabels}
-          showOrbitPath={controller.showOrbitPath}
-          showBeltRegions={controller.showBeltRegions}
-        />
+        {controller.isSkyView ? (
+          <SkyScene
+            clock={controller.clock}
+            observer={controller.observer}
+            showConstellations={controller.showConstellations}
+            onBodyClick={controller.handlePlanetClick}
+          />
+        ) : (
+          <SceneContent
+            simulationSpeed={controller.effectiveSpeed}
+            simulationMode={controller.mode}
+            clock={controller.clock}
+            onSunClick={controller.handleSunClick}
+            onPlanetClick={controller.handlePlanetClick}
+            onFlyTo={controller.flyToBody}
+            selectedPlanet={controller.selectedPlanet}
+            showPlanetLabels={controller.showPlanetLabels}
+            showOrbitPath={controller.showOrbitPath}
+            showBeltRegions={controller.showBeltRegions}
+            showConstellations={controller.showConstellations}
+            cameraFocus={controller.cameraFocus}
+            scale={controller.scale}
+            highlightedPlanets={controller.highlightedPlanets}
+            measuredPair={
+              controller.isMeasurementShown ? controller.measuredPair : null
+            }
+            measurementDate={controller.selectedDate}
+            transfer={
+              controller.isTransferPlannerShown ? controller.transfer : null
+            }
+            showMissions={controller.isMissionsShown}
+            onFollowMission={controller.followMission}
+            smallBodies={
+              controller.showSmallBodies ? controller.smallBodies : []
+            }
+            onSmallBodyClick={controller.flyToSmallBody}
+            controlsRef={controlsRef}
+            cameraTarget={initialCamera?.target}
+          />
+        )}
       </Canvas>
 
       <SolarSystemOverlays
@@ -32,11 +88,42 @@ function SolarSystemContent() {
         mode={controller.mode}
         isDateMode={controller.isDateMode}
         selectedDate={controller.selectedDate}
+        clock={controller.clock}
         onCloseInfo={controller.handleCloseInfo}
         onModeToggle={controller.handleModeToggle}
         onDateChange={controller.setSelectedDate}
+        onEventSelect={controller.handleEventSelect}
+        highlightedPlanets={controller.highlightedPlanets}
+        onClearHighlight={controller.clearHighlight}
+        isMeasuring={controller.isMeasurementShown}
+        onToggleMeasuring={controller.toggleMeasuring}
+        measuredPair={controller.measuredPair}
+        onMeasuredPairChange={controller.setMeasuredPair}
+        onSwapMeasuredPair={controller.swapMeasuredPair}
+        measurementSpanDays={controller.measurementSpanDays}
+        onMeasurementSpanChange={controller.setMeasurementSpanDays}
+        isPlanningTransfer={controller.isTransferPlannerShown}
+        onToggleTransferPlanner={controller.toggleTransferPlanner}
+        transferRoute={controller.transferRoute}
+        onTransferRouteChange={controller.setTransferRoute}
+        transfer={controller.transfer}
+        onTransferSelect={controller.setTransfer}
+        isShowingMissions={controller.isMissionsShown}
+        onToggleMissions={controller.toggleMissions}
+        onFollowMission={controller.followMission}
+        onFollowMissionFromLaunch={controller.followMissionFromLaunch}
+        smallBodies={controller.smallBodies}
+        onFlyToSmallBody={controller.flyToSmallBody}
+        onImportSmallBodies={controller.importSmallBodies}
+        onClearImportedSmallBodies={controller.clearImportedSmallBodies}
+        importedSmallBodyCount={controller.importedSmallBodyCount}
+        lastSmallBodyImport={controller.lastSmallBodyImport}
         simulationSpeed={controller.simulationSpeed}
         onSpeedChange={controller.setSimulationSpeed}
+        isPaused={controller.isPaused}
+        onTogglePause={controller.togglePause}
+        onStep={controller.handleStep}
+        canStep={controller.canStep}
         controlModalVisible={controller.controlModalVisible}
         onToggleControlModalVisibility={controller.setControlModalVisible}
         showPlanetLabels={controller.showPlanetLabels}
@@ -45,8 +132,26 @@ function SolarSystemContent() {
         onToggleOrbitPath={controller.setShowOrbitPath}
         showBeltRegions={controller.showBeltRegions}
         onToggleBeltRegions={controller.setShowBeltRegions}
+        showConstellations={controller.showConstellations}
+        onToggleConstellations={controller.setShowConstellations}
+        showSmallBodies={controller.showSmallBodies}
+        onToggleSmallBodies={controller.setShowSmallBodies}
         modalAutoRotate={controller.modalAutoRotate}
         onToggleModalAutoRotate={controller.setModalAutoRotate}
+        getShareUrl={getShareUrl}
+        cameraFocus={controller.cameraFocus}
+        onFlyTo={controller.flyToBody}
+        onReleaseCamera={controller.releaseCamera}
+        isCommandPaletteOpen={commandPalette.isOpen}
+        onOpenCommandPalette={commandPalette.open}
+        onCloseCommandPalette={commandPalette.close}
+        onCommandPaletteSelect={controller.handlePaletteSelect}
+        scaleMode={controller.scaleMode}
+        onScaleModeChange={controller.setScaleMode}
+        isSkyView={controller.isSkyView}
+        onToggleSkyView={controller.toggleSkyView}
+        observer={controller.observer}
+        onObserverChange={controller.setObserver}
       />
     </div>
   );
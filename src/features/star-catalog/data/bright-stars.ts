@@ -0,0 +1,258 @@
+import type { StarRow } from "@/features/star-catalog/data/star-types";
+
+/**
+ * Bright star catalogue
+ * J2000 position, visual magnitude and B–V colour index of the brightest
+ * stars and of every star in the constellation figures, in right ascension
+ * order. Rows follow the Yale Bright Star Catalogue columns, so fainter
+ * stars can be appended in the same format.
+ */
+export const BRIGHT_STAR_ROWS: readonly StarRow[] = [
+  ["α And", "Alpheratz", "00 08 23.3", "+29 05 26", 2.06, -0.11],
+  ["β Cas", "Caph", "00 09 10.7", "+59 08 59", 2.28, 0.34],
+  ["γ Peg", "Algenib", "00 13 14.2", "+15 11 01", 2.83, -0.23],
+  ["δ And", "", "00 39 19.7", "+30 51 40", 3.27, 1.27],
+  ["α Cas", "Schedar", "00 40 30.4", "+56 32 14", 2.24, 1.17],
+  ["β Cet", "Diphda", "00 43 35.4", "-17 59 12", 2.04, 1.02],
+  ["δ Psc", "", "00 48 40.9", "+07 35 06", 4.43, 1.50],
+  ["γ Cas", "", "00 56 42.5", "+60 43 00", 2.47, -0.15],
+  ["ε Psc", "", "01 02 56.6", "+07 53 24", 4.28, 0.96],
+  ["β And", "Mirach", "01 09 43.9", "+35 37 14", 2.05, 1.58],
+  ["τ Psc", "", "01 11 39.6", "+30 05 23", 4.51, 1.09],
+  ["φ Psc", "", "01 13 44.9", "+24 35 01", 4.65, 1.05],
+  ["υ Psc", "", "01 19 27.9", "+27 15 51", 4.76, 0.03],
+  ["δ Cas", "Ruchbah", "01 25 48.9", "+60 14 07", 2.68, 0.13],
+  ["μ Psc", "", "01 30 11.1", "+06 08 38", 4.84, 1.37],
+  ["η Psc", "Alpherg", "01 31 29.0", "+15 20 45", 3.62, 0.97],
+  ["α Eri", "Achernar", "01 37 42.8", "-57 14 12", 0.46, -0.16],
+  ["ν Psc", "", "01 41 25.9", "+05 29 15", 4.44, 1.36],
+  ["ο Psc", "", "01 45 23.6", "+09 09 28", 4.26, 0.96],
+  ["γ Ari", "Mesarthim", "01 53 31.8", "+19 17 38", 3.88, -0.04],
+  ["ξ Psc", "", "01 53 33.3", "+03 11 15", 4.62, 0.94],
+  ["ε Cas", "Segin", "01 54 23.7", "+63 40 12", 3.37, -0.15],
+  ["β Ari", "Sheratan", "01 54 38.4", "+20 48 29", 2.64, 0.13],
+  ["α Psc", "Alrescha", "02 02 02.8", "+02 45 49", 3.82, 0.03],
+  ["γ And", "Almach", "02 03 53.9", "+42 19 47", 2.26, 1.37],
+  ["α Ari", "Hamal", "02 07 10.4", "+23 27 45", 2.01, 1.15],
+  ["α UMi", "Polaris", "02 31 49.1", "+89 15 51", 1.98, 0.60],
+  ["41 Ari", "Bharani", "02 49 59.0", "+27 15 38", 3.63, -0.10],
+  ["α Cet", "Menkar", "03 02 16.8", "+04 05 23", 2.54, 1.64],
+  ["γ Per", "", "03 04 47.8", "+53 30 23", 2.93, 0.70],
+  ["β Per", "Algol", "03 08 10.1", "+40 57 20", 2.12, -0.05],
+  ["α Per", "Mirfak", "03 24 19.4", "+49 51 40", 1.79, 0.48],
+  ["ο Tau", "", "03 24 48.8", "+09 01 44", 3.60, 0.89],
+  ["δ Per", "", "03 42 55.5", "+47 47 16", 3.01, -0.13],
+  ["η Tau", "Alcyone", "03 47 29.1", "+24 06 18", 2.87, -0.09],
+  ["ζ Per", "", "03 54 07.9", "+31 53 01", 2.85, 0.12],
+  ["ε Per", "", "03 57 51.2", "+40 00 37", 2.89, -0.18],
+  ["λ Tau", "", "04 00 40.8", "+12 29 25", 3.47, -0.12],
+  ["γ Tau", "Prima Hyadum", "04 19 47.6", "+15 37 39", 3.65, 0.99],
+  ["δ1 Tau", "", "04 22 56.1", "+17 32 33", 3.76, 0.98],
+  ["ε Tau", "Ain", "04 28 37.0", "+19 10 50", 3.53, 1.01],
+  ["θ2 Tau", "", "04 28 39.7", "+15 52 15", 3.40, 0.18],
+  ["α Tau", "Aldebaran", "04 35 55.2", "+16 30 33", 0.87, 1.54],
+  ["π3 Ori", "", "04 49 50.4", "+06 57 41", 3.19, 0.45],
+  ["ι Aur", "Hassaleh", "04 56 59.6", "+33 09 58", 2.69, 1.53],
+  ["ε Aur", "Almaaz", "05 01 58.1", "+43 49 24", 2.99, 0.54],
+  ["η Aur", "", "05 06 30.9", "+41 14 04", 3.17, -0.18],
+  ["β Ori", "Rigel", "05 14 32.3", "-08 12 06", 0.13, -0.03],
+  ["α Aur", "Capella", "05 16 41.4", "+45 59 53", 0.08, 0.80],
+  ["γ Ori", "Bellatrix", "05 25 07.9", "+06 20 59", 1.64, -0.22],
+  ["β Tau", "Elnath", "05 26 17.5", "+28 36 27", 1.65, -0.13],
+  ["β Lep", "", "05 28 14.7", "-20 45 34", 2.84, 0.82],
+  ["δ Ori", "Mintaka", "05 32 00.4", "-00 17 57", 2.23, -0.22],
+  ["α Lep", "Arneb", "05 32 43.8", "-17 49 20", 2.58, 0.21],
+  ["λ Ori", "Meissa", "05 35 08.3", "+09 56 03", 3.39, -0.18],
+  ["ε Ori", "Alnilam", "05 36 12.8", "-01 12 07", 1.69, -0.18],
+  ["ζ Tau", "Tianguan", "05 37 38.7", "+21 08 33", 3.00, -0.19],
+  ["α Col", "Phact", "05 39 38.9", "-34 04 27", 2.64, -0.12],
+  ["ζ Ori", "Alnitak", "05 40 45.5", "-01 56 34", 1.77, -0.21],
+  ["κ Ori", "Saiph", "05 47 45.4", "-09 40 11", 2.09, -0.17],
+  ["α Ori", "Betelgeuse", "05 55 10.3", "+07 24 25", 0.50, 1.85],
+  ["β Aur", "Menkalinan", "05 59 31.7", "+44 56 51", 1.90, 0.08],
+  ["θ Aur", "", "05 59 43.3", "+37 12 45", 2.62, -0.08],
+  ["η Gem", "Propus", "06 14 52.7", "+22 30 24", 3.28, 1.60],
+  ["ζ CMa", "Furud", "06 20 18.8", "-30 03 48", 3.02, -0.19],
+  ["β CMa", "Mirzam", "06 22 42.0", "-17 57 21", 1.98, -0.23],
+  ["μ Gem", "Tejat", "06 22 57.6", "+22 30 49", 2.88, 1.64],
+  ["α Car", "Canopus", "06 23 57.1", "-52 41 45", -0.74, 0.15],
+  ["γ Gem", "Alhena", "06 37 42.7", "+16 23 57", 1.93, 0.00],
+  ["ε Gem", "Mebsuta", "06 43 55.9", "+25 07 52", 2.98, 1.40],
+  ["α CMa", "Sirius", "06 45 08.9", "-16 42 58", -1.46, 0.00],
+  ["ξ Gem", "Alzirr", "06 45 17.4", "+12 53 44", 3.36, 0.43],
+  ["ε CMa", "Adhara", "06 58 37.5", "-28 58 20", 1.50, -0.21],
+  ["δ CMa", "Wezen", "07 08 23.5", "-26 23 36", 1.84, 0.68],
+  ["δ Gem", "Wasat", "07 20 07.4", "+21 58 56", 3.53, 0.34],
+  ["η CMa", "Aludra", "07 24 05.7", "-29 18 11", 2.45, -0.08],
+  ["β CMi", "Gomeisa", "07 27 09.0", "+08 17 22", 2.90, -0.09],
+  ["α Gem", "Castor", "07 34 36.0", "+31 53 18", 1.58, 0.03],
+  ["α CMi", "Procyon", "07 39 18.1", "+05 13 30", 0.34, 0.42],
+  ["κ Gem", "", "07 44 26.8", "+24 23 53", 3.57, 0.93],
+  ["β Gem", "Pollux", "07 45 18.9", "+28 01 34", 1.14, 1.00],
+  ["ζ Pup", "Naos", "08 03 35.0", "-40 00 12", 2.21, -0.27],
+  ["γ Vel", "", "08 09 31.9", "-47 20 12", 1.83, -0.22],
+  ["β Cnc", "Tarf", "08 16 30.9", "+09 11 08", 3.52, 1.48],
+  ["ε Car", "Avior", "08 22 30.8", "-59 30 34", 1.86, 1.28],
+  ["ο UMa", "", "08 30 15.9", "+60 43 05", 3.36, 0.85],
+  ["γ Cnc", "Asellus Borealis", "08 43 17.1", "+21 28 07", 4.66, 0.02],
+  ["δ Cnc", "Asellus Australis", "08 44 41.1", "+18 09 15", 3.94, 1.08],
+  ["δ Vel", "", "08 44 42.2", "-54 42 32", 1.96, 0.04],
+  ["ι Cnc", "", "08 46 41.8", "+28 45 36", 4.02, 1.00],
+  ["α Cnc", "Acubens", "08 58 29.2", "+11 51 28", 4.25, 0.14],
+  ["ι UMa", "", "08 59 12.5", "+48 02 30", 3.14, 0.19],
+  ["κ UMa", "", "09 03 37.5", "+47 09 24", 3.60, 0.00],
+  ["λ Vel", "Suhail", "09 07 59.8", "-43 25 57", 2.21, 1.66],
+  ["β Car", "Miaplacidus", "09 13 12.0", "-69 43 02", 1.68, 0.00],
+  ["ι Car", "Aspidiske", "09 17 05.4", "-59 16 31", 2.21, 0.18],
+  ["κ Vel", "", "09 22 06.8", "-55 00 39", 2.50, -0.18],
+  ["α Hya", "Alphard", "09 27 35.2", "-08 39 31", 1.98, 1.44],
+  ["θ UMa", "", "09 32 51.4", "+51 40 38", 3.17, 0.46],
+  ["ε Leo", "", "09 45 51.1", "+23 46 27", 2.98, 0.81],
+  ["μ Leo", "", "09 52 45.8", "+26 00 25", 3.88, 1.22],
+  ["η Leo", "", "10 07 19.9", "+16 45 45", 3.48, -0.03],
+  ["α Leo", "Regulus", "10 08 22.3", "+11 58 02", 1.35, -0.11],
+  ["ζ Leo", "Adhafera", "10 16 41.4", "+23 25 02", 3.44, 0.31],
+  ["λ UMa", "", "10 17 05.8", "+42 54 52", 3.45, 0.03],
+  ["γ Leo", "Algieba", "10 19 58.4", "+19 50 29", 2.08, 1.15],
+  ["μ UMa", "", "10 22 19.7", "+41 29 58", 3.05, 1.59],
+  ["β UMa", "Merak", "11 01 50.5", "+56 22 57", 2.37, -0.02],
+  ["α UMa", "Dubhe", "11 03 43.7", "+61 45 03", 1.79, 1.07],
+  ["ψ UMa", "", "11 09 39.8", "+44 29 55", 3.01, 1.14],
+  ["δ Leo", "Zosma", "11 14 06.5", "+20 31 25", 2.56, 0.12],
+  ["θ Leo", "Chertan", "11 14 14.4", "+15 25 46", 3.34, -0.01],
+  ["ν UMa", "", "11 18 28.7", "+33 05 39", 3.48, 1.40],
+  ["χ UMa", "", "11 46 03.0", "+47 46 46", 3.71, 1.18],
+  ["β Leo", "Denebola", "11 49 03.6", "+14 34 19", 2.14, 0.09],
+  ["β Vir", "Zavijava", "11 50 41.7", "+01 45 53", 3.61, 0.55],
+  ["γ UMa", "Phecda", "11 53 49.8", "+53 41 41", 2.44, 0.00],
+  ["δ Cru", "Imai", "12 15 08.7", "-58 44 56", 2.79, -0.19],
+  ["δ UMa", "Megrez", "12 15 25.6", "+57 01 57", 3.31, 0.08],
+  ["η Vir", "Zaniah", "12 19 54.4", "-00 40 00", 3.89, 0.02],
+  ["ε Cru", "", "12 21 21.6", "-60 24 04", 3.59, 1.42],
+  ["α Cru", "Acrux", "12 26 35.9", "-63 05 57", 0.76, -0.24],
+  ["γ Cru", "Gacrux", "12 31 10.0", "-57 06 48", 1.64, 1.59],
+  ["γ Cen", "", "12 41 31.0", "-48 57 35", 2.17, -0.01],
+  ["γ Vir", "Porrima", "12 41 39.6", "-01 26 58", 2.74, 0.36],
+  ["β Cru", "Mimosa", "12 47 43.3", "-59 41 19", 1.25, -0.23],
+  ["ε UMa", "Alioth", "12 54 01.7", "+55 57 35", 1.77, -0.02],
+  ["δ Vir", "", "12 55 36.2", "+03 23 51", 3.38, 1.58],
+  ["ε Vir", "Vindemiatrix", "13 02 10.6", "+10 57 33", 2.83, 0.94],
+  ["ζ UMa", "Mizar", "13 23 55.5", "+54 55 31", 2.27, 0.02],
+  ["α Vir", "Spica", "13 25 11.6", "-11 09 41", 0.97, -0.23],
+  ["ζ Vir", "", "13 34 41.6", "-00 35 45", 3.37, 0.11],
+  ["ε Cen", "", "13 39 53.3", "-53 27 59", 2.30, -0.22],
+  ["η UMa", "Alkaid", "13 47 32.4", "+49 18 48", 1.86, -0.19],
+  ["η Boo", "Muphrid", "13 54 41.1", "+18 23 52", 2.68, 0.58],
+  ["β Cen", "Hadar", "14 03 49.4", "-60 22 23", 0.61, -0.23],
+  ["θ Cen", "Menkent", "14 06 41.0", "-36 22 12", 2.06, 1.01],
+  ["α Boo", "Arcturus", "14 15 39.7", "+19 10 57", -0.05, 1.23],
+  ["ρ Boo", "", "14 31 49.8", "+30 22 17", 3.58, 1.30],
+  ["γ Boo", "Seginus", "14 32 04.7", "+38 18 30", 3.03, 0.19],
+  ["η Cen", "", "14 35 30.4", "-42 09 28", 2.31, -0.19],
+  ["α Cen", "Rigil Kentaurus", "14 39 36.5", "-60 50 02", -0.27, 0.71],
+  ["ζ Boo", "", "14 41 08.9", "+13 43 42", 3.78, 0.05],
+  ["μ Vir", "", "14 43 03.6", "-05 39 30", 3.88, 0.38],
+  ["ε Boo", "Izar", "14 44 59.2", "+27 04 27", 2.37, 0.97],
+  ["β UMi", "Kochab", "14 50 42.3", "+74 09 20", 2.08, 1.47],
+  ["α2 Lib", "Zubenelgenubi", "14 50 52.7", "-16 02 30", 2.75, 0.15],
+  ["β Boo", "Nekkar", "15 01 56.8", "+40 23 26", 3.58, 0.97],
+  ["σ Lib", "", "15 04 04.2", "-25 16 55", 3.29, 1.70],
+  ["δ Boo", "", "15 15 30.2", "+33 18 53", 3.47, 0.95],
+  ["β Lib", "Zubeneschamali", "15 17 00.4", "-09 22 59", 2.61, -0.07],
+  ["γ UMi", "Pherkad", "15 20 43.7", "+71 50 02", 3.05, 0.05],
+  ["α CrB", "Alphecca", "15 34 41.3", "+26 42 53", 2.23, -0.02],
+  ["γ Lib", "", "15 35 31.6", "-14 47 22", 3.91, 1.01],
+  ["ζ UMi", "", "15 44 03.5", "+77 47 40", 4.32, 0.04],
+  ["α Ser", "Unukalhai", "15 44 16.1", "+06 25 32", 2.63, 1.17],
+  ["π Sco", "", "15 58 51.1", "-26 06 51", 2.89, -0.19],
+  ["δ Sco", "Dschubba", "16 00 20.0", "-22 37 18", 2.29, -0.12],
+  ["β1 Sco", "Acrab", "16 05 26.2", "-19 48 19", 2.62, -0.07],
+  ["η UMi", "", "16 17 30.3", "+75 45 19", 4.95, 0.37],
+  ["σ Sco", "", "16 21 11.3", "-25 35 34", 2.89, 0.13],
+  ["η Dra", "", "16 23 59.5", "+61 30 51", 2.74, 0.91],
+  ["α Sco", "Antares", "16 29 24.5", "-26 25 55", 1.06, 1.83],
+  ["β Her", "Kornephoros", "16 30 13.2", "+21 29 23", 2.78, 0.94],
+  ["τ Sco", "", "16 35 53.0", "-28 12 58", 2.82, -0.25],
+  ["ζ Oph", "", "16 37 09.5", "-10 34 02", 2.56, 0.02],
+  ["ζ Her", "", "16 41 17.2", "+31 36 10", 2.81, 0.65],
+  ["ε UMi", "", "16 45 58.2", "+82 02 14", 4.21, 0.89],
+  ["α TrA", "Atria", "16 48 39.9", "-69 01 40", 1.92, 1.44],
+  ["ε Sco", "Larawag", "16 50 09.8", "-34 17 36", 2.29, 1.15],
+  ["μ1 Sco", "", "16 51 52.2", "-38 02 51", 3.04, -0.20],
+  ["ζ2 Sco", "", "16 54 35.0", "-42 21 41", 3.62, 1.37],
+  ["η Oph", "Sabik", "17 10 22.7", "-15 43 29", 2.43, 0.06],
+  ["η Sco", "", "17 12 09.2", "-43 14 21", 3.33, 0.41],
+  ["β Dra", "Rastaban", "17 30 26.0", "+52 18 05", 2.79, 0.98],
+  ["υ Sco", "Lesath", "17 30 45.8", "-37 17 45", 2.70, -0.22],
+  ["δ UMi", "Yildun", "17 32 12.9", "+86 35 11", 4.36, 0.02],
+  ["λ Sco", "Shaula", "17 33 36.5", "-37 06 14", 1.62, -0.22],
+  ["α Oph", "Rasalhague", "17 34 56.1", "+12 33 36", 2.07, 0.15],
+  ["θ Sco", "Sargas", "17 37 19.1", "-42 59 52", 1.86, 0.40],
+  ["κ Sco", "", "17 42 29.3", "-39 01 48", 2.39, -0.22],
+  ["ι1 Sco", "", "17 47 35.1", "-40 07 37", 2.99, 0.51],
+  ["γ Dra", "Eltanin", "17 56 36.4", "+51 29 20", 2.23, 1.52],
+  ["γ2 Sgr", "Alnasl", "18 05 48.5", "-30 25 27", 2.99, 1.00],
+  ["η Sgr", "", "18 17 37.6", "-36 45 42", 3.11, 1.56],
+  ["δ Sgr", "Kaus Media", "18 20 59.6", "-29 49 41", 2.70, 1.38],
+  ["ε Sgr", "Kaus Australis", "18 24 10.3", "-34 23 05", 1.85, -0.03],
+  ["λ Sgr", "Kaus Borealis", "18 27 58.2", "-25 25 18", 2.81, 1.04],
+  ["α Lyr", "Vega", "18 36 56.3", "+38 47 01", 0.03, 0.00],
+  ["ζ1 Lyr", "", "18 44 46.3", "+37 36 18", 4.36, 0.19],
+  ["φ Sgr", "", "18 45 39.4", "-26 59 27", 3.17, -0.11],
+  ["β Lyr", "Sheliak", "18 50 04.8", "+33 21 46", 3.52, 0.00],
+  ["δ2 Lyr", "", "18 54 30.3", "+36 53 55", 4.30, 1.68],
+  ["σ Sgr", "Nunki", "18 55 15.9", "-26 17 48", 2.05, -0.22],
+  ["γ Lyr", "Sulafat", "18 58 56.6", "+32 41 22", 3.24, -0.05],
+  ["ζ Sgr", "Ascella", "19 02 36.7", "-29 52 49", 2.60, 0.08],
+  ["ζ Aql", "", "19 05 24.6", "+13 51 48", 2.99, 0.01],
+  ["λ Aql", "", "19 06 14.9", "-04 52 57", 3.44, -0.09],
+  ["τ Sgr", "", "19 06 56.4", "-27 40 14", 3.32, 1.19],
+  ["π Sgr", "Albaldah", "19 09 45.8", "-21 01 25", 2.89, 0.35],
+  ["δ Aql", "", "19 25 29.9", "+03 06 53", 3.36, 0.32],
+  ["β Cyg", "Albireo", "19 30 43.3", "+27 57 35", 3.08, 1.13],
+  ["δ Cyg", "", "19 44 58.5", "+45 07 51", 2.87, -0.03],
+  ["γ Aql", "Tarazed", "19 46 15.6", "+10 36 48", 2.72, 1.52],
+  ["α Aql", "Altair", "19 50 47.0", "+08 52 06", 0.77, 0.22],
+  ["β Aql", "Alshain", "19 55 18.8", "+06 24 24", 3.71, 0.86],
+  ["η Cyg", "", "19 56 18.4", "+35 05 00", 3.89, 1.02],
+  ["θ Aql", "", "20 11 18.3", "-00 49 17", 3.23, -0.07],
+  ["α2 Cap", "Algedi", "20 18 03.3", "-12 32 41", 3.57, 0.94],
+  ["β1 Cap", "Dabih", "20 21 00.7", "-14 46 53", 3.08, 0.79],
+  ["γ Cyg", "Sadr", "20 22 13.7", "+40 15 24", 2.23, 0.67],
+  ["α Pav", "Peacock", "20 25 38.9", "-56 44 06", 1.94, -0.20],
+  ["α Cyg", "Deneb", "20 41 25.9", "+45 16 49", 1.25, 0.09],
+  ["ψ Cap", "", "20 46 05.7", "-25 16 15", 4.14, 0.43],
+  ["ε Cyg", "Aljanah", "20 46 12.7", "+33 58 13", 2.48, 1.03],
+  ["ε Aqr", "Albali", "20 47 40.6", "-09 29 45", 3.77, 0.00],
+  ["ω Cap", "", "20 51 49.3", "-26 55 09", 4.12, 1.64],
+  ["θ Cap", "", "21 05 56.8", "-17 13 58", 4.07, -0.01],
+  ["ζ Cyg", "", "21 12 56.2", "+30 13 37", 3.20, 0.99],
+  ["ζ Cap", "", "21 26 40.0", "-22 24 41", 3.74, 1.00],
+  ["β Aqr", "Sadalsuud", "21 31 33.5", "-05 34 16", 2.87, 0.83],
+  ["γ Cap", "Nashira", "21 40 05.5", "-16 39 45", 3.67, 0.32],
+  ["ε Peg", "Enif", "21 44 11.2", "+09 52 30", 2.39, 1.53],
+  ["δ Cap", "Deneb Algedi", "21 47 02.4", "-16 07 38", 2.87, 0.29],
+  ["α Aqr", "Sadalmelik", "22 05 47.0", "-00 19 11", 2.94, 0.98],
+  ["α Gru", "Alnair", "22 08 14.0", "-46 57 40", 1.74, -0.13],
+  ["θ Peg", "Biham", "22 10 12.0", "+06 11 52", 3.53, 0.08],
+  ["θ Aqr", "", "22 16 50.0", "-07 47 00", 4.16, 0.98],
+  ["γ Aqr", "Sadachbia", "22 21 39.4", "-01 23 14", 3.84, -0.05],
+  ["ζ Aqr", "", "22 28 49.7", "-00 01 12", 3.65, 0.38],
+  ["η Aqr", "", "22 35 21.4", "-00 07 03", 4.02, -0.09],
+  ["ζ Peg", "Homam", "22 41 27.7", "+10 49 53", 3.40, -0.09],
+  ["β Gru", "", "22 42 40.1", "-46 53 05", 2.10, 1.60],
+  ["η Peg", "Matar", "22 43 00.1", "+30 13 17", 2.94, 0.86],
+  ["λ Aqr", "", "22 52 36.9", "-07 34 47", 3.74, 1.64],
+  ["δ Aqr", "Skat", "22 54 39.0", "-15 49 15", 3.27, 0.05],
+  ["α PsA", "Fomalhaut", "22 57 39.0", "-29 37 20", 1.16, 0.09],
+  ["β Peg", "Scheat", "23 03 46.5", "+28 04 58", 2.42, 1.67],
+  ["β Psc", "", "23 03 52.6", "+03 49 12", 4.53, -0.12],
+  ["α Peg", "Markab", "23 04 45.7", "+15 12 19", 2.49, -0.04],
+  ["88 Aqr", "", "23 09 26.8", "-21 10 21", 3.66, 1.24],
+  ["γ Psc", "", "23 17 09.9", "+03 16 56", 3.69, 0.92],
+  ["κ Psc", "", "23 26 55.9", "+01 15 20", 4.94, 0.03],
+  ["θ Psc", "", "23 27 58.1", "+06 22 44", 4.28, 1.07],
+  ["ι Psc", "", "23 39 57.0", "+05 37 35", 4.13, 0.51],
+  ["λ Psc", "", "23 42 02.8", "+01 46 48", 4.49, 0.20],
+  ["ω Psc", "", "23 59 18.7", "+06 51 48", 4.03, 0.42],
+];
@@ -0,0 +1,286 @@
+import type { ConstellationFigure } from "@/features/star-catalog/data/star-types";
+
+/**
+ * Constellation figures
+ * The zodiac and the best-known constellations, drawn as polylines between
+ * catalogue stars. A line may end on a star of a neighbouring constellation
+ * where the traditional figure shares it (Auriga and Elnath, Pegasus and
+ * Alpheratz).
+ */
+export const CONSTELLATIONS: readonly ConstellationFigure[] = [
+  {
+    abbreviation: "And",
+    name: "Andromeda",
+    lines: [
+      ["α And", "δ And", "β And", "γ And"],
+    ],
+  },
+  {
+    abbreviation: "Aql",
+    name: "Aquila",
+    lines: [
+      ["γ Aql", "α Aql", "β Aql"],
+      ["α Aql", "δ Aql", "λ Aql"],
+      ["δ Aql", "ζ Aql"],
+      ["δ Aql", "θ Aql"],
+    ],
+  },
+  {
+    abbreviation: "Aqr",
+    name: "Aquarius",
+    lines: [
+      ["ε Aqr", "β Aqr", "α Aqr", "γ Aqr", "ζ Aqr", "η Aqr"],
+      ["α Aqr", "θ Aqr", "λ Aqr", "δ Aqr", "88 Aqr"],
+    ],
+  },
+  {
+    abbreviation: "Ari",
+    name: "Aries",
+    lines: [
+      ["41 Ari", "α Ari", "β Ari", "γ Ari"],
+    ],
+  },
+  {
+    abbreviation: "Aur",
+    name: "Auriga",
+    lines: [
+      ["α Aur", "β Aur", "θ Aur", "β Tau", "ι Aur", "η Aur", "α Aur"],
+      ["η Aur", "ε Aur", "α Aur"],
+    ],
+  },
+  {
+    abbreviation: "Boo",
+    name: "Boötes",
+    lines: [
+      ["α Boo", "η Boo"],
+      ["α Boo", "ζ Boo"],
+      ["α Boo", "ε Boo", "δ Boo", "β Boo", "γ Boo", "ρ Boo", "α Boo"],
+    ],
+  },
+  {
+    abbreviation: "Cap",
+    name: "Capricornus",
+    lines: [
+      [
+        "α2 Cap",
+        "β1 Cap",
+        "ψ Cap",
+        "ω Cap",
+        "ζ Cap",
+        "δ Cap",
+        "γ Cap",
+        "θ Cap",
+        "α2 Cap",
+      ],
+    ],
+  },
+  {
+    abbreviation: "Cas",
+    name: "Cassiopeia",
+    lines: [
+      ["β Cas", "α Cas", "γ Cas", "δ Cas", "ε Cas"],
+    ],
+  },
+  {
+    abbreviation: "Cen",
+    name: "Centaurus",
+    lines: [
+      ["α Cen", "β Cen", "ε Cen", "γ Cen"],
+      ["ε Cen", "η Cen", "θ Cen"],
+    ],
+  },
+  {
+    abbreviation: "CMa",
+    name: "Canis Major",
+    lines: [
+      ["α CMa", "β CMa"],
+      ["α CMa", "δ CMa", "ε CMa", "ζ CMa"],
+      ["δ CMa", "η CMa"],
+    ],
+  },
+  {
+    abbreviation: "CMi",
+    name: "Canis Minor",
+    lines: [
+      ["α CMi", "β CMi"],
+    ],
+  },
+  {
+    abbreviation: "Cnc",
+    name: "Cancer",
+    lines: [
+      ["β Cnc", "δ Cnc", "γ Cnc", "ι Cnc"],
+      ["δ Cnc", "α Cnc"],
+    ],
+  },
+  {
+    abbreviation: "Cru",
+    name: "Crux",
+    lines: [
+      ["α Cru", "γ Cru"],
+      ["β Cru", "δ Cru"],
+    ],
+  },
+  {
+    abbreviation: "Cyg",
+    name: "Cygnus",
+    lines: [
+      ["α Cyg", "γ Cyg", "η Cyg", "β Cyg"],
+      ["δ Cyg", "γ Cyg", "ε Cyg", "ζ Cyg"],
+    ],
+  },
+  {
+    abbreviation: "Gem",
+    name: "Gemini",
+    lines: [
+      ["α Gem", "ε Gem", "μ Gem", "η Gem"],
+      ["β Gem", "κ Gem", "δ Gem", "γ Gem"],
+      ["δ Gem", "ξ Gem"],
+      ["α Gem", "β Gem"],
+    ],
+  },
+  {
+    abbreviation: "Leo",
+    name: "Leo",
+    lines: [
+      ["α Leo", "η Leo", "γ Leo", "ζ Leo", "μ Leo", "ε Leo"],
+      ["α Leo", "θ Leo", "β Leo", "δ Leo", "γ Leo"],
+      ["δ Leo", "θ Leo"],
+    ],
+  },
+  {
+    abbreviation: "Lib",
+    name: "Libra",
+    lines: [
+      ["σ Lib", "α2 Lib", "β Lib", "γ Lib"],
+    ],
+  },
+  {
+    abbreviation: "Lyr",
+    name: "Lyra",
+    lines: [
+      ["α Lyr", "ζ1 Lyr", "β Lyr", "γ Lyr", "δ2 Lyr", "ζ1 Lyr"],
+    ],
+  },
+  {
+    abbreviation: "Ori",
+    name: "Orion",
+    lines: [
+      ["α Ori", "γ Ori"],
+      ["α Ori", "ζ Ori", "ε Ori", "δ Ori", "γ Ori"],
+      ["ζ Ori", "κ Ori", "β Ori", "δ Ori"],
+      ["α Ori", "λ Ori", "γ Ori"],
+      ["γ Ori", "π3 Ori"],
+    ],
+  },
+  {
+    abbreviation: "Peg",
+    name: "Pegasus",
+    lines: [
+      ["α Peg", "β Peg", "α And", "γ Peg", "α Peg"],
+      ["α Peg", "ζ Peg", "θ Peg", "ε Peg"],
+      ["β Peg", "η Peg"],
+    ],
+  },
+  {
+    abbreviation: "Per",
+    name: "Perseus",
+    lines: [
+      ["γ Per", "α Per", "δ Per", "ε Per", "ζ Per"],
+      ["α Per", "β Per"],
+    ],
+  },
+  {
+    abbreviation: "Psc",
+    name: "Pisces",
+    lines: [
+      ["γ Psc", "θ Psc", "ι Psc", "λ Psc", "κ Psc", "γ Psc"],
+      [
+        "ι Psc",
+        "ω Psc",
+        "δ Psc",
+        "ε Psc",
+        "μ Psc",
+        "ν Psc",
+        "ξ Psc",
+        "α Psc",
+        "ο Psc",
+        "η Psc",
+        "φ Psc",
+        "υ Psc",
+        "τ Psc",
+        "φ Psc",
+      ],
+    ],
+  },
+  {
+    abbreviation: "Sco",
+    name: "Scorpius",
+    lines: [
+      ["β1 Sco", "δ Sco", "π Sco"],
+      [
+        "δ Sco",
+        "σ Sco",
+        "α Sco",
+        "τ Sco",
+        "ε Sco",
+        "μ1 Sco",
+        "ζ2 Sco",
+        "η Sco",
+        "θ Sco",
+        "ι1 Sco",
+        "κ Sco",
+        "λ Sco",
+        "υ Sco",
+      ],
+    ],
+  },
+  {
+    abbreviation: "Sgr",
+    name: "Sagittarius",
+    lines: [
+      ["γ2 Sgr", "δ Sgr", "ε Sgr", "γ2 Sgr"],
+      ["δ Sgr", "λ Sgr", "φ Sgr", "δ Sgr"],
+      ["ε Sgr", "ζ Sgr", "φ Sgr", "σ Sgr", "τ Sgr", "ζ Sgr"],
+      ["σ Sgr", "π Sgr"],
+      ["ε Sgr", "η Sgr"],
+    ],
+  },
+  {
+    abbreviation: "Tau",
+    name: "Taurus",
+    lines: [
+      ["ζ Tau", "α Tau", "θ2 Tau", "γ Tau", "δ1 Tau", "ε Tau", "β Tau"],
+      ["γ Tau", "λ Tau", "ο Tau"],
+    ],
+  },
+  {
+    abbreviation: "UMa",
+    name: "Ursa Major",
+    lines: [
+      ["η UMa", "ζ UMa", "ε UMa", "δ UMa", "α UMa", "β UMa", "γ UMa", "δ UMa"],
+      ["α UMa", "ο UMa"],
+      ["β UMa", "θ UMa", "ι UMa"],
+      ["θ UMa", "κ UMa"],
+      ["γ UMa", "χ UMa", "ψ UMa", "λ UMa"],
+      ["ψ UMa", "μ UMa"],
+      ["χ UMa", "ν UMa"],
+    ],
+  },
+  {
+    abbreviation: "UMi",
+    name: "Ursa Minor",
+    lines: [
+      ["α UMi", "δ UMi", "ε UMi", "ζ UMi", "β UMi", "γ UMi", "η UMi", "ζ UMi"],
+    ],
+  },
+  {
+    abbreviation: "Vir",
+    name: "Virgo",
+    lines: [
+      ["β Vir", "η Vir", "γ Vir", "δ Vir", "ε Vir"],
+      ["γ Vir", "α Vir", "ζ Vir", "δ Vir"],
+      ["ζ Vir", "μ Vir"],
+    ],
+  },
+];
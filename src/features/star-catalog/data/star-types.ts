@@ -0,0 +1,31 @@
+/**
+ * Catalogue row: designation, proper name ("" when it has none), J2000 right
+ * ascension "hh mm ss.s", J2000 declination "±dd mm ss", visual magnitude and
+ * B–V colour index
+ */
+export type StarRow = readonly [string, string, string, string, number, number];
+
+export interface BrightStar {
+  /** Bayer or Flamsteed designation with constellation (e.g. "α Ori") */
+  id: string;
+  /** Proper name, if the star has one */
+  name: string | null;
+  /** IAU constellation abbreviation (e.g. "Ori") */
+  constellation: string;
+  /** J2000 right ascension in hours */
+  rightAscension: number;
+  /** J2000 declination in degrees */
+  declination: number;
+  /** Visual magnitude (smaller is brighter) */
+  magnitude: number;
+  /** B–V colour index (blue stars negative, red stars above 1.5) */
+  colorIndex: number;
+}
+
+export interface ConstellationFigure {
+  /** IAU abbreviation (e.g. "Ori") */
+  abbreviation: string;
+  name: string;
+  /** Polylines through star ids */
+  lines: readonly (readonly string[])[];
+}
@@ -0,0 +1,249 @@
+/**
+ * Star coordinates
+ * Turns catalogue rows into stars on a sphere around the viewer. Positions
+ * are J2000 right ascension and declination rotated into the ecliptic frame,
+ * then placed in scene axes the same way planet positions are, so the
+ * zodiac constellations line up with the planets' paths.
+ */
+
+import type {
+  BrightStar,
+  ConstellationFigure,
+  StarRow,
+} from "@/features/star-catalog/data/star-types";
+import { BRIGHT_STAR_ROWS } from "@/features/star-catalog/data/bright-stars";
+import { eclipticToScenePosition } from "@/features/planet-rendering/domain/kepler-orbit";
+import type { Position3D } from "@/features/planet-rendering/domain/orbital-inclination";
+
+/**
+ * Mean obliquity of the ecliptic at J2000 (degrees)
+ */
+export const OBLIQUITY_J2000_DEG = 23.4392911;
+
+/**
+ * Faintest magnitude drawn, as for a dark sky to the naked eye
+ */
+export const MAGNITUDE_LIMIT = 6;
+
+// Point size in pixels: stars at the limit are this size, and each
+// magnitude brighter is a fixed factor larger up to the cap
+const LIMIT_STAR_SIZE = 1.2;
+const SIZE_FACTOR_PER_MAGNITUDE = Math.pow(10, 0.15);
+const MAX_STAR_SIZE = 14;
+
+// B–V index with red, green and blue (0–255)
+type ColorStop = readonly [number, number, number, number];
+
+// Star colours along the B–V index, from hot blue to cool orange
+const COLOR_INDEX_STOPS: readonly ColorStop[] = [
+  [-0.4, 155, 176, 255],
+  [-0.2, 170, 191, 255],
+  [0.0, 202, 215, 255],
+  [0.3, 248, 247, 255],
+  [0.6, 255, 244, 234],
+  [1.0, 255, 216, 181],
+  [1.4, 255, 199, 142],
+  [2.0, 255, 166, 81],
+];
+
+const DEG_TO_RAD = Math.PI / 180;
+
+export interface EclipticCoordinates {
+  /** Ecliptic longitude in degrees, 0–360 */
+  longitude: number;
+  /** Ecliptic latitude in degrees */
+  latitude: number;
+}
+
+/**
+ * Parse "hh mm ss.s" or "±dd mm ss" into decimal hours or degrees
+ * @returns Value, or NaN when the text is not three numbers
+ */
+export function parseSexagesimal(text: string): number {
+  const parts = text.trim().split(/\s+/);
+  if (parts.length !== 3) return NaN;
+  const [whole, minutes, seconds] = parts.map(Number);
+  const magnitude =
+    Math.abs(whole) + Math.abs(minutes) / 60 + Math.abs(seconds) / 3600;
+  return text.trim().startsWith("-") ? -magnitude : magnitude;
+}
+
+/**
+ * Star from a catalogue row
+ * @returns Star, or null (with a warning) for a malformed row
+ */
+export function parseStarRow(row: StarRow): BrightStar | null {
+  const [id, name, ra, dec, magnitude, colorIndex] = row;
+  const rightAscension = parseSexagesimal(ra);
+  const declination = parseSexagesimal(dec);
+  const constellation = id.split(" ")[1];
+  if (
+    !constellation ||
+    !(rightAscension >= 0 && rightAscension < 24) ||
+    !(Math.abs(declination) <= 90) ||
+    !Number.isFinite(magnitude) ||
+    !Number.isFinite(colorIndex)
+  ) {
+    console.warn(`Skipping malformed star catalogue row: ${id}`);
+    return null;
+  }
+  return {
+    id,
+    name: name || null,
+    constellation,
+    rightAscension,
+    declination,
+    magnitude,
+    colorIndex,
+  };
+}
+
+/**
+ * Catalogue stars down to the magnitude limit
+ */
+export const BRIGHT_STARS: readonly BrightStar[] = BRIGHT_STAR_ROWS.flatMap(
+  (row) => {
+    const star = parseStarRow(row);
+    return star && star.magnitude <= MAGNITUDE_LIMIT ? [star] : [];
+  },
+);
+
+const STARS_BY_ID = new Map(BRIGHT_STARS.map((star) => [star.id, star]));
+
+/**
+ * Look up a catalogue star by designation
+ */
+export function getStarById(id: string): BrightStar | undefined {
+  return STARS_BY_ID.get(id);
+}
+
+/**
+ * Rotate J2000 equatorial coordinates into the J2000 ecliptic frame
+ * @param rightAscension - Hours
+ * @param declination - Degrees
+ * @returns Ecliptic longitude and latitude in degrees
+ */
+export function equatorialToEcliptic(
+  rightAscension: number,
+  declination: number,
+): EclipticCoordinates {
+  const alpha = rightAscension * 15 * DEG_TO_RAD;
+  const delta = declination * DEG_TO_RAD;
+  const epsilon = OBLIQUITY_J2000_DEG * DEG_TO_RAD;
+
+  const latitude = Math.asin(
+    Math.sin(delta) * Math.cos(epsilon) -
+      Math.cos(delta) * Math.sin(epsilon) * Math.sin(alpha),
+  );
+  const longitude = Math.atan2(
+    Math.sin(alpha) * Math.cos(epsilon) +
+      Math.tan(delta) * Math.sin(epsilon),
+    Math.cos(alpha),
+  );
+  return {
+    longitude: ((longitude / DEG_TO_RAD) % 360 + 360) % 360,
+    latitude: latitude / DEG_TO_RAD,
+  };
+}
+
+/**
+ * Scene position of a star on a sphere around the origin
+ * @param star - Catalogue star
+ * @param radius - Sphere radius in scene units
+ */
+export function getStarScenePosition(
+  star: BrightStar,
+  radius: number,
+): Position3D {
+  const { longitude, latitude } = equatorialToEcliptic(
+    star.rightAscension,
+    star.declination,
+  );
+  const lambda = longitude * DEG_TO_RAD;
+  const beta = latitude * DEG_TO_RAD;
+  return eclipticToScenePosition(
+    {
+      x: Math.cos(beta) * Math.cos(lambda),
+      y: Math.cos(beta) * Math.sin(lambda),
+      z: Math.sin(beta),
+    },
+    radius,
+  );
+}
+
+/**
+ * Point size in pixels for a magnitude
+ */
+export function getStarPointSize(magnitude: number): number {
+  const size =
+    LIMIT_STAR_SIZE *
+    Math.pow(SIZE_FACTOR_PER_MAGNITUDE, MAGNITUDE_LIMIT - magnitude);
+  return Math.min(Math.max(size, LIMIT_STAR_SIZE), MAX_STAR_SIZE);
+}
+
+/**
+ * Star colour for a B–V index
+ * @returns Red, green and blue from 0 to 1
+ */
+export function getStarColor(colorIndex: number): [number, number, number] {
+  const stops = COLOR_INDEX_STOPS;
+  const bv = Math.min(
+    Math.max(colorIndex, stops[0][0]),
+    stops[stops.length - 1][0],
+  );
+  const upper = stops.findIndex(([index]) => index >= bv);
+  const high = stops[Math.max(upper, 1)];
+  const low = stops[Math.max(upper, 1) - 1];
+  const t = (bv - low[0]) / (high[0] - low[0]);
+  return [1, 2, 3].map(
+    (channel) => (low[channel] + (high[channel] - low[channel]) * t) / 255,
+  ) as [number, number, number];
+}
+
+/**
+ * Line segments of a constellation figure as pairs of scene positions;
+ * segments whose stars are missing from the catalogue are left out
+ */
+export function getConstellationSegments(
+  figure: ConstellationFigure,
+  radius: number,
+): [Position3D, Position3D][] {
+  return figure.lines.flatMap((line) =>
+    line.slice(1).flatMap((id, index) => {
+      const from = getStarById(line[index]);
+      const to = getStarById(id);
+      return from && to
+        ? [
+            [
+              getStarScenePosition(from, radius),
+              getStarScenePosition(to, radius),
+            ] as [Position3D, Position3D],
+          ]
+        : [];
+    }),
+  );
+}
+
+/**
+ * Where to put a constellation's name: the mean direction of its figure
+ */
+export function getConstellationLabelPosition(
+  figure: ConstellationFigure,
+  radius: number,
+): Position3D {
+  const sum = { x: 0, y: 0, z: 0 };
+  figure.lines.flat().forEach((id) => {
+    const star = getStarById(id);
+    if (!star) return;
+    const position = getStarScenePosition(star, 1);
+    sum.x += position.x;
+    sum.y += position.y;
+    sum.z += position.z;
+  });
+  const length = Math.hypot(sum.x, sum.y, sum.z) || 1;
+  return {
+    x: (sum.x / length) * radius,
+    y: (sum.y / length) * radius,
+    z: (sum.z / length) * radius,
+  };
+}
@@ -0,0 +1,5 @@
+export * from "@/features/star-catalog/data/bright-stars";
+export * from "@/features/star-catalog/data/constellations";
+export * from "@/features/star-catalog/data/star-types";
+export * from "@/features/star-catalog/domain/star-coordinates";
+export * from "@/features/star-catalog/ui/index";
@@ -0,0 +1 @@
+export * from "@/features/star-catalog/ui/star-field";
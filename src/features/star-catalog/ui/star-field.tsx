@@ -0,0 +1,170 @@
+"use client";
+
+import { useEffect, useMemo, useRef, type RefObject } from "react";
+import { useFrame, useThree } from "@react-three/fiber";
+import { Html } from "@react-three/drei";
+import {
+  AdditiveBlending,
+  BufferGeometry,
+  Float32BufferAttribute,
+  ShaderMaterial,
+  type Group,
+  type Object3D,
+} from "three";
+import { CONSTELLATIONS } from "@/features/star-catalog/data/constellations";
+import {
+  BRIGHT_STARS,
+  getConstellationLabelPosition,
+  getConstellationSegments,
+  getStarColor,
+  getStarPointSize,
+  getStarScenePosition,
+} from "@/features/star-catalog/domain/star-coordinates";
+
+// Points sized in pixels (stars are at infinity, so they never grow as the
+// camera approaches) and drawn as soft discs
+const STAR_VERTEX_SHADER = `
+  attribute float starSize;
+  attribute vec3 starColor;
+  uniform float pixelRatio;
+  varying vec3 vColor;
+
+  void main() {
+    vColor = starColor;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    gl_PointSize = starSize * pixelRatio;
+  }
+`;
+
+const STAR_FRAGMENT_SHADER = `
+  varying vec3 vColor;
+
+  void main() {
+    float distance = length(gl_PointCoord - vec2(0.5));
+    if (distance > 0.5) discard;
+    gl_FragColor = vec4(vColor, smoothstep(0.5, 0.1, distance));
+  }
+`;
+
+interface StarFieldProps {
+  /** Radius of the sphere the stars are drawn on */
+  radius: number;
+  /** Draw constellation figures and names */
+  showConstellations?: boolean;
+  /** Keep the sphere centred on the camera so stars show no parallax */
+  followCamera?: boolean;
+  /** Objects that hide constellation names behind them */
+  labelOccluders?: RefObject<Object3D | null>[];
+}
+
+/**
+ * Catalogue stars sized by magnitude and coloured by B–V index, with
+ * optional constellation figures
+ */
+export function StarField({
+  radius,
+  showConstellations = false,
+  followCamera = false,
+  labelOccluders,
+}: StarFieldProps) {
+  const groupRef = useRef<Group | null>(null);
+  const pixelRatio = useThree((state) => state.gl.getPixelRatio());
+
+  const starGeometry = useMemo(() => {
+    const geometry = new BufferGeometry();
+    const positions: number[] = [];
+    const colors: number[] = [];
+    const sizes: number[] = [];
+    BRIGHT_STARS.forEach((star) => {
+      const { x, y, z } = getStarScenePosition(star, radius);
+      positions.push(x, y, z);
+      colors.push(...getStarColor(star.colorIndex));
+      sizes.push(getStarPointSize(star.magnitude));
+    });
+    geometry.setAttribute("position", new Float32BufferAttribute(positions, 3));
+    geometry.setAttribute("starColor", new Float32BufferAttribute(colors, 3));
+    geometry.setAttribute("starSize", new Float32BufferAttribute(sizes, 1));
+    return geometry;
+  }, [radius]);
+
+  const starMaterial = useMemo(
+    () =>
+      new ShaderMaterial({
+        uniforms: { pixelRatio: { value: pixelRatio } },
+        vertexShader: STAR_VERTEX_SHADER,
+        fragmentShader: STAR_FRAGMENT_SHADER,
+        transparent: true,
+        depthWrite: false,
+        blending: AdditiveBlending,
+      }),
+    [pixelRatio],
+  );
+
+  const lineGeometry = useMemo(() => {
+    const geometry = new BufferGeometry();
+    const positions = CONSTELLATIONS.flatMap((figure) =>
+      getConstellationSegments(figure, radius).flatMap(([from, to]) => [
+        from.x,
+        from.y,
+        from.z,
+        to.x,
+        to.y,
+        to.z,
+      ]),
+    );
+    geometry.setAttribute("position", new Float32BufferAttribute(positions, 3));
+    return geometry;
+  }, [radius]);
+
+  const labels = useMemo(
+    () =>
+      CONSTELLATIONS.map((figure) => ({
+        name: figure.name,
+        position: getConstellationLabelPosition(figure, radius),
+      })),
+    [radius],
+  );
+
+  // Dispose GPU resources when they are replaced or unmounted
+  useEffect(() => () => starGeometry.dispose(), [starGeometry]);
+  useEffect(() => () => lineGeometry.dispose(), [lineGeometry]);
+  useEffect(() => () => starMaterial.dispose(), [starMaterial]);
+
+  useFrame(({ camera }) => {
+    if (followCamera && groupRef.current) {
+      groupRef.current.position.copy(camera.position);
+    }
+  });
+
+  return (
+    <group ref={groupRef}>
+      <points geometry={starGeometry} material={starMaterial} />
+      {showConstellations && (
+        <>
+          <lineSegments geometry={lineGeometry}>
+            <lineBasicMaterial
+              color="#5b7fb5"
+              transparent
+              opacity={0.45}
+              depthWrite={false}
+            />
+          </lineSegments>
+          {labels.map(({ name, position }) => (
+            <Html
+              key={name}
+              position={[position.x, position.y, position.z]}
+              center
+              zIndexRange={[5, 0]}
+              // drei only reads the occluders once the scene is mounted
+              occlude={labelOccluders as RefObject<Object3D>[] | undefined}
+            >
+              <div className="text-[10px] uppercase tracking-widest text-sky-300/60 whitespace-nowrap pointer-events-none select-none">
+                {name}
+              </div>
+            </Html>
+          ))}
+        </>
+      )}
+    </group>
+  );
+}
@@ -0,0 +1,54 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import {
+  TRANSFER_PLANET_NAMES,
+  type TransferSolution,
+} from "@/features/transfer-planner/domain/transfer-orbit";
+
+/**
+ * Departure and target planets of a transfer
+ */
+export interface TransferRoute {
+  from: string;
+  to: string;
+}
+
+const DEFAULT_ROUTE: TransferRoute = { from: "Earth", to: "Mars" };
+
+/**
+ * Whether the transfer planner is open, the route it plans and the transfer
+ * chosen from its launch windows or porkchop plot
+ */
+export function useTransferPlanner() {
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [route, setRouteState] = useState<TransferRoute>(DEFAULT_ROUTE);
+  const [transfer, setTransfer] = useState<TransferSolution | null>(null);
+
+  const togglePlanning = useCallback(() => {
+    setIsPlanning((planning) => !planning);
+  }, []);
+
+  const setRoute = useCallback((next: TransferRoute) => {
+    if (
+      next.from === next.to ||
+      !TRANSFER_PLANET_NAMES.includes(next.from) ||
+      !TRANSFER_PLANET_NAMES.includes(next.to)
+    ) {
+      console.warn(`Cannot plan a transfer from ${next.from} to ${next.to}`);
+      return;
+    }
+    setRouteState(next);
+    // A transfer belongs to its route
+    setTransfer(null);
+  }, []);
+
+  return {
+    isPlanning,
+    route,
+    transfer,
+    togglePlanning,
+    setRoute,
+    setTransfer,
+  };
+}
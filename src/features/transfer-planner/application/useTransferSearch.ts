@@ -0,0 +1,103 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  getHohmannTransfer,
+  searchLaunchWindows,
+  searchPorkchopGrid,
+  type PorkchopGrid,
+  type TransferSearch,
+  type TransferSolution,
+} from "@/features/transfer-planner/domain/transfer-orbit";
+import type { TransferRoute } from "@/features/transfer-planner/application/useTransferPlanner";
+
+const MS_PER_DAY = 86_400_000;
+
+/**
+ * Years of launch windows listed after the selected date
+ */
+const WINDOW_SEARCH_YEARS = 10;
+
+/**
+ * Time a search may hold the main thread before a frame gets to render
+ */
+const SEARCH_SLICE_MS = 12;
+
+export interface TransferSearchResults {
+  route: TransferRoute;
+  grid: PorkchopGrid | null;
+  windows: TransferSolution[];
+}
+
+/**
+ * Porkchop plot over one synodic period from the date, where a window is
+ * sure to fall, and the windows of the years after it
+ */
+function* searchTransfers(
+  route: TransferRoute,
+  date: Date,
+): TransferSearch<TransferSearchResults> {
+  const hohmann = getHohmannTransfer(route.from, route.to);
+  const end = new Date(
+    date.getTime() + (hohmann?.synodicPeriodDays ?? 365) * MS_PER_DAY,
+  );
+  const windowsEnd = new Date(date);
+  windowsEnd.setUTCFullYear(windowsEnd.getUTCFullYear() + WINDOW_SEARCH_YEARS);
+  const grid = yield* searchPorkchopGrid(route.from, route.to, date, end);
+  const windows = yield* searchLaunchWindows(
+    route.from,
+    route.to,
+    date,
+    windowsEnd,
+  );
+  return { route, grid, windows };
+}
+
+/**
+ * Launch window search off the click handler: the search runs in slices of
+ * SEARCH_SLICE_MS between frames, so the scene keeps rendering, and a new
+ * search cancels the one in progress.
+ */
+export function useTransferSearch() {
+  const [results, setResults] = useState<TransferSearchResults | null>(null);
+  // Route being searched, null when idle
+  const [pendingRoute, setPendingRoute] = useState<TransferRoute | null>(
+    null,
+  );
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const cancel = useCallback(() => {
+    if (timeoutRef.current !== null) clearTimeout(timeoutRef.current);
+    timeoutRef.current = null;
+  }, []);
+
+  const startSearch = useCallback(
+    (route: TransferRoute, date: Date) => {
+      cancel();
+      setPendingRoute(route);
+      const search = searchTransfers(route, date);
+
+      const runSlice = () => {
+        const sliceEnd = performance.now() + SEARCH_SLICE_MS;
+        for (;;) {
+          const step = search.next();
+          if (step.done) {
+            timeoutRef.current = null;
+            setResults(step.value);
+            setPendingRoute(null);
+            return;
+          }
+          if (performance.now() >= sliceEnd) break;
+        }
+        timeoutRef.current = setTimeout(runSlice, 0);
+      };
+      timeoutRef.current = setTimeout(runSlice, 0);
+    },
+    [cancel],
+  );
+
+  // Stop searching on unmount
+  useEffect(() => cancel, [cancel]);
+
+  return { results, pendingRoute, startSearch };
+}
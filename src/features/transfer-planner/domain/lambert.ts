@@ -0,0 +1,196 @@
+/**
+ * Two-body orbit solvers
+ * Lambert's problem (the orbit joining two positions in a given time) and
+ * Kepler propagation (where an orbit goes from a position and velocity),
+ * both with universal variables so one formulation covers elliptic,
+ * parabolic and hyperbolic orbits.
+ */
+
+import type { EclipticPosition } from "@/utils/orbital-elements";
+
+/**
+ * Lambert solutions with velocities at both ends
+ */
+export interface LambertSolution {
+  /** Velocity leaving the first position */
+  departureVelocity: EclipticPosition;
+  /** Velocity reaching the second position */
+  arrivalVelocity: EclipticPosition;
+}
+
+const MAX_ITERATIONS = 200;
+const TOLERANCE = 1e-10;
+// Universal anomaly z at which a single-revolution orbit becomes a full
+// revolution; solutions stay below it
+const Z_MAX = 4 * Math.PI * Math.PI;
+// Closer to Z_MAX the Stumpff C(z) loses its precision, and flight times
+// there are already far longer than any transfer
+const Z_MAX_MARGIN = 1e-3;
+const Z_MIN = -1e5;
+
+const dot = (a: EclipticPosition, b: EclipticPosition) =>
+  a.x * b.x + a.y * b.y + a.z * b.z;
+
+const norm = (a: EclipticPosition) => Math.hypot(a.x, a.y, a.z);
+
+const combine = (
+  a: EclipticPosition,
+  ka: number,
+  b: EclipticPosition,
+  kb: number,
+): EclipticPosition => ({
+  x: a.x * ka + b.x * kb,
+  y: a.y * ka + b.y * kb,
+  z: a.z * ka + b.z * kb,
+});
+
+/**
+ * Stumpff functions C(z) and S(z)
+ */
+function stumpff(z: number): { c: number; s: number } {
+  if (z > 1e-8) {
+    const sz = Math.sqrt(z);
+    return { c: (1 - Math.cos(sz)) / z, s: (sz - Math.sin(sz)) / (sz * z) };
+  }
+  if (z < -1e-8) {
+    const sz = Math.sqrt(-z);
+    return {
+      c: (Math.cosh(sz) - 1) / -z,
+      s: (Math.sinh(sz) - sz) / (sz * -z),
+    };
+  }
+  return { c: 1 / 2 - z / 24, s: 1 / 6 - z / 120 };
+}
+
+/**
+ * Prograde single-revolution orbit joining two positions
+ * @param r1 - Departure position
+ * @param r2 - Arrival position
+ * @param timeOfFlight - Time between them (same time unit as mu)
+ * @param mu - Gravitational parameter of the central body
+ * @returns Velocities at both ends, or null when no orbit fits (transfer
+ * angle of exactly 0° or 180°, or a non-positive time)
+ */
+export function solveLambert(
+  r1: EclipticPosition,
+  r2: EclipticPosition,
+  timeOfFlight: number,
+  mu: number,
+): LambertSolution | null {
+  const r1n = norm(r1);
+  const r2n = norm(r2);
+  if (!(timeOfFlight > 0) || r1n === 0 || r2n === 0) return null;
+
+  // Prograde means counterclockwise seen from the +z side
+  const cosAngle = Math.min(Math.max(dot(r1, r2) / (r1n * r2n), -1), 1);
+  const crossZ = r1.x * r2.y - r1.y * r2.x;
+  const angle =
+    crossZ >= 0 ? Math.acos(cosAngle) : 2 * Math.PI - Math.acos(cosAngle);
+  const a = Math.sin(angle) * Math.sqrt((r1n * r2n) / (1 - cosAngle));
+  if (!Number.isFinite(a) || Math.abs(a) < 1e-12) return null;
+
+  const y = (z: number) => {
+    const { c, s } = stumpff(z);
+    return r1n + r2n + (a * (z * s - 1)) / Math.sqrt(c);
+  };
+  // Time-of-flight mismatch, increasing in z; orbits that do not reach
+  // count as too short
+  const mismatch = (z: number) => {
+    const yz = y(z);
+    if (yz < 0) return -Infinity;
+    const { c, s } = stumpff(z);
+    return (
+      Math.pow(yz / c, 1.5) * s +
+      a * Math.sqrt(yz) -
+      Math.sqrt(mu) * timeOfFlight
+    );
+  };
+
+  let low = -Z_MAX;
+  while (mismatch(low) > 0) {
+    low *= 2;
+    if (low < Z_MIN) return null;
+  }
+  let high = Z_MAX - Z_MAX_MARGIN;
+  if (mismatch(high) < 0) return null;
+
+  for (let i = 0; i < MAX_ITERATIONS && high - low > TOLERANCE; i++) {
+    const mid = (low + high) / 2;
+    if (mismatch(mid) > 0) high = mid;
+    else low = mid;
+  }
+
+  const yz = y((low + high) / 2);
+  const f = 1 - yz / r1n;
+  const g = a * Math.sqrt(yz / mu);
+  const gDot = 1 - yz / r2n;
+  return {
+    departureVelocity: combine(r2, 1 / g, r1, -f / g),
+    arrivalVelocity: combine(r2, gDot / g, r1, -1 / g),
+  };
+}
+
+/**
+ * Position on a two-body orbit some time after a known state
+ * @param r0 - Starting position
+ * @param v0 - Starting velocity
+ * @param dt - Time elapsed (same time unit as mu)
+ * @param mu - Gravitational parameter of the central body
+ * @returns Position after dt
+ */
+export function propagateKepler(
+  r0: EclipticPosition,
+  v0: EclipticPosition,
+  dt: number,
+  mu: number,
+): EclipticPosition {
+  const r0n = norm(r0);
+  const radialVelocity = dot(r0, v0) / r0n;
+  // Reciprocal of the semi-major axis (negative for hyperbolas)
+  const alpha = 2 / r0n - dot(v0, v0) / mu;
+  const sqrtMu = Math.sqrt(mu);
+
+  // Time reached at universal anomaly chi, less dt, and its slope r/sqrt(mu)
+  const kepler = (chi: number) => {
+    const z = alpha * chi * chi;
+    const { c, s } = stumpff(z);
+    return {
+      value:
+        ((r0n * radialVelocity) / sqrtMu) * chi * chi * c +
+        (1 - alpha * r0n) * chi * chi * chi * s +
+        r0n * chi -
+        sqrtMu * dt,
+      slope:
+        ((r0n * radialVelocity) / sqrtMu) * chi * (1 - z * s) +
+        (1 - alpha * r0n) * chi * chi * c +
+        r0n,
+    };
+  };
+
+  // The time grows with chi, so the root can be bracketed; Newton steps
+  // that leave the bracket (nearly radial orbits) fall back to bisection
+  const reach = (sqrtMu * Math.abs(dt)) / r0n;
+  let low = dt < 0 ? -reach : 0;
+  let high = dt > 0 ? reach : 0;
+  while (dt > 0 && kepler(high).value < 0) high *= 2;
+  while (dt < 0 && kepler(low).value > 0) low *= 2;
+
+  let chi = (low + high) / 2;
+  for (let i = 0; i < MAX_ITERATIONS && high - low > 0; i++) {
+    const { value, slope } = kepler(chi);
+    const next = chi - value / slope;
+    if (Math.abs(next - chi) < TOLERANCE) {
+      chi = next;
+      break;
+    }
+    if (value > 0) high = chi;
+    else low = chi;
+    chi = next > low && next < high ? next : (low + high) / 2;
+  }
+
+  const z = alpha * chi * chi;
+  const { c, s } = stumpff(z);
+  const f = 1 - ((chi * chi) / r0n) * c;
+  const g = dt - (chi * chi * chi * s) / sqrtMu;
+  return combine(r0, f, v0, g);
+}
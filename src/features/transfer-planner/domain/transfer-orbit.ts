@@ -0,0 +1,495 @@
+/**
+ * Transfer orbits
+ * Spacecraft paths between planets around the Sun: the textbook Hohmann
+ * ellipse between circular orbits, and Lambert arcs between the planets'
+ * true positions on real dates, searched over departure dates and flight
+ * times to find launch windows.
+ *
+ * Positions are heliocentric J2000 ecliptic in AU and times in days;
+ * departure energy C3 and hyperbolic excess speeds are given in km²/s² and
+ * km/s as mission planners quote them.
+ */
+
+import * as AE from "astronomy-engine";
+import { planetData } from "@/data/planet-data";
+import { PLANET_BODY_MAP } from "@/utils/astronomy-calculations";
+import type { EclipticPosition } from "@/utils/orbital-elements";
+import { getPlanetOrbitalElements } from "@/features/planet-rendering/domain/kepler-orbit";
+import {
+  propagateKepler,
+  solveLambert,
+} from "@/features/transfer-planner/domain/lambert";
+
+/**
+ * Sun's gravitational parameter GM (km³/s²)
+ */
+export const SUN_GM_KM3_S2 = 1.32712440018e11;
+
+const SECONDS_PER_DAY = 86_400;
+const MS_PER_DAY = 86_400_000;
+const KM_S_PER_AU_DAY = AE.KM_PER_AU / SECONDS_PER_DAY;
+
+/**
+ * Planets a transfer can start or end at
+ */
+export const TRANSFER_PLANET_NAMES = planetData.map((planet) => planet.name);
+
+/**
+ * Points along a drawn transfer arc
+ */
+export const TRANSFER_ARC_SEGMENTS = 128;
+
+export interface HohmannTransfer {
+  /** Semi-major axis of the transfer ellipse */
+  semiMajorAxisAU: number;
+  /** Half the transfer ellipse's period */
+  timeOfFlightDays: number;
+  /** Speed change leaving the departure orbit (km/s) */
+  departureDeltaV: number;
+  /** Speed change joining the arrival orbit (km/s) */
+  arrivalDeltaV: number;
+  /** Departure energy, the square of the departure speed change (km²/s²) */
+  c3: number;
+  /** How far the target must lead the departure planet at launch (degrees) */
+  phaseAngle: number;
+  /** Time between launch opportunities */
+  synodicPeriodDays: number;
+}
+
+export interface TransferSolution {
+  from: string;
+  to: string;
+  departure: Date;
+  arrival: Date;
+  timeOfFlightDays: number;
+  /** Departure energy (km²/s²) */
+  c3: number;
+  /** Hyperbolic excess speed leaving the departure planet (km/s) */
+  departureVInfinity: number;
+  /** Hyperbolic excess speed arriving at the target (km/s) */
+  arrivalVInfinity: number;
+  /** Spacecraft position at departure (AU) */
+  departurePosition: EclipticPosition;
+  /** Spacecraft velocity at departure (AU/day) */
+  departureVelocity: EclipticPosition;
+  /** Sun's gravitational parameter the transfer was solved with (km³/s²) */
+  mu: number;
+}
+
+export interface PorkchopGrid {
+  /** Departure times (ms), one per row */
+  departures: number[];
+  /** Times of flight (days), one per column */
+  timesOfFlight: number[];
+  /** C3 for each departure and time of flight, null where none fits */
+  c3: (number | null)[][];
+  /** Lowest-C3 transfer in the grid */
+  best: TransferSolution | null;
+}
+
+interface PlanetState {
+  position: EclipticPosition;
+  velocity: EclipticPosition;
+}
+
+/**
+ * Gravitational parameter in AU³/day², the units the solvers work in
+ */
+function toAUPerDay(muKm3S2: number): number {
+  return (muKm3S2 * SECONDS_PER_DAY * SECONDS_PER_DAY) / AE.KM_PER_AU ** 3;
+}
+
+function difference(a: EclipticPosition, b: EclipticPosition): number {
+  return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+}
+
+/**
+ * Heliocentric position (AU) and velocity (AU/day) of a planet
+ * @returns State, or null for an unknown planet
+ */
+export function getPlanetState(name: string, date: Date): PlanetState | null {
+  const body = PLANET_BODY_MAP[name];
+  if (!body) {
+    console.error(`No transfer state for body: ${name}`);
+    return null;
+  }
+  // HelioState is equatorial (EQJ); rotate into the ecliptic frame
+  const state = AE.RotateState(
+    AE.Rotation_EQJ_ECL(),
+    AE.HelioState(body, AE.MakeTime(date)),
+  );
+  return {
+    position: { x: state.x, y: state.y, z: state.z },
+    velocity: { x: state.vx, y: state.vy, z: state.vz },
+  };
+}
+
+/**
+ * Hohmann transfer between two planets' orbits, taken as circular and
+ * coplanar at their semi-major axes
+ * @param from - Departure planet
+ * @param to - Target planet
+ * @param mu - Sun's gravitational parameter (km³/s²)
+ * @returns Transfer, or null for an unknown planet or a planet to itself
+ */
+export function getHohmannTransfer(
+  from: string,
+  to: string,
+  mu: number = SUN_GM_KM3_S2,
+): HohmannTransfer | null {
+  const departure = planetData.find((planet) => planet.name === from);
+  const target = planetData.find((planet) => planet.name === to);
+  if (!departure || !target || from === to) {
+    console.error(`No Hohmann transfer from ${from} to ${to}`);
+    return null;
+  }
+
+  const r1 = getPlanetOrbitalElements(departure).semiMajorAxisAU;
+  const r2 = getPlanetOrbitalElements(target).semiMajorAxisAU;
+  const r1Km = r1 * AE.KM_PER_AU;
+  const r2Km = r2 * AE.KM_PER_AU;
+  const aKm = (r1Km + r2Km) / 2;
+
+  const circular1 = Math.sqrt(mu / r1Km);
+  const circular2 = Math.sqrt(mu / r2Km);
+  const transfer1 = Math.sqrt(mu * (2 / r1Km - 1 / aKm));
+  const transfer2 = Math.sqrt(mu * (2 / r2Km - 1 / aKm));
+  const timeOfFlightDays =
+    (Math.PI * Math.sqrt(aKm ** 3 / mu)) / SECONDS_PER_DAY;
+
+  const period = (rKm: number) =>
+    (2 * Math.PI * Math.sqrt(rKm ** 3 / mu)) / SECONDS_PER_DAY;
+  const period1 = period(r1Km);
+  const period2 = period(r2Km);
+  // The target covers this much of its orbit while the craft crosses half
+  const phaseAngle = 180 - (360 * timeOfFlightDays) / period2;
+
+  const departureDeltaV = Math.abs(transfer1 - circular1);
+  return {
+    semiMajorAxisAU: (r1 + r2) / 2,
+    timeOfFlightDays,
+    departureDeltaV,
+    arrivalDeltaV: Math.abs(circular2 - transfer2),
+    c3: departureDeltaV ** 2,
+    phaseAngle: ((((phaseAngle + 180) % 360) + 360) % 360) - 180,
+    synodicPeriodDays: 1 / Math.abs(1 / period1 - 1 / period2),
+  };
+}
+
+function solveBetween(
+  from: string,
+  to: string,
+  departureMs: number,
+  start: PlanetState,
+  end: PlanetState,
+  timeOfFlightDays: number,
+  mu: number,
+): TransferSolution | null {
+  const arc = solveLambert(
+    start.position,
+    end.position,
+    timeOfFlightDays,
+    toAUPerDay(mu),
+  );
+  if (!arc) return null;
+
+  const departureVInfinity =
+    difference(arc.departureVelocity, start.velocity) * KM_S_PER_AU_DAY;
+  const arrivalVInfinity =
+    difference(arc.arrivalVelocity, end.velocity) * KM_S_PER_AU_DAY;
+  return {
+    from,
+    to,
+    departure: new Date(departureMs),
+    arrival: new Date(departureMs + timeOfFlightDays * MS_PER_DAY),
+    timeOfFlightDays,
+    c3: departureVInfinity ** 2,
+    departureVInfinity,
+    arrivalVInfinity,
+    departurePosition: start.position,
+    departureVelocity: arc.departureVelocity,
+    mu,
+  };
+}
+
+/**
+ * Lambert transfer leaving one planet on a date and reaching another after
+ * a time of flight
+ * @param from - Departure planet
+ * @param to - Target planet
+ * @param departure - Launch date
+ * @param timeOfFlightDays - Days from launch to arrival
+ * @param mu - Sun's gravitational parameter (km³/s²)
+ * @returns Transfer, or null when the planets are unknown or no arc fits
+ */
+export function solveTransfer(
+  from: string,
+  to: string,
+  departure: Date,
+  timeOfFlightDays: number,
+  mu: number = SUN_GM_KM3_S2,
+): TransferSolution | null {
+  const start = getPlanetState(from, departure);
+  const end = getPlanetState(
+    to,
+    new Date(departure.getTime() + timeOfFlightDays * MS_PER_DAY),
+  );
+  if (!start || !end || from === to) return null;
+  return solveBetween(
+    from,
+    to,
+    departure.getTime(),
+    start,
+    end,
+    timeOfFlightDays,
+    mu,
+  );
+}
+
+/**
+ * Evenly spaced values from first to last
+ */
+function steps(first: number, last: number, count: number): number[] {
+  return Array.from({ length: count }, (_, index) =>
+    count === 1 ? first : first + ((last - first) * index) / (count - 1),
+  );
+}
+
+/**
+ * Flight times worth searching: around the Hohmann time, from half of it to
+ * half as long again
+ */
+export function getTimeOfFlightRange(
+  from: string,
+  to: string,
+): [number, number] | null {
+  const hohmann = getHohmannTransfer(from, to);
+  if (!hohmann) return null;
+  return [hohmann.timeOfFlightDays * 0.5, hohmann.timeOfFlightDays * 1.5];
+}
+
+/**
+ * A search that can be run a step at a time: each `next()` does one unit of
+ * work (a departure row of a grid) and the return value is the result
+ */
+export type TransferSearch<T> = Generator<void, T, void>;
+
+/**
+ * Run a search to the end in one go
+ */
+export function runTransferSearch<T>(search: TransferSearch<T>): T {
+  for (;;) {
+    const step = search.next();
+    if (step.done) return step.value;
+  }
+}
+
+/**
+ * C3 over a grid of departure dates and flight times, the data of a porkchop
+ * plot, one departure row per step
+ * @param from - Departure planet
+ * @param to - Target planet
+ * @param start - First departure date
+ * @param end - Last departure date
+ * @param departureSteps - Rows in the grid
+ * @param timeOfFlightSteps - Columns in the grid
+ * @param mu - Sun's gravitational parameter (km³/s²)
+ * @returns Grid, or null for unknown planets or an empty date range
+ */
+export function* searchPorkchopGrid(
+  from: string,
+  to: string,
+  start: Date,
+  end: Date,
+  departureSteps: number = 48,
+  timeOfFlightSteps: number = 36,
+  mu: number = SUN_GM_KM3_S2,
+): TransferSearch<PorkchopGrid | null> {
+  const flightRange = getTimeOfFlightRange(from, to);
+  if (!flightRange || !(end.getTime() > start.getTime())) return null;
+
+  const departures = steps(start.getTime(), end.getTime(), departureSteps);
+  const timesOfFlight = steps(...flightRange, timeOfFlightSteps);
+  let best: TransferSolution | null = null;
+  const c3: (number | null)[][] = [];
+
+  for (const departureMs of departures) {
+    const startState = getPlanetState(from, new Date(departureMs));
+    c3.push(
+      timesOfFlight.map((days) => {
+        const endState = getPlanetState(
+          to,
+          new Date(departureMs + days * MS_PER_DAY),
+        );
+        if (!startState || !endState) return null;
+        const solution = solveBetween(
+          from,
+          to,
+          departureMs,
+          startState,
+          endState,
+          days,
+          mu,
+        );
+        if (!solution) return null;
+        if (!best || solution.c3 < best.c3) best = solution;
+        return solution.c3;
+      }),
+    );
+    yield;
+  }
+
+  return { departures, timesOfFlight, c3, best };
+}
+
+/**
+ * C3 over a grid of departure dates and flight times, computed in one go
+ * (see searchPorkchopGrid)
+ */
+export function getPorkchopGrid(
+  from: string,
+  to: string,
+  start: Date,
+  end: Date,
+  departureSteps?: number,
+  timeOfFlightSteps?: number,
+  mu?: number,
+): PorkchopGrid | null {
+  return runTransferSearch(
+    searchPorkchopGrid(
+      from,
+      to,
+      start,
+      end,
+      departureSteps,
+      timeOfFlightSteps,
+      mu,
+    ),
+  );
+}
+
+/**
+ * Launch windows in a date range: departures where C3 reaches a minimum,
+ * each with the flight time that gives it. One departure sample per step.
+ * @param from - Departure planet
+ * @param to - Target planet
+ * @param start - Start of the search
+ * @param end - End of the search
+ * @param mu - Sun's gravitational parameter (km³/s²)
+ * @returns Best transfer of each window, in date order
+ */
+export function* searchLaunchWindows(
+  from: string,
+  to: string,
+  start: Date,
+  end: Date,
+  mu: number = SUN_GM_KM3_S2,
+): TransferSearch<TransferSolution[]> {
+  const hohmann = getHohmannTransfer(from, to);
+  if (!hohmann || !(end.getTime() > start.getTime())) return [];
+
+  // Several samples per synodic period so no window falls between them
+  const stepDays = Math.min(Math.max(hohmann.synodicPeriodDays / 40, 1), 60);
+  const count = Math.floor(
+    (end.getTime() - start.getTime()) / (stepDays * MS_PER_DAY) + 1,
+  );
+  const grid = yield* searchPorkchopGrid(from, to, start, end, count, 32, mu);
+  if (!grid) return [];
+
+  const bestPerDeparture = grid.c3.map((row) =>
+    row.reduce<number>(
+      (lowest, value) => (value !== null && value < lowest ? value : lowest),
+      Infinity,
+    ),
+  );
+
+  // A window is the lowest point within half a synodic period either side;
+  // shallower dips between windows and minima at the ends of the range
+  // (where the window lies outside it) are left out
+  const reach = Math.max(
+    1,
+    Math.floor(hohmann.synodicPeriodDays / 2 / stepDays),
+  );
+  return bestPerDeparture.flatMap((value, index) => {
+    const neighbourhood = bestPerDeparture.slice(
+      Math.max(0, index - reach),
+      index + reach + 1,
+    );
+    if (
+      index === 0 ||
+      index === bestPerDeparture.length - 1 ||
+      !Number.isFinite(value) ||
+      value !== Math.min(...neighbourhood) ||
+      value === bestPerDeparture[index - 1]
+    ) {
+      return [];
+    }
+    const column = grid.c3[index].indexOf(value);
+    const solution = solveTransfer(
+      from,
+      to,
+      new Date(grid.departures[index]),
+      grid.timesOfFlight[column],
+      mu,
+    );
+    return solution ? [solution] : [];
+  });
+}
+
+/**
+ * Launch windows in a date range, found in one go (see searchLaunchWindows)
+ */
+export function findLaunchWindows(
+  from: string,
+  to: string,
+  start: Date,
+  end: Date,
+  mu?: number,
+): TransferSolution[] {
+  return runTransferSearch(searchLaunchWindows(from, to, start, end, mu));
+}
+
+/**
+ * Spacecraft position on a transfer some days after launch
+ * @param solution - Transfer
+ * @param daysAfterDeparture - Days since launch
+ * @returns Position in AU
+ */
+export function getTransferPositionAfter(
+  solution: TransferSolution,
+  daysAfterDeparture: number,
+): EclipticPosition {
+  return propagateKepler(
+    solution.departurePosition,
+    solution.departureVelocity,
+    daysAfterDeparture,
+    toAUPerDay(solution.mu),
+  );
+}
+
+/**
+ * Spacecraft position on a date
+ * @returns Position in AU, or null before launch or after arrival
+ */
+export function getTransferPosition(
+  solution: TransferSolution,
+  date: Date,
+): EclipticPosition | null {
+  const days =
+    (date.getTime() - solution.departure.getTime()) / MS_PER_DAY;
+  if (days < 0 || days > solution.timeOfFlightDays) return null;
+  return getTransferPositionAfter(solution, days);
+}
+
+/**
+ * Points along a transfer from launch to arrival
+ * @returns Positions in AU
+ */
+export function getTransferArcPoints(
+  solution: TransferSolution,
+  segments: number = TRANSFER_ARC_SEGMENTS,
+): EclipticPosition[] {
+  return steps(0, solution.timeOfFlightDays, segments + 1).map((days) =>
+    getTransferPositionAfter(solution, days),
+  );
+}
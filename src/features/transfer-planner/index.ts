@@ -0,0 +1,4 @@
+export * from "@/features/transfer-planner/domain/lambert";
+export * from "@/features/transfer-planner/domain/transfer-orbit";
+export * from "@/features/transfer-planner/application/useTransferPlanner";
+export * from "@/features/transfer-planner/ui/index";
@@ -0,0 +1,3 @@
+export * from "@/features/transfer-planner/ui/porkchop-plot";
+export * from "@/features/transfer-planner/ui/transfer-arc";
+export * from "@/features/transfer-planner/ui/transfer-panel";
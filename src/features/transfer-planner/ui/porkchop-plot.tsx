@@ -0,0 +1,105 @@
+"use client";
+
+import type { PorkchopGrid } from "@/features/transfer-planner/domain/transfer-orbit";
+
+const PLOT_WIDTH = 240;
+const PLOT_HEIGHT = 140;
+
+/**
+ * Cell colour: blue at the grid's lowest C3 through to red at three times
+ * it, so the launch window stands out whatever the route's energy
+ */
+function getC3Color(c3: number, lowest: number): string {
+  const t = Math.min(Math.max((c3 - lowest) / (2 * lowest), 0), 1);
+  return `hsl(${Math.round(220 - 220 * t)} 80% ${Math.round(55 - 20 * t)}%)`;
+}
+
+interface PorkchopPlotProps {
+  grid: PorkchopGrid;
+  /** Departure (ms) and time of flight (days) of the chosen transfer */
+  selected?: { departureMs: number; timeOfFlightDays: number } | null;
+  /** Called with the departure (ms) and time of flight (days) of a cell */
+  onSelect: (departureMs: number, timeOfFlightDays: number) => void;
+}
+
+/**
+ * C3 over departure date (across) and time of flight (up); click a cell to
+ * choose that transfer
+ */
+export function PorkchopPlot({ grid, selected, onSelect }: PorkchopPlotProps) {
+  const { departures, timesOfFlight, c3, best } = grid;
+  const lowest = best?.c3 ?? 0;
+  const cellWidth = PLOT_WIDTH / departures.length;
+  const cellHeight = PLOT_HEIGHT / timesOfFlight.length;
+  const first = new Date(departures[0]).toISOString().slice(0, 10);
+  const last = new Date(departures[departures.length - 1])
+    .toISOString()
+    .slice(0, 10);
+
+  const marker = selected && {
+    x:
+      ((selected.departureMs - departures[0]) /
+        (departures[departures.length - 1] - departures[0])) *
+      PLOT_WIDTH,
+    y:
+      PLOT_HEIGHT -
+      ((selected.timeOfFlightDays - timesOfFlight[0]) /
+        (timesOfFlight[timesOfFlight.length - 1] - timesOfFlight[0])) *
+        PLOT_HEIGHT,
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between text-[10px] text-gray-400 mb-1">
+        <span>
+          Flight {Math.round(timesOfFlight[0])}–
+          {Math.round(timesOfFlight[timesOfFlight.length - 1])} days
+        </span>
+        <span>Lowest C3 {lowest.toFixed(1)} km²/s²</span>
+      </div>
+      <svg
+        viewBox={`0 0 ${PLOT_WIDTH} ${PLOT_HEIGHT}`}
+        className="w-full bg-white/5 rounded cursor-crosshair"
+        role="img"
+        aria-label={`Porkchop plot of departure energy for launches from ${first} to ${last}`}
+      >
+        {c3.map((row, i) =>
+          row.map((value, j) =>
+            value === null ? null : (
+              <rect
+                key={`${i}-${j}`}
+                x={i * cellWidth}
+                y={PLOT_HEIGHT - (j + 1) * cellHeight}
+                width={cellWidth + 0.5}
+                height={cellHeight + 0.5}
+                fill={getC3Color(value, lowest)}
+                onClick={() => onSelect(departures[i], timesOfFlight[j])}
+              >
+                <title>
+                  {new Date(departures[i]).toISOString().slice(0, 10)},{" "}
+                  {Math.round(timesOfFlight[j])} days: C3 {value.toFixed(1)}
+                </title>
+              </rect>
+            ),
+          ),
+        )}
+        {marker && (
+          <circle
+            cx={marker.x}
+            cy={marker.y}
+            r={4}
+            fill="none"
+            stroke="white"
+            strokeWidth={1.5}
+            pointerEvents="none"
+          />
+        )}
+      </svg>
+      <div className="flex justify-between text-[10px] text-gray-400 mt-1">
+        <span>{first}</span>
+        <span>Departure</span>
+        <span>{last}</span>
+      </div>
+    </div>
+  );
+}
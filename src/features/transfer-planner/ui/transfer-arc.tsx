@@ -0,0 +1,80 @@
+"use client";
+
+import { useMemo } from "react";
+import { Html, Line } from "@react-three/drei";
+import { Vector3 } from "three";
+import { eclipticToScenePosition } from "@/features/planet-rendering/domain/kepler-orbit";
+import {
+  getSimulatedDate,
+  type SimulationClock,
+} from "@/features/simulation-control/domain/simulation-clock";
+import {
+  scaleHeliocentricPosition,
+  type ScaleStrategy,
+} from "@/features/view-scale/domain/scale-strategy";
+import {
+  getTransferArcPoints,
+  getTransferPosition,
+  type TransferSolution,
+} from "@/features/transfer-planner/domain/transfer-orbit";
+import type { EclipticPosition } from "@/utils/orbital-elements";
+
+interface TransferArcProps {
+  transfer: TransferSolution;
+  /** Simulation clock the spacecraft's position follows */
+  clock: SimulationClock;
+  /** View scale, applied to the arc like the planets' orbits */
+  scale: ScaleStrategy;
+}
+
+function toScene(position: EclipticPosition, scale: ScaleStrategy): Vector3 {
+  const { x, y, z } = scaleHeliocentricPosition(
+    eclipticToScenePosition(position, 1),
+    scale,
+  );
+  return new Vector3(x, y, z);
+}
+
+/**
+ * A transfer's path from launch to arrival, with the spacecraft at the
+ * clock's date while it is in flight
+ */
+export function TransferArc({ transfer, clock, scale }: TransferArcProps) {
+  const points = useMemo(
+    () =>
+      getTransferArcPoints(transfer).map((point) => toScene(point, scale)),
+    [transfer, scale],
+  );
+
+  // The clock changes with each Date Mode step and animation frame, so the
+  // spacecraft moves in step with the planets
+  const spacecraft = useMemo(() => {
+    const position = getTransferPosition(transfer, getSimulatedDate(clock));
+    return position && toScene(position, scale);
+  }, [transfer, clock, scale]);
+
+  return (
+    <>
+      <Line
+        points={points}
+        color="#fb923c"
+        lineWidth={1.5}
+        dashed
+        dashSize={30}
+        gapSize={15}
+        transparent
+        opacity={0.85}
+      />
+      {spacecraft && (
+        <group position={spacecraft}>
+          <Html center zIndexRange={[10, 0]}>
+            <div
+              className="w-2.5 h-2.5 rounded-full bg-orange-400 ring-2 ring-orange-200/60 pointer-events-none"
+              title="Spacecraft"
+            />
+          </Html>
+        </group>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,237 @@
+"use client";
+
+import { Rocket, X } from "lucide-react";
+import {
+  TRANSFER_PLANET_NAMES,
+  getHohmannTransfer,
+  solveTransfer,
+  type TransferSolution,
+} from "@/features/transfer-planner/domain/transfer-orbit";
+import type { TransferRoute } from "@/features/transfer-planner/application/useTransferPlanner";
+import { useTransferSearch } from "@/features/transfer-planner/application/useTransferSearch";
+import { useDateTransition } from "@/features/date-mode/application/useDateTransition";
+import { PorkchopPlot } from "@/features/transfer-planner/ui/porkchop-plot";
+
+const formatDay = (date: Date) => date.toISOString().slice(0, 10);
+
+interface PlanetSelectProps {
+  label: string;
+  value: string;
+  /** Planet chosen in the other select, which this one leaves out */
+  exclude: string;
+  onChange: (name: string) => void;
+}
+
+function PlanetSelect({ label, value, exclude, onChange }: PlanetSelectProps) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="flex-1 min-w-0 px-2 py-1 rounded bg-gray-800 text-white border border-gray-700 text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+      aria-label={label}
+    >
+      {TRANSFER_PLANET_NAMES.filter((name) => name !== exclude).map((name) => (
+        <option key={name} value={name}>
+          {name}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+interface TransferPanelProps {
+  /** Date Mode date; searches start from it */
+  selectedDate: Date;
+  route: TransferRoute;
+  /** Chosen transfer, drawn in the scene */
+  transfer: TransferSolution | null;
+  onRouteChange: (route: TransferRoute) => void;
+  onTransferSelect: (transfer: TransferSolution | null) => void;
+  onDateChange: (date: Date) => void;
+  onClose: () => void;
+}
+
+/**
+ * Hohmann figures for a route, a porkchop plot and launch windows from the
+ * selected date, and the chosen transfer's launch and arrival
+ */
+export function TransferPanel({
+  selectedDate,
+  route,
+  transfer,
+  onRouteChange,
+  onTransferSelect,
+  onDateChange,
+  onClose,
+}: TransferPanelProps) {
+  const { results: search, pendingRoute, startSearch } = useTransferSearch();
+  const { startTransition } = useDateTransition(selectedDate, onDateChange);
+
+  const hohmann = getHohmannTransfer(route.from, route.to);
+  const isCurrentRoute = (other: TransferRoute | null) =>
+    other !== null && other.from === route.from && other.to === route.to;
+  // Results for another route are stale
+  const results = search && isCurrentRoute(search.route) ? search : null;
+  const isSearching = isCurrentRoute(pendingRoute);
+
+  const chooseTransfer = (solution: TransferSolution | null) => {
+    onTransferSelect(solution);
+    if (solution) onDateChange(solution.departure);
+  };
+
+  return (
+    <div className="w-72 p-3 rounded-lg bg-black/80 text-white text-sm max-h-[80vh] overflow-y-auto">
+      <div className="flex items-center gap-2 mb-3 font-medium">
+        <Rocket className="w-4 h-4 text-orange-400" />
+        <span className="flex-1">Transfer</span>
+        <button
+          onClick={onClose}
+          className="p-1 rounded hover:bg-white/10 transition-colors"
+          aria-label="Close transfer planner"
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-1.5 mb-3">
+        <PlanetSelect
+          label="Depart from"
+          value={route.from}
+          exclude={route.to}
+          onChange={(from) => onRouteChange({ ...route, from })}
+        />
+        <span className="text-gray-400 text-xs">to</span>
+        <PlanetSelect
+          label="Arrive at"
+          value={route.to}
+          exclude={route.from}
+          onChange={(to) => onRouteChange({ ...route, to })}
+        />
+      </div>
+
+      {hohmann && (
+        <dl
+          className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 text-xs mb-3"
+          aria-label="Hohmann transfer"
+        >
+          <dt className="text-gray-400">Hohmann flight</dt>
+          <dd className="text-right">
+            {Math.round(hohmann.timeOfFlightDays)} days
+          </dd>
+          <dt className="text-gray-400">Δv depart / arrive</dt>
+          <dd className="text-right">
+            {hohmann.departureDeltaV.toFixed(2)} /{" "}
+            {hohmann.arrivalDeltaV.toFixed(2)} km/s
+          </dd>
+          <dt className="text-gray-400">C3</dt>
+          <dd className="text-right">{hohmann.c3.toFixed(1)} km²/s²</dd>
+          <dt className="text-gray-400">Phase angle</dt>
+          <dd className="text-right">{hohmann.phaseAngle.toFixed(1)}°</dd>
+          <dt className="text-gray-400">Windows every</dt>
+          <dd className="text-right">
+            {Math.round(hohmann.synodicPeriodDays)} days
+          </dd>
+        </dl>
+      )}
+
+      <button
+        onClick={() => startSearch(route, selectedDate)}
+        disabled={isSearching}
+        aria-busy={isSearching}
+        className="w-full px-2 py-1.5 mb-3 text-xs bg-orange-500/20 hover:bg-orange-500/30 rounded transition-colors disabled:opacity-50 disabled:cursor-wait"
+      >
+        {isSearching
+          ? "Searching launch windows…"
+          : `Find launch windows from ${formatDay(selectedDate)}`}
+      </button>
+
+      {results?.grid && (
+        <div className="mb-3">
+          <PorkchopPlot
+            grid={results.grid}
+            selected={
+              transfer && {
+                departureMs: transfer.departure.getTime(),
+                timeOfFlightDays: transfer.timeOfFlightDays,
+              }
+            }
+            onSelect={(departureMs, days) =>
+              chooseTransfer(
+                solveTransfer(route.from, route.to, new Date(departureMs), days),
+              )
+            }
+          />
+        </div>
+      )}
+
+      {results && (
+        <ul className="space-y-1 mb-3" aria-label="Launch windows">
+          {results.windows.length === 0 && (
+            <li className="text-xs text-gray-500">No windows found</li>
+          )}
+          {results.windows.map((window) => (
+            <li key={window.departure.getTime()}>
+              <button
+                onClick={() => chooseTransfer(window)}
+                className={`w-full px-2 py-1 text-xs text-left rounded transition-colors ${
+                  transfer?.departure.getTime() === window.departure.getTime()
+                    ? "bg-orange-500/40"
+                    : "bg-white/5 hover:bg-white/10"
+                }`}
+              >
+                <span className="font-medium">
+                  {formatDay(window.departure)}
+                </span>
+                <span className="text-white/60 ml-1">
+                  {Math.round(window.timeOfFlightDays)} days · C3{" "}
+                  {window.c3.toFixed(1)}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {transfer && (
+        <div className="border-t border-white/10 pt-2 text-xs">
+          <dl
+            className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 mb-2"
+            aria-label="Chosen transfer"
+          >
+            <dt className="text-gray-400">Launch</dt>
+            <dd className="text-right">{formatDay(transfer.departure)}</dd>
+            <dt className="text-gray-400">Arrival</dt>
+            <dd className="text-right">{formatDay(transfer.arrival)}</dd>
+            <dt className="text-gray-400">C3</dt>
+            <dd className="text-right">{transfer.c3.toFixed(1)} km²/s²</dd>
+            <dt className="text-gray-400">Arrival v∞</dt>
+            <dd className="text-right">
+              {transfer.arrivalVInfinity.toFixed(2)} km/s
+            </dd>
+          </dl>
+          <div className="flex gap-1.5">
+            <button
+              onClick={() => onDateChange(transfer.departure)}
+              className="flex-1 px-2 py-1 rounded bg-white/10 hover:bg-white/20 transition-colors"
+            >
+              Go to launch
+            </button>
+            <button
+              onClick={() => startTransition(transfer.arrival)}
+              className="flex-1 px-2 py-1 rounded bg-orange-500/30 hover:bg-orange-500/40 transition-colors"
+            >
+              Fly to arrival
+            </button>
+            <button
+              onClick={() => onTransferSelect(null)}
+              className="px-2 py-1 rounded hover:bg-white/10 transition-colors"
+              aria-label="Clear transfer"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
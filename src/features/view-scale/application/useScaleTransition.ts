@@ -0,0 +1,69 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { easeInOutCubic } from "@/utils/easing-functions";
+import {
+  DEFAULT_SCALE_MODE,
+  SCALE_MODES,
+  blendScaleStrategies,
+  getScaleStrategy,
+  type ScaleMode,
+  type ScaleStrategy,
+} from "@/features/view-scale/domain/scale-strategy";
+
+/**
+ * Duration of the animation between two scales
+ */
+export const SCALE_TRANSITION_MS = 1200;
+
+/**
+ * Selected scale mode and the strategy to render with.
+ *
+ * Switching modes blends from the strategy on screen to the new one over
+ * SCALE_TRANSITION_MS, so bodies glide to their new distances and sizes.
+ * Each frame's strategy carries both ends of the switch, so orbits and
+ * belts build their geometry once per switch and only blend it per frame.
+ * Switching again mid-way starts from wherever the blend had reached.
+ */
+export function useScaleTransition(
+  initialMode: ScaleMode = DEFAULT_SCALE_MODE,
+) {
+  const [scaleMode, setScaleModeState] = useState<ScaleMode>(initialMode);
+  const [scale, setScale] = useState<ScaleStrategy>(() =>
+    getScaleStrategy(initialMode),
+  );
+  const scaleRef = useRef(scale);
+  const frameRef = useRef<number | null>(null);
+
+  const setScaleMode = useCallback((mode: ScaleMode) => {
+    if (!SCALE_MODES.includes(mode)) {
+      console.error(`Invalid scale mode: ${mode}`);
+      return;
+    }
+    setScaleModeState(mode);
+
+    const from = scaleRef.current;
+    const to = getScaleStrategy(mode);
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+
+    const startMs = performance.now();
+    const step = (nowMs: number) => {
+      const elapsed = Math.max(nowMs - startMs, 0);
+      const t = Math.min(elapsed / SCALE_TRANSITION_MS, 1);
+      const next = blendScaleStrategies(from, to, easeInOutCubic(t));
+      scaleRef.current = next;
+      setScale(next);
+      frameRef.current = t < 1 ? requestAnimationFrame(step) : null;
+    };
+    frameRef.current = requestAnimationFrame(step);
+  }, []);
+
+  // Stop animating on unmount
+  useEffect(() => {
+    return () => {
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    };
+  }, []);
+
+  return { scaleMode, scale, setScaleMode };
+}
@@ -0,0 +1,39 @@
+/**
+ * Scale morphs
+ * Geometry drawn at a view scale is built once for each end of a scale
+ * switch; the renderer blends the two through a morph target, so animating
+ * the switch only changes one influence per frame.
+ */
+
+import type { BufferGeometry } from "three";
+import {
+  getScaleTransition,
+  type ScaleStrategy,
+} from "@/features/view-scale/domain/scale-strategy";
+
+/**
+ * Add the shape a switch starts from to geometry built for where it ends
+ * @param geometry - Geometry at the strategy being switched to
+ * @param from - The same geometry (same vertices) at the strategy being left;
+ *   only its positions are kept
+ * @returns The geometry, now morphing towards `from`
+ */
+export function addScaleMorph(
+  geometry: BufferGeometry,
+  from: BufferGeometry,
+): BufferGeometry {
+  geometry.morphAttributes.position = [from.getAttribute("position")];
+  geometry.morphTargetsRelative = false;
+  // Bounds now cover both shapes, so culling holds through the switch
+  geometry.computeBoundingSphere();
+  from.dispose();
+  return geometry;
+}
+
+/**
+ * Morph target influences for geometry built with addScaleMorph: how much
+ * of the strategy being left still shows
+ */
+export function getScaleMorphInfluences(strategy: ScaleStrategy): number[] {
+  return [1 - getScaleTransition(strategy).progress];
+}
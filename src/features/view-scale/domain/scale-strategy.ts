@@ -0,0 +1,196 @@
+/**
+ * View scale strategies
+ * Map real distances and sizes into scene units. True scale is the default;
+ * the other strategies trade accuracy for a view that fits the eye.
+ *
+ * Distances are mapped radially: a body keeps its direction from the Sun and
+ * only its distance changes, so orbits keep their shape and orientation.
+ */
+
+import type { PlanetData } from "@/data/planet-types";
+import { isMoonData } from "@/features/moons/data/moon-data";
+import type { Position3D } from "@/features/planet-rendering/domain/orbital-inclination";
+
+/**
+ * Scene units per AU at true scale
+ */
+export const AU_TO_UNITS = 1000;
+
+/**
+ * Scene units per Earth radius at true scale; a body's sphere radius is its
+ * diameterRelativeEarth in these units
+ */
+export const EARTH_RADIUS_UNITS = 1;
+
+export type ScaleMode = "true" | "log" | "exaggerated" | "fit-screen";
+
+export interface ScaleStrategy {
+  mode: ScaleMode;
+  /** Short name shown in the controls */
+  label: string;
+  /** One-line explanation of what the scale distorts */
+  description: string;
+  /** Scene distance from the Sun for a heliocentric distance in AU */
+  distanceToUnits: (distanceAU: number) => number;
+  /** Size multiplier for planets and dwarf planets; moons keep their real
+   * sizes and orbits */
+  bodySizeScale: number;
+  /** Size multiplier for the Sun */
+  sunSizeScale: number;
+  /** Set while a switch is animating, on the strategy part way through */
+  transition?: ScaleTransition;
+}
+
+/**
+ * Both ends of an animated scale switch, so geometry can be built once for
+ * each and blended on the GPU instead of rebuilt every frame
+ */
+export interface ScaleTransition {
+  from: ScaleStrategy;
+  to: ScaleStrategy;
+  /** 0 (from) to 1 (to) */
+  progress: number;
+}
+
+// Logarithmic distance: 1 AU ≈ 1680 units and Neptune at 4000 units
+const LOG_REFERENCE_AU = 0.1;
+const LOG_UNITS_PER_DECADE = 1613;
+
+// Square-root distance: Neptune at about 2500 units, in view from the start
+const FIT_SCREEN_UNITS_PER_ROOT_AU = 456;
+
+/**
+ * Built-in strategies, keyed by mode
+ */
+export const SCALE_STRATEGIES: Readonly<Record<ScaleMode, ScaleStrategy>> = {
+  true: {
+    mode: "true",
+    label: "True scale",
+    description: "Real distances and sizes (1 AU = 1000 units)",
+    distanceToUnits: (distanceAU) => distanceAU * AU_TO_UNITS,
+    bodySizeScale: 1,
+    sunSizeScale: 1,
+  },
+  log: {
+    mode: "log",
+    label: "Log distance",
+    description: "Distances on a log scale, bodies 10× larger",
+    distanceToUnits: (distanceAU) =>
+      LOG_UNITS_PER_DECADE * Math.log10(1 + distanceAU / LOG_REFERENCE_AU),
+    bodySizeScale: 10,
+    sunSizeScale: 1,
+  },
+  exaggerated: {
+    mode: "exaggerated",
+    label: "Big planets",
+    description: "Real distances, bodies 50× larger (Sun 2×)",
+    distanceToUnits: (distanceAU) => distanceAU * AU_TO_UNITS,
+    bodySizeScale: 50,
+    // Larger would swallow Mercury's orbit
+    sunSizeScale: 2,
+  },
+  "fit-screen": {
+    mode: "fit-screen",
+    label: "Fit screen",
+    description: "Square-root distances so Neptune fits, bodies 10× larger",
+    distanceToUnits: (distanceAU) =>
+      FIT_SCREEN_UNITS_PER_ROOT_AU * Math.sqrt(distanceAU),
+    bodySizeScale: 10,
+    sunSizeScale: 1,
+  },
+};
+
+export const SCALE_MODES = Object.keys(SCALE_STRATEGIES) as ScaleMode[];
+
+export const DEFAULT_SCALE_MODE: ScaleMode = "true";
+
+/**
+ * Look up a strategy by mode
+ * @param mode - Scale mode
+ * @returns Strategy, or true scale for an unknown mode
+ */
+export function getScaleStrategy(mode: ScaleMode): ScaleStrategy {
+  const strategy = SCALE_STRATEGIES[mode];
+  if (!strategy) {
+    console.error(`Unknown scale mode: ${mode}`);
+    return SCALE_STRATEGIES[DEFAULT_SCALE_MODE];
+  }
+  return strategy;
+}
+
+/**
+ * Strategy part way between two others, for animating a switch
+ * @param from - Strategy being left
+ * @param to - Strategy being switched to
+ * @param progress - 0 (from) to 1 (to)
+ * @returns Blended strategy (to itself once progress reaches 1)
+ */
+export function blendScaleStrategies(
+  from: ScaleStrategy,
+  to: ScaleStrategy,
+  progress: number,
+): ScaleStrategy {
+  if (progress >= 1) return to;
+  const t = Math.max(progress, 0);
+  const lerp = (a: number, b: number) => a + (b - a) * t;
+  return {
+    ...to,
+    distanceToUnits: (distanceAU) =>
+      lerp(from.distanceToUnits(distanceAU), to.distanceToUnits(distanceAU)),
+    bodySizeScale: lerp(from.bodySizeScale, to.bodySizeScale),
+    sunSizeScale: lerp(from.sunSizeScale, to.sunSizeScale),
+    transition: { from, to, progress: t },
+  };
+}
+
+/**
+ * The switch a strategy is part of; a settled strategy is both its ends
+ */
+export function getScaleTransition(strategy: ScaleStrategy): ScaleTransition {
+  return strategy.transition ?? { from: strategy, to: strategy, progress: 1 };
+}
+
+/**
+ * Size multiplier of a body under a strategy
+ */
+export function getBodySizeScale(
+  body: PlanetData,
+  strategy: ScaleStrategy,
+): number {
+  if (body.name === "Sun") return strategy.sunSizeScale;
+  return isMoonData(body) ? 1 : strategy.bodySizeScale;
+}
+
+/**
+ * Radius of a body's sphere in scene units under a strategy
+ */
+export function getScaledBodyRadius(
+  body: PlanetData,
+  strategy: ScaleStrategy,
+): number {
+  return (
+    body.diameterRelativeEarth *
+    EARTH_RADIUS_UNITS *
+    getBodySizeScale(body, strategy)
+  );
+}
+
+/**
+ * Scene position of a heliocentric position given in AU
+ * @param positionAU - Position in scene axes, measured in AU
+ * @param strategy - Scale strategy
+ * @returns Same direction from the Sun at the strategy's distance
+ */
+export function scaleHeliocentricPosition(
+  positionAU: Position3D,
+  strategy: ScaleStrategy,
+): Position3D {
+  const distanceAU = Math.hypot(positionAU.x, positionAU.y, positionAU.z);
+  if (distanceAU === 0) return { x: 0, y: 0, z: 0 };
+  const factor = strategy.distanceToUnits(distanceAU) / distanceAU;
+  return {
+    x: positionAU.x * factor,
+    y: positionAU.y * factor,
+    z: positionAU.z * factor,
+  };
+}
@@ -0,0 +1,3 @@
+export * from "@/features/view-scale/domain/scale-strategy";
+export * from "@/features/view-scale/domain/scale-morph";
+export * from "@/features/view-scale/application/useScaleTransition";
@@ -5,9 +5,16 @@ import { useThree, useFrame } from "@react-three/fiber";
 import { useState, useRef } from "react";
 import { Vector3 } from "three";
 
-export function useGetLabelDistance({ planet }: { planet: PlanetData }) {
+export function useGetLabelDistance({
+  planet,
+  sizeScale = 1,
+}: {
+  planet: PlanetData;
+  /** View scale size multiplier, so labels clear enlarged bodies */
+  sizeScale?: number;
+}) {
   const { camera } = useThree();
-  const scaledSize = planet.diameterRelativeEarth;
+  const scaledSize = planet.diameterRelativeEarth * sizeScale;
   const [labelDistance, setLabelDistance] = useState(scaledSize);
   const labelRef = useRef<HTMLDivElement>(null);
   const planetPosition = useRef(new Vector3(0, 0, 0));
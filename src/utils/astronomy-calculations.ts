@@ -8,14 +8,21 @@ import {
   SECONDS_PER_DAY,
   FULL_CIRCLE_RADIANS,
 } from "@/utils/physics-constants";
+import {
+  calculateHeliocentricPosition,
+  positionToEclipticLongitude,
+  type EclipticPosition,
+  type OrbitalElements,
+} from "@/utils/orbital-elements";
+import { dwarfPlanetData } from "@/data/dwarf-planet-data";
 
 // J2000 epoch: January 1, 2000, 12:00 TT (Terrestrial Time)
 const J2000_EPOCH = new Date("2000-01-01T12:00:00Z");
 const MILLISECONDS_PER_DAY = SECONDS_PER_DAY * 1000;
 
 // Accurate date range for Astronomy Engine calculations
-const MIN_ACCURATE_YEAR = 1700;
-const MAX_ACCURATE_YEAR = 2300;
+export const MIN_ACCURATE_YEAR = 1700;
+export const MAX_ACCURATE_YEAR = 2300;
 
 /**
  * Validate that a date is a valid Date object
@@ -54,6 +61,28 @@ export const PLANET_BODY_MAP: Record<string, AE.Body> = {
   Neptune: AE.Body.Neptune,
 };
 
+/**
+ * Map dwarf planets modelled by Astronomy Engine to its Body enum
+ */
+export const DWARF_PLANET_BODY_MAP: Record<string, AE.Body> = {
+  Pluto: AE.Body.Pluto,
+};
+
+/**
+ * Keplerian elements for dwarf planets Astronomy Engine does not model.
+ * A body missing its elements is logged and left out, so its positions
+ * fall back like any unknown planet's.
+ */
+const KEPLERIAN_ELEMENTS_MAP: Record<string, OrbitalElements> = {};
+for (const body of dwarfPlanetData) {
+  if (DWARF_PLANET_BODY_MAP[body.name]) continue;
+  if (!body.orbitalElements) {
+    console.error(`Missing orbital elements for ${body.name}`);
+    continue;
+  }
+  KEPLERIAN_ELEMENTS_MAP[body.name] = body.orbitalElements;
+}
+
 /**
  * Calculate days since J2000 epoch
  * @param date - Target date
@@ -81,7 +110,8 @@ export function daysToDate(days: number): Date {
 
 /**
  * Calculate ecliptic longitude for a planet at a specific date
- * @param planetName - Name of the planet (Mercury, Venus, Earth, Mars, Jupiter, Saturn, Uranus, Neptune)
+ * @param planetName - Name of the planet (Mercury through Neptune) or dwarf planet
+ *   (Ceres, Pluto, Haumea, Makemake, Eris)
  * @param date - Target date
  * @returns Ecliptic longitude in degrees (0-360)
  */
@@ -89,9 +119,10 @@ export function calculateEclipticLongitude(
   planetName: string,
   date: Date
 ): number {
-  const body = PLANET_BODY_MAP[planetName];
+  const body = PLANET_BODY_MAP[planetName] ?? DWARF_PLANET_BODY_MAP[planetName];
+  const elements = KEPLERIAN_ELEMENTS_MAP[planetName];
 
-  if (!body) {
+  if (!body && !elements) {
     console.error(`Unknown planet: ${planetName}`);
     return 0;
   }
@@ -102,9 +133,12 @@ export function calculateEclipticLongitude(
   }
 
   try {
-    // Create AstroTime object from Date (correct API usage)
-    const time = AE.MakeTime(date);
-    const longitude = AE.EclipticLongitude(body, time);
+    // Astronomy Engine when it models the body, two-body Kepler orbit otherwise
+    const longitude = body
+      ? AE.EclipticLongitude(body, AE.MakeTime(date))
+      : positionToEclipticLongitude(
+          calculateHeliocentricPosition(elements, date),
+        );
 
     // Validate result
     if (!Number.isFinite(longitude)) {
@@ -229,6 +263,17 @@ export function getSupportedPlanets(): string[] {
   return Object.keys(PLANET_BODY_MAP);
 }
 
+/**
+ * Get supported dwarf planet names
+ * @returns Array of dwarf planet names with a position model
+ */
+export function getSupportedDwarfPlanets(): string[] {
+  return [
+    ...Object.keys(DWARF_PLANET_BODY_MAP),
+    ...Object.keys(KEPLERIAN_ELEMENTS_MAP),
+  ];
+}
+
 // ============================================
 // Caching for performance optimization
 // ============================================
@@ -245,6 +290,19 @@ const longitudeCache = new Map<string, number>();
 const MAX_CACHE_SIZE = 1000;
 const CACHE_TIME_SLICE_MS = 60 * 60 * 1000; // 1 hour
 
+/**
+ * Store a cache entry, evicting the oldest entries when the cache is full
+ */
+function setCacheEntry<T>(cache: Map<string, T>, key: string, value: T): void {
+  if (cache.size >= MAX_CACHE_SIZE) {
+    // Remove oldest entries (first 100)
+    const keysToDelete = Array.from(cache.keys()).slice(0, 100);
+    keysToDelete.forEach((k) => cache.delete(k));
+  }
+
+  cache.set(key, value);
+}
+
 /**
  * Generate cache key for a planet and date
  */
@@ -276,15 +334,7 @@ export function getCachedEclipticLongitude(
   }
 
   const longitude = calculateEclipticLongitude(planetName, date);
-
-  // Manage cache size
-  if (longitudeCache.size >= MAX_CACHE_SIZE) {
-    // Remove oldest entries (first 100)
-    const keysToDelete = Array.from(longitudeCache.keys()).slice(0, 100);
-    keysToDelete.forEach((k) => longitudeCache.delete(k));
-  }
-
-  longitudeCache.set(key, longitude);
+  setCacheEntry(longitudeCache, key, longitude);
   return longitude;
 }
 
@@ -327,3 +377,148 @@ export function getCachedPlanetPosition(planetName: string, date: Date): PlanetP
     date: date.toISOString(),
   };
 }
+
+// ============================================
+// Heliocentric 3D positions
+// ============================================
+
+/**
+ * Heliocentric position data structure (J2000 ecliptic frame, AU)
+ */
+export interface HeliocentricPosition {
+  planetName: string;
+  x: number;
+  y: number;
+  z: number;
+  distanceAU: number;
+  date: string;
+}
+
+/**
+ * Calculate the heliocentric ecliptic vector of a body
+ * @param planetName - Name of the planet or dwarf planet
+ * @param date - Target date
+ * @returns Position in AU (J2000 ecliptic), or null if it cannot be calculated
+ */
+export function calculateHeliocentricVector(
+  planetName: string,
+  date: Date
+): EclipticPosition | null {
+  const body = PLANET_BODY_MAP[planetName] ?? DWARF_PLANET_BODY_MAP[planetName];
+  const elements = KEPLERIAN_ELEMENTS_MAP[planetName];
+
+  if (!body && !elements) {
+    console.error(`Unknown planet: ${planetName}`);
+    return null;
+  }
+
+  if (!isValidDate(date)) {
+    console.error(`Invalid date provided for ${planetName}`);
+    return null;
+  }
+
+  try {
+    if (!body) {
+      return calculateHeliocentricPosition(elements, date);
+    }
+
+    // HelioVector is equatorial (EQJ); rotate into the ecliptic frame
+    const equatorial = AE.HelioVector(body, AE.MakeTime(date));
+    const ecliptic = AE.RotateVector(AE.Rotation_EQJ_ECL(), equatorial);
+
+    if (![ecliptic.x, ecliptic.y, ecliptic.z].every(Number.isFinite)) {
+      console.error(`Invalid position calculated for ${planetName}`);
+      return null;
+    }
+
+    return { x: ecliptic.x, y: ecliptic.y, z: ecliptic.z };
+  } catch (error) {
+    console.error(`Failed to calculate position for ${planetName}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Build a HeliocentricPosition from a vector (zero vector on failure)
+ */
+function toHeliocentricPosition(
+  planetName: string,
+  vector: EclipticPosition | null,
+  date: Date
+): HeliocentricPosition {
+  const { x, y, z } = vector ?? { x: 0, y: 0, z: 0 };
+  return {
+    planetName,
+    x,
+    y,
+    z,
+    distanceAU: Math.hypot(x, y, z),
+    date: isValidDate(date) ? date.toISOString() : J2000_EPOCH.toISOString(),
+  };
+}
+
+/**
+ * Get the heliocentric position of a body at a specific date
+ * @param planetName - Name of the planet or dwarf planet
+ * @param date - Target date
+ * @returns Ecliptic x/y/z and distance in AU (zeros on error)
+ */
+export function getHeliocentricPosition(
+  planetName: string,
+  date: Date
+): HeliocentricPosition {
+  return toHeliocentricPosition(
+    planetName,
+    calculateHeliocentricVector(planetName, date),
+    date
+  );
+}
+
+/**
+ * Cache for heliocentric vectors
+ * Key format: "planetName-hourBucket" (same bucketing as the longitude cache)
+ */
+const heliocentricCache = new Map<string, EclipticPosition | null>();
+
+/**
+ * Get cached heliocentric position data for a specific date
+ * Uses the same hour-bucketed caching as getCachedPlanetPosition
+ * @param planetName - Name of the planet or dwarf planet
+ * @param date - Target date
+ * @returns Ecliptic x/y/z and distance in AU (zeros on error)
+ */
+export function getCachedHeliocentricPosition(
+  planetName: string,
+  date: Date
+): HeliocentricPosition {
+  if (!isValidDate(date)) {
+    console.error(`Invalid date provided to getCachedHeliocentricPosition for ${planetName}`);
+    return toHeliocentricPosition(planetName, null, date);
+  }
+
+  const key = getCacheKey(planetName, date);
+
+  if (!heliocentricCache.has(key)) {
+    setCacheEntry(
+      heliocentricCache,
+      key,
+      calculateHeliocentricVector(planetName, date)
+    );
+  }
+
+  return toHeliocentricPosition(planetName, heliocentricCache.get(key) ?? null, date);
+}
+
+/**
+ * Clear the heliocentric position cache
+ */
+export function clearHeliocentricCache(): void {
+  heliocentricCache.clear();
+}
+
+/**
+ * Get current heliocentric cache size (for debugging/monitoring)
+ */
+export function getHeliocentricCacheSize(): number {
+  return heliocentricCache.size;
+}
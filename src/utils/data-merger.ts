@@ -1,20 +1,28 @@
 /**
  * Data Merger Utility
- * Merges API data with local planet data
+ * Merges API data and planet facts from the data providers with local
+ * planet data
  */
 
 import { PlanetData } from "@/data/planet-types";
 import {
   APIResponse,
+  MergedFactField,
   MergedPlanetData,
-  isValidMass,
 } from "@/features/planet-catalog/domain/planet-api-types";
+import {
+  PLANET_FACT_FIELDS,
+  PlanetFactField,
+  PlanetFacts,
+  SourcedPlanetFacts,
+  combinePlanetFacts,
+} from "@/features/planet-catalog/domain/planet-data-provider";
+import { leSystemeSolaireToFacts } from "@/features/planet-catalog/domain/provider-formats";
 import {
   formatMass,
   formatTemperature,
   formatOrbitalPeriod,
   formatRotationPeriod,
-  formatMoonCount,
   formatGravity,
   formatDensity,
   DATA_UNAVAILABLE,
@@ -49,92 +57,105 @@ export function safeExtractField<T>(
 }
 
 /**
- * Merge API data with local planet data
- * API data takes priority, local data fills gaps
- * @param apiData - Data from API (may be null if fetch failed)
+ * Fields of merged data filled from each planet fact, with their formatters
+ */
+const FACT_FORMATTERS: {
+  [Field in PlanetFactField]: {
+    field: MergedFactField;
+    format: (value: NonNullable<PlanetFacts[Field]>) => string;
+  };
+} = {
+  mass: {
+    field: "apiMass",
+    format: (mass) => formatMass(mass.massValue, mass.massExponent),
+  },
+  meanTemperatureK: { field: "apiTemperature", format: formatTemperature },
+  siderealOrbitDays: { field: "apiOrbitalPeriod", format: formatOrbitalPeriod },
+  siderealRotationHours: {
+    field: "apiRotationPeriod",
+    format: formatRotationPeriod,
+  },
+  moonCount: {
+    field: "apiMoonCount",
+    format: (count) =>
+      Number.isInteger(count) && count >= 0
+        ? count.toString()
+        : DATA_UNAVAILABLE,
+  },
+  surfaceGravity: { field: "apiGravity", format: formatGravity },
+  density: { field: "apiDensity", format: formatDensity },
+};
+
+function applyFact<Field extends PlanetFactField>(
+  merged: MergedPlanetData,
+  sourced: SourcedPlanetFacts,
+  fact: Field
+): void {
+  const value = sourced.facts[fact];
+  const provider = sourced.provenance[fact];
+  if (value === undefined || value === null || !provider) {
+    return;
+  }
+
+  const { field, format } = FACT_FORMATTERS[fact];
+  const formatted = format(value as NonNullable<PlanetFacts[Field]>);
+  if (formatted !== DATA_UNAVAILABLE) {
+    merged[field] = formatted;
+    merged.provenance = { ...merged.provenance, [field]: provider };
+  }
+}
+
+/**
+ * Merge facts combined from the data providers with local planet data
+ * Provider facts take priority, local data fills gaps; each formatted field
+ * records the provider it came from
+ * @param sourced - Combined provider facts (null if every provider failed)
  * @param localData - Complete local planet data
  * @returns Merged data object with formatted values
  */
-export function mergePlanetData(
-  apiData: APIResponse | null,
+export function mergePlanetFacts(
+  sourced: SourcedPlanetFacts | null,
   localData: PlanetData
 ): MergedPlanetData {
   const merged: MergedPlanetData = {
     ...localData,
     isLoadingAPIData: false,
-    apiError: apiData === null,
+    apiError: sourced === null,
   };
 
-  if (!apiData) {
-    // No API data, use local data only
+  if (!sourced) {
+    // No provider data, use local data only
     return merged;
   }
 
-  // Merge mass data
-  if (apiData.mass && isValidMass(apiData.mass)) {
-    const formatted = formatMass(
-      apiData.mass.massValue,
-      apiData.mass.massExponent
-    );
-    if (formatted !== DATA_UNAVAILABLE) {
-      merged.apiMass = formatted;
-    }
-  }
-
-  // Merge temperature data
-  if (apiData.avgTemp !== undefined && apiData.avgTemp !== null) {
-    const formatted = formatTemperature(apiData.avgTemp);
-    if (formatted !== DATA_UNAVAILABLE) {
-      merged.apiTemperature = formatted;
-    }
-  }
-
-  // Merge orbital period
-  if (apiData.sideralOrbit !== undefined && apiData.sideralOrbit !== null) {
-    const formatted = formatOrbitalPeriod(apiData.sideralOrbit);
-    if (formatted !== DATA_UNAVAILABLE) {
-      merged.apiOrbitalPeriod = formatted;
-    }
-  }
-
-  // Merge rotation period
-  if (
-    apiData.sideralRotation !== undefined &&
-    apiData.sideralRotation !== null
-  ) {
-    const formatted = formatRotationPeriod(apiData.sideralRotation);
-    if (formatted !== DATA_UNAVAILABLE) {
-      merged.apiRotationPeriod = formatted;
-    }
-  }
-
-  // Merge moon count
-  {
-    const formatted = formatMoonCount(apiData.moons);
-    if (formatted !== DATA_UNAVAILABLE) {
-      merged.apiMoonCount = formatted;
-    }
-  }
-
-  // Merge gravity
-  if (apiData.gravity !== undefined && apiData.gravity !== null) {
-    const formatted = formatGravity(apiData.gravity);
-    if (formatted !== DATA_UNAVAILABLE) {
-      merged.apiGravity = formatted;
-    }
-  }
-
-  // Merge density
-  if (apiData.density !== undefined && apiData.density !== null) {
-    const formatted = formatDensity(apiData.density);
-    if (formatted !== DATA_UNAVAILABLE) {
-      merged.apiDensity = formatted;
-    }
-  }
-
+  PLANET_FACT_FIELDS.forEach((fact) => applyFact(merged, sourced, fact));
   return merged;
 }
 
+/**
+ * Merge API data with local planet data
+ * API data takes priority, local data fills gaps
+ * @param apiData - Data from API (may be null if fetch failed)
+ * @param localData - Complete local planet data
+ * @returns Merged data object with formatted values
+ */
+export function mergePlanetData(
+  apiData: APIResponse | null,
+  localData: PlanetData
+): MergedPlanetData {
+  return mergePlanetFacts(
+    apiData
+      ? combinePlanetFacts([
+          {
+            providerId: "le-systeme-solaire",
+            facts: leSystemeSolaireToFacts(apiData),
+          },
+        ])
+      : null,
+    localData
+  );
+}
+
 /**
  * Create initial merged data with loading state
  * @param localData - Local planet data
@@ -1,6 +1,6 @@
 /**
  * Easing functions for smooth animation transitions
- * Used by date transition animation feature
+ * Used by date transition animations and camera flights
  */
 
 export type EasingFunction = (t: number) => number;
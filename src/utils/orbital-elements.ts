@@ -0,0 +1,259 @@
+/**
+ * Keplerian orbital elements
+ * Solves Kepler's equation to propagate two-body heliocentric orbits with the
+ * Sun at one focus. Used for orbit geometry and Speed Mode motion, and for
+ * Date Mode positions of bodies Astronomy Engine does not model.
+ */
+
+import { FULL_CIRCLE_RADIANS } from "@/utils/physics-constants";
+
+const DEG_TO_RAD = Math.PI / 180;
+const RAD_TO_DEG = 180 / Math.PI;
+const MILLISECONDS_PER_DAY = 86_400_000;
+
+/**
+ * J2000 epoch (January 1, 2000, 12:00 TT), the reference epoch for planetary elements
+ */
+export const J2000_EPOCH = new Date("2000-01-01T12:00:00Z");
+
+/**
+ * Gaussian gravitational constant (radians per day for a = 1 AU)
+ */
+export const GAUSSIAN_GRAVITATIONAL_CONSTANT = 0.01720209895;
+
+/**
+ * Maximum Newton iterations when solving Kepler's equation
+ */
+const KEPLER_MAX_ITERATIONS = 30;
+const KEPLER_TOLERANCE = 1e-12;
+
+/**
+ * Osculating orbital elements referred to the J2000 ecliptic
+ */
+export interface OrbitalElements {
+  /** Semi-major axis in AU */
+  semiMajorAxisAU: number;
+  /** Orbital eccentricity (0 <= e < 1) */
+  eccentricity: number;
+  /** Inclination to the ecliptic in degrees */
+  inclinationDeg: number;
+  /** Longitude of the ascending node (Ω) in degrees */
+  longitudeOfAscendingNodeDeg: number;
+  /** Argument of periapsis (ω) in degrees */
+  argumentOfPeriapsisDeg: number;
+  /** Mean anomaly at epoch in degrees */
+  meanAnomalyDeg: number;
+  /** Epoch the mean anomaly refers to */
+  epoch: Date;
+  /**
+   * Sidereal period in days. When omitted it follows from the semi-major
+   * axis for an orbit around the Sun; required for moons.
+   */
+  orbitalPeriodDays?: number;
+}
+
+/**
+ * Heliocentric ecliptic position in AU
+ */
+export interface EclipticPosition {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * Normalize an angle in radians to the range [0, 2π)
+ */
+export function normalizeRadians(angle: number): number {
+  const normalized = angle % FULL_CIRCLE_RADIANS;
+  return normalized < 0 ? normalized + FULL_CIRCLE_RADIANS : normalized;
+}
+
+/**
+ * Calculate mean motion from the semi-major axis (Kepler's third law)
+ * @param semiMajorAxisAU - Semi-major axis in AU
+ * @returns Mean motion in radians per day
+ */
+export function calculateMeanMotion(semiMajorAxisAU: number): number {
+  if (!Number.isFinite(semiMajorAxisAU) || semiMajorAxisAU <= 0) {
+    console.error(`Invalid semi-major axis: ${semiMajorAxisAU}`);
+    return 0;
+  }
+  return GAUSSIAN_GRAVITATIONAL_CONSTANT / Math.pow(semiMajorAxisAU, 1.5);
+}
+
+/**
+ * Mean motion of an orbit, from its period when given
+ * @param elements - Orbital elements
+ * @returns Mean motion in radians per day
+ */
+export function getMeanMotion(elements: OrbitalElements): number {
+  if (elements.orbitalPeriodDays !== undefined) {
+    if (!(elements.orbitalPeriodDays > 0)) {
+      console.error(`Invalid orbital period: ${elements.orbitalPeriodDays}`);
+      return 0;
+    }
+    return FULL_CIRCLE_RADIANS / elements.orbitalPeriodDays;
+  }
+  return calculateMeanMotion(elements.semiMajorAxisAU);
+}
+
+/**
+ * Calculate orbital period from the semi-major axis
+ * @param semiMajorAxisAU - Semi-major axis in AU
+ * @returns Orbital period in days
+ */
+export function calculateOrbitalPeriodDays(semiMajorAxisAU: number): number {
+  const meanMotion = calculateMeanMotion(semiMajorAxisAU);
+  return meanMotion > 0 ? FULL_CIRCLE_RADIANS / meanMotion : 0;
+}
+
+/**
+ * Solve Kepler's equation M = E - e·sin(E) for the eccentric anomaly
+ * @param meanAnomaly - Mean anomaly in radians
+ * @param eccentricity - Orbital eccentricity (0 <= e < 1)
+ * @returns Eccentric anomaly in radians
+ */
+export function solveKeplerEquation(
+  meanAnomaly: number,
+  eccentricity: number,
+): number {
+  if (!Number.isFinite(meanAnomaly)) {
+    console.error(`Invalid mean anomaly: ${meanAnomaly}`);
+    return 0;
+  }
+  if (!Number.isFinite(eccentricity) || eccentricity < 0 || eccentricity >= 1) {
+    console.error(`Invalid eccentricity for elliptical orbit: ${eccentricity}`);
+    return meanAnomaly;
+  }
+
+  const M = normalizeRadians(meanAnomaly);
+  // Starting guess from Danby: converges for all elliptical eccentricities
+  let E = eccentricity < 0.8 ? M : Math.PI;
+
+  for (let i = 0; i < KEPLER_MAX_ITERATIONS; i++) {
+    const delta =
+      (E - eccentricity * Math.sin(E) - M) / (1 - eccentricity * Math.cos(E));
+    E -= delta;
+    if (Math.abs(delta) < KEPLER_TOLERANCE) break;
+  }
+
+  return E;
+}
+
+/**
+ * Mean anomaly of an orbit at a given date
+ * @param elements - Orbital elements
+ * @param date - Target date
+ * @returns Mean anomaly in radians (0 to 2π)
+ */
+export function calculateMeanAnomaly(
+  elements: OrbitalElements,
+  date: Date,
+): number {
+  const days = (date.getTime() - elements.epoch.getTime()) / MILLISECONDS_PER_DAY;
+  const meanMotion = getMeanMotion(elements);
+  return normalizeRadians(
+    elements.meanAnomalyDeg * DEG_TO_RAD + meanMotion * days,
+  );
+}
+
+/**
+ * Rotate a position in the orbital plane into the ecliptic frame
+ * @param xOrbit - Coordinate towards periapsis
+ * @param yOrbit - Coordinate 90° ahead of periapsis in the direction of motion
+ * @param elements - Orbit orientation (i, Ω, ω)
+ */
+export function orbitalPlaneToEcliptic(
+  xOrbit: number,
+  yOrbit: number,
+  elements: Pick<
+    OrbitalElements,
+    "inclinationDeg" | "longitudeOfAscendingNodeDeg" | "argumentOfPeriapsisDeg"
+  >,
+): EclipticPosition {
+  const i = elements.inclinationDeg * DEG_TO_RAD;
+  const node = elements.longitudeOfAscendingNodeDeg * DEG_TO_RAD;
+  const peri = elements.argumentOfPeriapsisDeg * DEG_TO_RAD;
+
+  const cosNode = Math.cos(node);
+  const sinNode = Math.sin(node);
+  const cosPeri = Math.cos(peri);
+  const sinPeri = Math.sin(peri);
+  const cosI = Math.cos(i);
+  const sinI = Math.sin(i);
+
+  return {
+    x:
+      (cosNode * cosPeri - sinNode * sinPeri * cosI) * xOrbit +
+      (-cosNode * sinPeri - sinNode * cosPeri * cosI) * yOrbit,
+    y:
+      (sinNode * cosPeri + cosNode * sinPeri * cosI) * xOrbit +
+      (-sinNode * sinPeri + cosNode * cosPeri * cosI) * yOrbit,
+    z: sinPeri * sinI * xOrbit + cosPeri * sinI * yOrbit,
+  };
+}
+
+/**
+ * True anomaly from the eccentric anomaly
+ * @param eccentricAnomaly - Eccentric anomaly in radians
+ * @param eccentricity - Orbital eccentricity
+ * @returns True anomaly in radians (0 to 2π)
+ */
+export function calculateTrueAnomaly(
+  eccentricAnomaly: number,
+  eccentricity: number,
+): number {
+  const halfAngle = Math.atan2(
+    Math.sqrt(1 + eccentricity) * Math.sin(eccentricAnomaly / 2),
+    Math.sqrt(1 - eccentricity) * Math.cos(eccentricAnomaly / 2),
+  );
+  return normalizeRadians(2 * halfAngle);
+}
+
+/**
+ * Heliocentric ecliptic position at a given true anomaly
+ * @param elements - Orbital elements
+ * @param trueAnomaly - True anomaly in radians
+ * @returns Position in AU (J2000 ecliptic)
+ */
+export function calculatePositionAtTrueAnomaly(
+  elements: OrbitalElements,
+  trueAnomaly: number,
+): EclipticPosition {
+  const a = elements.semiMajorAxisAU;
+  const e = elements.eccentricity;
+  // Conic equation: distance from the focus (the Sun)
+  const r = (a * (1 - e * e)) / (1 + e * Math.cos(trueAnomaly));
+
+  return orbitalPlaneToEcliptic(
+    r * Math.cos(trueAnomaly),
+    r * Math.sin(trueAnomaly),
+    elements,
+  );
+}
+
+/**
+ * Heliocentric ecliptic position of a body on a Keplerian orbit
+ * @param elements - Orbital elements
+ * @param date - Target date
+ * @returns Position in AU (J2000 ecliptic)
+ */
+export function calculateHeliocentricPosition(
+  elements: OrbitalElements,
+  date: Date,
+): EclipticPosition {
+  const e = elements.eccentricity;
+  const E = solveKeplerEquation(calculateMeanAnomaly(elements, date), e);
+  return calculatePositionAtTrueAnomaly(elements, calculateTrueAnomaly(E, e));
+}
+
+/**
+ * Ecliptic longitude of a heliocentric position
+ * @param position - Heliocentric ecliptic position
+ * @returns Longitude in degrees (0-360)
+ */
+export function positionToEclipticLongitude(position: EclipticPosition): number {
+  const longitude = Math.atan2(position.y, position.x) * RAD_TO_DEG;
+  return longitude < 0 ? longitude + 360 : longitude;
+}